@@ -71,6 +71,8 @@ const BookmarksPage = React.lazy(() => import('./pages/bookmarks'));
 const SearchResultsPage = React.lazy(() => import('./pages/search-results'));
 const NotificationsPage = React.lazy(() => import('./pages/notifications'));
 const RecommendationsPage = React.lazy(() => import('./pages/recommendations'));
+const ChallengesPage = React.lazy(() => import('./pages/challenges'));
+const ChallengePage = React.lazy(() => import('./pages/challenge'));
 
 // Settings pages - lazy loaded to reduce initial bundle
 const ProfileSettingsPage = React.lazy(() => import('./pages/settings/profile'));
@@ -106,6 +108,9 @@ const AdminWordPressSyncPage = React.lazy(() => import('./pages/admin/WordPressS
 const AdminContentManagementPage = React.lazy(() => import('./pages/admin/content-management'));
 const AdminThemesPage = React.lazy(() => import('./pages/admin/themes'));
 const ResetPasswordPage = React.lazy(() => import('./pages/reset-password'));
+const UnlockAccountPage = React.lazy(() => import('./pages/unlock-account'));
+const ConfirmLoginPage = React.lazy(() => import('./pages/confirm-login'));
+const MagicLinkPage = React.lazy(() => import('./pages/magic-link'));
 
 // Placeholder for discontinued features removed
 
@@ -220,6 +225,9 @@ const AppContent = () => {
           <Route path="/auth" component={AuthPage} />
           <Route path="/auth-success" component={AuthSuccessPage} />
           <Route path="/reset-password" component={ResetPasswordPage} />
+          <Route path="/unlock-account" component={UnlockAccountPage} />
+          <Route path="/confirm-login" component={ConfirmLoginPage} />
+          <Route path="/magic-link" component={MagicLinkPage} />
           
           {/* User Pages */}
           <Route path="/profile" component={ProfilePage} />
@@ -240,8 +248,10 @@ const AppContent = () => {
           
           {/* Community Pages */}
           <Route path="/community" component={CommunityPage} />
+          <Route path="/challenges" component={ChallengesPage} />
+          <Route path="/challenges/:id" component={ChallengePage} />
           <Route path="/submit-story" component={SubmitStoryPage} />
-          <Route path="/edit-story" component={EditStoryPage} />
+          <Route path="/edit-story/:id" component={EditStoryPage} />
           <Route path="/feedback" component={FeedbackPage} />
           <Route path="/user/feedback-dashboard" component={UserFeedbackDashboardPage} />
           <Route path="/support/guidelines" component={GuidelinesPage} />
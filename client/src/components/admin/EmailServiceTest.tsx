@@ -13,6 +13,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Send, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 
 // Type for email service status
 interface EmailServiceStatus {
@@ -21,12 +22,16 @@ interface EmailServiceStatus {
     gmail: boolean;
     sendgrid: boolean;
     mailersend: boolean;
+    local: boolean;
   };
-  primaryService: 'gmail' | 'sendgrid' | 'mailersend' | 'none';
+  // Failover order used by the outbox
+  providers: ('gmail' | 'sendgrid' | 'mailersend' | 'local')[];
+  primaryService: 'gmail' | 'sendgrid' | 'mailersend' | 'local' | 'none';
 }
 
 export default function EmailServiceTest() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   // Removed unused 'loading' state
   const [sending, setSending] = useState(false);
   const [statusLoading, setStatusLoading] = useState(true);
@@ -109,13 +114,12 @@ export default function EmailServiceTest() {
       const data = await response.json();
       
       toast({
-        title: 'Success',
-        description: `Email sent successfully via ${data.details.service}`,
+        title: 'Email Queued',
+        description: `Queued as #${data.details.outboxId}; follow its delivery in the outbox below`,
         variant: 'default'
       });
       
-      // Refresh status after sending
-      fetchEmailStatus();
+      queryClient.invalidateQueries({ queryKey: ['/api/email/outbox'] });
     } catch (error: any) {
       console.error('Error sending test email:', error);
       toast({
@@ -242,9 +246,11 @@ export default function EmailServiceTest() {
                       )}
                     </Badge>
                     <span className="ml-2 text-sm text-muted-foreground">
-                      {status.primaryService !== 'none' 
-                        ? 'Emails will be sent via this provider' 
-                        : 'No email service is available. Configure at least one provider.'}
+                      {status.primaryService === 'local'
+                        ? 'Development sink: emails are written locally and never reach an inbox'
+                        : status.primaryService !== 'none'
+                          ? `Emails will be sent via this provider${status.providers.length > 1 ? `, then ${status.providers.slice(1).join(', then ')} if it fails` : ''}`
+                          : 'No email service is available. Configure at least one provider.'}
                     </span>
                   </div>
                 </div>
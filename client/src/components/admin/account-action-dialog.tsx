@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export type AccountAction = 'suspend' | 'ban' | 'reinstate' | 'mute' | 'unmute' | 'logout';
+
+interface ActionCopy {
+  title: string;
+  description: string;
+  confirm: string;
+  done: string;
+  destructive?: boolean;
+}
+
+const ACTIONS: Record<AccountAction, ActionCopy> = {
+  suspend: {
+    title: 'Suspend account',
+    description: "They're signed out and can't sign in, comment or submit stories until the suspension ends.",
+    confirm: 'Suspend',
+    done: 'Account suspended',
+    destructive: true
+  },
+  ban: {
+    title: 'Ban account',
+    description: "They're signed out and can't sign in, comment or submit stories until reinstated.",
+    confirm: 'Ban',
+    done: 'Account banned',
+    destructive: true
+  },
+  reinstate: {
+    title: 'Reinstate account',
+    description: 'Lifts the suspension or ban so they can sign in again.',
+    confirm: 'Reinstate',
+    done: 'Account reinstated'
+  },
+  mute: {
+    title: 'Shadow-mute commenter',
+    description: 'Their comments keep looking published to them, but nobody else sees them.',
+    confirm: 'Mute',
+    done: 'Commenter muted',
+    destructive: true
+  },
+  unmute: {
+    title: 'Unmute commenter',
+    description: 'Comments they wrote while muted become visible to everyone.',
+    confirm: 'Unmute',
+    done: 'Commenter unmuted'
+  },
+  logout: {
+    title: 'Sign out everywhere',
+    description: 'Ends every session on every browser and device. They can sign straight back in.',
+    confirm: 'Sign out',
+    done: 'Sessions revoked'
+  }
+};
+
+const SUSPENSION_DAYS = [1, 3, 7, 14, 30, 90];
+
+function requestFor(action: AccountAction, userId: number, reason: string, days: number): [string, unknown] {
+  switch (action) {
+    case 'suspend': return [`/api/admin/users/${userId}/suspend`, { reason, days }];
+    case 'ban': return [`/api/admin/users/${userId}/ban`, { reason }];
+    case 'reinstate': return [`/api/admin/users/${userId}/reinstate`, { reason }];
+    case 'mute': return [`/api/admin/users/${userId}/shadow-mute`, { muted: true, reason }];
+    case 'unmute': return [`/api/admin/users/${userId}/shadow-mute`, { muted: false, reason }];
+    case 'logout': return [`/api/admin/users/${userId}/logout`, { reason }];
+  }
+}
+
+/** Confirm a suspension, ban, mute or sign-out, with the reason that goes into the activity log */
+export function AccountActionDialog({
+  account,
+  action,
+  onOpenChange
+}: {
+  account: { id: number; username: string } | null;
+  action: AccountAction | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const [days, setDays] = useState(7);
+
+  const close = () => {
+    setReason('');
+    setDays(7);
+    onOpenChange(false);
+  };
+
+  const submit = useMutation({
+    mutationFn: () => {
+      const [url, body] = requestFor(action!, account!.id, reason.trim(), days);
+      return apiRequest(url, { method: 'POST', body: JSON.stringify(body) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: ACTIONS[action!].done, description: account?.username });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const copy = action ? ACTIONS[action] : null;
+
+  return (
+    <Dialog open={!!account && !!action} onOpenChange={(open) => { if (!open) close(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy?.title}{account ? `: ${account.username}` : ''}</DialogTitle>
+          <DialogDescription>{copy?.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {action === 'suspend' && (
+            <div className="space-y-2">
+              <Label htmlFor="suspension-length">Length</Label>
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger id="suspension-length">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUSPENSION_DAYS.map(length => (
+                    <SelectItem key={length} value={String(length)}>
+                      {length === 1 ? '1 day' : `${length} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="account-action-reason">Reason</Label>
+            <Textarea
+              id="account-action-reason"
+              placeholder="Recorded in the activity log"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            variant={copy?.destructive ? 'destructive' : 'default'}
+            disabled={reason.trim().length < 3 || submit.isPending}
+            onClick={() => submit.mutate()}
+          >
+            {submit.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {copy?.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
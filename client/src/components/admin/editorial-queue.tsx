@@ -0,0 +1,457 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, ExternalLink, Inbox, Loader2, MessageSquare } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { THEME_CATEGORIES } from "@shared/theme-categories";
+import type { Post, SubmissionStatus } from "@shared/schema";
+
+interface SubmissionChecklist {
+  contentWarningsSet: boolean;
+  themeAssigned: boolean;
+}
+
+interface SubmissionListItem {
+  id: number;
+  postId: number;
+  authorId: number;
+  status: SubmissionStatus;
+  reviewerId: number | null;
+  scheduledFor: string | null;
+  submittedAt: string;
+  updatedAt: string;
+  title: string;
+  slug: string;
+  authorName: string | null;
+  reviewerName: string | null;
+  checklist: SubmissionChecklist;
+}
+
+interface SubmissionNote {
+  id: number;
+  authorId: number | null;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+interface SubmissionHistoryEntry {
+  id: number;
+  action: string;
+  actorName: string | null;
+  from: SubmissionStatus | null;
+  to: SubmissionStatus | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+interface SubmissionDetail extends SubmissionListItem {
+  post: Post;
+  notes: SubmissionNote[];
+  history: SubmissionHistoryEntry[];
+  nextStatuses: SubmissionStatus[];
+}
+
+interface QueueResponse {
+  submissions: SubmissionListItem[];
+  counts: Record<SubmissionStatus, number>;
+}
+
+const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  submitted: "Submitted",
+  in_review: "In review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+  scheduled: "Scheduled",
+  published: "Published",
+  rejected: "Rejected",
+};
+
+// Button wording for moving a submission into each state
+const TRANSITION_LABELS: Record<SubmissionStatus, string> = {
+  submitted: "Return to queue",
+  in_review: "Start review",
+  changes_requested: "Request changes",
+  approved: "Approve",
+  scheduled: "Schedule",
+  published: "Publish now",
+  rejected: "Reject",
+};
+
+const OPEN_STATUSES: SubmissionStatus[] = ["submitted", "in_review", "changes_requested", "approved", "scheduled"];
+
+function describeHistory(entry: SubmissionHistoryEntry): string {
+  switch (entry.action) {
+    case "submission_transition":
+      return entry.from
+        ? `${SUBMISSION_STATUS_LABELS[entry.from]} → ${entry.to ? SUBMISSION_STATUS_LABELS[entry.to] : "?"}`
+        : `Moved to ${entry.to ? SUBMISSION_STATUS_LABELS[entry.to] : "?"}`;
+    case "submission_reviewer_assigned":
+      return entry.details.reviewerId ? "Reviewer assigned" : "Reviewer removed";
+    case "submission_note_added":
+      return "Note to author";
+    case "submission_checklist_updated":
+      return "Checklist updated";
+    default:
+      return entry.action;
+  }
+}
+
+function ChecklistItem({ done, label }: { done: boolean; label: string }) {
+  return (
+    <span className={`flex items-center gap-1 text-xs ${done ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}>
+      {done ? <CheckCircle2 className="h-3.5 w-3.5" /> : <Circle className="h-3.5 w-3.5" />}
+      {label}
+    </span>
+  );
+}
+
+function SubmissionDialog({ submissionId, onClose }: { submissionId: number; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [warnings, setWarnings] = useState("");
+  const [noWarnings, setNoWarnings] = useState(false);
+  const [theme, setTheme] = useState<string>("");
+
+  const detailKey = [`/api/submissions/${submissionId}`];
+  const { data: submission, isLoading } = useQuery<SubmissionDetail>({
+    queryKey: detailKey,
+    queryFn: () => apiRequest<SubmissionDetail>(`/api/submissions/${submissionId}`),
+  });
+  const { data: reviewerData } = useQuery<{ reviewers: Array<{ id: number; username: string }> }>({
+    queryKey: ["/api/submissions/reviewers"],
+    queryFn: () => apiRequest("/api/submissions/reviewers"),
+  });
+
+  // Start the checklist form from what the story already has
+  useEffect(() => {
+    if (!submission) return;
+    const current = (submission.post.metadata as { triggerWarnings?: unknown } | null)?.triggerWarnings;
+    setWarnings(Array.isArray(current) ? current.join(", ") : "");
+    setNoWarnings(Array.isArray(current) && current.length === 0);
+    setTheme(submission.post.themeCategory ?? "");
+  }, [submission]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: detailKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
+  };
+  const onError = (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const transition = useMutation({
+    mutationFn: (status: SubmissionStatus) =>
+      apiRequest(`/api/submissions/${submissionId}/transition`, {
+        method: "POST",
+        body: JSON.stringify({
+          status,
+          note: note.trim() || null,
+          ...(status === "scheduled" && scheduledFor ? { scheduledFor: new Date(scheduledFor).toISOString() } : {}),
+        }),
+      }),
+    onSuccess: (_result, status) => {
+      setNote("");
+      refresh();
+      toast({ title: "Submission updated", description: `Moved to ${SUBMISSION_STATUS_LABELS[status].toLowerCase()}.` });
+    },
+    onError,
+  });
+
+  const assign = useMutation({
+    mutationFn: (reviewerId: number | null) =>
+      apiRequest(`/api/submissions/${submissionId}/reviewer`, { method: "PUT", body: JSON.stringify({ reviewerId }) }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const addNote = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/submissions/${submissionId}/notes`, { method: "POST", body: JSON.stringify({ body: note }) }),
+    onSuccess: () => {
+      setNote("");
+      refresh();
+      toast({ title: "Note sent", description: "The author has been notified." });
+    },
+    onError,
+  });
+
+  const saveChecklist = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/submissions/${submissionId}/checklist`, {
+        method: "PUT",
+        body: JSON.stringify({
+          triggerWarnings: noWarnings ? [] : warnings.split(",").map(w => w.trim()).filter(Boolean),
+          themeCategory: theme || null,
+        }),
+      }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Checklist saved" });
+    },
+    onError,
+  });
+
+  const warningsEntered = noWarnings || warnings.split(",").some(w => w.trim());
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !submission ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {submission.title}
+                <Badge variant="outline">{SUBMISSION_STATUS_LABELS[submission.status]}</Badge>
+              </DialogTitle>
+              <DialogDescription>
+                By {submission.authorName ?? "unknown author"} · submitted {format(new Date(submission.submittedAt), "MMM d, yyyy h:mm a")}
+                {submission.scheduledFor && ` · scheduled for ${format(new Date(submission.scheduledFor), "MMM d, yyyy h:mm a")}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6">
+              <ScrollArea className="h-48 rounded-md border p-3">
+                <p className="font-serif text-sm whitespace-pre-wrap">{submission.post.content}</p>
+              </ScrollArea>
+
+              <section className="space-y-3">
+                <h3 className="text-sm font-medium">Checklist</h3>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="submission-warnings">Content warnings</Label>
+                    <Input
+                      id="submission-warnings"
+                      placeholder="gore, self-harm"
+                      value={warnings}
+                      disabled={noWarnings}
+                      onChange={(e) => setWarnings(e.target.value)}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Checkbox checked={noWarnings} onCheckedChange={(checked) => setNoWarnings(checked === true)} />
+                      No content warnings needed
+                    </label>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Theme</Label>
+                    <Select value={theme} onValueChange={setTheme}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a theme" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(THEME_CATEGORIES).map(([key, category]) => (
+                          <SelectItem key={key} value={key}>{category.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex gap-4">
+                    <ChecklistItem done={submission.checklist.contentWarningsSet} label="Content warnings set" />
+                    <ChecklistItem done={submission.checklist.themeAssigned} label="Theme assigned" />
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!warningsEntered || !theme || saveChecklist.isPending}
+                    onClick={() => saveChecklist.mutate()}
+                  >
+                    Save checklist
+                  </Button>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <Label>Reviewer</Label>
+                <Select
+                  value={submission.reviewerId ? String(submission.reviewerId) : "none"}
+                  onValueChange={(value) => assign.mutate(value === "none" ? null : Number(value))}
+                >
+                  <SelectTrigger className="max-w-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {reviewerData?.reviewers.map(reviewer => (
+                      <SelectItem key={reviewer.id} value={String(reviewer.id)}>{reviewer.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </section>
+
+              <section className="space-y-3">
+                <Label htmlFor="submission-note">Note to the author</Label>
+                <Textarea
+                  id="submission-note"
+                  rows={3}
+                  placeholder="Only the author and editors see this. It is sent with the next status change, or on its own."
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                {submission.nextStatuses.includes("scheduled") && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="submission-schedule" className="text-xs whitespace-nowrap">Publish at</Label>
+                    <Input
+                      id="submission-schedule"
+                      type="datetime-local"
+                      className="max-w-xs"
+                      value={scheduledFor}
+                      onChange={(e) => setScheduledFor(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {submission.nextStatuses.map(status => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={status === "rejected" ? "destructive" : status === "published" || status === "approved" ? "default" : "outline"}
+                      disabled={transition.isPending || (status === "scheduled" && !scheduledFor)}
+                      onClick={() => transition.mutate(status)}
+                    >
+                      {TRANSITION_LABELS[status]}
+                    </Button>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={!note.trim() || addNote.isPending}
+                    onClick={() => addNote.mutate()}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-1" />
+                    Send note only
+                  </Button>
+                </div>
+              </section>
+
+              {submission.notes.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-medium">Notes</h3>
+                  <ul className="space-y-2">
+                    {submission.notes.map(entry => (
+                      <li key={entry.id} className="rounded-md bg-muted/50 p-3 text-sm">
+                        <p className="whitespace-pre-wrap">{entry.body}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {entry.authorName ?? "Editor"} · {format(new Date(entry.createdAt), "MMM d, h:mm a")}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">History</h3>
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {submission.history.map(entry => (
+                    <li key={entry.id}>
+                      {format(new Date(entry.createdAt), "MMM d, h:mm a")} · {describeHistory(entry)}
+                      {entry.actorName && ` · ${entry.actorName}`}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <a
+                href={`/edit-story/${submission.postId}`}
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <ExternalLink className="h-4 w-4" />
+                Open in editor
+              </a>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function EditorialQueue() {
+  const [status, setStatus] = useState<SubmissionStatus>("submitted");
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<QueueResponse>({
+    queryKey: ["/api/submissions", status],
+    queryFn: () => apiRequest<QueueResponse>(`/api/submissions?status=${status}`),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Submissions
+        </CardTitle>
+        <CardDescription>
+          Community stories waiting on an editor. A story needs its content warnings and theme set before it can be approved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {[...OPEN_STATUSES, "published" as const, "rejected" as const].map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={status === option ? "default" : "outline"}
+              onClick={() => setStatus(option)}
+            >
+              {SUBMISSION_STATUS_LABELS[option]}
+              {data?.counts && <Badge variant="secondary" className="ml-2">{data.counts[option]}</Badge>}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !data?.submissions.length ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Nothing here.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {data.submissions.map(submission => (
+              <li key={submission.id}>
+                <button
+                  type="button"
+                  className="w-full text-left py-3 flex flex-wrap items-center gap-3 hover:bg-muted/40 rounded-md px-2"
+                  onClick={() => setSelected(submission.id)}
+                >
+                  <div className="flex-1 min-w-[200px]">
+                    <p className="font-medium">{submission.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {submission.authorName ?? "Unknown author"} · updated {format(new Date(submission.updatedAt), "MMM d, h:mm a")}
+                      {submission.reviewerName && ` · reviewer ${submission.reviewerName}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-3">
+                    <ChecklistItem done={submission.checklist.contentWarningsSet} label="Warnings" />
+                    <ChecklistItem done={submission.checklist.themeAssigned} label="Theme" />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {selected !== null && <SubmissionDialog submissionId={selected} onClose={() => setSelected(null)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, Inbox, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+interface OutboxAttempt {
+  provider: string;
+  success: boolean;
+  error?: string;
+  at: string;
+}
+
+interface OutboxMessage {
+  id: number;
+  category: string;
+  recipients: string[];
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  provider: string | null;
+  lastError: string | null;
+  attemptLog: OutboxAttempt[];
+  resentFromId: number | null;
+  // False for messages that carried reset or sign-in links
+  resendable: boolean;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface OutboxStats {
+  byStatus: Record<OutboxStatus, number>;
+  byProvider: Record<string, number>;
+}
+
+const STATUSES: OutboxStatus[] = ['queued', 'sending', 'sent', 'failed', 'cancelled'];
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  queued: "bg-blue-500/10 text-blue-500",
+  sending: "bg-amber-500/10 text-amber-500",
+  sent: "bg-green-500/10 text-green-500",
+  failed: "bg-red-500/10 text-red-500",
+  cancelled: "bg-muted text-muted-foreground"
+};
+
+export function EmailOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<OutboxStatus | 'all'>('all');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const { data: messages, isLoading, isFetching, refetch } = useQuery<OutboxMessage[]>({
+    queryKey: ['/api/email/outbox', status],
+    queryFn: () => apiRequest<OutboxMessage[]>(`/api/email/outbox?limit=100${status === 'all' ? '' : `&status=${status}`}`),
+    refetchInterval: 15000
+  });
+
+  const { data: stats } = useQuery<OutboxStats>({
+    queryKey: ['/api/email/outbox/stats'],
+    queryFn: () => apiRequest<OutboxStats>('/api/email/outbox/stats'),
+    refetchInterval: 15000
+  });
+
+  const resend = useMutation({
+    mutationFn: (id: number) => apiRequest<OutboxMessage>(`/api/email/outbox/${id}/resend`, { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email/outbox'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/email/outbox/stats'] });
+      toast({ title: "Email Queued", description: `A copy was queued as #${copy.id}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const providerSummary = stats
+    ? Object.entries(stats.byProvider).map(([provider, count]) => `${provider}: ${count}`).join(' · ')
+    : '';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between space-y-0">
+        <div>
+          <CardTitle>Outbox</CardTitle>
+          <CardDescription>
+            Every email the site sends, with its delivery attempts
+            {providerSummary ? ` — sent in the last 7 days by ${providerSummary}` : ''}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as OutboxStatus | 'all')}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {STATUSES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}{stats ? ` (${stats.byStatus[option]})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array(4).fill(0).map((_, index) => <Skeleton key={index} className="h-10 w-full" />)}
+          </div>
+        ) : messages && messages.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Subject</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.map((message) => (
+                <Fragment key={message.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        aria-label="Show delivery attempts"
+                        onClick={() => setExpanded(expanded === message.id ? null : message.id)}
+                      >
+                        {expanded === message.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="max-w-[240px] truncate" title={message.subject}>
+                      {message.subject}
+                      {message.resentFromId && <span className="text-xs text-muted-foreground"> (resend of #{message.resentFromId})</span>}
+                    </TableCell>
+                    <TableCell className="max-w-[180px] truncate">{message.recipients.join(', ')}</TableCell>
+                    <TableCell>{message.category}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[message.status]}>{message.status}</Badge>
+                      {message.status === 'queued' && message.attempts > 0 && (
+                        <span className="block text-xs text-muted-foreground">
+                          retry {message.attempts + 1}/{message.maxAttempts} {formatDistanceToNow(new Date(message.nextAttemptAt), { addSuffix: true })}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{message.provider ?? '—'}</TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!message.resendable || message.status === 'queued' || message.status === 'sending' || resend.isPending}
+                        title={message.resendable ? undefined : "Contains a reset or sign-in link"}
+                        onClick={() => resend.mutate(message.id)}
+                      >
+                        {resend.isPending && resend.variables === message.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <RotateCcw className="h-4 w-4 mr-1" />}
+                        Resend
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === message.id && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={7}>
+                        {message.attemptLog.length > 0 ? (
+                          <ul className="space-y-1 text-xs">
+                            {message.attemptLog.map((attempt, index) => (
+                              <li key={index} className={attempt.success ? 'text-green-600' : 'text-red-500'}>
+                                {new Date(attempt.at).toLocaleString()} — {attempt.provider}: {attempt.success ? 'delivered' : attempt.error}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">No delivery attempts yet.</p>
+                        )}
+                        {message.lastError && message.status === 'failed' && (
+                          <p className="mt-2 text-xs text-red-500">Gave up: {message.lastError}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center text-muted-foreground">
+            <Inbox className="h-8 w-8 mb-2" />
+            <p className="text-sm">No emails {status === 'all' ? 'yet' : `with status "${status}"`}.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
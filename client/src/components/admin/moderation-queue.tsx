@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Calendar, CheckCircle, Flag, Loader2, MessageSquare, User, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface QueueDecision {
+  id: number;
+  ruleId: number | null;
+  ruleName: string | null;
+  action: string;
+  source: string;
+  matched: string[];
+  reason: string | null;
+  createdAt: string;
+}
+
+interface QueueItem {
+  contentType: string;
+  contentId: number;
+  content: string;
+  author: string;
+  userId: number | null;
+  postId: number | null;
+  postTitle: string | null;
+  createdAt: string;
+  decisions: QueueDecision[];
+}
+
+interface QueueResponse {
+  items: QueueItem[];
+  total: number;
+}
+
+const QUEUE_KEY = ['/api/moderation/queue'];
+
+const actionBadgeClass: Record<string, string> = {
+  hold: 'bg-amber-500/10 text-amber-500',
+  shadow_hide: 'bg-purple-500/10 text-purple-500',
+  flag: 'bg-red-500/10 text-red-500'
+};
+
+function decisionLabel(decision: QueueDecision): string {
+  if (decision.source === 'flag') return 'Reader flag';
+  return decision.ruleName || 'Rule';
+}
+
+export function ModerationQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { data, isLoading } = useQuery<QueueResponse>({
+    queryKey: QUEUE_KEY,
+    queryFn: () => apiRequest<QueueResponse>('/api/moderation/queue?limit=100')
+  });
+
+  const review = useMutation({
+    mutationFn: ({ ids, decision }: { ids: number[]; decision: 'approve' | 'reject' }) =>
+      ids.length === 1
+        ? apiRequest(`/api/moderation/queue/${ids[0]}/${decision}`, { method: 'POST', body: JSON.stringify({}) })
+        : apiRequest('/api/moderation/queue/bulk', { method: 'POST', body: JSON.stringify({ contentIds: ids, decision }) }),
+    onSuccess: (_result, { ids, decision }) => {
+      setSelected(prev => {
+        const next = new Set(prev);
+        ids.forEach(id => next.delete(id));
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      toast({
+        title: decision === 'approve' ? "Comments Approved" : "Comments Rejected",
+        description: `${ids.length} comment${ids.length === 1 ? '' : 's'} ${decision === 'approve' ? 'published' : 'removed from view'}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const items = data?.items ?? [];
+  const allSelected = items.length > 0 && items.every(item => selected.has(item.contentId));
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between space-y-0">
+        <div>
+          <CardTitle>Comment Review Queue</CardTitle>
+          <CardDescription>
+            Comments held by a moderation rule, shadow-hidden, or flagged by readers
+            {data ? ` (${data.total})` : ''}
+          </CardDescription>
+        </div>
+        {items.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || review.isPending}
+              onClick={() => review.mutate({ ids: Array.from(selected), decision: 'approve' })}
+              className="text-green-600"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve selected
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selected.size === 0 || review.isPending}
+              onClick={() => review.mutate({ ids: Array.from(selected), decision: 'reject' })}
+              className="text-red-600"
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              Reject selected
+            </Button>
+            {review.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array(3).fill(0).map((_, index) => (
+              <div key={index} className="flex gap-4">
+                <Skeleton className="h-12 w-12 rounded-full" />
+                <div className="space-y-2 flex-1">
+                  <Skeleton className="h-4 w-[250px]" />
+                  <Skeleton className="h-4 w-full" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : items.length > 0 ? (
+          <>
+            <div className="flex items-center gap-2 pb-3">
+              <Checkbox
+                id="moderation-select-all"
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(checked ? new Set(items.map(item => item.contentId)) : new Set())}
+              />
+              <label htmlFor="moderation-select-all" className="text-sm text-muted-foreground">
+                Select all
+              </label>
+            </div>
+            <ScrollArea className="h-[400px]">
+              <div className="space-y-4 pr-4">
+                {items.map((item) => (
+                  <Card key={item.contentId} className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex space-x-3">
+                        <Checkbox
+                          checked={selected.has(item.contentId)}
+                          onCheckedChange={(checked) => toggle(item.contentId, checked === true)}
+                          aria-label={`Select comment ${item.contentId}`}
+                          className="mt-1"
+                        />
+                        <div className="flex-shrink-0 h-10 w-10 rounded-full bg-muted flex items-center justify-center">
+                          <User className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">
+                            {item.author}
+                            {item.postTitle && (
+                              <span className="text-muted-foreground font-normal"> on {item.postTitle}</span>
+                            )}
+                          </p>
+                          <p className="text-sm whitespace-pre-wrap">{item.content}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {item.decisions.map((decision) => (
+                              <Badge
+                                key={decision.id}
+                                variant="outline"
+                                className={actionBadgeClass[decision.action] || ''}
+                                title={decision.reason || undefined}
+                              >
+                                {decision.source === 'flag' && <Flag className="h-3 w-3 mr-1" />}
+                                {decisionLabel(decision)}
+                                {decision.matched.length > 0 && `: ${decision.matched.slice(0, 3).join(', ')}`}
+                              </Badge>
+                            ))}
+                          </div>
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Calendar className="mr-1 h-3 w-3" />
+                            Posted {new Date(item.createdAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={review.isPending}
+                          onClick={() => review.mutate({ ids: [item.contentId], decision: 'approve' })}
+                          className="text-green-600"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={review.isPending}
+                          onClick={() => review.mutate({ ids: [item.contentId], decision: 'reject' })}
+                          className="text-red-600"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        ) : (
+          <div className="text-center py-12 bg-muted/20 rounded-lg border border-border">
+            <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-3 opacity-50" />
+            <p className="text-muted-foreground">No comments awaiting review</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
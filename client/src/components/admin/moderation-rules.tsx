@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Beaker, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ModerationAllowlistEntry, ModerationRule, ModerationRuleSet } from "@shared/schema";
+
+type RuleType = 'word_list' | 'regex' | 'link_limit' | 'new_account';
+type RuleAction = 'hold' | 'mask' | 'reject' | 'shadow_hide';
+
+interface RuleConfig {
+  words?: string[];
+  pattern?: string;
+  flags?: string;
+  maxLinks?: number;
+  minAccountAgeHours?: number;
+  includeAnonymous?: boolean;
+}
+
+type RuleSetWithRules = ModerationRuleSet & { rules: ModerationRule[] };
+
+interface TestResult {
+  action: RuleAction | null;
+  text: string;
+  hits: Array<{ ruleName: string; action: RuleAction; matched: string[]; reason: string }>;
+}
+
+const RULE_SETS_KEY = ['/api/moderation/rule-sets'];
+const ALLOWLIST_KEY = ['/api/moderation/allowlist'];
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  word_list: 'Word list',
+  regex: 'Regular expression',
+  link_limit: 'Link limit',
+  new_account: 'New account'
+};
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  hold: 'Hold for review',
+  mask: 'Mask words',
+  reject: 'Reject',
+  shadow_hide: 'Shadow-hide'
+};
+
+function defaultConfig(type: RuleType): RuleConfig {
+  switch (type) {
+    case 'word_list': return { words: [] };
+    case 'regex': return { flags: 'i' };
+    case 'link_limit': return { maxLinks: 2 };
+    case 'new_account': return { minAccountAgeHours: 24, includeAnonymous: false };
+  }
+}
+
+function splitWords(value: string): string[] {
+  return value.split(/[\n,]/).map(word => word.trim()).filter(Boolean);
+}
+
+interface RuleConfigFieldsProps {
+  type: RuleType;
+  config: RuleConfig;
+  onChange: (config: RuleConfig) => void;
+}
+
+function RuleConfigFields({ type, config, onChange }: RuleConfigFieldsProps) {
+  switch (type) {
+    case 'word_list':
+      return (
+        <Textarea
+          placeholder="One word or phrase per line"
+          defaultValue={(config.words || []).join('\n')}
+          onBlur={(e) => onChange({ ...config, words: splitWords(e.target.value) })}
+          rows={3}
+        />
+      );
+    case 'regex':
+      return (
+        <Input
+          placeholder="Pattern, e.g. \bfree\s+money\b"
+          defaultValue={config.pattern || ''}
+          onBlur={(e) => onChange({ ...config, pattern: e.target.value })}
+        />
+      );
+    case 'link_limit':
+      return (
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Maximum links</Label>
+          <Input
+            type="number"
+            min={0}
+            className="w-24"
+            defaultValue={config.maxLinks ?? 2}
+            onBlur={(e) => onChange({ ...config, maxLinks: Number(e.target.value) })}
+          />
+        </div>
+      );
+    case 'new_account':
+      return (
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Minimum account age (hours)</Label>
+            <Input
+              type="number"
+              min={0}
+              className="w-24"
+              defaultValue={config.minAccountAgeHours ?? 24}
+              onBlur={(e) => onChange({ ...config, minAccountAgeHours: Number(e.target.value) })}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={Boolean(config.includeAnonymous)}
+              onCheckedChange={(checked) => onChange({ ...config, includeAnonymous: checked })}
+            />
+            <Label className="text-sm">Also applies to guests</Label>
+          </div>
+        </div>
+      );
+  }
+}
+
+export function ModerationRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRuleSetName, setNewRuleSetName] = useState("");
+  const [newRule, setNewRule] = useState<{ ruleSetId: number | null; name: string; type: RuleType; action: RuleAction }>({
+    ruleSetId: null,
+    name: "",
+    type: 'word_list',
+    action: 'hold'
+  });
+  const [newTerm, setNewTerm] = useState({ term: "", context: "global" });
+  const [testContent, setTestContent] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const { data: ruleSets, isLoading } = useQuery<RuleSetWithRules[]>({
+    queryKey: RULE_SETS_KEY,
+    queryFn: () => apiRequest<RuleSetWithRules[]>('/api/moderation/rule-sets')
+  });
+
+  const { data: allowlist } = useQuery<ModerationAllowlistEntry[]>({
+    queryKey: ALLOWLIST_KEY,
+    queryFn: () => apiRequest<ModerationAllowlistEntry[]>('/api/moderation/allowlist')
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const refreshRules = () => queryClient.invalidateQueries({ queryKey: RULE_SETS_KEY });
+
+  const createRuleSet = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest('/api/moderation/rule-sets', { method: 'POST', body: JSON.stringify({ name, context: 'comment' }) }),
+    onSuccess: () => {
+      setNewRuleSetName("");
+      refreshRules();
+    },
+    onError
+  });
+
+  const updateRuleSet = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; enabled?: boolean; context?: string }) =>
+      apiRequest(`/api/moderation/rule-sets/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+    onSuccess: refreshRules,
+    onError
+  });
+
+  const deleteRuleSet = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/moderation/rule-sets/${id}`, { method: 'DELETE' }),
+    onSuccess: refreshRules,
+    onError
+  });
+
+  const createRule = useMutation({
+    mutationFn: (rule: typeof newRule) =>
+      apiRequest('/api/moderation/rules', {
+        method: 'POST',
+        body: JSON.stringify({ ...rule, config: defaultConfig(rule.type), enabled: false })
+      }),
+    onSuccess: () => {
+      setNewRule(prev => ({ ...prev, name: "" }));
+      refreshRules();
+      toast({ title: "Rule Added", description: "Configure the rule, then enable it." });
+    },
+    onError
+  });
+
+  const updateRule = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; action?: RuleAction; enabled?: boolean; config?: RuleConfig }) =>
+      apiRequest(`/api/moderation/rules/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+    onSuccess: refreshRules,
+    onError
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/moderation/rules/${id}`, { method: 'DELETE' }),
+    onSuccess: refreshRules,
+    onError
+  });
+
+  const addTerm = useMutation({
+    mutationFn: (entry: typeof newTerm) =>
+      apiRequest('/api/moderation/allowlist', { method: 'POST', body: JSON.stringify(entry) }),
+    onSuccess: () => {
+      setNewTerm(prev => ({ ...prev, term: "" }));
+      queryClient.invalidateQueries({ queryKey: ALLOWLIST_KEY });
+    },
+    onError
+  });
+
+  const removeTerm = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/moderation/allowlist/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ALLOWLIST_KEY }),
+    onError
+  });
+
+  const runTest = useMutation({
+    mutationFn: (content: string) =>
+      apiRequest<TestResult>('/api/moderation/test', { method: 'POST', body: JSON.stringify({ content }) }),
+    onSuccess: setTestResult,
+    onError
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Moderation Rules</CardTitle>
+          <CardDescription>
+            Rules run on every new or edited comment. When several fire, the strictest action wins
+            (reject, then hold, then shadow-hide, then mask).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {ruleSets?.map((ruleSet) => (
+            <div key={ruleSet.id} className="rounded-lg border p-4 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium">{ruleSet.name}</h3>
+                  <Badge variant="outline">{ruleSet.context}</Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={ruleSet.enabled}
+                    onCheckedChange={(enabled) => updateRuleSet.mutate({ id: ruleSet.id, enabled })}
+                    aria-label={`Enable ${ruleSet.name}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm(`Delete "${ruleSet.name}" and all of its rules?`)) {
+                        deleteRuleSet.mutate(ruleSet.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {ruleSet.rules.length === 0 && (
+                <p className="text-sm text-muted-foreground">No rules in this set yet.</p>
+              )}
+
+              {ruleSet.rules.map((rule) => {
+                const type = rule.type as RuleType;
+                return (
+                  <div key={rule.id} className="rounded-md bg-muted/30 p-3 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) => updateRule.mutate({ id: rule.id, enabled })}
+                          aria-label={`Enable ${rule.name}`}
+                        />
+                        <span className="text-sm font-medium">{rule.name}</span>
+                        <Badge variant="secondary">{RULE_TYPE_LABELS[type] ?? rule.type}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={rule.action}
+                          onValueChange={(action) => updateRule.mutate({ id: rule.id, action: action as RuleAction })}
+                        >
+                          <SelectTrigger className="w-[160px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ACTION_LABELS) as RuleAction[]).map((action) => (
+                              <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => deleteRule.mutate(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <RuleConfigFields
+                      type={type}
+                      config={(rule.config || {}) as RuleConfig}
+                      onChange={(config) => updateRule.mutate({ id: rule.id, config })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>New rule</Label>
+              <div className="flex flex-wrap gap-2">
+                <Select
+                  value={newRule.ruleSetId ? String(newRule.ruleSetId) : undefined}
+                  onValueChange={(value) => setNewRule(prev => ({ ...prev, ruleSetId: Number(value) }))}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Rule set" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ruleSets?.map((ruleSet) => (
+                      <SelectItem key={ruleSet.id} value={String(ruleSet.id)}>{ruleSet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={newRule.type}
+                  onValueChange={(type) => setNewRule(prev => ({ ...prev, type: type as RuleType }))}
+                >
+                  <SelectTrigger className="w-[170px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_TYPE_LABELS) as RuleType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{RULE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Rule name"
+                  className="flex-1 min-w-[140px]"
+                  value={newRule.name}
+                  onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  disabled={!newRule.ruleSetId || !newRule.name.trim() || createRule.isPending}
+                  onClick={() => createRule.mutate(newRule)}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>New rule set</Label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Rule set name"
+                  value={newRuleSetName}
+                  onChange={(e) => setNewRuleSetName(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  disabled={!newRuleSetName.trim() || createRuleSet.isPending}
+                  onClick={() => createRuleSet.mutate(newRuleSetName.trim())}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Create
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Allowlist</CardTitle>
+          <CardDescription>
+            Terms that never trigger word-list or pattern rules. Scope a term to one story theme with
+            a context such as <code>theme:gothic</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {allowlist?.map((entry) => (
+              <Badge key={entry.id} variant="outline" className="gap-1 py-1">
+                {entry.term}
+                <span className="text-muted-foreground">({entry.context})</span>
+                <button
+                  type="button"
+                  className="ml-1 text-muted-foreground hover:text-foreground"
+                  onClick={() => removeTerm.mutate(entry.id)}
+                  aria-label={`Remove ${entry.term}`}
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+            {allowlist?.length === 0 && (
+              <p className="text-sm text-muted-foreground">No allowed terms.</p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="Term"
+              className="w-[200px]"
+              value={newTerm.term}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, term: e.target.value }))}
+            />
+            <Input
+              placeholder="global, comment or theme:<category>"
+              className="w-[260px]"
+              value={newTerm.context}
+              onChange={(e) => setNewTerm(prev => ({ ...prev, context: e.target.value.trim().toLowerCase() }))}
+            />
+            <Button
+              size="sm"
+              disabled={!newTerm.term.trim() || addTerm.isPending}
+              onClick={() => addTerm.mutate(newTerm)}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Allow
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Test Rules</CardTitle>
+          <CardDescription>See which rules would fire on a sample comment. Nothing is saved.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            placeholder="Paste a comment to test"
+            value={testContent}
+            onChange={(e) => setTestContent(e.target.value)}
+            rows={3}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!testContent.trim() || runTest.isPending}
+            onClick={() => runTest.mutate(testContent)}
+          >
+            <Beaker className="h-4 w-4 mr-1" />
+            Run test
+          </Button>
+          {testResult && (
+            <div className="rounded-lg border p-4 space-y-2 text-sm">
+              <p>
+                Outcome: <span className="font-medium">{testResult.action ? ACTION_LABELS[testResult.action] : 'Published'}</span>
+              </p>
+              {testResult.hits.map((hit, index) => (
+                <p key={index} className="text-muted-foreground">
+                  {hit.ruleName} ({ACTION_LABELS[hit.action]}): {hit.reason}
+                  {hit.matched.length > 0 && ` [${hit.matched.join(', ')}]`}
+                </p>
+              ))}
+              {testResult.text !== testContent && (
+                <p className="whitespace-pre-wrap">Stored as: {testResult.text}</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
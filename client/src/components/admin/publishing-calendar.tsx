@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from "date-fns";
+import { CalendarClock, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface CalendarPost {
+  id: number;
+  title: string;
+  slug: string;
+  publishAt: string;
+  status: string | null;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// datetime-local inputs want local time without a zone
+function toLocalInput(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+/** Pick a time to publish a post, or publish it straight away */
+export function SchedulePostDialog({
+  post,
+  onOpenChange
+}: {
+  post: { id: number; title: string; publishAt?: string | Date | null } | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [publishAt, setPublishAt] = useState('');
+
+  const current = post?.publishAt ? new Date(post.publishAt) : null;
+  const value = publishAt || (current && current.getTime() > Date.now() ? toLocalInput(current) : '');
+
+  const publish = useMutation({
+    mutationFn: (at: string | null) => apiRequest(`/api/admin/posts/${post!.id}/publish`, {
+      method: 'PATCH',
+      body: JSON.stringify({ publishAt: at ? new Date(at).toISOString() : null })
+    }),
+    onSuccess: (_, at) => {
+      queryClient.invalidateQueries({ queryKey: ['admin/posts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/posts/scheduled'] });
+      toast({
+        title: at ? 'Post scheduled' : 'Post published',
+        description: at ? `It will go live ${format(new Date(at), 'MMM d, yyyy h:mm a')}.` : 'The post is now visible to users.'
+      });
+      setPublishAt('');
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const minimum = toLocalInput(new Date());
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => { if (!open) setPublishAt(''); onOpenChange(open); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule publication</DialogTitle>
+          <DialogDescription>{post?.title}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="publish-at">Publish at</Label>
+          <Input
+            id="publish-at"
+            type="datetime-local"
+            min={minimum}
+            value={value}
+            onChange={(e) => setPublishAt(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            The story stays out of listings, search and the sitemap until then.
+          </p>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" disabled={publish.isPending} onClick={() => publish.mutate(null)}>
+            Publish now
+          </Button>
+          <Button disabled={!value || value < minimum || publish.isPending} onClick={() => publish.mutate(value)}>
+            {publish.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Month view of upcoming and recently scheduled stories */
+export function PublishingCalendar() {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selected, setSelected] = useState<CalendarPost | null>(null);
+
+  const gridStart = startOfWeek(month, { weekStartsOn: 1 });
+  const gridEnd = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  const days = eachDayOfInterval({ start: gridStart, end: gridEnd });
+
+  const { data, isLoading } = useQuery<{ posts: CalendarPost[] }>({
+    queryKey: ['/api/admin/posts/scheduled', gridStart.toISOString(), gridEnd.toISOString()],
+    queryFn: () => {
+      const params = new URLSearchParams({ from: gridStart.toISOString(), to: gridEnd.toISOString() });
+      return apiRequest<{ posts: CalendarPost[] }>(`/api/admin/posts/scheduled?${params}`);
+    }
+  });
+  const posts = data?.posts ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Publishing calendar
+          </CardTitle>
+          <CardDescription>Scheduled stories go live automatically at their publish time.</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" aria-label="Previous month" onClick={() => setMonth(addMonths(month, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-32 text-center font-medium">{format(month, 'MMMM yyyy')}</span>
+          <Button variant="outline" size="icon" aria-label="Next month" onClick={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-60">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 border-l border-t text-sm">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="border-r border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+                {day}
+              </div>
+            ))}
+            {days.map(day => {
+              const dayPosts = posts.filter(post => isSameDay(new Date(post.publishAt), day));
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`min-h-[6rem] border-r border-b p-1 ${isSameMonth(day, month) ? '' : 'bg-muted/30 text-muted-foreground'}`}
+                >
+                  <div className={`mb-1 text-xs ${isToday(day) ? 'font-bold text-primary' : ''}`}>{format(day, 'd')}</div>
+                  <ul className="space-y-1">
+                    {dayPosts.map(post => (
+                      <li key={post.id}>
+                        <button
+                          type="button"
+                          className={`w-full truncate rounded px-1 py-0.5 text-left text-xs ${
+                            post.status === 'scheduled'
+                              ? 'bg-primary/10 text-primary hover:bg-primary/20'
+                              : 'bg-muted text-muted-foreground'
+                          }`}
+                          title={`${format(new Date(post.publishAt), 'h:mm a')} · ${post.title}`}
+                          disabled={post.status !== 'scheduled'}
+                          onClick={() => setSelected(post)}
+                        >
+                          {format(new Date(post.publishAt), 'HH:mm')} {post.title}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <SchedulePostDialog post={selected} onOpenChange={(open) => { if (!open) setSelected(null); }} />
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Calendar, CheckCircle, Copy, ExternalLink, Loader2, RefreshCw, ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SimilarityPassage {
+  text: string;
+  matchedText: string;
+  words: number;
+}
+
+interface ReportPost {
+  id: number;
+  title: string;
+  slug: string;
+  authorId: number;
+}
+
+interface SimilarityReport {
+  id: number;
+  postId: number;
+  matchedPostId: number;
+  score: number;
+  containment: number;
+  passages: SimilarityPassage[];
+  held: boolean;
+  status: 'pending' | 'dismissed' | 'confirmed';
+  createdAt: string;
+  post: (ReportPost & { held: boolean }) | null;
+  matchedPost: ReportPost | null;
+}
+
+interface ReportsResponse {
+  reports: SimilarityReport[];
+  total: number;
+}
+
+const REPORTS_KEY = ['/api/moderation/similarity-reports', 'pending'];
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function SimilarityReports() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<ReportsResponse>({
+    queryKey: REPORTS_KEY,
+    queryFn: () => apiRequest<ReportsResponse>('/api/moderation/similarity-reports?status=pending&limit=100')
+  });
+
+  const resolve = useMutation({
+    mutationFn: ({ id, decision }: { id: number; decision: 'dismiss' | 'confirm' }) =>
+      apiRequest(`/api/moderation/similarity-reports/${id}`, { method: 'PATCH', body: JSON.stringify({ decision }) }),
+    onSuccess: (_result, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: REPORTS_KEY });
+      toast({
+        title: decision === 'dismiss' ? "Report Dismissed" : "Duplicate Confirmed",
+        description: decision === 'dismiss'
+          ? "Held stories are published once all their reports are dismissed."
+          : "The story has been hidden and its author notified.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const reindex = useMutation({
+    mutationFn: () => apiRequest<{ indexed: number }>('/api/moderation/similarity/reindex', { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess: (result) => {
+      toast({ title: "Index Updated", description: `${result.indexed} stor${result.indexed === 1 ? 'y' : 'ies'} fingerprinted.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const reports = data?.reports ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between space-y-0">
+        <div>
+          <CardTitle>Similarity Reports</CardTitle>
+          <CardDescription>
+            Stories whose wording closely matches another story on the site
+            {data ? ` (${data.total})` : ''}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" disabled={reindex.isPending} onClick={() => reindex.mutate()}>
+          {reindex.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+          Index missing stories
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array(2).fill(0).map((_, index) => (
+              <div key={index} className="space-y-2">
+                <Skeleton className="h-4 w-[250px]" />
+                <Skeleton className="h-16 w-full" />
+              </div>
+            ))}
+          </div>
+        ) : reports.length > 0 ? (
+          <ScrollArea className="h-[500px]">
+            <div className="space-y-4 pr-4">
+              {reports.map((report) => (
+                <Card key={report.id} className="p-4">
+                  <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+                    <div className="space-y-3 flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm font-medium">
+                          {report.post?.title ?? `Post #${report.postId}`}
+                          <span className="text-muted-foreground font-normal"> matches </span>
+                          {report.matchedPost ? (
+                            <a
+                              href={`/reader/${report.matchedPost.slug}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex items-center underline underline-offset-2"
+                            >
+                              {report.matchedPost.title}
+                              <ExternalLink className="h-3 w-3 ml-1" />
+                            </a>
+                          ) : `Post #${report.matchedPostId}`}
+                        </p>
+                        <Badge variant="outline" className="bg-red-500/10 text-red-500">
+                          {percent(report.score)} similar
+                        </Badge>
+                        <Badge variant="outline" title="Share of the submission found in the matched story">
+                          {percent(report.containment)} reused
+                        </Badge>
+                        {report.post?.held && (
+                          <Badge variant="outline" className="bg-amber-500/10 text-amber-500">Held for review</Badge>
+                        )}
+                        {report.post && report.matchedPost && report.post.authorId === report.matchedPost.authorId && (
+                          <Badge variant="outline">Same author</Badge>
+                        )}
+                      </div>
+
+                      {report.passages.length > 0 && (
+                        <div className="space-y-2">
+                          {report.passages.map((passage, index) => (
+                            <div key={index} className="grid gap-2 md:grid-cols-2 text-xs">
+                              <blockquote className="border-l-2 border-red-500/50 pl-2 whitespace-pre-wrap">
+                                {passage.text}
+                              </blockquote>
+                              <blockquote className="border-l-2 border-muted-foreground/40 pl-2 text-muted-foreground whitespace-pre-wrap">
+                                {passage.matchedText}
+                              </blockquote>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex items-center text-xs text-muted-foreground">
+                        <Calendar className="mr-1 h-3 w-3" />
+                        Detected {new Date(report.createdAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2 shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={resolve.isPending}
+                        onClick={() => resolve.mutate({ id: report.id, decision: 'dismiss' })}
+                        className="text-green-600"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        {report.post?.held ? 'Approve' : 'Dismiss'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={resolve.isPending}
+                        onClick={() => resolve.mutate({ id: report.id, decision: 'confirm' })}
+                        className="text-red-600"
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Confirm duplicate
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="text-center py-12 bg-muted/20 rounded-lg border border-border">
+            <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-3 opacity-50" />
+            <p className="text-muted-foreground">No similarity reports awaiting review</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
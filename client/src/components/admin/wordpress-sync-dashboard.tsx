@@ -12,7 +12,10 @@ import {
   Pause,
   AlertCircle,
   Download,
-  BarChart3
+  BarChart3,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -21,6 +24,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest } from "@/lib/queryClient";
 
 interface SyncErrorObj { id?: string; timestamp?: string; message?: string; details?: unknown }
 interface SyncStatus {
@@ -32,21 +36,69 @@ interface SyncStatus {
   totalProcessed: number;
   syncInterval: number;
   enabled: boolean;
+  sourceUrl?: string;
 }
 
 interface SyncLog {
   id: string;
   timestamp: string;
-  status: 'success' | 'error' | 'running';
+  status: 'success' | 'partial' | 'error' | 'running' | 'interrupted';
+  trigger: string;
+  mode: string;
   message: string;
   postsProcessed: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+  retryOfRunId: number | null;
   duration: number;
 }
 
+interface SyncRunItem {
+  id: number;
+  wordpressId: number;
+  postId: number | null;
+  title: string | null;
+  outcome: 'created' | 'updated' | 'unchanged' | 'removed' | 'restored' | 'failed';
+  error: string | null;
+}
+
+function SyncRunItems({ runId }: { runId: string }) {
+  const { data, isLoading } = useQuery<{ items: SyncRunItem[] }>({
+    queryKey: ['/api/admin/wordpress/runs', runId],
+    queryFn: () => apiRequest<{ items: SyncRunItem[] }>(`/api/admin/wordpress/runs/${runId}`),
+  });
+
+  if (isLoading) {
+    return <RefreshCw className="h-4 w-4 animate-spin" />;
+  }
+
+  // Unchanged posts are the bulk of most runs and not interesting to list
+  const items = (data?.items || []).filter(item => item.outcome !== 'unchanged');
+  if (items.length === 0) {
+    return <p className="text-xs text-muted-foreground">No posts changed in this run</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {items.map(item => (
+        <li key={item.id} className={item.outcome === 'failed' ? 'text-red-600' : 'text-muted-foreground'}>
+          <span className="font-medium capitalize">{item.outcome}</span>
+          {' '}{item.title || `WordPress post ${item.wordpressId}`}
+          {item.error && ` — ${item.error}`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export function WordPressSyncDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
 
   // Fetch sync status
   const { data: syncStatus, isLoading: statusLoading } = useQuery<SyncStatus>({
@@ -72,18 +124,17 @@ export function WordPressSyncDashboard() {
 
   // Manual sync trigger
   const triggerSyncMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch('/api/admin/wordpress/sync', {
+    mutationFn: (mode: 'incremental' | 'full') =>
+      apiRequest<{ success: boolean }>('/api/admin/wordpress/sync', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      });
-      if (!res.ok) throw new Error('Failed to trigger sync');
-      return res.json();
-    },
-    onSuccess: () => {
+        body: JSON.stringify({ mode })
+      }),
+    onSuccess: (_result, mode) => {
       toast({
         title: "Sync Triggered",
-        description: "WordPress content sync has been started",
+        description: mode === 'full'
+          ? "Full WordPress resync has been started"
+          : "WordPress content sync has been started",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/status'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/logs'] });
@@ -97,6 +148,27 @@ export function WordPressSyncDashboard() {
     },
   });
 
+  // Retry only the posts that failed in one run
+  const retryRunMutation = useMutation({
+    mutationFn: (runId: string) =>
+      apiRequest<{ message: string }>(`/api/admin/wordpress/runs/${runId}/retry`, { method: 'POST' }),
+    onSuccess: () => {
+      toast({
+        title: "Retry Started",
+        description: "Failed posts are being synced again",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/logs'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message || "Failed to retry sync run",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Toggle sync enabled/disabled
   const toggleSyncMutation = useMutation({
     mutationFn: async (enabled: boolean) => {
@@ -138,6 +210,8 @@ export function WordPressSyncDashboard() {
     switch (status) {
       case 'success':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'partial':
+        return <AlertCircle className="h-4 w-4 text-amber-500" />;
       case 'error':
         return <XCircle className="h-4 w-4 text-red-500" />;
       case 'running':
@@ -151,6 +225,10 @@ export function WordPressSyncDashboard() {
     switch (status) {
       case 'success':
         return <Badge variant="default" className="bg-green-500">Success</Badge>;
+      case 'partial':
+        return <Badge variant="outline" className="border-amber-500 text-amber-600">Partial</Badge>;
+      case 'interrupted':
+        return <Badge variant="outline">Interrupted</Badge>;
       case 'error':
         return <Badge variant="destructive">Error</Badge>;
       case 'running':
@@ -190,7 +268,7 @@ export function WordPressSyncDashboard() {
                 WordPress Content Sync
               </CardTitle>
               <CardDescription>
-                Automatic content synchronization from bubbleteameimei.wordpress.com
+                Automatic content synchronization from {syncStatus?.sourceUrl || 'WordPress'}
               </CardDescription>
             </div>
             <div className="flex items-center space-x-2">
@@ -244,7 +322,17 @@ export function WordPressSyncDashboard() {
                 )}
               </Button>
               <Button
-                onClick={() => triggerSyncMutation.mutate()}
+                variant="outline"
+                onClick={() => triggerSyncMutation.mutate('full')}
+                disabled={triggerSyncMutation.isPending || syncStatus?.isRunning}
+                size="sm"
+                title="Re-check every post and detect posts removed upstream"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Full Resync
+              </Button>
+              <Button
+                onClick={() => triggerSyncMutation.mutate('incremental')}
                 disabled={triggerSyncMutation.isPending || syncStatus?.isRunning}
                 size="sm"
               >
@@ -298,7 +386,7 @@ export function WordPressSyncDashboard() {
                 Scheduled for {formatDate(syncStatus.nextSync)}
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                Sync interval: {Math.round((syncStatus.syncInterval || 300000) / 60000)} minutes
+                Sync interval: {Math.round((syncStatus.syncInterval || 3600000) / 60000)} minutes
               </p>
             </div>
           )}
@@ -358,10 +446,39 @@ export function WordPressSyncDashboard() {
                       <div className="text-sm text-muted-foreground">
                         {formatDate(log.timestamp)}
                       </div>
-                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                        <span>Posts: {log.postsProcessed}</span>
+                      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                        <span className="capitalize">{log.trigger} · {log.mode}</span>
+                        <span>Created: {log.created}</span>
+                        <span>Updated: {log.updated}</span>
+                        <span>Unchanged: {log.unchanged}</span>
+                        <span>Removed: {log.removed}</span>
+                        <span className={log.failed > 0 ? 'text-red-600' : undefined}>Failed: {log.failed}</span>
                         <span>Duration: {formatDuration(log.duration)}</span>
                       </div>
+                      <div className="flex items-center gap-2 pt-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => setExpandedRun(expandedRun === log.id ? null : log.id)}
+                        >
+                          {expandedRun === log.id ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+                          Details
+                        </Button>
+                        {log.failed > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => retryRunMutation.mutate(log.id)}
+                            disabled={retryRunMutation.isPending || syncStatus?.isRunning}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Retry {log.failed} failed
+                          </Button>
+                        )}
+                      </div>
+                      {expandedRun === log.id && <SyncRunItems runId={log.id} />}
                     </div>
                   </div>
                 ))}
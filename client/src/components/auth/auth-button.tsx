@@ -82,6 +82,11 @@ export function AuthButton({
           throw new Error("Login failed - no user data received");
         }
         
+        // The auth page takes over with the verification code step
+        if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+          return;
+        }
+        
         console.log("[Auth-Button] Login successful, redirecting", { userId: result.id });
         
         // Show success notification
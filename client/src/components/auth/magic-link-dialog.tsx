@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { z } from 'zod';
+
+const emailSchema = z.string().email('Please enter a valid email address');
+
+/** Ask for a one-time sign-in link by email instead of typing a password */
+export function MagicLinkDialog({
+  defaultEmail = '',
+  rememberMe = false,
+  triggerLabel = 'Email me a sign-in link instead'
+}: { defaultEmail?: string; rememberMe?: boolean; triggerLabel?: string }) {
+  const [email, setEmail] = useState(defaultEmail);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const [emailError, setEmailError] = useState('');
+  const { toast } = useToast();
+
+  const handleRequest = async () => {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success) {
+      setEmailError(parsed.error.errors[0]?.message || 'Invalid email');
+      return;
+    }
+    setEmailError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email, rememberMe })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Something went wrong');
+      }
+      setEmailSent(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send a sign-in link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setEmail(email || defaultEmail);
+    } else {
+      // Reset after the close animation
+      setTimeout(() => {
+        setEmailSent(false);
+        setEmailError('');
+      }, 300);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="link" className="text-sm">
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] bg-background text-foreground border border-slate-800 shadow-xl shadow-black/20">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">Sign in without a password</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            We'll email you a link that signs you in. New here? The link creates your account.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!emailSent ? (
+          <>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="magic-link-email" className="font-semibold">
+                Email
+              </Label>
+              <Input
+                id="magic-link-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Enter your email address"
+                className="auth-input"
+                disabled={isLoading}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !isLoading) {
+                    e.preventDefault();
+                    handleRequest();
+                  }
+                }}
+              />
+              {emailError && (
+                <p className="text-sm text-red-500 mt-1">{emailError}</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" className="w-full" onClick={handleRequest} disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : "Send Sign-in Link"}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <div className="py-6 text-center">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold">Check your inbox</h3>
+            <p className="text-muted-foreground mt-2">
+              If the link doesn't arrive in a few minutes, check your spam folder. It works once and expires soon.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Loader2, ShieldCheck, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export function TotpCodeInput({
+  value,
+  onChange,
+  disabled
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/** Secret and provisioning link for adding the account to an authenticator app */
+export function EnrollmentDetails({ enrollment }: { enrollment: TwoFactorEnrollment }) {
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-muted-foreground">
+        Add this account to an authenticator app (Google Authenticator, 1Password, Authy…).
+        On a phone, open the setup link; otherwise enter the key manually.
+      </p>
+      <a href={enrollment.otpauthUrl} className="text-primary underline break-all">
+        Open in authenticator app
+      </a>
+      <div className="flex items-center gap-2">
+        <code className="rounded bg-muted px-2 py-1 font-mono text-xs break-all">{enrollment.secret}</code>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            navigator.clipboard?.writeText(enrollment.secret);
+            toast({ title: "Copied", description: "Setup key copied to clipboard" });
+          }}
+          aria-label="Copy setup key"
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one can be used once if you lose access to your authenticator.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          navigator.clipboard?.writeText(codes.join("\n"));
+          toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+        }}
+      >
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+/** Second sign-in step, shown after the password was accepted */
+export function TwoFactorChallengeForm({ onSuccess }: { onSuccess: () => void }) {
+  const { twoFactorChallenge, verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupRequired = !!twoFactorChallenge?.setupRequired;
+  const challengeToken = twoFactorChallenge?.challengeToken;
+
+  useEffect(() => {
+    if (!setupRequired || !challengeToken) return;
+    apiRequest<TwoFactorEnrollment>("/api/auth/2fa/challenge/setup", {
+      method: "POST",
+      body: JSON.stringify({ challengeToken })
+    })
+      .then(setEnrollment)
+      .catch((error: Error) => {
+        toast({ title: "Setup Failed", description: error.message, variant: "destructive" });
+      });
+  }, [setupRequired, challengeToken, toast]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVerifying || !code.trim()) return;
+
+    setIsVerifying(true);
+    try {
+      const result = await verifyTwoFactor(code.trim());
+      if (result.recoveryCodes?.length) {
+        setRecoveryCodes(result.recoveryCodes);
+        return;
+      }
+      toast({ title: "Success", description: "You have been logged in successfully" });
+      onSuccess();
+    } catch (error: any) {
+      setCode("");
+      toast({
+        title: "Verification Failed",
+        description: error?.message || "Invalid verification code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // Shown once, right after an admin finishes enrolling during sign-in
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4 p-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-500" />
+          Two-factor authentication enabled
+        </h2>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button type="button" className="w-full" onClick={onSuccess}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4 p-4" noValidate>
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        {setupRequired ? "Set up two-factor authentication" : "Two-factor authentication"}
+      </h2>
+
+      {setupRequired ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Admin accounts must use two-factor authentication. Set it up now to finish signing in.
+          </p>
+          {enrollment ? (
+            <EnrollmentDetails enrollment={enrollment} />
+          ) : (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? "Enter one of your recovery codes."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      )}
+
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="one-time-code"
+          autoFocus
+        />
+      ) : (
+        <TotpCodeInput value={code} onChange={setCode} disabled={isVerifying || (setupRequired && !enrollment)} />
+      )}
+
+      <Button type="submit" className="w-full" disabled={isVerifying || code.trim().length < 6}>
+        {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Verify
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        {!setupRequired && (
+          <button
+            type="button"
+            className="text-primary underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+            }}
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+        )}
+        <button type="button" className="text-muted-foreground underline ml-auto" onClick={cancelTwoFactor}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
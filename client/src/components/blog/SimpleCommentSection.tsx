@@ -38,6 +38,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
+import { useLiveComments } from "@/hooks/use-live-post-events";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   AlertDialog,
@@ -425,6 +426,9 @@ export default function SimpleCommentSection({ postId, title }: CommentSectionPr
     }
   });
 
+  // New, edited and removed comments from other readers arrive over the post's live stream
+  useLiveComments(postId);
+
   // Post new comment
   const mutation = useMutation({
     mutationFn: async () => {
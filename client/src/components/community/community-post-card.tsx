@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
-import { Post, User } from '@shared/schema';
+import { Post, User, REPORT_REASONS, type ReportReason } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -23,6 +23,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Heart, 
   MessageSquare, 
@@ -35,6 +36,19 @@ import {
   Eye
 } from 'lucide-react';
 
+const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  violence: 'Violence or threats',
+  sexual_content: 'Sexual content',
+  self_harm: 'Self-harm',
+  misinformation: 'Misinformation',
+  plagiarism: 'Plagiarism',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else'
+};
+
 // Extended Post type with UI-specific properties
 interface ExtendedPost extends Post {
   author?: User;
@@ -61,7 +75,8 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
   const [isLiked, setIsLiked] = useState(post.hasLiked || false);
   const [isCopied, setIsCopied] = useState(false);
   const [showFlagDialog, setShowFlagDialog] = useState(false);
-  const [flagReason, setFlagReason] = useState('');
+  const [flagReason, setFlagReason] = useState<ReportReason | ''>('');
+  const [flagNote, setFlagNote] = useState('');
   
   // Format date
   const formattedDate = (post as any).updatedAt || post.createdAt;
@@ -168,11 +183,11 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
   
   // Flag Post Mutation
   const flagMutation = useMutation({
-    mutationFn: async (reason: string) => {
+    mutationFn: async ({ reason, note }: { reason: ReportReason; note: string }) => {
       const response = await fetch(`/api/posts/${post.id}/flag`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reason }),
+        body: JSON.stringify({ reason, note: note.trim() || null }),
       });
       
       if (!response.ok) throw new Error('Failed to flag post');
@@ -181,6 +196,7 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
     onSuccess: () => {
       setShowFlagDialog(false);
       setFlagReason('');
+      setFlagNote('');
       
       queryClient.invalidateQueries({ queryKey: ['/api/community/posts'] });
       
@@ -228,16 +244,16 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
   
   // Submit flag reason
   const submitFlag = () => {
-    if (!flagReason.trim()) {
+    if (!flagReason) {
       toast({
         title: 'Reason Required',
-        description: 'Please provide a reason for reporting this content.',
+        description: 'Please choose a reason for reporting this content.',
         variant: 'default',
       });
       return;
     }
     
-    flagMutation.mutate(flagReason);
+    flagMutation.mutate({ reason: flagReason, note: flagNote });
   };
   
   // Copy post link to clipboard
@@ -393,12 +409,23 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
             </DialogDescription>
           </DialogHeader>
           
-          <div className="py-4">
+          <div className="py-4 space-y-3">
+            <Select value={flagReason} onValueChange={(value) => setFlagReason(value as ReportReason)}>
+              <SelectTrigger aria-label="Reason">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map(reason => (
+                  <SelectItem key={reason} value={reason}>{REPORT_REASON_LABELS[reason]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Textarea
-              placeholder="Please explain why you're reporting this content..."
+              placeholder="Anything else our moderators should know? (optional)"
               className="min-h-[100px]"
-              value={flagReason}
-              onChange={(e) => setFlagReason(e.target.value)}
+              value={flagNote}
+              onChange={(e) => setFlagNote(e.target.value)}
+              maxLength={1000}
             />
           </div>
           
@@ -412,7 +439,7 @@ export function CommunityPostCard({ post, isAuthenticated, currentUser }: Commun
             <Button
               variant="destructive"
               onClick={submitFlag}
-              disabled={flagMutation.isPending || !flagReason.trim()}
+              disabled={flagMutation.isPending || !flagReason}
             >
               {flagMutation.isPending ? 'Submitting...' : 'Submit Report'}
             </Button>
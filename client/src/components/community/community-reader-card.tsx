@@ -30,6 +30,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { hasPermission } from '@shared/permissions';
 import {
   Heart,
   MessageSquare,
@@ -90,7 +91,7 @@ export function CommunityReaderCard({ post, isAuthenticated, currentUser, onEdit
   
   // Check if the current user is the author or admin
   const isAuthor = currentUser?.id === post.authorId;
-  const isAdmin = currentUser?.isAdmin === true;
+  const canEditAny = hasPermission(currentUser, 'posts.edit_any');
   
   // Create excerpt from content using horror-intensive paragraph finder
   const createExcerpt = (content: string, maxLength = 150) => {
@@ -203,7 +204,7 @@ export function CommunityReaderCard({ post, isAuthenticated, currentUser, onEdit
       
       toast({
         title: 'Story Deleted',
-        description: isAdmin && !isAuthor
+        description: canEditAny && !isAuthor
           ? 'Community story has been deleted by admin.'
           : 'Your story has been deleted successfully.',
       });
@@ -431,7 +432,7 @@ export function CommunityReaderCard({ post, isAuthenticated, currentUser, onEdit
             )}
             
             {/* Admin Delete Option - only show for admins */}
-            {isAdmin && !isAuthor && (
+            {canEditAny && !isAuthor && (
               <DropdownMenuItem 
                 onClick={handleDeleteClick} 
                 className="flex items-center rounded-sm px-3 py-2 text-sm hover:bg-destructive/10 text-destructive hover:text-destructive cursor-pointer border-t border-t-muted"
@@ -552,9 +553,9 @@ export function CommunityReaderCard({ post, isAuthenticated, currentUser, onEdit
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{isAdmin && !isAuthor ? 'Admin: Delete Community Story' : 'Delete Story'}</DialogTitle>
+            <DialogTitle>{canEditAny && !isAuthor ? 'Admin: Delete Community Story' : 'Delete Story'}</DialogTitle>
             <DialogDescription>
-              {isAdmin && !isAuthor 
+              {canEditAny && !isAuthor 
                 ? 'As an admin, you are about to delete a user-submitted community story. This action cannot be undone.'
                 : 'Are you sure you want to delete this story? This action cannot be undone.'
               }
@@ -562,7 +563,7 @@ export function CommunityReaderCard({ post, isAuthenticated, currentUser, onEdit
           </DialogHeader>
           <div className="flex items-center justify-between border p-3 rounded-md bg-muted/50 mt-2">
             <div className="font-medium truncate pr-2">{post.title}</div>
-            {isAdmin && !isAuthor && (
+            {canEditAny && !isAuthor && (
               <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-300">
                 By {post.author?.username || 'Anonymous'}
               </Badge>
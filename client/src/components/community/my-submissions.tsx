@@ -0,0 +1,122 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { format } from 'date-fns';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { MessageSquare, Pencil, Send } from 'lucide-react';
+import type { SubmissionStatus } from '@shared/schema';
+
+interface MySubmission {
+  id: number;
+  postId: number;
+  status: SubmissionStatus;
+  scheduledFor: string | null;
+  submittedAt: string;
+  updatedAt: string;
+  title: string;
+  slug: string;
+  notes: Array<{ id: number; authorName: string | null; body: string; createdAt: string }>;
+}
+
+// How each state reads to the writer
+const STATUS_TEXT: Record<SubmissionStatus, { label: string; hint: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  submitted: { label: 'Submitted', hint: 'Waiting for an editor to pick it up.', variant: 'secondary' },
+  in_review: { label: 'In review', hint: 'An editor is reading your story.', variant: 'secondary' },
+  changes_requested: { label: 'Changes requested', hint: 'Make the changes in the editor notes, then resubmit.', variant: 'outline' },
+  approved: { label: 'Approved', hint: 'Accepted - it will be published soon.', variant: 'default' },
+  scheduled: { label: 'Scheduled', hint: 'Accepted and scheduled for publication.', variant: 'default' },
+  published: { label: 'Published', hint: 'Live on the site.', variant: 'default' },
+  rejected: { label: 'Not accepted', hint: "This story won't be published.", variant: 'destructive' },
+};
+
+export function MySubmissions() {
+  const { toast } = useToast();
+  const { data } = useQuery<{ submissions: MySubmission[] }>({
+    queryKey: ['/api/submissions/mine'],
+    queryFn: () => apiRequest<{ submissions: MySubmission[] }>('/api/submissions/mine'),
+  });
+
+  const resubmit = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/submissions/${id}/resubmit`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/submissions/mine'] });
+      toast({ title: 'Resubmitted', description: 'Your story is back with the editors.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!data?.submissions.length) return null;
+
+  return (
+    <Card className="p-4">
+      <h2 className="text-sm font-medium mb-3">Your submissions</h2>
+      <ul className="divide-y divide-border">
+        {data.submissions.map(submission => {
+          const status = STATUS_TEXT[submission.status];
+          const editable = submission.status !== 'published' && submission.status !== 'rejected';
+          return (
+            <li key={submission.id} className="py-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {submission.status === 'published' ? (
+                  <Link href={`/reader/${submission.slug}`} className="font-medium hover:underline flex-1 min-w-0 truncate">
+                    {submission.title}
+                  </Link>
+                ) : (
+                  <span className="font-medium flex-1 min-w-0 truncate">{submission.title}</span>
+                )}
+                <Badge variant={status.variant}>{status.label}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {status.hint}
+                {submission.status === 'scheduled' && submission.scheduledFor && ` Goes live ${format(new Date(submission.scheduledFor), 'MMM d, yyyy h:mm a')}.`}
+                {' '}Submitted {format(new Date(submission.submittedAt), 'MMM d, yyyy')}.
+              </p>
+
+              {submission.notes.length > 0 && (
+                <ul className="space-y-1">
+                  {submission.notes.map(note => (
+                    <li key={note.id} className="flex gap-2 rounded-md bg-muted/50 p-2 text-sm">
+                      <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                      <div>
+                        <p className="whitespace-pre-wrap">{note.body}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {note.authorName ?? 'Editor'} · {format(new Date(note.createdAt), 'MMM d, h:mm a')}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {editable && (
+                <div className="flex gap-2">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/edit-story/${submission.postId}`}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Link>
+                  </Button>
+                  {submission.status === 'changes_requested' && (
+                    <Button
+                      size="sm"
+                      disabled={resubmit.isPending}
+                      onClick={() => resubmit.mutate(submission.id)}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Resubmit
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
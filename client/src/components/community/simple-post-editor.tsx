@@ -2,7 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
@@ -15,11 +15,13 @@ import { useAuth } from '@/hooks/use-auth';
 import { PostFormThemeField } from '@/components/forms/PostFormThemeField';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent } from '@/components/ui/card';
+import type { Post, StoryDraft } from '@shared/schema';
 import { 
   Info, 
   Bold, 
   Italic, 
-  HelpCircle
+  HelpCircle,
+  History
 } from 'lucide-react';
 import { 
   Tooltip,
@@ -40,10 +42,26 @@ type PostFormValues = z.infer<typeof postSchema>;
 
 interface SimplePostEditorProps {
   postId?: number;
+  /** Saved draft of a new story to pick up again */
+  draftId?: number;
   onClose?: () => void;
 }
 
-export default function SimplePostEditor({ postId, onClose }: SimplePostEditorProps) {
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+// Autosave once the writer has paused for this long
+const AUTOSAVE_DELAY_MS = 3000;
+
+// The fields a draft keeps, in the shape the drafts API takes
+function draftFields(values: Partial<PostFormValues>) {
+  return {
+    title: values.title ?? '',
+    content: values.content ?? '',
+    themeCategory: !values.themeCategory || values.themeCategory === 'NONE' ? null : values.themeCategory,
+  };
+}
+
+export default function SimplePostEditor({ postId, draftId, onClose }: SimplePostEditorProps) {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState<string>('write');
@@ -61,9 +79,123 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
     },
   });
 
+  // The story being edited, and any draft left from an earlier session
+  const { data: existingPost } = useQuery<Post>({
+    queryKey: [`/api/posts/${postId}`],
+    queryFn: () => apiRequest<Post>(`/api/posts/${postId}`),
+    enabled: !!postId,
+  });
+  const { data: drafts, isFetched: draftsFetched } = useQuery<StoryDraft[]>({
+    queryKey: ['/api/story-drafts'],
+    queryFn: () => apiRequest<StoryDraft[]>('/api/story-drafts'),
+    enabled: !!user && (!!postId || !!draftId),
+  });
+
+  const [loaded, setLoaded] = useState(!postId && !draftId);
+  const [resumedDraft, setResumedDraft] = useState<StoryDraft | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const draftRef = useRef<StoryDraft | null>(null);
+  const lastSavedRef = useRef(JSON.stringify(draftFields({})));
+  const savingRef = useRef(false);
+  const publishingRef = useRef(false);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Fill the form once, preferring unsaved draft text over the published story
+  useEffect(() => {
+    if (loaded || (postId && !existingPost) || !draftsFetched) return;
+
+    const saved = (drafts ?? []).find(draft => postId ? draft.postId === postId : draft.id === draftId) ?? null;
+    const source = saved ?? existingPost;
+    if (source) {
+      const values = { title: source.title, content: source.content, themeCategory: source.themeCategory ?? 'NONE' };
+      form.reset(values);
+      lastSavedRef.current = JSON.stringify(draftFields(values));
+    }
+    draftRef.current = saved;
+    setResumedDraft(postId ? saved : null);
+    setSavedAt(saved ? new Date(saved.updatedAt) : null);
+    setLoaded(true);
+  }, [loaded, postId, draftId, existingPost, drafts, draftsFetched, form]);
+
+  const saveDraft = async (values: Partial<PostFormValues>) => {
+    if (publishingRef.current) return;
+    const fields = draftFields(values);
+    const snapshot = JSON.stringify(fields);
+    if (snapshot === lastSavedRef.current) return;
+    // Nothing worth keeping yet for a brand new story
+    if (!postId && !draftRef.current && !fields.title.trim() && !fields.content.trim()) return;
+    if (savingRef.current) {
+      autosaveTimer.current = setTimeout(() => { void saveDraft(form.getValues()); }, AUTOSAVE_DELAY_MS);
+      return;
+    }
+
+    savingRef.current = true;
+    setSaveState('saving');
+    try {
+      const draft = draftRef.current
+        ? await apiRequest<StoryDraft>(`/api/story-drafts/${draftRef.current.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(fields),
+          })
+        : await apiRequest<StoryDraft>('/api/story-drafts', {
+            method: 'POST',
+            body: JSON.stringify({ ...fields, postId: postId ?? null }),
+          });
+      draftRef.current = draft;
+      lastSavedRef.current = snapshot;
+      setSavedAt(new Date(draft.updatedAt));
+      setSaveState('saved');
+    } catch {
+      setSaveState('error');
+    } finally {
+      savingRef.current = false;
+    }
+  };
+
+  // The watcher below outlives renders, so it reaches the latest saveDraft through a ref
+  const saveDraftRef = useRef(saveDraft);
+  saveDraftRef.current = saveDraft;
+
+  // Autosave after each pause in typing
+  useEffect(() => {
+    if (!loaded || !user) return;
+    const subscription = form.watch((values) => {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = setTimeout(() => { void saveDraftRef.current(values); }, AUTOSAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(autosaveTimer.current);
+    };
+  }, [loaded, user, form]);
+
+  const discardDraft = async () => {
+    clearTimeout(autosaveTimer.current);
+    const draft = draftRef.current;
+    draftRef.current = null;
+    setResumedDraft(null);
+    setSaveState('idle');
+    setSavedAt(null);
+    if (existingPost) {
+      const values = { title: existingPost.title, content: existingPost.content, themeCategory: existingPost.themeCategory ?? 'NONE' };
+      form.reset(values);
+      lastSavedRef.current = JSON.stringify(draftFields(values));
+    }
+    if (draft) {
+      await apiRequest(`/api/story-drafts/${draft.id}`, { method: 'DELETE' }).catch(() => undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/story-drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/submissions/mine'] });
+    }
+  };
+
   // Create/update post mutation
   const { mutate: submitPost, isPending } = useMutation({
     mutationFn: async (data: PostFormValues) => {
+      // Stop autosaving; the draft is removed once the story is saved
+      publishingRef.current = true;
+      clearTimeout(autosaveTimer.current);
+
       // Generate a slug from the title
       const generateSlug = (title: string) => {
         return title
@@ -82,6 +214,20 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
       };
       
       const excerpt = generateExcerpt(data.content);
+
+      if (postId) {
+        // Edits only touch the story text; slug and metadata stay as they were
+        return apiRequest(`/api/posts/${postId}`, {
+          method: 'PUT',
+          body: JSON.stringify({
+            title: data.title,
+            content: data.content,
+            excerpt,
+            ...(data.themeCategory && data.themeCategory !== 'NONE' ? { themeCategory: data.themeCategory } : {}),
+          }),
+          credentials: 'include', // Include credentials for CSRF
+        });
+      }
       
       // Always mark as community post in the metadata
       const postData = {
@@ -97,39 +243,46 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
         }
       };
       
-      if (postId) {
-        // Update existing post
-        return apiRequest(`/api/posts/${postId}`, {
-          method: 'PATCH',
-          body: JSON.stringify(postData),
-          credentials: 'include', // Include credentials for CSRF
-        });
-      } else {
-        // Create new post - use the community-specific endpoint
-        return apiRequest('/api/posts/community', {
-          method: 'POST',
-          body: JSON.stringify(postData),
-          credentials: 'include', // Include credentials for CSRF
-        });
-      }
+      // Create new post - use the community-specific endpoint
+      return apiRequest('/api/posts/community', {
+        method: 'POST',
+        body: JSON.stringify(postData),
+        credentials: 'include', // Include credentials for CSRF
+      });
     },
-    onSuccess: () => {
+    onSuccess: async (result) => {
+      if (draftRef.current) {
+        await apiRequest(`/api/story-drafts/${draftRef.current.id}`, { method: 'DELETE' }).catch(() => undefined);
+        draftRef.current = null;
+      }
+
+
+      // Readers' stories wait for an editor; close matches with another story are also flagged to them
+      const metadata = (result as { metadata?: { isHidden?: boolean; similarityHold?: boolean } } | undefined)?.metadata;
+      const heldForReview = metadata?.isHidden === true;
+
       // Show success message
       toast({
-        title: postId ? 'Story updated' : 'Story submitted',
+        title: postId ? 'Story updated' : heldForReview ? 'Story submitted for review' : 'Story submitted',
         description: postId 
           ? 'Your horror story has been updated successfully.' 
-          : 'Your horror story has been submitted successfully.',
+          : metadata?.similarityHold
+            ? 'Your story closely matches one already on the site, so an editor will look at that as part of their review.'
+            : heldForReview
+              ? 'An editor will read it before it is published. You can follow its progress on the Submit Story page.'
+              : 'Your horror story has been submitted successfully.',
       });
       
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/posts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/posts/community'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/story-drafts'] });
       
       // Navigate back to community page
       navigate('/community');
     },
     onError: (error: Error) => {
+      publishingRef.current = false;
       toast({
         title: 'Error',
         description: error.message || 'An error occurred. Please try again.',
@@ -268,6 +421,20 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
   return (
     <div className="space-y-6">
       {/* Write/Preview tabs */}
+      {resumedDraft && (
+        <Card className="bg-muted/40">
+          <CardContent className="p-4 flex flex-wrap items-center gap-3 text-sm">
+            <History className="h-5 w-5 text-amber-500 flex-shrink-0" />
+            <p className="flex-1">
+              You have unpublished changes to this story from {new Date(resumedDraft.updatedAt).toLocaleString()}. They've been loaded below.
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={discardDraft}>
+              Discard changes
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="w-full mb-6">
           <TabsTrigger value="write" className="flex-1">Write</TabsTrigger>
@@ -404,8 +571,17 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
                           className="min-h-[300px] font-serif text-base leading-relaxed resize-y"
                         />
                       </FormControl>
-                      <div className="text-xs text-muted-foreground text-right">
-                        {wordCount} words | {charCount} characters
+                      <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+                        <span aria-live="polite" className={saveState === 'error' ? 'text-destructive' : undefined}>
+                          {saveState === 'saving'
+                            ? 'Saving draft...'
+                            : saveState === 'error'
+                              ? "Couldn't save draft - we'll try again as you write"
+                              : savedAt
+                                ? `Draft saved at ${savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                                : ''}
+                        </span>
+                        <span>{wordCount} words | {charCount} characters</span>
                       </div>
                     </div>
                     <FormMessage />
@@ -540,7 +716,7 @@ export default function SimplePostEditor({ postId, onClose }: SimplePostEditorPr
               <Button variant="outline" type="button" onClick={handleCancel}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={isPending}>
+              <Button type="submit" disabled={isPending || !loaded}>
                 {isPending ? 'Submitting...' : postId ? 'Update Story' : 'Submit Horror Story'}
               </Button>
             </div>
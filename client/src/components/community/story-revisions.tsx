@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import type { Post, PostRevisionSource } from '@shared/schema';
+
+interface RevisionSummary {
+  id: number;
+  revisionNumber: number;
+  title: string;
+  source: PostRevisionSource;
+  restoredFromId: number | null;
+  editor: { id: number; username: string } | null;
+  wordCount: number;
+  createdAt: string;
+}
+
+interface TextDiff {
+  segments: { type: 'equal' | 'insert' | 'delete'; text: string }[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+interface RevisionDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  title: TextDiff;
+  content: TextDiff;
+}
+
+const SOURCE_LABELS: Record<PostRevisionSource, string> = {
+  original: 'Before history',
+  create: 'Published',
+  edit: 'Edited',
+  restore: 'Restored',
+};
+
+function DiffText({ diff }: { diff: TextDiff }) {
+  return (
+    <div className="font-serif text-sm leading-relaxed whitespace-pre-wrap break-words">
+      {diff.segments.map((segment, index) =>
+        segment.type === 'insert' ? (
+          <ins key={index} className="bg-green-500/20 text-green-900 dark:text-green-200 no-underline rounded-sm">{segment.text}</ins>
+        ) : segment.type === 'delete' ? (
+          <del key={index} className="bg-red-500/20 text-red-900 dark:text-red-200 rounded-sm">{segment.text}</del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+interface StoryRevisionsProps {
+  postId: number;
+  /** Called after the story has been put back to an earlier revision */
+  onRestored?: (post: Post) => void;
+}
+
+export function StoryRevisions({ postId, onRestored }: StoryRevisionsProps) {
+  const { toast } = useToast();
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<RevisionSummary | null>(null);
+
+  const { data: revisions, isLoading } = useQuery<RevisionSummary[]>({
+    queryKey: [`/api/posts/${postId}/revisions`],
+    queryFn: () => apiRequest<RevisionSummary[]>(`/api/posts/${postId}/revisions`),
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`/api/posts/${postId}/revisions/diff`, compare?.from, compare?.to],
+    queryFn: () => apiRequest<RevisionDiff>(`/api/posts/${postId}/revisions/diff?from=${compare!.from}&to=${compare!.to}`),
+    enabled: !!compare,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: number) =>
+      apiRequest<Post>(`/api/posts/${postId}/revisions/${revisionId}/restore`, { method: 'POST' }),
+    onSuccess: async (post, revisionId) => {
+      const revision = revisions?.find(r => r.id === revisionId);
+      toast({
+        title: 'Story restored',
+        description: revision ? `Your story is back to revision ${revision.revisionNumber}.` : 'Your story has been restored.',
+      });
+      setCompare(null);
+      await queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}`] });
+      await queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}/revisions`] });
+      onRestored?.(post);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't restore", description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Newest first, so the version before revisions[i] is revisions[i + 1]
+  const previousOf = (index: number) => revisions?.[index + 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Revision history</CardTitle>
+        <CardDescription>
+          Every saved version of this story. Compare any version with the one before it, or put the story back the way it was.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !revisions?.length ? (
+          <p className="text-sm text-muted-foreground">No history yet. A revision is recorded each time you save changes.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {revisions.map((revision, index) => {
+              const previous = previousOf(index);
+              const isCurrent = index === 0;
+              const isCompared = compare?.to === revision.id;
+              return (
+                <li key={revision.id} className="py-3 flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">#{revision.revisionNumber}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[revision.source]}</Badge>
+                      {isCurrent && <Badge>Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}
+                      {revision.editor ? ` · ${revision.editor.username}` : ''}
+                      {` · ${revision.wordCount} words`}
+                    </p>
+                  </div>
+                  {previous && (
+                    <Button
+                      type="button"
+                      variant={isCompared ? 'secondary' : 'outline'}
+                      size="sm"
+                      onClick={() => setCompare(isCompared ? null : { from: previous.id, to: revision.id })}
+                    >
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      {isCompared ? 'Hide changes' : 'Changes'}
+                    </Button>
+                  )}
+                  {!isCurrent && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => setRestoreTarget(revision)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {compare && (
+          <div className="rounded-md border p-4 space-y-3">
+            {diffLoading || !diff ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>Revision #{diff.from.revisionNumber} → #{diff.to.revisionNumber}</span>
+                  <span>
+                    <span className="text-green-700 dark:text-green-400">+{diff.content.wordsAdded} words</span>
+                    {' / '}
+                    <span className="text-red-700 dark:text-red-400">-{diff.content.wordsRemoved} words</span>
+                  </span>
+                </div>
+                {(diff.title.wordsAdded > 0 || diff.title.wordsRemoved > 0) && (
+                  <div className="text-lg font-semibold">
+                    <DiffText diff={diff.title} />
+                  </div>
+                )}
+                <DiffText diff={diff.content} />
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision #{restoreTarget?.revisionNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The story will go back to this version. The current text stays in the history, so you can restore it again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (restoreTarget) restoreMutation.mutate(restoreTarget.id);
+                setRestoreTarget(null);
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
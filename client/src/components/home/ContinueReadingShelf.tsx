@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { BookOpen, ChevronRight } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { RemoteReadingProgress } from '@/lib/reading-progress';
+
+interface ShelfItem extends RemoteReadingProgress {
+  title: string;
+  excerpt: string | null;
+  themeCategory: string | null;
+  readingTimeMinutes: number | null;
+}
+
+/** Stories the signed-in reader started but hasn't finished, on any device */
+export default function ContinueReadingShelf() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+
+  const { data: items = [] } = useQuery<ShelfItem[]>({
+    queryKey: ['/api/reading-progress'],
+    queryFn: () => apiRequest<ShelfItem[]>('/api/reading-progress?limit=4'),
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000
+  });
+
+  if (!isAuthenticated || items.length === 0) return null;
+
+  return (
+    <div className="mt-8 sm:mt-10 w-full px-4 max-w-4xl mx-auto text-left">
+      <p className="text-base sm:text-lg md:text-xl font-normal text-white uppercase tracking-wider font-sans text-center mb-4">
+        Continue Reading
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {items.map(item => {
+          const minutesLeft = item.readingTimeMinutes
+            ? Math.max(Math.ceil(item.readingTimeMinutes * (1 - item.percent / 100)), 1)
+            : null;
+          return (
+            <button
+              key={item.postId}
+              onClick={() => setLocation(`/reader/${item.slug}`)}
+              className="group w-full p-4 rounded-xl bg-white/5 dark:bg-white/10 backdrop-blur-md border border-white/15 hover:border-white/40 transition-all duration-300 text-left"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <h3 className="text-white font-semibold line-clamp-1">{item.title}</h3>
+                <ChevronRight className="h-4 w-4 shrink-0 text-white/60 group-hover:translate-x-1 transition-transform" />
+              </div>
+              <Progress value={item.percent} className="h-1.5 mt-3" aria-label={`${Math.round(item.percent)}% read`} />
+              <div className="flex items-center gap-2 mt-2 text-xs text-white/70">
+                <BookOpen className="h-3 w-3" />
+                <span>{Math.round(item.percent)}% read</span>
+                {minutesLeft !== null && <span>• {minutesLeft} min left</span>}
+                <span className="ml-auto">{formatDistanceToNow(new Date(item.lastReadAt), { addSuffix: true })}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -43,8 +43,8 @@ export function FreshNewsletterForm() {
         setEmail('');
         
         toast({
-          title: "Subscription successful!",
-          description: "Check your inbox for a welcome email with our latest news.",
+          title: "Almost there!",
+          description: "Check your inbox and follow the link to confirm your subscription.",
           variant: "default",
         });
       } else {
@@ -83,7 +83,7 @@ export function FreshNewsletterForm() {
       {success ? (
         <div className="flex items-center p-4 mb-4 text-sm rounded-lg bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300">
           <Check className="w-5 h-5 mr-2 flex-shrink-0" />
-          <span>Great! Please check your inbox for our welcome email.</span>
+          <span>Great! Please check your inbox and confirm your subscription.</span>
         </div>
       ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -1,7 +1,28 @@
-import React, { useState, useEffect, useRef, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { MessageSquareOff, MessageSquareText } from "lucide-react";
 import { cachedFetch } from "@/utils/api-cache";
 import logger from "@/utils/secure-client-logger";
+import { apiRequest } from "@/lib/queryClient";
+import { findAnnotationParagraph, getAnchorParagraphs, type Annotation } from "@/lib/annotations";
+import { useToast } from "@/hooks/use-toast";
+import useInlineCommenting, { type SelectionRange } from "@/hooks/useInlineCommenting";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+const SHOW_ANNOTATIONS_KEY = 'readerShowAnnotations';
+
+interface MarginMarker {
+  top: number;
+  annotations: Annotation[];
+}
+
+/** Marker size and strength grow with how many annotations a paragraph has */
+function markerDensityClass(count: number): string {
+  if (count >= 6) return 'h-4 w-4 bg-primary';
+  if (count >= 3) return 'h-3 w-3 bg-primary/80';
+  return 'h-2.5 w-2.5 bg-primary/50';
+}
 
 interface ReaderCoreProps {
   slug: string;
@@ -13,9 +34,16 @@ export function ReaderCore({ slug, onPostLoad, onError }: ReaderCoreProps) {
   const mark = (_label: string) => {};
   const measure = (_name: string, _start: string, _end?: string) => {};
   const contentRef = useRef<HTMLDivElement>(null);
+  const storyRef = useRef<HTMLDivElement>(null);
   const [readingProgress, setReadingProgress] = useState(0);
+  const [markers, setMarkers] = useState<MarginMarker[]>([]);
+  const [showAnnotations, setShowAnnotations] = useState(() =>
+    typeof window === 'undefined' || localStorage.getItem(SHOW_ANNOTATIONS_KEY) !== 'false');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   type PostShape = {
+    id?: number;
     title?: string;
     content?: string;
     excerpt?: string | null;
@@ -43,6 +71,48 @@ export function ReaderCore({ slug, onPostLoad, onError }: ReaderCoreProps) {
     enabled: !!slug
   });
 
+  const postId = post?.id;
+  const annotationsKey = [`/api/posts/${postId}/annotations`];
+
+  const { data: annotations = [] } = useQuery<Annotation[]>({
+    queryKey: annotationsKey,
+    queryFn: () => apiRequest<Annotation[]>(`/api/posts/${postId}/annotations`),
+    enabled: !!postId && showAnnotations,
+    staleTime: 60 * 1000
+  });
+
+  const annotate = useMutation({
+    mutationFn: ({ text, selection, range }: { text: string; selection: string; range: SelectionRange }) =>
+      apiRequest(`/api/posts/${postId}/comments`, {
+        method: 'POST',
+        body: JSON.stringify({
+          content: text,
+          anchor: { paragraphIndex: range.paragraphIndex, quote: selection, start: range.start }
+        })
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: annotationsKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}/comments`] });
+      toast({ title: "Annotation added", description: "Your note now sits beside that passage." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't add annotation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const { CommentDialog } = useInlineCommenting({
+    enabled: showAnnotations && !!postId,
+    contentSelector: '.reader-core-story',
+    onSubmitComment: (text, selection, range) => annotate.mutate({ text, selection, range })
+  });
+
+  const toggleAnnotations = () => {
+    setShowAnnotations(current => {
+      localStorage.setItem(SHOW_ANNOTATIONS_KEY, String(!current));
+      return !current;
+    });
+  };
+
   // Calculate reading progress efficiently
   const updateReadingProgress = useMemo(() => {
     let ticking = false;
@@ -96,6 +166,36 @@ export function ReaderCore({ slug, onPostLoad, onError }: ReaderCoreProps) {
       .replace(/on\w+="[^"]*"/gi, '');
   }, [post?.content]);
 
+  // Group annotations by paragraph and place a marker level with each one
+  useLayoutEffect(() => {
+    const story = storyRef.current;
+    if (!story || !showAnnotations || annotations.length === 0) {
+      setMarkers([]);
+      return;
+    }
+
+    const place = () => {
+      const paragraphs = getAnchorParagraphs(story);
+      const byParagraph = new Map<HTMLElement, Annotation[]>();
+      for (const annotation of annotations) {
+        const paragraph = findAnnotationParagraph(paragraphs, annotation.anchor);
+        if (!paragraph) continue;
+        byParagraph.set(paragraph, [...(byParagraph.get(paragraph) ?? []), annotation]);
+      }
+      const storyTop = story.getBoundingClientRect().top;
+      setMarkers(Array.from(byParagraph, ([paragraph, items]) => ({
+        top: paragraph.getBoundingClientRect().top - storyTop,
+        annotations: items
+      })));
+    };
+
+    place();
+    window.addEventListener('resize', place);
+    return () => window.removeEventListener('resize', place);
+  }, [annotations, showAnnotations, sanitizedContent]);
+
+  const orphanedCount = annotations.filter(annotation => annotation.anchor.status === 'orphaned').length;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -157,14 +257,63 @@ export function ReaderCore({ slug, onPostLoad, onError }: ReaderCoreProps) {
               <span>{post.readingTimeMinutes} min read</span>
             )}
             <span>Progress: {readingProgress}%</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-8 gap-1.5"
+              onClick={toggleAnnotations}
+              aria-pressed={showAnnotations}
+            >
+              {showAnnotations ? <MessageSquareOff className="h-4 w-4" /> : <MessageSquareText className="h-4 w-4" />}
+              {showAnnotations ? 'Hide annotations' : 'Show annotations'}
+            </Button>
           </div>
+          {showAnnotations && orphanedCount > 0 && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {orphanedCount} {orphanedCount === 1 ? 'annotation refers' : 'annotations refer'} to a passage that has since been rewritten.
+            </p>
+          )}
         </header>
 
-        <div 
-          className="prose prose-lg max-w-none dark:prose-invert"
-          dangerouslySetInnerHTML={{ __html: sanitizedContent }}
-        />
+        <div className="relative">
+          <div 
+            ref={storyRef}
+            className="reader-core-story prose prose-lg max-w-none dark:prose-invert"
+            dangerouslySetInnerHTML={{ __html: sanitizedContent }}
+          />
+
+          {/* Margin markers: one per annotated paragraph, larger where discussion is denser */}
+          {markers.map(marker => (
+            <Popover key={`${marker.top}-${marker.annotations[0].id}`}>
+              <PopoverTrigger asChild>
+                <button
+                  className="absolute -left-6 flex h-6 w-4 items-center justify-center"
+                  style={{ top: marker.top }}
+                  aria-label={`${marker.annotations.length} ${marker.annotations.length === 1 ? 'annotation' : 'annotations'} on this paragraph`}
+                >
+                  <span className={`rounded-full transition-transform hover:scale-125 ${markerDensityClass(marker.annotations.length)}`} />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent side="left" align="start" className="w-80 max-h-96 overflow-y-auto space-y-3">
+                {marker.annotations.map(annotation => (
+                  <div key={annotation.id} className="space-y-1 text-sm">
+                    <blockquote className="border-l-2 border-primary/60 pl-2 italic text-muted-foreground line-clamp-2">
+                      {annotation.anchor.quote}
+                    </blockquote>
+                    <p className="whitespace-pre-wrap">{annotation.content}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {annotation.author} · {new Date(annotation.createdAt).toLocaleDateString()}
+                      {annotation.anchor.originalQuote && ' · passage since edited'}
+                    </p>
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
+          ))}
+        </div>
       </article>
+
+      {showAnnotations && <CommentDialog />}
     </div>
   );
 }
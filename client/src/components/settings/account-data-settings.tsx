@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DownloadCloud, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MagicLinkDialog } from "@/components/auth/magic-link-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { AccountDeletionRequest, CommentDeletionChoice, DataExportStatus } from "@shared/schema";
+
+interface DataExport {
+  id: number;
+  status: DataExportStatus;
+  archiveSize: number | null;
+  error: string | null;
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadedAt: string | null;
+}
+
+interface DeletionState {
+  deletion: (Omit<AccountDeletionRequest, 'scheduledFor'> & { scheduledFor: string }) | null;
+  graceDays: number;
+  // Accounts without a password confirm with a recent email-link sign-in instead
+  confirmWith: 'password' | 'email_link';
+  recentlySignedIn: boolean;
+}
+
+const EXPORTS_KEY = ['/api/account/export'];
+const DELETION_KEY = ['/api/account/deletion'];
+
+const STATUS_LABELS: Record<DataExportStatus, string> = {
+  pending: "Queued",
+  processing: "Preparing",
+  ready: "Ready",
+  failed: "Failed",
+  expired: "Expired",
+};
+
+function formatSize(bytes: number | null): string {
+  if (!bytes) return "";
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Data export and account deletion controls for the privacy settings page */
+export function AccountDataSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [commentsAction, setCommentsAction] = useState<CommentDeletionChoice>('anonymize');
+  const [reason, setReason] = useState("");
+
+  const { data: exports = [], isLoading: exportsLoading } = useQuery<DataExport[]>({
+    queryKey: EXPORTS_KEY,
+    queryFn: () => apiRequest<DataExport[]>('/api/account/export'),
+    // Keep checking while an export is being built
+    refetchInterval: (query) =>
+      query.state.data?.some(item => item.status === 'pending' || item.status === 'processing') ? 5000 : false,
+  });
+
+  const { data: deletionState } = useQuery<DeletionState>({
+    queryKey: DELETION_KEY,
+    queryFn: () => apiRequest<DeletionState>('/api/account/deletion'),
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const requestExport = useMutation({
+    mutationFn: () => apiRequest<DataExport>('/api/account/export', { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: EXPORTS_KEY });
+      toast({ title: "Export requested", description: "We're preparing your archive. It will appear here when it's ready." });
+    },
+    onError,
+  });
+
+  const scheduleDeletion = useMutation({
+    mutationFn: () => apiRequest<DeletionState>('/api/account/deletion', {
+      method: 'POST',
+      body: JSON.stringify({ password: password || undefined, commentsAction, reason: reason.trim() || null }),
+    }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(DELETION_KEY, data);
+      setDialogOpen(false);
+      setPassword("");
+      setReason("");
+      toast({ title: "Account deletion scheduled", description: `You can cancel any time in the next ${data.graceDays} days.` });
+    },
+    onError: (error: Error) => {
+      setPassword("");
+      onError(error);
+    },
+  });
+
+  const cancelDeletion = useMutation({
+    mutationFn: () => apiRequest<DeletionState>('/api/account/deletion', { method: 'DELETE' }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(DELETION_KEY, data);
+      toast({ title: "Deletion cancelled", description: "Your account will stay as it is." });
+    },
+    onError,
+  });
+
+  const deletion = deletionState?.deletion ?? null;
+  const graceDays = deletionState?.graceDays ?? 14;
+  const confirmWithPassword = deletionState?.confirmWith !== 'email_link';
+  const canConfirm = confirmWithPassword ? password.length > 0 : deletionState?.recentlySignedIn === true;
+  const exportInProgress = exports.some(item => item.status === 'pending' || item.status === 'processing');
+
+  return (
+    <div className="space-y-3">
+      {deletion && (
+        <Alert variant="destructive">
+          <Trash2 className="h-4 w-4" />
+          <AlertTitle>Account deletion scheduled</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-xs">
+              Your account will be deleted on {new Date(deletion.scheduledFor).toLocaleDateString()}.
+              {deletion.commentsAction === 'delete' ? " Your comments will be deleted." : " Your comments will stay up without your name."}
+            </p>
+            <Button size="sm" variant="outline" onClick={() => cancelDeletion.mutate()} disabled={cancelDeletion.isPending}>
+              {cancelDeletion.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Keep my account
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Download a copy of your stories, comments and reading history, or delete your account.
+        You can request one export per day; each download link lasts a week.
+      </p>
+
+      {exportsLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : exports.length > 0 && (
+        <ul className="space-y-2">
+          {exports.map(item => (
+            <li key={item.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-xs">
+              <div className="flex items-center gap-2">
+                <span>{new Date(item.requestedAt).toLocaleString()}</span>
+                <Badge variant="outline" className="h-5 text-[10px]">{STATUS_LABELS[item.status]}</Badge>
+                {item.status === 'ready' && <span className="text-muted-foreground">{formatSize(item.archiveSize)}</span>}
+              </div>
+              {item.status === 'ready' ? (
+                <Button asChild variant="ghost" size="sm" className="h-7 text-xs">
+                  <a href={`/api/account/export/${item.id}/download`} download>Download</a>
+                </Button>
+              ) : (item.status === 'pending' || item.status === 'processing') ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : item.status === 'failed' && item.error ? (
+                <span className="text-destructive truncate max-w-[12rem]" title={item.error}>{item.error}</span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col xs:flex-row gap-2 pt-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex gap-1 text-xs"
+          onClick={() => requestExport.mutate()}
+          disabled={requestExport.isPending || exportInProgress}
+        >
+          {requestExport.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <DownloadCloud className="h-3.5 w-3.5" />}
+          <span>Request Data Export</span>
+        </Button>
+
+        {!deletion && (
+          <Button variant="destructive" size="sm" className="flex gap-1 text-xs" onClick={() => setDialogOpen(true)}>
+            <Trash2 className="h-3.5 w-3.5" />
+            <span>Delete Account</span>
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) setPassword(""); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete your account?</DialogTitle>
+            <DialogDescription>
+              Your account will be deleted in {graceDays} days. Until then you can sign in and cancel.
+              After that your stories, bookmarks, reading history and settings are removed and you are signed out everywhere.
+              Consider requesting a data export first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            id="account-deletion-form"
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              scheduleDeletion.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label className="text-sm">Your comments</Label>
+              <RadioGroup value={commentsAction} onValueChange={(value) => setCommentsAction(value as CommentDeletionChoice)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="anonymize" id="comments-anonymize" />
+                  <Label htmlFor="comments-anonymize" className="text-xs font-normal">Keep them, without my name</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="delete" id="comments-delete" />
+                  <Label htmlFor="comments-delete" className="text-xs font-normal">Delete them (comments with replies are blanked instead)</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deletion-reason" className="text-sm">Why are you leaving? (optional)</Label>
+              <Textarea id="deletion-reason" value={reason} onChange={(e) => setReason(e.target.value)} maxLength={1000} rows={2} />
+            </div>
+
+            {confirmWithPassword ? (
+              <div className="space-y-2">
+                <Label htmlFor="deletion-password" className="text-sm">Confirm with your password</Label>
+                <Input
+                  id="deletion-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              </div>
+            ) : deletionState?.recentlySignedIn ? (
+              <p className="text-xs text-muted-foreground">
+                You signed in within the last few minutes, so no password is needed to confirm.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Your account has no password. To confirm it's you, sign in again with an email link,
+                  then come back here within 10 minutes.
+                </p>
+                <MagicLinkDialog defaultEmail={user?.email ?? ''} triggerLabel="Email me a sign-in link" />
+              </div>
+            )}
+          </form>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              form="account-deletion-form"
+              variant="destructive"
+              disabled={scheduleDeletion.isPending || !canConfirm}
+            >
+              {scheduleDeletion.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Schedule deletion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, LogOut, Monitor, Smartphone, Tablet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DeviceSession {
+  id: number;
+  device: {
+    browser: string | null;
+    os: string | null;
+    type: 'mobile' | 'tablet' | 'desktop';
+    label: string;
+  };
+  location: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastAccessedAt: string;
+  current: boolean;
+}
+
+const SESSIONS_KEY = ['/api/account/sessions'];
+
+const DEVICE_ICONS = {
+  mobile: Smartphone,
+  tablet: Tablet,
+  desktop: Monitor,
+};
+
+/** Where the account is signed in, with sign-out per device or everywhere else */
+export function DeviceSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<DeviceSession[]>({
+    queryKey: SESSIONS_KEY,
+    queryFn: () => apiRequest<DeviceSession[]>('/api/account/sessions'),
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const revoke = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/account/sessions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+      toast({ title: "Device signed out" });
+    },
+    onError,
+  });
+
+  const revokeOthers = useMutation({
+    mutationFn: () => apiRequest<{ revoked: number }>('/api/account/sessions/revoke-others', { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+      toast({
+        title: "Signed out everywhere else",
+        description: data.revoked ? `${data.revoked} other ${data.revoked === 1 ? 'session was' : 'sessions were'} ended.` : "There were no other sessions.",
+      });
+    },
+    onError,
+  });
+
+  const others = sessions.filter(session => !session.current);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Browsers and devices signed in to your account. Locations are approximate and based on the IP address.
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map(session => {
+            const Icon = DEVICE_ICONS[session.device.type];
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-xs">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{session.device.label}</span>
+                      {session.current && <Badge variant="outline" className="h-5 text-[10px]">This device</Badge>}
+                    </div>
+                    <p className="text-muted-foreground truncate">
+                      {[session.location, session.ipAddress].filter(Boolean).join(' · ') || 'Unknown location'}
+                      {' · '}
+                      {session.current ? 'Active now' : `Last active ${formatDistanceToNow(new Date(session.lastAccessedAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={revoke.isPending}
+                    onClick={() => revoke.mutate(session.id)}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {others.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex gap-1 text-xs"
+          disabled={revokeOthers.isPending}
+          onClick={() => revokeOthers.mutate()}
+        >
+          {revokeOthers.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <LogOut className="h-3.5 w-3.5" />}
+          <span>Log out everywhere else</span>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface LoginAttemptEntry {
+  id: number;
+  success: boolean;
+  reason: string | null;
+  device: string;
+  location: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+const FAILURE_LABELS: Record<string, string> = {
+  bad_password: 'Wrong password',
+  throttled: 'Blocked: too many attempts',
+  locked: 'Blocked: account locked',
+  restricted: 'Blocked: account restricted',
+  confirmation_required: 'Waiting for email confirmation',
+};
+
+function describeAttempt(attempt: LoginAttemptEntry): string {
+  if (attempt.success) {
+    if (attempt.reason === 'confirmed') return 'Signed in (confirmed by email)';
+    if (attempt.reason === 'magic_link') return 'Signed in with an email link';
+    return 'Signed in';
+  }
+  return (attempt.reason && FAILURE_LABELS[attempt.reason]) || 'Failed';
+}
+
+/** Recent sign-ins to the account, including the ones that didn't get in */
+export function LoginActivity() {
+  const { data: attempts = [], isLoading } = useQuery<LoginAttemptEntry[]>({
+    queryKey: ['/api/account/login-activity'],
+    queryFn: () => apiRequest<LoginAttemptEntry[]>('/api/account/login-activity'),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin" />;
+  }
+
+  if (attempts.length === 0) {
+    return <p className="text-xs text-muted-foreground">No sign-in attempts recorded yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-72 overflow-y-auto">
+      {attempts.map(attempt => {
+        const Icon = attempt.success ? CheckCircle2 : XCircle;
+        return (
+          <li key={attempt.id} className="flex items-start gap-3 rounded-md border px-3 py-2 text-xs">
+            <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${attempt.success ? 'text-green-500' : 'text-destructive'}`} />
+            <div className="min-w-0">
+              <p className="font-medium">{describeAttempt(attempt)}</p>
+              <p className="text-muted-foreground truncate">
+                {[attempt.device, attempt.location, attempt.ipAddress].filter(Boolean).join(' · ')}
+                {' · '}
+                {formatDistanceToNow(new Date(attempt.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
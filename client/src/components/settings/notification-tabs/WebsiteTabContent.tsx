@@ -1,35 +1,125 @@
 import { memo } from 'react';
 import { SettingsSection } from '@/components/settings/SettingsSection';
 import { CardHeader, CardContent, CardTitle, CardDescription, Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { THEME_CATEGORIES } from '@shared/theme-categories';
+import {
+  useNotificationPreferences,
+  type NotificationPreferenceType
+} from '@/hooks/use-notification-preferences';
 
-const WebsiteTabContent = () => (
-  <SettingsSection
-    title="Browser Notifications"
-    description="Manage notifications that appear in your browser while using the site."
-    includeSeparator={false}
-  >
-    <Card>
-      <CardHeader>
-        <CardTitle>Browser Notifications</CardTitle>
-        <CardDescription>
-          Configure which notifications appear in your browser
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <p className="text-sm text-muted-foreground mb-4">
-          Browser notifications are currently disabled for this browser. 
-          Click "Enable Notifications" to receive updates while browsing the site.
-        </p>
-        <div className="bg-muted p-4 rounded-md mb-4">
-          <p className="text-sm font-medium">Permission Required</p>
-          <p className="text-xs text-muted-foreground mt-1">
-            Your browser requires permission to show notifications. 
-            Please accept the prompt when it appears.
-          </p>
-        </div>
-      </CardContent>
-    </Card>
-  </SettingsSection>
-);
+const WEBSITE_TYPES: { type: NotificationPreferenceType; title: string; description: string }[] = [
+  {
+    type: 'new_story',
+    title: 'New Stories',
+    description: 'When a story is published in a theme you follow'
+  },
+  {
+    type: 'bookmark_update',
+    title: 'Bookmarked Story Updates',
+    description: 'When a story you bookmarked is revised'
+  },
+  {
+    type: 'moderation_decision',
+    title: 'Moderation Decisions',
+    description: 'When a moderator approves, hides or unpublishes something you submitted'
+  }
+];
 
-export default memo(WebsiteTabContent);
\ No newline at end of file
+const WebsiteTabContent = () => {
+  const {
+    isSignedIn,
+    isLoading,
+    preferences,
+    followedThemes,
+    setPreference,
+    setFollowedThemes,
+    isSaving
+  } = useNotificationPreferences();
+
+  if (!isSignedIn) {
+    return (
+      <SettingsSection
+        title="On-site Notifications"
+        description="Sign in to choose which notifications appear in your notification bell."
+        includeSeparator={false}
+      >
+        {null}
+      </SettingsSection>
+    );
+  }
+
+  const toggleTheme = (theme: string) => {
+    setFollowedThemes(
+      followedThemes.includes(theme)
+        ? followedThemes.filter(t => t !== theme)
+        : [...followedThemes, theme]
+    );
+  };
+
+  return (
+    <SettingsSection
+      title="On-site Notifications"
+      description="Choose which notifications appear in your notification bell."
+      includeSeparator={false}
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle>Notification Types</CardTitle>
+          <CardDescription>
+            Turned-off types are not recorded, so they will not show up later either
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {WEBSITE_TYPES.map(({ type, title, description }) => (
+            <div key={type} className="flex items-start justify-between border-b pb-4">
+              <div>
+                <Label htmlFor={`notify-${type}`} className="font-medium">{title}</Label>
+                <p className="text-sm text-muted-foreground mt-1">{description}</p>
+              </div>
+              <Switch
+                id={`notify-${type}`}
+                checked={preferences?.[type] ?? true}
+                disabled={isLoading || isSaving}
+                onCheckedChange={(checked) => setPreference(type, checked)}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Followed Themes</CardTitle>
+          <CardDescription>
+            New stories in these themes are announced in your notifications
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(THEME_CATEGORIES).map(([key, theme]) => {
+              const followed = followedThemes.includes(key);
+              return (
+                <Button
+                  key={key}
+                  type="button"
+                  size="sm"
+                  variant={followed ? 'default' : 'outline'}
+                  aria-pressed={followed}
+                  disabled={isLoading || isSaving}
+                  onClick={() => toggleTheme(key)}
+                >
+                  {theme.label}
+                </Button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </SettingsSection>
+  );
+};
+
+export default memo(WebsiteTabContent);
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  EnrollmentDetails,
+  RecoveryCodesList,
+  TotpCodeInput,
+  type TwoFactorEnrollment
+} from "@/components/auth/two-factor-challenge";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+const STATUS_KEY = ['/api/auth/2fa/status'];
+
+type DialogMode = 'enable' | 'disable' | 'regenerate' | null;
+
+/** Two-factor row for the security section of the privacy settings page */
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_KEY,
+    queryFn: () => apiRequest<TwoFactorStatus>('/api/auth/2fa/status'),
+  });
+
+  const closeDialog = () => {
+    setMode(null);
+    setEnrollment(null);
+    setCode("");
+    setRecoveryCodes(null);
+  };
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const startSetup = useMutation({
+    mutationFn: () => apiRequest<TwoFactorEnrollment>('/api/auth/2fa/setup', { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setMode('enable');
+    },
+    onError,
+  });
+
+  const submitCode = useMutation({
+    mutationFn: (currentMode: Exclude<DialogMode, null>) => {
+      const url = currentMode === 'enable'
+        ? '/api/auth/2fa/enable'
+        : currentMode === 'disable'
+          ? '/api/auth/2fa/disable'
+          : '/api/auth/2fa/recovery-codes';
+      return apiRequest<{ recoveryCodes?: string[] }>(url, { method: 'POST', body: JSON.stringify({ code: code.trim() }) });
+    },
+    onSuccess: (data, currentMode) => {
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      setCode("");
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        closeDialog();
+      }
+      toast({
+        title: currentMode === 'disable' ? "Two-factor disabled" : currentMode === 'enable' ? "Two-factor enabled" : "Recovery codes replaced",
+        description: currentMode === 'disable'
+          ? "Your account no longer asks for a verification code"
+          : "Store your recovery codes somewhere safe",
+      });
+    },
+    onError,
+  });
+
+  const dialogTitle = mode === 'enable'
+    ? "Enable two-factor authentication"
+    : mode === 'disable'
+      ? "Disable two-factor authentication"
+      : "Generate new recovery codes";
+
+  return (
+    <div className="flex items-center justify-between rounded-lg border p-3">
+      <div className="space-y-0.5">
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Two-Factor Authentication</Label>
+          {status?.enabled ? (
+            <Badge variant="outline" className="h-5 text-[10px] border-green-500 text-green-600">On</Badge>
+          ) : (
+            <Badge variant="outline" className="h-5 text-[10px]">{status?.required ? "Required" : "Recommended"}</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {status?.enabled
+            ? `Authenticator app · ${status.recoveryCodesRemaining} recovery codes left`
+            : "Require a code from an authenticator app when signing in"}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : status?.enabled ? (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMode('regenerate')}>
+            New codes
+          </Button>
+          {!status.required && (
+            <Button variant="outline" size="sm" onClick={() => setMode('disable')}>
+              Disable
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Button size="sm" onClick={() => startSetup.mutate()} disabled={startSetup.isPending}>
+          {startSetup.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Set up
+        </Button>
+      )}
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogTitle}</DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? "Your new recovery codes replace any you saved before."
+                : mode === 'enable'
+                  ? "Scan or enter the setup key, then type the 6-digit code your app shows."
+                  : "Confirm with a code from your authenticator app or a recovery code."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {recoveryCodes ? (
+            <RecoveryCodesList codes={recoveryCodes} />
+          ) : (
+            <form
+              id="two-factor-form"
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (mode) submitCode.mutate(mode);
+              }}
+            >
+              {mode === 'enable' && enrollment && <EnrollmentDetails enrollment={enrollment} />}
+              {mode === 'enable' ? (
+                <TotpCodeInput value={code} onChange={setCode} disabled={submitCode.isPending} />
+              ) : (
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456 or xxxxx-xxxxx"
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              )}
+            </form>
+          )}
+
+          <DialogFooter>
+            {recoveryCodes ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <Button
+                type="submit"
+                form="two-factor-form"
+                variant={mode === 'disable' ? 'destructive' : 'default'}
+                disabled={submitCode.isPending || code.trim().length < 6}
+              >
+                {submitCode.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {mode === 'disable' ? "Disable" : "Verify"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
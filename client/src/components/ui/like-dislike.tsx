@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { ThumbsUp, ThumbsDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLivePostEvents } from "@/hooks/use-live-post-events";
 
 interface LikeDislikeProps {
   postId: number;
@@ -20,6 +22,13 @@ interface Stats {
     dislikes: number;
   };
   userInteracted: boolean;
+  // This reader's own reaction; older saved stats infer it from the counts instead
+  userReaction?: 'like' | 'dislike' | null;
+}
+
+interface ReactionTotals {
+  likes: number;
+  dislikes: number;
 }
 
 function isValidStats(obj: any): obj is Stats {
@@ -38,6 +47,13 @@ function isValidStats(obj: any): obj is Stats {
 
 const getStorageKey = (postId: number) => `post-stats-${postId}`;
 
+const getUserReaction = (stats: Stats): 'like' | 'dislike' | null => {
+  if (stats.userReaction !== undefined) return stats.userReaction;
+  if (stats.likes > stats.baseStats.likes) return 'like';
+  if (stats.dislikes > stats.baseStats.dislikes) return 'dislike';
+  return null;
+};
+
 // Generate consistent random numbers based on postId
 const generateBaseStats = (postId: number) => {
   // Use postId as seed for consistent random generation across all components
@@ -119,12 +135,9 @@ export function LikeDislike({
         const newStats = event.detail.stats;
         setStats(newStats);
         
-        // Update UI states based on current stats vs base stats
-        const userLiked = newStats.likes > newStats.baseStats.likes;
-        const userDisliked = newStats.dislikes > newStats.baseStats.dislikes;
-        
-        setLiked(userLiked);
-        setDisliked(userDisliked);
+        const reaction = getUserReaction(newStats);
+        setLiked(reaction === 'like');
+        setDisliked(reaction === 'dislike');
         
         onUpdate?.(newStats.likes, newStats.dislikes);
       }
@@ -158,15 +171,53 @@ export function LikeDislike({
     console.log(`Loading stats for post ${postId}:`, currentStats);
     setStats(currentStats);
     
-    // Determine user state from current stats vs base stats
-    const userLiked = currentStats.likes > currentStats.baseStats.likes;
-    const userDisliked = currentStats.dislikes > currentStats.baseStats.dislikes;
-    
-    setLiked(userLiked);
-    setDisliked(userDisliked);
+    const reaction = getUserReaction(currentStats);
+    setLiked(reaction === 'like');
+    setDisliked(reaction === 'dislike');
     onUpdate?.(currentStats.likes, currentStats.dislikes);
   }, [postId, onUpdate]);
 
+  // On the story page, counts follow the real totals as other readers react
+  const applyTotals = (totals: ReactionTotals) => {
+    const current = getOrCreateStats(postId);
+    updateStats({
+      ...current,
+      likes: current.baseStats.likes + totals.likes,
+      dislikes: current.baseStats.dislikes + totals.dislikes
+    });
+  };
+
+  const loadTotals = () => {
+    apiRequest<{ reactions: ReactionTotals }>(`/api/posts/${postId}/reactions`)
+      .then(data => applyTotals(data.reactions))
+      .catch(error => console.error(`[LikeDislike] Error loading reactions for post ${postId}:`, error));
+  };
+
+  // Loaded again only when the post or variant changes, through a ref to the latest loadTotals
+  const loadTotalsRef = useRef(loadTotals);
+  loadTotalsRef.current = loadTotals;
+
+  useEffect(() => {
+    if (variant === 'reader') loadTotalsRef.current();
+  }, [postId, variant]);
+
+  useLivePostEvents(postId, (type, data) => {
+    if (type === 'post.reactions') applyTotals(data);
+    if (type === 'reset') loadTotals();
+  }, variant === 'reader');
+
+  // Same reaction twice removes it on the server, mirroring the toggle here
+  const sendReaction = (isLike: boolean) => {
+    apiRequest<{ reactions: ReactionTotals }>(`/api/posts/${postId}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ isLike })
+    })
+      .then(data => {
+        if (variant === 'reader') applyTotals(data.reactions);
+      })
+      .catch(error => console.error(`[LikeDislike] Error saving reaction for post ${postId}:`, error));
+  };
+
   const showInlineToast = (message: string, type: 'like' | 'dislike' | 'error' = 'like') => {
     setInlineToast({ message, type });
     // Small delay for smooth entrance animation
@@ -211,7 +262,8 @@ export function LikeDislike({
           likes: stats.likes + 1,
           dislikes: disliked ? stats.dislikes - 1 : stats.dislikes,
           baseStats: stats.baseStats,
-          userInteracted: true
+          userInteracted: true,
+          userReaction: 'like'
         });
         showInlineToast("Thanks for liking! 🥰", 'like');
       } else {
@@ -220,9 +272,11 @@ export function LikeDislike({
           ...stats,
           likes: stats.likes - 1,
           baseStats: stats.baseStats,
-          userInteracted: false
+          userInteracted: false,
+          userReaction: null
         });
       }
+      sendReaction(true);
       onLike?.(newLiked);
     } catch (error) {
       console.error(`[LikeDislike] Error handling like for post ${postId}:`, error);
@@ -241,7 +295,8 @@ export function LikeDislike({
           dislikes: stats.dislikes + 1,
           likes: liked ? stats.likes - 1 : stats.likes,
           baseStats: stats.baseStats,
-          userInteracted: true
+          userInteracted: true,
+          userReaction: 'dislike'
         });
         showInlineToast("Thanks for the feedback! 😔", 'dislike');
       } else {
@@ -250,9 +305,11 @@ export function LikeDislike({
           ...stats,
           dislikes: stats.dislikes - 1,
           baseStats: stats.baseStats,
-          userInteracted: false
+          userInteracted: false,
+          userReaction: null
         });
       }
+      sendReaction(false);
       onDislike?.(newDisliked);
     } catch (error) {
       console.error(`[LikeDislike] Error handling dislike for post ${postId}:`, error);
@@ -4,12 +4,13 @@ import {
   Bug, Scroll, Shield, Monitor, Bell, Lock, Building,
   Mail, MessageSquare, Palette, Type,
   User, Link2 as Link, CircleUserRound as UserCircle, Bookmark as BookmarkIcon,
-  LineChart, Eye, Star, Compass
+  LineChart, Eye, Star, Compass, Trophy
 } from "lucide-react"
 
 import { cn } from "@/lib/utils"
 import { useLocation } from "wouter"
 import { useAuth } from "@/hooks/use-auth"
+import { usePermissions } from "@/hooks/use-permissions"
 // Removed loading provider import for instant navigation
 import { Button } from "@/components/ui/button"
 import { motion } from "framer-motion"
@@ -36,6 +37,7 @@ import {
 export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
   const [location, setLocation] = useLocation();
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
   // Removed loading hook for instant navigation
   const [displayOpen, setDisplayOpen] = React.useState(false);
   const [accountOpen, setAccountOpen] = React.useState(false);
@@ -241,6 +243,9 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
         case '/bookmarks':
           void import('../../pages/bookmarks');
           break;
+        case '/challenges':
+          void import('../../pages/challenges');
+          break;
         case '/profile':
           void import('../../pages/profile');
           break;
@@ -503,6 +508,43 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                     </SidebarMenuButton>
                   </motion.div>
                 </SidebarMenuItem>
+
+                <SidebarMenuItem>
+                  <motion.div
+                    initial={{ opacity: 0, x: -15 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ 
+                      duration: 0.3, 
+                      delay: 0.45,
+                      ease: [0.25, 0.46, 0.45, 0.94]
+                    }}
+                    whileHover={{ x: 3 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    <SidebarMenuButton
+                      isActive={location.startsWith('/challenges')}
+                      onClick={() => handleNavigation('/challenges')}
+                      onMouseEnter={() => prefetchRoute('/challenges')}
+                      onFocus={() => prefetchRoute('/challenges')}
+                      tooltip="Writing Challenges"
+                      className={menuItemClass}
+                      aria-current={location.startsWith('/challenges') ? 'page' : undefined}
+                    >
+                      {renderActiveIndicator('/challenges')}
+                      <Trophy className="h-5 w-5 group-hover:scale-110 transition-transform duration-200" />
+                      <span className="sidebar-menu-text-enhanced">CHALLENGES</span>
+                      {location.startsWith('/challenges') && (
+                        <motion.div
+                          initial={{ scale: 0 }}
+                          animate={{ scale: 1 }}
+                          className="ml-auto"
+                        >
+                          <Star className="h-3 w-3 text-primary fill-current" />
+                        </motion.div>
+                      )}
+                    </SidebarMenuButton>
+                  </motion.div>
+                </SidebarMenuItem>
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
@@ -532,8 +574,8 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
         </SidebarGroupContent>
       </SidebarGroup>
 
-      {/* Admin Navigation - Only show if user is admin */}
-      {user?.isAdmin && (
+      {/* Admin Navigation - Only show to staff, each entry gated by what their role allows */}
+      {can('admin.access') && (
         <SidebarGroup className="-mt-4">
           <SidebarGroupLabel className="px-1 text-xs font-medium text-[hsl(var(--sidebar-foreground))] -mb-1 uppercase tracking-wider">
             ADMINISTRATION
@@ -580,6 +622,7 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                       </SidebarMenuSubItem>
 
                       {/* Content Management - Merges Stories + Content + WordPress Sync */}
+                      {(can('posts.publish') || can('posts.review')) && (
                       <SidebarMenuSubItem>
                         <SidebarMenuSubButton
                           isActive={
@@ -601,8 +644,10 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                           <span>Content Management</span>
                         </SidebarMenuSubButton>
                       </SidebarMenuSubItem>
+                      )}
 
                       {/* Theme Management */}
+                      {can('posts.edit_any') && (
                       <SidebarMenuSubItem>
                         <SidebarMenuSubButton
                           isActive={location === '/admin/themes'}
@@ -614,8 +659,10 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                           <span>Theme Management</span>
                         </SidebarMenuSubButton>
                       </SidebarMenuSubItem>
+                      )}
 
                       {/* User Management - Merges Users + Moderation */}
+                      {can('users.view') ? (
                       <SidebarMenuSubItem>
                         <SidebarMenuSubButton
                           isActive={
@@ -633,8 +680,22 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                           <span>User Management</span>
                         </SidebarMenuSubButton>
                       </SidebarMenuSubItem>
+                      ) : can('comments.moderate') && (
+                      <SidebarMenuSubItem>
+                        <SidebarMenuSubButton
+                          isActive={location === '/admin/content-moderation'}
+                          onClick={() => handleNavigation('/admin/content-moderation')}
+                          className={submenuItemClass}
+                          aria-current={location === '/admin/content-moderation' ? 'page' : undefined}
+                        >
+                          <Shield className="h-7 w-7 mr-2" />
+                          <span>Moderation</span>
+                        </SidebarMenuSubButton>
+                      </SidebarMenuSubItem>
+                      )}
 
                       {/* Insights & Reports - Merges Analytics + Statistics + Feedback + Bug Reports */}
+                      {can('analytics.view') && (
                       <SidebarMenuSubItem>
                         <SidebarMenuSubButton
                           isActive={
@@ -656,6 +717,7 @@ export function SidebarNavigation({ onNavigate }: { onNavigate?: () => void }) {
                           <span>Insights & Reports</span>
                         </SidebarMenuSubButton>
                       </SidebarMenuSubItem>
+                      )}
                     </SidebarMenuSub>
                   </motion.div>
                 </CollapsibleContent>
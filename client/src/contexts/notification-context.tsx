@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { v4 as uuidv4 } from 'uuid';
 import { CreepyTextGlitch } from '@/components/effects/CursedNotificationEffect';
@@ -16,6 +18,39 @@ export interface Notification {
   date: Date;
   link?: string;
   storyId?: number;
+  // Set for notifications stored on the server for the signed-in user
+  serverId?: number;
+}
+
+interface ServerNotification {
+  id: number;
+  type: 'comment_reply' | 'new_story' | 'moderation_decision' | 'bookmark_update';
+  title: string;
+  message: string;
+  isRead: boolean;
+  data: { link?: string; postId?: number; decision?: string } | null;
+  createdAt: string;
+}
+
+function fromServer(row: ServerNotification): Notification {
+  const decision = row.data?.decision;
+  const type: NotificationType = row.type === 'new_story'
+    ? 'new-story'
+    : row.type === 'moderation_decision'
+      ? (decision === 'approved' || decision === 'published' ? 'success' : 'warning')
+      : 'info';
+
+  return {
+    id: `server-${row.id}`,
+    serverId: row.id,
+    type,
+    title: row.title,
+    message: row.message,
+    read: row.isRead,
+    date: new Date(row.createdAt),
+    link: row.data?.link,
+    storyId: row.data?.postId
+  };
 }
 
 interface NotificationContextType {
@@ -38,8 +73,14 @@ const NotificationContext = createContext<NotificationContextType | undefined>(u
 // 24 hours in milliseconds = 86400000, but we'll use a much shorter time for testing
 const IGNORED_THRESHOLD = 30 * 1000; // 30 seconds for easy testing
 
+// How often signed-in users poll the unread count
+const SERVER_POLL_INTERVAL = 60 * 1000;
+
 export function NotificationProvider({ children }: { children: React.ReactNode }) {
-  const [notifications, setNotifications] = useState<Notification[]>(() => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [serverNotifications, setServerNotifications] = useState<Notification[]>([]);
+  const [localNotifications, setLocalNotifications] = useState<Notification[]>(() => {
     // Try to load from localStorage first
     try {
       const saved = localStorage.getItem('notifications');
@@ -77,16 +118,73 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     }
   }, [lastNotificationOpen]);
 
+  // Server notifications come first for signed-in users; local ones (guest alerts, the cursed one) follow
+  const notifications = [...serverNotifications, ...localNotifications]
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
   const unreadCount = notifications.filter(n => !n.read).length;
 
   // Save notifications to localStorage when they change
   useEffect(() => {
     try {
-      localStorage.setItem('notifications', JSON.stringify(notifications));
+      localStorage.setItem('notifications', JSON.stringify(localNotifications));
     } catch (error) {
       console.error('[Notifications] Error saving to localStorage:', error);
     }
-  }, [notifications]);
+  }, [localNotifications]);
+
+  // The fetch and polling callbacks below outlive renders, so they reach the latest notifications
+  // and helpers (defined further down) through refs
+  const notificationsRef = useRef(notifications);
+  notificationsRef.current = notifications;
+  const addNotificationRef = useRef<NotificationContextType['addNotification']>(() => {});
+  const showNotificationToastRef = useRef<NotificationContextType['showNotificationToast']>(() => {});
+
+  // Load the signed-in user's notifications, then poll the unread count and refetch when it changes
+  const knownServerIdsRef = useRef<Set<number> | null>(null);
+  const fetchServerNotifications = useCallback(async () => {
+    try {
+      const data = await apiRequest<{ notifications: ServerNotification[] }>('/api/notifications?limit=50');
+      const mapped = data.notifications.map(fromServer);
+
+      // Toast anything that arrived since the previous fetch (not on the first load)
+      const known = knownServerIdsRef.current;
+      if (known) {
+        mapped
+          .filter(n => n.serverId && !known.has(n.serverId) && !n.read)
+          .slice(0, 3)
+          .forEach(n => showNotificationToastRef.current(n));
+      }
+      knownServerIdsRef.current = new Set(mapped.map(n => n.serverId as number));
+      setServerNotifications(mapped);
+    } catch (error) {
+      console.error('[Notifications] Error loading notifications:', error);
+    }
+  }, []);
+
+  const serverUnreadRef = useRef<number | null>(null);
+  useEffect(() => {
+    knownServerIdsRef.current = null;
+    serverUnreadRef.current = null;
+    if (!userId) {
+      setServerNotifications([]);
+      return;
+    }
+
+    fetchServerNotifications();
+    const interval = setInterval(async () => {
+      try {
+        const { unreadCount: count } = await apiRequest<{ unreadCount: number }>('/api/notifications/unread-count');
+        if (serverUnreadRef.current !== null && count !== serverUnreadRef.current) {
+          await fetchServerNotifications();
+        }
+        serverUnreadRef.current = count;
+      } catch (error) {
+        console.error('[Notifications] Error polling unread count:', error);
+      }
+    }, SERVER_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [userId, fetchServerNotifications]);
 
   // Add special cursed notification for users who ignore notifications
   const hasAddedCursedRef = useRef(false);
@@ -101,8 +199,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         console.log('[Notifications] User has been ignoring notifications for too long, adding cursed notification');
         
         // Add a special cursed notification (only if we haven't added one already)
-        if (!notifications.some(n => n.type === 'cursed')) {
-          addNotification({
+        if (!notificationsRef.current.some(n => n.type === 'cursed')) {
+          addNotificationRef.current({
             type: 'cursed',
             title: 'Why are you ignoring me?',
             message: 'I noticed you haven\'t checked your notifications in a while.',
@@ -122,8 +220,9 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     }
   }, [unreadCount]);
 
-  // Check for new stories periodically
+  // Check for new stories periodically; signed-in users get these from the server for the themes they follow
   useEffect(() => {
+    if (userId) return;
     let lastChecked = new Date();
     
     const checkForNewStories = async () => {
@@ -140,8 +239,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         
         // Only notify if the latest post is newer than our last check
         // and we don't already have a notification for it
-        if (postDate > lastChecked && !notifications.some(n => n.storyId === latestPost.id)) {
-          addNotification({
+        if (postDate > lastChecked && !notificationsRef.current.some(n => n.storyId === latestPost.id)) {
+          addNotificationRef.current({
             type: 'new-story',
             title: 'New Story Published',
             message: `"${latestPost.title.rendered}" is now available to read!`,
@@ -163,7 +262,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     const interval = setInterval(checkForNewStories, 5 * 60 * 1000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [userId]);
 
   const addNotification = (notification: Omit<Notification, 'id' | 'date' | 'read'>) => {
     const newNotification: Notification = {
@@ -173,7 +272,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       read: false,
     };
     
-    setNotifications(prev => [newNotification, ...prev]);
+    setLocalNotifications(prev => [newNotification, ...prev]);
     
     // Also show a toast notification unless it's a cursed notification
     // (we want that one to be a surprise when they open the menu)
@@ -183,17 +282,36 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   };
 
   const markAsRead = (id: string) => {
-    setNotifications(prev =>
+    const serverNotification = serverNotifications.find(n => n.id === id);
+    if (serverNotification?.serverId) {
+      setServerNotifications(prev => prev.map(n => (n.id === id ? { ...n, read: true } : n)));
+      apiRequest(`/api/notifications/${serverNotification.serverId}/read`, { method: 'POST' })
+        .catch(error => console.error('[Notifications] Error marking notification as read:', error));
+      return;
+    }
+    setLocalNotifications(prev =>
       prev.map(n => (n.id === id ? { ...n, read: true } : n))
     );
   };
 
   const markAllAsRead = () => {
-    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setLocalNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    if (userId) {
+      setServerNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      serverUnreadRef.current = 0;
+      apiRequest('/api/notifications/read-all', { method: 'POST' })
+        .catch(error => console.error('[Notifications] Error marking notifications as read:', error));
+    }
   };
 
   const clearNotifications = () => {
-    setNotifications([]);
+    setLocalNotifications([]);
+    if (userId) {
+      setServerNotifications([]);
+      serverUnreadRef.current = 0;
+      apiRequest('/api/notifications', { method: 'DELETE' })
+        .catch(error => console.error('[Notifications] Error clearing notifications:', error));
+    }
   };
 
   const { toast } = useToast();
@@ -265,6 +383,9 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     });
   };
 
+  addNotificationRef.current = addNotification;
+  showNotificationToastRef.current = showNotificationToast;
+
   const value = {
     notifications,
     unreadCount,
@@ -1,10 +1,12 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { mergeLocalProgress } from '@/lib/reading-progress';
 
 interface User {
   id: number;
   email: string;
   username: string;
   isAdmin: boolean;
+  role?: string;
   fullName?: string;
   bio?: string;
   avatar?: string;
@@ -16,6 +18,14 @@ interface RegisterData {
   password: string;
 }
 
+// Returned by sign-in when the password was correct but a second factor is still owed
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  // Admins without 2FA must enroll before they can finish signing in
+  setupRequired: boolean;
+  expiresAt: string;
+}
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
@@ -23,6 +33,12 @@ interface AuthContextType {
   isLoading: boolean;
   error: string | null;
   login: (email: string, password: string, rememberMe?: boolean) => Promise<any>;
+  confirmLogin: (token: string) => Promise<any>;
+  signInWithMagicLink: (token: string) => Promise<any>;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  startTwoFactorChallenge: (response: any) => boolean;
+  verifyTwoFactor: (code: string) => Promise<{ user: User; recoveryCodes?: string[] }>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
   registerMutation: {
@@ -39,6 +55,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
 
   const checkAuth = async () => {
     try {
@@ -70,6 +87,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
+  // Carry reading positions saved while signed out over to the account
+  useEffect(() => {
+    if (!user?.id) return;
+    mergeLocalProgress().catch(error => {
+      console.error('[Auth] Reading progress merge failed:', error);
+    });
+  }, [user?.id]);
+
+  // Returns true when the sign-in response asked for a second factor
+  const startTwoFactorChallenge = (response: any) => {
+    if (!response?.twoFactorRequired && !response?.twoFactorSetupRequired) {
+      return false;
+    }
+    setTwoFactorChallenge({
+      challengeToken: response.challengeToken,
+      setupRequired: !!response.twoFactorSetupRequired,
+      expiresAt: response.expiresAt
+    });
+    return true;
+  };
+
   const login = async (email: string, password: string, rememberMe = false) => {
     setIsLoading(true);
     setError(null);
@@ -93,6 +131,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error(data.message || 'Login failed');
       }
       
+      if (data.confirmationRequired) {
+        console.log('[Auth] Password accepted, sign-in held for email confirmation');
+        return data;
+      }
+      
+      if (startTwoFactorChallenge(data)) {
+        console.log('[Auth] Password accepted, second factor required');
+        return data;
+      }
+      
       console.log('[Auth] Login successful:', data);
       setUser(data);
       try {
@@ -109,6 +157,65 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Sign in with the token from an emailed link; it may still ask for a second factor
+  const redeemEmailLink = async (url: string, token: string) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ token }),
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.message || 'Could not sign in with this link');
+    }
+    
+    if (!startTwoFactorChallenge(data)) {
+      setUser(data.user);
+    }
+    return data;
+  };
+
+  // Finish a sign-in that was held until the emailed link was opened
+  const confirmLogin = (token: string) => redeemEmailLink('/api/auth/login/confirm', token);
+
+  const signInWithMagicLink = (token: string) => redeemEmailLink('/api/auth/magic-link/verify', token);
+
+  const verifyTwoFactor = async (code: string) => {
+    if (!twoFactorChallenge) {
+      throw new Error('No sign-in in progress');
+    }
+    
+    const response = await fetch('/api/auth/2fa/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ challengeToken: twoFactorChallenge.challengeToken, code }),
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      // An expired challenge cannot be retried; send the user back to the password step
+      if (response.status === 401 && /expired/i.test(data.message || '')) {
+        setTwoFactorChallenge(null);
+      }
+      throw new Error(data.message || 'Verification failed');
+    }
+    
+    setTwoFactorChallenge(null);
+    setUser(data.user);
+    return data;
+  };
+
+  const cancelTwoFactor = () => setTwoFactorChallenge(null);
+
   const register = async (data: RegisterData) => {
     setIsRegistering(true);
     setError(null);
@@ -185,6 +292,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isLoading,
     error,
     login,
+    confirmLogin,
+    signInWithMagicLink,
+    twoFactorChallenge,
+    startTwoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
     logout,
     checkAuth,
     registerMutation
@@ -0,0 +1,181 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export type ChallengePhase = 'upcoming' | 'open' | 'voting' | 'closed';
+
+export interface Challenge {
+  id: number;
+  title: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  votingEndDate: string | null;
+  votingEndsAt: string;
+  phase: ChallengePhase;
+  entryCount: number;
+}
+
+export interface ChallengeEntry {
+  id: number;
+  challengeId: number;
+  title: string | null;
+  content: string;
+  submissionDate: string;
+  updatedAt: string | null;
+  promotedPostId: number | null;
+  promotedPostSlug: string | null;
+  author: { id: number; username: string | null };
+}
+
+export interface RankedChallengeEntry extends ChallengeEntry {
+  votes: number;
+  rank: number;
+}
+
+export interface ChallengeDetail {
+  challenge: Challenge;
+  // Hidden while submissions are open
+  entries: ChallengeEntry[] | null;
+  myEntry: ChallengeEntry | null;
+  myVote: number | null;
+}
+
+export interface ChallengeResults {
+  challenge: Challenge;
+  entries: RankedChallengeEntry[];
+  winners: RankedChallengeEntry[];
+}
+
+export interface ChallengeFormValues {
+  title: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  votingEndDate?: string | null;
+}
+
+export interface EntryFormValues {
+  title?: string | null;
+  content: string;
+}
+
+export const CHALLENGE_PHASE_LABELS: Record<ChallengePhase, string> = {
+  upcoming: 'Upcoming',
+  open: 'Accepting entries',
+  voting: 'Voting',
+  closed: 'Results'
+};
+
+const CHALLENGES_KEY = ['/api/challenges'];
+
+export function useChallenges() {
+  return useQuery<Challenge[]>({
+    queryKey: CHALLENGES_KEY,
+    queryFn: () => apiRequest<Challenge[]>('/api/challenges'),
+  });
+}
+
+export function useCreateChallenge() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: ChallengeFormValues) =>
+      apiRequest<Challenge>('/api/challenges', {
+        method: 'POST',
+        body: JSON.stringify(values),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CHALLENGES_KEY });
+      toast({ title: 'Challenge created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not create challenge', description: error.message, variant: 'destructive' });
+    },
+  });
+}
+
+/**
+ * One challenge for the signed-in (or anonymous) reader, with the entry and vote actions
+ * the current phase allows. Results are fetched only once voting has ended.
+ */
+export function useChallenge(id: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const detailKey = [`/api/challenges/${id}`];
+  const resultsKey = [`/api/challenges/${id}/results`];
+
+  const detail = useQuery<ChallengeDetail>({
+    queryKey: detailKey,
+    queryFn: () => apiRequest<ChallengeDetail>(`/api/challenges/${id}`),
+    enabled: Number.isFinite(id),
+  });
+
+  const results = useQuery<ChallengeResults>({
+    queryKey: resultsKey,
+    queryFn: () => apiRequest<ChallengeResults>(`/api/challenges/${id}/results`),
+    enabled: detail.data?.challenge.phase === 'closed',
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: detailKey });
+    queryClient.invalidateQueries({ queryKey: CHALLENGES_KEY });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const saveEntry = useMutation({
+    mutationFn: (values: EntryFormValues) =>
+      apiRequest(detail.data?.myEntry ? `/api/challenges/${id}/entries/mine` : `/api/challenges/${id}/entries`, {
+        method: detail.data?.myEntry ? 'PATCH' : 'POST',
+        body: JSON.stringify(values),
+      }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Entry saved' });
+    },
+    onError: onError('Could not save your entry'),
+  });
+
+  const withdrawEntry = useMutation({
+    mutationFn: () => apiRequest(`/api/challenges/${id}/entries/mine`, { method: 'DELETE' }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Entry withdrawn' });
+    },
+    onError: onError('Could not withdraw your entry'),
+  });
+
+  const vote = useMutation({
+    mutationFn: (entryId: number) =>
+      apiRequest(`/api/challenges/${id}/vote`, {
+        method: 'PUT',
+        body: JSON.stringify({ entryId }),
+      }),
+    onSuccess: refresh,
+    onError: onError('Could not record your vote'),
+  });
+
+  const removeVote = useMutation({
+    mutationFn: () => apiRequest(`/api/challenges/${id}/vote`, { method: 'DELETE' }),
+    onSuccess: refresh,
+    onError: onError('Could not remove your vote'),
+  });
+
+  const promoteEntry = useMutation({
+    mutationFn: (entryId: number) =>
+      apiRequest<{ postId: number; slug: string }>(`/api/challenges/${id}/entries/${entryId}/promote`, {
+        method: 'POST',
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: resultsKey });
+      refresh();
+      toast({ title: 'Entry published to the community' });
+    },
+    onError: onError('Could not publish the entry'),
+  });
+
+  return { detail, results, saveEntry, withdrawEntry, vote, removeVote, promoteEntry };
+}
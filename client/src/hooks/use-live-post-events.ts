@@ -0,0 +1,141 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+export type LivePostEventType =
+  | 'comment.created'
+  | 'comment.updated'
+  | 'comment.deleted'
+  | 'comment.votes'
+  | 'post.reactions'
+  | 'reset';
+
+type LiveHandler = (type: LivePostEventType, data: any) => void;
+
+const EVENT_TYPES: LivePostEventType[] = [
+  'comment.created',
+  'comment.updated',
+  'comment.deleted',
+  'comment.votes',
+  'post.reactions',
+  'reset'
+];
+
+// Used when the browser gives up on a stream (e.g. the server answered 503)
+const RECONNECT_DELAY = 10 * 1000;
+
+interface Connection {
+  source: EventSource | null;
+  handlers: Set<LiveHandler>;
+  lastEventId: string | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// One stream per post, shared by every component on the page that listens to it
+const connections = new Map<number, Connection>();
+
+function open(postId: number, connection: Connection) {
+  const query = connection.lastEventId ? `?lastEventId=${encodeURIComponent(connection.lastEventId)}` : '';
+  const source = new EventSource(`/api/posts/${postId}/live${query}`, { withCredentials: true });
+
+  EVENT_TYPES.forEach(type => {
+    source.addEventListener(type, (event) => {
+      const message = event as MessageEvent<string>;
+      if (message.lastEventId) connection.lastEventId = message.lastEventId;
+      let data: unknown = null;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      connection.handlers.forEach(handler => handler(type, data));
+    });
+  });
+
+  // EventSource retries on its own (sending Last-Event-ID); only step in once it has closed for good
+  source.onerror = () => {
+    if (source.readyState !== EventSource.CLOSED || connection.handlers.size === 0) return;
+    connection.source = null;
+    connection.retryTimer = setTimeout(() => {
+      connection.retryTimer = null;
+      if (connection.handlers.size > 0) open(postId, connection);
+    }, RECONNECT_DELAY);
+  };
+
+  connection.source = source;
+}
+
+function subscribe(postId: number, handler: LiveHandler): () => void {
+  let connection = connections.get(postId);
+  if (!connection) {
+    connection = { source: null, handlers: new Set(), lastEventId: null, retryTimer: null };
+    connections.set(postId, connection);
+  }
+  connection.handlers.add(handler);
+  if (!connection.source && !connection.retryTimer) open(postId, connection);
+
+  const current = connection;
+  return () => {
+    current.handlers.delete(handler);
+    if (current.handlers.size > 0) return;
+    current.source?.close();
+    if (current.retryTimer) clearTimeout(current.retryTimer);
+    connections.delete(postId);
+  };
+}
+
+/**
+ * Listen to the live event stream of a post.
+ * The handler may change between renders without reopening the stream.
+ */
+export function useLivePostEvents(postId: number | null | undefined, handler: LiveHandler, enabled = true) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!postId || !enabled || typeof EventSource === 'undefined') return;
+    return subscribe(postId, (type, data) => handlerRef.current(type, data));
+  }, [postId, enabled]);
+}
+
+interface LiveCommentRecord {
+  id: number;
+  parentId: number | null;
+  isOwner?: boolean;
+  metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** Keep the cached comment list of a post in step with other readers' activity */
+export function useLiveComments(postId: number | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useLivePostEvents(postId, (type, data) => {
+    const queryKey = [`/api/posts/${postId}/comments`];
+
+    if (type === 'reset') {
+      queryClient.invalidateQueries({ queryKey });
+      return;
+    }
+    if (!type.startsWith('comment.')) return;
+
+    queryClient.setQueryData<LiveCommentRecord[]>(queryKey, (comments) => {
+      if (!comments) return comments;
+
+      switch (type) {
+        case 'comment.created':
+          // The list may already have it, e.g. the author's own comment after their refetch
+          return comments.some(c => c.id === data.id) ? comments : [...comments, data];
+        case 'comment.updated':
+          return comments.map(c => (c.id === data.id ? { ...c, ...data, isOwner: c.isOwner } : c));
+        case 'comment.deleted':
+          return comments.filter(c => c.id !== data.id);
+        case 'comment.votes':
+          return comments.map(c => (c.id === data.id
+            ? { ...c, metadata: { ...c.metadata, upvotes: data.upvotes, downvotes: data.downvotes } }
+            : c));
+        default:
+          return comments;
+      }
+    });
+  });
+}
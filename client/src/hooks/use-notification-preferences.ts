@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export type NotificationPreferenceType = 'comment_reply' | 'new_story' | 'moderation_decision' | 'bookmark_update';
+
+export interface NotificationPreferencesResponse {
+  preferences: Record<NotificationPreferenceType, boolean>;
+  followedThemes: string[];
+}
+
+interface PreferencesUpdate {
+  preferences?: Partial<Record<NotificationPreferenceType, boolean>>;
+  followedThemes?: string[];
+}
+
+const PREFERENCES_KEY = ['/api/notifications/preferences'];
+
+/**
+ * Per-type on-site notification toggles and followed themes for the signed-in reader
+ */
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<NotificationPreferencesResponse>({
+    queryKey: PREFERENCES_KEY,
+    queryFn: () => apiRequest<NotificationPreferencesResponse>('/api/notifications/preferences'),
+    enabled: !!user,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (update: PreferencesUpdate) =>
+      apiRequest<NotificationPreferencesResponse>('/api/notifications/preferences', {
+        method: 'PUT',
+        body: JSON.stringify(update),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(PREFERENCES_KEY, data);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save preferences', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    isSignedIn: !!user,
+    isLoading: query.isLoading,
+    preferences: query.data?.preferences,
+    followedThemes: query.data?.followedThemes ?? [],
+    setPreference: (type: NotificationPreferenceType, enabled: boolean) =>
+      mutation.mutate({ preferences: { [type]: enabled } }),
+    setFollowedThemes: (themes: string[]) => mutation.mutate({ followedThemes: themes }),
+    isSaving: mutation.isPending,
+  };
+}
@@ -0,0 +1,14 @@
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, roleOf, type Permission, type UserRole } from '@shared/permissions';
+
+/**
+ * What the signed-in user's role allows, from the same matrix the server enforces.
+ * Only for deciding what to show; the API still checks every request.
+ */
+export function usePermissions(): { role: UserRole; can: (permission: Permission) => boolean } {
+  const { user } = useAuth();
+  return {
+    role: roleOf(user),
+    can: (permission: Permission) => hasPermission(user, permission),
+  };
+}
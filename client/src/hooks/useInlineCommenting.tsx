@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../components/ui/dialog';
 import { Button } from '../components/ui/button';
 import { Textarea } from '../components/ui/textarea';
+import { selectionToAnchor } from '../lib/annotations';
 
 interface UseInlineCommentingProps {
   enabled?: boolean;
@@ -9,10 +10,11 @@ interface UseInlineCommentingProps {
   contentSelector?: string;
 }
 
-interface SelectionRange {
+// Offsets are within the paragraph's whitespace-collapsed text, as annotation anchors store them
+export interface SelectionRange {
   start: number;
   end: number;
-  paragraphIndex?: number;
+  paragraphIndex: number;
 }
 
 const useInlineCommenting = ({
@@ -46,23 +48,12 @@ const useInlineCommenting = ({
     // Get the selected text
     const text = selection.toString().trim();
     if (text.length > 10) { // Only trigger for meaningful selections
-      setSelectedText(text);
-      
-      // Calculate the selection range for later highlighting
-      const start = range.startOffset;
-      const end = range.endOffset;
-      
-      // Try to determine paragraph index
-      let paragraphIndex;
-      const paragraphs = contentElement.querySelectorAll('p');
-      for (let i = 0; i < paragraphs.length; i++) {
-        if (paragraphs[i].contains(range.commonAncestorContainer)) {
-          paragraphIndex = i;
-          break;
-        }
-      }
-      
-      setSelectionRange({ start, end, paragraphIndex });
+      // Annotations are pinned to a single paragraph
+      const anchor = selectionToAnchor(contentElement, range);
+      if (!anchor) return;
+
+      setSelectedText(anchor.quote);
+      setSelectionRange({ start: anchor.start, end: anchor.start + anchor.quote.length, paragraphIndex: anchor.paragraphIndex });
       setIsDialogOpen(true);
     }
   }, [enabled, contentSelector]);
@@ -1,5 +1,16 @@
-import { useEffect, useRef, useState } from 'react';
+import { createElement, useEffect, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { ToastAction, type ToastActionElement } from '@/components/ui/toast';
+import {
+  LOCAL_PROGRESS_PREFIX,
+  captureReadingAnchor,
+  fetchRemoteProgress,
+  getDeviceId,
+  resolveAnchorOffset,
+  saveRemoteProgress,
+  type RemoteReadingProgress
+} from '@/lib/reading-progress';
 
 interface ReaderGentleScrollOptions {
   enabled?: boolean;
@@ -15,6 +26,8 @@ interface ScrollPosition {
   scrollY: number;
   timestamp: number;
   percentRead?: number;
+  paragraphIndex?: number | null;
+  paragraphOffset?: number | null;
 }
 
 /**
@@ -22,6 +35,8 @@ interface ScrollPosition {
  * 
  * This hook remembers the user's scroll position only on the reader page
  * and smoothly restores it when they refresh or return to a story they've read before.
+ * Signed-in readers also sync the position to their account; when another device has
+ * read further since, they're offered to resume from there instead.
  */
 const useReaderGentleScroll = ({
   enabled = true,
@@ -34,6 +49,7 @@ const useReaderGentleScroll = ({
 }: ReaderGentleScrollOptions = {}) => {
   // Toast notifications
   const { toast } = useToast();
+  const { isAuthenticated, isAuthReady } = useAuth();
   
   // Was position restored
   const [restored, setRestored] = useState(false);
@@ -42,6 +58,9 @@ const useReaderGentleScroll = ({
   const timerRef = useRef<number | null>(null);
   const isRefresh = useRef(false);
   const lastSavedPosition = useRef<number | null>(null);
+  // Read from listeners registered once per story, so kept in a ref rather than closed over
+  const syncToAccount = useRef(isAuthenticated);
+  syncToAccount.current = isAuthenticated;
   
   // Check if a navigation is a refresh vs. regular navigation
   useEffect(() => {
@@ -73,16 +92,9 @@ const useReaderGentleScroll = ({
         return;
       }
       
-      // Calculate percentage through content
-      const docHeight = Math.max(
-        document.body.scrollHeight, 
-        document.documentElement.scrollHeight,
-        document.body.offsetHeight,
-        document.documentElement.offsetHeight
-      );
-      const viewportHeight = window.innerHeight;
-      const trackLength = docHeight - viewportHeight;
-      const percentRead = trackLength > 0 ? Math.min(scrollY / trackLength, 1) * 100 : 0;
+      // Calculate percentage through content and the paragraph being read
+      const anchor = captureReadingAnchor();
+      const percentRead = anchor.percent;
       
       // Only save if we've scrolled at least a little bit
       if (scrollY > 50 || percentRead > 2) {
@@ -90,15 +102,23 @@ const useReaderGentleScroll = ({
         const position: ScrollPosition = {
           scrollY,
           timestamp: Date.now(),
-          percentRead
+          percentRead,
+          paragraphIndex: anchor.paragraphIndex,
+          paragraphOffset: anchor.paragraphOffset
         };
         
         // Create storage key based on story slug
-        const storageKey = `readerGentleScroll_${slug}`;
+        const storageKey = `${LOCAL_PROGRESS_PREFIX}${slug}`;
         
         // Save to localStorage
         localStorage.setItem(storageKey, JSON.stringify(position));
         lastSavedPosition.current = scrollY;
+
+        if (syncToAccount.current) {
+          saveRemoteProgress(slug, anchor, new Date(position.timestamp)).catch(error => {
+            console.error('[ReaderGentleScroll] Error syncing position:', error);
+          });
+        }
       }
     } catch (error) {
       console.error('[ReaderGentleScroll] Error saving position:', error);
@@ -116,7 +136,7 @@ const useReaderGentleScroll = ({
       const allKeys = Object.keys(localStorage);
       
       // Filter for readerGentleScroll keys
-      const positionKeys = allKeys.filter(key => key.startsWith('readerGentleScroll_'));
+      const positionKeys = allKeys.filter(key => key.startsWith(LOCAL_PROGRESS_PREFIX));
       
       // Check each entry and remove if older than maxAgeMs
       positionKeys.forEach(key => {
@@ -140,21 +160,54 @@ const useReaderGentleScroll = ({
   
   // Restore position when the component mounts
   useEffect(() => {
-    if (!enabled || typeof window === 'undefined' || !slug) return;
+    // Wait for auth so signed-in readers can be checked against their other devices
+    if (!enabled || typeof window === 'undefined' || !slug || !isAuthReady) return;
     
-    const restorePosition = () => {
+    let cancelled = false;
+
+    // Offer the newer position from another device rather than jumping there unannounced
+    const offerRemotePosition = (remote: RemoteReadingProgress) => {
+      setRestored(true);
+      toast({
+        title: "Continue where you left off?",
+        description: `You read to ${Math.round(remote.percent)}% on another device.`,
+        duration: 10000,
+        action: createElement(ToastAction, {
+          altText: "Resume from other device",
+          onClick: () => {
+            window.scrollTo({ top: resolveAnchorOffset(remote), behavior: 'smooth' });
+          }
+        }, "Resume") as unknown as ToastActionElement
+      });
+    };
+
+    const restorePosition = async () => {
       try {
         // Skip if already restored
         if (restored) return;
         
         // Create storage key based on story slug
-        const storageKey = `readerGentleScroll_${slug}`;
+        const storageKey = `${LOCAL_PROGRESS_PREFIX}${slug}`;
         
         // Get saved position from localStorage
         const positionJSON = localStorage.getItem(storageKey);
+        const localPosition = positionJSON ? JSON.parse(positionJSON) as ScrollPosition : null;
+
+        if (isAuthenticated) {
+          const { progress: remote } = await fetchRemoteProgress(slug).catch(() => ({ progress: null }));
+          if (cancelled) return;
+          const remoteIsNewer = remote
+            && remote.deviceId !== getDeviceId()
+            && new Date(remote.lastReadAt).getTime() > (localPosition?.timestamp ?? 0)
+            && remote.percent >= 5;
+          if (remote && remoteIsNewer) {
+            offerRemotePosition(remote);
+            return;
+          }
+        }
         
-        if (positionJSON) {
-          const position = JSON.parse(positionJSON) as ScrollPosition;
+        if (localPosition) {
+          const position = localPosition;
           
           // Log debug info
           console.log('[ReaderGentleScroll] Found saved position:', {
@@ -181,13 +234,16 @@ const useReaderGentleScroll = ({
             
             // Use a timeout to allow the page to fully load and render
             setTimeout(() => {
+              // Prefer the paragraph anchor so font or layout changes don't shift the spot
+              const target = resolveAnchorOffset({ ...position, scrollOffset: position.scrollY });
+              
               // For immediate scroll, use 'auto' behavior first to ensure position is set
               window.scrollTo({
-                top: position.scrollY,
+                top: target,
                 behavior: 'auto' // Use auto for reliable positioning
               });
               
-              console.log('[ReaderGentleScroll] Position restored to:', position.scrollY);
+              console.log('[ReaderGentleScroll] Position restored to:', target);
               
               if (showToast) {
                 // Show toast notification
@@ -217,9 +273,10 @@ const useReaderGentleScroll = ({
     const restoreTimeout = setTimeout(restorePosition, 200); // Increased timeout
     
     return () => {
+      cancelled = true;
       clearTimeout(restoreTimeout);
     };
-  }, [slug, enabled, maxAgeMs, toast, showToast, restored]);
+  }, [slug, enabled, maxAgeMs, toast, showToast, restored, isAuthReady, isAuthenticated]);
   
   // Setup auto-save for position while scrolling
   useEffect(() => {
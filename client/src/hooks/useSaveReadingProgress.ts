@@ -2,6 +2,7 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useLocation } from "wouter";
 import useInactivityDetection from "./use-inactivity-detection";
 import { useToast } from "@/hooks/use-toast";
+import { captureReadingAnchor, getDeviceId } from "@/lib/reading-progress";
 
 interface ReadingProgressData {
   slug: string;
@@ -100,15 +101,17 @@ const useSaveReadingProgress = ({
       // Save to server if enabled
       if (saveToServer) {
         try {
-          fetch(apiEndpoint, {
-            method: "POST",
+          fetch(`${apiEndpoint}/${encodeURIComponent(slug)}`, {
+            method: "PUT",
             headers: {
               "Content-Type": "application/json"
             },
+            credentials: "include",
             body: JSON.stringify({
-              postSlug: slug,
-              percentCompleted: scrollPercent,
-              lastPosition: scrollTop
+              ...captureReadingAnchor(),
+              percent: scrollPercent,
+              deviceId: getDeviceId(),
+              readAt: progressData.lastRead
             })
           }).catch(err => console.error("Error saving reading progress:", err));
         } catch (error) {
@@ -0,0 +1,58 @@
+import type { CommentAnchor } from '@shared/schema';
+import { normalizeAnchorText, paragraphAnchorId } from '@shared/text-anchor';
+
+export interface Annotation {
+  id: number;
+  content: string;
+  author: string;
+  userId: number | null;
+  createdAt: string;
+  edited: boolean;
+  anchor: CommentAnchor;
+}
+
+export interface SelectionAnchor {
+  paragraphIndex: number;
+  quote: string;
+  start: number;
+}
+
+/** Non-empty paragraphs in reading order, indexed the same way the server indexes them */
+export function getAnchorParagraphs(container: Element): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('p'))
+    .filter(paragraph => normalizeAnchorText(paragraph.textContent || '').length > 0);
+}
+
+/**
+ * Paragraph an annotation belongs to on the page. The server keeps paragraphIndex current,
+ * but the rendered story can lag behind an edit, so the paragraph hash is checked first.
+ */
+export function findAnnotationParagraph(paragraphs: HTMLElement[], anchor: CommentAnchor): HTMLElement | null {
+  if (anchor.status === 'orphaned') return null;
+
+  const atIndex = paragraphs[anchor.paragraphIndex];
+  if (atIndex && paragraphAnchorId(atIndex.textContent || '') === anchor.paragraphId) return atIndex;
+
+  const byId = paragraphs.find(paragraph => paragraphAnchorId(paragraph.textContent || '') === anchor.paragraphId);
+  if (byId) return byId;
+
+  return atIndex && normalizeAnchorText(atIndex.textContent || '').includes(anchor.quote) ? atIndex : null;
+}
+
+/** Describe a selection inside one story paragraph, or null when it spans several */
+export function selectionToAnchor(container: Element, range: Range): SelectionAnchor | null {
+  const paragraphs = getAnchorParagraphs(container);
+  const paragraphIndex = paragraphs.findIndex(paragraph => paragraph.contains(range.commonAncestorContainer));
+  if (paragraphIndex === -1) return null;
+
+  const quote = normalizeAnchorText(range.toString());
+  if (!quote) return null;
+
+  // Offset in the paragraph's whitespace-collapsed text, matching how the server counts
+  const before = document.createRange();
+  before.selectNodeContents(paragraphs[paragraphIndex]);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().replace(/\s+/g, ' ').replace(/^ /, '').length;
+
+  return { paragraphIndex, quote, start };
+}
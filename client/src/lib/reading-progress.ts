@@ -0,0 +1,119 @@
+import { apiRequest } from './queryClient';
+
+// Shared with useReaderGentleScroll, which keeps the local copy of each story's position
+export const LOCAL_PROGRESS_PREFIX = 'readerGentleScroll_';
+const DEVICE_ID_KEY = 'readingDeviceId';
+const LAST_MERGE_KEY = 'readingProgressMergedAt';
+const PARAGRAPH_SELECTOR = '.story-content p, .story-content .story-paragraph';
+
+export interface ReadingAnchor {
+  percent: number;
+  paragraphIndex: number | null;
+  paragraphOffset: number | null;
+  scrollOffset: number;
+}
+
+export interface LocalReadingPosition {
+  scrollY: number;
+  timestamp: number;
+  percentRead?: number;
+  paragraphIndex?: number | null;
+  paragraphOffset?: number | null;
+}
+
+export interface RemoteReadingProgress {
+  slug: string;
+  postId: number;
+  percent: number;
+  paragraphIndex: number | null;
+  paragraphOffset: number | null;
+  scrollOffset: number | null;
+  deviceId: string | null;
+  lastReadAt: string;
+}
+
+/** Identifies this browser so a position saved here isn't offered back as "from another device" */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/** Where the reader is: the paragraph at the top of the viewport and how far into it */
+export function captureReadingAnchor(): ReadingAnchor {
+  const scrollOffset = Math.round(window.scrollY);
+  const trackLength = document.documentElement.scrollHeight - window.innerHeight;
+  const percent = trackLength > 0 ? Math.min(scrollOffset / trackLength, 1) * 100 : 0;
+
+  const paragraphs = Array.from(document.querySelectorAll<HTMLElement>(PARAGRAPH_SELECTOR));
+  const index = paragraphs.findIndex(paragraph => paragraph.getBoundingClientRect().bottom > 0);
+  if (index === -1) {
+    return { percent, paragraphIndex: null, paragraphOffset: null, scrollOffset };
+  }
+
+  const rect = paragraphs[index].getBoundingClientRect();
+  const offset = rect.height > 0 ? Math.min(Math.max(-rect.top / rect.height, 0), 1) : 0;
+  return { percent, paragraphIndex: index, paragraphOffset: Math.round(offset * 1000) / 1000, scrollOffset };
+}
+
+/** Scroll target for a saved anchor, falling back to the raw offset when the paragraph is gone */
+export function resolveAnchorOffset(anchor: { paragraphIndex?: number | null; paragraphOffset?: number | null; scrollOffset?: number | null }): number {
+  if (anchor.paragraphIndex !== null && anchor.paragraphIndex !== undefined) {
+    const paragraph = document.querySelectorAll<HTMLElement>(PARAGRAPH_SELECTOR)[anchor.paragraphIndex];
+    if (paragraph) {
+      const rect = paragraph.getBoundingClientRect();
+      return Math.max(Math.round(rect.top + window.scrollY + rect.height * (anchor.paragraphOffset ?? 0)), 0);
+    }
+  }
+  return anchor.scrollOffset ?? 0;
+}
+
+export function fetchRemoteProgress(slug: string): Promise<{ progress: RemoteReadingProgress | null }> {
+  return apiRequest(`/api/reading-progress/${encodeURIComponent(slug)}`);
+}
+
+export function saveRemoteProgress(slug: string, anchor: ReadingAnchor, readAt: Date = new Date()) {
+  return apiRequest<{ progress: RemoteReadingProgress; conflict: boolean }>(`/api/reading-progress/${encodeURIComponent(slug)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ ...anchor, deviceId: getDeviceId(), readAt: readAt.toISOString() })
+  });
+}
+
+/**
+ * Send positions saved while signed out to the account. Only entries newer than the last
+ * merge are sent; the server keeps whichever position is newer for each story.
+ */
+export async function mergeLocalProgress(): Promise<void> {
+  const since = parseInt(localStorage.getItem(LAST_MERGE_KEY) || '0', 10);
+  const entries = Object.keys(localStorage)
+    .filter(key => key.startsWith(LOCAL_PROGRESS_PREFIX))
+    .map(key => {
+      try {
+        const position = JSON.parse(localStorage.getItem(key) || '') as LocalReadingPosition;
+        if (!position || position.timestamp <= since) return null;
+        return {
+          slug: key.slice(LOCAL_PROGRESS_PREFIX.length),
+          percent: Math.min(Math.max(position.percentRead ?? 0, 0), 100),
+          paragraphIndex: position.paragraphIndex ?? null,
+          paragraphOffset: position.paragraphOffset ?? null,
+          scrollOffset: Math.max(Math.round(position.scrollY), 0),
+          deviceId: getDeviceId(),
+          readAt: new Date(position.timestamp).toISOString()
+        };
+      } catch {
+        return null;
+      }
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null && entry.slug.length > 0);
+
+  const startedAt = Date.now();
+  if (entries.length > 0) {
+    await apiRequest('/api/reading-progress/merge', { method: 'POST', body: JSON.stringify({ entries }) });
+  }
+  localStorage.setItem(LAST_MERGE_KEY, String(startedAt));
+}
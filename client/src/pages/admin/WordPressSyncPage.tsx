@@ -1,14 +1,91 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { WordPressSyncDashboard } from "@/components/admin/wordpress-sync-dashboard";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Redirect } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Globe, Database, Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Globe, Database, Activity, Loader2 } from "lucide-react";
+
+function SyncSourceCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+
+  const { data } = useQuery<{ url: string }>({
+    queryKey: ['/api/admin/wordpress/source'],
+    queryFn: () => apiRequest<{ url: string }>('/api/admin/wordpress/source'),
+  });
+
+  useEffect(() => {
+    if (data?.url) setUrl(data.url);
+  }, [data?.url]);
+
+  const saveSource = useMutation({
+    mutationFn: (next: string) =>
+      apiRequest<{ url: string }>('/api/admin/wordpress/source', {
+        method: 'PUT',
+        body: JSON.stringify({ url: next })
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Source Updated",
+        description: "The next sync will re-read all posts from the new source",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/source'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/wordpress/status'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Sync Source</CardTitle>
+        <Globe className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveSource.mutate(url.trim());
+          }}
+        >
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/wp-json/wp/v2"
+            className="text-xs"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={saveSource.isPending || !url.trim() || url.trim() === data?.url}
+          >
+            {saveSource.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground mt-2">
+          WordPress REST API base URL
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function WordPressSyncPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
 
-  // Redirect if not admin
-  if (!user?.isAdmin) {
+  // Redirect unless the role allows this page
+  if (!user || !can('wordpress.sync')) {
     return <Redirect to="/" />;
   }
 
@@ -29,28 +106,17 @@ export default function WordPressSyncPage() {
 
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Sync Source</CardTitle>
-            <Globe className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">WordPress API</div>
-            <p className="text-xs text-muted-foreground">
-              bubbleteameimei.wordpress.com
-            </p>
-          </CardContent>
-        </Card>
-        
+        <SyncSourceCard />
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Sync Frequency</CardTitle>
             <Activity className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">5 Minutes</div>
+            <div className="text-2xl font-bold">Hourly</div>
             <p className="text-xs text-muted-foreground">
-              Automatic synchronization interval
+              Only posts modified since the last run are fetched
             </p>
           </CardContent>
         </Card>
@@ -95,7 +161,9 @@ export default function WordPressSyncPage() {
               <h4 className="font-medium mb-2">Database Operations</h4>
               <ul className="text-sm text-muted-foreground space-y-1">
                 <li>• PostgreSQL with connection pooling</li>
-                <li>• Upsert operations for content updates</li>
+                <li>• Incremental sync by modification date with a persisted cursor</li>
+                <li>• Unchanged posts skipped by content hash</li>
+                <li>• Posts deleted upstream are hidden, not removed</li>
                 <li>• Atomic transactions for data integrity</li>
                 <li>• Automatic schema migration support</li>
               </ul>
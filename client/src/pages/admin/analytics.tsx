@@ -1,5 +1,6 @@
 import React from 'react';
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Redirect } from "wouter";
 import { Users, Clock, Eye, Monitor, ArrowDownUp, Bell, Activity, Loader2 } from "lucide-react";
@@ -32,22 +33,23 @@ interface Notification {
 
 export default function AdminAnalyticsPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
-  const isAdmin = !!user?.isAdmin;
+  const allowed = !!user && can('analytics.view');
 
   const { data: analytics, isLoading: analyticsLoading, error: analyticsError } = useQuery<SiteAnalytics>({
     queryKey: ["/api/admin/analytics"],
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
   const { data: notifications = [], isLoading: notificationsLoading } = useQuery<Notification[]>({
     queryKey: ["/api/admin/notifications"],
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
   const { data: activityLogs = [], isLoading: logsLoading } = useQuery<ActivityLog[]>({
     queryKey: ["/api/admin/activity"],
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
   const markAsRead = useMutation({
@@ -59,7 +61,7 @@ export default function AdminAnalyticsPage() {
     }
   });
 
-  if (!isAdmin) {
+  if (!allowed) {
     return <Redirect to="/" />;
   }
 
@@ -1,11 +1,12 @@
 import * as React from "react";
 import { useState, useMemo } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Redirect } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PageHeader } from "@/components/ui/page-header";
 import { Button } from "@/components/ui/button";
-import { Plus, Rss, PenSquare, FileText, Loader2 } from "lucide-react";
+import { Plus, Rss, PenSquare, FileText, Loader2, Inbox } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { useLocation } from "wouter";
@@ -15,9 +16,11 @@ import { THEME_CATEGORIES } from "@shared/theme-categories";
 import { default as WordPressSyncPage } from "./WordPressSyncPage";
 import { default as ContentPage } from "./content";
 import PostEditor from "@/components/admin/post-editor";
+import { EditorialQueue } from "@/components/admin/editorial-queue";
 
 export default function ContentManagementPage() {
   const { user, isLoading: authLoading } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const [location, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState<string>("content");
@@ -95,8 +98,8 @@ export default function ContentManagementPage() {
     );
   }
 
-  // Redirect if not admin
-  if (!user?.isAdmin) {
+  // Redirect unless the role can publish or review stories
+  if (!user || !(can('posts.publish') || can('posts.review'))) {
     return <Redirect to="/" />;
   }
 
@@ -108,6 +111,7 @@ export default function ContentManagementPage() {
         className="flex flex-col"
       >
         <div className="flex flex-wrap gap-2 mt-3 sm:mt-0">
+          {can('wordpress.sync') && (
           <Button
             onClick={handleManualSync}
             variant="outline"
@@ -127,6 +131,7 @@ export default function ContentManagementPage() {
               </>
             )}
           </Button>
+          )}
           <Button
             onClick={handleCreateStory}
             className="flex items-center gap-1 text-sm sm:text-base"
@@ -148,15 +153,21 @@ export default function ContentManagementPage() {
       ) : (
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4 sm:space-y-6">
           <div className="overflow-x-auto pb-2 -mx-3 px-3">
-            <TabsList className="grid grid-cols-3 w-full max-w-[500px] mb-2 sm:mb-4">
+            <TabsList className={`grid ${can('wordpress.sync') ? 'grid-cols-4' : 'grid-cols-3'} w-full max-w-[640px] mb-2 sm:mb-4`}>
               <TabsTrigger value="content" className="flex items-center justify-center gap-1 px-1 sm:px-4 text-sm sm:text-base">
                 <FileText className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-0.5 sm:mr-1 inline" />
                 <span className="truncate">Stories</span>
               </TabsTrigger>
-              <TabsTrigger value="wordpress" className="flex items-center justify-center gap-1 px-1 sm:px-4 text-sm sm:text-base">
-                <Rss className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-0.5 sm:mr-1 inline" />
-                <span className="truncate">WP Sync</span>
+              <TabsTrigger value="submissions" className="flex items-center justify-center gap-1 px-1 sm:px-4 text-sm sm:text-base">
+                <Inbox className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-0.5 sm:mr-1 inline" />
+                <span className="truncate">Submissions</span>
               </TabsTrigger>
+              {can('wordpress.sync') && (
+                <TabsTrigger value="wordpress" className="flex items-center justify-center gap-1 px-1 sm:px-4 text-sm sm:text-base">
+                  <Rss className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-0.5 sm:mr-1 inline" />
+                  <span className="truncate">WP Sync</span>
+                </TabsTrigger>
+              )}
               <TabsTrigger value="editor" className="flex items-center justify-center gap-1 px-1 sm:px-4 text-sm sm:text-base">
                 <PenSquare className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-0.5 sm:mr-1 inline" />
                 <span className="truncate">Settings</span>
@@ -168,10 +179,16 @@ export default function ContentManagementPage() {
             <ContentPage />
           </TabsContent>
 
-          <TabsContent value="wordpress" className="space-y-4">
-            <WordPressSyncPage />
+          <TabsContent value="submissions" className="space-y-4">
+            <EditorialQueue />
           </TabsContent>
 
+          {can('wordpress.sync') && (
+            <TabsContent value="wordpress" className="space-y-4">
+              <WordPressSyncPage />
+            </TabsContent>
+          )}
+
           <TabsContent value="editor" className="space-y-4">
             <Card>
               <CardContent className="pt-4 sm:pt-6 px-3 sm:px-6">
@@ -1,54 +1,49 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { 
-  Card, 
-  CardContent, 
-  CardHeader, 
-  CardTitle, 
-  CardDescription, 
-  CardFooter 
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardFooter
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ReportedContent } from "@shared/schema";
 import { ActivityTimeline } from "@/components/admin/activity-timeline";
-import { 
-  AlertTriangle, 
-  CheckCircle, 
-  XCircle, 
-  Eye, 
-  ArrowUpRight, 
-  Calendar, 
+import { ModerationQueue } from "@/components/admin/moderation-queue";
+import { SimilarityReports } from "@/components/admin/similarity-reports";
+import { ModerationRules } from "@/components/admin/moderation-rules";
+import {
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Eye,
+  ArrowUpRight,
+  Calendar,
   Filter,
   Search,
   RefreshCcw,
   Shield,
   MessageSquare,
   Flag,
-  UserX,
   Ban,
   MoreHorizontal,
   Clock,
   FileText,
   Loader2,
-  User,
   Activity,
-  History
+  History,
+  EyeOff,
+  MailWarning
 } from "lucide-react";
-
-// Extended interface to include additional properties needed for the UI
-interface ExtendedReportedContent extends ReportedContent {
-  details?: string;
-  contentPreview?: string;
-  updatedAt?: string;
-}
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 // LoadingScreen import removed
 import { useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -66,7 +61,6 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
   SelectContent,
@@ -75,31 +69,84 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+type ReportStatus = 'pending' | 'resolved' | 'dismissed';
+type ReportAction = 'remove_content' | 'warn_author' | 'dismiss';
+
+interface ContentReport {
+  id: number;
+  reporterId: number | null;
+  reporterName: string | null;
+  reason: string;
+  note: string | null;
+  status: ReportStatus;
+  resolution: ReportAction | null;
+  resolutionNote: string | null;
+  resolvedBy: number | null;
+  resolverName: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+// All reports on one post or comment, reviewed together
+interface ReportCase {
+  contentType: 'post' | 'comment';
+  contentId: number;
+  reportCount: number;
+  reasons: Record<string, number>;
+  firstReportedAt: string;
+  lastReportedAt: string;
+  autoHidden: boolean;
+  content: {
+    title: string | null;
+    excerpt: string;
+    authorId: number | null;
+    authorName: string | null;
+    link: string | null;
+  } | null;
+  reports: ContentReport[];
+}
+
+interface ReportsResponse {
+  cases: ReportCase[];
+  total: number;
+  counts: Record<ReportStatus, number> & { closedToday: number };
+}
+
+interface ReportHistoryEntry {
+  id: number;
+  action: string;
+  status: string;
+  reason: string | null;
+  reviewerName: string | null;
+  createdAt: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  remove_content: 'Content removed',
+  warn_author: 'Author warned',
+  dismiss: 'Dismissed',
+  auto_hide: 'Hidden automatically'
+};
+
 // Generate different UI and badge colors based on content types
 const getContentTypeDetails = (type: string) => {
   switch (type?.toLowerCase()) {
     case 'post':
     case 'story':
-      return { 
-        icon: <FileText className="h-5 w-5" />, 
+      return {
+        icon: <FileText className="h-5 w-5" />,
         color: 'bg-blue-500/10 text-blue-500',
-        label: 'Story Content'
+        label: 'Story'
       };
     case 'comment':
-      return { 
-        icon: <MessageSquare className="h-5 w-5" />, 
+      return {
+        icon: <MessageSquare className="h-5 w-5" />,
         color: 'bg-green-500/10 text-green-500',
         label: 'Comment'
       };
-    case 'user':
-      return { 
-        icon: <UserX className="h-5 w-5" />, 
-        color: 'bg-red-500/10 text-red-500',
-        label: 'User Report'
-      };
     default:
-      return { 
-        icon: <Flag className="h-5 w-5" />, 
+      return {
+        icon: <Flag className="h-5 w-5" />,
         color: 'bg-yellow-500/10 text-yellow-500',
         label: type || 'Other Content'
       };
@@ -110,134 +157,184 @@ const getContentTypeDetails = (type: string) => {
 const getReasonDetails = (reason: string) => {
   switch (reason?.toLowerCase()) {
     case 'spam':
-      return { 
+      return {
         color: 'bg-amber-500/10 text-amber-500',
         label: 'Spam'
       };
     case 'harassment':
-    case 'bullying':
-      return { 
+      return {
         color: 'bg-red-500/10 text-red-500',
-        label: reason
+        label: 'Harassment'
       };
     case 'inappropriate':
-    case 'explicit':
-      return { 
+    case 'sexual_content':
+      return {
         color: 'bg-purple-500/10 text-purple-500',
-        label: 'Inappropriate'
+        label: reason === 'inappropriate' ? 'Inappropriate' : 'Sexual Content'
       };
     case 'violence':
-      return { 
+    case 'self_harm':
+      return {
         color: 'bg-red-700/10 text-red-700',
-        label: 'Violence'
+        label: reason === 'violence' ? 'Violence' : 'Self-harm'
       };
-    case 'hate speech':
-      return { 
+    case 'hate_speech':
+      return {
         color: 'bg-red-800/10 text-red-800',
         label: 'Hate Speech'
       };
     case 'misinformation':
-      return { 
+    case 'plagiarism':
+      return {
         color: 'bg-orange-500/10 text-orange-500',
-        label: 'Misinformation'
+        label: reason === 'plagiarism' ? 'Plagiarism' : 'Misinformation'
       };
     default:
-      return { 
+      return {
         color: 'bg-slate-500/10 text-slate-500',
-        label: reason || 'Other'
+        label: 'Other'
       };
   }
 };
 
-// Track moderation activity statistics
-const activityStats = {
-  pendingReports: 0,
-  approvedReports: 0,
-  rejectedReports: 0,
-  moderatedToday: 0,
-  averageResponseTime: "4.2h"
-};
+const caseKey = (reportCase: Pick<ReportCase, 'contentType' | 'contentId'>) =>
+  `${reportCase.contentType}:${reportCase.contentId}`;
 
 interface ContentDetailProps {
-  content: ExtendedReportedContent;
+  reportCase: ReportCase;
+  isResolving: boolean;
   onClose: () => void;
-  onApprove: () => void;
-  onReject: () => void;
+  onResolve: (action: ReportAction, note: string) => void;
 }
 
-function ContentDetailView({ content, onClose, onApprove, onReject }: ContentDetailProps) {
-  const contentType = getContentTypeDetails(content.contentType);
-  const reason = getReasonDetails(content.reason);
+function ContentDetailView({ reportCase, isResolving, onClose, onResolve }: ContentDetailProps) {
+  const [note, setNote] = useState("");
+  const contentType = getContentTypeDetails(reportCase.contentType);
+  const isPending = reportCase.reports.some(report => report.status === 'pending');
+
+  const { data: history } = useQuery<ReportHistoryEntry[]>({
+    queryKey: ['/api/moderation/reports/history', reportCase.contentType, reportCase.contentId],
+    queryFn: () => apiRequest<ReportHistoryEntry[]>(
+      `/api/moderation/reports/${reportCase.contentType}/${reportCase.contentId}/history`
+    )
+  });
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center gap-2">
         {contentType.icon}
         <h3 className="text-lg font-semibold">Reported {contentType.label}</h3>
-        <Badge variant="outline" className={reason.color}>
-          {reason.label}
-        </Badge>
+        {Object.entries(reportCase.reasons).map(([reason, count]) => {
+          const details = getReasonDetails(reason);
+          return (
+            <Badge key={reason} variant="outline" className={details.color}>
+              {details.label}{count > 1 ? ` ×${count}` : ''}
+            </Badge>
+          );
+        })}
+        {reportCase.autoHidden && (
+          <Badge variant="outline" className="bg-amber-500/10 text-amber-500">
+            <EyeOff className="mr-1 h-3 w-3" />
+            Hidden pending review
+          </Badge>
+        )}
       </div>
 
       <div className="grid gap-4 py-4">
         <div className="space-y-2">
-          <h4 className="text-sm font-medium">Report Details</h4>
-          <div className="grid grid-cols-2 gap-4 rounded-lg border p-4">
-            <div>
-              <p className="text-sm text-muted-foreground">Report ID</p>
-              <p className="font-medium">{content.id}</p>
-            </div>
-            <div>
-              <p className="text-sm text-muted-foreground">Content ID</p>
-              <p className="font-medium">{content.contentId}</p>
-            </div>
-            <div>
-              <p className="text-sm text-muted-foreground">Reported By</p>
-              <p className="font-medium">User #{content.reporterId}</p>
-            </div>
-            <div>
-              <p className="text-sm text-muted-foreground">Reported On</p>
-              <p className="font-medium">{new Date(content.createdAt).toLocaleString()}</p>
-            </div>
+          <h4 className="text-sm font-medium">Content</h4>
+          <div className="rounded-lg border p-4 max-h-[200px] overflow-y-auto space-y-2">
+            {reportCase.content ? (
+              <>
+                {reportCase.content.title && <p className="font-medium">{reportCase.content.title}</p>}
+                <p className="text-sm whitespace-pre-wrap">{reportCase.content.excerpt}</p>
+                <p className="text-xs text-muted-foreground">
+                  By {reportCase.content.authorName || 'Anonymous'}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">This content no longer exists.</p>
+            )}
           </div>
         </div>
 
         <div className="space-y-2">
-          <h4 className="text-sm font-medium">Description</h4>
-          <div className="rounded-lg border p-4">
-            <p className="text-sm">{content.details || "No additional details provided."}</p>
-          </div>
+          <h4 className="text-sm font-medium">Reports ({reportCase.reports.length})</h4>
+          <ScrollArea className="max-h-[200px] rounded-lg border">
+            <div className="divide-y">
+              {reportCase.reports.map(report => (
+                <div key={report.id} className="p-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{report.reporterName || 'Anonymous reader'}</span>
+                    <Badge variant="outline" className={getReasonDetails(report.reason).color}>
+                      {getReasonDetails(report.reason).label}
+                    </Badge>
+                  </div>
+                  {report.note && <p className="text-muted-foreground">{report.note}</p>}
+                  <p className="text-xs text-muted-foreground">{new Date(report.createdAt).toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
         </div>
 
-        <div className="space-y-2">
-          <h4 className="text-sm font-medium">Content Preview</h4>
-          <div className="rounded-lg border p-4 max-h-[200px] overflow-y-auto">
-            <p className="text-sm whitespace-pre-wrap">{content.contentPreview || "Content preview not available."}</p>
+        {history && history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">History</h4>
+            <div className="rounded-lg border p-3 space-y-2 text-sm">
+              {history.map(entry => (
+                <div key={entry.id} className="flex flex-col">
+                  <span>
+                    <span className="font-medium">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                    {entry.reviewerName && <span className="text-muted-foreground"> by {entry.reviewerName}</span>}
+                  </span>
+                  {entry.reason && <span className="text-muted-foreground">{entry.reason}</span>}
+                  <span className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
+
+        {isPending && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Resolution Note</h4>
+            <Textarea
+              placeholder="Optional. Included in the author's notification when you warn them or remove their content."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              className="min-h-[80px]"
+            />
+          </div>
+        )}
       </div>
 
       <DialogFooter className="gap-2 sm:gap-0">
         <Button variant="outline" onClick={onClose}>
           Close
         </Button>
-        <div className="flex gap-2">
-          <Button 
-            variant="outline" 
-            onClick={onReject} 
-            className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950 dark:hover:text-red-300"
-          >
-            <Ban className="mr-2 h-4 w-4" />
-            Reject Content
-          </Button>
-          <Button 
-            onClick={onApprove}
-            className="bg-green-600 hover:bg-green-700"
-          >
-            <CheckCircle className="mr-2 h-4 w-4" />
-            Approve Content
-          </Button>
-        </div>
+        {isPending && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" disabled={isResolving} onClick={() => onResolve('dismiss', note)}>
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Dismiss
+            </Button>
+            <Button variant="outline" disabled={isResolving} onClick={() => onResolve('warn_author', note)}>
+              <MailWarning className="mr-2 h-4 w-4" />
+              Warn Author
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isResolving}
+              onClick={() => onResolve('remove_content', note)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950 dark:hover:text-red-300"
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              Remove Content
+            </Button>
+          </div>
+        )}
       </DialogFooter>
     </div>
   );
@@ -245,31 +342,18 @@ function ContentDetailView({ content, onClose, onApprove, onReject }: ContentDet
 
 export default function ContentModerationPage() {
   const { toast } = useToast();
-  const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterByType, setFilterByType] = useState("all");
   const [activeTab, setActiveTab] = useState("pending");
-  const [selectedContent, setSelectedContent] = useState<ExtendedReportedContent | null>(null);
+  const [selectedCase, setSelectedCase] = useState<ReportCase | null>(null);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
 
-  const { data: reportedContent, isLoading, refetch } = useQuery<ExtendedReportedContent[]>({
-    queryKey: ['/api/moderation/reported-content'],
-    queryFn: async () => {
-      const response = await fetch('/api/moderation/reported-content');
-      if (!response.ok) throw new Error('Failed to fetch reported content');
-      return response.json();
-    }
+  const reportStatus: ReportStatus = activeTab === 'resolved' || activeTab === 'dismissed' ? activeTab : 'pending';
+  const { data: reports, isLoading, refetch } = useQuery<ReportsResponse>({
+    queryKey: ['/api/moderation/reports', reportStatus],
+    queryFn: () => apiRequest<ReportsResponse>(`/api/moderation/reports?status=${reportStatus}&limit=100`)
   });
-  
-  const { data: pendingComments, isLoading: commentsLoading } = useQuery<Comment[]>({
-    queryKey: ['/api/comments/pending'],
-    queryFn: async () => {
-      const response = await fetch('/api/comments/pending');
-      if (!response.ok) throw new Error('Failed to fetch pending comments');
-      return response.json();
-    }
-  });
-  
+
   const { data: activityLogs, isLoading: activityLoading } = useQuery({
     queryKey: ['/api/admin/activity'],
     queryFn: async () => {
@@ -280,22 +364,22 @@ export default function ContentModerationPage() {
     enabled: activeTab === 'activity', // Only fetch when activity tab is active
   });
 
-  const updateContentStatus = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      const response = await fetch(`/api/moderation/reported-content/${id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
-      });
-      if (!response.ok) throw new Error('Failed to update content status');
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/moderation/reported-content'] });
+  const resolveReports = useMutation({
+    mutationFn: ({ reportCase, action, note }: { reportCase: ReportCase; action: ReportAction; note?: string }) =>
+      apiRequest(`/api/moderation/reports/${reportCase.contentType}/${reportCase.contentId}/resolve`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note: note?.trim() || null })
+      }),
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/moderation/reports'] });
       setViewDialogOpen(false);
       toast({
-        title: "Content Updated",
-        description: "The content status has been successfully updated.",
+        title: ACTION_LABELS[action],
+        description: action === 'dismiss'
+          ? "The reports were closed and any hidden content is visible again."
+          : action === 'warn_author'
+            ? "The author has been notified and the reports were closed."
+            : "The content has been removed and its author notified.",
       });
     },
     onError: (error: Error) => {
@@ -307,53 +391,24 @@ export default function ContentModerationPage() {
     }
   });
 
-  // Filter content based on search term, type and status
-  const filteredContent = reportedContent?.filter(content => {
-    const matchesSearch = searchTerm === "" || 
-      content.contentType?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      content.reason?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (content.details && content.details.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesType = filterByType === "all" || content.contentType === filterByType;
-    const matchesStatus = content.status === activeTab;
-    
-    return matchesSearch && matchesType && matchesStatus;
-  });
+  // Filter cases based on search term and type
+  const filteredCases = reports?.cases.filter(reportCase => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = term === "" ||
+      reportCase.contentType.includes(term) ||
+      Object.keys(reportCase.reasons).some(reason => reason.replace('_', ' ').includes(term)) ||
+      (reportCase.content?.title?.toLowerCase().includes(term) ?? false) ||
+      (reportCase.content?.excerpt.toLowerCase().includes(term) ?? false) ||
+      reportCase.reports.some(report => report.note?.toLowerCase().includes(term));
 
-  // Handle approval or rejection from detail view
-  const handleApproveFromDetail = () => {
-    if (selectedContent) {
-      updateContentStatus.mutate({
-        id: selectedContent.id,
-        status: 'approved'
-      });
-    }
-  };
+    const matchesType = filterByType === "all" || reportCase.contentType === filterByType;
 
-  const handleRejectFromDetail = () => {
-    if (selectedContent) {
-      updateContentStatus.mutate({
-        id: selectedContent.id,
-        status: 'rejected'
-      });
-    }
-  };
-
-  // Calculate stats for display
-  if (reportedContent) {
-    activityStats.pendingReports = reportedContent.filter(c => c.status === 'pending').length;
-    activityStats.approvedReports = reportedContent.filter(c => c.status === 'approved').length;
-    activityStats.rejectedReports = reportedContent.filter(c => c.status === 'rejected').length;
-    
-    // Calculate how many were moderated today
-    const today = new Date().setHours(0, 0, 0, 0);
-    activityStats.moderatedToday = reportedContent.filter(c => 
-      (c.status === 'approved' || c.status === 'rejected') && 
-      new Date(c.updatedAt || c.createdAt).getTime() >= today
-    ).length;
-  }
+    return matchesSearch && matchesType;
+  });
+
+  const counts = reports?.counts ?? { pending: 0, resolved: 0, dismissed: 0, closedToday: 0 };
 
-  if (isLoading) {
+  if (isLoading && !reports) {
     return (
       <div className="flex items-center justify-center w-full h-[50vh]">
         <div className="flex flex-col items-center">
@@ -393,19 +448,19 @@ export default function ContentModerationPage() {
             <AlertTriangle className="h-4 w-4 text-amber-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activityStats.pendingReports}</div>
+            <div className="text-2xl font-bold">{counts.pending}</div>
             <div className="text-xs text-muted-foreground">
-              Needs review
+              Items needing review
             </div>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Approved Content</CardTitle>
+            <CardTitle className="text-sm font-medium">Dismissed</CardTitle>
             <CheckCircle className="h-4 w-4 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activityStats.approvedReports}</div>
+            <div className="text-2xl font-bold">{counts.dismissed}</div>
             <div className="text-xs text-muted-foreground">
               Reports dismissed
             </div>
@@ -413,13 +468,13 @@ export default function ContentModerationPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Rejected Content</CardTitle>
+            <CardTitle className="text-sm font-medium">Actioned</CardTitle>
             <XCircle className="h-4 w-4 text-red-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activityStats.rejectedReports}</div>
+            <div className="text-2xl font-bold">{counts.resolved}</div>
             <div className="text-xs text-muted-foreground">
-              Content removed
+              Content removed or author warned
             </div>
           </CardContent>
         </Card>
@@ -429,9 +484,9 @@ export default function ContentModerationPage() {
             <Clock className="h-4 w-4 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activityStats.moderatedToday}</div>
+            <div className="text-2xl font-bold">{counts.closedToday}</div>
             <div className="text-xs text-muted-foreground">
-              Avg. response time: {activityStats.averageResponseTime}
+              Items closed since midnight
             </div>
           </CardContent>
         </Card>
@@ -441,7 +496,7 @@ export default function ContentModerationPage() {
       <Card>
         <CardHeader>
           <CardTitle>Content Moderation Queue</CardTitle>
-          <CardDescription>Review reported content from the community</CardDescription>
+          <CardDescription>Reader reports, grouped by the story or comment they are about</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col space-y-4 md:flex-row md:space-y-0 md:space-x-4">
@@ -449,7 +504,7 @@ export default function ContentModerationPage() {
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="search"
-                placeholder="Search by type, reason, or details..."
+                placeholder="Search by type, reason, content, or notes..."
                 className="pl-8"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
@@ -468,18 +523,17 @@ export default function ContentModerationPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="post">Posts</SelectItem>
+                  <SelectItem value="post">Stories</SelectItem>
                   <SelectItem value="comment">Comments</SelectItem>
-                  <SelectItem value="user">User Reports</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
           {/* Tabs Section */}
-          <Tabs 
-            defaultValue="pending" 
-            value={activeTab} 
+          <Tabs
+            defaultValue="pending"
+            value={activeTab}
             onValueChange={setActiveTab}
             className="mt-6"
           >
@@ -487,14 +541,14 @@ export default function ContentModerationPage() {
               <TabsList className="w-auto inline-flex">
                 <TabsTrigger value="pending" className="relative">
                   Pending Review
-                  {activityStats.pendingReports > 0 && (
+                  {counts.pending > 0 && (
                     <span className="ml-1.5 rounded-full bg-red-500 px-1.5 py-0.5 text-xs text-white">
-                      {activityStats.pendingReports}
+                      {counts.pending}
                     </span>
                   )}
                 </TabsTrigger>
-                <TabsTrigger value="approved">Approved</TabsTrigger>
-                <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                <TabsTrigger value="resolved">Actioned</TabsTrigger>
+                <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
                 <TabsTrigger value="activity">
                   <History className="mr-1.5 h-3.5 w-3.5" />
                   Activity History
@@ -524,125 +578,122 @@ export default function ContentModerationPage() {
                     </CardHeader>
                     <CardContent>
                       <ScrollArea className="h-[500px] pr-4">
-                        <ActivityTimeline 
-                          activities={activityLogs} 
+                        <ActivityTimeline
+                          activities={activityLogs}
                           initialCollapsed={false}
                         />
                       </ScrollArea>
                     </CardContent>
                   </Card>
                 )
-              ) : filteredContent && filteredContent.length > 0 ? (
+              ) : filteredCases && filteredCases.length > 0 ? (
                 <ScrollArea className="h-[500px] pr-4">
                   <div className="space-y-4">
-                    {filteredContent.map((content) => {
-                      const contentType = getContentTypeDetails(content.contentType);
-                      const reason = getReasonDetails(content.reason);
-                      
+                    {filteredCases.map((reportCase) => {
+                      const contentType = getContentTypeDetails(reportCase.contentType);
+                      const latest = reportCase.reports[0];
+                      const isPending = reportStatus === 'pending';
+
                       return (
-                        <Card key={content.id} className="p-4 hover:bg-muted/40 transition-colors">
+                        <Card key={caseKey(reportCase)} className="p-4 hover:bg-muted/40 transition-colors">
                           <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
-                            <div className="space-y-2">
+                            <div className="space-y-2 min-w-0">
                               <div className="flex flex-wrap items-center gap-2">
                                 <div className={`flex items-center justify-center rounded-full w-8 h-8 ${contentType.color.split(' ')[0]}`}>
                                   {contentType.icon}
                                 </div>
                                 <div>
                                   <h3 className="font-medium">
-                                    {contentType.label} #{content.contentId}
+                                    {reportCase.content?.title || `${contentType.label} #${reportCase.contentId}`}
                                   </h3>
                                   <p className="text-xs text-muted-foreground">
-                                    Reported on {new Date(content.createdAt).toLocaleDateString()}
+                                    {reportCase.reportCount} {reportCase.reportCount === 1 ? 'report' : 'reports'} · last on {new Date(reportCase.lastReportedAt).toLocaleDateString()}
                                   </p>
                                 </div>
-                                <Badge className={reason.color}>
-                                  {reason.label}
-                                </Badge>
+                                {Object.keys(reportCase.reasons).map(reason => {
+                                  const details = getReasonDetails(reason);
+                                  return (
+                                    <Badge key={reason} className={details.color}>
+                                      {details.label}
+                                    </Badge>
+                                  );
+                                })}
+                                {reportCase.autoHidden && (
+                                  <Badge variant="outline" className="bg-amber-500/10 text-amber-500">
+                                    <EyeOff className="mr-1 h-3 w-3" />
+                                    Hidden
+                                  </Badge>
+                                )}
                               </div>
-                              
+
                               <p className="text-sm line-clamp-2">
-                                {content.details || "No additional details provided"}
+                                {reportCase.content?.excerpt || "This content no longer exists"}
                               </p>
-                              
+
                               <div className="flex items-center text-xs text-muted-foreground">
                                 <Calendar className="mr-1 h-3 w-3" />
-                                Reported by User #{content.reporterId}
+                                {isPending || !latest?.resolvedAt
+                                  ? `Latest report by ${latest?.reporterName || 'an anonymous reader'}`
+                                  : `${ACTION_LABELS[latest.resolution ?? ''] ?? 'Closed'} by ${latest.resolverName || 'a moderator'} on ${new Date(latest.resolvedAt).toLocaleDateString()}`}
                               </div>
+                              {!isPending && latest?.resolutionNote && (
+                                <p className="text-xs text-muted-foreground italic">{latest.resolutionNote}</p>
+                              )}
                             </div>
-                            
+
                             <div className="flex items-center space-x-2 self-end md:self-start">
-                              <Dialog open={viewDialogOpen && selectedContent?.id === content.id} onOpenChange={(open) => {
+                              <Dialog open={viewDialogOpen && selectedCase !== null && caseKey(selectedCase) === caseKey(reportCase)} onOpenChange={(open) => {
                                 if (!open) setViewDialogOpen(false);
                               }}>
                                 <DialogTrigger asChild>
-                                  <Button 
-                                    variant="outline" 
+                                  <Button
+                                    variant="outline"
                                     size="sm"
                                     onClick={() => {
-                                      setSelectedContent(content);
+                                      setSelectedCase(reportCase);
                                       setViewDialogOpen(true);
                                     }}
                                   >
                                     <Eye className="h-3.5 w-3.5 mr-1" />
-                                    View
+                                    {isPending ? 'Review' : 'View'}
                                   </Button>
                                 </DialogTrigger>
-                                <DialogContent 
-                                  className="sm:max-w-[600px]"
+                                <DialogContent
+                                  className="sm:max-w-[640px]"
                                   aria-labelledby="content-review-title"
                                   aria-describedby="content-review-description"
                                 >
                                   <DialogHeader>
                                     <DialogTitle id="content-review-title">Content Review</DialogTitle>
                                     <DialogDescription id="content-review-description">
-                                      Review reported content details and make a moderation decision.
+                                      One decision closes every open report on this {contentType.label.toLowerCase()}.
                                     </DialogDescription>
                                   </DialogHeader>
-                                  
-                                  {selectedContent && (
-                                    <ContentDetailView 
-                                      content={selectedContent}
+
+                                  {selectedCase && (
+                                    <ContentDetailView
+                                      reportCase={selectedCase}
+                                      isResolving={resolveReports.isPending}
                                       onClose={() => setViewDialogOpen(false)}
-                                      onApprove={handleApproveFromDetail}
-                                      onReject={handleRejectFromDetail}
+                                      onResolve={(action, note) => resolveReports.mutate({ reportCase: selectedCase, action, note })}
                                     />
                                   )}
                                 </DialogContent>
                               </Dialog>
-                              
-                              {content.status === 'pending' && (
-                                <>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() =>
-                                      updateContentStatus.mutate({
-                                        id: content.id,
-                                        status: 'approved'
-                                      })
-                                    }
-                                    className="text-green-600 hidden md:flex"
-                                  >
-                                    <CheckCircle className="h-3.5 w-3.5 mr-1" />
-                                    Approve
-                                  </Button>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() =>
-                                      updateContentStatus.mutate({
-                                        id: content.id,
-                                        status: 'rejected'
-                                      })
-                                    }
-                                    className="text-red-600 hidden md:flex"
-                                  >
-                                    <XCircle className="h-3.5 w-3.5 mr-1" />
-                                    Reject
-                                  </Button>
-                                </>
+
+                              {isPending && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={resolveReports.isPending}
+                                  onClick={() => resolveReports.mutate({ reportCase, action: 'dismiss' })}
+                                  className="text-green-600 hidden md:flex"
+                                >
+                                  <CheckCircle className="h-3.5 w-3.5 mr-1" />
+                                  Dismiss
+                                </Button>
                               )}
-                              
+
                               <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
                                   <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
@@ -652,40 +703,38 @@ export default function ContentModerationPage() {
                                 <DropdownMenuContent align="end">
                                   <DropdownMenuLabel>Actions</DropdownMenuLabel>
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem 
-                                    onClick={() => window.open(`/content/${content.contentId}`, '_blank')}
-                                    className="flex items-center"
-                                  >
-                                    <ArrowUpRight className="mr-2 h-4 w-4" />
-                                    Open Content
-                                  </DropdownMenuItem>
-                                  
-                                  {content.status === 'pending' && (
+                                  {reportCase.content?.link && (
+                                    <DropdownMenuItem
+                                      onClick={() => window.open(reportCase.content?.link ?? '', '_blank')}
+                                      className="flex items-center"
+                                    >
+                                      <ArrowUpRight className="mr-2 h-4 w-4" />
+                                      Open Content
+                                    </DropdownMenuItem>
+                                  )}
+
+                                  {isPending && (
                                     <>
                                       <DropdownMenuSeparator />
                                       <DropdownMenuItem
-                                        onClick={() =>
-                                          updateContentStatus.mutate({
-                                            id: content.id,
-                                            status: 'approved'
-                                          })
-                                        }
+                                        onClick={() => resolveReports.mutate({ reportCase, action: 'dismiss' })}
                                         className="text-green-600 md:hidden"
                                       >
                                         <CheckCircle className="mr-2 h-4 w-4" />
-                                        Approve
+                                        Dismiss
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onClick={() => resolveReports.mutate({ reportCase, action: 'warn_author' })}
+                                      >
+                                        <MailWarning className="mr-2 h-4 w-4" />
+                                        Warn Author
                                       </DropdownMenuItem>
                                       <DropdownMenuItem
-                                        onClick={() =>
-                                          updateContentStatus.mutate({
-                                            id: content.id,
-                                            status: 'rejected'
-                                          })
-                                        }
-                                        className="text-red-600 md:hidden"
+                                        onClick={() => resolveReports.mutate({ reportCase, action: 'remove_content' })}
+                                        className="text-red-600"
                                       >
                                         <XCircle className="mr-2 h-4 w-4" />
-                                        Reject
+                                        Remove Content
                                       </DropdownMenuItem>
                                     </>
                                   )}
@@ -701,7 +750,9 @@ export default function ContentModerationPage() {
               ) : (
                 <div className="text-center py-12 bg-muted/20 rounded-lg border border-border">
                   <Shield className="h-12 w-12 mx-auto text-muted-foreground mb-3 opacity-50" />
-                  <p className="text-muted-foreground">No {activeTab !== 'all' ? activeTab : ''} content found</p>
+                  <p className="text-muted-foreground">
+                    {reportStatus === 'pending' ? 'No reports awaiting review' : `No ${reportStatus === 'resolved' ? 'actioned' : 'dismissed'} reports found`}
+                  </p>
                 </div>
               )}
             </TabsContent>
@@ -709,12 +760,12 @@ export default function ContentModerationPage() {
         </CardContent>
         <CardFooter className="flex justify-between items-center">
           <p className="text-sm text-muted-foreground">
-            {activeTab === 'activity' 
+            {activeTab === 'activity'
               ? `${activityLogs?.length || 0} activity entries found`
-              : `${filteredContent?.length || 0} items found`}
+              : `${filteredCases?.length || 0} of ${reports?.total || 0} items`}
           </p>
           <div className="flex items-center">
-            {updateContentStatus.isPending && (
+            {resolveReports.isPending && (
               <div className="flex items-center mr-2">
                 <Loader2 className="h-4 w-4 animate-spin mr-1" />
                 <span className="text-sm">Processing...</span>
@@ -724,93 +775,10 @@ export default function ContentModerationPage() {
         </CardFooter>
       </Card>
 
-      {/* Pending Comments Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Pending Comments Review</CardTitle>
-          <CardDescription>User comments awaiting approval</CardDescription>
-        </CardHeader>
-        <CardContent>
-          {commentsLoading ? (
-            <div className="space-y-4">
-              {Array(3).fill(0).map((_, index) => (
-                <div key={index} className="flex gap-4">
-                  <Skeleton className="h-12 w-12 rounded-full" />
-                  <div className="space-y-2 flex-1">
-                    <Skeleton className="h-4 w-[250px]" />
-                    <Skeleton className="h-4 w-full" />
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : pendingComments && pendingComments.length > 0 ? (
-            <ScrollArea className="h-[300px]">
-              <div className="space-y-4">
-                {pendingComments.map((comment: any) => (
-                  <Card key={comment.id} className="p-4">
-                    <div className="flex items-start justify-between">
-                      <div className="flex space-x-3">
-                        <div className="flex-shrink-0 h-10 w-10 rounded-full bg-muted flex items-center justify-center">
-                          <User className="h-5 w-5 text-muted-foreground" />
-                        </div>
-                        <div className="space-y-1">
-                          <p className="text-sm font-medium">
-                            {comment.userId ? `User #${comment.userId}` : 'Anonymous'}
-                          </p>
-                          <p className="text-sm whitespace-pre-wrap">
-                            {comment.content}
-                          </p>
-                          <div className="flex items-center text-xs text-muted-foreground">
-                            <Calendar className="mr-1 h-3 w-3" />
-                            Posted {new Date(comment.createdAt).toLocaleString()}
-                          </div>
-                        </div>
-                      </div>
-                      <div className="flex space-x-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            // Implement comment approval
-                            toast({
-                              title: "Comment Approved",
-                              description: "The comment has been approved and is now visible.",
-                            });
-                          }}
-                          className="text-green-600"
-                        >
-                          <CheckCircle className="h-4 w-4 mr-1" />
-                          Approve
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            // Implement comment rejection
-                            toast({
-                              title: "Comment Rejected",
-                              description: "The comment has been rejected and removed.",
-                            });
-                          }}
-                          className="text-red-600"
-                        >
-                          <XCircle className="h-4 w-4 mr-1" />
-                          Reject
-                        </Button>
-                      </div>
-                    </div>
-                  </Card>
-                ))}
-              </div>
-            </ScrollArea>
-          ) : (
-            <div className="text-center py-12 bg-muted/20 rounded-lg border border-border">
-              <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-3 opacity-50" />
-              <p className="text-muted-foreground">No pending comments found</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {/* Comment review queue, near-duplicate stories and rule configuration */}
+      <ModerationQueue />
+      <SimilarityReports />
+      <ModerationRules />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { ActivityTimeline } from "@/components/admin/activity-timeline";
 import { useQuery } from "@tanstack/react-query";
 import { 
@@ -66,8 +67,9 @@ const activityData = [
 
 export default function AdminDashboard() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [dateRange, setDateRange] = useState("week");
-  const isAdmin = !!user?.isAdmin;
+  const allowed = !!user && can('admin.access');
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['/api/admin/info'],
@@ -76,7 +78,7 @@ export default function AdminDashboard() {
       if (!res.ok) throw new Error('Failed to fetch dashboard data');
       return res.json();
     },
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
   const { data: analyticsData, isLoading: analyticsLoading } = useQuery({
@@ -86,7 +88,7 @@ export default function AdminDashboard() {
       if (!res.ok) throw new Error('Failed to fetch analytics data');
       return res.json();
     },
-    enabled: isAdmin,
+    enabled: allowed && can('analytics.view'),
   });
 
   const { data: activityLogs, isLoading: activityLoading } = useQuery({
@@ -96,10 +98,10 @@ export default function AdminDashboard() {
       if (!res.ok) throw new Error('Failed to fetch activity data');
       return res.json();
     },
-    enabled: isAdmin,
+    enabled: allowed && can('users.view'),
   });
 
-  if (!isAdmin) {
+  if (!allowed) {
     return <Redirect to="/" />;
   }
 
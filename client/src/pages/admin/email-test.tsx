@@ -1,12 +1,13 @@
 /**
  * Email Test Page
  * 
- * Admin page for testing email functionality.
+ * Admin page for testing email functionality and reviewing the outbox.
  */
 
 import React from 'react';
 // import { Helmet } from 'react-helmet';
 import EmailServiceTest from '@/components/admin/EmailServiceTest';
+import { EmailOutbox } from '@/components/admin/email-outbox';
 import AdminLayout from '@/components/layout/admin-layout';
 
 export default function EmailTestPage() {
@@ -17,7 +18,10 @@ export default function EmailTestPage() {
       </Helmet> */}
       
       <AdminLayout title="Email Service Test">
-        <EmailServiceTest />
+        <div className="space-y-6">
+          <EmailServiceTest />
+          <EmailOutbox />
+        </div>
       </AdminLayout>
     </>
   );
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Redirect, useLocation } from "wouter";
 import { 
@@ -13,10 +14,11 @@ import {
 
 export default function AdminPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [, navigate] = useLocation();
 
-  // Redirect if not admin
-  if (!user?.isAdmin) {
+  // Redirect unless the role allows this page
+  if (!user || !can('admin.access')) {
     return <Redirect to="/" />;
   }
 
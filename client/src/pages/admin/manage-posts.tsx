@@ -54,6 +54,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { PublishingCalendar, SchedulePostDialog } from '@/components/admin/publishing-calendar';
 import { 
   ArrowUpDown, 
   Check, 
@@ -71,7 +72,8 @@ import {
   MessageSquare,
   ThumbsUp,
   BarChart,
-  AlertCircle
+  AlertCircle,
+  CalendarClock
 } from 'lucide-react';
 
 // Extended Post type with admin-specific properties
@@ -100,6 +102,7 @@ export default function ManagePostsPage() {
   const [selectedPosts, setSelectedPosts] = useState<number[]>([]);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedPost, setSelectedPost] = useState<ExtendedPost | null>(null);
+  const [schedulingPost, setSchedulingPost] = useState<ExtendedPost | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editedPostData, setEditedPostData] = useState<{
     title: string;
@@ -433,6 +436,15 @@ export default function ManagePostsPage() {
       );
     }
     
+    if ((post.metadata as { status?: string } | null)?.status === 'scheduled' && post.publishAt) {
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <CalendarClock className="h-3 w-3" />
+          {format(new Date(post.publishAt), 'MMM d, h:mm a')}
+        </Badge>
+      );
+    }
+    
     if (!post.published) {
       return (
         <Badge variant="outline" className="gap-1">
@@ -598,6 +610,10 @@ export default function ManagePostsPage() {
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="calendar">
+              <CalendarClock className="h-4 w-4 mr-1" />
+              Calendar
+            </TabsTrigger>
           </TabsList>
           
           <div className="flex flex-col sm:flex-row gap-2">
@@ -621,6 +637,7 @@ export default function ManagePostsPage() {
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="flagged">Flagged</SelectItem>
                 </SelectContent>
@@ -799,6 +816,10 @@ export default function ManagePostsPage() {
                                     <Pencil className="h-4 w-4 mr-2" />
                                     Edit
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setSchedulingPost(post)}>
+                                    <CalendarClock className="h-4 w-4 mr-2" />
+                                    Schedule
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem onClick={() => navigate(`/admin/analytics?postId=${post.id}`)}>
                                     <BarChart className="h-4 w-4 mr-2" />
                                     Analytics
@@ -1139,7 +1160,13 @@ export default function ManagePostsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="calendar" className="space-y-4">
+          <PublishingCalendar />
+        </TabsContent>
       </Tabs>
+
+      <SchedulePostDialog post={schedulingPost} onOpenChange={(open) => { if (!open) setSchedulingPost(null); }} />
       
       {/* Edit Post Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
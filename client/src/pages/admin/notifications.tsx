@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Redirect } from "wouter";
@@ -16,6 +17,8 @@ interface AdminNotification {
 
 export default function AdminNotificationsPage() {
 	const { user } = useAuth();
+	const { can } = usePermissions();
+	const allowed = !!user && can('admin.access');
 	const [notifications, setNotifications] = useState<AdminNotification[]>([]);
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
@@ -44,13 +47,13 @@ export default function AdminNotificationsPage() {
 
 	useEffect(() => {
 		// Only fetch when admin to avoid unnecessary requests
-		if (user?.isAdmin) {
+		if (allowed) {
 			fetchNotifications();
 		}
 		 
-	}, [user?.isAdmin]);
+	}, [allowed]);
 
-	return !user?.isAdmin ? (
+	return !allowed ? (
 		<Redirect to="/" />
 	) : (
 		<div className="container mx-auto px-4 py-8">
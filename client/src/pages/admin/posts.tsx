@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Redirect } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -58,15 +59,16 @@ interface Post {
 
 export default function AdminPostsPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-  const isAdmin = !!user?.isAdmin;
+  const allowed = !!user && can('posts.publish');
 
   const { data: posts, isLoading, error } = useQuery<Post[]>({
     queryKey: ["/api/posts"],
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
   const deletePost = useMutation({
@@ -141,7 +143,7 @@ export default function AdminPostsPage() {
     },
   });
 
-  if (!isAdmin) {
+  if (!allowed) {
     return <Redirect to="/" />;
   }
 
@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,6 +11,8 @@ interface SiteSetting { id: number; key: string; value: string; category: string
 
 export default function AdminSettingsPage() {
 	const { user } = useAuth();
+	const { can } = usePermissions();
+	const allowed = !!user && can('settings.manage');
 	const [settings, setSettings] = useState<SiteSetting[]>([]);
 	const [loading, setLoading] = useState(false);
 	const [saving, setSaving] = useState(false);
@@ -51,13 +54,13 @@ export default function AdminSettingsPage() {
 	}
 
 	useEffect(() => {
-		if (user?.isAdmin) {
+		if (allowed) {
 			loadSettings();
 		}
 		 
-	}, [user?.isAdmin]);
+	}, [allowed]);
 
-	return !user?.isAdmin ? (
+	return !allowed ? (
 		<Redirect to="/" />
 	) : (
 		<div className="container mx-auto px-4 py-8">
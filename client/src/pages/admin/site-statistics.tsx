@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Redirect } from "wouter";
 import { useQuery } from '@tanstack/react-query';
 import { 
@@ -130,9 +131,10 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>)
 
 export default function SiteStatisticsPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [dateRange, setDateRange] = useState("week");
   const [currentTab, setCurrentTab] = useState("overview");
-  const isAdmin = !!user?.isAdmin;
+  const allowed = !!user && can('analytics.view');
 
   // Fetch analytics data
   const { data: analytics, isLoading, error } = useQuery<SiteAnalytics>({
@@ -142,10 +144,10 @@ export default function SiteStatisticsPage() {
       if (!res.ok) throw new Error('Failed to fetch analytics data');
       return res.json();
     },
-    enabled: isAdmin,
+    enabled: allowed,
   });
 
-  if (!isAdmin) {
+  if (!allowed) {
     return <Redirect to="/" />;
   }
 
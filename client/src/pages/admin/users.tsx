@@ -1,11 +1,19 @@
 import React from 'react';
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Redirect } from "wouter";
 import { Loader2, Search, MoreVertical } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLE_LABELS, USER_ROLES, roleOf, type UserRole } from "@shared/permissions";
+import { accountRestriction } from "@shared/account-status";
+import { Badge } from "@/components/ui/badge";
+import { AccountActionDialog, type AccountAction } from "@/components/admin/account-action-dialog";
 import {
   Table,
   TableBody,
@@ -18,6 +26,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
@@ -26,25 +35,47 @@ interface User {
   username: string;
   email: string;
   isAdmin: boolean;
+  role: string;
+  suspendedUntil: string | null;
+  bannedAt: string | null;
+  shadowMuted: boolean;
   createdAt: string;
   lastLogin: string;
 }
 
 export default function AdminUsersPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = React.useState("");
+  const [pendingAction, setPendingAction] = React.useState<{ account: User; action: AccountAction } | null>(null);
 
   const { data: users, isLoading } = useQuery<User[]>({
     queryKey: ["/api/admin/users", searchQuery],
     queryFn: async () => {
       const response = await fetch(`/api/admin/users${searchQuery ? `?search=${searchQuery}` : ''}`);
       if (!response.ok) throw new Error('Failed to fetch users');
-      return response.json();
+      const data = await response.json();
+      return Array.isArray(data) ? data : data.users;
+    },
+    enabled: can('users.view'),
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) =>
+      apiRequest(`/api/admin/users/${id}/role`, { method: 'PUT', body: JSON.stringify({ role }) }),
+    onSuccess: (_, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: 'Role updated', description: `The account is now ${ROLE_LABELS[role].toLowerCase()}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     }
   });
 
-  // Redirect if not admin
-  if (!user?.isAdmin) {
+  // Redirect unless the role can see accounts
+  if (!user || !can('users.view')) {
     return <Redirect to="/" />;
   }
 
@@ -82,19 +113,43 @@ export default function AdminUsersPage() {
                   <TableHead>Username</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Last Login</TableHead>
                   <TableHead className="w-[50px]"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {users?.map((user) => (
-                  <TableRow key={user.id}>
-                    <TableCell>{user.username}</TableCell>
-                    <TableCell>{user.email}</TableCell>
-                    <TableCell>{user.isAdmin ? 'Admin' : 'User'}</TableCell>
-                    <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
-                    <TableCell>{new Date(user.lastLogin).toLocaleDateString()}</TableCell>
+                {users?.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell>{account.username}</TableCell>
+                    <TableCell>{account.email}</TableCell>
+                    <TableCell>
+                      {/* Your own role can only be changed by another admin */}
+                      {can('users.manage') && account.id !== user.id ? (
+                        <Select
+                          value={roleOf(account)}
+                          disabled={changeRole.isPending}
+                          onValueChange={(role) => changeRole.mutate({ id: account.id, role: role as UserRole })}
+                        >
+                          <SelectTrigger className="w-[130px]" aria-label={`Role for ${account.username}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        ROLE_LABELS[roleOf(account)]
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <AccountStatus account={account} />
+                    </TableCell>
+                    <TableCell>{new Date(account.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{new Date(account.lastLogin).toLocaleDateString()}</TableCell>
                     <TableCell>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -105,6 +160,32 @@ export default function AdminUsersPage() {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuItem>Edit User</DropdownMenuItem>
+                          {can('users.manage') && account.id !== user.id && (
+                            <>
+                              <DropdownMenuSeparator />
+                              {accountRestriction(account) ? (
+                                <DropdownMenuItem onClick={() => setPendingAction({ account, action: 'reinstate' })}>
+                                  Reinstate
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => setPendingAction({ account, action: 'suspend' })}>
+                                  Suspend…
+                                </DropdownMenuItem>
+                              )}
+                              {!account.bannedAt && (
+                                <DropdownMenuItem className="text-destructive" onClick={() => setPendingAction({ account, action: 'ban' })}>
+                                  Ban…
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => setPendingAction({ account, action: account.shadowMuted ? 'unmute' : 'mute' })}>
+                                {account.shadowMuted ? 'Unmute' : 'Shadow-mute…'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setPendingAction({ account, action: 'logout' })}>
+                                Sign out everywhere
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                            </>
+                          )}
                           <DropdownMenuItem className="text-destructive">
                             Delete User
                           </DropdownMenuItem>
@@ -118,6 +199,28 @@ export default function AdminUsersPage() {
           )}
         </CardContent>
       </Card>
+
+      <AccountActionDialog
+        account={pendingAction?.account ?? null}
+        action={pendingAction?.action ?? null}
+        onOpenChange={(open) => { if (!open) setPendingAction(null); }}
+      />
+    </div>
+  );
+}
+
+function AccountStatus({ account }: { account: User }) {
+  const restriction = accountRestriction(account);
+  return (
+    <div className="flex flex-wrap gap-1">
+      {restriction?.code === 'ACCOUNT_BANNED' && <Badge variant="destructive">Banned</Badge>}
+      {restriction?.code === 'ACCOUNT_SUSPENDED' && (
+        <Badge variant="destructive" title={restriction.until?.toLocaleString()}>
+          Suspended until {restriction.until?.toLocaleDateString()}
+        </Badge>
+      )}
+      {account.shadowMuted && <Badge variant="secondary">Muted</Badge>}
+      {!restriction && !account.shadowMuted && <span className="text-sm text-muted-foreground">Active</span>}
     </div>
   );
 }
\ No newline at end of file
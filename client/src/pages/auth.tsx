@@ -16,8 +16,10 @@ import {
 } from "lucide-react";
 import { AuthButton } from "@/components/auth/auth-button";
 import { ForgotPasswordDialog } from "@/components/auth/forgot-password";
+import { MagicLinkDialog } from "@/components/auth/magic-link-dialog";
 import "./auth.css";
 import SocialLoginButtons from "@/components/auth/SocialLoginButtons";
+import { TwoFactorChallengeForm } from "@/components/auth/two-factor-challenge";
 
 export default function AuthPage() {
   const [isSignIn, setIsSignIn] = useState(true);
@@ -30,7 +32,7 @@ export default function AuthPage() {
   const [rememberMe, setRememberMe] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [, setLocation] = useLocation();
-  const { login, registerMutation } = useAuth();
+  const { login, registerMutation, twoFactorChallenge, startTwoFactorChallenge } = useAuth();
   const { toast } = useToast();
   
   // Password validation states
@@ -123,6 +125,18 @@ export default function AuthPage() {
           throw new Error("Login failed - no user data received");
         }
         
+        if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+          return;
+        }
+        
+        if (result.confirmationRequired) {
+          toast({
+            title: "Check your email",
+            description: result.message,
+          });
+          return;
+        }
+        
         console.log("[Auth] Login successful, redirecting", { userId: result.id });
         
         // Show success notification
@@ -273,6 +287,10 @@ export default function AuthPage() {
         throw new Error(data?.message || 'Social authentication failed');
       }
 
+      if (startTwoFactorChallenge(data)) {
+        return;
+      }
+
       toast({
         title: 'Success',
         description: 'You have been logged in successfully'
@@ -292,6 +310,18 @@ export default function AuthPage() {
     }
   };
 
+  if (twoFactorChallenge) {
+    return (
+      <div className="auth-container">
+        <div className="login-wrap">
+          <div className="login-html">
+            <TwoFactorChallengeForm onSuccess={() => setLocation("/")} />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="auth-container">
       <div className="login-wrap">
@@ -415,6 +445,10 @@ export default function AuthPage() {
                     isSignIn={true}
                   />
                 </div>
+
+                <div className="flex justify-center">
+                  <MagicLinkDialog defaultEmail={email} rememberMe={rememberMe} />
+                </div>
                 
                 <div className="tiny-disclaimer">
                   By continuing, you agree to our <a href="/legal/terms" className="policy-link">Terms of Service</a> and <a href="/privacy" className="policy-link">Privacy Policy</a>. This site uses cookies for authentication and analytics.
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronLeft, Trophy, Check, Send, Trash2, BookOpen } from 'lucide-react';
+import { useLocation, useParams } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  useChallenge,
+  CHALLENGE_PHASE_LABELS,
+  type ChallengeEntry,
+  type RankedChallengeEntry
+} from '@/hooks/use-challenges';
+
+function EntryBody({ entry }: { entry: ChallengeEntry }) {
+  return (
+    <>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{entry.title || 'Untitled entry'}</CardTitle>
+        <CardDescription>
+          by {entry.author.username || 'Anonymous'} · {format(new Date(entry.submissionDate), 'MMM d, yyyy')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="whitespace-pre-wrap text-sm leading-relaxed">{entry.content}</p>
+      </CardContent>
+    </>
+  );
+}
+
+export default function ChallengePage() {
+  const params = useParams<{ id: string }>();
+  const challengeId = Number(params.id);
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { detail, results, saveEntry, withdrawEntry, vote, removeVote, promoteEntry } = useChallenge(challengeId);
+
+  const myEntry = detail.data?.myEntry ?? null;
+  const [entryTitle, setEntryTitle] = useState('');
+  const [entryContent, setEntryContent] = useState('');
+
+  // Start the form from the saved entry whenever it changes
+  useEffect(() => {
+    setEntryTitle(myEntry?.title ?? '');
+    setEntryContent(myEntry?.content ?? '');
+  }, [myEntry?.id, myEntry?.title, myEntry?.content]);
+
+  if (detail.isLoading) {
+    return <p className="text-center text-muted-foreground py-12">Loading challenge...</p>;
+  }
+  if (detail.error || !detail.data) {
+    return <p className="text-center text-destructive py-12">This challenge could not be found.</p>;
+  }
+
+  const { challenge, entries, myVote } = detail.data;
+
+  const canPromote = (entry: ChallengeEntry) =>
+    !entry.promotedPostId && !!user && (user.id === entry.author.id || user.isAdmin);
+
+  const renderPromotion = (entry: ChallengeEntry) => {
+    if (entry.promotedPostSlug) {
+      return (
+        <Button variant="outline" size="sm" onClick={() => setLocation(`/community-story/${entry.promotedPostSlug}`)}>
+          <BookOpen className="h-3.5 w-3.5 mr-1.5" />
+          Read in community
+        </Button>
+      );
+    }
+    if (!canPromote(entry)) return null;
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={promoteEntry.isPending}
+        onClick={() => promoteEntry.mutate(entry.id)}
+      >
+        Publish as community story
+      </Button>
+    );
+  };
+
+  const renderRanked = (entry: RankedChallengeEntry) => (
+    <Card key={entry.id} className={entry.rank === 1 && entry.votes > 0 ? 'border-primary' : undefined}>
+      <div className="flex items-center gap-2 px-6 pt-4 text-sm font-medium">
+        {entry.rank === 1 && entry.votes > 0 && <Trophy className="h-4 w-4 text-primary" />}
+        <span>#{entry.rank}</span>
+        <span className="text-muted-foreground">· {entry.votes} {entry.votes === 1 ? 'vote' : 'votes'}</span>
+      </div>
+      <EntryBody entry={entry} />
+      {(entry.promotedPostSlug || canPromote(entry)) && (
+        <CardFooter>{renderPromotion(entry)}</CardFooter>
+      )}
+    </Card>
+  );
+
+  return (
+    <div className="container px-4 sm:px-6 max-w-3xl mx-auto py-4 sm:py-8">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mb-4 h-8 px-2"
+        onClick={() => setLocation('/challenges')}
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        All challenges
+      </Button>
+
+      <div className="mb-6">
+        <div className="flex items-start justify-between gap-3 mb-2">
+          <h1 className="text-xl sm:text-2xl font-bold">{challenge.title}</h1>
+          <Badge variant={challenge.phase === 'open' ? 'default' : challenge.phase === 'voting' ? 'success' : 'secondary'}>
+            {CHALLENGE_PHASE_LABELS[challenge.phase]}
+          </Badge>
+        </div>
+        <p className="whitespace-pre-wrap text-muted-foreground">{challenge.description}</p>
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-muted-foreground">
+          <span>Opens {format(new Date(challenge.startDate), 'MMM d, yyyy h:mm a')}</span>
+          <span>Entries close {format(new Date(challenge.endDate), 'MMM d, yyyy h:mm a')}</span>
+          <span>Voting ends {format(new Date(challenge.votingEndsAt), 'MMM d, yyyy h:mm a')}</span>
+        </div>
+      </div>
+
+      {challenge.phase === 'upcoming' && (
+        <p className="text-center text-muted-foreground py-8">
+          Submissions open on {format(new Date(challenge.startDate), 'MMMM d')}.
+        </p>
+      )}
+
+      {challenge.phase === 'open' && (
+        user ? (
+          <Card>
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                saveEntry.mutate({ title: entryTitle || null, content: entryContent });
+              }}
+            >
+              <CardHeader>
+                <CardTitle className="text-lg">{myEntry ? 'Your entry' : 'Submit your entry'}</CardTitle>
+                <CardDescription>
+                  One entry per writer. Other entries stay hidden until submissions close, and you can edit yours until then.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="entry-title">Title (optional)</Label>
+                  <Input id="entry-title" value={entryTitle} onChange={(e) => setEntryTitle(e.target.value)} maxLength={200} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="entry-content">Story</Label>
+                  <Textarea
+                    id="entry-content"
+                    value={entryContent}
+                    onChange={(e) => setEntryContent(e.target.value)}
+                    rows={12}
+                    required
+                  />
+                </div>
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                {myEntry ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    disabled={withdrawEntry.isPending}
+                    onClick={() => withdrawEntry.mutate()}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1.5" />
+                    Withdraw
+                  </Button>
+                ) : <span />}
+                <Button type="submit" disabled={saveEntry.isPending || !entryContent.trim()}>
+                  <Send className="h-4 w-4 mr-1.5" />
+                  {myEntry ? 'Save changes' : 'Submit entry'}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground mb-3">Sign in to enter this challenge.</p>
+            <Button onClick={() => setLocation('/auth')}>Sign in</Button>
+          </div>
+        )
+      )}
+
+      {challenge.phase === 'voting' && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {user
+              ? 'You have one vote. You can move it to another entry until voting ends.'
+              : 'Sign in to vote for your favourite entry.'}
+          </p>
+          {(entries ?? []).length === 0 && (
+            <p className="text-center text-muted-foreground py-8">No entries were submitted.</p>
+          )}
+          {(entries ?? []).map(entry => {
+            const isOwn = user?.id === entry.author.id;
+            const isMyVote = myVote === entry.id;
+            return (
+              <Card key={entry.id} className={isMyVote ? 'border-primary' : undefined}>
+                <EntryBody entry={entry} />
+                {user && (
+                  <CardFooter>
+                    {isOwn ? (
+                      <span className="text-xs text-muted-foreground">Your entry</span>
+                    ) : isMyVote ? (
+                      <Button variant="secondary" size="sm" disabled={removeVote.isPending} onClick={() => removeVote.mutate()}>
+                        <Check className="h-3.5 w-3.5 mr-1.5" />
+                        Your vote
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" disabled={vote.isPending} onClick={() => vote.mutate(entry.id)}>
+                        Vote for this entry
+                      </Button>
+                    )}
+                  </CardFooter>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {challenge.phase === 'closed' && (
+        results.isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Loading results...</p>
+        ) : results.data ? (
+          <div className="space-y-6">
+            {results.data.winners.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                  <Trophy className="h-5 w-5 text-primary" />
+                  {results.data.winners.length === 1 ? 'Winner' : 'Winners'}
+                </h2>
+                <div className="space-y-3">{results.data.winners.map(renderRanked)}</div>
+              </div>
+            )}
+            <div>
+              <h2 className="text-lg font-semibold mb-3">All entries</h2>
+              {results.data.entries.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No entries were submitted.</p>
+              ) : (
+                <div className="space-y-3">
+                  {results.data.entries.filter(entry => !(entry.rank === 1 && entry.votes > 0)).map(renderRanked)}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-destructive py-8">Results could not be loaded.</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trophy, ChevronLeft } from 'lucide-react';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  useChallenges,
+  useCreateChallenge,
+  CHALLENGE_PHASE_LABELS,
+  type Challenge,
+  type ChallengePhase
+} from '@/hooks/use-challenges';
+
+type PhaseFilter = 'all' | ChallengePhase;
+
+function phaseDateLine(challenge: Challenge): string {
+  switch (challenge.phase) {
+    case 'upcoming':
+      return `Opens ${format(new Date(challenge.startDate), 'MMM d, yyyy')}`;
+    case 'open':
+      return `Entries close ${format(new Date(challenge.endDate), 'MMM d, yyyy h:mm a')}`;
+    case 'voting':
+      return `Voting ends ${format(new Date(challenge.votingEndsAt), 'MMM d, yyyy h:mm a')}`;
+    default:
+      return `Ended ${format(new Date(challenge.votingEndsAt), 'MMM d, yyyy')}`;
+  }
+}
+
+function CreateChallengeDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const createChallenge = useCreateChallenge();
+  const [values, setValues] = useState({ title: '', description: '', startDate: '', endDate: '', votingEndDate: '' });
+
+  const update = (field: keyof typeof values) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setValues(current => ({ ...current, [field]: event.target.value }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    createChallenge.mutate({
+      title: values.title,
+      description: values.description,
+      startDate: new Date(values.startDate).toISOString(),
+      endDate: new Date(values.endDate).toISOString(),
+      votingEndDate: values.votingEndDate ? new Date(values.votingEndDate).toISOString() : null
+    }, {
+      onSuccess: () => {
+        setValues({ title: '', description: '', startDate: '', endDate: '', votingEndDate: '' });
+        onOpenChange(false);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New writing challenge</DialogTitle>
+            <DialogDescription>
+              Entries are hidden until submissions close. Voting lasts a week unless you set an end date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="challenge-title">Prompt</Label>
+              <Input id="challenge-title" value={values.title} onChange={update('title')} maxLength={200} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-description">Description</Label>
+              <Textarea id="challenge-description" value={values.description} onChange={update('description')} rows={4} required />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="challenge-start">Submissions open</Label>
+                <Input id="challenge-start" type="datetime-local" value={values.startDate} onChange={update('startDate')} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="challenge-end">Submissions close</Label>
+                <Input id="challenge-end" type="datetime-local" value={values.endDate} onChange={update('endDate')} required />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-voting-end">Voting ends (optional)</Label>
+              <Input id="challenge-voting-end" type="datetime-local" value={values.votingEndDate} onChange={update('votingEndDate')} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={createChallenge.isPending}>
+              {createChallenge.isPending ? 'Creating...' : 'Create challenge'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ChallengesPage() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { data: challenges = [], isLoading, error } = useChallenges();
+  const [filter, setFilter] = useState<PhaseFilter>('all');
+  const [creating, setCreating] = useState(false);
+
+  const visible = filter === 'all' ? challenges : challenges.filter(challenge => challenge.phase === filter);
+
+  return (
+    <div className="container px-4 sm:px-6 max-w-3xl mx-auto py-4 sm:py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-0 mb-4 sm:mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="self-start mr-2 h-8 px-2"
+          onClick={() => setLocation('/community')}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Community
+        </Button>
+
+        <div className="flex-1">
+          <h1 className="text-xl sm:text-2xl font-bold">Writing Challenges</h1>
+          <p className="text-muted-foreground text-sm">
+            Write to a prompt, then vote for your favourite entry
+          </p>
+        </div>
+
+        {user?.isAdmin && (
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="h-4 w-4 mr-1.5" />
+            New challenge
+          </Button>
+        )}
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as PhaseFilter)} className="mb-4">
+        <TabsList className="w-full grid grid-cols-5">
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="voting">Voting</TabsTrigger>
+          <TabsTrigger value="closed">Results</TabsTrigger>
+          <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <p className="text-center text-muted-foreground py-12">Loading challenges...</p>
+      ) : error ? (
+        <p className="text-center text-destructive py-12">Challenges could not be loaded.</p>
+      ) : visible.length === 0 ? (
+        <div className="text-center text-muted-foreground py-12">
+          <Trophy className="h-10 w-10 mx-auto mb-3 opacity-40" />
+          <p>No challenges here yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(challenge => (
+            <Card
+              key={challenge.id}
+              className="cursor-pointer transition-colors hover:bg-accent/40"
+              onClick={() => setLocation(`/challenges/${challenge.id}`)}
+            >
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-3">
+                  <CardTitle className="text-lg">{challenge.title}</CardTitle>
+                  <Badge variant={challenge.phase === 'open' ? 'default' : challenge.phase === 'voting' ? 'success' : 'secondary'}>
+                    {CHALLENGE_PHASE_LABELS[challenge.phase]}
+                  </Badge>
+                </div>
+                <CardDescription className="line-clamp-2">{challenge.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground flex justify-between">
+                <span>{phaseDateLine(challenge)}</span>
+                <span>{challenge.entryCount} {challenge.entryCount === 1 ? 'entry' : 'entries'}</span>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {user?.isAdmin && <CreateChallengeDialog open={creating} onOpenChange={setCreating} />}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+// Opened from the "confirm your sign-in" email; finishes the held sign-in in this browser
+export default function ConfirmLoginPage() {
+  const [, navigate] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [isLoading, setIsLoading] = useState(false);
+  const { confirmLogin } = useAuth();
+  const { toast } = useToast();
+
+  const handleConfirm = async () => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const result = await confirmLogin(token);
+      if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+        // The sign-in page picks up the challenge and asks for the code
+        navigate('/auth');
+        return;
+      }
+      toast({
+        title: "Success",
+        description: "You have been logged in successfully",
+      });
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not confirm your sign-in",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background px-4">
+      <Card className="w-full max-w-md border border-slate-800 shadow-xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">Confirm Sign-in</CardTitle>
+          <CardDescription>
+            {token
+              ? 'Finish signing in to your account on this device'
+              : 'This confirmation link is incomplete. Please use the link from your email.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center py-6">
+          <ShieldCheck className="h-12 w-12 text-primary" />
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          <Button className="w-full" disabled={!token || isLoading} onClick={handleConfirm}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Signing in...
+              </>
+            ) : "Yes, sign me in"}
+          </Button>
+          <Button variant="ghost" className="w-full" onClick={() => navigate('/')}>
+            Cancel
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
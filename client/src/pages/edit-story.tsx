@@ -1,20 +1,24 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import SimplePostEditor from "@/components/community/simple-post-editor";
+import { StoryRevisions } from "@/components/community/story-revisions";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { AlertCircle, ArrowLeft } from "lucide-react";
 import ApiLoader from "@/components/api-loader";
+import { hasPermission } from '@shared/permissions';
 
 export default function EditStoryPage({ params }: { params: { id: string } }) {
   const id = params?.id;
   const [, navigate] = useLocation();
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
+  // Remounts the editor so it picks up text restored from history
+  const [editorVersion, setEditorVersion] = useState(0);
   
   // Fetch the post data
   const { data: post, isLoading, isError, error } = useQuery({
@@ -30,7 +34,7 @@ export default function EditStoryPage({ params }: { params: { id: string } }) {
   });
 
   // Check if user is authorized to edit this post
-  const isAuthorized = user?.isAdmin || (post && post.authorId === user?.id);
+  const isAuthorized = hasPermission(user, 'posts.edit_any') || (post && post.authorId === user?.id);
   
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -90,19 +94,27 @@ export default function EditStoryPage({ params }: { params: { id: string } }) {
           </AlertDescription>
         </Alert>
       ) : (
-        <Card className="p-6">
-          <div className="mb-6">
-            <h1 className="text-3xl font-bold mb-2">Edit Your Story</h1>
-            <p className="text-muted-foreground">
-              Make changes to your story below. Your edits will be reviewed by our moderators.
-            </p>
-          </div>
+        <div className="space-y-6">
+          <Card className="p-6">
+            <div className="mb-6">
+              <h1 className="text-3xl font-bold mb-2">Edit Your Story</h1>
+              <p className="text-muted-foreground">
+                Make changes to your story below. Your edits will be reviewed by our moderators.
+              </p>
+            </div>
 
-          <SimplePostEditor 
+            <SimplePostEditor 
+              key={editorVersion}
+              postId={parseInt(id)}
+              onClose={() => navigate("/community")}
+            />
+          </Card>
+
+          <StoryRevisions
             postId={parseInt(id)}
-            onClose={() => navigate("/community")}
+            onRestored={() => setEditorVersion(version => version + 1)}
           />
-        </Card>
+        </div>
       )}
     </div>
   );
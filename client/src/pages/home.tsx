@@ -11,6 +11,7 @@ import { BuyMeCoffeeButton } from "@/components/BuyMeCoffeeButton";
 import { getExcerpt } from "@/lib/content-analysis";
 import { sanitizeHtmlContent } from "@/lib/sanitize-content";
 import ApiLoader from "@/components/api-loader";
+import ContinueReadingShelf from "@/components/home/ContinueReadingShelf";
 
 
 export default function Home() {
@@ -329,6 +330,8 @@ export default function Home() {
                   </motion.div>
                 </div>
               )}
+
+              <ContinueReadingShelf />
             </div>
           </div>
         )}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Mail } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+// Opened from a sign-in link email. The token is only spent when the button is clicked, so
+// mail scanners that open links ahead of the reader don't use it up.
+export default function MagicLinkPage() {
+  const [, navigate] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [isLoading, setIsLoading] = useState(false);
+  const { signInWithMagicLink } = useAuth();
+  const { toast } = useToast();
+
+  const handleSignIn = async () => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const result = await signInWithMagicLink(token);
+      if (result.twoFactorRequired || result.twoFactorSetupRequired) {
+        // The sign-in page picks up the challenge and asks for the code
+        navigate('/auth');
+        return;
+      }
+      toast({
+        title: result.accountCreated ? "Welcome to Bubble's Cafe" : "Success",
+        description: result.accountCreated
+          ? "Your account is ready. You can set a password any time with \"Forgot Password?\"."
+          : "You have been logged in successfully",
+      });
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not sign you in with this link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background px-4">
+      <Card className="w-full max-w-md border border-slate-800 shadow-xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">Sign In</CardTitle>
+          <CardDescription>
+            {token
+              ? 'Continue to sign in to Bubble\'s Cafe on this device'
+              : 'This sign-in link is incomplete. Please use the link from your email.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center py-6">
+          <Mail className="h-12 w-12 text-primary" />
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          <Button className="w-full" disabled={!token || isLoading} onClick={handleSignIn}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Signing in...
+              </>
+            ) : "Continue"}
+          </Button>
+          <Button variant="ghost" className="w-full" onClick={() => navigate('/auth')}>
+            Sign in with a password
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -53,6 +53,7 @@ import SimpleCommentSection from "@/components/blog/SimpleCommentSection";
 
 // Import the WordPress API functions with error handling
 import { fetchWordPressPosts } from "@/lib/wordpress-api";
+import { hasPermission } from '@shared/permissions';
 
 // Native HTML sanitization function (avoiding DOMPurify dependency conflicts)
 const sanitizeHtmlContent = (html: string): string => {
@@ -115,7 +116,7 @@ export default function ReaderPage({ slug, params, isCommunityContent = false }:
   
   // Add authentication hook to check user role for admin actions
   const { user, isAuthenticated } = useAuth();
-  const isAdmin = user?.isAdmin === true;
+  const canEditAny = hasPermission(user, 'posts.edit_any');
   
   // Theme is now managed by the useTheme hook
   const { theme, toggleTheme } = useTheme();
@@ -275,7 +276,7 @@ export default function ReaderPage({ slug, params, isCommunityContent = false }:
       
       toast({
         title: 'Story Deleted',
-        description: isAdmin && user?.id !== currentPost?.authorId
+        description: canEditAny && user?.id !== currentPost?.authorId
           ? 'Community story has been deleted by admin.'
           : 'Your story has been deleted successfully.',
       });
@@ -1078,7 +1079,7 @@ export default function ReaderPage({ slug, params, isCommunityContent = false }:
                       Community Story
                     </Badge>
                     {/* Show delete button for admins or post authors */}
-                    {(isAdmin || (isCommunityContent && user?.id === currentPost?.authorId)) && isCommunityContent && (
+                    {(canEditAny || (isCommunityContent && user?.id === currentPost?.authorId)) && isCommunityContent && (
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -1103,12 +1104,12 @@ export default function ReaderPage({ slug, params, isCommunityContent = false }:
                   <DialogHeader>
                     <DialogTitle className="flex items-center text-xl">
                       <Trash className="h-5 w-5 mr-2 text-red-500" />
-                      {isAdmin && user?.id !== currentPost?.authorId ? 
+                      {canEditAny && user?.id !== currentPost?.authorId ? 
                         "Delete Community Story" : 
                         "Delete Your Story"}
                     </DialogTitle>
                     <DialogDescription className="pt-2 text-sm">
-                      {isAdmin && user?.id !== currentPost?.authorId ? 
+                      {canEditAny && user?.id !== currentPost?.authorId ? 
                         "As an admin, you are about to delete a user-submitted community story. This action cannot be undone." : 
                         "You are about to delete your community story. This action cannot be undone."}
                     </DialogDescription>
@@ -20,6 +20,8 @@ interface SearchResult {
     text: string;
     context?: string;
     position: number;
+    // Highlighted fragments computed by the server's full-text search
+    highlights?: { text: string; highlighted: boolean }[];
   }[];
 }
 
@@ -71,7 +73,7 @@ export default function SearchResultsPage() {
         content: '',
         type: (r.type === 'post' || r.type === 'page') ? r.type : 'post',
         url: r.url,
-        matches: (r.matches || []).map((m: any, idx: number) => ({ field: 'content', text: m.context || m.text || '', position: 0 }))
+        matches: (r.matches || []).map((m: any) => ({ field: 'content', text: m.context || m.text || '', position: 0, highlights: m.highlights }))
       }));
       setSearchResults(mapped);
       setPage(meta?.page || 1);
@@ -157,6 +159,16 @@ export default function SearchResultsPage() {
     );
   };
 
+  const renderHighlights = (segments: { text: string; highlighted: boolean }[]) => (
+    <>
+      {segments.map((segment, i) => segment.highlighted ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 rounded px-0.5">{segment.text}</mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      ))}
+    </>
+  );
+
   return (
     <ErrorBoundary>
     <div className="container max-w-4xl mx-auto px-4 py-8">
@@ -282,7 +294,9 @@ export default function SearchResultsPage() {
                   .slice(0, 3) // Limit to 3 matches per result
                   .map((match, idx) => (
                     <div key={idx} className="text-sm text-gray-700 dark:text-gray-300 bg-muted/50 p-2 rounded">
-                      ...{highlightText(match.context || match.text, searchQuery)}...
+                      ...{match.highlights?.length
+                        ? renderHighlights(match.highlights)
+                        : highlightText(match.context || match.text, searchQuery)}...
                     </div>
                   ))}
               </div>
@@ -15,17 +15,15 @@ export default function SettingsPage() {
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
   
-  // Check if user is trying to access the removed data export page
+  // Data export now lives in the privacy settings
   const [, params] = useRoute('/settings/data-export');
   
   useEffect(() => {
     // If the URL contains /settings/data-export, redirect to privacy settings
     if (location === '/settings/data-export') {
-      // Show toast notification explaining the redirection
       toast({
-        title: "Data Export Feature Removed",
-        description: "The data export functionality has been removed for security and performance reasons. Please contact support if you need your data.",
-        variant: "destructive"
+        title: "Data export has moved",
+        description: "Request an export of your data under Your Data & Account in privacy settings."
       });
       
       // Redirect to privacy settings page
@@ -23,8 +23,9 @@ import {
   User, 
   Cookie, 
   RefreshCw, 
-  DownloadCloud,
-  Trash2 
+  Trash2,
+  MonitorSmartphone,
+  History
 } from 'lucide-react';
 import { usePrivacySettings } from '@/hooks/use-privacy-settings';
 import { useAuth } from '@/hooks/use-auth';
@@ -32,22 +33,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { getPrivacyImpactLevel } from '@/utils/privacy-settings-utils';
 import { Progress } from '@/components/ui/progress';
 import { SettingsLayout } from '@/components/layouts/SettingsLayout';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
-import { Badge } from '@/components/ui/badge';
-import { useToast } from '@/hooks/use-toast';
+import { TwoFactorSettings } from '@/components/settings/two-factor-settings';
+import { AccountDataSettings } from '@/components/settings/account-data-settings';
+import { DeviceSessions } from '@/components/settings/device-sessions';
+import { LoginActivity } from '@/components/settings/login-activity';
 
 export default function PrivacySettingsPage() {
-  const { toast } = useToast();
   const { 
     cookiePreferences, 
     toggleCategory, 
@@ -64,8 +55,6 @@ export default function PrivacySettingsPage() {
     isAuthReady: settingsAuthReady 
   } = usePrivacySettings();
   
-  const [isDeleting, setIsDeleting] = React.useState(false);
-
   // Calculate privacy impact level based on current settings
   const privacyImpactLevel = useMemo(() => {
     if (isLoading || !settings) return 'medium';
@@ -102,38 +91,6 @@ export default function PrivacySettingsPage() {
     acceptEssentialOnly();
   };
   
-  // Handle account data deletion
-  const handleDeleteAccountData = async () => {
-    setIsDeleting(true);
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      toast({
-        title: "Data deleted",
-        description: "Your account data has been successfully deleted",
-        variant: "default",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete account data. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-  
-  // Handle data export request
-  const handleRequestDataExport = () => {
-    toast({
-      title: "Data Export Feature Removed",
-      description: "The data export functionality has been removed for security and performance reasons. Please contact support if you need your data.",
-      variant: "destructive"
-    });
-  };
-
   return (
     <SettingsLayout title="Privacy Settings" description="Manage your privacy preferences and control your data">
       <div className="space-y-6">
@@ -249,29 +206,13 @@ export default function PrivacySettingsPage() {
                         <span>Security Settings</span>
                       </h3>
                       
-                      <div className="flex items-center justify-between rounded-lg border p-3">
-                        <div className="space-y-0.5">
-                          <div className="flex items-center gap-2">
-                            <Label htmlFor="two-factor-auth" className="text-sm">Two-Factor Authentication</Label>
-                            <Badge variant="outline" className="h-5 text-[10px]">Recommended</Badge>
-                          </div>
-                          <p className="text-xs text-muted-foreground">
-                            Enable 2FA for additional account security
-                          </p>
-                        </div>
-                        <Switch 
-                          id="two-factor-auth" 
-                          checked={settings.twoFactorAuthEnabled}
-                          disabled={isUpdating}
-                          onCheckedChange={(checked) => updateSetting('twoFactorAuthEnabled', checked)} 
-                        />
-                      </div>
+                      <TwoFactorSettings />
                       
                       <div className="flex items-center justify-between rounded-lg border p-3">
                         <div className="space-y-0.5">
                           <Label htmlFor="login-notifications" className="text-sm">Login Notifications</Label>
                           <p className="text-xs text-muted-foreground">
-                            Get notified of new device logins
+                            Get an email when you sign in from a new device
                           </p>
                         </div>
                         <Switch 
@@ -282,6 +223,24 @@ export default function PrivacySettingsPage() {
                         />
                       </div>
                     </div>
+
+                    <div className="border rounded-lg p-3 space-y-3">
+                      <h3 className="text-sm font-medium flex items-center">
+                        <MonitorSmartphone className="h-4 w-4 mr-2 text-primary/70" />
+                        <span>Devices</span>
+                      </h3>
+
+                      <DeviceSessions />
+                    </div>
+
+                    <div className="border rounded-lg p-3 space-y-3">
+                      <h3 className="text-sm font-medium flex items-center">
+                        <History className="h-4 w-4 mr-2 text-primary/70" />
+                        <span>Sign-in Activity</span>
+                      </h3>
+
+                      <LoginActivity />
+                    </div>
                   </div>
                   
                   <div className="space-y-4">
@@ -349,65 +308,10 @@ export default function PrivacySettingsPage() {
                     <div className="mt-4 border rounded-lg p-3 space-y-3">
                       <h3 className="text-sm font-medium flex items-center text-destructive">
                         <Trash2 className="h-4 w-4 mr-2" />
-                        <span>Data Management</span>
+                        <span>Your Data &amp; Account</span>
                       </h3>
                       
-                      <p className="text-xs text-muted-foreground">
-                        If you wish to delete your data or request an export, use the options below.
-                        These actions may be permanent and cannot be undone.
-                      </p>
-                      
-                      <div className="flex flex-col xs:flex-row gap-2 pt-1">
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          className="flex gap-1 text-xs"
-                          onClick={handleRequestDataExport}
-                        >
-                          <DownloadCloud className="h-3.5 w-3.5" />
-                          <span>Request Data Export</span>
-                        </Button>
-                        
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button 
-                              variant="destructive" 
-                              size="sm" 
-                              className="flex gap-1 text-xs"
-                            >
-                              <Trash2 className="h-3.5 w-3.5" />
-                              <span>Delete Account Data</span>
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete all account data?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This will permanently remove all of your saved preferences, reading history, 
-                                and other user data from our servers. This action cannot be undone.
-                                Your account will remain active, but all personal data will be removed.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction 
-                                onClick={handleDeleteAccountData}
-                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                disabled={isDeleting}
-                              >
-                                {isDeleting ? (
-                                  <>
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                    <span>Deleting...</span>
-                                  </>
-                                ) : (
-                                  <span>Yes, delete my data</span>
-                                )}
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
+                      <AccountDataSettings />
                     </div>
                   </div>
                 </div>
@@ -1,12 +1,71 @@
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import SimplePostEditor from "@/components/community/simple-post-editor";
+import { MySubmissions } from "@/components/community/my-submissions";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { FileText, Trash2 } from "lucide-react";
+import type { StoryDraft } from "@shared/schema";
 
 export default function SubmitStoryPage() {
   const [, navigate] = useLocation();
+  const search = useSearch();
+  const { user } = useAuth();
+  const draftId = Number(new URLSearchParams(search).get("draft")) || undefined;
+
+  // Unfinished new stories; drafts of edits to published stories resume from the edit page
+  const { data: drafts } = useQuery<StoryDraft[]>({
+    queryKey: ["/api/story-drafts"],
+    queryFn: () => apiRequest<StoryDraft[]>("/api/story-drafts"),
+    enabled: !!user,
+  });
+  const newStoryDrafts = (drafts ?? []).filter(draft => draft.postId === null);
+
+  const deleteDraft = async (id: number) => {
+    await apiRequest(`/api/story-drafts/${id}`, { method: "DELETE" });
+    queryClient.invalidateQueries({ queryKey: ["/api/story-drafts"] });
+    if (id === draftId) navigate("/submit-story");
+  };
 
   return (
-    <div className="container py-8 max-w-7xl mx-auto">
+    <div className="container py-8 max-w-7xl mx-auto space-y-6">
+      {user && <MySubmissions />}
+
+      {newStoryDrafts.length > 0 && (
+        <Card className="p-4">
+          <h2 className="text-sm font-medium mb-3">Your drafts</h2>
+          <ul className="space-y-2">
+            {newStoryDrafts.map(draft => (
+              <li key={draft.id} className="flex items-center gap-2 text-sm">
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <button
+                  type="button"
+                  className={`flex-1 text-left truncate hover:underline ${draft.id === draftId ? "font-semibold" : ""}`}
+                  onClick={() => navigate(`/submit-story?draft=${draft.id}`)}
+                >
+                  {draft.title.trim() || "Untitled draft"}
+                </button>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(draft.updatedAt).toLocaleString()}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  aria-label="Delete draft"
+                  onClick={() => deleteDraft(draft.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
       <Card className="p-6">
         <div className="mb-6">
           <h1 className="text-3xl font-bold mb-2">Share Your Horror Story</h1>
@@ -15,10 +74,12 @@ export default function SubmitStoryPage() {
           </p>
         </div>
 
-        <SimplePostEditor 
+        <SimplePostEditor
+          key={draftId ?? "new"}
+          draftId={draftId}
           onClose={() => navigate("/community")}
         />
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
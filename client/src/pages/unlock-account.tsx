@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, CheckCircle, LockOpen } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+// Opened from the "account locked" email. Unlocking waits for a click so link scanners
+// that fetch the page can't use up the token.
+export default function UnlockAccountPage() {
+  const [, navigate] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const { toast } = useToast();
+
+  const handleUnlock = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/unlock', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to unlock your account');
+      }
+      setIsUnlocked(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock your account",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-background px-4">
+      <Card className="w-full max-w-md border border-slate-800 shadow-xl">
+        {isUnlocked ? (
+          <>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Account Unlocked</CardTitle>
+              <CardDescription>You can sign in again</CardDescription>
+            </CardHeader>
+            <CardContent className="text-center py-6">
+              <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              <p className="text-muted-foreground mb-4">
+                If the failed attempts weren't you, consider choosing a new password.
+              </p>
+              <Button onClick={() => navigate('/auth')} className="w-full">
+                Go to Login
+              </Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Unlock Your Account</CardTitle>
+              <CardDescription>
+                {token
+                  ? 'Sign-in was paused after too many wrong passwords'
+                  : 'This unlock link is incomplete. Please use the link from your email.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center py-6">
+              <LockOpen className="h-12 w-12 text-primary" />
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" disabled={!token || isLoading} onClick={handleUnlock}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Unlocking...
+                  </>
+                ) : "Unlock Account"}
+              </Button>
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -16,6 +16,9 @@ declare global {
 			username: string;
 			isAdmin: boolean;
 			createdAt: Date;
+			suspendedUntil?: Date | null;
+			bannedAt?: Date | null;
+			shadowMuted?: boolean;
 		}
 	}
 }
@@ -64,6 +64,7 @@ const envSchema = z.object({
   WORDPRESS_API: z.string().url().optional(),
   GOOGLE_CLIENT_ID: z.string().optional(),
   GOOGLE_CLIENT_SECRET: z.string().optional(),
+  MAGIC_LINK_SIGNUP: z.enum(['true', 'false']).optional(),
   GMAIL_APP_PASSWORD: z.string().optional(),
   SENDGRID_API_KEY: z.string().optional(),
   MAILERSEND_API_KEY: z.string().optional(),
@@ -117,6 +118,8 @@ export const config = {
       clientId: env.GOOGLE_CLIENT_ID,
       clientSecret: env.GOOGLE_CLIENT_SECRET,
     },
+    // Whether an emailed sign-in link may create an account for an unknown address
+    magicLinkSignup: env.MAGIC_LINK_SIGNUP !== 'false',
   },
   email: {
     gmail: {
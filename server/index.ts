@@ -26,6 +26,13 @@ import { setupCors } from "./cors-setup";
 
 import { config } from './config';
 import { wordpressScheduler } from './wordpress-scheduler';
+import { publishScheduler } from './publish-scheduler';
+import { webhookService } from './services/webhook-service';
+import { accountDataService } from './services/account-data-service';
+import { sessionService } from './services/session-service';
+import { newsletterCampaignService } from './services/newsletter-campaign-service';
+import { newsletterSubscriptionService } from './services/newsletter-subscription-service';
+import { emailOutboxService } from './services/email-outbox-service';
 import { applyPerformanceMiddleware } from './middleware';
 import { globalRateLimiter } from "./middlewares/rate-limiter";
 
@@ -89,9 +96,13 @@ app.use(validateCsrfToken({
     '/api/health',
     '/api/auth/status',
     '/api/auth/login',
+    '/api/auth/2fa/verify',
+    '/api/auth/2fa/challenge/setup',
     '/api/auth/register',
     '/api/auth/forgot-password',
     '/api/auth/reset-password',
+    '/api/auth/unlock',
+    '/api/auth/magic-link',
     '/api/auth/verify-reset-token',
     '/api/analytics/vitals',
     '/api/analytics/performance',
@@ -106,6 +117,12 @@ app.use((req, _res, next) => next());
 setupAuth(app);
 setupOAuth(app);
 
+// Last-access time and address for the account "Devices" list; throttled, never blocks the request
+app.use((req, _res, next) => {
+  void sessionService.touch(req);
+  next();
+});
+
 // Apply a global API rate limiter after auth so authenticated users get higher limits
 app.use('/api', globalRateLimiter);
 
@@ -257,6 +274,12 @@ async function startServer() {
 
       // Start WordPress scheduler
       wordpressScheduler.start();
+      publishScheduler.start();
+      webhookService.start();
+      accountDataService.start();
+      newsletterCampaignService.start();
+      newsletterSubscriptionService.start();
+      emailOutboxService.start();
 
       await setupVite(app, server);
     } else {
@@ -275,6 +298,12 @@ async function startServer() {
 
       // Start WordPress scheduler
       wordpressScheduler.start();
+      publishScheduler.start();
+      webhookService.start();
+      accountDataService.start();
+      newsletterCampaignService.start();
+      newsletterSubscriptionService.start();
+      emailOutboxService.start();
 
       serveStatic(app);
     }
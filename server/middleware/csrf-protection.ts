@@ -152,7 +152,10 @@ export function validateCsrfToken(options: CsrfValidationOptions = {}) {
         // Special cases for newsletter endpoints
         req.path.includes('/newsletter-direct/subscribe') ||
         req.path.includes('/newsletter/subscribe') ||
-        req.path.includes('/newsletter/unsubscribe')
+        req.path.includes('/newsletter/unsubscribe') ||
+        req.path.includes('/newsletter/confirm') ||
+        // Bounce notifications come from the mail provider, authenticated by a shared token
+        req.path.includes('/newsletter/bounces')
       )
     ) {
       console.log(`CSRF validation skipped for ${req.method} ${req.path} (matches ignore path)`);
@@ -6,13 +6,16 @@
 
 import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
+import { hasPermission, type Permission } from '@shared/permissions';
+import { accountRestriction } from '@shared/account-status';
 
-// Interface for user object with admin flag
+// Interface for user object with admin flag and role
 interface User {
   id: number;
   username: string;
   email: string;
   isAdmin?: boolean;
+  role?: string;
   [key: string]: any;
 }
 
@@ -25,6 +28,15 @@ declare global {
   }
 }
 
+declare module 'express-session' {
+  interface SessionData {
+    // Set once the session has passed a TOTP or recovery-code check
+    twoFactorVerified?: boolean;
+    // Epoch ms of the last sign-in on this session, for actions that want a recent one
+    authenticatedAt?: number;
+  }
+}
+
 /**
  * Check if user is authenticated
  * 
@@ -57,7 +69,22 @@ export function isAuthenticated(req: Request, res: Response, next: NextFunction)
  */
 export function isAdmin(req: Request, res: Response, next: NextFunction): void {
   if (req.user?.isAdmin) {
-    return next();
+    // Admin accounts must have signed in with a second factor
+    if (req.session?.twoFactorVerified) {
+      return next();
+    }
+
+    logger.warn('[Auth] Admin access without two-factor verification', {
+      path: req.path,
+      user: req.user.id,
+    });
+
+    res.status(403).json({
+      success: false,
+      code: 'TWO_FACTOR_REQUIRED',
+      message: 'Sign in again with two-factor authentication to use admin features',
+    });
+    return;
   }
   
   logger.warn('[Auth] Unauthorized admin access attempt', {
@@ -83,6 +110,81 @@ export function isAdmin(req: Request, res: Response, next: NextFunction): void {
   return;
 }
 
+/**
+ * Check that the user's role grants a permission (see shared/permissions.ts).
+ * Every permission belongs to a staff role, so the session must also have passed
+ * two-factor verification, as for admins.
+ *
+ * @param permission Permission the route needs
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    if (!hasPermission(req.user, permission)) {
+      logger.warn('[Auth] Permission denied', {
+        path: req.path,
+        user: req.user.id,
+        permission,
+      });
+      res.status(403).json({
+        success: false,
+        code: 'PERMISSION_DENIED',
+        message: "Your role doesn't allow this",
+      });
+      return;
+    }
+
+    if (!req.session?.twoFactorVerified) {
+      logger.warn('[Auth] Staff access without two-factor verification', {
+        path: req.path,
+        user: req.user.id,
+      });
+      res.status(403).json({
+        success: false,
+        code: 'TWO_FACTOR_REQUIRED',
+        message: 'Sign in again with two-factor authentication to use staff features',
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Turn away suspended and banned accounts. Guests pass, so routes that allow anonymous
+ * posting can use it too. Revoking sessions normally signs such accounts out already;
+ * this covers a session created before the restriction reached the store.
+ *
+ * @param req Express request
+ * @param res Express response
+ * @param next Next function
+ */
+export function requireActiveAccount(req: Request, res: Response, next: NextFunction): void {
+  const restriction = accountRestriction(req.user);
+  if (!restriction) {
+    return next();
+  }
+
+  logger.warn('[Auth] Restricted account attempted to post', {
+    path: req.path,
+    user: req.user?.id,
+    code: restriction.code,
+  });
+  res.status(403).json({
+    success: false,
+    code: restriction.code,
+    message: restriction.message,
+  });
+}
+
 /**
  * Require authentication middleware
  */
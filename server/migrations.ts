@@ -1,5 +1,6 @@
 import { pool, waitForPoolInitialization } from "./db-connect";
 import { log as viteLog } from "./vite";
+import { DEFAULT_MODERATION_RULE_SET } from "./utils/comment-moderation";
 
 // Create a properly typed log function for migrations
 function log(message: string, error?: unknown): void {
@@ -42,6 +43,48 @@ export async function runMigrations() {
       
       // Fix isAdminPost column naming in posts table
       await fixPostsTableColumns(client);
+
+      // Keep the full-text search documents in sync with posts
+      await ensurePostSearchTrigger(client);
+
+      // user_notifications was created before it was queried per user
+      await ensureUserNotificationIndexes(client);
+
+      // webhooks predates the delivery engine and lacks its bookkeeping columns
+      await ensureWebhookColumns(client);
+
+      // Challenge tables created by earlier schema pushes lack the voting columns
+      await ensureChallengeColumns(client);
+
+      // content_protection only held whole-content hashes before fingerprints were added
+      await ensureContentFingerprintColumns(client);
+
+      // reported_content used to trust a reporter id from the request and had no resolution trail
+      await ensureReportColumns(client);
+
+      // reading_progress allowed several rows per reader and story and had no position anchor
+      await ensureReadingProgressColumns(client);
+
+      // Annotations are comments pinned to a passage of the story
+      await ensureCommentAnchorColumn(client);
+
+      // Newsletter sign-ups wait for confirmation; the purge scans pending rows by age
+      await ensureNewsletterConfirmationDefaults(client);
+
+      // Scheduled publishing keeps the go-live time on the post
+      await ensurePostPublishAtColumn(client);
+
+      // Roles replace the single admin flag; existing admins keep full access
+      await ensureUserRoleColumn(client);
+
+      // Suspension, ban and shadow-mute state on user accounts
+      await ensureUserModerationColumns(client);
+
+      // Device and address of each session for the account "Devices" list
+      await ensureSessionDeviceColumns(client);
+
+      // Magic links for new addresses are issued before there is an account to attach them to
+      await ensureLoginTokenEmailColumn(client);
       
       log("[Migrations] Database migrations completed successfully");
       return true;
@@ -66,7 +109,7 @@ async function createMissingTables(existingTables: string[], client: any) {
         CREATE TABLE newsletter_subscriptions (
           id SERIAL PRIMARY KEY,
           email TEXT NOT NULL UNIQUE,
-          status TEXT NOT NULL DEFAULT 'active',
+          status TEXT NOT NULL DEFAULT 'pending',
           metadata JSONB DEFAULT '{}',
           created_at TIMESTAMP NOT NULL DEFAULT NOW(),
           updated_at TIMESTAMP NOT NULL DEFAULT NOW()
@@ -175,12 +218,18 @@ async function createMissingTables(existingTables: string[], client: any) {
       await client.query(`
         CREATE TABLE reading_progress (
           id SERIAL PRIMARY KEY,
-          post_id INTEGER NOT NULL REFERENCES posts(id),
-          user_id INTEGER NOT NULL REFERENCES users(id),
+          post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
           progress DECIMAL NOT NULL,
-          last_read_at TIMESTAMP NOT NULL DEFAULT NOW()
+          paragraph_index INTEGER,
+          paragraph_offset DOUBLE PRECISION,
+          scroll_offset INTEGER,
+          device_id TEXT,
+          last_read_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT reading_progress_user_post_unique UNIQUE (user_id, post_id)
         )
       `);
+      await client.query(`CREATE INDEX IF NOT EXISTS reading_progress_user_recent_idx ON reading_progress (user_id, last_read_at)`);
       log("[Migrations] reading_progress table created");
       creationAttempts['reading_progress'] = true;
     } catch (error) {
@@ -353,6 +402,890 @@ async function createMissingTables(existingTables: string[], client: any) {
     }
   }
   
+  // Create post_search_documents table if it doesn't exist
+  if (!existingTables.includes('post_search_documents')) {
+    try {
+      log("[Migrations] Creating post_search_documents table");
+      await client.query(`
+        CREATE TABLE post_search_documents (
+          post_id INTEGER PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+          document TSVECTOR NOT NULL,
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS post_search_document_idx
+        ON post_search_documents USING GIN (document)
+      `);
+      log("[Migrations] post_search_documents table created");
+      creationAttempts['post_search_documents'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating post_search_documents table:", error);
+      creationAttempts['post_search_documents'] = false;
+    }
+  }
+
+  // Create search_queries table if it doesn't exist
+  if (!existingTables.includes('search_queries')) {
+    try {
+      log("[Migrations] Creating search_queries table");
+      await client.query(`
+        CREATE TABLE search_queries (
+          id SERIAL PRIMARY KEY,
+          query TEXT NOT NULL UNIQUE,
+          search_count INTEGER NOT NULL DEFAULT 1,
+          last_result_count INTEGER NOT NULL DEFAULT 0,
+          last_searched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS search_query_count_idx ON search_queries (search_count)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS search_query_last_searched_idx ON search_queries (last_searched_at)`);
+      log("[Migrations] search_queries table created");
+      creationAttempts['search_queries'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating search_queries table:", error);
+      creationAttempts['search_queries'] = false;
+    }
+  }
+
+  // Create moderation_rule_sets table if it doesn't exist
+  if (!existingTables.includes('moderation_rule_sets')) {
+    try {
+      log("[Migrations] Creating moderation_rule_sets table");
+      await client.query(`
+        CREATE TABLE moderation_rule_sets (
+          id SERIAL PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          context TEXT NOT NULL DEFAULT 'comment',
+          enabled BOOLEAN NOT NULL DEFAULT true,
+          priority INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] moderation_rule_sets table created");
+      creationAttempts['moderation_rule_sets'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating moderation_rule_sets table:", error);
+      creationAttempts['moderation_rule_sets'] = false;
+    }
+  }
+
+  // Create moderation_rules table if it doesn't exist
+  if (!existingTables.includes('moderation_rules')) {
+    try {
+      log("[Migrations] Creating moderation_rules table");
+      await client.query(`
+        CREATE TABLE moderation_rules (
+          id SERIAL PRIMARY KEY,
+          rule_set_id INTEGER NOT NULL REFERENCES moderation_rule_sets(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          action TEXT NOT NULL,
+          config JSONB NOT NULL DEFAULT '{}',
+          enabled BOOLEAN NOT NULL DEFAULT true,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS moderation_rule_set_idx ON moderation_rules (rule_set_id)`);
+      log("[Migrations] moderation_rules table created");
+      creationAttempts['moderation_rules'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating moderation_rules table:", error);
+      creationAttempts['moderation_rules'] = false;
+    }
+  }
+
+  // Create moderation_allowlist table if it doesn't exist
+  if (!existingTables.includes('moderation_allowlist')) {
+    try {
+      log("[Migrations] Creating moderation_allowlist table");
+      await client.query(`
+        CREATE TABLE moderation_allowlist (
+          id SERIAL PRIMARY KEY,
+          term TEXT NOT NULL,
+          context TEXT NOT NULL DEFAULT 'global',
+          note TEXT,
+          created_by INTEGER REFERENCES users(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE (term, context)
+        )
+      `);
+      log("[Migrations] moderation_allowlist table created");
+      creationAttempts['moderation_allowlist'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating moderation_allowlist table:", error);
+      creationAttempts['moderation_allowlist'] = false;
+    }
+  }
+
+  // Create moderation_decisions table if it doesn't exist
+  if (!existingTables.includes('moderation_decisions')) {
+    try {
+      log("[Migrations] Creating moderation_decisions table");
+      await client.query(`
+        CREATE TABLE moderation_decisions (
+          id SERIAL PRIMARY KEY,
+          content_type TEXT NOT NULL,
+          content_id INTEGER,
+          rule_id INTEGER REFERENCES moderation_rules(id) ON DELETE SET NULL,
+          rule_name TEXT,
+          action TEXT NOT NULL,
+          source TEXT NOT NULL DEFAULT 'automatic',
+          status TEXT NOT NULL DEFAULT 'applied',
+          matched TEXT[],
+          reason TEXT,
+          content_snapshot TEXT,
+          actor_key TEXT,
+          reviewer_id INTEGER REFERENCES users(id),
+          review_note TEXT,
+          reviewed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS moderation_decision_content_idx ON moderation_decisions (content_type, content_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS moderation_decision_status_idx ON moderation_decisions (status)`);
+      log("[Migrations] moderation_decisions table created");
+      creationAttempts['moderation_decisions'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating moderation_decisions table:", error);
+      creationAttempts['moderation_decisions'] = false;
+    }
+  }
+
+  // Create wordpress_sync_runs table if it doesn't exist
+  if (!existingTables.includes('wordpress_sync_runs')) {
+    try {
+      log("[Migrations] Creating wordpress_sync_runs table");
+      await client.query(`
+        CREATE TABLE wordpress_sync_runs (
+          id SERIAL PRIMARY KEY,
+          trigger TEXT NOT NULL,
+          mode TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'running',
+          source_url TEXT NOT NULL,
+          cursor_start TIMESTAMP,
+          cursor_end TIMESTAMP,
+          created_count INTEGER NOT NULL DEFAULT 0,
+          updated_count INTEGER NOT NULL DEFAULT 0,
+          unchanged_count INTEGER NOT NULL DEFAULT 0,
+          removed_count INTEGER NOT NULL DEFAULT 0,
+          failed_count INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          retry_of_run_id INTEGER,
+          started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          finished_at TIMESTAMP
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS wordpress_sync_run_started_idx ON wordpress_sync_runs (started_at)`);
+      log("[Migrations] wordpress_sync_runs table created");
+      creationAttempts['wordpress_sync_runs'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating wordpress_sync_runs table:", error);
+      creationAttempts['wordpress_sync_runs'] = false;
+    }
+  }
+
+  // Create wordpress_sync_items table if it doesn't exist
+  if (!existingTables.includes('wordpress_sync_items')) {
+    try {
+      log("[Migrations] Creating wordpress_sync_items table");
+      await client.query(`
+        CREATE TABLE wordpress_sync_items (
+          id SERIAL PRIMARY KEY,
+          run_id INTEGER NOT NULL REFERENCES wordpress_sync_runs(id) ON DELETE CASCADE,
+          wordpress_id INTEGER NOT NULL,
+          post_id INTEGER REFERENCES posts(id) ON DELETE SET NULL,
+          title TEXT,
+          outcome TEXT NOT NULL,
+          error TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS wordpress_sync_item_run_idx ON wordpress_sync_items (run_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS wordpress_sync_item_outcome_idx ON wordpress_sync_items (outcome)`);
+      log("[Migrations] wordpress_sync_items table created");
+      creationAttempts['wordpress_sync_items'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating wordpress_sync_items table:", error);
+      creationAttempts['wordpress_sync_items'] = false;
+    }
+  }
+
+  // Create user_two_factor table if it doesn't exist
+  if (!existingTables.includes('user_two_factor')) {
+    try {
+      log("[Migrations] Creating user_two_factor table");
+      await client.query(`
+        CREATE TABLE user_two_factor (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          secret TEXT NOT NULL,
+          enabled_at TIMESTAMP,
+          last_used_step INTEGER,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] user_two_factor table created");
+      creationAttempts['user_two_factor'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating user_two_factor table:", error);
+      creationAttempts['user_two_factor'] = false;
+    }
+  }
+
+  // Create two_factor_recovery_codes table if it doesn't exist
+  if (!existingTables.includes('two_factor_recovery_codes')) {
+    try {
+      log("[Migrations] Creating two_factor_recovery_codes table");
+      await client.query(`
+        CREATE TABLE two_factor_recovery_codes (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          code_hash TEXT NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS two_factor_recovery_codes_user_idx ON two_factor_recovery_codes (user_id)`);
+      log("[Migrations] two_factor_recovery_codes table created");
+      creationAttempts['two_factor_recovery_codes'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating two_factor_recovery_codes table:", error);
+      creationAttempts['two_factor_recovery_codes'] = false;
+    }
+  }
+
+  // Create two_factor_challenges table if it doesn't exist
+  if (!existingTables.includes('two_factor_challenges')) {
+    try {
+      log("[Migrations] Creating two_factor_challenges table");
+      await client.query(`
+        CREATE TABLE two_factor_challenges (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          token_hash TEXT NOT NULL UNIQUE,
+          purpose TEXT NOT NULL DEFAULT 'login',
+          remember_me BOOLEAN NOT NULL DEFAULT FALSE,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          expires_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] two_factor_challenges table created");
+      creationAttempts['two_factor_challenges'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating two_factor_challenges table:", error);
+      creationAttempts['two_factor_challenges'] = false;
+    }
+  }
+
+  // Create theme_follows table if it doesn't exist
+  if (!existingTables.includes('theme_follows')) {
+    try {
+      log("[Migrations] Creating theme_follows table");
+      await client.query(`
+        CREATE TABLE theme_follows (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          theme_category TEXT NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE(user_id, theme_category)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS theme_follows_theme_idx ON theme_follows (theme_category)`);
+      log("[Migrations] theme_follows table created");
+      creationAttempts['theme_follows'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating theme_follows table:", error);
+      creationAttempts['theme_follows'] = false;
+    }
+  }
+
+  // Create webhooks table if it doesn't exist
+  if (!existingTables.includes('webhooks')) {
+    try {
+      log("[Migrations] Creating webhooks table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id SERIAL PRIMARY KEY,
+          name TEXT,
+          url TEXT NOT NULL,
+          events TEXT[] NOT NULL,
+          format TEXT NOT NULL DEFAULT 'json',
+          secret TEXT,
+          active BOOLEAN NOT NULL DEFAULT TRUE,
+          consecutive_failures INTEGER NOT NULL DEFAULT 0,
+          last_delivery_at TIMESTAMP,
+          last_success_at TIMESTAMP,
+          disabled_at TIMESTAMP,
+          disabled_reason TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] webhooks table created");
+      creationAttempts['webhooks'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating webhooks table:", error);
+      creationAttempts['webhooks'] = false;
+    }
+  }
+
+  // Create webhook_deliveries table if it doesn't exist
+  if (!existingTables.includes('webhook_deliveries')) {
+    try {
+      log("[Migrations] Creating webhook_deliveries table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id SERIAL PRIMARY KEY,
+          webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload JSONB NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          last_attempt_at TIMESTAMP,
+          response_status INTEGER,
+          response_body TEXT,
+          error TEXT,
+          delivered_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_created_idx ON webhook_deliveries (webhook_id, created_at)`);
+      log("[Migrations] webhook_deliveries table created");
+      creationAttempts['webhook_deliveries'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating webhook_deliveries table:", error);
+      creationAttempts['webhook_deliveries'] = false;
+    }
+  }
+
+  // Create writing_challenges table if it doesn't exist
+  if (!existingTables.includes('writing_challenges')) {
+    try {
+      log("[Migrations] Creating writing_challenges table");
+      await client.query(`
+        CREATE TABLE writing_challenges (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL,
+          start_date TIMESTAMP NOT NULL,
+          end_date TIMESTAMP NOT NULL,
+          voting_end_date TIMESTAMP,
+          created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] writing_challenges table created");
+      creationAttempts['writing_challenges'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating writing_challenges table:", error);
+      creationAttempts['writing_challenges'] = false;
+    }
+  }
+
+  // Create challenge_entries table if it doesn't exist
+  if (!existingTables.includes('challenge_entries')) {
+    try {
+      log("[Migrations] Creating challenge_entries table");
+      await client.query(`
+        CREATE TABLE challenge_entries (
+          id SERIAL PRIMARY KEY,
+          challenge_id INTEGER NOT NULL REFERENCES writing_challenges(id) ON DELETE CASCADE,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          title TEXT,
+          content TEXT NOT NULL,
+          promoted_post_id INTEGER REFERENCES posts(id) ON DELETE SET NULL,
+          submission_date TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP,
+          UNIQUE (challenge_id, user_id)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS challenge_entries_challenge_idx ON challenge_entries (challenge_id)`);
+      log("[Migrations] challenge_entries table created");
+      creationAttempts['challenge_entries'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating challenge_entries table:", error);
+      creationAttempts['challenge_entries'] = false;
+    }
+  }
+
+  // Create challenge_votes table if it doesn't exist
+  if (!existingTables.includes('challenge_votes')) {
+    try {
+      log("[Migrations] Creating challenge_votes table");
+      await client.query(`
+        CREATE TABLE challenge_votes (
+          id SERIAL PRIMARY KEY,
+          challenge_id INTEGER NOT NULL REFERENCES writing_challenges(id) ON DELETE CASCADE,
+          entry_id INTEGER NOT NULL REFERENCES challenge_entries(id) ON DELETE CASCADE,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE (challenge_id, user_id)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS challenge_votes_entry_idx ON challenge_votes (entry_id)`);
+      log("[Migrations] challenge_votes table created");
+      creationAttempts['challenge_votes'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating challenge_votes table:", error);
+      creationAttempts['challenge_votes'] = false;
+    }
+  }
+
+  // Create content_protection table if it doesn't exist
+  if (!existingTables.includes('content_protection')) {
+    try {
+      log("[Migrations] Creating content_protection table");
+      await client.query(`
+        CREATE TABLE content_protection (
+          id SERIAL PRIMARY KEY,
+          post_id INTEGER UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+          content TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          signature JSONB,
+          bands TEXT[],
+          shingle_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP
+        )
+      `);
+      log("[Migrations] content_protection table created");
+      creationAttempts['content_protection'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating content_protection table:", error);
+      creationAttempts['content_protection'] = false;
+    }
+  }
+
+  // Create similarity_reports table if it doesn't exist
+  if (!existingTables.includes('similarity_reports')) {
+    try {
+      log("[Migrations] Creating similarity_reports table");
+      await client.query(`
+        CREATE TABLE similarity_reports (
+          id SERIAL PRIMARY KEY,
+          post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+          matched_post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+          score DOUBLE PRECISION NOT NULL,
+          containment DOUBLE PRECISION NOT NULL,
+          passages JSONB NOT NULL DEFAULT '[]',
+          held BOOLEAN NOT NULL DEFAULT false,
+          status TEXT NOT NULL DEFAULT 'pending',
+          reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          reviewed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          UNIQUE (post_id, matched_post_id)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS similarity_reports_status_idx ON similarity_reports (status, created_at)`);
+      log("[Migrations] similarity_reports table created");
+      creationAttempts['similarity_reports'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating similarity_reports table:", error);
+      creationAttempts['similarity_reports'] = false;
+    }
+  }
+
+  // Create reported_content table if it doesn't exist
+  if (!existingTables.includes('reported_content')) {
+    try {
+      log("[Migrations] Creating reported_content table");
+      await client.query(`
+        CREATE TABLE reported_content (
+          id SERIAL PRIMARY KEY,
+          content_type TEXT NOT NULL,
+          content_id INTEGER NOT NULL,
+          reporter_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          reporter_key TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          note TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          resolution TEXT,
+          resolution_note TEXT,
+          resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          resolved_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT reported_content_reporter_unique UNIQUE (content_type, content_id, reporter_key)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS reported_content_status_idx ON reported_content (status, content_type, content_id)`);
+      log("[Migrations] reported_content table created");
+      creationAttempts['reported_content'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating reported_content table:", error);
+      creationAttempts['reported_content'] = false;
+    }
+  }
+
+  // Create data_export_requests table if it doesn't exist
+  if (!existingTables.includes('data_export_requests')) {
+    try {
+      log("[Migrations] Creating data_export_requests table");
+      await client.query(`
+        CREATE TABLE data_export_requests (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'pending',
+          archive BYTEA,
+          archive_size INTEGER,
+          error TEXT,
+          requested_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          completed_at TIMESTAMP,
+          expires_at TIMESTAMP,
+          downloaded_at TIMESTAMP
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS data_export_user_requested_idx ON data_export_requests (user_id, requested_at)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS data_export_status_idx ON data_export_requests (status)`);
+      log("[Migrations] data_export_requests table created");
+      creationAttempts['data_export_requests'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating data_export_requests table:", error);
+      creationAttempts['data_export_requests'] = false;
+    }
+  }
+
+  // Create account_deletion_requests table if it doesn't exist
+  if (!existingTables.includes('account_deletion_requests')) {
+    try {
+      log("[Migrations] Creating account_deletion_requests table");
+      await client.query(`
+        CREATE TABLE account_deletion_requests (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'scheduled',
+          comments_action TEXT NOT NULL DEFAULT 'anonymize',
+          reason TEXT,
+          requested_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          scheduled_for TIMESTAMP NOT NULL,
+          cancelled_at TIMESTAMP,
+          completed_at TIMESTAMP
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS account_deletion_user_status_idx ON account_deletion_requests (user_id, status)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS account_deletion_due_idx ON account_deletion_requests (status, scheduled_for)`);
+      log("[Migrations] account_deletion_requests table created");
+      creationAttempts['account_deletion_requests'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating account_deletion_requests table:", error);
+      creationAttempts['account_deletion_requests'] = false;
+    }
+  }
+
+  // Create newsletter_campaigns table if it doesn't exist
+  if (!existingTables.includes('newsletter_campaigns')) {
+    try {
+      log("[Migrations] Creating newsletter_campaigns table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS newsletter_campaigns (
+          id SERIAL PRIMARY KEY,
+          kind TEXT NOT NULL DEFAULT 'custom',
+          subject TEXT NOT NULL,
+          preview_text TEXT,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'draft',
+          scheduled_for TIMESTAMP,
+          created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          recipient_count INTEGER NOT NULL DEFAULT 0,
+          sent_count INTEGER NOT NULL DEFAULT 0,
+          failed_count INTEGER NOT NULL DEFAULT 0,
+          started_at TIMESTAMP,
+          completed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS newsletter_campaigns_due_idx ON newsletter_campaigns(status, scheduled_for)`);
+      log("[Migrations] newsletter_campaigns table created");
+      creationAttempts['newsletter_campaigns'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating newsletter_campaigns table:", error);
+      creationAttempts['newsletter_campaigns'] = false;
+    }
+  }
+
+  // Create newsletter_sends table if it doesn't exist
+  if (!existingTables.includes('newsletter_sends')) {
+    try {
+      log("[Migrations] Creating newsletter_sends table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS newsletter_sends (
+          id SERIAL PRIMARY KEY,
+          campaign_id INTEGER NOT NULL REFERENCES newsletter_campaigns(id) ON DELETE CASCADE,
+          subscription_id INTEGER NOT NULL REFERENCES newsletter_subscriptions(id) ON DELETE CASCADE,
+          email TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          message_id TEXT,
+          error TEXT,
+          sent_at TIMESTAMP,
+          bounced_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT newsletter_sends_campaign_subscription_unique UNIQUE (campaign_id, subscription_id)
+        );
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS newsletter_sends_campaign_status_idx ON newsletter_sends(campaign_id, status)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS newsletter_sends_email_idx ON newsletter_sends(email)`);
+      log("[Migrations] newsletter_sends table created");
+      creationAttempts['newsletter_sends'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating newsletter_sends table:", error);
+      creationAttempts['newsletter_sends'] = false;
+    }
+  }
+
+  // Create email_outbox table if it doesn't exist
+  if (!existingTables.includes('email_outbox')) {
+    try {
+      log("[Migrations] Creating email_outbox table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS email_outbox (
+          id SERIAL PRIMARY KEY,
+          category TEXT NOT NULL DEFAULT 'general',
+          recipients JSONB NOT NULL,
+          subject TEXT NOT NULL,
+          html TEXT,
+          text TEXT,
+          from_address TEXT,
+          reply_to TEXT,
+          headers JSONB,
+          attachments JSONB,
+          reference TEXT,
+          status TEXT NOT NULL DEFAULT 'queued',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 5,
+          next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          last_attempt_at TIMESTAMP,
+          provider TEXT,
+          message_id TEXT,
+          last_error TEXT,
+          attempt_log JSONB NOT NULL DEFAULT '[]'::jsonb,
+          resent_from_id INTEGER,
+          sent_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS email_outbox_due_idx ON email_outbox (status, next_attempt_at)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS email_outbox_created_idx ON email_outbox (created_at)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS email_outbox_reference_idx ON email_outbox (reference)`);
+      log("[Migrations] email_outbox table created");
+      creationAttempts['email_outbox'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating email_outbox table:", error);
+      creationAttempts['email_outbox'] = false;
+    }
+  }
+
+  // Create post_revisions table if it doesn't exist
+  if (!existingTables.includes('post_revisions')) {
+    try {
+      log("[Migrations] Creating post_revisions table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS post_revisions (
+          id SERIAL PRIMARY KEY,
+          post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+          revision_number INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          excerpt TEXT,
+          theme_category TEXT,
+          editor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          source TEXT NOT NULL DEFAULT 'edit',
+          restored_from_id INTEGER,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT post_revisions_post_number_unique UNIQUE (post_id, revision_number)
+        )
+      `);
+      log("[Migrations] post_revisions table created");
+      creationAttempts['post_revisions'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating post_revisions table:", error);
+      creationAttempts['post_revisions'] = false;
+    }
+  }
+
+  // Create story_drafts table if it doesn't exist
+  if (!existingTables.includes('story_drafts')) {
+    try {
+      log("[Migrations] Creating story_drafts table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS story_drafts (
+          id SERIAL PRIMARY KEY,
+          author_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          post_id INTEGER REFERENCES posts(id) ON DELETE CASCADE,
+          title TEXT NOT NULL DEFAULT '',
+          content TEXT NOT NULL DEFAULT '',
+          theme_category TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT story_drafts_author_post_unique UNIQUE (author_id, post_id)
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS story_drafts_author_updated_idx ON story_drafts (author_id, updated_at)`);
+      log("[Migrations] story_drafts table created");
+      creationAttempts['story_drafts'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating story_drafts table:", error);
+      creationAttempts['story_drafts'] = false;
+    }
+  }
+
+  // Create story_submissions table if it doesn't exist
+  if (!existingTables.includes('story_submissions')) {
+    try {
+      log("[Migrations] Creating story_submissions table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS story_submissions (
+          id SERIAL PRIMARY KEY,
+          post_id INTEGER NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+          author_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'submitted',
+          reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          scheduled_for TIMESTAMP,
+          submitted_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS story_submissions_status_updated_idx ON story_submissions (status, updated_at)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS story_submissions_author_idx ON story_submissions (author_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS story_submissions_reviewer_idx ON story_submissions (reviewer_id)`);
+      log("[Migrations] story_submissions table created");
+      creationAttempts['story_submissions'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating story_submissions table:", error);
+      creationAttempts['story_submissions'] = false;
+    }
+  }
+
+  // Create submission_notes table if it doesn't exist
+  if (!existingTables.includes('submission_notes')) {
+    try {
+      log("[Migrations] Creating submission_notes table");
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS submission_notes (
+          id SERIAL PRIMARY KEY,
+          submission_id INTEGER NOT NULL REFERENCES story_submissions(id) ON DELETE CASCADE,
+          author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          body TEXT NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS submission_notes_submission_idx ON submission_notes (submission_id, created_at)`);
+      log("[Migrations] submission_notes table created");
+      creationAttempts['submission_notes'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating submission_notes table:", error);
+      creationAttempts['submission_notes'] = false;
+    }
+  }
+
+  // Create known_devices table if it doesn't exist
+  if (!existingTables.includes('known_devices')) {
+    try {
+      log("[Migrations] Creating known_devices table");
+      await client.query(`
+        CREATE TABLE known_devices (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          device_hash TEXT NOT NULL,
+          user_agent TEXT,
+          first_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          CONSTRAINT known_devices_user_device_unique UNIQUE (user_id, device_hash)
+        )
+      `);
+      log("[Migrations] known_devices table created");
+      creationAttempts['known_devices'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating known_devices table:", error);
+      creationAttempts['known_devices'] = false;
+    }
+  }
+
+  // Create login_attempts table if it doesn't exist
+  if (!existingTables.includes('login_attempts')) {
+    try {
+      log("[Migrations] Creating login_attempts table");
+      await client.query(`
+        CREATE TABLE login_attempts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          email TEXT NOT NULL,
+          ip_address TEXT,
+          user_agent TEXT,
+          country TEXT,
+          success BOOLEAN NOT NULL,
+          reason TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS login_attempts_user_created_idx ON login_attempts (user_id, created_at)`);
+      log("[Migrations] login_attempts table created");
+      creationAttempts['login_attempts'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating login_attempts table:", error);
+      creationAttempts['login_attempts'] = false;
+    }
+  }
+
+  // Create account_lockouts table if it doesn't exist
+  if (!existingTables.includes('account_lockouts')) {
+    try {
+      log("[Migrations] Creating account_lockouts table");
+      await client.query(`
+        CREATE TABLE account_lockouts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          failed_attempts INTEGER NOT NULL DEFAULT 0,
+          last_failed_at TIMESTAMP,
+          locked_until TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] account_lockouts table created");
+      creationAttempts['account_lockouts'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating account_lockouts table:", error);
+      creationAttempts['account_lockouts'] = false;
+    }
+  }
+
+  // Create login_tokens table if it doesn't exist
+  if (!existingTables.includes('login_tokens')) {
+    try {
+      log("[Migrations] Creating login_tokens table");
+      await client.query(`
+        CREATE TABLE login_tokens (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          purpose TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          remember_me BOOLEAN NOT NULL DEFAULT false,
+          expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      log("[Migrations] login_tokens table created");
+      creationAttempts['login_tokens'] = true;
+    } catch (error) {
+      log("[Migrations] Error creating login_tokens table:", error);
+      creationAttempts['login_tokens'] = false;
+    }
+  }
+
+  // Seed the default rule set the first time the moderation tables are created
+  if (creationAttempts['moderation_rule_sets'] && creationAttempts['moderation_rules']) {
+    await seedModerationDefaults(client);
+  }
+  
   // Log migration summary
   const successful = Object.entries(creationAttempts).filter(([_, success]) => success).map(([table]) => table);
   const failed = Object.entries(creationAttempts).filter(([_, success]) => !success).map(([table]) => table);
@@ -369,6 +1302,37 @@ async function createMissingTables(existingTables: string[], client: any) {
   // This implements the most critical tables first
 }
 
+/**
+ * Insert the built-in moderation rule set and allowlist
+ */
+async function seedModerationDefaults(client: any) {
+  try {
+    const { name, description, context, rules, allowlist } = DEFAULT_MODERATION_RULE_SET;
+    const ruleSet = await client.query(
+      `INSERT INTO moderation_rule_sets (name, description, context) VALUES ($1, $2, $3) RETURNING id`,
+      [name, description, context]
+    );
+    const ruleSetId = ruleSet.rows[0].id;
+
+    for (const rule of rules) {
+      await client.query(
+        `INSERT INTO moderation_rules (rule_set_id, name, type, action, config) VALUES ($1, $2, $3, $4, $5)`,
+        [ruleSetId, rule.name, rule.type, rule.action, JSON.stringify(rule.config)]
+      );
+    }
+
+    for (const term of allowlist) {
+      await client.query(
+        `INSERT INTO moderation_allowlist (term, context, note) VALUES ($1, 'global', 'Default horror vocabulary') ON CONFLICT DO NOTHING`,
+        [term]
+      );
+    }
+    log("[Migrations] Seeded default moderation rules");
+  } catch (error) {
+    log("[Migrations] Error seeding default moderation rules:", error);
+  }
+}
+
 /**
  * Fix the isAdminPost column in the posts table
  * This function checks if is_admin_post column exists and renames it to isAdminPost
@@ -429,4 +1393,295 @@ async function fixPostsTableColumns(client: any) {
     log("[Migrations] Error fixing posts table columns:", error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Install the trigger that maintains post_search_documents
+ * Every insert or update of a post's title, excerpt or content rebuilds its weighted
+ * tsvector, and posts that predate the trigger are backfilled
+ */
+async function ensurePostSearchTrigger(client: any) {
+  try {
+    log("[Migrations] Ensuring post search trigger");
+
+    await client.query(`
+      CREATE OR REPLACE FUNCTION posts_search_document_refresh() RETURNS trigger AS $$
+      BEGIN
+        INSERT INTO post_search_documents (post_id, document, updated_at)
+        VALUES (
+          NEW.id,
+          setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(NEW.excerpt, '')), 'B') ||
+          setweight(to_tsvector('english', regexp_replace(coalesce(NEW.content, ''), '<[^>]+>', ' ', 'g')), 'C'),
+          NOW()
+        )
+        ON CONFLICT (post_id) DO UPDATE
+          SET document = EXCLUDED.document, updated_at = EXCLUDED.updated_at;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+
+    await client.query(`DROP TRIGGER IF EXISTS posts_search_document_trigger ON posts`);
+    await client.query(`
+      CREATE TRIGGER posts_search_document_trigger
+      AFTER INSERT OR UPDATE OF title, excerpt, content ON posts
+      FOR EACH ROW EXECUTE FUNCTION posts_search_document_refresh()
+    `);
+
+    // Backfill posts that were created before the trigger existed
+    const backfill = await client.query(`
+      INSERT INTO post_search_documents (post_id, document)
+      SELECT p.id,
+        setweight(to_tsvector('english', coalesce(p.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(p.excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', regexp_replace(coalesce(p.content, ''), '<[^>]+>', ' ', 'g')), 'C')
+      FROM posts p
+      WHERE NOT EXISTS (SELECT 1 FROM post_search_documents d WHERE d.post_id = p.id)
+    `);
+    if (backfill.rowCount) {
+      log(`[Migrations] Indexed ${backfill.rowCount} posts for full-text search`);
+    }
+
+    // Comments are searched with an expression index rather than a stored vector
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS comment_search_idx
+      ON comments USING GIN (to_tsvector('english', content))
+    `);
+
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring post search trigger:", error);
+    return false;
+  }
+}
+
+async function ensureUserNotificationIndexes(client: any) {
+  try {
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS user_notifications_user_created_idx
+      ON user_notifications (user_id, created_at DESC)
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS user_notifications_unread_idx
+      ON user_notifications (user_id) WHERE is_read = false
+    `);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring user notification indexes:", error);
+    return false;
+  }
+}
+
+async function ensureWebhookColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE webhooks
+        ADD COLUMN IF NOT EXISTS name TEXT,
+        ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'json',
+        ADD COLUMN IF NOT EXISTS secret TEXT,
+        ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS last_delivery_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS disabled_reason TEXT
+    `);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring webhook columns:", error);
+    return false;
+  }
+}
+
+async function ensurePostPublishAtColumn(client: any) {
+  try {
+    await client.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP`);
+    await client.query(`CREATE INDEX IF NOT EXISTS post_publish_at_idx ON posts (publish_at)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring post publish_at column:", error);
+    return false;
+  }
+}
+
+async function ensureUserRoleColumn(client: any) {
+  try {
+    await client.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'reader'`);
+    await client.query(`UPDATE users SET role = 'admin' WHERE is_admin = true AND role = 'reader'`);
+    await client.query(`CREATE INDEX IF NOT EXISTS user_role_idx ON users (role)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring user role column:", error);
+    return false;
+  }
+}
+
+async function ensureUserModerationColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS banned_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS shadow_muted BOOLEAN NOT NULL DEFAULT false
+    `);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring user moderation columns:", error);
+    return false;
+  }
+}
+
+async function ensureSessionDeviceColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE IF EXISTS sessions
+        ADD COLUMN IF NOT EXISTS user_agent TEXT,
+        ADD COLUMN IF NOT EXISTS ip_address TEXT
+    `);
+    await client.query(`CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions (user_id)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring session device columns:", error);
+    return false;
+  }
+}
+
+async function ensureLoginTokenEmailColumn(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE IF EXISTS login_tokens
+        ADD COLUMN IF NOT EXISTS email TEXT,
+        ALTER COLUMN user_id DROP NOT NULL
+    `);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring login token email column:", error);
+    return false;
+  }
+}
+
+async function ensureChallengeColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE writing_challenges
+        ADD COLUMN IF NOT EXISTS voting_end_date TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+    `);
+    await client.query(`
+      ALTER TABLE challenge_entries
+        ADD COLUMN IF NOT EXISTS title TEXT,
+        ADD COLUMN IF NOT EXISTS promoted_post_id INTEGER REFERENCES posts(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS challenge_entries_user_unique ON challenge_entries (challenge_id, user_id)
+    `);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring challenge columns:", error);
+    return false;
+  }
+}
+
+async function ensureContentFingerprintColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE content_protection
+        ADD COLUMN IF NOT EXISTS post_id INTEGER UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS signature JSONB,
+        ADD COLUMN IF NOT EXISTS bands TEXT[],
+        ADD COLUMN IF NOT EXISTS shingle_count INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP
+    `);
+    await client.query(`CREATE INDEX IF NOT EXISTS content_protection_hash_idx ON content_protection (hash)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS content_protection_bands_idx ON content_protection USING GIN (bands)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring content fingerprint columns:", error);
+    return false;
+  }
+}
+
+async function ensureReportColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE reported_content
+        ADD COLUMN IF NOT EXISTS reporter_key TEXT,
+        ADD COLUMN IF NOT EXISTS note TEXT,
+        ADD COLUMN IF NOT EXISTS resolution TEXT,
+        ADD COLUMN IF NOT EXISTS resolution_note TEXT,
+        ADD COLUMN IF NOT EXISTS resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP
+    `);
+    await client.query(`ALTER TABLE reported_content ALTER COLUMN reporter_id DROP NOT NULL`);
+    // Older rows keep their own key so they never collide with each other
+    await client.query(`
+      UPDATE reported_content
+      SET reporter_key = COALESCE('user:' || reporter_id::text, 'legacy:' || id::text) || CASE
+        WHEN EXISTS (
+          SELECT 1 FROM reported_content other
+          WHERE other.content_type = reported_content.content_type
+            AND other.content_id = reported_content.content_id
+            AND other.reporter_id = reported_content.reporter_id
+            AND other.id < reported_content.id
+        ) THEN ':' || id::text ELSE '' END
+      WHERE reporter_key IS NULL
+    `);
+    await client.query(`ALTER TABLE reported_content ALTER COLUMN reporter_key SET NOT NULL`);
+    await client.query(`UPDATE reported_content SET status = 'resolved', resolution = 'remove_content' WHERE status = 'rejected'`);
+    await client.query(`UPDATE reported_content SET status = 'dismissed', resolution = 'dismiss' WHERE status = 'approved'`);
+    await client.query(`CREATE UNIQUE INDEX IF NOT EXISTS reported_content_reporter_unique ON reported_content (content_type, content_id, reporter_key)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS reported_content_status_idx ON reported_content (status, content_type, content_id)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring report columns:", error);
+    return false;
+  }
+}
+
+async function ensureReadingProgressColumns(client: any) {
+  try {
+    await client.query(`
+      ALTER TABLE reading_progress
+        ADD COLUMN IF NOT EXISTS paragraph_index INTEGER,
+        ADD COLUMN IF NOT EXISTS paragraph_offset DOUBLE PRECISION,
+        ADD COLUMN IF NOT EXISTS scroll_offset INTEGER,
+        ADD COLUMN IF NOT EXISTS device_id TEXT
+    `);
+    // Keep only the most recent row per reader and story before enforcing uniqueness
+    await client.query(`
+      DELETE FROM reading_progress older
+      USING reading_progress newer
+      WHERE older.user_id = newer.user_id
+        AND older.post_id = newer.post_id
+        AND (older.last_read_at, older.id) < (newer.last_read_at, newer.id)
+    `);
+    await client.query(`CREATE UNIQUE INDEX IF NOT EXISTS reading_progress_user_post_unique ON reading_progress (user_id, post_id)`);
+    await client.query(`CREATE INDEX IF NOT EXISTS reading_progress_user_recent_idx ON reading_progress (user_id, last_read_at)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring reading progress columns:", error);
+    return false;
+  }
+}
+
+async function ensureCommentAnchorColumn(client: any) {
+  try {
+    await client.query(`ALTER TABLE comments ADD COLUMN IF NOT EXISTS anchor JSONB`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring comment anchor column:", error);
+    return false;
+  }
+}
+
+async function ensureNewsletterConfirmationDefaults(client: any) {
+  try {
+    await client.query(`ALTER TABLE newsletter_subscriptions ALTER COLUMN status SET DEFAULT 'pending'`);
+    await client.query(`CREATE INDEX IF NOT EXISTS newsletter_subscriptions_status_updated_idx ON newsletter_subscriptions (status, updated_at)`);
+    return true;
+  } catch (error) {
+    log("[Migrations] Error ensuring newsletter confirmation defaults:", error);
+    return false;
+  }
+}
@@ -3,6 +3,9 @@ import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
 import * as bcrypt from 'bcryptjs';
 import { storage } from './storage';
+import { twoFactorService } from './services/two-factor-service';
+import { accountRestriction } from '@shared/account-status';
+import { sessionService } from './services/session-service';
 import { v4 as uuidv4 } from 'uuid';
 
 // Define metadata types
@@ -149,14 +152,34 @@ export function setupOAuth(app: Express) {
           }
         });
       }
+
+      const restriction = accountRestriction(user);
+      if (restriction) {
+        res.status(403).json({ error: restriction.message, code: restriction.code });
+        return;
+      }
       
+      // Accounts with two-factor authentication (and all admins) finish signing in via /api/auth/2fa/verify
+      const twoFactorPurpose = await twoFactorService.requiredChallenge(user);
+      if (twoFactorPurpose) {
+        const challenge = await twoFactorService.createChallenge(user.id, twoFactorPurpose, false);
+        res.status(200).json({
+          twoFactorRequired: twoFactorPurpose === 'login',
+          twoFactorSetupRequired: twoFactorPurpose === 'setup',
+          challengeToken: challenge.token,
+          expiresAt: challenge.expiresAt.toISOString()
+        });
+        return;
+      }
+
       // Log in the user
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) {
           console.error('Login error:', err);
           res.status(500).json({ error: 'Authentication error' });
           return;
         }
+        await sessionService.recordSignIn(req, res, user);
         
         // Return user data without sensitive information
         // Extract profile data from metadata since those columns don't exist
@@ -0,0 +1,52 @@
+import cron from 'node-cron';
+import { publicationService } from './services/publication-service';
+import { editorialService } from './services/editorial-service';
+
+export class PublishScheduler {
+  private publishJob: cron.ScheduledTask | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.publishJob) {
+      console.log('[Publish Scheduler] Already running');
+      return;
+    }
+
+    // Stories go live within a minute of their publish time
+    this.publishJob = cron.schedule('* * * * *', async () => {
+      if (this.running) {
+        return;
+      }
+      this.running = true;
+
+      try {
+        const published = await publicationService.publishDue();
+        for (const post of published) {
+          await editorialService.markPublished(post.id, null);
+        }
+        if (published.length) {
+          console.log(`[Publish Scheduler] Published ${published.length} scheduled ${published.length === 1 ? 'story' : 'stories'}`);
+        }
+      } catch (error) {
+        console.error('[Publish Scheduler] Run failed:', error);
+      } finally {
+        this.running = false;
+      }
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+
+    console.log('[Publish Scheduler] Started - will publish due stories every minute');
+  }
+
+  stop(): void {
+    if (this.publishJob) {
+      this.publishJob.stop();
+      this.publishJob = null;
+      console.log('[Publish Scheduler] Stopped');
+    }
+  }
+}
+
+export const publishScheduler = new PublishScheduler();
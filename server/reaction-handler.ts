@@ -1,14 +1,16 @@
 /**
  * Reaction Handler for Posts
  * 
- * This file implements session-based and user-based reactions (likes/dislikes)
- * for posts without requiring CSRF validation.
+ * This file implements session-based reactions (likes/dislikes) for posts.
+ * Sending the same reaction twice removes it; new totals are pushed to live readers.
  */
 
 import { Request, Response } from 'express';
 import { db } from './db';
+import { storage } from './storage';
 import { posts as postsTable } from '@shared/schema';
-import { eq, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { liveEventsService } from './services/live-events-service';
 
 export async function handlePostReaction(req: Request, res: Response): Promise<void> {
   try {
@@ -29,28 +31,13 @@ export async function handlePostReaction(req: Request, res: Response): Promise<v
       res.status(404).json({ error: "Post not found" });
       return;
     }
-    if (isLike) {
-      await db.update(postsTable)
-        .set({ likesCount: sql`${postsTable.likesCount} + 1` })
-        .where(eq(postsTable.id, postId));
-    } else {
-      await db.update(postsTable)
-        .set({ dislikesCount: sql`${postsTable.dislikesCount} + 1` })
-        .where(eq(postsTable.id, postId));
-    }
-    const [updatedCounts] = await db.select({
-      likes: postsTable.likesCount,
-      dislikes: postsTable.dislikesCount
-    })
-      .from(postsTable)
-      .where(eq(postsTable.id, postId));
+    await storage.updatePostReaction(postId, { isLike, sessionId: req.sessionID });
+    const reactions = await storage.getPostReactions(postId);
+    liveEventsService.postReactions(postId, reactions);
     res.json({
       success: true,
-      message: `Post ${isLike ? 'liked' : 'disliked'} successfully`,
-      reactions: {
-        likes: Number(updatedCounts.likes || 0),
-        dislikes: Number(updatedCounts.dislikes || 0)
-      }
+      message: `Post reaction updated successfully`,
+      reactions
     });
     return;
   } catch (error) {
@@ -0,0 +1,123 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { COMMENT_DELETION_CHOICES, type AccountDeletionRequest } from "@shared/schema";
+import { requireAuth } from '../middlewares/auth';
+import { apiRateLimiter, sensitiveOperationsRateLimiter } from '../middlewares/rate-limiter';
+import { accountDataService, DELETION_GRACE_DAYS } from "../services/account-data-service";
+import { sessionService } from "../services/session-service";
+import { loginSecurityService } from "../services/login-security-service";
+
+const router = Router();
+
+const exportParamsSchema = z.object({
+  id: commonSchemas.id
+});
+
+const sessionParamsSchema = z.object({
+  id: commonSchemas.id
+});
+
+const deletionBodySchema = z.object({
+  // Not asked of passwordless accounts, which confirm with a recent email-link sign-in instead
+  password: z.string().min(1).max(200).optional(),
+  commentsAction: z.enum(COMMENT_DELETION_CHOICES).default('anonymize'),
+  reason: z.string().trim().max(1000).nullable().optional()
+});
+
+router.use(apiRateLimiter, requireAuth);
+
+/** Everything the deletion settings need, sent back from each deletion endpoint */
+async function deletionState(req: Request, deletion: AccountDeletionRequest | null) {
+  const confirmation = await accountDataService.getDeletionConfirmation(req.user!.id, req.session.authenticatedAt);
+  return { deletion, graceDays: DELETION_GRACE_DAYS, ...confirmation };
+}
+
+// GET /api/account/export - recent export requests, newest first
+router.get('/export',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await accountDataService.listExports(req.user!.id));
+  })
+);
+
+// POST /api/account/export - queue a personal data export (one per day)
+router.post('/export',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.status(202).json(await accountDataService.requestExport(req.user!.id));
+  })
+);
+
+// GET /api/account/export/:id/download - the zip archive once the export is ready
+router.get('/export/:id/download',
+  validateParams(exportParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { archive, requestedAt } = await accountDataService.getArchive(req.user!.id, Number(req.params.id));
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="bubbles-cafe-export-${requestedAt.toISOString().slice(0, 10)}.zip"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(archive);
+  })
+);
+
+// GET /api/account/deletion - the scheduled deletion (or null), the grace period new ones get and how to confirm
+router.get('/deletion',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await deletionState(req, await accountDataService.getDeletion(req.user!.id)));
+  })
+);
+
+// POST /api/account/deletion - schedule deletion after the grace period; needs the password or a recent email-link sign-in
+router.post('/deletion',
+  sensitiveOperationsRateLimiter,
+  validateBody(deletionBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const deletion = await accountDataService.scheduleDeletion(req.user!.id, {
+      ...(req.body as z.infer<typeof deletionBodySchema>),
+      authenticatedAt: req.session.authenticatedAt
+    });
+    res.status(201).json(await deletionState(req, deletion));
+  })
+);
+
+// DELETE /api/account/deletion - cancel during the grace period
+router.delete('/deletion',
+  asyncHandler(async (req: Request, res: Response) => {
+    await accountDataService.cancelDeletion(req.user!.id);
+    res.json(await deletionState(req, null));
+  })
+);
+
+// GET /api/account/sessions - where the account is signed in, this session marked `current`
+router.get('/sessions',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await sessionService.listForUser(req.user!.id, req.sessionID));
+  })
+);
+
+// DELETE /api/account/sessions/:id - sign one other session out
+router.delete('/sessions/:id',
+  validateParams(sessionParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await sessionService.revoke(req.user!.id, Number(req.params.id), req.sessionID);
+    res.json({ success: true });
+  })
+);
+
+// POST /api/account/sessions/revoke-others - sign out everywhere except here
+router.post('/sessions/revoke-others',
+  sensitiveOperationsRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const revoked = await sessionService.revokeOthers(req.user!.id, req.sessionID);
+    res.json({ success: true, revoked });
+  })
+);
+
+// GET /api/account/login-activity - recent sign-in attempts on this account
+router.get('/login-activity',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await loginSecurityService.listAttempts(req.user!.id));
+  })
+);
+
+export default router;
@@ -1,13 +1,22 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { userService } from '../services/user-service';
-import { requireAuth, requireAdmin } from "../middlewares/auth";
+import { wordpressSync } from "../wordpress-api-sync";
+import { notificationService } from '../services/notification-service';
+import { webhookService } from '../services/webhook-service';
+import { annotationService } from '../services/annotation-service';
+import { postRevisionService } from '../services/post-revision-service';
+import { editorialService } from '../services/editorial-service';
+import { publicationService } from '../services/publication-service';
+import { accountStatusService, type StatusChangeContext } from '../services/account-status-service';
+import { requireAuth, requirePermission } from "../middlewares/auth";
+import { USER_ROLES, roleOf } from "@shared/permissions";
 import { z } from "zod";
 
 const router = Router();
 
 // Admin info endpoint
-router.get("/info", requireAuth, requireAdmin, async (req, res) => {
+router.get("/info", requireAuth, requirePermission('admin.access'), async (req, res) => {
   try {
     const adminInfo = await storage.getAdminInfo();
     res.json(adminInfo);
@@ -18,7 +27,7 @@ router.get("/info", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // NEW: Admin stats endpoint (JSON)
-router.get("/stats", requireAuth, requireAdmin, async (_req, res) => {
+router.get("/stats", requireAuth, requirePermission('admin.access'), async (_req, res) => {
 	try {
 		// Basic counts via storage helpers
 		const [userCount, postsResult, recentActivity] = await Promise.all([
@@ -53,120 +62,212 @@ router.get("/stats", requireAuth, requireAdmin, async (_req, res) => {
 });
 
 // WordPress sync status endpoint
-router.get("/wordpress/status", requireAuth, requireAdmin, async (req, res) => {
+router.get("/wordpress/status", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
   try {
-    // Get WordPress sync status from site settings
-    const allSettings = await storage.getSiteSettings();
-    const enabledSetting = allSettings.find(s => s.key === "wordpress_sync_enabled");
-    const lastSyncSetting = allSettings.find(s => s.key === "last_wordpress_sync");
-    const intervalSetting = allSettings.find(s => s.key === "wordpress_sync_interval");
-    
-    const enabled = enabledSetting?.value === "true";
-    const lastSync = lastSyncSetting?.value ? new Date(parseInt(lastSyncSetting.value)) : null;
-    const interval = parseInt(intervalSetting?.value || "300000"); // 5 minutes default
-    
-    // Calculate next sync time
-    const nextSync = enabled && lastSync ? 
-      new Date(lastSync.getTime() + interval) : null;
-    
-    // Get posts count
+    const enabledSetting = await storage.getSiteSettingByKey("wordpress_sync_enabled");
+    // Sync is on unless it has been explicitly disabled
+    const enabled = enabledSetting?.value !== "false";
+
+    const [lastRun] = await wordpressSync.getRuns(1);
+    const lastSync = lastRun?.finishedAt ?? lastRun?.startedAt ?? null;
+    const interval = 60 * 60 * 1000; // Scheduler runs hourly
+    const nextSync = enabled && lastSync ? new Date(lastSync.getTime() + interval) : null;
+
     const postsCount = await storage.getPostCount();
-    
-    // Check if sync is currently running (simple check based on recent activity)
-    const recentActivity = await storage.getRecentActivity(1);
-    const isRunning = recentActivity.length > 0 && 
-      recentActivity[0].action === "wordpress_sync" &&
-      Date.now() - new Date(recentActivity[0].createdAt).getTime() < 60000; // Less than 1 minute ago
-    
-          // Basic error aggregation from recent activity logs
-      const recentLogs = await storage.getRecentActivity(50);
-      const errorLogs = recentLogs
-        .filter(l => l.action.includes("wordpress_sync"))
-        .filter(l => {
-          const d = (l as any).details || {};
-          const status = (d.status || '').toString().toLowerCase();
-          return status === 'error' || !!d.error || !!d.message && (d.message as string).toLowerCase().includes('error');
-        })
-        .map(l => ({
-          id: (l as any).id?.toString?.() || '',
-          timestamp: (l as any).createdAt?.toISOString?.() || new Date().toISOString(),
-          message: (l as any).details?.message || (l as any).details?.error || 'Unknown error',
-          details: (l as any).details || {}
-        }));
-
-      res.json({
-        enabled,
-        isRunning,
-        lastSync: lastSync?.toISOString(),
-        nextSync: nextSync?.toISOString(),
-        postsCount,
-        syncInterval: interval,
-        totalProcessed: postsCount,
-        errors: errorLogs
-      });
+
+    // Surface failures from the most recent run
+    const lastRunDetails = lastRun ? await wordpressSync.getRun(lastRun.id) : null;
+    const errors = [
+      ...(lastRun?.error ? [{ id: `run-${lastRun.id}`, timestamp: lastSync?.toISOString(), message: lastRun.error }] : []),
+      ...(lastRunDetails?.items || [])
+        .filter(item => item.outcome === 'failed')
+        .map(item => ({
+          id: item.id.toString(),
+          timestamp: item.createdAt.toISOString(),
+          message: `${item.title || `Post ${item.wordpressId}`}: ${item.error || 'Unknown error'}`
+        }))
+    ];
+
+    res.json({
+      enabled,
+      isRunning: wordpressSync.isRunning(),
+      lastSync: lastSync?.toISOString(),
+      nextSync: nextSync?.toISOString(),
+      postsCount,
+      syncInterval: interval,
+      totalProcessed: lastRun ? lastRun.createdCount + lastRun.updatedCount + lastRun.unchangedCount : 0,
+      sourceUrl: await wordpressSync.getSourceUrl(),
+      errors
+    });
   } catch (error) {
     console.error("[Admin] Error fetching WordPress sync status:", error);
     res.status(500).json({ error: "Failed to fetch sync status" });
   }
 });
 
-// WordPress sync logs endpoint
-router.get("/wordpress/logs", requireAuth, requireAdmin, async (req, res) => {
+// WordPress sync run history
+router.get("/wordpress/logs", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
   try {
-    // Get recent WordPress sync activity logs
-    const logs = await storage.getRecentActivity(20);
-    
-    // Filter and format WordPress sync logs
-    const syncLogs = logs
-      .filter(log => log.action === "wordpress_sync")
-      .map(log => {
-        const details = (log.details as any) || {};
-        return {
-          id: log.id.toString(),
-          timestamp: log.createdAt.toISOString(),
-          status: details.status || "success",
-          message: details.message || "WordPress sync completed",
-          postsProcessed: details.postsProcessed || 0,
-          duration: details.duration || 0
-        };
-      });
-    
-    res.json(syncLogs);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await wordpressSync.getRuns(limit);
+
+    res.json(runs.map(run => ({
+      id: run.id.toString(),
+      timestamp: run.startedAt.toISOString(),
+      status: run.status,
+      trigger: run.trigger,
+      mode: run.mode,
+      message: run.error || `${run.mode} sync: ${run.createdCount} created, ${run.updatedCount} updated, ${run.removedCount} removed`,
+      postsProcessed: run.createdCount + run.updatedCount + run.unchangedCount + run.removedCount,
+      created: run.createdCount,
+      updated: run.updatedCount,
+      unchanged: run.unchangedCount,
+      removed: run.removedCount,
+      failed: run.failedCount,
+      retryOfRunId: run.retryOfRunId,
+      duration: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : 0
+    })));
   } catch (error) {
     console.error("[Admin] Error fetching WordPress sync logs:", error);
     res.status(500).json({ error: "Failed to fetch sync logs" });
   }
 });
 
+// Per-post outcomes for one sync run
+router.get("/wordpress/runs/:id", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ error: "Invalid run ID" });
+    }
+
+    const run = await wordpressSync.getRun(id);
+    if (!run) {
+      return res.status(404).json({ error: "Sync run not found" });
+    }
+    return res.json(run);
+  } catch (error) {
+    console.error("[Admin] Error fetching WordPress sync run:", error);
+    return res.status(500).json({ error: "Failed to fetch sync run" });
+  }
+});
+
 // Trigger WordPress sync endpoint
-router.post("/wordpress/sync", requireAuth, requireAdmin, async (req, res) => {
+router.post("/wordpress/sync", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
   try {
-    // Log the sync trigger
+    const { mode } = z.object({ mode: z.enum(["incremental", "full"]).default("incremental") }).parse(req.body ?? {});
+
+    if (wordpressSync.isRunning()) {
+      return res.status(409).json({ error: "WordPress sync already in progress" });
+    }
+
     await storage.logActivity({
       userId: req.user!.id,
       action: "wordpress_sync_trigger",
       details: {
+        mode,
         triggeredBy: req.user!.email,
         timestamp: new Date().toISOString()
       },
       ipAddress: req.ip,
       userAgent: req.get("User-Agent")
     });
-    
-    // In a real implementation, this would trigger the WordPress sync process
-    // For now, we'll just return a success response
-    res.json({
+
+    // Runs can take minutes; the dashboard polls the run history for the outcome
+    wordpressSync.runSync({ trigger: "manual", mode }).catch(error => {
+      console.error("[Admin] WordPress sync run failed:", error);
+    });
+
+    return res.json({
       success: true,
-      message: "WordPress sync triggered successfully"
+      message: `WordPress ${mode} sync started`
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid sync mode" });
+    }
     console.error("[Admin] Error triggering WordPress sync:", error);
-    res.status(500).json({ error: "Failed to trigger WordPress sync" });
+    return res.status(500).json({ error: "Failed to trigger WordPress sync" });
+  }
+});
+
+// Retry only the posts that failed in a previous run
+router.post("/wordpress/runs/:id/retry", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ error: "Invalid run ID" });
+    }
+
+    const run = await wordpressSync.getRun(id);
+    if (!run) {
+      return res.status(404).json({ error: "Sync run not found" });
+    }
+    if (!run.items.some(item => item.outcome === "failed")) {
+      return res.status(400).json({ error: "This run has no failed posts to retry" });
+    }
+    if (wordpressSync.isRunning()) {
+      return res.status(409).json({ error: "WordPress sync already in progress" });
+    }
+
+    wordpressSync.retryFailed(id).catch(error => {
+      console.error("[Admin] WordPress retry run failed:", error);
+    });
+
+    return res.json({ success: true, message: "Retrying failed posts" });
+  } catch (error) {
+    console.error("[Admin] Error retrying WordPress sync run:", error);
+    return res.status(500).json({ error: "Failed to retry sync run" });
+  }
+});
+
+// WordPress source site
+router.get("/wordpress/source", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
+  try {
+    res.json({ url: await wordpressSync.getSourceUrl() });
+  } catch (error) {
+    console.error("[Admin] Error fetching WordPress source:", error);
+    res.status(500).json({ error: "Failed to fetch WordPress source" });
+  }
+});
+
+router.put("/wordpress/source", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
+  try {
+    const { url } = z.object({ url: z.string().url().startsWith("https://") }).parse(req.body);
+
+    if (wordpressSync.isRunning()) {
+      return res.status(409).json({ error: "Cannot change the source while a sync is running" });
+    }
+
+    let saved: string;
+    try {
+      saved = await wordpressSync.setSourceUrl(url);
+    } catch (error) {
+      return res.status(400).json({
+        error: `Could not reach the WordPress REST API at that URL: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+
+    await storage.logActivity({
+      userId: req.user!.id,
+      action: "wordpress_source_update",
+      details: { url: saved, updatedBy: req.user!.email },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent")
+    });
+
+    return res.json({ success: true, url: saved });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "A valid https:// URL is required" });
+    }
+    console.error("[Admin] Error updating WordPress source:", error);
+    return res.status(500).json({ error: "Failed to update WordPress source" });
   }
 });
 
 // Toggle WordPress sync endpoint
-router.post("/wordpress/toggle", requireAuth, requireAdmin, async (req, res) => {
+router.post("/wordpress/toggle", requireAuth, requirePermission('wordpress.sync'), async (req, res) => {
   try {
     const { enabled } = req.body;
     
@@ -176,7 +277,7 @@ router.post("/wordpress/toggle", requireAuth, requireAdmin, async (req, res) =>
     }
     
     // Update the WordPress sync enabled setting
-    await storage.updateSiteSetting("wordpress_sync_enabled", enabled.toString());
+    await storage.setSiteSetting("wordpress_sync_enabled", enabled.toString(), "wordpress", "Run the scheduled WordPress sync");
     
     // Log the toggle action
     await storage.logActivity({
@@ -203,7 +304,7 @@ router.post("/wordpress/toggle", requireAuth, requireAdmin, async (req, res) =>
 });
 
 // Site analytics endpoint
-router.get("/analytics", requireAuth, requireAdmin, async (req, res) => {
+router.get("/analytics", requireAuth, requirePermission('analytics.view'), async (req, res) => {
   try {
     const analytics = await storage.getSiteAnalytics();
     res.json(analytics);
@@ -214,7 +315,7 @@ router.get("/analytics", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Recent activity endpoint
-router.get("/activity", requireAuth, requireAdmin, async (req, res) => {
+router.get("/activity", requireAuth, requirePermission('users.view'), async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
     const activity = await storage.getRecentActivity(limit);
@@ -226,7 +327,7 @@ router.get("/activity", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Users management endpoint
-router.get("/users", requireAuth, requireAdmin, async (req, res) => {
+router.get("/users", requireAuth, requirePermission('users.view'), async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -240,8 +341,145 @@ router.get("/users", requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// Change a user's role; admins can't change their own, so nobody locks themselves out
+router.put("/users/:id/role", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const parsed = z.object({ role: z.enum(USER_ROLES) }).safeParse(req.body);
+    if (!id || !parsed.success) {
+      return res.status(400).json({ error: 'A valid role is required' });
+    }
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: "You can't change your own role" });
+    }
+
+    const before = await userService.getUser(id);
+    const user = await userService.setRole(id, parsed.data.role);
+    await storage.logActivity({
+      userId: req.user!.id,
+      action: 'user_role_changed',
+      details: { targetUserId: id, from: roleOf(before), to: parsed.data.role },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    return res.json(user);
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("[Admin] Error changing user role:", error);
+    return res.status(500).json({ error: "Failed to change user role" });
+  }
+});
+
+// Account restrictions. Every action needs a reason, which goes into the activity log.
+const restrictionReasonSchema = z.string().trim().min(3, 'Give a reason of at least 3 characters').max(500);
+const MAX_SUSPENSION_DAYS = 365;
+
+const suspendSchema = z.object({
+  reason: restrictionReasonSchema,
+  until: z.coerce.date().optional(),
+  days: z.coerce.number().int().min(1).max(MAX_SUSPENSION_DAYS).optional()
+}).refine(body => body.until || body.days, { message: 'Choose how long to suspend the account for' });
+
+function statusChangeContext(req: any, reason: string): StatusChangeContext {
+  return {
+    actorId: req.user!.id,
+    reason,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  };
+}
+
+function sendAccountStatusError(res: any, error: any, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: error.errors[0]?.message ?? 'Invalid request' });
+  }
+  if (error?.statusCode) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`[Admin] ${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// Suspend an account for a number of days or until a date; it is signed out everywhere
+router.post("/users/:id/suspend", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { reason, until, days } = suspendSchema.parse(req.body);
+    const end = until ?? new Date(Date.now() + days! * 24 * 60 * 60 * 1000);
+    await accountStatusService.suspend(id, end, statusChangeContext(req, reason));
+    return res.json({ success: true, suspendedUntil: end.toISOString() });
+  } catch (error) {
+    return sendAccountStatusError(res, error, 'Failed to suspend user');
+  }
+});
+
+// Ban an account until it is reinstated
+router.post("/users/:id/ban", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { reason } = z.object({ reason: restrictionReasonSchema }).parse(req.body);
+    await accountStatusService.ban(id, statusChangeContext(req, reason));
+    return res.json({ success: true });
+  } catch (error) {
+    return sendAccountStatusError(res, error, 'Failed to ban user');
+  }
+});
+
+// Lift a suspension or ban
+router.post("/users/:id/reinstate", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { reason } = z.object({ reason: restrictionReasonSchema }).parse(req.body);
+    await accountStatusService.reinstate(id, statusChangeContext(req, reason));
+    return res.json({ success: true });
+  } catch (error) {
+    return sendAccountStatusError(res, error, 'Failed to reinstate user');
+  }
+});
+
+// Shadow-mute or unmute a commenter
+router.post("/users/:id/shadow-mute", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { muted, reason } = z.object({ muted: z.boolean(), reason: restrictionReasonSchema }).parse(req.body);
+    await accountStatusService.setShadowMute(id, muted, statusChangeContext(req, reason));
+    return res.json({ success: true, shadowMuted: muted });
+  } catch (error) {
+    return sendAccountStatusError(res, error, 'Failed to update mute');
+  }
+});
+
+// Sign a user out of every session
+router.post("/users/:id/logout", requireAuth, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    const { reason } = z.object({ reason: restrictionReasonSchema }).parse(req.body);
+    const revoked = await accountStatusService.forceLogout(id, statusChangeContext(req, reason));
+    return res.json({ success: true, sessionsRevoked: revoked });
+  } catch (error) {
+    return sendAccountStatusError(res, error, 'Failed to sign user out');
+  }
+});
+
 // Posts management endpoint with filters
-router.get("/posts", requireAuth, requireAdmin, async (req, res) => {
+router.get("/posts", requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -250,7 +488,7 @@ router.get("/posts", requireAuth, requireAdmin, async (req, res) => {
     const featured = req.query.featured === 'true';
     const status = (req.query.status as string) || 'all';
     
-    const result = await storage.getPosts(page, limit, { search, category });
+    const result = await storage.getPosts(page, limit, { search, category, includeScheduled: true });
     let posts = result.posts as any[];
 
     // Optional UI-level filters
@@ -258,7 +496,9 @@ router.get("/posts", requireAuth, requireAdmin, async (req, res) => {
       posts = posts.filter(p => {
         const meta = (p.metadata || {}) as any;
         const s = (meta.status || '').toString().toLowerCase();
-        return status === 'published' ? s === 'publish' : s === 'draft' || s === 'pending';
+        if (status === 'published') return s === 'publish';
+        if (status === 'scheduled') return s === 'scheduled';
+        return s === 'draft' || s === 'pending';
       });
     }
     if (featured) {
@@ -280,7 +520,7 @@ router.get("/posts", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Pending posts list
-router.get('/posts/pending', requireAuth, requireAdmin, async (req, res) => {
+router.get('/posts/pending', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const pending = await storage.getPendingPosts();
     res.json({ posts: pending, total: pending.length, stats: { pending: pending.length, flagged: 0, published: 0 } });
@@ -291,7 +531,7 @@ router.get('/posts/pending', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Flagged posts list (best-effort; depends on metadata)
-router.get('/posts/flagged', requireAuth, requireAdmin, async (req, res) => {
+router.get('/posts/flagged', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const result = await storage.getPosts(1, 500, {});
     const flagged = (result.posts as any[]).filter(p => ((p.metadata || {}) as any).flagged === true || ((p.metadata || {}) as any).flagCount > 0);
@@ -303,10 +543,21 @@ router.get('/posts/flagged', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Update a post (partial)
-router.patch('/posts/:id', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/posts/:id', requireAuth, requirePermission('posts.edit_any'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
+    const before = await storage.getPostById(id);
     const updated = await storage.updatePost(id, req.body);
+    if (before) {
+      await postRevisionService.recordEdit(before, updated, req.user!.id);
+    }
+    if (before && (updated.title !== before.title || updated.content !== before.content)) {
+      await notificationService.bookmarkedStoryUpdated(updated, req.user!.id);
+      await webhookService.postEvent('post.updated', updated);
+    }
+    if (before && updated.content !== before.content) {
+      await annotationService.reanchorPost(updated);
+    }
     res.json(updated);
   } catch (error) {
     console.error("[Admin] Error updating post:", error);
@@ -315,7 +566,7 @@ router.patch('/posts/:id', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Delete a post
-router.delete('/posts/:id', requireAuth, requireAdmin, async (req, res) => {
+router.delete('/posts/:id', requireAuth, requirePermission('posts.edit_any'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const deleted = await storage.deletePost(id);
@@ -326,22 +577,47 @@ router.delete('/posts/:id', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
-// Publish / Unpublish
-router.patch('/posts/:id/publish', requireAuth, requireAdmin, async (req, res) => {
+// Scheduled (and schedule-published) posts in a date range, for the publishing calendar
+router.get('/posts/scheduled', requireAuth, requirePermission('posts.publish'), async (req, res) => {
+  try {
+    const schema = z.object({ from: z.coerce.date(), to: z.coerce.date() });
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'from and to dates are required' });
+    }
+    const posts = await publicationService.calendar(parsed.data.from, parsed.data.to);
+    return res.json({ posts });
+  } catch (error) {
+    console.error("[Admin] Error fetching scheduled posts:", error);
+    return res.status(500).json({ error: 'Failed to fetch scheduled posts' });
+  }
+});
+
+// Publish now, or with a future publishAt, schedule publication
+router.patch('/posts/:id/publish', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
-    const post = await storage.updatePost(id, { metadata: { status: 'publish' } as any });
-    res.json(post);
+    const { publishAt } = z.object({ publishAt: z.coerce.date().nullable().optional() }).parse(req.body ?? {});
+    if (publishAt && publishAt.getTime() > Date.now()) {
+      const post = await publicationService.schedule(id, publishAt);
+      return res.json(post);
+    }
+    const post = await publicationService.publish(id, req.user!.id);
+    await editorialService.markPublished(id, req.user!.id);
+    return res.json(post);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid publish time' });
+    }
     console.error("[Admin] Error publishing post:", error);
-    res.status(500).json({ error: 'Failed to publish post' });
+    return res.status(500).json({ error: 'Failed to publish post' });
   }
 });
 
-router.patch('/posts/:id/unpublish', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/posts/:id/unpublish', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
-    const post = await storage.updatePost(id, { metadata: { status: 'draft' } as any });
+    const post = await publicationService.unpublish(id, req.user!.id);
     res.json(post);
   } catch (error) {
     console.error("[Admin] Error unpublishing post:", error);
@@ -350,7 +626,7 @@ router.patch('/posts/:id/unpublish', requireAuth, requireAdmin, async (req, res)
 });
 
 // Feature / Unfeature
-router.patch('/posts/:id/feature', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/posts/:id/feature', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const post = await storage.updatePost(id, { metadata: { featured: true } as any });
@@ -361,7 +637,7 @@ router.patch('/posts/:id/feature', requireAuth, requireAdmin, async (req, res) =
   }
 });
 
-router.patch('/posts/:id/unfeature', requireAuth, requireAdmin, async (req, res) => {
+router.patch('/posts/:id/unfeature', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const id = parseInt(req.params.id, 10);
     const post = await storage.updatePost(id, { metadata: { featured: false } as any });
@@ -373,7 +649,7 @@ router.patch('/posts/:id/unfeature', requireAuth, requireAdmin, async (req, res)
 });
 
 // Bulk actions
-router.post('/posts/bulk', requireAuth, requireAdmin, async (req, res) => {
+router.post('/posts/bulk', requireAuth, requirePermission('posts.publish'), async (req, res) => {
   try {
     const schema = z.object({
       action: z.enum(['publish', 'unpublish', 'delete', 'feature', 'unfeature']),
@@ -385,11 +661,15 @@ router.post('/posts/bulk', requireAuth, requireAdmin, async (req, res) => {
     for (const id of postIds) {
       switch (action) {
         case 'publish':
-          results.push(await storage.updatePost(id, { metadata: { status: 'publish' } as any }));
-          break;
-        case 'unpublish':
-          results.push(await storage.updatePost(id, { metadata: { status: 'draft' } as any }));
+        case 'unpublish': {
+          if (action === 'publish') {
+            results.push(await publicationService.publish(id, req.user!.id));
+            await editorialService.markPublished(id, req.user!.id);
+          } else {
+            results.push(await publicationService.unpublish(id, req.user!.id));
+          }
           break;
+        }
         case 'feature':
           results.push(await storage.updatePost(id, { metadata: { featured: true } as any }));
           break;
@@ -409,7 +689,7 @@ router.post('/posts/bulk', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
-router.get('/notifications', requireAuth, requireAdmin, async (_req, res) => {
+router.get('/notifications', requireAuth, requirePermission('admin.access'), async (_req, res) => {
 	try {
 		const notifications = await storage.getUnreadAdminNotifications();
 		res.json(notifications);
@@ -419,7 +699,7 @@ router.get('/notifications', requireAuth, requireAdmin, async (_req, res) => {
 	}
 });
 
-router.post('/notifications/:id/read', requireAuth, requireAdmin, async (req, res) => {
+router.post('/notifications/:id/read', requireAuth, requirePermission('admin.access'), async (req, res) => {
 	try {
 		const id = parseInt(req.params.id, 10);
 		await storage.markNotificationAsRead(id);
@@ -430,7 +710,7 @@ router.post('/notifications/:id/read', requireAuth, requireAdmin, async (req, re
 	}
 });
 
-router.get('/site-settings', requireAuth, requireAdmin, async (_req, res) => {
+router.get('/site-settings', requireAuth, requirePermission('settings.manage'), async (_req, res) => {
 	try {
 		const settings = await storage.getSiteSettings();
 		res.json(settings);
@@ -440,7 +720,7 @@ router.get('/site-settings', requireAuth, requireAdmin, async (_req, res) => {
 	}
 });
 
-router.post('/site-settings', requireAuth, requireAdmin, async (req, res) => {
+router.post('/site-settings', requireAuth, requirePermission('settings.manage'), async (req, res) => {
 	try {
 		const schema = z.object({ key: z.string().min(1), value: z.string() });
 		const { key, value } = schema.parse(req.body);
@@ -3,12 +3,18 @@ import { createSecureLogger } from '../utils/secure-logger';
 import { validateBody, commonSchemas } from '../middleware/input-validation';
 import { asyncHandler, createError } from '../utils/error-handler';
 import { z } from "zod";
-import { userRegistrationSchema, userLoginSchema } from "@shared/schema";
+import { userRegistrationSchema, userLoginSchema, type User } from "@shared/schema";
+import { isStaff } from "@shared/permissions";
+import { accountRestriction } from "@shared/account-status";
 import { authRateLimiter, sensitiveOperationsRateLimiter } from '../middlewares/rate-limiter';
 import passport from "passport";
 import * as bcrypt from 'bcryptjs';
 import { storage } from "../storage";
 import { z as zod } from 'zod';
+import { twoFactorService } from '../services/two-factor-service';
+import { sessionService } from '../services/session-service';
+import { loginSecurityService, type LoginBlock } from '../services/login-security-service';
+import { emailService } from '../utils/email-service';
 
 const authLogger = createSecureLogger('AuthRoutes');
 const router = Router();
@@ -23,6 +29,130 @@ const passwordResetSchema = z.object({
   newPassword: z.string().min(8).max(128).regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, "Password must contain at least one lowercase letter, one uppercase letter, and one number")
 });
 
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Verification code is required").max(20)
+});
+
+const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required")
+});
+
+const emailLinkSchema = z.object({
+  token: z.string().min(1, "Token is required").max(128)
+});
+
+const magicLinkRequestSchema = z.object({
+  email: commonSchemas.email,
+  rememberMe: z.boolean().optional()
+});
+
+/**
+ * Log the user in and reply with the session user.
+ * passport regenerates the session on login, so session flags are set afterwards.
+ */
+function startSession(
+  req: Request,
+  res: Response,
+  next: (err?: any) => void,
+  user: Express.User,
+  options: { rememberMe?: boolean; twoFactorVerified?: boolean; extra?: Record<string, unknown> } = {}
+) {
+  req.logIn(user, async (err) => {
+    if (err) {
+      authLogger.error('Login session error', { error: err instanceof Error ? err.message : String(err) });
+      next(createError.internal('Login failed'));
+      return;
+    }
+
+    // Set session expiration based on rememberMe
+    if (options.rememberMe) {
+      req.session.cookie.maxAge = 30 * 24 * 60 * 60 * 1000; // 30 days
+      authLogger.debug('Extended session set for remember me');
+    }
+    if (options.twoFactorVerified) {
+      req.session.twoFactorVerified = true;
+    }
+    req.session.authenticatedAt = Date.now();
+    // After the expiry is settled, so the device list shows when the session really ends
+    await sessionService.recordSignIn(req, res, user);
+
+    res.json({
+      success: true,
+      user,
+      message: 'Login successful',
+      ...options.extra
+    });
+  });
+}
+
+/** Reply with a challenge instead of a session when the account owes a second factor */
+async function sendTwoFactorChallengeIfRequired(res: Response, user: Express.User, rememberMe: boolean): Promise<boolean> {
+  const purpose = await twoFactorService.requiredChallenge(user);
+  if (!purpose) return false;
+
+  const challenge = await twoFactorService.createChallenge(user.id, purpose, rememberMe);
+  res.json({
+    success: true,
+    twoFactorRequired: purpose === 'login',
+    twoFactorSetupRequired: purpose === 'setup',
+    challengeToken: challenge.token,
+    expiresAt: challenge.expiresAt.toISOString()
+  });
+  return true;
+}
+
+/** Refuse a sign-in that is locked out or throttled, telling the client when to retry */
+function loginBlockedError(res: Response, block: LoginBlock) {
+  res.set('Retry-After', String(block.retryAfterSeconds));
+  return createError(block.message, block.reason === 'locked' ? 423 : 429);
+}
+
+/**
+ * Everything after passport has checked the password: count failures, refuse restricted
+ * accounts, hold unusual sign-ins for email confirmation, then on to 2FA or a session.
+ */
+async function finishPasswordLogin(
+  req: Request,
+  res: Response,
+  next: (err?: any) => void,
+  account: User | undefined,
+  user: Express.User | false
+): Promise<void> {
+  const { email } = req.body;
+  const rememberMe = !!req.body.rememberMe;
+
+  if (!user) {
+    authLogger.warn('Login failed - invalid credentials');
+    const lock = await loginSecurityService.recordFailure(req, email, account);
+    if (lock) {
+      throw loginBlockedError(res, lock);
+    }
+    throw createError.unauthorized('Invalid email or password');
+  }
+
+  const restriction = accountRestriction(user);
+  if (restriction) {
+    authLogger.warn('Login refused - account restricted', { userId: user.id, code: restriction.code });
+    await loginSecurityService.recordAttempt(req, { email, userId: user.id, success: false, reason: 'restricted' });
+    throw createError.forbidden(restriction.message);
+  }
+
+  if (await loginSecurityService.isSuspicious(req, user.id)) {
+    await loginSecurityService.requestConfirmation(req, user, rememberMe);
+    res.json({
+      success: true,
+      confirmationRequired: true,
+      message: 'To keep your account safe, we emailed you a link to confirm this sign-in.'
+    });
+    return;
+  }
+
+  await loginSecurityService.recordSuccess(req, user);
+  if (!(await sendTwoFactorChallengeIfRequired(res, user, rememberMe))) {
+    startSession(req, res, next, user, { rememberMe });
+  }
+}
+
 // POST /api/auth/register - User registration
 router.post('/register',
   authRateLimiter,
@@ -71,43 +201,107 @@ router.post('/login',
   authRateLimiter,
   validateBody(userLoginSchema),
   asyncHandler(async (req: Request, res: Response, next: (err?: any) => void) => {
-    passport.authenticate('local', (err: any, user: any, info: any) => {
+    // Looked up here as well as in the strategy so wrong passwords can be counted against it
+    const account = await storage.getUserByEmail(req.body.email.trim().toLowerCase());
+    if (account) {
+      const block = await loginSecurityService.checkAllowed(account.id);
+      if (block) {
+        await loginSecurityService.recordAttempt(req, { email: req.body.email, userId: account.id, success: false, reason: block.reason });
+        throw loginBlockedError(res, block);
+      }
+    }
+
+    passport.authenticate('local', (err: any, user: any) => {
       if (err) {
         authLogger.error('Login authentication error', { error: err instanceof Error ? err.message : String(err) });
         next(createError.internal('Authentication failed'));
         return;
       }
-      
-      if (!user) {
-        authLogger.warn('Login failed - invalid credentials');
-        next(createError.unauthorized('Invalid email or password'));
-        return;
-      }
-      
-      req.logIn(user, (err) => {
-        if (err) {
-          authLogger.error('Login session error', { error: err instanceof Error ? err.message : String(err) });
-          next(createError.internal('Login failed'));
+
+      finishPasswordLogin(req, res, next, account, user).catch((error) => {
+        if (error?.statusCode) {
+          next(error);
           return;
         }
-        
-        // Set session expiration based on rememberMe
-        if (req.body.rememberMe) {
-          req.session.cookie.maxAge = 30 * 24 * 60 * 60 * 1000; // 30 days
-          authLogger.debug('Extended session set for remember me');
-        }
-        
-    		res.json({
-          success: true,
-          user,
-          message: 'Login successful'
-        });
+        authLogger.error('Login failed', { error: error instanceof Error ? error.message : String(error) });
+        next(createError.internal('Authentication failed'));
       });
     })(req, res, next);
     return;
   })
 );
 
+// POST /api/auth/login/confirm - Finish a sign-in that was held for email confirmation
+router.post('/login/confirm',
+  authRateLimiter,
+  validateBody(emailLinkSchema),
+  asyncHandler(async (req: Request, res: Response, next: (err?: any) => void) => {
+    const { user, rememberMe } = await loginSecurityService.consumeConfirmation(req.body.token);
+    // The account may have been suspended while the link was in the inbox
+    const restriction = accountRestriction(user);
+    if (restriction) {
+      throw createError.forbidden(restriction.message);
+    }
+
+    await loginSecurityService.recordSuccess(req, user, 'confirmed');
+    authLogger.info('Held sign-in confirmed by email', { userId: user.id });
+
+    const { password_hash: _ignore, ...safeUser } = user;
+    if (await sendTwoFactorChallengeIfRequired(res, safeUser as Express.User, rememberMe)) {
+      return;
+    }
+    startSession(req, res, next, safeUser as Express.User, { rememberMe });
+  })
+);
+
+// POST /api/auth/unlock - Lift a failed-sign-in lockout with the emailed link
+router.post('/unlock',
+  sensitiveOperationsRateLimiter,
+  validateBody(emailLinkSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await loginSecurityService.unlock(req, req.body.token);
+    res.json({ success: true, message: 'Your account is unlocked. You can sign in again.' });
+  })
+);
+
+// POST /api/auth/magic-link - Email a one-time sign-in link. The reply never says whether the
+// address has an account.
+router.post('/magic-link',
+  authRateLimiter,
+  validateBody(magicLinkRequestSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await loginSecurityService.requestMagicLink(req, req.body.email, !!req.body.rememberMe);
+    res.json({
+      success: true,
+      message: 'Check your email for a sign-in link.'
+    });
+  })
+);
+
+// POST /api/auth/magic-link/verify - Redeem a sign-in link. The link itself opens a page that
+// posts here when clicked, so mail scanners that fetch links can't use it up.
+router.post('/magic-link/verify',
+  authRateLimiter,
+  validateBody(emailLinkSchema),
+  asyncHandler(async (req: Request, res: Response, next: (err?: any) => void) => {
+    const { user, rememberMe, created } = await loginSecurityService.consumeMagicLink(req.body.token);
+    const restriction = accountRestriction(user);
+    if (restriction) {
+      await loginSecurityService.recordAttempt(req, { email: user.email, userId: user.id, success: false, reason: 'restricted' });
+      throw createError.forbidden(restriction.message);
+    }
+
+    await loginSecurityService.recordSuccess(req, user, 'magic_link');
+    authLogger.info('Magic link sign-in', { userId: user.id, created });
+
+    const { password_hash: _ignore, ...safeUser } = user;
+    if (await sendTwoFactorChallengeIfRequired(res, safeUser as Express.User, rememberMe)) {
+      return;
+    }
+    startSession(req, res, next, safeUser as Express.User, { rememberMe, extra: { accountCreated: created } });
+  })
+);
+
 // POST /api/auth/social-login - Consolidated here; minimal logging
 router.post('/social-login',
   authRateLimiter,
@@ -147,12 +341,21 @@ router.post('/social-login',
           metadata: { ...existing, socialId, provider, lastLogin: new Date().toISOString(), displayName: username || (existing as any).displayName || null, photoURL: photoURL || (existing as any).photoURL || null }
         });
       }
+      const restriction = accountRestriction(user);
+      if (restriction) {
+        throw createError.forbidden(restriction.message);
+      }
       const { password_hash, ...safeUser } = user;
-      req.login(safeUser as any, (err) => {
+      if (await sendTwoFactorChallengeIfRequired(res, safeUser as any, false)) {
+        return;
+      }
+      req.login(safeUser as any, async (err) => {
         if (err) return res.status(500).json({ message: 'Session error' });
+        await sessionService.recordSignIn(req, res, safeUser);
         return res.json(safeUser);
       });
     } catch (e) {
+      if ((e as any)?.statusCode) throw e;
       authLogger.error('Social login error', { provider, error: e instanceof Error ? e.message : String(e) });
       throw createError.internal('Social login failed');
     }
@@ -163,6 +366,7 @@ router.post('/social-login',
 router.post('/logout',
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user?.id;
+    await sessionService.end(req.sessionID);
     
           return req.logout((err) => {
       if (err) {
@@ -234,10 +438,9 @@ router.post('/forgot-password',
         used: false
       });
       
-      // Send reset email (implement email service)
-      // await emailService.sendPasswordResetEmail(email, resetToken);
+      const queued = await emailService.sendPasswordResetEmail(user.email, resetToken.token, user.username);
       
-      authLogger.info('Password reset token created', { userId: user.id });
+      authLogger.info('Password reset token created', { userId: user.id, emailQueued: queued });
       
       return res.json({
         success: true,
@@ -363,4 +566,124 @@ router.post('/change-password',
   })
 );
 
+// POST /api/auth/2fa/verify - Second sign-in step: exchange a challenge token and code for a session
+router.post('/2fa/verify',
+  authRateLimiter,
+  validateBody(twoFactorChallengeSchema.merge(twoFactorCodeSchema)),
+  asyncHandler(async (req: Request, res: Response, next: (err?: any) => void) => {
+    const { challengeToken, code } = req.body;
+
+    const result = await twoFactorService.completeChallenge(challengeToken, code);
+    const user = await storage.getUser(result.userId);
+    if (!user) {
+      throw createError.unauthorized('Sign-in challenge expired. Please sign in again.');
+    }
+    // The account may have been suspended while the challenge was open
+    const restriction = accountRestriction(user);
+    if (restriction) {
+      throw createError.forbidden(restriction.message);
+    }
+
+    authLogger.info('Two-factor sign-in completed', { userId: user.id, method: result.method });
+
+    const { password_hash: _ignore, ...safeUser } = user;
+    startSession(req, res, next, safeUser as Express.User, {
+      rememberMe: result.rememberMe,
+      twoFactorVerified: true,
+      extra: result.recoveryCodes ? { recoveryCodes: result.recoveryCodes } : undefined
+    });
+  })
+);
+
+// POST /api/auth/2fa/challenge/setup - Enrollment for admins stopped at sign-in without a second factor
+router.post('/2fa/challenge/setup',
+  authRateLimiter,
+  validateBody(twoFactorChallengeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const enrollment = await twoFactorService.beginChallengeEnrollment(req.body.challengeToken);
+    res.json({ success: true, ...enrollment });
+  })
+);
+
+// GET /api/auth/2fa/status - Current user's two-factor state
+router.get('/2fa/status',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw createError.unauthorized('Authentication required');
+    }
+
+    const status = await twoFactorService.getStatus(req.user.id);
+    res.json({ ...status, required: isStaff(req.user) });
+  })
+);
+
+// POST /api/auth/2fa/setup - Generate a secret and provisioning URI; 2FA stays off until verified
+router.post('/2fa/setup',
+  sensitiveOperationsRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw createError.unauthorized('Authentication required');
+    }
+
+    const enrollment = await twoFactorService.beginEnrollment(req.user);
+    res.json({ success: true, ...enrollment });
+  })
+);
+
+// POST /api/auth/2fa/enable - Verify the first code and switch 2FA on
+router.post('/2fa/enable',
+  sensitiveOperationsRateLimiter,
+  validateBody(twoFactorCodeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw createError.unauthorized('Authentication required');
+    }
+
+    const recoveryCodes = await twoFactorService.confirmEnrollment(req.user.id, req.body.code);
+    req.session.twoFactorVerified = true;
+
+    res.json({
+      success: true,
+      recoveryCodes,
+      message: 'Two-factor authentication enabled'
+    });
+  })
+);
+
+// POST /api/auth/2fa/disable - Turn 2FA off with a current code or recovery code
+router.post('/2fa/disable',
+  sensitiveOperationsRateLimiter,
+  validateBody(twoFactorCodeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw createError.unauthorized('Authentication required');
+    }
+    if (isStaff(req.user)) {
+      throw createError.forbidden('Two-factor authentication is required for staff accounts');
+    }
+
+    await twoFactorService.disable(req.user.id, req.body.code);
+    req.session.twoFactorVerified = false;
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  })
+);
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes
+router.post('/2fa/recovery-codes',
+  sensitiveOperationsRateLimiter,
+  validateBody(twoFactorCodeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw createError.unauthorized('Authentication required');
+    }
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.id, req.body.code);
+    res.json({ success: true, recoveryCodes });
+  })
+);
+
 export { router as authRouter };
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { CHALLENGE_PHASES } from "@shared/schema";
+import { requireAuth, requireAdmin } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { challengeService } from "../services/challenge-service";
+
+const router = Router();
+
+const challengeBodySchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(5000),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  votingEndDate: z.coerce.date().nullable().optional()
+});
+
+const entryBodySchema = z.object({
+  title: z.string().trim().max(200).nullable().optional(),
+  content: z.string().trim().min(1).max(50000)
+});
+
+const voteBodySchema = z.object({
+  entryId: z.number().int().positive()
+});
+
+const challengeIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const entryParamsSchema = z.object({
+  id: commonSchemas.id,
+  entryId: commonSchemas.id
+});
+
+const listQuerySchema = z.object({
+  phase: z.enum(CHALLENGE_PHASES).optional()
+});
+
+router.use(apiRateLimiter);
+
+// GET /api/challenges - every challenge with its current phase, newest first
+router.get('/',
+  validateQuery(listQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof listQuerySchema>;
+    res.json(await challengeService.list(query));
+  })
+);
+
+// GET /api/challenges/:id - entries are only included once submissions close
+router.get('/:id',
+  validateParams(challengeIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await challengeService.get(Number(req.params.id), req.user?.id));
+  })
+);
+
+// GET /api/challenges/:id/results - ranked entries and winners after voting ends
+router.get('/:id/results',
+  validateParams(challengeIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await challengeService.getResults(Number(req.params.id)));
+  })
+);
+
+// POST /api/challenges - admin only
+router.post('/',
+  requireAuth,
+  requireAdmin,
+  validateBody(challengeBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const challenge = await challengeService.create(req.body as z.infer<typeof challengeBodySchema>, req.user!.id);
+    res.status(201).json(challenge);
+  })
+);
+
+// PATCH /api/challenges/:id - admin only
+router.patch('/:id',
+  requireAuth,
+  requireAdmin,
+  validateParams(challengeIdSchema),
+  validateBody(challengeBodySchema.partial()),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await challengeService.update(Number(req.params.id), req.body));
+  })
+);
+
+// DELETE /api/challenges/:id - admin only, removes entries and votes with it
+router.delete('/:id',
+  requireAuth,
+  requireAdmin,
+  validateParams(challengeIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await challengeService.remove(Number(req.params.id));
+    res.json({ success: true });
+  })
+);
+
+// POST /api/challenges/:id/entries - one entry per user while submissions are open
+router.post('/:id/entries',
+  requireAuth,
+  validateParams(challengeIdSchema),
+  validateBody(entryBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const entry = await challengeService.submitEntry(Number(req.params.id), req.user!.id, req.body);
+    res.status(201).json(entry);
+  })
+);
+
+// PATCH /api/challenges/:id/entries/mine
+router.patch('/:id/entries/mine',
+  requireAuth,
+  validateParams(challengeIdSchema),
+  validateBody(entryBodySchema.partial()),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await challengeService.updateEntry(Number(req.params.id), req.user!.id, req.body));
+  })
+);
+
+// DELETE /api/challenges/:id/entries/mine
+router.delete('/:id/entries/mine',
+  requireAuth,
+  validateParams(challengeIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await challengeService.withdrawEntry(Number(req.params.id), req.user!.id);
+    res.json({ success: true });
+  })
+);
+
+// POST /api/challenges/:id/entries/:entryId/promote - publish an entry as a community post
+router.post('/:id/entries/:entryId/promote',
+  requireAuth,
+  validateParams(entryParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await challengeService.promoteEntry(Number(req.params.id), Number(req.params.entryId), req.user!);
+    res.status(201).json(result);
+  })
+);
+
+// PUT /api/challenges/:id/vote - cast or change the reader's single vote
+router.put('/:id/vote',
+  requireAuth,
+  validateParams(challengeIdSchema),
+  validateBody(voteBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await challengeService.vote(Number(req.params.id), req.user!.id, req.body.entryId));
+  })
+);
+
+// DELETE /api/challenges/:id/vote
+router.delete('/:id/vote',
+  requireAuth,
+  validateParams(challengeIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await challengeService.removeVote(Number(req.params.id), req.user!.id);
+    res.json({ success: true });
+  })
+);
+
+export default router;
@@ -4,9 +4,16 @@ import { validateBody, validateQuery, validateParams, commonSchemas } from '../m
 import { asyncHandler, createError } from '../utils/error-handler';
 import { storage } from "../storage";
 import { z } from "zod";
-import { insertCommentSchema, updateCommentSchema } from "@shared/schema";
+import { insertCommentSchema, updateCommentSchema, type CommentMetadata } from "@shared/schema";
 import { apiRateLimiter } from '../middlewares/rate-limiter';
-import { moderateComment } from "../utils/comment-moderation";
+import { requireActiveAccount } from '../middlewares/auth';
+import { moderationService, isPubliclyVisible, toCommentModerationState, mutedCommentState } from "../services/moderation-service";
+import { notificationService } from "../services/notification-service";
+import { liveEventsService } from "../services/live-events-service";
+import { webhookService } from "../services/webhook-service";
+import { reportService, reporterFrom } from "../services/report-service";
+import { annotationService } from "../services/annotation-service";
+import { MAX_QUOTE_LENGTH } from "@shared/text-anchor";
 
 const commentsLogger = createSecureLogger('CommentsRoutes');
 const router = Router();
@@ -26,7 +33,16 @@ const createCommentBodySchema = z.object({
 	author: z.string().min(1).max(50).optional(),
 	parentId: z.coerce.number().int().positive().optional(),
 	needsModeration: z.boolean().optional(),
-	moderationStatus: z.enum(['flagged', 'under_review', 'none']).optional()
+	moderationStatus: z.enum(['flagged', 'under_review', 'none']).optional(),
+	// Turns the comment into an annotation on the selected passage
+	anchor: z.object({
+		paragraphIndex: z.number().int().min(0),
+		quote: z.string().min(1).max(MAX_QUOTE_LENGTH * 2),
+		start: z.number().int().min(0).optional()
+	}).optional()
+}).refine(body => !(body.anchor && body.parentId), {
+	message: 'Replies cannot be anchored to the story',
+	path: ['anchor']
 });
 
 const voteBodySchema = z.object({
@@ -36,7 +52,8 @@ const voteBodySchema = z.object({
 const updateCommentBodySchema = updateCommentSchema; // { content: string }
 
 const flagBodySchema = z.object({
-	reason: z.string().min(3).max(500).optional()
+	reason: z.string().min(3).max(500).optional(),
+	note: z.string().max(1000).nullable().optional()
 });
 
 function getUserKey(req: Request): string {
@@ -56,23 +73,46 @@ router.get(
 
 		const comments = await storage.getComments(postId);
 
-		const enhanced = comments.map((c: any) => ({
-			...c,
-			// Back-compat field for clients that read `approved`
-			approved: (c as any).approved === undefined ? Boolean(c.is_approved) : Boolean((c as any).approved),
-			isOwner: (c as any).metadata && (c as any).metadata.ownerKey
-				? String((c as any).metadata.ownerKey) === userKey
-				: false
-		}));
+		const enhanced = comments
+			.map((c: any) => {
+				const isOwner = (c as any).metadata && (c as any).metadata.ownerKey
+					? String((c as any).metadata.ownerKey) === userKey
+					: false;
+				const status = (c.metadata as CommentMetadata | undefined)?.moderation?.status;
+				return {
+					...c,
+					// Back-compat field for clients that read `approved`.
+					// Shadow-hidden comments look published to their author only.
+					approved: status === 'shadow_hidden' && isOwner
+						? true
+						: (c as any).approved === undefined ? Boolean(c.is_approved) : Boolean((c as any).approved),
+					isOwner
+				};
+			})
+			.filter((c: any) => c.isOwner
+				? c.metadata?.moderation?.status !== 'rejected'
+				: isPubliclyVisible(c));
 
 		res.json(enhanced);
 	})
 );
 
-// POST /api/posts/:postId/comments - create a new comment or reply (when parentId provided)
+// GET /api/posts/:postId/annotations - published comments pinned to passages of the story
+router.get(
+	'/posts/:postId/annotations',
+	apiRateLimiter,
+	validateParams(postIdSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		const postId = Number((req.params as any).postId);
+		res.json(await annotationService.listForPost(postId));
+	})
+);
+
+// POST /api/posts/:postId/comments - create a new comment, reply (parentId) or annotation (anchor)
 router.post(
 	'/posts/:postId/comments',
 	apiRateLimiter,
+	requireActiveAccount,
 	validateParams(postIdSchema),
 	validateBody(createCommentBodySchema),
 	asyncHandler(async (req: Request, res: Response) => {
@@ -80,10 +120,23 @@ router.post(
 		const body = req.body as z.infer<typeof createCommentBodySchema>;
 		const userKey = getUserKey(req);
 
-		// Moderate content server-side defensively
-		const { isBlocked, moderatedText } = moderateComment(body.content);
-		const contentToSave = moderatedText;
-		const shouldHoldForReview = Boolean(body.needsModeration) || body.moderationStatus === 'flagged' || isBlocked;
+		const userId = (req as any).user?.id ?? undefined;
+		// Resolve the passage first so a stale selection fails before moderation records anything
+		const anchor = body.anchor ? await annotationService.resolveAnchor(postId, body.anchor) : undefined;
+		const context = await moderationService.buildCommentContext(postId, userId);
+		const result = await moderationService.evaluate(body.content, context);
+		if (result.action === 'reject') {
+			await moderationService.recordDecisions(result, { contentType: 'comment', contentId: null, content: body.content, actorKey: userKey });
+			throw createError('Your comment could not be posted because it violates our community guidelines', 422);
+		}
+
+		const ruleHolds = result.action === 'hold' || result.action === 'shadow_hide';
+		// A shadow-muted author sees the comment as posted; nobody else does, and it isn't queued.
+		// Comments a rule holds go to the queue as usual, so unmuting can't publish them unreviewed.
+		const muted = Boolean(req.user?.shadowMuted) && !ruleHolds;
+		const moderation = muted ? mutedCommentState() : toCommentModerationState(result);
+		const clientRequestedReview = Boolean(body.needsModeration) || body.moderationStatus === 'flagged';
+		const shouldHoldForReview = !muted && (clientRequestedReview || ruleHolds);
 
 		// Determine author name
 		const inferredAuthor = body.author && body.author.trim().length > 0
@@ -91,20 +144,38 @@ router.post(
 			: ((req as any).user?.username || ((req as any).user?.id ? 'User' : 'Guest'));
 
 		const insert = {
-			content: contentToSave,
+			content: result.text,
 			postId,
 			parentId: body.parentId ?? undefined,
-			userId: (req as any).user?.id ?? undefined,
+			userId,
 			is_approved: shouldHoldForReview ? false : true,
+			...(anchor ? { anchor } : {}),
 			metadata: {
 				author: inferredAuthor,
-				ownerKey: userKey
+				ownerKey: userKey,
+				...(moderation ? { moderation } : {}),
+				...(result.text !== body.content ? { moderated: true, originalContent: body.content } : {})
 			}
 		} as z.infer<typeof insertCommentSchema>;
 
 		const created = await storage.createComment(insert as any);
+		await moderationService.recordDecisions(result, { contentType: 'comment', contentId: created.id, content: body.content, actorKey: userKey });
+		if (clientRequestedReview && !result.action && !muted) {
+			await moderationService.flagContent({ contentType: 'comment', contentId: created.id, content: body.content, actorKey: userKey, reason: 'Held for review on submission' });
+		}
+		// Held comments reach other readers (and the parent's author) once a moderator approves them
+		if (isPubliclyVisible(created)) {
+			liveEventsService.commentCreated(created);
+			await webhookService.commentCreated(created);
+			if (created.parentId) await notificationService.commentReplied(created);
+		}
+
 		// Add isOwner to response for immediate UI use
-		(res as any).status(201).json({ ...created, approved: created.is_approved === true, isOwner: true });
+		(res as any).status(201).json({
+			...created,
+			approved: created.is_approved === true || result.action === 'shadow_hide' || muted,
+			isOwner: true
+		});
 	})
 );
 
@@ -130,11 +201,15 @@ router.post(
 		}
 
 		const counts = await storage.getCommentVoteCounts(commentId);
+		const comment = await storage.getComment(commentId);
+		if (comment && isPubliclyVisible(comment)) {
+			liveEventsService.commentVotes(comment.postId, commentId, counts);
+		}
 		res.json({ success: true, ...counts });
 	})
 );
 
-// POST /api/comments/:id/flag - flag a comment for moderation
+// POST /api/comments/:id/flag - report a comment (same queue as POST /api/report)
 router.post(
 	'/comments/:id/flag',
 	apiRateLimiter,
@@ -142,24 +217,10 @@ router.post(
 	validateBody(flagBodySchema),
 	asyncHandler(async (req: Request, res: Response) => {
 		const commentId = Number((req.params as any).id);
-		const { reason } = req.body as z.infer<typeof flagBodySchema>;
-		const userKey = getUserKey(req);
-
-		const existing = await storage.getComment(commentId);
-		if (!existing) {
-			throw createError('Comment not found', 404);
-		}
+		const { reason, note } = req.body as z.infer<typeof flagBodySchema>;
 
-		const updatedMeta = {
-			...(existing.metadata as any || {}),
-			status: 'flagged',
-			flaggedAt: new Date().toISOString(),
-			flaggedBy: userKey,
-			flagReason: reason || 'inappropriate content'
-		};
-
-		await storage.updateComment(commentId, { metadata: updatedMeta });
-		res.json({ success: true });
+		const result = await reportService.submit({ contentType: 'comment', contentId: commentId, reason, note }, reporterFrom(req));
+		res.json({ success: true, alreadyFlagged: result.alreadyReported, autoHidden: result.autoHidden });
 	})
 );
 
@@ -167,6 +228,7 @@ router.post(
 router.patch(
 	'/comments/:id',
 	apiRateLimiter,
+	requireActiveAccount,
 	validateParams(commentIdSchema),
 	validateBody(updateCommentBodySchema),
 	asyncHandler(async (req: Request, res: Response) => {
@@ -180,13 +242,32 @@ router.patch(
 		const isOwner = (existing.metadata as any)?.ownerKey && String((existing.metadata as any).ownerKey) === userKey;
 		if (!isOwner) throw createError('Not allowed to edit this comment', 403);
 
-		const { moderatedText } = moderateComment(content);
+		const context = await moderationService.buildCommentContext(existing.postId, existing.userId);
+		const result = await moderationService.evaluate(content, context);
+		if (result.action === 'reject') {
+			await moderationService.recordDecisions(result, { contentType: 'comment', contentId: commentId, content, actorKey: userKey });
+			throw createError('Your edit could not be saved because it violates our community guidelines', 422);
+		}
+
+		// An edit that trips a hold/shadow rule goes back into the queue
+		const moderation = toCommentModerationState(result);
+		const metadata = existing.metadata as CommentMetadata;
+		const requeue = result.action === 'hold' || result.action === 'shadow_hide';
 		const updated = await storage.updateComment(commentId, {
-			content: moderatedText,
+			content: result.text,
 			edited: true,
-			editedAt: new Date()
+			editedAt: new Date(),
+			...(requeue ? { is_approved: false } : {}),
+			...(moderation ? { metadata: { ...metadata, moderation } } : {})
 		});
-		res.json({ ...updated, approved: updated.is_approved === true, isOwner: true });
+		await moderationService.recordDecisions(result, { contentType: 'comment', contentId: commentId, content, actorKey: userKey });
+		// An edit that sent the comment back to the queue looks like a deletion to other readers
+		if (isPubliclyVisible(updated)) {
+			liveEventsService.commentUpdated(updated);
+		} else if (isPubliclyVisible(existing)) {
+			liveEventsService.commentDeleted(updated);
+		}
+		res.json({ ...updated, approved: updated.is_approved === true || result.action === 'shadow_hide', isOwner: true });
 	})
 );
 
@@ -206,6 +287,9 @@ router.delete(
 		if (!isOwner) throw createError('Not allowed to delete this comment', 403);
 
 		await storage.deleteComment(commentId);
+		if (isPubliclyVisible(existing)) {
+			liveEventsService.commentDeleted(existing);
+		}
 		res.json({ success: true });
 	})
 );
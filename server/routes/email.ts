@@ -4,9 +4,15 @@
  * API routes for email functionality
  */
 
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
 import logger from '../utils/logger';
-import { sendEmail } from '../services/email';
+import { asyncHandler } from '../utils/error-handler';
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { EMAIL_OUTBOX_STATUSES } from '@shared/schema';
+import { configuredProviders } from '../services/email';
+import { emailOutboxService } from '../services/email-outbox-service';
+import { emailTemplates, isEmailTemplateName, listEmailTemplates, renderEmailTemplate, type EmailTemplateName } from '../services/email-templates';
 import { checkGmailStatus } from '../services/gmail';
 import { checkSendGridStatus } from '../services/sendgrid';
 import { checkMailerSendStatus } from '../services/mailersend';
@@ -15,6 +21,44 @@ import { EmailMessage } from '../services/email-types';
 
 const router = Router();
 
+const outboxQuerySchema = z.object({
+  status: z.enum(EMAIL_OUTBOX_STATUSES).optional(),
+  category: z.string().max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const outboxIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const templateNameSchema = z.object({
+  name: z.string().refine(isEmailTemplateName, 'Unknown email template')
+});
+
+const templatePreviewQuerySchema = z.object({
+  format: z.enum(['html', 'text', 'json']).default('html')
+});
+
+const templatePreviewBodySchema = z.object({
+  // Merged over the template's sample data
+  variables: z.record(z.unknown()).default({})
+});
+
+function sendPreview(req: Request, res: Response, variables: Record<string, unknown>): void {
+  const name = req.params.name as EmailTemplateName;
+  const { format } = req.query as unknown as z.infer<typeof templatePreviewQuerySchema>;
+  const rendered = renderEmailTemplate(name, { ...emailTemplates[name].sample, ...variables } as never);
+
+  if (format === 'json') {
+    res.json(rendered);
+  } else if (format === 'text') {
+    res.type('text/plain').send(rendered.text);
+  } else {
+    res.type('html').send(rendered.html);
+  }
+}
+
 /**
  * GET /api/email/status
  * 
@@ -26,15 +70,19 @@ router.get('/status', isAdmin, async (req, res) => {
     const gmail = await checkGmailStatus();
     const sendgrid = await checkSendGridStatus();
     const mailersend = await checkMailerSendStatus();
+    const providers = configuredProviders().map(provider => provider.name);
     
     return res.json({
       success: true,
       services: {
         gmail,
         sendgrid,
-        mailersend
+        mailersend,
+        local: providers.includes('local')
       },
-      primaryService: gmail ? 'gmail' : (sendgrid ? 'sendgrid' : (mailersend ? 'mailersend' : 'none'))
+      // The order the outbox tries providers in
+      providers,
+      primaryService: providers[0] ?? 'none'
     });
   } catch (error: any) {
     logger.error('[Email] Error checking email service status', {
@@ -52,7 +100,7 @@ router.get('/status', isAdmin, async (req, res) => {
 /**
  * POST /api/email/test
  * 
- * Send a test email
+ * Queue a test email; its progress shows up in the outbox
  * Admin-only endpoint
  */
 router.post('/test', isAdmin, async (req, res) => {
@@ -74,13 +122,12 @@ router.post('/test', isAdmin, async (req, res) => {
       html: html || '<h1>Test Email</h1><p>This is a test email from Bubble\'s Cafe.</p>'
     };
     
-    // Send the email
-    const result = await sendEmail(message);
+    const queued = await emailOutboxService.enqueue(message, { category: 'test' });
     
     return res.json({
       success: true,
-      message: 'Test email sent successfully',
-      details: result
+      message: 'Test email queued',
+      details: { outboxId: queued.id }
     });
   } catch (error: any) {
     logger.error('[Email] Error sending test email', {
@@ -96,4 +143,84 @@ router.post('/test', isAdmin, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/email/outbox
+ * 
+ * Recent outgoing email, newest first
+ * Admin-only endpoint
+ */
+router.get('/outbox', isAdmin, validateQuery(outboxQuerySchema), asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as unknown as z.infer<typeof outboxQuerySchema>;
+  res.json(await emailOutboxService.list(query));
+}));
+
+/**
+ * GET /api/email/outbox/stats
+ * 
+ * Message counts by status, and by provider for the last week
+ * Admin-only endpoint
+ */
+router.get('/outbox/stats', isAdmin, asyncHandler(async (_req: Request, res: Response) => {
+  res.json(await emailOutboxService.getStats());
+}));
+
+/**
+ * GET /api/email/outbox/:id
+ * 
+ * One message including its body and delivery log; bodies with reset or sign-in links are withheld
+ * Admin-only endpoint
+ */
+router.get('/outbox/:id', isAdmin, validateParams(outboxIdSchema), asyncHandler(async (req: Request, res: Response) => {
+  res.json(await emailOutboxService.get(Number(req.params.id)));
+}));
+
+/**
+ * POST /api/email/outbox/:id/resend
+ * 
+ * Queue a copy of a sent, failed or cancelled message, unless it carried a reset or sign-in link
+ * Admin-only endpoint
+ */
+router.post('/outbox/:id/resend', isAdmin, validateParams(outboxIdSchema), asyncHandler(async (req: Request, res: Response) => {
+  res.status(201).json(await emailOutboxService.resend(Number(req.params.id)));
+}));
+
+/**
+ * GET /api/email/templates
+ * 
+ * Transactional email templates with their sample variables
+ * Admin-only endpoint
+ */
+router.get('/templates', isAdmin, (_req: Request, res: Response) => {
+  res.json(listEmailTemplates());
+});
+
+/**
+ * GET /api/email/templates/:name/preview?format=html|text|json
+ * 
+ * Render a template with its sample data
+ * Admin-only endpoint
+ */
+router.get('/templates/:name/preview',
+  isAdmin,
+  validateParams(templateNameSchema),
+  validateQuery(templatePreviewQuerySchema),
+  (req: Request, res: Response) => sendPreview(req, res, {})
+);
+
+/**
+ * POST /api/email/templates/:name/preview?format=html|text|json
+ * 
+ * Render a template with the given variables; anything omitted falls back to the sample
+ * Admin-only endpoint
+ */
+router.post('/templates/:name/preview',
+  isAdmin,
+  validateParams(templateNameSchema),
+  validateQuery(templatePreviewQuerySchema),
+  validateBody(templatePreviewBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    sendPreview(req, res, (req.body as z.infer<typeof templatePreviewBodySchema>).variables);
+  })
+);
+
 export default router;
\ No newline at end of file
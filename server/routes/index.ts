@@ -9,6 +9,14 @@ import newsletterRoutes from './newsletter';
 // import bookmarksRoutes from './bookmarks';
 import emailRoutes from './email';
 import moderationRoutes from './moderation';
+import notificationRoutes from './notifications';
+import webhookRoutes from './webhooks';
+import newsletterCampaignRoutes from './newsletter-campaigns';
+import challengeRoutes from './challenges';
+import readingProgressRoutes from './reading-progress';
+import accountDataRoutes from './account-data';
+import storyDraftRoutes from './story-drafts';
+import submissionRoutes from './submissions';
 import analyticsRoutes from './analytics';
 import { registerPrivacySettingsRoutes } from './privacy-settings';
 import { registerRecommendationsRoutes } from './recommendations';
@@ -45,6 +53,14 @@ export function registerModularRoutes(app: Express) {
     app.use('/api/posts', postsRouter);
     routesLogger.info('Posts routes registered');
 
+    // Autosaved story drafts
+    app.use('/api/story-drafts', storyDraftRoutes);
+    routesLogger.info('Story draft routes registered');
+
+    // Editorial review of community submissions
+    app.use('/api/submissions', submissionRoutes);
+    routesLogger.info('Submission routes registered');
+
     // Comments routes  
     app.use('/api', commentsRouter);
     routesLogger.info('Comments routes registered');
@@ -67,6 +83,18 @@ export function registerModularRoutes(app: Express) {
     app.use('/api', moderationRoutes);
     routesLogger.info('Moderation routes registered');
 
+    // Reader notification routes
+    app.use('/api/notifications', notificationRoutes);
+    routesLogger.info('Notification routes registered');
+
+    // Writing challenge routes
+    app.use('/api/challenges', challengeRoutes);
+    routesLogger.info('Challenge routes registered');
+
+    // Cross-device reading progress
+    app.use('/api/reading-progress', readingProgressRoutes);
+    routesLogger.info('Reading progress routes registered');
+
     // Analytics routes
     app.use('/api/analytics', analyticsRoutes);
     routesLogger.info('Analytics routes registered');
@@ -75,10 +103,22 @@ export function registerModularRoutes(app: Express) {
     registerPrivacySettingsRoutes(app, storage);
     routesLogger.info('Privacy settings routes registered');
 
+    // Personal data export and account deletion
+    app.use('/api/account', accountDataRoutes);
+    routesLogger.info('Account data routes registered');
+
     // Recommendations (function-based registration)
     registerRecommendationsRoutes(app, storage);
     routesLogger.info('Recommendations routes registered');
 
+    // Newsletter campaigns (admin)
+    app.use('/api/admin/newsletter', newsletterCampaignRoutes);
+    routesLogger.info('Newsletter campaign routes registered');
+
+    // Outbound webhooks (admin)
+    app.use('/api/admin/webhooks', webhookRoutes);
+    routesLogger.info('Webhook routes registered');
+
     // Admin
     app.use('/api/admin', adminRoutes);
     routesLogger.info('Admin routes registered');
@@ -1,67 +1,396 @@
 import { Router } from 'express';
-import { requireAuth, requireAdmin } from '../middlewares/auth';
+import { requireAuth, requirePermission, requireActiveAccount } from '../middlewares/auth';
 import { apiRateLimiter } from '../middlewares/rate-limiter';
 import { storage } from '../storage';
+import { AppError } from '../utils/error-handler';
+import { moderationService, toCommentModerationState, mutedCommentState } from '../services/moderation-service';
+import { notificationService } from '../services/notification-service';
+import { plagiarismService } from '../services/plagiarism-service';
+import { reportService, reporterFrom } from '../services/report-service';
+import {
+  SIMILARITY_REPORT_STATUSES,
+  REPORT_ACTIONS,
+  REPORT_CONTENT_TYPES,
+  REPORT_STATUSES,
+  type ReportContentType
+} from '@shared/schema';
+import { MODERATION_ACTIONS, MODERATION_RULE_TYPES } from '../utils/comment-moderation';
 import { z } from 'zod';
 
 const router = Router();
 
-// Get all reported content
-router.get('/reported-content', requireAuth, requireAdmin, apiRateLimiter, async (req, res) => {
+const ruleSetSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  context: z.enum(['comment', 'post', 'all']).default('comment'),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().min(-100).max(100).default(0)
+});
+
+const ruleConfigSchema = z.object({
+  words: z.array(z.string().min(1).max(100)).max(500).optional(),
+  pattern: z.string().min(1).max(500).optional(),
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+  maxLinks: z.number().int().min(0).max(50).optional(),
+  minAccountAgeHours: z.number().min(0).max(24 * 365).optional(),
+  includeAnonymous: z.boolean().optional()
+});
+
+const ruleSchema = z.object({
+  ruleSetId: z.number().int().positive(),
+  name: z.string().min(1).max(100),
+  type: z.enum(MODERATION_RULE_TYPES as [string, ...string[]]),
+  action: z.enum(MODERATION_ACTIONS as [string, ...string[]]),
+  config: ruleConfigSchema.default({}),
+  enabled: z.boolean().default(true)
+});
+
+// 'global', a content type, or 'theme:<category>' to scope a term to one story theme
+const allowlistContextSchema = z.string().regex(/^(global|comment|post|theme:[a-z0-9_-]+)$/);
+
+const allowlistSchema = z.object({
+  term: z.string().min(1).max(100),
+  context: allowlistContextSchema.default('global'),
+  note: z.string().max(200).optional()
+});
+
+const reviewSchema = z.object({
+  note: z.string().max(500).optional()
+});
+
+const bulkReviewSchema = z.object({
+  contentIds: z.array(z.number().int().positive()).min(1).max(100),
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().max(500).optional()
+});
+
+const testSchema = z.object({
+  content: z.string().min(1).max(5000),
+  themeCategory: z.string().max(50).optional()
+});
+
+const similarityQuerySchema = z.object({
+  status: z.enum(SIMILARITY_REPORT_STATUSES).optional(),
+  postId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const similarityDecisionSchema = z.object({
+  decision: z.enum(['dismiss', 'confirm'])
+});
+
+const similarityCheckSchema = z.object({
+  content: z.string().min(1).max(50000)
+});
+
+const reportSchema = z.object({
+  contentType: z.enum(REPORT_CONTENT_TYPES),
+  contentId: z.number().int().positive(),
+  // A REPORT_REASONS value; free text from older clients is filed under 'other'
+  reason: z.string().max(500).optional(),
+  note: z.string().max(1000).nullable().optional()
+});
+
+const reportQuerySchema = z.object({
+  status: z.enum(REPORT_STATUSES).default('pending'),
+  contentType: z.enum(REPORT_CONTENT_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const reportResolutionSchema = z.object({
+  action: z.enum(REPORT_ACTIONS),
+  note: z.string().max(1000).nullable().optional()
+});
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) || id <= 0 ? null : id;
+}
+
+function sendModerationError(res: any, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: 'Invalid moderation data',
+      errors: error.errors.map(err => ({ path: err.path.join('.'), message: err.message }))
+    });
+  }
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`[Moderation] ${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// Review queue: comments held by a rule, shadow-hidden, or flagged by readers
+router.get('/moderation/queue', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
   try {
-    const reportedContent = await storage.getReportedContent();
-    return res.json(reportedContent);
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const queue = await moderationService.getQueue({ limit, offset });
+    return res.json(queue);
   } catch (error) {
-    console.error('Error fetching reported content:', error);
-    return res.status(500).json({ error: 'Failed to fetch reported content' });
+    return sendModerationError(res, error, 'Failed to fetch moderation queue');
   }
 });
 
-// Update reported content status
-router.patch('/reported-content/:id', requireAuth, requireAdmin, apiRateLimiter, async (req, res) => {
+router.post('/moderation/queue/bulk', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
   try {
-    const schema = z.object({
-      status: z.enum(['approved', 'rejected'])
+    const { contentIds, decision, note } = bulkReviewSchema.parse(req.body);
+    const reviewed = await moderationService.reviewComments(contentIds, decision, (req as any).user.id, note);
+    return res.json({ success: true, decision, reviewed });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to apply bulk moderation action');
+  }
+});
+
+router.post('/moderation/queue/:id/:decision(approve|reject)', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    const { note } = reviewSchema.parse(req.body ?? {});
+    const decision = req.params.decision as 'approve' | 'reject';
+    await moderationService.reviewComments([id], decision, (req as any).user.id, note);
+    return res.json({ success: true, decision, reviewed: [id] });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to review content');
+  }
+});
+
+// Decision log: which rule fired on what, and who reviewed it
+router.get('/moderation/decisions', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
+  try {
+    const decisions = await moderationService.getDecisionLog({
+      contentType: req.query.contentType as string | undefined,
+      contentId: parseId(req.query.contentId as string) ?? undefined,
+      ruleId: parseId(req.query.ruleId as string) ?? undefined,
+      status: req.query.status as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      offset: Math.max(parseInt(req.query.offset as string) || 0, 0)
     });
+    return res.json(decisions);
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to fetch moderation decisions');
+  }
+});
 
-    const { status } = schema.parse(req.body);
-    const id = parseInt(req.params.id);
-    
-    // Validate that id is a valid number
-    if (isNaN(id) || id <= 0) {
+// Near-duplicate reports raised when stories are submitted or edited
+router.get('/moderation/similarity-reports', requireAuth, requirePermission('posts.review'), apiRateLimiter, async (req, res) => {
+  try {
+    const query = similarityQuerySchema.parse(req.query);
+    return res.json(await plagiarismService.listReports(query));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to fetch similarity reports');
+  }
+});
+
+// Dismissing the last open report on a held story publishes it; confirming keeps it hidden
+router.patch('/moderation/similarity-reports/:id', requireAuth, requirePermission('posts.review'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    const { decision } = similarityDecisionSchema.parse(req.body);
+    return res.json(await plagiarismService.resolveReport(id, decision, (req as any).user.id));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to review similarity report');
+  }
+});
+
+// Check arbitrary text against every fingerprinted story without storing anything
+router.post('/moderation/similarity/check', requireAuth, requirePermission('posts.review'), apiRateLimiter, async (req, res) => {
+  try {
+    const { content } = similarityCheckSchema.parse(req.body);
+    return res.json({ matches: await plagiarismService.findMatches(content) });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to check content similarity');
+  }
+});
+
+// Fingerprint stories that are missing from the index (e.g. written before it existed)
+router.post('/moderation/similarity/reindex', requireAuth, requirePermission('posts.review'), apiRateLimiter, async (req, res) => {
+  try {
+    return res.json({ indexed: await plagiarismService.reindexMissing() });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to rebuild the similarity index');
+  }
+});
+
+// Dry-run the active rules against sample text
+router.post('/moderation/test', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const { content, themeCategory } = testSchema.parse(req.body);
+    const result = await moderationService.evaluate(content, { contentType: 'comment', themeCategory, isAnonymous: false });
+    return res.json(result);
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to test moderation rules');
+  }
+});
+
+router.get('/moderation/rule-sets', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    return res.json(await moderationService.getRuleSets());
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to fetch moderation rules');
+  }
+});
+
+router.post('/moderation/rule-sets', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const data = ruleSetSchema.parse(req.body);
+    return res.status(201).json(await moderationService.createRuleSet(data));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to create rule set');
+  }
+});
+
+router.patch('/moderation/rule-sets/:id', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    const data = ruleSetSchema.partial().parse(req.body);
+    return res.json(await moderationService.updateRuleSet(id, data));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to update rule set');
+  }
+});
+
+router.delete('/moderation/rule-sets/:id', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    await moderationService.deleteRuleSet(id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to delete rule set');
+  }
+});
+
+router.post('/moderation/rules', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const data = ruleSchema.parse(req.body);
+    return res.status(201).json(await moderationService.createRule(data));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to create rule');
+  }
+});
+
+router.patch('/moderation/rules/:id', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
       return res.status(400).json({ error: 'Invalid ID parameter' });
     }
+    const data = ruleSchema.omit({ ruleSetId: true }).partial().parse(req.body);
+    return res.json(await moderationService.updateRule(id, data));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to update rule');
+  }
+});
+
+router.delete('/moderation/rules/:id', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    await moderationService.deleteRule(id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to delete rule');
+  }
+});
+
+router.get('/moderation/allowlist', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const context = req.query.context ? allowlistContextSchema.parse(req.query.context) : undefined;
+    return res.json(await moderationService.getAllowlist(context));
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to fetch allowlist');
+  }
+});
 
-    // Update the content status
-    const updatedContent = await storage.updateReportedContent(id, status);
-    return res.json(updatedContent);
+router.post('/moderation/allowlist', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const { term, context, note } = allowlistSchema.parse(req.body);
+    return res.status(201).json(await moderationService.addAllowlistEntry(term, context, (req as any).user.id, note));
   } catch (error) {
-    console.error('Error updating reported content:', error);
-    return res.status(500).json({ error: 'Failed to update content status' });
+    return sendModerationError(res, error, 'Failed to add allowlist entry');
   }
 });
 
-// Report new content
+router.delete('/moderation/allowlist/:id', requireAuth, requirePermission('moderation.configure'), apiRateLimiter, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    await moderationService.removeAllowlistEntry(id);
+    return res.json({ success: true });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to remove allowlist entry');
+  }
+});
+
+// Report a post or comment; signed-in readers are identified by account, everyone else by session
 router.post('/report', apiRateLimiter, async (req, res) => {
   try {
-    const schema = z.object({
-      contentType: z.string(),
-      contentId: z.number(),
-      reason: z.string(),
-      reporterId: z.number()
-    });
+    const report = reportSchema.parse(req.body);
+    const result = await reportService.submit(report, reporterFrom(req));
+    return res.status(result.alreadyReported ? 200 : 201).json(result);
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to create content report');
+  }
+});
+
+// Reported content grouped per item, most reported first
+router.get('/moderation/reports', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
+  try {
+    const query = reportQuerySchema.parse(req.query);
+    const [list, counts] = await Promise.all([reportService.listCases(query), reportService.getCounts()]);
+    return res.json({ ...list, counts });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to fetch reports');
+  }
+});
 
-    const report = schema.parse(req.body);
-    const newReport = await storage.reportContent(report);
-    return res.status(201).json(newReport);
+router.get('/moderation/reports/:contentType(post|comment)/:contentId/history', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
+  try {
+    const contentId = parseId(req.params.contentId);
+    if (!contentId) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    return res.json(await reportService.getHistory(req.params.contentType as ReportContentType, contentId));
   } catch (error) {
-    console.error('Error creating content report:', error);
-    return res.status(500).json({ error: 'Failed to create content report' });
+    return sendModerationError(res, error, 'Failed to fetch report history');
+  }
+});
+
+// Close every open report on an item with one action
+router.post('/moderation/reports/:contentType(post|comment)/:contentId/resolve', requireAuth, requirePermission('comments.moderate'), apiRateLimiter, async (req, res) => {
+  try {
+    const contentId = parseId(req.params.contentId);
+    if (!contentId) {
+      return res.status(400).json({ error: 'Invalid ID parameter' });
+    }
+    const { action, note } = reportResolutionSchema.parse(req.body);
+    const result = await reportService.resolve(req.params.contentType as ReportContentType, contentId, action, (req as any).user.id, note);
+    return res.json({ success: true, action, ...result });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to resolve reports');
   }
 });
 
 // Add reply to a comment
-router.post('/comments/:commentId/replies', requireAuth, apiRateLimiter, async (req, res) => {
+router.post('/comments/:commentId/replies', requireAuth, requireActiveAccount, apiRateLimiter, async (req, res) => {
   try {
     const schema = z.object({
       content: z.string().min(1, "Reply content is required"),
@@ -78,21 +407,38 @@ router.post('/comments/:commentId/replies', requireAuth, apiRateLimiter, async (
 
     const userKey = (req as any).user?.id?.toString() || ((req as any).sessionID ? `anon:${(req as any).sessionID}` : 'anon');
 
+    const parent = await storage.getComment(commentId);
+    const context = await moderationService.buildCommentContext(parent?.postId, (req as any).user?.id);
+    const result = await moderationService.evaluate(content, context);
+    if (result.action === 'reject') {
+      await moderationService.recordDecisions(result, { contentType: 'comment', contentId: null, content, actorKey: userKey });
+      return res.status(422).json({ error: 'Your reply could not be posted because it violates our community guidelines' });
+    }
+
+    const held = result.action === 'hold' || result.action === 'shadow_hide';
+    // Replies from a shadow-muted account are shown only to them, like their comments
+    const muted = Boolean(req.user?.shadowMuted) && !held;
+    const moderation = muted ? mutedCommentState() : toCommentModerationState(result);
     const reply = await storage.createCommentReply({
-      content,
+      content: result.text,
       postId: null,
       parentId: commentId,
       userId: (req as any).user?.id || null,
       metadata: {
         author: author || 'Anonymous',
         isAnonymous: !(req as any).user?.id,
-        moderated: false,
+        moderated: result.text !== content,
         originalContent: content,
         upvotes: 0,
-        downvotes: 0
+        downvotes: 0,
+        ...(moderation ? { moderation } : {})
       },
-      is_approved: true
+      is_approved: !held
     });
+    await moderationService.recordDecisions(result, { contentType: 'comment', contentId: reply.id, content, actorKey: userKey });
+    if (!held && !muted) {
+      await notificationService.commentReplied({ ...reply, postId: parent?.postId ?? null });
+    }
 
     return res.status(201).json(reply);
   } catch (error) {
@@ -0,0 +1,149 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { NEWSLETTER_SEND_STATUSES } from "@shared/schema";
+import { requireAuth, requireAdmin } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { newsletterCampaignService } from "../services/newsletter-campaign-service";
+
+const router = Router();
+
+const campaignBodySchema = z.object({
+  subject: z.string().trim().min(1).max(200),
+  previewText: z.string().trim().max(200).nullable().optional(),
+  content: z.string().min(1).max(200000)
+});
+
+const digestBodySchema = z.object({
+  since: z.coerce.date().optional()
+});
+
+const scheduleBodySchema = z.object({
+  // Omit to send right away
+  scheduledFor: z.coerce.date().optional()
+});
+
+const testBodySchema = z.object({
+  email: commonSchemas.email
+});
+
+const campaignIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const recipientsQuerySchema = z.object({
+  status: z.enum(NEWSLETTER_SEND_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+router.use(requireAuth, requireAdmin, apiRateLimiter);
+
+// GET /api/admin/newsletter/campaigns
+router.get('/campaigns',
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({ campaigns: await newsletterCampaignService.list() });
+  })
+);
+
+// POST /api/admin/newsletter/campaigns - new draft
+router.post('/campaigns',
+  validateBody(campaignBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const campaign = await newsletterCampaignService.create(req.body as z.infer<typeof campaignBodySchema>, req.user!.id);
+    res.status(201).json(campaign);
+  })
+);
+
+// POST /api/admin/newsletter/campaigns/digest - draft a digest of newly published stories
+router.post('/campaigns/digest',
+  validateBody(digestBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { since } = req.body as z.infer<typeof digestBodySchema>;
+    res.status(201).json(await newsletterCampaignService.createDigest(req.user!.id, since));
+  })
+);
+
+// GET /api/admin/newsletter/campaigns/:id - campaign plus per-status recipient counts
+router.get('/campaigns/:id',
+  validateParams(campaignIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const [campaign, stats] = await Promise.all([newsletterCampaignService.get(id), newsletterCampaignService.getStats(id)]);
+    res.json({ campaign, stats });
+  })
+);
+
+router.patch('/campaigns/:id',
+  validateParams(campaignIdSchema),
+  validateBody(campaignBodySchema.partial()),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await newsletterCampaignService.update(Number(req.params.id), req.body as Partial<z.infer<typeof campaignBodySchema>>));
+  })
+);
+
+router.delete('/campaigns/:id',
+  validateParams(campaignIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await newsletterCampaignService.remove(Number(req.params.id));
+    res.status(204).end();
+  })
+);
+
+// GET /api/admin/newsletter/campaigns/:id/preview - the email as subscribers will see it
+router.get('/campaigns/:id/preview',
+  validateParams(campaignIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const rendered = await newsletterCampaignService.preview(Number(req.params.id));
+    if (req.query.format === 'json') {
+      res.json(rendered);
+      return;
+    }
+    res.type('html').send(rendered.html);
+  })
+);
+
+// POST /api/admin/newsletter/campaigns/:id/test - send one copy to an address of your choice
+router.post('/campaigns/:id/test',
+  validateParams(campaignIdSchema),
+  validateBody(testBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await newsletterCampaignService.sendTest(Number(req.params.id), (req.body as z.infer<typeof testBodySchema>).email);
+    res.json({ success: true });
+  })
+);
+
+router.post('/campaigns/:id/schedule',
+  validateParams(campaignIdSchema),
+  validateBody(scheduleBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { scheduledFor } = req.body as z.infer<typeof scheduleBodySchema>;
+    res.json(await newsletterCampaignService.schedule(Number(req.params.id), scheduledFor));
+  })
+);
+
+// POST /api/admin/newsletter/campaigns/:id/cancel - unschedule, or stop a send in progress
+router.post('/campaigns/:id/cancel',
+  validateParams(campaignIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await newsletterCampaignService.cancel(Number(req.params.id)));
+  })
+);
+
+// GET /api/admin/newsletter/campaigns/:id/recipients - per-recipient send status
+router.get('/campaigns/:id/recipients',
+  validateParams(campaignIdSchema),
+  validateQuery(recipientsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof recipientsQuerySchema>;
+    const recipients = await newsletterCampaignService.listRecipients(Number(req.params.id), {
+      status: query.status,
+      limit: Number(query.limit),
+      offset: Number(query.offset)
+    });
+    res.json({ recipients });
+  })
+);
+
+export default router;
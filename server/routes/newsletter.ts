@@ -1,65 +1,29 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import { storage } from '../storage';
 import { insertNewsletterSubscriptionSchema } from '@shared/schema';
 import { z } from 'zod';
-import { sendNewsletterWelcomeEmail } from '../utils/send-email';
-import { validateBody } from '../middleware/input-validation';
+import { validateBody, validateParams } from '../middleware/input-validation';
+import { timingSafeEqual } from 'crypto';
+import { asyncHandler, createError } from '../utils/error-handler';
+import { newsletterCampaignService, extractBouncedEmails } from '../services/newsletter-campaign-service';
+import { newsletterSubscriptionService } from '../services/newsletter-subscription-service';
+import { escapeHtml } from '../services/email-templates';
 
 const router = Router();
 
-// POST /api/newsletter/subscribe
+// POST /api/newsletter/subscribe - double opt-in: the address gets a confirmation link and
+// stays pending until it is followed. The reply is the same whether or not it was subscribed.
 router.post('/subscribe', validateBody(insertNewsletterSubscriptionSchema), async (req, res) => {
   try {
     // Already validated and sanitized by validateBody
     const validatedData = req.body as z.infer<typeof insertNewsletterSubscriptionSchema>;
-    
-    // Check if this email already exists in the database
-    const existingSubscription = await storage.getNewsletterSubscriptionByEmail(validatedData.email);
-    
-    // If the subscription already exists and is active, just return success
-    if (existingSubscription && existingSubscription.status === 'active') {
-      return res.status(200).json({
-        success: true,
-        message: 'You are already subscribed to the newsletter',
-        data: existingSubscription,
-        alreadySubscribed: true
-      });
-    }
-    
-    // Subscribe to the newsletter
-    const subscription = await storage.createNewsletterSubscription(validatedData);
-    
-    // Attempt to send welcome email if it's a new subscription or reactivation
-    let emailStatus = { sent: false, error: null as string | null };
-    if (subscription && (subscription.status === 'active')) {
-      try {
-        // Try to send welcome email
-        const emailSent = await sendNewsletterWelcomeEmail(subscription.email);
-        emailStatus.sent = emailSent;
-        
-        if (emailSent) {
-          console.log(`[Newsletter] Welcome email sent to ${subscription.email}`);
-        } else {
-          console.warn(`[Newsletter] Failed to send welcome email to ${subscription.email}`);
-          emailStatus.error = 'Email configuration issue';
-        }
-      } catch (emailError) {
-        console.error(`[Newsletter] Error sending welcome email to ${subscription.email}:`, emailError);
-        emailStatus.error = emailError instanceof Error ? emailError.message : 'Unknown error';
-      }
-    }
-    
-    // Return success response with email status
+
+    await newsletterSubscriptionService.subscribe(validatedData.email, (validatedData.metadata || {}) as Record<string, unknown>);
+
     return res.status(200).json({
       success: true,
-      message: 'Successfully subscribed to the newsletter',
-      data: subscription,
-      email: {
-        sent: emailStatus.sent,
-        message: emailStatus.sent 
-          ? 'Welcome email sent successfully' 
-          : 'Welcome email could not be sent at this time, but your subscription is active'
-      }
+      pending: true,
+      message: 'Check your inbox for a link to confirm your subscription'
     });
   } catch (error) {
     console.error('[Newsletter] Subscription error:', error);
@@ -111,36 +75,29 @@ router.get('/subscriptions', async (req, res) => {
   }
 });
 
-// POST /api/newsletter/unsubscribe
+// POST /api/newsletter/unsubscribe - takes the signed token from an unsubscribe link, so it
+// can't be used to unsubscribe somebody else's address
 const unsubscribeSchema = z.object({
-  email: z.string().email('Please enter a valid email address')
+  token: z.string().min(1).max(200)
 });
 
 router.post('/unsubscribe', validateBody(unsubscribeSchema), async (req, res) => {
   try {
     const validatedData = req.body as z.infer<typeof unsubscribeSchema>;
-    
-    // Change subscription status to 'unsubscribed'
-    const subscription = await storage.updateNewsletterSubscriptionStatus(
-      validatedData.email,
-      'unsubscribed'
-    );
-    
-    // Return success response
+    await newsletterSubscriptionService.unsubscribe(validatedData.token);
+
     return res.status(200).json({
       success: true,
-      message: 'Successfully unsubscribed from the newsletter',
-      data: subscription
+      message: 'Successfully unsubscribed from the newsletter'
     });
   } catch (error) {
     console.error('[Newsletter] Unsubscribe error:', error);
-    
-    // Check if it's a validation error
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
+
+    const status = (error as { statusCode?: number }).statusCode;
+    if (status === 404) {
+      return res.status(404).json({
         success: false,
-        message: 'Invalid email address',
-        errors: error.errors
+        message: 'This unsubscribe link is not valid'
       });
     }
     
@@ -152,4 +109,80 @@ router.post('/unsubscribe', validateBody(unsubscribeSchema), async (req, res) =>
   }
 });
 
-export default router;
\ No newline at end of file
+// Links from newsletter emails. GET only shows a button so mail scanners that prefetch links
+// can't confirm or unsubscribe anyone; the button (and RFC 8058 one-click clients) POST.
+const tokenParamsSchema = z.object({
+  token: z.string().min(1).max(200)
+});
+
+// Everything passed in is plain text and escaped here
+function newsletterPage(title: string, message: string, action?: { url: string; label: string }): string {
+  const form = action
+    ? `<form method="post" action="${escapeHtml(action.url)}"><button type="submit" style="background: #5d4037; color: #fff; border: 0; border-radius: 6px; padding: 10px 20px; font-size: 16px; cursor: pointer;">${escapeHtml(action.label)}</button></form>`
+    : '';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: 'Georgia', serif; background: #f9f7f4; color: #333; display: flex; justify-content: center; padding: 60px 20px;">
+<div style="max-width: 480px; text-align: center;"><h1 style="color: #5d4037;">${escapeHtml(title)}</h1><p style="font-size: 16px; line-height: 1.6;">${escapeHtml(message)}</p>${form}</div>
+</body></html>`;
+}
+
+function sendLinkError(res: Response, error: unknown, fallback: string) {
+  const status = (error as { statusCode?: number }).statusCode ?? 500;
+  console.error('[Newsletter] Link error:', error);
+  res.status(status).type('html').send(newsletterPage(
+    'Something went wrong',
+    status < 500 && error instanceof Error ? error.message : fallback
+  ));
+}
+
+router.get('/confirm/:token', validateParams(tokenParamsSchema), (req, res) => {
+  res.type('html').send(newsletterPage(
+    "Confirm your subscription",
+    "Press the button below to start receiving the Bubble's Cafe newsletter.",
+    { url: `/api/newsletter/confirm/${encodeURIComponent(req.params.token)}`, label: 'Confirm subscription' }
+  ));
+});
+
+router.post('/confirm/:token', validateParams(tokenParamsSchema), async (req, res) => {
+  try {
+    await newsletterSubscriptionService.confirm(req.params.token);
+    res.type('html').send(newsletterPage("You're subscribed", "Thanks for confirming. A welcome email is on its way."));
+  } catch (error) {
+    sendLinkError(res, error, 'We could not confirm your subscription right now. Please try again later.');
+  }
+});
+
+router.get('/unsubscribe/:token', validateParams(tokenParamsSchema), (req, res) => {
+  res.type('html').send(newsletterPage(
+    "Unsubscribe from Bubble's Cafe",
+    "Press the button below and we'll stop sending you the newsletter.",
+    { url: `/api/newsletter/unsubscribe/${encodeURIComponent(req.params.token)}`, label: 'Unsubscribe' }
+  ));
+});
+
+router.post('/unsubscribe/:token', validateParams(tokenParamsSchema), async (req, res) => {
+  try {
+    await newsletterSubscriptionService.unsubscribe(req.params.token);
+    res.type('html').send(newsletterPage("You're unsubscribed", "You won't receive any more newsletters from Bubble's Cafe."));
+  } catch (error) {
+    sendLinkError(res, error, 'We could not unsubscribe you right now. Please try again later.');
+  }
+});
+
+// POST /api/newsletter/bounces - hard-bounce events from the mail provider
+router.post('/bounces', asyncHandler(async (req: Request, res: Response) => {
+  const secret = process.env.NEWSLETTER_BOUNCE_SECRET;
+  if (!secret) {
+    throw createError('Bounce handling is not configured', 503);
+  }
+  const given = Buffer.from(String(req.query.token ?? req.get('x-bounce-token') ?? ''));
+  const expected = Buffer.from(secret);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw createError.forbidden('Invalid bounce token');
+  }
+
+  const updated = await newsletterCampaignService.recordBounces(extractBouncedEmails(req.body));
+  res.json({ success: true, updated });
+}));
+
+export default router;
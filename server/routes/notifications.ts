@@ -0,0 +1,109 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { NOTIFICATION_TYPES } from "@shared/schema";
+import { THEME_CATEGORIES } from "@shared/theme-categories";
+import { requireAuth } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { notificationService } from "../services/notification-service";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const notificationIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const preferencesBodySchema = z.object({
+  preferences: z.object(
+    Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, z.boolean().optional()])) as Record<typeof NOTIFICATION_TYPES[number], z.ZodOptional<z.ZodBoolean>>
+  ).optional(),
+  followedThemes: z.array(
+    z.string().refine(theme => theme in THEME_CATEGORIES, { message: 'Unknown theme category' })
+  ).max(Object.keys(THEME_CATEGORIES).length).optional()
+});
+
+router.use(requireAuth, apiRateLimiter);
+
+// GET /api/notifications - newest first, with the unread badge count
+router.get('/',
+  validateQuery(listQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const result = await notificationService.list(req.user!.id, {
+      unreadOnly: query.unread === 'true',
+      limit: query.limit,
+      offset: query.offset
+    });
+    res.json(result);
+  })
+);
+
+// GET /api/notifications/unread-count - cheap poll for the header bell
+router.get('/unread-count',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({ unreadCount: await notificationService.getUnreadCount(req.user!.id) });
+  })
+);
+
+// GET /api/notifications/preferences
+router.get('/preferences',
+  asyncHandler(async (req: Request, res: Response) => {
+    const [preferences, followedThemes] = await Promise.all([
+      notificationService.getPreferences(req.user!.id),
+      notificationService.getFollowedThemes(req.user!.id)
+    ]);
+    res.json({ preferences, followedThemes });
+  })
+);
+
+// PUT /api/notifications/preferences - partial update of per-type toggles and/or followed themes
+router.put('/preferences',
+  validateBody(preferencesBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = req.body as z.infer<typeof preferencesBodySchema>;
+    const userId = req.user!.id;
+
+    const preferences = body.preferences
+      ? await notificationService.setPreferences(userId, body.preferences)
+      : await notificationService.getPreferences(userId);
+    const followedThemes = body.followedThemes
+      ? await notificationService.setFollowedThemes(userId, body.followedThemes)
+      : await notificationService.getFollowedThemes(userId);
+
+    res.json({ preferences, followedThemes });
+  })
+);
+
+// POST /api/notifications/read-all
+router.post('/read-all',
+  asyncHandler(async (req: Request, res: Response) => {
+    const updated = await notificationService.markAllRead(req.user!.id);
+    res.json({ success: true, updated, unreadCount: 0 });
+  })
+);
+
+// POST /api/notifications/:id/read
+router.post('/:id/read',
+  validateParams(notificationIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const notification = await notificationService.markRead(req.user!.id, Number(req.params.id));
+    res.json({ notification, unreadCount: await notificationService.getUnreadCount(req.user!.id) });
+  })
+);
+
+// DELETE /api/notifications - clear the whole list
+router.delete('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await notificationService.clear(req.user!.id);
+    res.json({ success: true, deleted });
+  })
+);
+
+export default router;
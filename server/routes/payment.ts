@@ -10,6 +10,7 @@ import * as paystackService from '../services/paystack';
 import { storage } from '../storage';
 import { z } from 'zod';
 import { validateBody, validateParams } from '../middleware/input-validation';
+import { webhookService } from '../services/webhook-service';
 
 /**
  * Register payment routes
@@ -23,6 +24,15 @@ export const registerPaymentRoutes = (app: Express) => {
       const rawBody = req.body as any; // raw Buffer
       const parsed = rawBody && Buffer.isBuffer(rawBody) ? JSON.parse(rawBody.toString('utf8')) : rawBody;
       const event = paystackService.processWebhook(signature, parsed);
+      if (event.event === 'charge.success') {
+        // Amounts are in the lowest currency unit, as Paystack sends them
+        void webhookService.emit('payment.succeeded', {
+          reference: event.data?.reference,
+          amount: event.data?.amount,
+          currency: event.data?.currency,
+          paidAt: event.data?.paid_at ?? null
+        });
+      }
       return res.status(200).json(event);
     } catch (error) {
       console.error('Error processing webhook:', error);
@@ -4,8 +4,19 @@ import { validateBody, validateQuery, validateParams, commonSchemas } from '../m
 import { asyncHandler, createError } from '../utils/error-handler';
 import { storage } from "../storage";
 import { z } from "zod";
-import { insertPostSchema, updatePostSchema } from "@shared/schema";
+import { insertPostSchema, updatePostSchema, type Post } from "@shared/schema";
 import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { requireAuth, requirePermission, requireActiveAccount } from '../middlewares/auth';
+import { hasPermission } from '@shared/permissions';
+import { notificationService, isPublicStory } from '../services/notification-service';
+import { liveEventsService } from '../services/live-events-service';
+import { webhookService } from '../services/webhook-service';
+import { plagiarismService } from '../services/plagiarism-service';
+import { annotationService } from '../services/annotation-service';
+import { postRevisionService } from '../services/post-revision-service';
+import { editorialService } from '../services/editorial-service';
+import { reportService, reporterFrom } from '../services/report-service';
+import { handlePostReaction, getPostReactions } from '../reaction-handler';
 // DB helpers imported where needed
 import { db } from '../db';
 import { posts as postsTable } from '@shared/schema';
@@ -25,6 +36,21 @@ const postQuerySchema = z.object({
 	search: z.string().max(100).optional()
 });
 
+const revisionParamsSchema = z.object({
+	id: commonSchemas.id,
+	revisionId: commonSchemas.id
+});
+
+const revisionDiffQuerySchema = z.object({
+	from: commonSchemas.id,
+	to: commonSchemas.id
+});
+
+const flagPostSchema = z.object({
+	reason: z.string().max(500).optional(),
+	note: z.string().max(1000).nullable().optional()
+});
+
 // GET /api/posts - Get all posts with pagination
 router.get('/', 
 	apiRateLimiter,
@@ -175,11 +201,10 @@ router.get('/admin/themes',
 // PATCH /api/posts/:id/theme - Update a post's theme category and optional icon
 router.patch('/:id/theme',
   apiRateLimiter,
+  requireAuth,
+  requirePermission('posts.edit_any'),
   validateParams(postIdSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    if (!req.user || !req.user.isAdmin) {
-      throw createError.forbidden('Admin privileges required');
-    }
 
     const { id } = req.params;
     const { themeCategory, theme_category, themeIcon, icon } = req.body || {};
@@ -215,9 +240,60 @@ router.patch('/:id/theme',
   })
 );
 
+// Create a story, screen it for near-duplicates, then tell readers if it went live.
+// Reader submissions that closely match someone else's story are held for admin review.
+async function createStory(user: NonNullable<Request['user']>, postData: Parameters<typeof storage.createPost>[0], req: Request) {
+	// Stories by readers go through editorial review and stay hidden until an editor publishes them.
+	// Editors may instead give a future publishAt to have the scheduler publish the story later.
+	const needsReview = !hasPermission(user, 'posts.publish_own');
+	const metadata = (postData.metadata || {}) as Record<string, unknown>;
+	const scheduled = hasPermission(user, 'posts.publish') && !!postData.publishAt && postData.publishAt.getTime() > Date.now();
+	const newPost = await storage.createPost(needsReview
+		? { ...postData, publishAt: null, metadata: { ...metadata, status: 'pending', isHidden: true } }
+		: scheduled
+			? { ...postData, metadata: { ...metadata, status: 'scheduled' } }
+			: { ...postData, publishAt: null });
+
+	postsLogger.info('Post created successfully', { 
+		postId: newPost.id,
+		authorId: user.id 
+	});
+
+	const { post, result } = await plagiarismService.screenPost(newPost, { hold: !hasPermission(user, 'posts.review') });
+	if (result.held) {
+		postsLogger.info('Post held for similarity review', { postId: post.id, matches: result.matches.length });
+	}
+
+	await postRevisionService.recordCreated(post, user.id);
+	if (needsReview) {
+		await editorialService.submit(post, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
+		return post;
+	}
+	if (scheduled) {
+		return post;
+	}
+	await notificationService.storyPublished(post);
+	await webhookService.postEvent('post.published', post);
+	return post;
+}
+
+// Follow-up work after a story's text changes, whether edited directly or restored from history
+async function storyEdited(before: Post, after: Post, editorId: number) {
+	if (after.title !== before.title || after.content !== before.content) {
+		await notificationService.bookmarkedStoryUpdated(after, editorId);
+		await webhookService.postEvent('post.updated', after);
+	}
+	if (after.content !== before.content) {
+		// Edits are reported to admins but don't pull an already published story
+		await plagiarismService.screenPost(after, { hold: false });
+		await annotationService.reanchorPost(after);
+	}
+}
+
 // POST /api/posts - Create new post (authenticated)
 router.post('/',
 	apiRateLimiter,
+	requireActiveAccount,
 	validateBody(insertPostSchema),
 	asyncHandler(async (req: Request, res: Response) => {
 		if (!req.user) {
@@ -225,19 +301,11 @@ router.post('/',
 		}
 		
 		try {
-			const postData = {
+			const post = await createStory(req.user, {
 				...req.body,
 				authorId: req.user.id
-			};
-			
-			const newPost = await storage.createPost(postData);
-			
-			postsLogger.info('Post created successfully', { 
-				postId: newPost.id,
-				authorId: req.user.id 
-			});
-			
-			res.status(201).json(newPost);
+			}, req);
+			res.status(201).json(post);
 		} catch (error) {
 			postsLogger.error('Error creating post', { authorId: req.user.id, error: error instanceof Error ? error.message : String(error) });
 			throw createError.internal('Failed to create post');
@@ -245,9 +313,40 @@ router.post('/',
 	})
 );
 
+// POST /api/posts/community - Submit a community story (authenticated)
+router.post('/community',
+	apiRateLimiter,
+	requireActiveAccount,
+	validateBody(insertPostSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		if (!req.user) {
+			throw createError.unauthorized('Authentication required');
+		}
+
+		try {
+			const post = await createStory(req.user, {
+				...req.body,
+				authorId: req.user.id,
+				isAdminPost: false,
+				metadata: {
+					...(req.body.metadata || {}),
+					isCommunityPost: true,
+					isAdminPost: false,
+					status: 'publish'
+				}
+			}, req);
+			res.status(201).json(post);
+		} catch (error) {
+			postsLogger.error('Error creating community post', { authorId: req.user.id, error: error instanceof Error ? error.message : String(error) });
+			throw createError.internal('Failed to submit story');
+		}
+	})
+);
+
 // PUT /api/posts/:id - Update post (authenticated, author only)
 router.put('/:id',
 	apiRateLimiter,
+	requireActiveAccount,
 	validateParams(postIdSchema),
 	validateBody(updatePostSchema),
 	asyncHandler(async (req: Request, res: Response) => {
@@ -266,16 +365,31 @@ router.put('/:id',
 				throw createError.notFound('Post not found');
 			}
 			
-			if (existingPost.authorId !== req.user.id && !req.user.isAdmin) {
+			if (existingPost.authorId !== req.user.id && !hasPermission(req.user, 'posts.edit_any')) {
 				throw createError.forbidden('You can only edit your own posts');
 			}
 			
-			const updatedPost = await storage.updatePost(Number(id), req.body);
+			// Whether a reader's story is visible is an editorial decision, not theirs to edit
+			let changes = req.body;
+			const canPublish = hasPermission(req.user, 'posts.publish');
+			if (!canPublish) {
+				const { publishAt: _publishAt, ...rest } = changes;
+				changes = rest;
+			}
+			if (!canPublish && changes.metadata) {
+				const { status, isHidden, similarityHold } = (existingPost.metadata || {}) as Record<string, unknown>;
+				changes = { ...changes, metadata: { ...changes.metadata, status, isHidden, similarityHold } };
+			}
+
+			const updatedPost = await storage.updatePost(Number(id), changes);
 			
 			postsLogger.info('Post updated successfully', { 
 				postId: id,
 				authorId: req.user.id 
 			});
+
+			await postRevisionService.recordEdit(existingPost, updatedPost, req.user.id);
+			await storyEdited(existingPost, updatedPost, req.user.id);
 			
 			res.json(updatedPost);
 		} catch (error) {
@@ -287,9 +401,62 @@ router.put('/:id',
 	})
 );
 
-// PUT /api/posts/:id/hide - Hide post (authenticated, admin only)
+// GET /api/posts/:id/revisions - saved versions of a story, newest first (author or admin)
+router.get('/:id/revisions',
+	apiRateLimiter,
+	validateParams(postIdSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		if (!req.user) {
+			throw createError.unauthorized('Authentication required');
+		}
+		res.json(await postRevisionService.list(Number(req.params.id), req.user));
+	})
+);
+
+// GET /api/posts/:id/revisions/diff?from=&to= - word-level changes between two revisions
+router.get('/:id/revisions/diff',
+	apiRateLimiter,
+	validateParams(postIdSchema),
+	validateQuery(revisionDiffQuerySchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		if (!req.user) {
+			throw createError.unauthorized('Authentication required');
+		}
+		const { from, to } = req.query as unknown as z.infer<typeof revisionDiffQuerySchema>;
+		res.json(await postRevisionService.diff(Number(req.params.id), from, to, req.user));
+	})
+);
+
+router.get('/:id/revisions/:revisionId',
+	apiRateLimiter,
+	validateParams(revisionParamsSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		if (!req.user) {
+			throw createError.unauthorized('Authentication required');
+		}
+		res.json(await postRevisionService.get(Number(req.params.id), Number(req.params.revisionId), req.user));
+	})
+);
+
+// POST /api/posts/:id/revisions/:revisionId/restore - make an earlier version current again
+router.post('/:id/revisions/:revisionId/restore',
+	apiRateLimiter,
+	validateParams(revisionParamsSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		if (!req.user) {
+			throw createError.unauthorized('Authentication required');
+		}
+		const { before, after } = await postRevisionService.restore(Number(req.params.id), Number(req.params.revisionId), req.user);
+		await storyEdited(before, after, req.user.id);
+		res.json(after);
+	})
+);
+
+// PUT /api/posts/:id/hide - Hide post (editors)
 router.put('/:id/hide',
 	apiRateLimiter,
+	requireAuth,
+	requirePermission('posts.publish'),
 	validateParams(postIdSchema),
 	asyncHandler(async (req: Request, res: Response) => {
 		if (!req.user) {
@@ -306,12 +473,17 @@ router.put('/:id/hide',
 				throw createError.notFound('Post not found');
 			}
 
-			if (!req.user.isAdmin) {
-				throw createError.forbidden('Only admins can hide posts');
-			}
-
 			const updated = await storage.updatePost(Number(id), { metadata: { ...(existingPost as any).metadata || {}, isHidden: true } as any });
 			postsLogger.info('Post hidden successfully', { postId: id, adminId: req.user.id });
+			if (existingPost.authorId !== req.user.id) {
+				await notificationService.submissionReviewed({
+					userId: existingPost.authorId,
+					contentType: 'post',
+					contentId: Number(id),
+					decision: 'hidden',
+					title: existingPost.title
+				});
+			}
 			res.json(updated);
 		} catch (error) {
 			const anyError = error as any;
@@ -322,6 +494,25 @@ router.put('/:id/hide',
 	})
 );
 
+// GET /api/posts/:id/live - Server-Sent Events stream of comment and reaction changes.
+// Reconnecting clients send Last-Event-ID (or ?lastEventId=) to replay what they missed.
+// Only for stories readers can see, so ids that aren't live posts never get a channel.
+router.get('/:id/live',
+	apiRateLimiter,
+	validateParams(postIdSchema),
+	asyncHandler(async (req: Request, res: Response) => {
+		const post = await storage.getPostById(Number(req.params.id));
+		if (!post || !isPublicStory(post)) {
+			throw createError.notFound('Post not found');
+		}
+		liveEventsService.subscribe(req, res, post.id);
+	})
+);
+
+// GET/POST /api/posts/:postId/reactions - Session-based like/dislike totals
+router.get('/:postId/reactions', apiRateLimiter, getPostReactions);
+router.post('/:postId/reactions', apiRateLimiter, handlePostReaction);
+
 // POST /api/posts/:id/like - Simple like endpoint (uses session-based reaction for anonymous users)
 router.post('/:id/like',
 	apiRateLimiter,
@@ -331,6 +522,7 @@ router.post('/:id/like',
 		try {
 			await (storage as any).updatePostReaction(Number(id), { isLike: true, sessionId: req.sessionID });
 			const counts = await (storage as any).getPostLikeCounts(Number(id));
+			liveEventsService.postReactions(Number(id), { likes: counts.likesCount, dislikes: counts.dislikesCount });
 			res.json({ success: true, ...counts });
 		} catch (error) {
 			postsLogger.error('Error liking post', { postId: id, error: error instanceof Error ? error.message : String(error) });
@@ -339,26 +531,18 @@ router.post('/:id/like',
 	})
 );
 
-// POST /api/posts/:id/flag - Report content
+// POST /api/posts/:id/flag - Report content (same queue as POST /api/report)
 router.post('/:id/flag',
 	apiRateLimiter,
 	validateParams(postIdSchema),
+	validateBody(flagPostSchema),
 	asyncHandler(async (req: Request, res: Response) => {
-		const { id } = req.params;
-		const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'unspecified';
-		try {
-			const reporterId = (req.user as any)?.id ?? 0;
-			const report = await (storage as any).reportContent({
-				contentType: 'post',
-				contentId: Number(id),
-				reporterId,
-				reason
-			});
-			res.status(201).json(report);
-		} catch (error) {
-			postsLogger.error('Error reporting post', { postId: id, error: error instanceof Error ? error.message : String(error) });
-			throw createError.internal('Failed to report post');
-		}
+		const { reason, note } = req.body as z.infer<typeof flagPostSchema>;
+		const result = await reportService.submit(
+			{ contentType: 'post', contentId: Number(req.params.id), reason, note },
+			reporterFrom(req)
+		);
+		res.status(result.alreadyReported ? 200 : 201).json(result);
 	})
 );
 
@@ -382,7 +566,7 @@ router.delete('/:id',
 				throw createError.notFound('Post not found');
 			}
 			
-			if (existingPost.authorId !== req.user.id && !req.user.isAdmin) {
+			if (existingPost.authorId !== req.user.id && !hasPermission(req.user, 'posts.edit_any')) {
 				throw createError.forbidden('You can only delete your own posts');
 			}
 			
@@ -55,11 +55,11 @@ export function registerPrivacySettingsRoutes(app: Express, storage: IStorage) {
    * PATCH /api/user/privacy-settings
    * Updates the privacy settings for the authenticated user
    */
+  // twoFactorAuthEnabled is read-only here; it follows enrollment via /api/auth/2fa/*
   const updateSchema = z.object({
     profileVisible: z.boolean().optional(),
     shareReadingHistory: z.boolean().optional(),
     anonymousCommenting: z.boolean().optional(),
-    twoFactorAuthEnabled: z.boolean().optional(),
     loginNotifications: z.boolean().optional()
   });
 
@@ -79,7 +79,7 @@ export function registerPrivacySettingsRoutes(app: Express, storage: IStorage) {
       
       // Validate that we're only updating privacy fields
       const validKeys = ['profileVisible', 'shareReadingHistory', 'anonymousCommenting', 
-                         'twoFactorAuthEnabled', 'loginNotifications'];
+                         'loginNotifications'];
       
       const invalidKeys = Object.keys(updateData).filter(key => !validKeys.includes(key));
       if (invalidKeys.length > 0) {
@@ -0,0 +1,78 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { requireAuth } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { readingProgressService } from "../services/reading-progress-service";
+
+const router = Router();
+
+const progressBodySchema = z.object({
+  percent: z.number().min(0).max(100),
+  paragraphIndex: z.number().int().min(0).nullable().optional(),
+  paragraphOffset: z.number().min(0).max(1).nullable().optional(),
+  scrollOffset: z.number().int().min(0).nullable().optional(),
+  deviceId: z.string().max(64).nullable().optional(),
+  readAt: z.coerce.date().optional()
+});
+
+const mergeBodySchema = z.object({
+  entries: z.array(progressBodySchema.extend({ slug: z.string().min(1).max(255) })).max(500)
+});
+
+const slugParamsSchema = z.object({
+  slug: z.string().min(1).max(255)
+});
+
+const shelfQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+router.use(apiRateLimiter, requireAuth);
+
+// GET /api/reading-progress - the "Continue reading" shelf
+router.get('/',
+  validateQuery(shelfQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { limit } = req.query as unknown as z.infer<typeof shelfQuerySchema>;
+    res.json(await readingProgressService.getShelf(req.user!.id, Number(limit)));
+  })
+);
+
+// POST /api/reading-progress/merge - positions saved on this device before signing in
+router.post('/merge',
+  validateBody(mergeBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { entries } = req.body as z.infer<typeof mergeBodySchema>;
+    res.json(await readingProgressService.merge(req.user!.id, entries));
+  })
+);
+
+// GET /api/reading-progress/:slug - null when the reader hasn't opened the story yet
+router.get('/:slug',
+  validateParams(slugParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({ progress: await readingProgressService.get(req.user!.id, req.params.slug) });
+  })
+);
+
+// PUT /api/reading-progress/:slug - latest read wins; `conflict` means a newer position was kept
+router.put('/:slug',
+  validateParams(slugParamsSchema),
+  validateBody(progressBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await readingProgressService.save(req.user!.id, req.params.slug, req.body as z.infer<typeof progressBodySchema>);
+    res.json(result);
+  })
+);
+
+router.delete('/:slug',
+  validateParams(slugParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await readingProgressService.remove(req.user!.id, req.params.slug);
+    res.json({ success: true });
+  })
+);
+
+export default router;
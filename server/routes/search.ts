@@ -1,54 +1,20 @@
 import { Router } from 'express';
 import { db } from '../db';
 import { 
-  posts, 
-  comments, 
   users,
   reportedContent
 } from '@shared/schema';
+import { searchService, parseSearchQuery, type SearchHit, type SearchMode } from '../services/search-service';
 
 // Define types for search use
-type Post = typeof posts.$inferSelect;
-type Comment = typeof comments.$inferSelect;
 type User = typeof users.$inferSelect;
 type ReportedContent = typeof reportedContent.$inferSelect;
 
 const router = Router();
 
-// Simple in-memory cache and trending tracker (ephemeral)
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
-const searchCache = new Map<string, { ts: number; data: any }>();
-const trendingQueries = new Map<string, number>();
-
-function makeCacheKey(params: Record<string, unknown>) {
-  return JSON.stringify(params);
-}
-
-function recordTrending(query: string) {
-  try {
-    const key = query.trim().toLowerCase().slice(0, 80);
-    if (!key) return;
-    trendingQueries.set(key, (trendingQueries.get(key) || 0) + 1);
-  } catch {}
-}
-
-function levenshtein(a: string, b: string) {
-  const m = a.length, n = b.length;
-  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1,
-        dp[i][j - 1] + 1,
-        dp[i - 1][j - 1] + cost
-      );
-    }
-  }
-  return dp[m][n];
-}
+// Static pages and admin-only sources have no ts_rank; a matched term counts as a small
+// fixed score so database hits with real relevance still sort first
+const STATIC_MATCH_RANK = 0.05;
 
 // Search content types interface
 interface SearchOptions {
@@ -81,8 +47,8 @@ router.get('/', async (req, res) => {
     }
 
     // Convert query to lowercase for case-insensitive search
-    const searchQuery = q.toLowerCase();
-    const searchTerms = searchQuery.split(' ').filter(term => term.length > 2);
+    const searchQuery = q.toLowerCase().trim();
+    const searchTerms = parseSearchQuery(searchQuery).terms.filter(term => term.length > 2);
 
     if (searchTerms.length === 0) {
       return res.status(400).json({ 
@@ -113,13 +79,6 @@ router.get('/', async (req, res) => {
       }
     }
 
-    const cacheParams = { q: searchQuery, types: contentTypes, limit: resultLimit, page: pageNum, from: fromDate?.toISOString() || null, category: category || null };
-    const key = makeCacheKey(cacheParams);
-    const cached = searchCache.get(key);
-    if (cached && Date.now() - cached.ts < CACHE_TTL_MS) {
-      return res.json(cached.data);
-    }
-    
     // No admin mode in search
     const isAdmin = false;
     
@@ -141,228 +100,56 @@ router.get('/', async (req, res) => {
 
     // Initialize results array 
     let results: any[] = [];
-    
-    // 1. Search posts (always included)
-    if (contentTypes.includes('posts')) {
-      let allPosts = await db.select().from(posts);
-      if (category && typeof category === 'string') {
-        const cat = category.toLowerCase();
-        allPosts = allPosts.filter((p: any) => (p.themeCategory || '').toLowerCase() === cat);
-      }
-      
-      let postResults = allPosts
-        .filter((post: Post) => {
-          const title = post.title?.toLowerCase() || '';
-          const content = post.content?.toLowerCase() || '';
-  
-          // Check if ANY search term appears in title or content
-          return searchTerms.some(term => {
-            return title.includes(term) || content.includes(term);
-          });
-        })
-        .map((post: Post) => {
-          const title = post.title || '';
-          const content = post.content || '';
-          
-          // Strip HTML tags to get plain text content
-          const plainContent = content.replace(/<[^>]+>/g, '');
-          
-          // Find matches with context
-          const matches: { text: string; context: string }[] = [];
-  
-          searchTerms.forEach(term => {
-            // Extract sentences containing the search term (rough heuristic)
-            const regex = new RegExp(`[^.!?]*(?<=[.!?\\s]|^)${term}(?=[\\s.!?]|$)[^.!?]*[.!?]`, 'gi');
-            const contextMatches = plainContent.match(regex);
-            
-            if (contextMatches && contextMatches.length > 0) {
-              // Take the first 3 context matches per term
-              contextMatches.slice(0, 3).forEach((context: string) => {
-                matches.push({
-                  text: term,
-                  context: context.trim()
-                });
-              });
-            } else {
-              // If no clear sentence found, get some surrounding context
-              const index = plainContent.toLowerCase().indexOf(term);
-              if (index !== -1) {
-                const start = Math.max(0, index - 60);
-                const end = Math.min(plainContent.length, index + term.length + 60);
-                matches.push({
-                  text: term,
-                  context: plainContent.substring(start, end).trim()
-                });
-              }
-            }
-          });
-          
-          // Get a summary excerpt
-          let excerpt = '';
-          if (matches.length > 0) {
-            excerpt = matches[0].context;
-          } else {
-            excerpt = plainContent.substring(0, 150) + '...';
-          }
-          
-          const result = {
-            id: post.id,
-            title: post.title,
-            excerpt,
-            type: 'post',
-            url: `/reader/${post.id}`,
-            matches,
-            createdAt: post.createdAt
-          };
-          return result;
-        });
+    let total = 0;
+
+    // Database-backed sources are ranked in SQL; fetching every row up to the end of the
+    // requested page from each source lets the merged list be paginated correctly
+    const fetchWindow = pageNum * resultLimit;
+    const categoryFilter = typeof category === 'string' && category ? category : null;
+
+    const searchDatabase = async (mode: SearchMode) => {
+      const hits: SearchHit[] = [];
+      let matched = 0;
 
-      if (fromDate) {
-        postResults = postResults.filter((r: any) => new Date(r.createdAt || 0) >= fromDate!);
+      // 1. Search posts
+      if (contentTypes.includes('posts')) {
+        const found = await searchService.searchPosts(searchQuery, { category: categoryFilter, from: fromDate, limit: fetchWindow, mode });
+        hits.push(...found.hits);
+        matched += found.total;
       }
-        
-      results = [...results, ...postResults];
-    }
-    
-    // 2. Search pages if requested
-    if (searchOptions.includePages) {
-      try {
-        // Since we don't have a separate pages table, we'll treat certain posts as pages
-        // We'll assume posts with special flags like isSecret might be treated as pages
-        const allPosts = await db.select().from(posts);
-        
-        // Filter posts that seem like pages
-        let pagePosts = allPosts.filter((post: Post) => post.isSecret === true);
-        if (fromDate) {
-          pagePosts = pagePosts.filter((p: any) => new Date(p.createdAt || 0) >= fromDate!);
+
+      // 2. Search pages if requested (secret posts are presented as pages)
+      if (searchOptions.includePages) {
+        try {
+          const found = await searchService.searchPosts(searchQuery, { pages: true, from: fromDate, limit: fetchWindow, mode });
+          hits.push(...found.hits);
+          matched += found.total;
+        } catch (err) {
+          console.error('[Search] Error searching pages:', err);
         }
-        
-        const pageResults = pagePosts
-          .filter((post: Post) => {
-            const title = post.title?.toLowerCase() || '';
-            const content = post.content?.toLowerCase() || '';
-            
-            return searchTerms.some(term => {
-              return title.includes(term) || content.includes(term);
-            });
-          })
-          .map((post: Post) => {
-            const title = post.title || '';
-            const content = post.content || '';
-            
-            // Strip HTML tags
-            const plainContent = content.replace(/<[^>]+>/g, '');
-            
-            // Find matches with context
-            const matches: { text: string; context: string }[] = [];
-            
-            searchTerms.forEach(term => {
-              // Extract sentences containing the search term
-              const regex = new RegExp(`[^.!?]*(?<=[.!?\\s]|^)${term}(?=[\\s.!?]|$)[^.!?]*[.!?]`, 'gi');
-              const contextMatches = plainContent.match(regex);
-              
-              if (contextMatches && contextMatches.length > 0) {
-                contextMatches.slice(0, 2).forEach((context: string) => {
-                  matches.push({
-                    text: term,
-                    context: context.trim()
-                  });
-                });
-              } else {
-                const index = plainContent.toLowerCase().indexOf(term);
-                if (index !== -1) {
-                  const start = Math.max(0, index - 60);
-                  const end = Math.min(plainContent.length, index + term.length + 60);
-                  matches.push({
-                    text: term,
-                    context: plainContent.substring(start, end).trim()
-                  });
-                }
-              }
-            });
-            
-            // Get summary
-            let excerpt = '';
-            if (matches.length > 0) {
-              excerpt = matches[0].context;
-            } else {
-              excerpt = plainContent.substring(0, 150) + '...';
-            }
-            
-            return {
-              id: post.id,
-              title: post.title,
-              excerpt,
-              type: 'page',
-              url: `/page/${post.slug}`,
-              matches,
-              createdAt: post.createdAt
-            };
-          });
-          
-        results = [...results, ...pageResults];
-      } catch (err) {
-        console.error('[Search] Error searching pages:', err);
       }
-    }
-    
-    // 3. Search comments if requested
-    if (searchOptions.includeComments) {
-      try {
-        let allComments = await db.select().from(comments);
-        
-        let commentResults = allComments
-          .filter((comment: Comment) => {
-            const content = comment.content?.toLowerCase() || '';
-            
-            return searchTerms.some(term => content.includes(term));
-          })
-          .map((comment: Comment) => {
-            const content = comment.content || '';
-            
-            // Strip HTML tags
-            const plainContent = content.replace(/<[^>]+>/g, '');
-            
-            // Find matches with context
-            const matches: { text: string; context: string }[] = [];
-            
-            searchTerms.forEach(term => {
-              const index = plainContent.toLowerCase().indexOf(term);
-              if (index !== -1) {
-                const start = Math.max(0, index - 60);
-                const end = Math.min(plainContent.length, index + term.length + 60);
-                matches.push({
-                  text: term,
-                  context: plainContent.substring(start, end).trim()
-                });
-              }
-            });
-            
-            // Get summary
-            let excerpt = plainContent.substring(0, 150) + '...';
-            
-            const result = {
-              id: comment.id,
-              title: `Comment on post #${comment.postId}`,
-              excerpt,
-              type: 'comment',
-              url: `/reader/${comment.postId}#comment-${comment.id}`,
-              matches,
-              createdAt: comment.createdAt,
-              postId: comment.postId,
-              userId: comment.userId
-            };
-            return result;
-          });
-        if (fromDate) {
-          commentResults = commentResults.filter((r: any) => new Date(r.createdAt || 0) >= fromDate!);
+
+      // 3. Search comments if requested
+      if (searchOptions.includeComments) {
+        try {
+          const found = await searchService.searchComments(searchQuery, { from: fromDate, limit: fetchWindow, mode });
+          hits.push(...found.hits);
+          matched += found.total;
+        } catch (err) {
+          console.error('[Search] Error searching comments:', err);
         }
-          
-        results = [...results, ...commentResults];
-      } catch (err) {
-        console.error('[Search] Error searching comments:', err);
       }
+
+      return { hits, matched };
+    };
+
+    // Require every term first; fall back to matching any term before giving up
+    let databaseResults = await searchDatabase('all');
+    if (databaseResults.matched === 0 && searchTerms.length > 1) {
+      databaseResults = await searchDatabase('any');
     }
+    results = [...results, ...databaseResults.hits];
+    total += databaseResults.matched;
     
     // 4. Search users if requested (admin only)
     if (searchOptions.includeUsers && searchOptions.isAdmin) {
@@ -408,12 +195,14 @@ router.get('/', async (req, res) => {
               type: 'user',
               url: `/admin/users/${user.id}`,
               matches,
+              rank: matches.length * STATIC_MATCH_RANK,
               createdAt: user.createdAt,
               adminOnly: true
             };
           });
           
         results = [...results, ...userResults];
+        total += userResults.length;
       } catch (err) {
         console.error('[Search] Error searching users:', err);
       }
@@ -500,11 +289,13 @@ router.get('/', async (req, res) => {
               type: 'legal',
               url: page.url,
               matches,
+              rank: matches.length * STATIC_MATCH_RANK,
               createdAt: new Date().toISOString() // Use current date since these are static pages
             };
           });
           
         results = [...results, ...legalResults];
+        total += legalResults.length;
       } catch (err) {
         console.error('[Search] Error searching legal pages:', err);
       }
@@ -591,11 +382,13 @@ router.get('/', async (req, res) => {
               type: 'settings',
               url: page.url,
               matches,
+              rank: matches.length * STATIC_MATCH_RANK,
               createdAt: new Date().toISOString() // Use current date since these are static pages
             };
           });
           
         results = [...results, ...settingsResults];
+        total += settingsResults.length;
       } catch (err) {
         console.error('[Search] Error searching settings pages:', err);
       }
@@ -655,48 +448,41 @@ router.get('/', async (req, res) => {
               type: 'report',
               url,
               matches,
+              rank: matches.length * STATIC_MATCH_RANK,
               createdAt: report.createdAt,
               adminOnly: true
             };
           });
           
         results = [...results, ...reportedResults];
+        total += reportedResults.length;
       } catch (err) {
         console.error('[Search] Error searching reported content:', err);
       }
     }
     
-    // Sort results by relevance (match count) and then date
+    // Sort results by relevance (rank) and then date
     results.sort((a, b) => {
-      // First by match count (higher first)
-      const matchDiff = b.matches.length - a.matches.length;
-      if (matchDiff !== 0) return matchDiff;
+      // First by rank (higher first)
+      const rankDiff = (b.rank || 0) - (a.rank || 0);
+      if (rankDiff !== 0) return rankDiff;
       
-      // Then by date (newer first) if matches are equal
+      // Then by date (newer first) if ranks are equal
       const dateA = new Date(a.createdAt || 0).getTime();
       const dateB = new Date(b.createdAt || 0).getTime();
       return dateB - dateA;
     });
     
     // Pagination
-    const total = results.length;
     const totalPages = Math.max(Math.ceil(total / resultLimit), 1);
     const start = (pageNum - 1) * resultLimit;
     const paged = results.slice(start, start + resultLimit);
 
-    recordTrending(searchQuery);
+    await searchService.recordQuery(searchQuery, total);
 
     console.log(`[Search] Found ${total} results for "${searchQuery}" (page ${pageNum}/${totalPages})`);
 
-    let didYouMean: string | undefined;
-    if (total === 0 && trendingQueries.size > 0) {
-      let best: { q: string; d: number } | null = null;
-      for (const [qstr] of trendingQueries) {
-        const d = levenshtein(searchQuery, qstr);
-        if (d <= 2 && (!best || d < best.d)) best = { q: qstr, d };
-      }
-      if (best) didYouMean = best.q;
-    }
+    const didYouMean = total === 0 ? await searchService.findSimilarQuery(searchQuery) : null;
 
     const payload = { 
       results: paged,
@@ -712,7 +498,6 @@ router.get('/', async (req, res) => {
         didYouMean: didYouMean || null
       }
     };
-    searchCache.set(key, { ts: Date.now(), data: payload });
     return res.json(payload);
     
   } catch (error) {
@@ -731,37 +516,13 @@ router.get('/suggest', async (req, res) => {
 
     // If no query or too short, return trending queries as suggestions
     if (!q || typeof q !== 'string' || q.trim().length < 2) {
-      const sorted = Array.from(trendingQueries.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, max)
-        .map(([term]) => ({ id: term, title: term, type: 'query', url: `/search?q=${encodeURIComponent(term)}` }));
+      const trending = await searchService.getTrendingQueries(max);
+      const sorted = trending.map(({ query: term }) => ({ id: term, title: term, type: 'query', url: `/search?q=${encodeURIComponent(term)}` }));
       return res.json({ suggestions: sorted });
     }
 
-    const search = q.trim().toLowerCase();
-
-    // Fetch posts and filter by title first, then content as fallback
-    const allPosts = await db.select().from(posts);
-    const titleMatches = allPosts
-      .filter((p: any) => (p.title || '').toLowerCase().includes(search))
-      .slice(0, max);
-
-    const remaining = Math.max(0, max - titleMatches.length);
-    let contentMatches: any[] = [];
-    if (remaining > 0) {
-      contentMatches = allPosts
-        .filter((p: any) => !(p.title || '').toLowerCase().includes(search))
-        .filter((p: any) => (p.content || '').toLowerCase().includes(search))
-        .slice(0, remaining);
-    }
-
-    const combined = [...titleMatches, ...contentMatches];
-    const suggestions = combined.map((p: any) => ({
-      id: p.id,
-      title: p.title || 'Untitled',
-      type: 'post',
-      url: `/reader/${p.id}`
-    }));
+    // Title prefix matches come first, then posts matching in the body
+    const suggestions = await searchService.suggestPosts(q.trim(), max);
 
     return res.json({ suggestions });
   } catch (error) {
@@ -0,0 +1,74 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { requireAuth } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { storyDraftService } from "../services/story-draft-service";
+import { hasPermission } from '@shared/permissions';
+
+const router = Router();
+
+// Drafts are allowed to be incomplete, so only the upper bounds of the post schema apply
+const draftFieldsSchema = z.object({
+  title: z.string().max(200).optional(),
+  content: z.string().max(200000).optional(),
+  themeCategory: z.string().max(50).nullable().optional()
+});
+
+const createDraftSchema = draftFieldsSchema.extend({
+  postId: commonSchemas.id.nullable().optional()
+});
+
+const draftParamsSchema = z.object({
+  id: commonSchemas.id
+});
+
+router.use(requireAuth);
+
+// GET /api/story-drafts - the signed-in author's drafts, most recently saved first
+router.get('/',
+  apiRateLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await storyDraftService.list(req.user!.id));
+  })
+);
+
+router.get('/:id',
+  apiRateLimiter,
+  validateParams(draftParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await storyDraftService.get(Number(req.params.id), req.user!.id));
+  })
+);
+
+// POST /api/story-drafts - start a draft; with a postId, returns the existing draft of that story's edit
+router.post('/',
+  apiRateLimiter,
+  validateBody(createDraftSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body = req.body as z.infer<typeof createDraftSchema>;
+    res.status(201).json(await storyDraftService.create(req.user!.id, body, hasPermission(req.user, 'posts.edit_any')));
+  })
+);
+
+// PUT /api/story-drafts/:id - autosave. Not behind the shared API limiter, which a long
+// writing session would otherwise use up.
+router.put('/:id',
+  validateParams(draftParamsSchema),
+  validateBody(draftFieldsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await storyDraftService.update(Number(req.params.id), req.user!.id, req.body as z.infer<typeof draftFieldsSchema>));
+  })
+);
+
+router.delete('/:id',
+  apiRateLimiter,
+  validateParams(draftParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await storyDraftService.remove(Number(req.params.id), req.user!.id);
+    res.status(204).end();
+  })
+);
+
+export default router;
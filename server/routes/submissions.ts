@@ -0,0 +1,131 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { SUBMISSION_STATUSES } from "@shared/schema";
+import { requireAuth, requirePermission } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { editorialService, type RequestContext } from "../services/editorial-service";
+
+const router = Router();
+
+const submissionIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(SUBMISSION_STATUSES).optional(),
+  reviewerId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const transitionBodySchema = z.object({
+  status: z.enum(SUBMISSION_STATUSES),
+  note: z.string().trim().max(5000).nullable().optional(),
+  scheduledFor: z.coerce.date().optional()
+});
+
+const reviewerBodySchema = z.object({
+  reviewerId: commonSchemas.id.nullable()
+});
+
+const noteBodySchema = z.object({
+  body: z.string().trim().min(1).max(5000)
+});
+
+const checklistBodySchema = z.object({
+  triggerWarnings: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  themeCategory: z.string().max(50).nullable().optional()
+});
+
+function contextOf(req: Request): RequestContext {
+  return { ipAddress: req.ip, userAgent: req.get('User-Agent') };
+}
+
+router.use(requireAuth, apiRateLimiter);
+
+// GET /api/submissions/mine - the signed-in author's submissions, with editor notes
+router.get('/mine',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({ submissions: await editorialService.listForAuthor(req.user!.id) });
+  })
+);
+
+// POST /api/submissions/:id/resubmit - send a story back to the editors after making the requested changes
+router.post('/:id/resubmit',
+  validateParams(submissionIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await editorialService.transition(Number(req.params.id), 'submitted', req.user!, {}, contextOf(req)));
+  })
+);
+
+// Everything below is the editors' queue
+
+// GET /api/submissions - queue, oldest untouched first, with per-status counts
+router.get('/',
+  requirePermission('posts.review'),
+  validateQuery(listQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await editorialService.list(req.query as unknown as z.infer<typeof listQuerySchema>));
+  })
+);
+
+router.get('/reviewers',
+  requirePermission('posts.review'),
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({ reviewers: await editorialService.listReviewers() });
+  })
+);
+
+// GET /api/submissions/:id - story, checklist, notes and transition history
+router.get('/:id',
+  requirePermission('posts.review'),
+  validateParams(submissionIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await editorialService.get(Number(req.params.id)));
+  })
+);
+
+// POST /api/submissions/:id/transition - move to another state, optionally with a note to the author
+router.post('/:id/transition',
+  requirePermission('posts.review'),
+  validateParams(submissionIdSchema),
+  validateBody(transitionBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { status, note, scheduledFor } = req.body as z.infer<typeof transitionBodySchema>;
+    res.json(await editorialService.transition(Number(req.params.id), status, req.user!, { note, scheduledFor }, contextOf(req)));
+  })
+);
+
+router.put('/:id/reviewer',
+  requirePermission('posts.review'),
+  validateParams(submissionIdSchema),
+  validateBody(reviewerBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { reviewerId } = req.body as z.infer<typeof reviewerBodySchema>;
+    res.json(await editorialService.assignReviewer(Number(req.params.id), reviewerId, req.user!, contextOf(req)));
+  })
+);
+
+router.post('/:id/notes',
+  requirePermission('posts.review'),
+  validateParams(submissionIdSchema),
+  validateBody(noteBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { body } = req.body as z.infer<typeof noteBodySchema>;
+    res.status(201).json(await editorialService.addNote(Number(req.params.id), body, req.user!, contextOf(req)));
+  })
+);
+
+// PUT /api/submissions/:id/checklist - set content warnings (an empty list means none) and theme
+router.put('/:id/checklist',
+  requirePermission('posts.review'),
+  validateParams(submissionIdSchema),
+  validateBody(checklistBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await editorialService.updateChecklist(Number(req.params.id), req.body as z.infer<typeof checklistBodySchema>, req.user!, contextOf(req)));
+  })
+);
+
+export default router;
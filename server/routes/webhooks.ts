@@ -0,0 +1,119 @@
+import { Request, Response, Router } from "express";
+import { validateBody, validateQuery, validateParams, commonSchemas } from '../middleware/input-validation';
+import { asyncHandler } from '../utils/error-handler';
+import { z } from "zod";
+import { WEBHOOK_EVENTS, WEBHOOK_FORMATS } from "@shared/schema";
+import { requireAuth, requireAdmin } from '../middlewares/auth';
+import { apiRateLimiter } from '../middlewares/rate-limiter';
+import { webhookService } from "../services/webhook-service";
+
+const router = Router();
+
+const webhookUrlSchema = z.string().url().max(2000).refine(url => {
+  const protocol = new URL(url).protocol;
+  // Plain http is only allowed for local testing
+  return protocol === 'https:' || (protocol === 'http:' && process.env.NODE_ENV !== 'production');
+}, { message: 'Webhook URLs must use https' });
+
+const webhookBodySchema = z.object({
+  name: z.string().trim().max(100).nullable().optional(),
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).max(WEBHOOK_EVENTS.length),
+  format: z.enum(WEBHOOK_FORMATS).optional(),
+  active: z.boolean().optional()
+});
+
+const webhookIdSchema = z.object({
+  id: commonSchemas.id
+});
+
+const deliveryParamsSchema = z.object({
+  id: commonSchemas.id,
+  deliveryId: commonSchemas.id
+});
+
+const deliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+router.use(requireAuth, requireAdmin, apiRateLimiter);
+
+// GET /api/admin/webhooks - registered webhooks plus the events they can subscribe to
+router.get('/',
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({ webhooks: await webhookService.list(), events: WEBHOOK_EVENTS, formats: WEBHOOK_FORMATS });
+  })
+);
+
+// POST /api/admin/webhooks - the signing secret is only returned here and on rotation
+router.post('/',
+  validateBody(webhookBodySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await webhookService.create(req.body as z.infer<typeof webhookBodySchema>);
+    res.status(201).json(result);
+  })
+);
+
+// GET /api/admin/webhooks/:id
+router.get('/:id',
+  validateParams(webhookIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await webhookService.get(Number(req.params.id)));
+  })
+);
+
+// PATCH /api/admin/webhooks/:id - re-enabling a disabled webhook resumes its pending deliveries
+router.patch('/:id',
+  validateParams(webhookIdSchema),
+  validateBody(webhookBodySchema.partial()),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await webhookService.update(Number(req.params.id), req.body));
+  })
+);
+
+// DELETE /api/admin/webhooks/:id - also drops its delivery log
+router.delete('/:id',
+  validateParams(webhookIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    await webhookService.remove(Number(req.params.id));
+    res.json({ success: true });
+  })
+);
+
+// POST /api/admin/webhooks/:id/rotate-secret
+router.post('/:id/rotate-secret',
+  validateParams(webhookIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({ secret: await webhookService.rotateSecret(Number(req.params.id)) });
+  })
+);
+
+// POST /api/admin/webhooks/:id/test - deliver a test event now and return the receiver's answer
+router.post('/:id/test',
+  validateParams(webhookIdSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await webhookService.sendTest(Number(req.params.id)));
+  })
+);
+
+// GET /api/admin/webhooks/:id/deliveries - newest first
+router.get('/:id/deliveries',
+  validateParams(webhookIdSchema),
+  validateQuery(deliveriesQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof deliveriesQuerySchema>;
+    res.json(await webhookService.listDeliveries(Number(req.params.id), query));
+  })
+);
+
+// POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver
+router.post('/:id/deliveries/:deliveryId/redeliver',
+  validateParams(deliveryParamsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await webhookService.redeliver(Number(req.params.id), Number(req.params.deliveryId)));
+  })
+);
+
+export default router;
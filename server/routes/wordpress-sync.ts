@@ -6,26 +6,12 @@ import { Express, Request, Response } from 'express';
 import { wordpressSync } from '../wordpress-api-sync';
 import { log } from '../vite';
 import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middlewares/auth';
 
-// Track sync status
-let syncInProgress = false;
+// Track the outcome of single-post syncs; full runs are recorded in wordpress_sync_runs
 let lastSyncStatus: any = null;
 let lastSyncTime: string | null = null;
 
-// Minimal real auth/authorization: require session user and admin flag
-const requireAdmin: import('express').RequestHandler = (req, res, next) => {
-  const user = (req as any).user || req.session?.user;
-  if (!user) {
-    res.status(401).json({ error: 'Authentication required' });
-    return;
-  }
-  if (!user.isAdmin) {
-    res.status(403).json({ error: 'Admin privileges required' });
-    return;
-  }
-  next();
-};
-
 // Lightweight rate limiter per-process (basic safeguard)
 const lastCallByRoute: Record<string, number> = {};
   function simpleRateLimit(windowMs = 3000) {
@@ -58,13 +44,14 @@ export function registerWordPressSyncRoutes(app: Express): void {
    * GET /api/wordpress/status
    * Get the general status of WordPress integration
    */
-  app.get('/api/wordpress/status', (_req: Request, res: Response) => {
+  app.get('/api/wordpress/status', async (_req: Request, res: Response) => {
     // Set proper Content-Type to ensure JSON response
     res.setHeader('Content-Type', 'application/json');
+    const [lastRun] = await wordpressSync.getRuns(1);
     res.json({
       connected: true,
-      wpApiEndpoint: 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com',
-      lastSyncTime,
+      wpApiEndpoint: await wordpressSync.getSourceUrl(),
+      lastSyncTime: lastRun?.finishedAt?.toISOString() ?? lastSyncTime,
       status: 'operational'
     });
   });
@@ -79,15 +66,15 @@ export function registerWordPressSyncRoutes(app: Express): void {
     
     try {
       // Perform a basic check by attempting to fetch from WordPress API
-      const wpApiUrl = 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com/posts?per_page=1';
-      const response = await fetch(wpApiUrl);
+      const apiEndpoint = await wordpressSync.getSourceUrl();
+      const response = await fetch(`${apiEndpoint}/posts?per_page=1`);
       
       if (response.ok) {
         res.json({
           status: 'connected',
           message: 'WordPress API is accessible',
           lastChecked: new Date().toISOString(),
-          apiEndpoint: 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com'
+          apiEndpoint
         });
       } else {
         const errorText = await response.text();
@@ -112,25 +99,26 @@ export function registerWordPressSyncRoutes(app: Express): void {
    * GET /api/wordpress/sync/status
    * Get the status of WordPress sync
    */
-  app.get('/api/wordpress/sync/status', (_req: Request, res: Response) => {
+  app.get('/api/wordpress/sync/status', async (_req: Request, res: Response) => {
     // Set proper Content-Type to ensure JSON response
     res.setHeader('Content-Type', 'application/json');
+    const [lastRun] = await wordpressSync.getRuns(1);
     res.json({
-      syncInProgress,
-      lastSyncStatus,
-      lastSyncTime,
-      wpApiEndpoint: 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com'
+      syncInProgress: wordpressSync.isRunning(),
+      lastSyncStatus: lastRun ?? lastSyncStatus,
+      lastSyncTime: lastRun?.finishedAt?.toISOString() ?? lastSyncTime,
+      wpApiEndpoint: await wordpressSync.getSourceUrl()
     });
   });
 
   /**
    * POST /api/wordpress/sync
-   * Trigger a WordPress sync manually (admin only)
+   * Trigger a WordPress sync manually (wordpress.sync permission)
    */
-  app.post('/api/wordpress/sync', simpleRateLimit(), requireAdmin, async (req: Request, res: Response) => {
+  app.post('/api/wordpress/sync', simpleRateLimit(), requireAuth, requirePermission('wordpress.sync'), async (req: Request, res: Response) => {
     logEvent('Manual WordPress sync triggered via API', { user: (req as any).user });
 
-    if (syncInProgress) {
+    if (wordpressSync.isRunning()) {
       return res.status(409).json({
         success: false,
         message: 'WordPress sync already in progress',
@@ -140,32 +128,21 @@ export function registerWordPressSyncRoutes(app: Express): void {
 
     // Immediately acknowledge and start sync in background
     res.json({ success: true, message: 'WordPress sync started' });
-    (async () => {
-      syncInProgress = true;
-      try {
-        const result = await wordpressSync.syncAllPosts();
-        lastSyncStatus = result;
-        lastSyncTime = new Date().toISOString();
-        logEvent(`WordPress sync completed: ${result.synced} synced posts, ${result.errors.length} errors`, { synced: result.synced, errors: result.errors.length });
-      } catch (error) {
+    wordpressSync.runSync({ trigger: 'manual' })
+      .then(run => {
+        logEvent(`WordPress sync ${run.status}: ${run.createdCount + run.updatedCount} synced posts, ${run.failedCount} errors`, { runId: run.id });
+      })
+      .catch(error => {
         logEvent('Error in WordPress sync', { error });
-        lastSyncStatus = {
-          success: false,
-          error: error instanceof Error ? error.message : String(error)
-        } as any;
-        lastSyncTime = new Date().toISOString();
-      } finally {
-        syncInProgress = false;
-      }
-    })();
+      });
     return;
   });
 
   /**
    * POST /api/wordpress/sync/:postId
-   * Trigger a WordPress sync for a single post (admin only)
+   * Trigger a WordPress sync for a single post (wordpress.sync permission)
    */
-  app.post('/api/wordpress/sync/:postId', simpleRateLimit(), requireAdmin, async (req: Request, res: Response) => {
+  app.post('/api/wordpress/sync/:postId', simpleRateLimit(), requireAuth, requirePermission('wordpress.sync'), async (req: Request, res: Response) => {
     // Validate input
     const parseResult = syncPostSchema.safeParse({ postId: req.params.postId });
     if (!parseResult.success) {
@@ -199,7 +176,7 @@ export function registerWordPressSyncRoutes(app: Express): void {
     try {
       // With the updated requirements, we want to fetch all posts in one request
       // We'll use a large limit value to get as many posts as possible
-      const wpApiUrl = 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com/posts?per_page=100';
+      const wpApiUrl = `${await wordpressSync.getSourceUrl()}/posts?per_page=100`;
       const response = await fetch(wpApiUrl);
       
       if (!response.ok) {
@@ -0,0 +1,494 @@
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcryptjs';
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { createZip, type ZipEntry } from '../utils/zip-archive';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  users,
+  posts,
+  comments,
+  commentVotes,
+  commentReactions,
+  bookmarks,
+  userPrivacySettings,
+  resetTokens,
+  readingProgress,
+  secretProgress,
+  userPreferences,
+  userNotifications,
+  themeFollows,
+  userProgress,
+  postLikes,
+  activityLogs,
+  userFeedback,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorChallenges,
+  knownDevices,
+  loginAttempts,
+  accountLockouts,
+  loginTokens,
+  dataExportRequests,
+  accountDeletionRequests,
+  type AccountDeletionRequest,
+  type CommentDeletionChoice,
+  type CommentMetadata,
+  type DataExportRequest,
+  type Post
+} from "@shared/schema";
+import { eq, and, desc, gte, lt, lte, ne, inArray } from "drizzle-orm";
+import { sessionService } from "./session-service";
+import { isPasswordless } from "./login-security-service";
+
+const accountLogger = createSecureLogger('AccountDataService');
+
+const POLL_INTERVAL_MS = 60 * 1000;
+// One export per day; the download link stays valid for a week
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// An export stuck in processing this long was interrupted by a restart
+const EXPORT_STALE_MS = 30 * 60 * 1000;
+export const DELETION_GRACE_DAYS = Math.max(parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10) || 14, 1);
+const DELETED_AUTHOR_NAME = 'Former member';
+// Accounts without a password confirm deletion by having signed in this recently
+const DELETION_REAUTH_WINDOW_MS = 10 * 60 * 1000;
+
+export type ExportView = Omit<DataExportRequest, 'archive' | 'userId'>;
+
+export interface DeletionInput {
+  password?: string;
+  commentsAction: CommentDeletionChoice;
+  reason?: string | null;
+  // When the requesting session last signed in (epoch ms)
+  authenticatedAt?: number;
+}
+
+export interface DeletionConfirmation {
+  confirmWith: 'password' | 'email_link';
+  // Whether an email_link account may delete without signing in again first
+  recentlySignedIn: boolean;
+}
+
+function isRecentSignIn(authenticatedAt?: number): boolean {
+  return authenticatedAt !== undefined && Date.now() - authenticatedAt <= DELETION_REAUTH_WINDOW_MS;
+}
+
+function toExportView({ archive: _archive, userId: _userId, ...view }: DataExportRequest): ExportView {
+  return view;
+}
+
+const exportColumns = {
+  id: dataExportRequests.id,
+  status: dataExportRequests.status,
+  archiveSize: dataExportRequests.archiveSize,
+  error: dataExportRequests.error,
+  requestedAt: dataExportRequests.requestedAt,
+  completedAt: dataExportRequests.completedAt,
+  expiresAt: dataExportRequests.expiresAt,
+  downloadedAt: dataExportRequests.downloadedAt
+};
+
+/** Good-enough Markdown for story bodies: keeps paragraphs, headings and emphasis */
+function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/\r\n/g, '\n')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_match, text: string) => `\n\n> ${text.trim()}\n\n`)
+    .replace(/<br\s*\/?>/gi, '  \n')
+    .replace(/<\/p>\s*/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function fileSafe(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9-_]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'untitled';
+}
+
+function isoDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString().slice(0, 10) : 'unknown date';
+}
+
+export class AccountDataService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.processDue();
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+    accountLogger.info('Account data worker started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Exports
+
+  async listExports(userId: number): Promise<ExportView[]> {
+    return db.select(exportColumns).from(dataExportRequests)
+      .where(eq(dataExportRequests.userId, userId))
+      .orderBy(desc(dataExportRequests.requestedAt))
+      .limit(10);
+  }
+
+  /** Queue an export; built in the background so large accounts don't tie up a request */
+  async requestExport(userId: number): Promise<ExportView> {
+    const since = new Date(Date.now() - EXPORT_COOLDOWN_MS);
+    const [recent] = await db.select(exportColumns).from(dataExportRequests)
+      .where(and(
+        eq(dataExportRequests.userId, userId),
+        ne(dataExportRequests.status, 'failed'),
+        gte(dataExportRequests.requestedAt, since)
+      ))
+      .orderBy(desc(dataExportRequests.requestedAt))
+      .limit(1);
+    if (recent) {
+      const nextAllowed = new Date(recent.requestedAt.getTime() + EXPORT_COOLDOWN_MS);
+      throw createError(`You can request one export per day. Try again after ${nextAllowed.toISOString()}.`, 429);
+    }
+
+    const [created] = await db.insert(dataExportRequests).values({ userId }).returning();
+    accountLogger.info('Data export requested', { userId, exportId: created.id });
+    setImmediate(() => void this.processDue());
+    return toExportView(created);
+  }
+
+  async getArchive(userId: number, exportId: number): Promise<{ archive: Buffer; requestedAt: Date }> {
+    const [request] = await db.select().from(dataExportRequests)
+      .where(and(eq(dataExportRequests.id, exportId), eq(dataExportRequests.userId, userId)))
+      .limit(1);
+    if (!request) {
+      throw createError.notFound('Export not found');
+    }
+    if (request.status !== 'ready' || !request.archive || (request.expiresAt && request.expiresAt < new Date())) {
+      throw createError(request.status === 'expired' ? 'This export has expired; request a new one' : 'This export is not ready yet', 409);
+    }
+
+    await db.update(dataExportRequests).set({ downloadedAt: new Date() }).where(eq(dataExportRequests.id, exportId));
+    return { archive: request.archive, requestedAt: request.requestedAt };
+  }
+
+  private async buildArchive(userId: number): Promise<Buffer> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error('Account no longer exists');
+    }
+    const { password_hash: _passwordHash, ...account } = user;
+
+    const [stories, userComments, history, activity, saved, feedback, privacy] = await Promise.all([
+      storage.getUserPosts(userId),
+      storage.getUserComments(userId),
+      storage.getUserReadingHistory(userId),
+      storage.getUserActivity(userId),
+      storage.getUserBookmarks(userId),
+      storage.getUserFeedback(userId),
+      storage.getUserPrivacySettings(userId)
+    ]);
+
+    const commentedPostIds = Array.from(new Set(userComments.map(comment => comment.postId).filter((id): id is number => id !== null)));
+    const commentedPosts = commentedPostIds.length > 0
+      ? await db.select({ id: posts.id, title: posts.title, slug: posts.slug }).from(posts).where(inArray(posts.id, commentedPostIds))
+      : [];
+    const titles = new Map(commentedPosts.map(post => [post.id, post.title]));
+
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    for (const story of stories) {
+      let name = `stories/${fileSafe(story.slug || story.title)}.md`;
+      if (usedNames.has(name)) name = `stories/${fileSafe(story.slug || story.title)}-${story.id}.md`;
+      usedNames.add(name);
+      entries.push({
+        name,
+        content: `# ${story.title}\n\n_Written ${isoDate(story.createdAt)}_\n\n${htmlToMarkdown(story.content)}\n`
+      });
+    }
+
+    const commentsByPost = new Map<number | null, typeof userComments>();
+    for (const comment of userComments) {
+      commentsByPost.set(comment.postId, [...(commentsByPost.get(comment.postId) ?? []), comment]);
+    }
+    const commentSections = Array.from(commentsByPost, ([postId, items]) => {
+      const heading = postId !== null ? titles.get(postId) ?? `Story #${postId}` : 'Unknown story';
+      const body = items
+        .map(comment => `- ${isoDate(comment.createdAt)}${comment.anchor ? ` (on "${comment.anchor.quote}")` : ''}: ${comment.content.replace(/\n/g, '\n  ')}`)
+        .join('\n');
+      return `## ${heading}\n\n${body}`;
+    });
+    entries.push({ name: 'comments.md', content: `# My comments\n\n${commentSections.join('\n\n') || 'No comments.'}\n` });
+
+    const json = (name: string, data: unknown) => entries.push({ name, content: JSON.stringify(data, null, 2) });
+    json('account.json', { account, privacySettings: privacy ?? null });
+    json('stories.json', stories);
+    json('comments.json', userComments);
+    json('reading-history.json', history);
+    json('bookmarks.json', saved.map(({ post, ...bookmark }) => ({ ...bookmark, post: { id: post.id, title: post.title, slug: post.slug } })));
+    json('activity.json', activity);
+    json('feedback.json', feedback);
+
+    entries.unshift({
+      name: 'README.md',
+      content: [
+        `# Your data`,
+        ``,
+        `Exported for ${account.username} on ${new Date().toISOString()}.`,
+        ``,
+        `- \`stories/\`: each of your stories as Markdown (${stories.length})`,
+        `- \`comments.md\`: your comments grouped by story (${userComments.length})`,
+        `- \`account.json\`: profile and privacy settings`,
+        `- \`stories.json\`, \`comments.json\`: the same content as stored, including HTML`,
+        `- \`reading-history.json\`, \`bookmarks.json\`, \`activity.json\`, \`feedback.json\``,
+        ``
+      ].join('\n')
+    });
+
+    return createZip(entries);
+  }
+
+  private async runExport(request: Pick<DataExportRequest, 'id' | 'userId'>): Promise<void> {
+    // Claim it so a second worker can't build the same export
+    const [claimed] = await db.update(dataExportRequests)
+      .set({ status: 'processing' })
+      .where(and(eq(dataExportRequests.id, request.id), eq(dataExportRequests.status, 'pending')))
+      .returning({ id: dataExportRequests.id });
+    if (!claimed) return;
+
+    try {
+      const archive = await this.buildArchive(request.userId);
+      const now = new Date();
+      await db.update(dataExportRequests).set({
+        status: 'ready',
+        archive,
+        archiveSize: archive.length,
+        completedAt: now,
+        expiresAt: new Date(now.getTime() + EXPORT_TTL_MS),
+        error: null
+      }).where(eq(dataExportRequests.id, request.id));
+      accountLogger.info('Data export ready', { exportId: request.id, userId: request.userId, bytes: archive.length });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await db.update(dataExportRequests)
+        .set({ status: 'failed', error: message.slice(0, 500), completedAt: new Date() })
+        .where(eq(dataExportRequests.id, request.id));
+      accountLogger.error('Data export failed', { exportId: request.id, userId: request.userId, error: message });
+    }
+  }
+
+  // Deletion
+
+  async getDeletion(userId: number): Promise<AccountDeletionRequest | null> {
+    const [request] = await db.select().from(accountDeletionRequests)
+      .where(and(eq(accountDeletionRequests.userId, userId), eq(accountDeletionRequests.status, 'scheduled')))
+      .limit(1);
+    return request ?? null;
+  }
+
+  /** How the user proves it's them before scheduling deletion */
+  async getDeletionConfirmation(userId: number, authenticatedAt?: number): Promise<DeletionConfirmation> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw createError.notFound('User not found');
+    }
+    return {
+      confirmWith: isPasswordless(user.password_hash) ? 'email_link' : 'password',
+      recentlySignedIn: isRecentSignIn(authenticatedAt)
+    };
+  }
+
+  async scheduleDeletion(userId: number, input: DeletionInput): Promise<AccountDeletionRequest> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw createError.notFound('User not found');
+    }
+    if (user.isAdmin) {
+      throw createError.forbidden('Admin accounts must give up admin access before they can be deleted');
+    }
+
+    if (isPasswordless(user.password_hash)) {
+      // No password to ask for, so a fresh email-link sign-in stands in for it
+      if (!isRecentSignIn(input.authenticatedAt)) {
+        throw createError.forbidden('Sign in again with an email link, then delete your account within 10 minutes');
+      }
+    } else {
+      let passwordValid = false;
+      try {
+        passwordValid = !!input.password && await bcrypt.compare(input.password, user.password_hash);
+      } catch {
+        passwordValid = false;
+      }
+      if (!passwordValid) {
+        throw createError.badRequest('Password is incorrect');
+      }
+    }
+
+    if (await this.getDeletion(userId)) {
+      throw createError.conflict('Account deletion is already scheduled');
+    }
+
+    const scheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    const [request] = await db.insert(accountDeletionRequests).values({
+      userId,
+      commentsAction: input.commentsAction,
+      reason: input.reason ?? null,
+      scheduledFor
+    }).returning();
+    accountLogger.info('Account deletion scheduled', { userId, scheduledFor: scheduledFor.toISOString(), commentsAction: input.commentsAction });
+    return request;
+  }
+
+  async cancelDeletion(userId: number): Promise<AccountDeletionRequest> {
+    const [cancelled] = await db.update(accountDeletionRequests)
+      .set({ status: 'cancelled', cancelledAt: new Date() })
+      .where(and(eq(accountDeletionRequests.userId, userId), eq(accountDeletionRequests.status, 'scheduled')))
+      .returning();
+    if (!cancelled) {
+      throw createError.notFound('No account deletion is scheduled');
+    }
+    accountLogger.info('Account deletion cancelled', { userId });
+    return cancelled;
+  }
+
+  private async removeComments(userId: number, choice: CommentDeletionChoice): Promise<void> {
+    const own = await db.select({ id: comments.id, metadata: comments.metadata }).from(comments).where(eq(comments.userId, userId));
+    if (own.length === 0) return;
+
+    // Comments other readers replied to are blanked rather than removed so threads stay intact
+    const ids = own.map(comment => comment.id);
+    const replied = new Set((await db.selectDistinct({ parentId: comments.parentId }).from(comments)
+      .where(and(inArray(comments.parentId, ids), ne(comments.userId, userId))))
+      .map(row => row.parentId));
+
+    for (const comment of own) {
+      const { ownerKey: _ownerKey, originalContent: _original, editHistory: _history, ...rest } = (comment.metadata || {}) as CommentMetadata & { ownerKey?: string };
+      const metadata = { ...rest, author: DELETED_AUTHOR_NAME, isAnonymous: true };
+
+      if (choice === 'delete' && !replied.has(comment.id)) {
+        await db.delete(commentVotes).where(eq(commentVotes.commentId, comment.id));
+        await db.delete(commentReactions).where(eq(commentReactions.commentId, comment.id));
+        await db.update(comments).set({ parentId: null }).where(eq(comments.parentId, comment.id));
+        await db.delete(comments).where(eq(comments.id, comment.id));
+      } else {
+        await db.update(comments).set({
+          userId: null,
+          metadata,
+          ...(choice === 'delete' ? { content: '[deleted]' } : {})
+        }).where(eq(comments.id, comment.id));
+      }
+    }
+  }
+
+  /**
+   * Carry out a deletion once its grace period is over. The users row is scrubbed rather
+   * than dropped, since stories, tips and moderation history still point at it; everything
+   * personal attached to the account is removed. Each step can safely run twice.
+   */
+  private async executeDeletion(request: AccountDeletionRequest): Promise<void> {
+    const userId = request.userId;
+    const userKey = String(userId);
+
+    await this.removeComments(userId, request.commentsAction);
+    await db.delete(commentVotes).where(eq(commentVotes.userId, userKey));
+    await db.delete(commentReactions).where(eq(commentReactions.userId, userKey));
+
+    // Stories come down with the account; they stay in the export the reader could take first
+    const authored = await db.select({ id: posts.id, metadata: posts.metadata }).from(posts).where(eq(posts.authorId, userId));
+    for (const post of authored) {
+      const metadata = { ...((post.metadata || {}) as Post['metadata'] & Record<string, unknown>), isHidden: true, authorDeleted: true };
+      await db.update(posts).set({ metadata }).where(eq(posts.id, post.id));
+    }
+
+    await db.delete(bookmarks).where(eq(bookmarks.userId, userId));
+    await db.delete(userPrivacySettings).where(eq(userPrivacySettings.userId, userId));
+    await db.delete(resetTokens).where(eq(resetTokens.userId, userId));
+    await db.delete(readingProgress).where(eq(readingProgress.userId, userId));
+    await db.delete(secretProgress).where(eq(secretProgress.userId, userId));
+    await db.delete(userPreferences).where(eq(userPreferences.userId, userId));
+    await db.delete(userNotifications).where(eq(userNotifications.userId, userId));
+    await db.delete(themeFollows).where(eq(themeFollows.userId, userId));
+    await db.delete(userProgress).where(eq(userProgress.userId, userId));
+    await db.delete(postLikes).where(eq(postLikes.userId, userId));
+    await db.delete(activityLogs).where(eq(activityLogs.userId, userId));
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await db.delete(knownDevices).where(eq(knownDevices.userId, userId));
+    await db.delete(loginAttempts).where(eq(loginAttempts.userId, userId));
+    await db.delete(accountLockouts).where(eq(accountLockouts.userId, userId));
+    await db.delete(loginTokens).where(eq(loginTokens.userId, userId));
+    await db.delete(dataExportRequests).where(eq(dataExportRequests.userId, userId));
+    await db.update(userFeedback).set({ userId: null }).where(eq(userFeedback.userId, userId));
+    await sessionService.revokeAllForUser(userId);
+
+    await db.update(users).set({
+      username: `deleted-user-${userId}`,
+      email: `deleted-${userId}@deleted.invalid`,
+      // Not a bcrypt hash, so no password can ever match it
+      password_hash: `!deleted:${randomBytes(16).toString('hex')}`,
+      isAdmin: false,
+      role: 'reader',
+      metadata: { deleted: true, deletedAt: new Date().toISOString() }
+    }).where(eq(users.id, userId));
+
+    await db.update(accountDeletionRequests)
+      .set({ status: 'completed', completedAt: new Date(), reason: null })
+      .where(eq(accountDeletionRequests.id, request.id));
+    accountLogger.info('Account deleted', { userId, commentsAction: request.commentsAction, stories: authored.length });
+  }
+
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = new Date();
+      await db.update(dataExportRequests)
+        .set({ status: 'pending' })
+        .where(and(eq(dataExportRequests.status, 'processing'), lt(dataExportRequests.requestedAt, new Date(now.getTime() - EXPORT_STALE_MS))));
+
+      const pending = await db.select({ id: dataExportRequests.id, userId: dataExportRequests.userId })
+        .from(dataExportRequests)
+        .where(eq(dataExportRequests.status, 'pending'))
+        .orderBy(dataExportRequests.requestedAt);
+      for (const request of pending) {
+        await this.runExport(request);
+      }
+
+      await db.update(dataExportRequests)
+        .set({ status: 'expired', archive: null })
+        .where(and(eq(dataExportRequests.status, 'ready'), lte(dataExportRequests.expiresAt, now)));
+
+      const due = await db.select().from(accountDeletionRequests)
+        .where(and(eq(accountDeletionRequests.status, 'scheduled'), lte(accountDeletionRequests.scheduledFor, now)));
+      for (const request of due) {
+        try {
+          await this.executeDeletion(request);
+        } catch (error) {
+          // Left scheduled, so the next run picks it up again
+          accountLogger.error('Account deletion failed', { userId: request.userId, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } catch (error) {
+      accountLogger.error('Account data run failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.processing = false;
+    }
+  }
+}
+
+export const accountDataService = new AccountDataService();
@@ -0,0 +1,120 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import { users, comments, type User, type CommentMetadata } from "@shared/schema";
+import { eq, and, sql } from "drizzle-orm";
+import { accountRestriction } from "@shared/account-status";
+import { sessionService } from './session-service';
+
+const accountStatusLogger = createSecureLogger('AccountStatusService');
+
+/** Who took an action, and from where, for the activity log */
+export interface StatusChangeContext {
+  actorId: number;
+  reason: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class AccountStatusService {
+  private async getTarget(userId: number, context: StatusChangeContext): Promise<User> {
+    if (userId === context.actorId) {
+      throw createError.badRequest("You can't restrict your own account");
+    }
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) {
+      throw createError.notFound('User not found');
+    }
+    return user;
+  }
+
+  private async log(action: string, userId: number, context: StatusChangeContext, extra: Record<string, unknown> = {}): Promise<void> {
+    await storage.logActivity({
+      userId: context.actorId,
+      action,
+      details: { targetUserId: userId, reason: context.reason, ...extra },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+  }
+
+  /** Keep an account from signing in or posting until a set time; signs it out everywhere */
+  async suspend(userId: number, until: Date, context: StatusChangeContext): Promise<void> {
+    if (until.getTime() <= Date.now()) {
+      throw createError.badRequest('A suspension must end in the future');
+    }
+    await this.getTarget(userId, context);
+    await db.update(users).set({ suspendedUntil: until }).where(eq(users.id, userId));
+    const revoked = await sessionService.revokeAllForUser(userId);
+    await this.log('user_suspended', userId, context, { until: until.toISOString(), sessionsRevoked: revoked });
+    accountStatusLogger.info('Account suspended', { userId, until: until.toISOString() });
+  }
+
+  /** Keep an account out until it is reinstated; signs it out everywhere */
+  async ban(userId: number, context: StatusChangeContext): Promise<void> {
+    const target = await this.getTarget(userId, context);
+    if (target.bannedAt) {
+      throw createError.conflict('This account is already banned');
+    }
+    await db.update(users).set({ bannedAt: new Date() }).where(eq(users.id, userId));
+    const revoked = await sessionService.revokeAllForUser(userId);
+    await this.log('user_banned', userId, context, { sessionsRevoked: revoked });
+    accountStatusLogger.info('Account banned', { userId });
+  }
+
+  /** Lift a suspension or ban */
+  async reinstate(userId: number, context: StatusChangeContext): Promise<void> {
+    const target = await this.getTarget(userId, context);
+    if (!accountRestriction(target)) {
+      throw createError.badRequest('This account is not suspended or banned');
+    }
+    await db.update(users).set({ suspendedUntil: null, bannedAt: null }).where(eq(users.id, userId));
+    await this.log('user_reinstated', userId, context);
+    accountStatusLogger.info('Account reinstated', { userId });
+  }
+
+  /**
+   * Shadow-muted commenters can still post, but what they write is shown only to them.
+   * Unmuting publishes the comments they wrote while muted.
+   */
+  async setShadowMute(userId: number, muted: boolean, context: StatusChangeContext): Promise<void> {
+    const target = await this.getTarget(userId, context);
+    if (target.shadowMuted === muted) {
+      throw createError.conflict(muted ? 'This account is already muted' : 'This account is not muted');
+    }
+    await db.update(users).set({ shadowMuted: muted }).where(eq(users.id, userId));
+
+    let restored = 0;
+    if (!muted) {
+      restored = await this.restoreMutedComments(userId);
+    }
+    await this.log(muted ? 'user_shadow_muted' : 'user_unmuted', userId, context, muted ? {} : { commentsRestored: restored });
+    accountStatusLogger.info(muted ? 'Account shadow-muted' : 'Account unmuted', { userId });
+  }
+
+  /** Sign a user out of every browser and device */
+  async forceLogout(userId: number, context: StatusChangeContext): Promise<number> {
+    await this.getTarget(userId, context);
+    const revoked = await sessionService.revokeAllForUser(userId);
+    await this.log('user_sessions_revoked', userId, context, { sessionsRevoked: revoked });
+    return revoked;
+  }
+
+  // Comments hidden only because of the mute; ones a rule or moderator hid stay hidden
+  private async restoreMutedComments(userId: number): Promise<number> {
+    const muted = await db.select({ id: comments.id, metadata: comments.metadata })
+      .from(comments)
+      .where(and(
+        eq(comments.userId, userId),
+        sql`(${comments.metadata}::jsonb -> 'moderation' ->> 'muted') = 'true'`
+      ));
+    for (const comment of muted) {
+      const { moderation: _muted, ...metadata } = comment.metadata as CommentMetadata;
+      await db.update(comments).set({ metadata }).where(eq(comments.id, comment.id));
+    }
+    return muted.length;
+  }
+}
+
+export const accountStatusService = new AccountStatusService();
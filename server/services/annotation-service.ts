@@ -0,0 +1,165 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { comments, posts, type Comment, type CommentAnchor, type CommentMetadata, type Post } from "@shared/schema";
+import { eq, and, asc, isNotNull, isNull } from "drizzle-orm";
+import {
+  MAX_QUOTE_LENGTH,
+  anchorContext,
+  extractParagraphs,
+  locateAnchor,
+  normalizeAnchorText,
+  type AnchorParagraph
+} from "@shared/text-anchor";
+import { isPubliclyVisible } from './moderation-service';
+
+const annotationLogger = createSecureLogger('AnnotationService');
+
+export interface AnchorInput {
+  paragraphIndex: number;
+  quote: string;
+  // Offset of the selection within the paragraph, used to pick between repeated phrases
+  start?: number;
+}
+
+export interface AnnotationView {
+  id: number;
+  content: string;
+  author: string;
+  userId: number | null;
+  createdAt: Date;
+  edited: boolean;
+  anchor: CommentAnchor;
+}
+
+export interface ReanchorResult {
+  anchored: number;
+  moved: number;
+  orphaned: number;
+}
+
+function buildAnchor(paragraph: AnchorParagraph, start: number, end: number, status: CommentAnchor['status'], originalQuote?: string): CommentAnchor {
+  const quote = paragraph.text.slice(start, end);
+  return {
+    paragraphId: paragraph.id,
+    paragraphIndex: paragraph.index,
+    quote,
+    ...anchorContext(paragraph.text, start, end),
+    start,
+    end,
+    status,
+    ...(originalQuote && originalQuote !== quote ? { originalQuote } : {}),
+    anchoredAt: new Date().toISOString()
+  };
+}
+
+function sameAnchor(a: CommentAnchor, b: CommentAnchor): boolean {
+  return a.paragraphId === b.paragraphId
+    && a.paragraphIndex === b.paragraphIndex
+    && a.start === b.start
+    && a.end === b.end
+    && a.status === b.status;
+}
+
+export class AnnotationService {
+  private async loadParagraphs(postId: number): Promise<AnchorParagraph[]> {
+    const [post] = await db.select({ content: posts.content }).from(posts).where(eq(posts.id, postId)).limit(1);
+    if (!post) {
+      throw createError.notFound('Story not found');
+    }
+    return extractParagraphs(post.content);
+  }
+
+  /**
+   * Pin a selection to the story as it reads now. The quote is authoritative: the reader's
+   * paragraph index and offset only help find the right occurrence.
+   */
+  async resolveAnchor(postId: number, input: AnchorInput): Promise<CommentAnchor> {
+    const quote = normalizeAnchorText(input.quote);
+    if (quote.length === 0 || quote.length > MAX_QUOTE_LENGTH) {
+      throw createError.badRequest(`Select between 1 and ${MAX_QUOTE_LENGTH} characters to annotate`);
+    }
+
+    const paragraphs = await this.loadParagraphs(postId);
+    const hinted = paragraphs[input.paragraphIndex];
+    const match = locateAnchor(paragraphs, {
+      paragraphId: hinted?.id ?? '',
+      paragraphIndex: input.paragraphIndex,
+      quote,
+      prefix: '',
+      suffix: '',
+      start: input.start ?? 0
+    });
+    // Only exact matches are accepted for a fresh selection
+    if (!match || match.errors > 0) {
+      throw createError.badRequest('The selected passage could not be found in this story');
+    }
+    return buildAnchor(paragraphs[match.paragraphIndex], match.start, match.end, 'anchored');
+  }
+
+  /** Published annotations on a story in reading order; orphaned ones are included so the reader can list them */
+  async listForPost(postId: number): Promise<AnnotationView[]> {
+    const rows = await db.select().from(comments)
+      .where(and(eq(comments.postId, postId), isNotNull(comments.anchor), isNull(comments.parentId)))
+      .orderBy(asc(comments.createdAt));
+
+    return rows
+      .filter(row => isPubliclyVisible(row))
+      .map(row => ({
+        id: row.id,
+        content: row.content,
+        author: (row.metadata as CommentMetadata)?.author || 'Reader',
+        userId: row.userId,
+        createdAt: row.createdAt,
+        edited: row.edited,
+        anchor: row.anchor as CommentAnchor
+      }))
+      .sort((a, b) => a.anchor.paragraphIndex - b.anchor.paragraphIndex || a.anchor.start - b.anchor.start);
+  }
+
+  /**
+   * Find every annotation again after the story text changed. Passages that moved or were
+   * lightly reworded follow the text; ones that can't be found are kept but marked orphaned,
+   * and are retried on the next edit. Never throws so it can't block saving the story.
+   */
+  async reanchorPost(post: Pick<Post, 'id' | 'content'>): Promise<ReanchorResult> {
+    const result: ReanchorResult = { anchored: 0, moved: 0, orphaned: 0 };
+    try {
+      const rows: Array<Pick<Comment, 'id' | 'anchor'>> = await db.select({ id: comments.id, anchor: comments.anchor }).from(comments)
+        .where(and(eq(comments.postId, post.id), isNotNull(comments.anchor)));
+      if (rows.length === 0) return result;
+
+      const paragraphs = extractParagraphs(post.content);
+      for (const row of rows) {
+        const previous = row.anchor as CommentAnchor;
+        const match = locateAnchor(paragraphs, previous);
+
+        let next: CommentAnchor;
+        if (!match) {
+          next = { ...previous, status: 'orphaned' };
+        } else {
+          const paragraph = paragraphs[match.paragraphIndex];
+          const unchanged = match.errors === 0 && paragraph.id === previous.paragraphId && match.start === previous.start;
+          next = buildAnchor(paragraph, match.start, match.end, unchanged ? 'anchored' : 'moved', previous.originalQuote ?? previous.quote);
+        }
+        result[next.status]++;
+
+        if (!sameAnchor(previous, next)) {
+          await db.update(comments).set({ anchor: next }).where(eq(comments.id, row.id));
+        }
+      }
+
+      annotationLogger.info('Re-anchored annotations', { postId: post.id, ...result });
+    } catch (error) {
+      annotationLogger.error('Failed to re-anchor annotations', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+    }
+    return result;
+  }
+
+  async reanchorPostById(postId: number): Promise<void> {
+    const [post] = await db.select({ id: posts.id, content: posts.content }).from(posts).where(eq(posts.id, postId)).limit(1);
+    if (post) await this.reanchorPost(post);
+  }
+}
+
+export const annotationService = new AnnotationService();
@@ -0,0 +1,416 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  writingChallenges,
+  challengeEntries,
+  challengeVotes,
+  users,
+  posts,
+  type WritingChallenge,
+  type ChallengeEntry,
+  type ChallengePhase
+} from "@shared/schema";
+import { eq, and, asc, desc, count, inArray } from "drizzle-orm";
+import { notificationService } from './notification-service';
+import { webhookService } from './webhook-service';
+import { plagiarismService } from './plagiarism-service';
+
+const challengeLogger = createSecureLogger('ChallengeService');
+
+// Voting window used when a challenge doesn't set its own
+const DEFAULT_VOTING_DAYS = 7;
+
+export interface ChallengeInput {
+  title: string;
+  description: string;
+  startDate: Date;
+  endDate: Date;
+  votingEndDate?: Date | null;
+}
+
+export interface EntryInput {
+  title?: string | null;
+  content: string;
+}
+
+export type ChallengeSummary = WritingChallenge & {
+  phase: ChallengePhase;
+  votingEndsAt: Date;
+  entryCount: number;
+};
+
+export interface EntryView {
+  id: number;
+  challengeId: number;
+  title: string | null;
+  content: string;
+  submissionDate: Date;
+  updatedAt: Date | null;
+  promotedPostId: number | null;
+  promotedPostSlug: string | null;
+  author: { id: number; username: string | null };
+}
+
+export type RankedEntry = EntryView & { votes: number; rank: number };
+
+export function votingEndsAt(challenge: Pick<WritingChallenge, 'endDate' | 'votingEndDate'>): Date {
+  return challenge.votingEndDate
+    ?? new Date(challenge.endDate.getTime() + DEFAULT_VOTING_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function getChallengePhase(challenge: Pick<WritingChallenge, 'startDate' | 'endDate' | 'votingEndDate'>, now = new Date()): ChallengePhase {
+  if (now < challenge.startDate) return 'upcoming';
+  if (now < challenge.endDate) return 'open';
+  if (now < votingEndsAt(challenge)) return 'voting';
+  return 'closed';
+}
+
+function validateDates(input: Pick<ChallengeInput, 'startDate' | 'endDate' | 'votingEndDate'>): void {
+  if (input.endDate <= input.startDate) {
+    throw createError.badRequest('The submission window must end after it starts');
+  }
+  if (input.votingEndDate && input.votingEndDate <= input.endDate) {
+    throw createError.badRequest('Voting must end after submissions close');
+  }
+}
+
+function slugify(title: string): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .slice(0, 80);
+  return `${base || 'challenge-entry'}-${Date.now().toString(36)}`;
+}
+
+export class ChallengeService {
+  private async getRecord(id: number): Promise<WritingChallenge> {
+    const [challenge] = await db.select().from(writingChallenges).where(eq(writingChallenges.id, id)).limit(1);
+    if (!challenge) {
+      throw createError.notFound('Challenge not found');
+    }
+    return challenge;
+  }
+
+  private async summarize(rows: WritingChallenge[]): Promise<ChallengeSummary[]> {
+    if (rows.length === 0) return [];
+    const counts = await db
+      .select({ challengeId: challengeEntries.challengeId, total: count() })
+      .from(challengeEntries)
+      .where(inArray(challengeEntries.challengeId, rows.map(row => row.id)))
+      .groupBy(challengeEntries.challengeId);
+    const byChallenge = new Map(counts.map(row => [row.challengeId, Number(row.total)]));
+
+    const now = new Date();
+    return rows.map(row => ({
+      ...row,
+      phase: getChallengePhase(row, now),
+      votingEndsAt: votingEndsAt(row),
+      entryCount: byChallenge.get(row.id) ?? 0
+    }));
+  }
+
+  private async entryViews(challengeId: number, options: { userId?: number } = {}): Promise<EntryView[]> {
+    const conditions = [eq(challengeEntries.challengeId, challengeId)];
+    if (options.userId !== undefined) conditions.push(eq(challengeEntries.userId, options.userId));
+
+    const rows = await db
+      .select({ entry: challengeEntries, username: users.username, postSlug: posts.slug })
+      .from(challengeEntries)
+      .leftJoin(users, eq(challengeEntries.userId, users.id))
+      .leftJoin(posts, eq(challengeEntries.promotedPostId, posts.id))
+      .where(and(...conditions))
+      .orderBy(asc(challengeEntries.submissionDate));
+
+    return rows.map(({ entry, username, postSlug }) => ({
+      id: entry.id,
+      challengeId: entry.challengeId,
+      title: entry.title,
+      content: entry.content,
+      submissionDate: entry.submissionDate,
+      updatedAt: entry.updatedAt,
+      promotedPostId: entry.promotedPostId,
+      promotedPostSlug: postSlug,
+      author: { id: entry.userId, username }
+    }));
+  }
+
+  async list(options: { phase?: ChallengePhase } = {}): Promise<ChallengeSummary[]> {
+    const rows = await db.select().from(writingChallenges).orderBy(desc(writingChallenges.startDate));
+    const summaries = await this.summarize(rows);
+    return options.phase ? summaries.filter(challenge => challenge.phase === options.phase) : summaries;
+  }
+
+  /**
+   * A challenge as seen by one reader. Entries stay hidden while submissions are open
+   * (apart from the reader's own); vote totals stay hidden until voting ends.
+   */
+  async get(id: number, viewerId?: number): Promise<{
+    challenge: ChallengeSummary;
+    entries: EntryView[] | null;
+    myEntry: EntryView | null;
+    myVote: number | null;
+  }> {
+    const [challenge] = await this.summarize([await this.getRecord(id)]);
+    const showEntries = challenge.phase === 'voting' || challenge.phase === 'closed';
+
+    let myEntry: EntryView | null = null;
+    let myVote: number | null = null;
+    if (viewerId) {
+      [myEntry = null] = await this.entryViews(id, { userId: viewerId });
+      const [vote] = await db
+        .select({ entryId: challengeVotes.entryId })
+        .from(challengeVotes)
+        .where(and(eq(challengeVotes.challengeId, id), eq(challengeVotes.userId, viewerId)))
+        .limit(1);
+      myVote = vote?.entryId ?? null;
+    }
+
+    return {
+      challenge,
+      entries: showEntries ? await this.entryViews(id) : null,
+      myEntry,
+      myVote
+    };
+  }
+
+  // Admin management
+
+  async create(input: ChallengeInput, adminId: number): Promise<WritingChallenge> {
+    validateDates(input);
+    const challenge = await storage.createWritingChallenge({
+      title: input.title,
+      description: input.description,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      votingEndDate: input.votingEndDate ?? null,
+      createdBy: adminId
+    });
+    challengeLogger.info('Writing challenge created', { challengeId: challenge.id, adminId });
+    return challenge;
+  }
+
+  async update(id: number, changes: Partial<ChallengeInput>): Promise<WritingChallenge> {
+    const existing = await this.getRecord(id);
+    validateDates({
+      startDate: changes.startDate ?? existing.startDate,
+      endDate: changes.endDate ?? existing.endDate,
+      votingEndDate: changes.votingEndDate !== undefined ? changes.votingEndDate : existing.votingEndDate
+    });
+
+    const [updated] = await db
+      .update(writingChallenges)
+      .set({
+        ...(changes.title !== undefined ? { title: changes.title } : {}),
+        ...(changes.description !== undefined ? { description: changes.description } : {}),
+        ...(changes.startDate !== undefined ? { startDate: changes.startDate } : {}),
+        ...(changes.endDate !== undefined ? { endDate: changes.endDate } : {}),
+        ...(changes.votingEndDate !== undefined ? { votingEndDate: changes.votingEndDate } : {})
+      })
+      .where(eq(writingChallenges.id, id))
+      .returning();
+    return updated;
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.getRecord(id);
+    await db.delete(writingChallenges).where(eq(writingChallenges.id, id));
+  }
+
+  // Entries
+
+  private async requirePhase(id: number, phase: ChallengePhase, message: string): Promise<WritingChallenge> {
+    const challenge = await this.getRecord(id);
+    if (getChallengePhase(challenge) !== phase) {
+      throw createError.forbidden(message);
+    }
+    return challenge;
+  }
+
+  async submitEntry(challengeId: number, userId: number, input: EntryInput): Promise<ChallengeEntry> {
+    await this.requirePhase(challengeId, 'open', 'This challenge is not accepting entries');
+
+    const [existing] = await db
+      .select({ id: challengeEntries.id })
+      .from(challengeEntries)
+      .where(and(eq(challengeEntries.challengeId, challengeId), eq(challengeEntries.userId, userId)))
+      .limit(1);
+    if (existing) {
+      throw createError.conflict('You have already entered this challenge');
+    }
+
+    try {
+      return await storage.submitChallengeEntry({
+        challengeId,
+        userId,
+        title: input.title ?? null,
+        content: input.content
+      });
+    } catch (error) {
+      // Two submissions racing past the check above
+      if ((error as { code?: string })?.code === '23505') {
+        throw createError.conflict('You have already entered this challenge');
+      }
+      throw error;
+    }
+  }
+
+  async updateEntry(challengeId: number, userId: number, changes: Partial<EntryInput>): Promise<ChallengeEntry> {
+    await this.requirePhase(challengeId, 'open', 'Entries can only be edited while submissions are open');
+
+    const [updated] = await db
+      .update(challengeEntries)
+      .set({
+        ...(changes.title !== undefined ? { title: changes.title } : {}),
+        ...(changes.content !== undefined ? { content: changes.content } : {}),
+        updatedAt: new Date()
+      })
+      .where(and(eq(challengeEntries.challengeId, challengeId), eq(challengeEntries.userId, userId)))
+      .returning();
+    if (!updated) {
+      throw createError.notFound('You have not entered this challenge');
+    }
+    return updated;
+  }
+
+  async withdrawEntry(challengeId: number, userId: number): Promise<void> {
+    await this.requirePhase(challengeId, 'open', 'Entries can only be withdrawn while submissions are open');
+
+    const deleted = await db
+      .delete(challengeEntries)
+      .where(and(eq(challengeEntries.challengeId, challengeId), eq(challengeEntries.userId, userId)))
+      .returning({ id: challengeEntries.id });
+    if (deleted.length === 0) {
+      throw createError.notFound('You have not entered this challenge');
+    }
+  }
+
+  // Voting
+
+  /** Cast or move the reader's single vote for this challenge */
+  async vote(challengeId: number, userId: number, entryId: number): Promise<{ entryId: number }> {
+    await this.requirePhase(challengeId, 'voting', 'Voting is not open for this challenge');
+
+    const [entry] = await db
+      .select({ id: challengeEntries.id, userId: challengeEntries.userId })
+      .from(challengeEntries)
+      .where(and(eq(challengeEntries.id, entryId), eq(challengeEntries.challengeId, challengeId)))
+      .limit(1);
+    if (!entry) {
+      throw createError.notFound('Entry not found');
+    }
+    if (entry.userId === userId) {
+      throw createError.forbidden('You cannot vote for your own entry');
+    }
+
+    await db
+      .insert(challengeVotes)
+      .values({ challengeId, entryId, userId })
+      .onConflictDoUpdate({
+        target: [challengeVotes.challengeId, challengeVotes.userId],
+        set: { entryId, createdAt: new Date() }
+      });
+    return { entryId };
+  }
+
+  async removeVote(challengeId: number, userId: number): Promise<void> {
+    await this.requirePhase(challengeId, 'voting', 'Voting is not open for this challenge');
+    await db
+      .delete(challengeVotes)
+      .where(and(eq(challengeVotes.challengeId, challengeId), eq(challengeVotes.userId, userId)));
+  }
+
+  // Results
+
+  private async rankEntries(challengeId: number): Promise<RankedEntry[]> {
+    const entries = await this.entryViews(challengeId);
+    const tallies = await db
+      .select({ entryId: challengeVotes.entryId, total: count() })
+      .from(challengeVotes)
+      .where(eq(challengeVotes.challengeId, challengeId))
+      .groupBy(challengeVotes.entryId);
+    const votesByEntry = new Map(tallies.map(row => [row.entryId, Number(row.total)]));
+
+    // Most votes first; ties share a rank and are ordered by who submitted first
+    const sorted = entries
+      .map(entry => ({ ...entry, votes: votesByEntry.get(entry.id) ?? 0, rank: 0 }))
+      .sort((a, b) => b.votes - a.votes || a.submissionDate.getTime() - b.submissionDate.getTime());
+    sorted.forEach((entry, index) => {
+      entry.rank = index > 0 && sorted[index - 1].votes === entry.votes ? sorted[index - 1].rank : index + 1;
+    });
+    return sorted;
+  }
+
+  async getResults(challengeId: number): Promise<{ challenge: ChallengeSummary; entries: RankedEntry[]; winners: RankedEntry[] }> {
+    const [challenge] = await this.summarize([await this.getRecord(challengeId)]);
+    if (challenge.phase !== 'closed') {
+      throw createError.forbidden('Results are published once voting ends');
+    }
+
+    const entries = await this.rankEntries(challengeId);
+    const winners = entries.filter(entry => entry.rank === 1 && entry.votes > 0);
+    return { challenge, entries, winners };
+  }
+
+  /**
+   * Publish a finished challenge's entry as a community post.
+   * Authors can promote their own entry; admins can promote any.
+   */
+  async promoteEntry(challengeId: number, entryId: number, actor: { id: number; isAdmin?: boolean | null }): Promise<{ postId: number; slug: string }> {
+    const challenge = await this.requirePhase(challengeId, 'closed', 'Entries can be published once voting ends');
+
+    const [entry] = await db
+      .select()
+      .from(challengeEntries)
+      .where(and(eq(challengeEntries.id, entryId), eq(challengeEntries.challengeId, challengeId)))
+      .limit(1);
+    if (!entry) {
+      throw createError.notFound('Entry not found');
+    }
+    if (entry.userId !== actor.id && !actor.isAdmin) {
+      throw createError.forbidden('You can only publish your own entry');
+    }
+    if (entry.promotedPostId) {
+      throw createError.conflict('This entry has already been published');
+    }
+
+    const ranked = await this.rankEntries(challengeId);
+    const placement = ranked.find(item => item.id === entry.id);
+    const title = entry.title?.trim() || `${challenge.title} entry`;
+
+    const post = await storage.createPost({
+      title,
+      content: entry.content,
+      slug: slugify(title),
+      excerpt: entry.content.slice(0, 150) + (entry.content.length > 150 ? '...' : ''),
+      authorId: entry.userId,
+      isSecret: false,
+      metadata: {
+        isCommunityPost: true,
+        isAdminPost: false,
+        status: 'publish',
+        challenge: {
+          id: challenge.id,
+          title: challenge.title,
+          entryId: entry.id,
+          rank: placement?.rank ?? null,
+          votes: placement?.votes ?? 0
+        }
+      }
+    } as Parameters<typeof storage.createPost>[0]);
+
+    await db.update(challengeEntries).set({ promotedPostId: post.id }).where(eq(challengeEntries.id, entry.id));
+    challengeLogger.info('Challenge entry promoted to community post', { challengeId, entryId, postId: post.id });
+
+    const { post: screened } = await plagiarismService.screenPost(post, { hold: !actor.isAdmin });
+    await notificationService.storyPublished(screened);
+    await webhookService.postEvent('post.published', screened);
+    return { postId: screened.id, slug: screened.slug };
+  }
+}
+
+export const challengeService = new ChallengeService();
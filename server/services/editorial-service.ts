@@ -0,0 +1,466 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  activityLogs,
+  posts,
+  storySubmissions,
+  submissionNotes,
+  users,
+  SUBMISSION_STATUSES,
+  type Post,
+  type StorySubmission,
+  type SubmissionNote,
+  type SubmissionStatus
+} from "@shared/schema";
+import { hasPermission, rolesWith } from "@shared/permissions";
+import { eq, and, asc, desc, inArray, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { notificationService, type SubmissionDecision } from './notification-service';
+import { publicationService } from './publication-service';
+
+const editorialLogger = createSecureLogger('EditorialService');
+
+// Where a submission may go from each state. Only editors move submissions, except that an
+// author resubmits after changes were requested.
+const TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  submitted: ['in_review', 'rejected'],
+  in_review: ['changes_requested', 'approved', 'rejected'],
+  changes_requested: ['submitted', 'in_review', 'rejected'],
+  approved: ['scheduled', 'published', 'in_review'],
+  scheduled: ['published', 'approved'],
+  published: [],
+  rejected: ['in_review']
+};
+
+// Reaching these states requires every checklist item
+const CHECKLIST_GATED: SubmissionStatus[] = ['approved', 'scheduled', 'published'];
+
+// What the author is told when their submission reaches a state; other moves are internal
+const AUTHOR_DECISIONS: Partial<Record<SubmissionStatus, SubmissionDecision>> = {
+  changes_requested: 'changes_requested',
+  scheduled: 'scheduled',
+  published: 'published',
+  rejected: 'rejected'
+};
+
+export interface SubmissionActor {
+  id: number;
+  isAdmin?: boolean | null;
+  role?: string | null;
+}
+
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SubmissionChecklist {
+  /** Trigger warnings were chosen; an empty list means the story needs none */
+  contentWarningsSet: boolean;
+  themeAssigned: boolean;
+}
+
+export interface SubmissionListItem extends StorySubmission {
+  title: string;
+  slug: string;
+  authorName: string | null;
+  reviewerName: string | null;
+  checklist: SubmissionChecklist;
+}
+
+export interface SubmissionHistoryEntry {
+  id: number;
+  action: string;
+  actorId: number | null;
+  actorName: string | null;
+  from: SubmissionStatus | null;
+  to: SubmissionStatus | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface SubmissionNoteView extends SubmissionNote {
+  authorName: string | null;
+}
+
+export interface SubmissionDetail extends SubmissionListItem {
+  post: Post;
+  notes: SubmissionNoteView[];
+  history: SubmissionHistoryEntry[];
+  nextStatuses: SubmissionStatus[];
+}
+
+function checklistFor(post: Pick<Post, 'themeCategory' | 'metadata'>): SubmissionChecklist {
+  const metadata = (post.metadata || {}) as Record<string, unknown>;
+  return {
+    contentWarningsSet: Array.isArray(metadata.triggerWarnings),
+    themeAssigned: !!post.themeCategory
+  };
+}
+
+function missingChecklistItems(checklist: SubmissionChecklist): string[] {
+  const missing: string[] = [];
+  if (!checklist.contentWarningsSet) missing.push('content warnings');
+  if (!checklist.themeAssigned) missing.push('theme');
+  return missing;
+}
+
+const reviewers = alias(users, 'reviewers');
+
+export class EditorialService {
+  /** Open a submission for a story that has just been written; it stays hidden until published */
+  async submit(post: Post, context: RequestContext = {}): Promise<StorySubmission> {
+    const [submission] = await db.insert(storySubmissions).values({
+      postId: post.id,
+      authorId: post.authorId
+    }).returning();
+    await this.log(submission, post.authorId, 'submission_transition', { from: null, to: 'submitted' }, context);
+    editorialLogger.info('Story submitted', { submissionId: submission.id, postId: post.id });
+    return submission;
+  }
+
+  private async getSubmission(id: number): Promise<StorySubmission> {
+    const [submission] = await db.select().from(storySubmissions).where(eq(storySubmissions.id, id)).limit(1);
+    if (!submission) {
+      throw createError.notFound('Submission not found');
+    }
+    return submission;
+  }
+
+  private async getPost(postId: number): Promise<Post> {
+    const post = await storage.getPostById(postId);
+    if (!post) {
+      throw createError.notFound('Post not found');
+    }
+    return post;
+  }
+
+  async list(filters: { status?: SubmissionStatus; reviewerId?: number; limit?: number; offset?: number } = {}): Promise<{ submissions: SubmissionListItem[]; counts: Record<SubmissionStatus, number> }> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(storySubmissions.status, filters.status));
+    if (filters.reviewerId) conditions.push(eq(storySubmissions.reviewerId, filters.reviewerId));
+
+    const rows = await db.select({
+      submission: storySubmissions,
+      title: posts.title,
+      slug: posts.slug,
+      themeCategory: posts.themeCategory,
+      metadata: posts.metadata,
+      authorName: users.username,
+      reviewerName: reviewers.username
+    })
+      .from(storySubmissions)
+      .innerJoin(posts, eq(storySubmissions.postId, posts.id))
+      .leftJoin(users, eq(storySubmissions.authorId, users.id))
+      .leftJoin(reviewers, eq(storySubmissions.reviewerId, reviewers.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      // Oldest waiting first, so nothing sits at the bottom of the queue
+      .orderBy(asc(storySubmissions.updatedAt))
+      .limit(Math.min(filters.limit ?? 50, 100))
+      .offset(filters.offset ?? 0);
+
+    const countRows = await db.select({ status: storySubmissions.status, count: sql<number>`count(*)::int` })
+      .from(storySubmissions)
+      .groupBy(storySubmissions.status);
+    const counts = Object.fromEntries(SUBMISSION_STATUSES.map(status => [status, 0])) as Record<SubmissionStatus, number>;
+    for (const row of countRows) counts[row.status] = row.count;
+
+    return {
+      submissions: rows.map(row => ({
+        ...row.submission,
+        title: row.title,
+        slug: row.slug,
+        authorName: row.authorName,
+        reviewerName: row.reviewerName,
+        checklist: checklistFor(row)
+      })),
+      counts
+    };
+  }
+
+  async get(id: number): Promise<SubmissionDetail> {
+    const submission = await this.getSubmission(id);
+    const post = await this.getPost(submission.postId);
+    const people = await this.usernames([submission.authorId, submission.reviewerId]);
+
+    return {
+      ...submission,
+      title: post.title,
+      slug: post.slug,
+      authorName: people.get(submission.authorId) ?? null,
+      reviewerName: submission.reviewerId ? people.get(submission.reviewerId) ?? null : null,
+      checklist: checklistFor(post),
+      post,
+      notes: await this.notes(id),
+      history: await this.history(id),
+      nextStatuses: TRANSITIONS[submission.status]
+    };
+  }
+
+  /** An author's own submissions with the notes editors left them */
+  async listForAuthor(authorId: number): Promise<Array<Omit<SubmissionListItem, 'reviewerName' | 'authorName'> & { notes: SubmissionNoteView[] }>> {
+    const rows = await db.select({
+      submission: storySubmissions,
+      title: posts.title,
+      slug: posts.slug,
+      themeCategory: posts.themeCategory,
+      metadata: posts.metadata
+    })
+      .from(storySubmissions)
+      .innerJoin(posts, eq(storySubmissions.postId, posts.id))
+      .where(eq(storySubmissions.authorId, authorId))
+      .orderBy(desc(storySubmissions.submittedAt));
+
+    const ids = rows.map(row => row.submission.id);
+    const notes = ids.length ? await this.notes(ids) : [];
+    return rows.map(row => ({
+      ...row.submission,
+      title: row.title,
+      slug: row.slug,
+      checklist: checklistFor(row),
+      notes: notes.filter(note => note.submissionId === row.submission.id)
+    }));
+  }
+
+  /**
+   * Move a submission to another state. Publishing releases the story and fires the usual
+   * publish notifications; rejection keeps it hidden.
+   */
+  async transition(
+    id: number,
+    to: SubmissionStatus,
+    actor: SubmissionActor,
+    options: { note?: string | null; scheduledFor?: Date | null } = {},
+    context: RequestContext = {}
+  ): Promise<StorySubmission> {
+    const submission = await this.getSubmission(id);
+    const from = submission.status;
+
+    if (!hasPermission(actor, 'posts.review')) {
+      const isResubmit = submission.authorId === actor.id && from === 'changes_requested' && to === 'submitted';
+      if (!isResubmit) {
+        throw createError.forbidden('Only editors can change the status of a submission');
+      }
+    }
+    if (!TRANSITIONS[from].includes(to)) {
+      throw createError.badRequest(`A submission that is ${from.replace('_', ' ')} can't be moved to ${to.replace('_', ' ')}`);
+    }
+
+    const post = await this.getPost(submission.postId);
+    if (CHECKLIST_GATED.includes(to)) {
+      const missing = missingChecklistItems(checklistFor(post));
+      if (missing.length) {
+        throw createError.badRequest(`Set the ${missing.join(' and ')} before approving this story`);
+      }
+    }
+
+    let scheduledFor: Date | null = null;
+    if (to === 'scheduled') {
+      if (!options.scheduledFor || options.scheduledFor.getTime() <= Date.now()) {
+        throw createError.badRequest('Choose a publication time in the future');
+      }
+      scheduledFor = options.scheduledFor;
+    }
+
+    // Conditional on the old status, so two editors acting at once can't both win
+    const [updated] = await db.update(storySubmissions)
+      .set({
+        status: to,
+        scheduledFor,
+        updatedAt: new Date(),
+        ...(to === 'submitted' ? { submittedAt: new Date() } : {})
+      })
+      .where(and(eq(storySubmissions.id, id), eq(storySubmissions.status, from)))
+      .returning();
+    if (!updated) {
+      throw createError.conflict('This submission was changed by someone else; reload and try again');
+    }
+
+    const note = options.note?.trim();
+    if (note) {
+      await db.insert(submissionNotes).values({ submissionId: id, authorId: actor.id, body: note });
+    }
+
+    if (from === 'scheduled' && to !== 'published') {
+      await publicationService.unschedule(post.id, 'pending');
+    }
+    if (to === 'scheduled' && scheduledFor) {
+      await publicationService.schedule(post.id, scheduledFor);
+    } else if (to === 'published') {
+      // The author hears about it below, with the editor's note
+      await publicationService.publish(post.id, actor.id, { notifyAuthor: false });
+      editorialLogger.info('Submission published', { postId: post.id, actorId: actor.id });
+    } else if (to === 'rejected') {
+      const metadata = (post.metadata || {}) as Record<string, unknown>;
+      await storage.updatePost(post.id, { metadata: { ...metadata, status: 'rejected', isHidden: true } as any });
+    }
+
+    await this.log(updated, actor.id, 'submission_transition', {
+      from,
+      to,
+      ...(note ? { note } : {}),
+      ...(scheduledFor ? { scheduledFor: scheduledFor.toISOString() } : {})
+    }, context);
+    editorialLogger.info('Submission moved', { submissionId: id, from, to, actorId: actor.id });
+
+    const decision = AUTHOR_DECISIONS[to];
+    if (decision && submission.authorId !== actor.id) {
+      await notificationService.submissionReviewed({
+        userId: submission.authorId,
+        contentType: 'post',
+        contentId: post.id,
+        decision,
+        title: post.title,
+        note,
+        link: to === 'published' ? `/reader/${post.slug}` : '/submit-story'
+      });
+    }
+
+    return updated;
+  }
+
+  /** Assign (or, with null, unassign) the editor responsible for a submission */
+  async assignReviewer(id: number, reviewerId: number | null, actor: SubmissionActor, context: RequestContext = {}): Promise<StorySubmission> {
+    const submission = await this.getSubmission(id);
+    if (reviewerId !== null) {
+      const [reviewer] = await db.select({ isAdmin: users.isAdmin, role: users.role }).from(users).where(eq(users.id, reviewerId)).limit(1);
+      if (!reviewer) {
+        throw createError.notFound('Reviewer not found');
+      }
+      if (!hasPermission(reviewer, 'posts.review')) {
+        throw createError.badRequest('Only editors can review submissions');
+      }
+    }
+
+    const [updated] = await db.update(storySubmissions)
+      .set({ reviewerId, updatedAt: new Date() })
+      .where(eq(storySubmissions.id, id))
+      .returning();
+    await this.log(updated, actor.id, 'submission_reviewer_assigned', { previousReviewerId: submission.reviewerId, reviewerId }, context);
+    return updated;
+  }
+
+  /** Staff who can be assigned a submission */
+  async listReviewers(): Promise<Array<{ id: number; username: string }>> {
+    return db.select({ id: users.id, username: users.username })
+      .from(users)
+      .where(or(eq(users.isAdmin, true), inArray(users.role, rolesWith('posts.review'))))
+      .orderBy(asc(users.username));
+  }
+
+  /** Leave the author a note without changing the submission's state */
+  async addNote(id: number, body: string, actor: SubmissionActor, context: RequestContext = {}): Promise<SubmissionNote> {
+    const submission = await this.getSubmission(id);
+    const [note] = await db.insert(submissionNotes).values({ submissionId: id, authorId: actor.id, body: body.trim() }).returning();
+    await this.log(submission, actor.id, 'submission_note_added', { noteId: note.id }, context);
+
+    if (submission.authorId !== actor.id) {
+      const post = await this.getPost(submission.postId);
+      await notificationService.editorNoteAdded({ userId: submission.authorId, postId: post.id, title: post.title });
+    }
+    return note;
+  }
+
+  /** Set the story fields the checklist looks at */
+  async updateChecklist(
+    id: number,
+    changes: { triggerWarnings?: string[]; themeCategory?: string | null },
+    actor: SubmissionActor,
+    context: RequestContext = {}
+  ): Promise<SubmissionChecklist> {
+    const submission = await this.getSubmission(id);
+    const post = await this.getPost(submission.postId);
+    const metadata = (post.metadata || {}) as Record<string, unknown>;
+
+    const updated = await storage.updatePost(post.id, {
+      ...(changes.themeCategory !== undefined ? { themeCategory: changes.themeCategory } : {}),
+      ...(changes.triggerWarnings !== undefined ? { metadata: { ...metadata, triggerWarnings: changes.triggerWarnings } as any } : {})
+    } as any);
+    await this.log(submission, actor.id, 'submission_checklist_updated', changes, context);
+    return checklistFor(updated);
+  }
+
+  /**
+   * Keep the pipeline in step when an admin publishes a story directly from the post
+   * manager, or the scheduler publishes it, rather than through its submission.
+   */
+  async markPublished(postId: number, actorId: number | null): Promise<void> {
+    const [updated] = await db.update(storySubmissions)
+      .set({ status: 'published', scheduledFor: null, updatedAt: new Date() })
+      .where(and(eq(storySubmissions.postId, postId), sql`${storySubmissions.status} <> 'published'`))
+      .returning();
+    if (updated) {
+      await this.log(updated, actorId, 'submission_transition', { to: 'published', direct: true });
+    }
+  }
+
+  /** Whether a story is still waiting on an editorial decision before it can go live */
+  async isAwaitingPublication(postId: number): Promise<boolean> {
+    const [submission] = await db.select({ status: storySubmissions.status })
+      .from(storySubmissions)
+      .where(eq(storySubmissions.postId, postId))
+      .limit(1);
+    return !!submission && submission.status !== 'published';
+  }
+
+  private async notes(submissionIds: number | number[]): Promise<SubmissionNoteView[]> {
+    const ids = Array.isArray(submissionIds) ? submissionIds : [submissionIds];
+    const rows = await db.select({ note: submissionNotes, authorName: users.username })
+      .from(submissionNotes)
+      .leftJoin(users, eq(submissionNotes.authorId, users.id))
+      .where(inArray(submissionNotes.submissionId, ids))
+      .orderBy(asc(submissionNotes.createdAt));
+    return rows.map(row => ({ ...row.note, authorName: row.authorName }));
+  }
+
+  private async history(submissionId: number): Promise<SubmissionHistoryEntry[]> {
+    const rows = await db.select({ log: activityLogs, actorName: users.username })
+      .from(activityLogs)
+      .leftJoin(users, eq(activityLogs.userId, users.id))
+      .where(and(
+        sql`${activityLogs.action} LIKE 'submission_%'`,
+        sql`${activityLogs.details}->>'submissionId' = ${String(submissionId)}`
+      ))
+      .orderBy(asc(activityLogs.createdAt));
+
+    return rows.map(({ log, actorName }) => {
+      const details = (log.details || {}) as Record<string, unknown>;
+      return {
+        id: log.id,
+        action: log.action,
+        actorId: log.userId,
+        actorName,
+        from: (details.from as SubmissionStatus | undefined) ?? null,
+        to: (details.to as SubmissionStatus | undefined) ?? null,
+        details,
+        createdAt: log.createdAt
+      };
+    });
+  }
+
+  private async usernames(ids: Array<number | null>): Promise<Map<number, string>> {
+    const wanted = ids.filter((id): id is number => id !== null);
+    if (wanted.length === 0) return new Map();
+    const rows = await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, wanted));
+    return new Map(rows.map(row => [row.id, row.username]));
+  }
+
+  private async log(submission: StorySubmission, actorId: number | null, action: string, details: Record<string, unknown>, context: RequestContext = {}): Promise<void> {
+    try {
+      await storage.logActivity({
+        userId: actorId,
+        action,
+        details: { submissionId: submission.id, postId: submission.postId, ...details },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      });
+    } catch (error) {
+      // The transition itself has happened; a missing log line shouldn't undo it
+      editorialLogger.error('Failed to log submission activity', { submissionId: submission.id, action, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export const editorialService = new EditorialService();
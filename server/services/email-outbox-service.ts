@@ -0,0 +1,365 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import {
+  emailOutbox,
+  type EmailOutboxAttempt,
+  type EmailOutboxMessage,
+  type EmailOutboxStatus
+} from "@shared/schema";
+import { eq, and, or, desc, inArray, isNotNull, lt, lte, sql } from "drizzle-orm";
+import { deliverEmail } from './email';
+import type { EmailMessage } from './email-types';
+
+const outboxLogger = createSecureLogger('EmailOutboxService');
+
+const POLL_INTERVAL_MS = 10 * 1000;
+const BATCH_SIZE = Math.max(parseInt(process.env.EMAIL_OUTBOX_BATCH_SIZE || '25', 10) || 25, 1);
+// Spacing between messages so a newsletter run doesn't trip provider rate limits
+const SEND_DELAY_MS = Math.max(parseInt(process.env.EMAIL_SEND_DELAY_MS || '100', 10) || 0, 0);
+const DEFAULT_MAX_ATTEMPTS = 5;
+// 1m, 2m, 4m ... capped at 1h
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// A message left in `sending` this long belongs to a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const ATTEMPT_LOG_LIMIT = 20;
+// These carry live reset, sign-in and unlock links. Their bodies are dropped once the message
+// settles, are never shown to admins and can't be resent.
+const SECRET_CATEGORIES = ['password_reset', 'magic_link', 'security'];
+
+export interface QueueEmailOptions {
+  // Groups messages in the admin view and selects the settled handler
+  category?: string;
+  // Links the message back to whatever sent it, e.g. `newsletter_send:42`
+  reference?: string;
+  maxAttempts?: number;
+}
+
+export interface EmailOutboxOutcome {
+  status: 'sent' | 'failed';
+  permanent: boolean;
+}
+
+export type EmailSettledHandler = (message: EmailOutboxMessage, outcome: EmailOutboxOutcome) => Promise<void>;
+
+/** An outbox row as admins see it */
+export type EmailOutboxEntry = EmailOutboxMessage & { resendable: boolean };
+
+export interface EmailOutboxStats {
+  byStatus: Record<EmailOutboxStatus, number>;
+  // Messages sent in the last 7 days per provider
+  byProvider: Record<string, number>;
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+  return delay + Math.floor(Math.random() * delay * 0.1);
+}
+
+function toMessage(row: EmailOutboxMessage): EmailMessage {
+  return {
+    to: row.recipients,
+    subject: row.subject,
+    html: row.html ?? undefined,
+    text: row.text ?? undefined,
+    from: row.fromAddress ?? undefined,
+    replyTo: row.replyTo ?? undefined,
+    headers: row.headers ?? undefined,
+    attachments: row.attachments?.map(attachment => ({
+      filename: attachment.filename,
+      content: Buffer.from(attachment.content, 'base64'),
+      contentType: attachment.contentType
+    }))
+  };
+}
+
+function hasSecrets(category: string): boolean {
+  return SECRET_CATEGORIES.includes(category);
+}
+
+function toEntry(row: EmailOutboxMessage): EmailOutboxEntry {
+  const secret = hasSecrets(row.category);
+  return {
+    ...row,
+    html: secret ? null : row.html,
+    text: secret ? null : row.text,
+    resendable: !secret
+  };
+}
+
+// Bodies to keep once a message has been sent or has given up
+function settledBody(category: string): { html?: null; text?: null } {
+  return hasSecrets(category) ? { html: null, text: null } : {};
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class EmailOutboxService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private handlers = new Map<string, EmailSettledHandler>();
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.processDue();
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+    void this.redactSettled();
+    outboxLogger.info('Email outbox worker started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Be told when a message in `category` is sent or has given up */
+  onSettled(category: string, handler: EmailSettledHandler): void {
+    this.handlers.set(category, handler);
+  }
+
+  /** Store a message for delivery and wake the worker */
+  async enqueue(message: EmailMessage, options: QueueEmailOptions = {}): Promise<EmailOutboxMessage> {
+    const recipients = (Array.isArray(message.to) ? message.to : [message.to]).filter(Boolean);
+    if (recipients.length === 0) {
+      throw createError.badRequest('An email needs at least one recipient');
+    }
+
+    const [queued] = await db.insert(emailOutbox).values({
+      category: options.category || 'general',
+      recipients,
+      subject: message.subject,
+      html: message.html ?? null,
+      text: message.text ?? null,
+      fromAddress: message.from ?? null,
+      replyTo: message.replyTo ?? null,
+      headers: message.headers ?? null,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content).toString('base64'),
+        contentType: attachment.contentType
+      })) ?? null,
+      reference: options.reference ?? null,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    }).returning();
+
+    this.kick();
+    return queued;
+  }
+
+  /** Withdraw messages that haven't been picked up yet */
+  async cancelQueued(references: string[]): Promise<number> {
+    if (references.length === 0) return 0;
+    const cancelled = await db.update(emailOutbox)
+      .set({ status: 'cancelled' })
+      .where(and(inArray(emailOutbox.reference, references), eq(emailOutbox.status, 'queued')))
+      .returning({ id: emailOutbox.id });
+    return cancelled.length;
+  }
+
+  // Admin views
+
+  async list(options: { status?: EmailOutboxStatus; category?: string; limit: number; offset: number }): Promise<EmailOutboxEntry[]> {
+    const conditions = [];
+    if (options.status) conditions.push(eq(emailOutbox.status, options.status));
+    if (options.category) conditions.push(eq(emailOutbox.category, options.category));
+
+    const rows = await db.select().from(emailOutbox)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+    return rows.map(toEntry);
+  }
+
+  async get(id: number): Promise<EmailOutboxEntry> {
+    return toEntry(await this.find(id));
+  }
+
+  private async find(id: number): Promise<EmailOutboxMessage> {
+    const [message] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id)).limit(1);
+    if (!message) {
+      throw createError.notFound('Email not found');
+    }
+    return message;
+  }
+
+  async getStats(): Promise<EmailOutboxStats> {
+    const statusRows = await db.select({ status: emailOutbox.status, count: sql<number>`count(*)::int` })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+    const providerRows = await db.select({ provider: emailOutbox.provider, count: sql<number>`count(*)::int` })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'sent'), sql`${emailOutbox.sentAt} > NOW() - INTERVAL '7 days'`))
+      .groupBy(emailOutbox.provider);
+
+    const byStatus: Record<EmailOutboxStatus, number> = { queued: 0, sending: 0, sent: 0, failed: 0, cancelled: 0 };
+    for (const row of statusRows) byStatus[row.status] = row.count;
+    const byProvider: Record<string, number> = {};
+    for (const row of providerRows) byProvider[row.provider || 'unknown'] = row.count;
+    return { byStatus, byProvider };
+  }
+
+  /**
+   * Send a message again as a new outbox entry. The copy has no category, so whatever
+   * queued the original isn't told about it a second time.
+   */
+  async resend(id: number): Promise<EmailOutboxEntry> {
+    const original = await this.find(id);
+    if (hasSecrets(original.category)) {
+      throw createError.badRequest('Emails with reset or sign-in links can\'t be resent; the user can request a new link');
+    }
+    if (original.status === 'queued' || original.status === 'sending') {
+      throw createError.conflict('This email is still waiting to be sent');
+    }
+
+    const [copy] = await db.insert(emailOutbox).values({
+      category: 'resend',
+      recipients: original.recipients,
+      subject: original.subject,
+      html: original.html,
+      text: original.text,
+      fromAddress: original.fromAddress,
+      replyTo: original.replyTo,
+      headers: original.headers,
+      attachments: original.attachments,
+      reference: original.reference,
+      maxAttempts: original.maxAttempts,
+      resentFromId: original.id
+    }).returning();
+
+    outboxLogger.info('Email queued for resend', { outboxId: copy.id, resentFromId: original.id });
+    this.kick();
+    return toEntry(copy);
+  }
+
+  /** Drop the bodies of settled messages that carried links, e.g. ones from before redaction */
+  private async redactSettled(): Promise<void> {
+    try {
+      await db.update(emailOutbox)
+        .set({ html: null, text: null })
+        .where(and(
+          inArray(emailOutbox.category, SECRET_CATEGORIES),
+          inArray(emailOutbox.status, ['sent', 'failed', 'cancelled']),
+          or(isNotNull(emailOutbox.html), isNotNull(emailOutbox.text))
+        ));
+    } catch (error) {
+      outboxLogger.error('Failed to redact settled emails', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private kick(): void {
+    setImmediate(() => {
+      void this.processDue();
+    });
+  }
+
+  // Delivery
+
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await db.update(emailOutbox)
+        .set({ status: 'queued' })
+        .where(and(eq(emailOutbox.status, 'sending'), lt(emailOutbox.lastAttemptAt, new Date(Date.now() - STALE_SENDING_MS))));
+
+      let batch: EmailOutboxMessage[];
+      do {
+        batch = await db.select().from(emailOutbox)
+          .where(and(eq(emailOutbox.status, 'queued'), lte(emailOutbox.nextAttemptAt, new Date())))
+          .orderBy(emailOutbox.nextAttemptAt)
+          .limit(BATCH_SIZE);
+
+        for (const [index, message] of batch.entries()) {
+          if (index > 0 && SEND_DELAY_MS > 0) await sleep(SEND_DELAY_MS);
+          try {
+            await this.attempt(message);
+          } catch (error) {
+            outboxLogger.error('Email attempt failed', { outboxId: message.id, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      outboxLogger.error('Email outbox run failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async attempt(message: EmailOutboxMessage): Promise<void> {
+    const [claimed] = await db.update(emailOutbox)
+      .set({ status: 'sending', lastAttemptAt: new Date() })
+      .where(and(eq(emailOutbox.id, message.id), eq(emailOutbox.status, 'queued')))
+      .returning();
+    if (!claimed) return;
+
+    const { result, attempts: providerAttempts, permanent } = await deliverEmail(toMessage(claimed));
+    const attempts = claimed.attempts + 1;
+    const now = new Date();
+    const attemptLog: EmailOutboxAttempt[] = [
+      ...claimed.attemptLog,
+      ...providerAttempts.map(attempt => ({ ...attempt, at: now.toISOString() }))
+    ].slice(-ATTEMPT_LOG_LIMIT);
+
+    if (result.success) {
+      const [sent] = await db.update(emailOutbox)
+        .set({
+          status: 'sent',
+          attempts,
+          provider: result.service,
+          messageId: result.messageId ?? null,
+          lastError: null,
+          attemptLog,
+          sentAt: now,
+          ...settledBody(claimed.category)
+        })
+        .where(eq(emailOutbox.id, claimed.id))
+        .returning();
+      await this.settle(sent, { status: 'sent', permanent: false });
+      return;
+    }
+
+    const lastError = (result.error?.message || 'Send failed').slice(0, 500);
+    const exhausted = permanent || attempts >= claimed.maxAttempts;
+    const [updated] = await db.update(emailOutbox)
+      .set({
+        status: exhausted ? 'failed' : 'queued',
+        attempts,
+        provider: result.service === 'none' ? null : result.service,
+        lastError,
+        attemptLog,
+        nextAttemptAt: exhausted ? now : new Date(now.getTime() + backoffDelay(attempts)),
+        ...(exhausted ? settledBody(claimed.category) : {})
+      })
+      .where(eq(emailOutbox.id, claimed.id))
+      .returning();
+
+    outboxLogger.warn('Email delivery failed', { outboxId: claimed.id, attempts, permanent, error: lastError });
+    if (exhausted) {
+      await this.settle(updated, { status: 'failed', permanent });
+    }
+  }
+
+  private async settle(message: EmailOutboxMessage, outcome: EmailOutboxOutcome): Promise<void> {
+    const handler = this.handlers.get(message.category);
+    if (!handler) return;
+    try {
+      await handler(message, outcome);
+    } catch (error) {
+      outboxLogger.error('Email settled handler failed', { outboxId: message.id, category: message.category, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export const emailOutboxService = new EmailOutboxService();
+
+/** Queue an email for delivery; shorthand for `emailOutboxService.enqueue` */
+export function queueEmail(message: EmailMessage, options?: QueueEmailOptions): Promise<EmailOutboxMessage> {
+  return emailOutboxService.enqueue(message, options);
+}
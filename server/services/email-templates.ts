@@ -0,0 +1,466 @@
+/**
+ * Email Templates
+ *
+ * Registry of transactional email templates. Each template declares a zod schema for its
+ * variables and builds the message body; the shared layout, subject line and plain-text
+ * alternative are handled here so individual templates only describe their content.
+ */
+
+import { z } from 'zod';
+import { createError } from '../utils/error-handler';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateBody {
+  // Shown as the heading inside the card
+  heading: string;
+  // Inbox preview line; hidden in the message itself
+  preheader?: string;
+  content: string;
+  // Adds an unsubscribe line to the footer
+  unsubscribeUrl?: string;
+  footerNote?: string;
+}
+
+interface EmailTemplate<S extends z.ZodTypeAny> {
+  description: string;
+  schema: S;
+  sample: z.input<S>;
+  subject(variables: z.output<S>): string;
+  body(variables: z.output<S>): TemplateBody;
+}
+
+function defineTemplate<S extends z.ZodTypeAny>(template: EmailTemplate<S>): EmailTemplate<S> {
+  return template;
+}
+
+function siteUrl(): string {
+  return (process.env.FRONTEND_URL || 'https://bubblescafe.replit.app').replace(/\/$/, '');
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Plain-text alternative for an HTML body: links keep their target, block elements become line breaks */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|title)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<div style="display: none;[^"]*">[\s\S]*?<\/div>/gi, '')
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim();
+      return text && text !== href ? `${text} (${href})` : href;
+    })
+    .replace(/<li\b[^>]*>/gi, '- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|div|ul|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&copy;/g, '©')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Building blocks shared by the templates
+
+const paragraph = (html: string) => `<p style="font-size: 16px; line-height: 1.6;">${html}</p>`;
+
+const button = (href: string, label: string) =>
+  `<p style="margin: 24px 0; text-align: center;"><a href="${escapeHtml(href)}" style="background-color: #5d4037; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-size: 16px;">${escapeHtml(label)}</a></p>`;
+
+const note = (html: string) => `<p style="font-size: 14px; line-height: 1.6; color: #8d6e63;">${html}</p>`;
+
+const quote = (text: string) =>
+  `<blockquote style="margin: 16px 0; padding: 12px 16px; background-color: #f0e9e2; border-left: 4px solid #5d4037; border-radius: 4px; font-style: italic;">${escapeHtml(text)}</blockquote>`;
+
+function layout(subject: string, body: TemplateBody): string {
+  const preheader = body.preheader
+    ? `<div style="display: none; max-height: 0; overflow: hidden;">${escapeHtml(body.preheader)}</div>`
+    : '';
+  const unsubscribe = body.unsubscribeUrl
+    ? `<p>Don't want these emails? <a href="${escapeHtml(body.unsubscribeUrl)}" style="color: #5d4037; text-decoration: underline;">Unsubscribe</a></p>`
+    : '';
+  const footerNote = body.footerNote ? `<p>${body.footerNote}</p>` : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Georgia', serif;">
+  ${preheader}
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px; color: #333; background-color: #f9f7f4; border-radius: 12px; border: 1px solid #e8e1d9;">
+    <h1 style="color: #5d4037; border-bottom: 2px solid #5d4037; padding-bottom: 10px; text-align: center;">${escapeHtml(body.heading)}</h1>
+    <div style="background-color: #fff; padding: 20px; border-radius: 8px; font-size: 16px; line-height: 1.6;">
+      ${body.content}
+    </div>
+    <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #e8e1d9; font-size: 14px; color: #8d6e63; text-align: center;">
+      ${footerNote}
+      ${unsubscribe}
+      <p>&copy; ${new Date().getFullYear()} Bubble's Cafe</p>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+const url = z.string().url();
+
+export const emailTemplates = {
+  passwordReset: defineTemplate({
+    description: 'Link to choose a new password, sent from "forgot password"',
+    schema: z.object({
+      username: z.string().min(1),
+      resetUrl: url,
+      expiresInMinutes: z.number().int().positive().default(60)
+    }),
+    sample: { username: 'midnight_reader', resetUrl: 'https://bubblescafe.replit.app/reset-password?token=sample' },
+    subject: () => 'Reset your Bubble\'s Cafe password',
+    body: ({ username, resetUrl, expiresInMinutes }) => ({
+      heading: 'Password reset request',
+      preheader: 'Use this link to choose a new password.',
+      content: [
+        paragraph(`Hello ${escapeHtml(username)},`),
+        paragraph('You recently asked to reset the password for your Bubble\'s Cafe account. Use the button below to choose a new one.'),
+        button(resetUrl, 'Reset my password'),
+        note(`This link expires in ${expiresInMinutes >= 60 && expiresInMinutes % 60 === 0 ? `${expiresInMinutes / 60} hour${expiresInMinutes === 60 ? '' : 's'}` : `${expiresInMinutes} minutes`}. If the button doesn't work, paste this address into your browser: <a href="${escapeHtml(resetUrl)}">${escapeHtml(resetUrl)}</a>`),
+        note('If you didn\'t request a password reset, you can safely ignore this email. No changes will be made to your account.')
+      ].join('\n'),
+      footerNote: 'This is an automated message. Please do not reply to this email.'
+    })
+  }),
+
+  newDeviceSignIn: defineTemplate({
+    description: 'Security notice for a sign-in from a browser the account has not used before',
+    schema: z.object({
+      username: z.string().min(1),
+      device: z.string().min(1),
+      location: z.string().nullish(),
+      ipAddress: z.string().nullish(),
+      signedInAt: z.string().min(1),
+      devicesUrl: url.optional()
+    }),
+    sample: {
+      username: 'midnight_reader',
+      device: 'Firefox on Windows 10',
+      location: 'Abuja, Nigeria',
+      ipAddress: '102.89.0.1',
+      signedInAt: 'Mon, 19 Oct 2026 21:04:00 GMT'
+    },
+    subject: () => 'New sign-in to your Bubble\'s Cafe account',
+    body: ({ username, device, location, ipAddress, signedInAt, devicesUrl }) => ({
+      heading: 'New sign-in',
+      preheader: `${device}${location ? ` near ${location}` : ''}`,
+      content: [
+        paragraph(`Hi ${escapeHtml(username)},`),
+        paragraph('Your account was just signed in to from a device we haven\'t seen before:'),
+        `<ul style="padding-left: 20px; font-size: 16px; line-height: 1.6;">
+        <li><strong>Device:</strong> ${escapeHtml(device)}</li>
+        ${location ? `<li><strong>Near:</strong> ${escapeHtml(location)}</li>` : ''}
+        ${ipAddress ? `<li><strong>IP address:</strong> ${escapeHtml(ipAddress)}</li>` : ''}
+        <li><strong>When:</strong> ${escapeHtml(signedInAt)}</li>
+      </ul>`,
+        paragraph('If this was you, there\'s nothing to do.'),
+        button(devicesUrl ?? `${siteUrl()}/settings/privacy`, 'Review my devices'),
+        note('If you don\'t recognise it, sign that device out from your privacy settings and change your password.')
+      ].join('\n'),
+      footerNote: 'You can turn off sign-in alerts in your privacy settings.'
+    })
+  }),
+
+  accountLocked: defineTemplate({
+    description: 'Sent when repeated failed sign-ins lock an account, with a link to unlock it early',
+    schema: z.object({
+      username: z.string().min(1),
+      unlockUrl: url,
+      lockedMinutes: z.number().int().positive(),
+      failedAttempts: z.number().int().positive(),
+      ipAddress: z.string().nullish()
+    }),
+    sample: {
+      username: 'midnight_reader',
+      unlockUrl: 'https://bubblescafe.replit.app/unlock-account?token=sample',
+      lockedMinutes: 30,
+      failedAttempts: 10,
+      ipAddress: '102.89.0.1'
+    },
+    subject: () => 'Your Bubble\'s Cafe account has been locked',
+    body: ({ username, unlockUrl, lockedMinutes, failedAttempts, ipAddress }) => ({
+      heading: 'Account locked',
+      preheader: `Sign-in is paused for ${lockedMinutes} minutes after ${failedAttempts} wrong passwords.`,
+      content: [
+        paragraph(`Hi ${escapeHtml(username)},`),
+        paragraph(`Someone entered the wrong password for your account ${failedAttempts} times in a row${ipAddress ? ` (most recently from ${escapeHtml(ipAddress)})` : ''}, so we've paused sign-in for ${lockedMinutes} minutes.`),
+        paragraph('If it was you, you can unlock your account straight away:'),
+        button(unlockUrl, 'Unlock my account'),
+        note('If it wasn\'t you, your password has not been shared, but choosing a new one is a good idea. The unlock link expires in an hour.')
+      ].join('\n'),
+      footerNote: 'This is an automated security message. Please do not reply to this email.'
+    })
+  }),
+
+  confirmSignIn: defineTemplate({
+    description: 'Link to finish a sign-in that looked unusual, e.g. from a new country after a long absence',
+    schema: z.object({
+      username: z.string().min(1),
+      confirmUrl: url,
+      device: z.string().min(1),
+      location: z.string().nullish(),
+      ipAddress: z.string().nullish(),
+      expiresInMinutes: z.number().int().positive()
+    }),
+    sample: {
+      username: 'midnight_reader',
+      confirmUrl: 'https://bubblescafe.replit.app/confirm-login?token=sample',
+      device: 'Firefox on Windows 10',
+      location: 'Abuja, Nigeria',
+      ipAddress: '102.89.0.1',
+      expiresInMinutes: 30
+    },
+    subject: () => 'Confirm your sign-in to Bubble\'s Cafe',
+    body: ({ username, confirmUrl, device, location, ipAddress, expiresInMinutes }) => ({
+      heading: 'Was this you?',
+      preheader: `Confirm the sign-in from ${device}${location ? ` near ${location}` : ''}.`,
+      content: [
+        paragraph(`Hi ${escapeHtml(username)},`),
+        paragraph('It\'s been a while since you last signed in, and this sign-in came from somewhere new, so we\'d like you to confirm it:'),
+        `<ul style="padding-left: 20px; font-size: 16px; line-height: 1.6;">
+        <li><strong>Device:</strong> ${escapeHtml(device)}</li>
+        ${location ? `<li><strong>Near:</strong> ${escapeHtml(location)}</li>` : ''}
+        ${ipAddress ? `<li><strong>IP address:</strong> ${escapeHtml(ipAddress)}</li>` : ''}
+      </ul>`,
+        button(confirmUrl, 'Yes, sign me in'),
+        note(`The link works once and expires in ${expiresInMinutes} minutes. Open it in the browser you were signing in with.`),
+        note('If this wasn\'t you, ignore this email and change your password: whoever tried knows it.')
+      ].join('\n'),
+      footerNote: 'This is an automated security message. Please do not reply to this email.'
+    })
+  }),
+
+  magicLink: defineTemplate({
+    description: 'Passwordless sign-in link; for an address with no account it also creates one',
+    schema: z.object({
+      username: z.string().nullish(),
+      signInUrl: url,
+      device: z.string().min(1),
+      location: z.string().nullish(),
+      expiresInMinutes: z.number().int().positive()
+    }),
+    sample: {
+      username: 'midnight_reader',
+      signInUrl: 'https://bubblescafe.replit.app/magic-link?token=sample',
+      device: 'Firefox on Windows 10',
+      location: 'Abuja, Nigeria',
+      expiresInMinutes: 15
+    },
+    subject: ({ username }) => username ? 'Your Bubble\'s Cafe sign-in link' : 'Finish creating your Bubble\'s Cafe account',
+    body: ({ username, signInUrl, device, location, expiresInMinutes }) => ({
+      heading: username ? 'Sign in to Bubble\'s Cafe' : 'Welcome to Bubble\'s Cafe',
+      preheader: `This link works once and expires in ${expiresInMinutes} minutes.`,
+      content: [
+        paragraph(username ? `Hi ${escapeHtml(username)},` : 'Hello,'),
+        paragraph(username
+          ? 'Use the button below to sign in. No password needed.'
+          : 'Use the button below to create your account and sign in. No password needed.'),
+        button(signInUrl, username ? 'Sign me in' : 'Create my account'),
+        note(`Requested from ${escapeHtml(device)}${location ? ` near ${escapeHtml(location)}` : ''}. The link works once and expires in ${expiresInMinutes} minutes.`),
+        note('If you didn\'t ask for this, you can ignore this email. Nobody can sign in without the link.')
+      ].join('\n'),
+      footerNote: 'This is an automated message. Please do not reply to this email.'
+    })
+  }),
+
+  newsletterConfirmation: defineTemplate({
+    description: 'Double opt-in link sent when someone signs up for the newsletter',
+    schema: z.object({
+      confirmUrl: url
+    }),
+    sample: { confirmUrl: 'https://bubblescafe.replit.app/api/newsletter/confirm/sample' },
+    subject: () => 'Confirm your Bubble\'s Cafe newsletter subscription',
+    body: ({ confirmUrl }) => ({
+      heading: 'One more step',
+      preheader: 'Confirm your address to start receiving the newsletter.',
+      content: [
+        paragraph('Someone, hopefully you, asked to receive the Bubble\'s Cafe newsletter at this address.'),
+        button(confirmUrl, 'Confirm my subscription'),
+        note('If you didn\'t sign up, ignore this email and you won\'t hear from us again.')
+      ].join('\n')
+    })
+  }),
+
+  newsletterWelcome: defineTemplate({
+    description: 'Sent once a newsletter subscription is confirmed',
+    schema: z.object({
+      unsubscribeUrl: url
+    }),
+    sample: { unsubscribeUrl: 'https://bubblescafe.replit.app/api/newsletter/unsubscribe/sample' },
+    subject: () => 'Welcome to Bubble\'s Cafe Newsletter',
+    body: ({ unsubscribeUrl }) => ({
+      heading: 'Welcome to Bubble\'s Cafe Newsletter',
+      preheader: 'Fresh stories, delivered to your inbox.',
+      content: [
+        paragraph('Hi there,'),
+        paragraph('We\'re delighted to welcome you to our corner of the internet where we explore storytelling through a darker lens.'),
+        paragraph('At Bubble\'s Cafe, we share stories that might stay with you a while, for better or worse.'),
+        `<h2 style="color: #5d4037; font-size: 18px;">What's brewing in your inbox? ☕</h2>`,
+        `<ul style="padding-left: 20px; font-size: 16px; line-height: 1.6;">
+        <li><strong>Fresh Stories:</strong> New tales delivered directly to you</li>
+        <li><strong>Exclusive Content:</strong> Special features only for subscribers</li>
+        <li><strong>Community Events:</strong> Join readings and discussions</li>
+        <li><strong>Reading Tips:</strong> Ideas for creating the perfect reading atmosphere</li>
+      </ul>`,
+        quote('"No great mind has ever existed without a touch of madness." — Aristotle'),
+        paragraph('Your first newsletter will arrive soon. Until then, brew yourself a cup and enjoy!'),
+        paragraph('Happy reading,<br>The Bubble\'s Cafe Team')
+      ].join('\n'),
+      unsubscribeUrl
+    })
+  }),
+
+  newsletter: defineTemplate({
+    description: 'A newsletter campaign or digest; the content is trusted HTML written by an admin',
+    schema: z.object({
+      subject: z.string().min(1),
+      previewText: z.string().nullish(),
+      content: z.string().min(1),
+      unsubscribeUrl: url
+    }),
+    sample: {
+      subject: 'This week at Bubble\'s Cafe: 2 new stories',
+      previewText: 'The Lantern Keeper · Static on Channel Nine',
+      content: `<p>Here's what was published since our last letter.</p>
+<h2><a href="https://bubblescafe.replit.app/reader/the-lantern-keeper">The Lantern Keeper</a></h2>
+<p>Every night the light went out a little earlier.</p>`,
+      unsubscribeUrl: 'https://bubblescafe.replit.app/api/newsletter/unsubscribe/sample'
+    },
+    subject: ({ subject }) => subject,
+    body: ({ subject, previewText, content, unsubscribeUrl }) => ({
+      heading: subject,
+      preheader: previewText ?? undefined,
+      content,
+      footerNote: 'You\'re receiving this because you subscribed to the Bubble\'s Cafe newsletter.',
+      unsubscribeUrl
+    })
+  }),
+
+  commentReply: defineTemplate({
+    description: 'Tells a reader that someone replied to their comment',
+    schema: z.object({
+      recipientName: z.string().min(1),
+      replierName: z.string().min(1),
+      storyTitle: z.string().min(1),
+      storyUrl: url,
+      replyExcerpt: z.string().min(1).transform(text => text.length > 300 ? `${text.slice(0, 297)}...` : text),
+      settingsUrl: url.optional()
+    }),
+    sample: {
+      recipientName: 'midnight_reader',
+      replierName: 'hollow_pines',
+      storyTitle: 'The Lantern Keeper',
+      storyUrl: 'https://bubblescafe.replit.app/reader/the-lantern-keeper#comments',
+      replyExcerpt: 'I noticed the same thing about the lighthouse clock. Read the second part again!'
+    },
+    subject: ({ replierName, storyTitle }) => `${replierName} replied to your comment on "${storyTitle}"`,
+    body: ({ recipientName, replierName, storyTitle, storyUrl, replyExcerpt, settingsUrl }) => ({
+      heading: 'New reply to your comment',
+      preheader: replyExcerpt,
+      content: [
+        paragraph(`Hi ${escapeHtml(recipientName)},`),
+        paragraph(`<strong>${escapeHtml(replierName)}</strong> replied to your comment on <em>${escapeHtml(storyTitle)}</em>:`),
+        quote(replyExcerpt),
+        button(storyUrl, 'Read the conversation')
+      ].join('\n'),
+      footerNote: `You can change which emails you receive in your <a href="${escapeHtml(settingsUrl ?? `${siteUrl()}/settings/notifications`)}" style="color: #5d4037;">notification settings</a>.`
+    })
+  }),
+
+  moderationDecision: defineTemplate({
+    description: 'Outcome of a moderation review of a reader\'s comment or story',
+    schema: z.object({
+      username: z.string().min(1),
+      contentType: z.enum(['comment', 'story']),
+      decision: z.enum(['approved', 'rejected']),
+      reason: z.string().nullish(),
+      storyTitle: z.string().nullish(),
+      contentUrl: url.nullish(),
+      guidelinesUrl: url.optional()
+    }),
+    sample: {
+      username: 'midnight_reader',
+      contentType: 'comment',
+      decision: 'rejected',
+      reason: 'Contains spoilers for the ending without a warning.',
+      storyTitle: 'The Lantern Keeper'
+    },
+    subject: ({ contentType, decision }) =>
+      decision === 'approved' ? `Your ${contentType} has been approved` : `Your ${contentType} was not approved`,
+    body: ({ username, contentType, decision, reason, storyTitle, contentUrl, guidelinesUrl }) => {
+      const subject = storyTitle ? `your ${contentType} on <em>${escapeHtml(storyTitle)}</em>` : `your ${contentType}`;
+      const guidelines = guidelinesUrl ?? `${siteUrl()}/support/guidelines`;
+      return {
+        heading: decision === 'approved' ? 'Approved' : 'Moderation decision',
+        content: [
+          paragraph(`Hi ${escapeHtml(username)},`),
+          decision === 'approved'
+            ? paragraph(`Good news: a moderator reviewed ${subject} and it is now visible to everyone.`)
+            : paragraph(`A moderator reviewed ${subject} and decided not to publish it.`),
+          reason ? paragraph(`<strong>Reason:</strong> ${escapeHtml(reason)}`) : '',
+          decision === 'approved' && contentUrl ? button(contentUrl, `View your ${contentType}`) : '',
+          decision === 'rejected'
+            ? note(`Please take a look at our <a href="${escapeHtml(guidelines)}" style="color: #5d4037;">community guidelines</a>. If you think this was a mistake, <a href="${siteUrl()}/contact" style="color: #5d4037;">contact us</a>.`)
+            : ''
+        ].filter(Boolean).join('\n')
+      };
+    }
+  })
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type EmailTemplateVariables<N extends EmailTemplateName> = z.input<(typeof emailTemplates)[N]['schema']>;
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(emailTemplates, name);
+}
+
+/**
+ * Render a template with validated variables
+ *
+ * @param name Template to render
+ * @param variables Template variables; checked against the template's schema
+ * @returns Subject, HTML body and plain-text alternative
+ */
+export function renderEmailTemplate<N extends EmailTemplateName>(name: N, variables: EmailTemplateVariables<N>): RenderedEmail {
+  const template = emailTemplates[name] as EmailTemplate<z.ZodTypeAny>;
+  const parsed = template.schema.safeParse(variables);
+  if (!parsed.success) {
+    const problems = parsed.error.errors.map(issue => `${issue.path.join('.') || 'variables'}: ${issue.message}`).join('; ');
+    throw createError.badRequest(`Invalid variables for the ${name} email template: ${problems}`);
+  }
+
+  const subject = template.subject(parsed.data);
+  const html = layout(subject, template.body(parsed.data));
+  return { subject, html, text: htmlToText(html) };
+}
+
+/** Template names with their descriptions and sample variables, for the admin preview */
+export function listEmailTemplates(): { name: EmailTemplateName; description: string; sample: unknown }[] {
+  return (Object.keys(emailTemplates) as EmailTemplateName[]).map(name => ({
+    name,
+    description: emailTemplates[name].description,
+    sample: emailTemplates[name].sample
+  }));
+}
@@ -17,6 +17,7 @@ export interface EmailMessage {
   from?: string;
   replyTo?: string;
   attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
 }
 
 /**
@@ -30,6 +31,13 @@ export interface EmailAttachment {
   contentType?: string;
 }
 
+/**
+ * Email Provider Name
+ * 
+ * Providers in failover order; 'local' is the development sink.
+ */
+export type EmailProviderName = 'gmail' | 'sendgrid' | 'mailersend' | 'local';
+
 /**
  * Email Result
  * 
@@ -37,7 +45,7 @@ export interface EmailAttachment {
  */
 export interface EmailResult {
   success: boolean;
-  service: 'gmail' | 'sendgrid' | 'mailersend' | 'none';
+  service: EmailProviderName | 'none';
   messageId?: string;
   error?: Error | null;
   details?: any;
@@ -1,87 +1,109 @@
 /**
  * Email Service
- * 
- * Functions for sending emails using available providers.
+ *
+ * Delivers a message through the configured providers. Application code should queue mail
+ * with the outbox (email-outbox-service) rather than calling this directly, so that failed
+ * deliveries are retried and recorded.
  */
 
 import logger from '../utils/logger';
-import { createGmailTransporter } from './gmail';
+import * as gmail from './gmail';
 import * as sendgrid from './sendgrid';
 import * as mailersend from './mailersend';
-import { EmailMessage, EmailResult } from './email-types';
+import * as localMail from './local-mail';
+import { EmailMessage, EmailProviderName, EmailResult } from './email-types';
+
+interface EmailProvider {
+  name: EmailProviderName;
+  send: (message: EmailMessage) => Promise<EmailResult>;
+}
+
+export interface DeliveryAttempt {
+  provider: EmailProviderName;
+  success: boolean;
+  error?: string;
+}
+
+export interface DeliveryOutcome {
+  result: EmailResult;
+  attempts: DeliveryAttempt[];
+  // The receiving server rejected the recipient, so retrying (anywhere) won't help
+  permanent: boolean;
+}
+
+/**
+ * Providers to try, in failover order
+ *
+ * Gmail first, then SendGrid, then MailerSend; the local sink replaces them all when
+ * EMAIL_TRANSPORT=local and stands in for them in development when none is configured.
+ *
+ * @returns Configured providers
+ */
+export function configuredProviders(): EmailProvider[] {
+  const providers: EmailProvider[] = [];
+  if (gmail.hasGmailCredentials()) providers.push({ name: 'gmail', send: gmail.sendEmail });
+  if (sendgrid.hasSendGridApiKey()) providers.push({ name: 'sendgrid', send: sendgrid.sendEmail });
+  if (mailersend.hasMailerSendApiKey()) providers.push({ name: 'mailersend', send: mailersend.sendEmail });
+
+  if (localMail.isLocalMailEnabled(providers.length > 0)) {
+    return [{ name: 'local', send: localMail.sendEmail }];
+  }
+  return providers;
+}
+
+/**
+ * Check whether a failed send was a hard rejection of the recipient (SMTP 550-553)
+ *
+ * @param result Result of a failed send
+ * @returns Boolean indicating if the address itself was refused
+ */
+export function isPermanentRejection(result: EmailResult): boolean {
+  const errors = [result.error, ...Object.values((result.details || {}) as Record<string, unknown>)];
+  return errors.some(error => {
+    const code = (error as { responseCode?: unknown } | null | undefined)?.responseCode;
+    return typeof code === 'number' && code >= 550 && code <= 553;
+  });
+}
 
 /**
- * Send an email using the available email providers
- * 
- * Will try Gmail first, then SendGrid, then MailerSend
- * 
+ * Deliver an email, failing over between providers
+ *
  * @param message Email message to send
- * @returns Promise resolving to the result of the email send operation
+ * @returns Promise resolving to the final result and what each provider reported
  */
-export async function sendEmail(message: EmailMessage): Promise<EmailResult> {
-  // Gmail (primary)
-  try {
-    const transporter = createGmailTransporter();
-    const result = await transporter.sendMail({
-      from: message.from || process.env.GMAIL_USER || 'noreply@bubblescafe.com',
-      to: message.to,
-      subject: message.subject,
-      text: message.text,
-      html: message.html,
-      replyTo: message.replyTo,
-      attachments: message.attachments
-    });
-    
-    logger.info('[Email] Successfully sent email via Gmail', {
-      to: message.to,
-      subject: message.subject,
-      messageId: result.messageId
-    });
-    
-    return {
-      success: true,
-      service: 'gmail' as const,
-      messageId: result.messageId,
-      details: result
-    };
-  } catch (gmailError: any) {
-    logger.warn('[Email] Failed to send email via Gmail, trying SendGrid', {
-      error: gmailError.message,
-      stack: gmailError.stack
-    });
-    
-    // SendGrid (secondary)
+export async function deliverEmail(message: EmailMessage): Promise<DeliveryOutcome> {
+  const providers = configuredProviders();
+  const attempts: DeliveryAttempt[] = [];
+
+  for (const provider of providers) {
+    let result: EmailResult;
     try {
-      // Use the sendEmail function from the SendGrid service
-      return await sendgrid.sendEmail(message);
-    } catch (sendgridError: any) {
-      logger.warn('[Email] Failed to send email via SendGrid, trying MailerSend', {
-        error: sendgridError.message,
-        stack: sendgridError.stack
-      });
-      
-      // MailerSend (final fallback)
-      try {
-        // Use the sendEmail function from the MailerSend service
-        return await mailersend.sendEmail(message);
-      } catch (mailersendError: any) {
-        logger.error('[Email] All email providers failed', {
-          gmailError: gmailError.message,
-          sendgridError: sendgridError.message,
-          mailersendError: mailersendError.message
-        });
-        
-        return {
-          success: false,
-          service: 'none',
-          error: new Error('All email providers failed'),
-          details: {
-            gmailError,
-            sendgridError,
-            mailersendError
-          }
-        };
-      }
+      result = await provider.send(message);
+    } catch (error: any) {
+      result = { success: false, service: provider.name, error };
+    }
+
+    attempts.push({
+      provider: provider.name,
+      success: result.success,
+      ...(result.success ? {} : { error: result.error?.message || 'Send failed' })
+    });
+
+    if (result.success) {
+      return { result, attempts, permanent: false };
     }
+    if (isPermanentRejection(result)) {
+      logger.warn('[Email] Recipient rejected; not trying other providers', { provider: provider.name, subject: message.subject });
+      return { result, attempts, permanent: true };
+    }
+    logger.warn('[Email] Provider failed, trying the next one', { provider: provider.name, error: result.error?.message });
   }
-}
\ No newline at end of file
+
+  const error = providers.length === 0 ? new Error('No email provider is configured') : new Error('All email providers failed');
+  logger.error('[Email] Email could not be delivered', { subject: message.subject, error: error.message });
+  return {
+    result: { success: false, service: 'none', error, details: { attempts } },
+    attempts,
+    permanent: false
+  };
+}
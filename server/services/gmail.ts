@@ -6,14 +6,20 @@
 
 import nodemailer from 'nodemailer';
 import logger from '../utils/logger';
+import { EmailMessage, EmailResult } from './email-types';
+
+// GMAIL_APP_PASSWORD is the name the older newsletter mailer used
+function gmailPassword(): string | undefined {
+  return process.env.GMAIL_PASS || process.env.GMAIL_APP_PASSWORD?.trim();
+}
 
 /**
  * Check if Gmail credentials are available
  * 
  * @returns Boolean indicating if credentials are set
  */
-function hasGmailCredentials(): boolean {
-  return !!(process.env.GMAIL_USER && process.env.GMAIL_PASS);
+export function hasGmailCredentials(): boolean {
+  return !!(process.env.GMAIL_USER && gmailPassword());
 }
 
 /**
@@ -31,7 +37,7 @@ export function createGmailTransporter() {
     service: 'gmail',
     auth: {
       user: process.env.GMAIL_USER,
-      pass: process.env.GMAIL_PASS
+      pass: gmailPassword()
     }
   });
 }
@@ -64,4 +70,50 @@ export async function checkGmailStatus(): Promise<boolean> {
     
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Send an email using Gmail
+ * 
+ * @param message Email message to send
+ * @returns Promise resolving to the result of the email send operation
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailResult> {
+  try {
+    const transporter = createGmailTransporter();
+    const result = await transporter.sendMail({
+      from: message.from || process.env.GMAIL_USER || 'noreply@bubblescafe.com',
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      replyTo: message.replyTo,
+      attachments: message.attachments,
+      headers: message.headers
+    });
+    
+    logger.info('[Email] Successfully sent email via Gmail', {
+      to: message.to,
+      subject: message.subject,
+      messageId: result.messageId
+    });
+    
+    return {
+      success: true,
+      service: 'gmail',
+      messageId: result.messageId,
+      details: result
+    };
+  } catch (error: any) {
+    logger.error('[Email] Failed to send email via Gmail', {
+      error: error.message,
+      stack: error.stack
+    });
+    
+    return {
+      success: false,
+      service: 'gmail',
+      error
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import type { Request, Response } from 'express';
+import { createSecureLogger } from '../utils/secure-logger';
+
+const liveLogger = createSecureLogger('LiveEventsService');
+
+// Replay window kept per post for reconnecting readers
+const BACKLOG_SIZE = 100;
+const BACKLOG_TTL_MS = 10 * 60 * 1000;
+const HEARTBEAT_MS = 25 * 1000;
+// Browsers retry after this long when the stream drops
+const RETRY_MS = 3000;
+const MAX_SUBSCRIBERS_PER_POST = 500;
+
+export type LiveEventType =
+  | 'comment.created'
+  | 'comment.updated'
+  | 'comment.deleted'
+  | 'comment.votes'
+  | 'post.reactions'
+  // Sent instead of a replay when the reader's position is no longer covered by the backlog
+  | 'reset';
+
+interface LiveEvent {
+  seq: number;
+  type: LiveEventType;
+  data: unknown;
+  createdAt: number;
+}
+
+interface Channel {
+  events: LiveEvent[];
+  // Highest sequence number that has fallen out of the backlog
+  droppedThrough: number;
+}
+
+interface LiveComment {
+  id: number;
+  postId: number | null;
+  parentId: number | null;
+  content: string;
+  createdAt: Date | string | null;
+  edited?: boolean | null;
+  editedAt?: Date | string | null;
+  metadata?: unknown;
+  is_approved?: boolean | null;
+}
+
+/** The public view of a comment; ownership keys and pre-moderation text never leave the server */
+function toLiveComment(comment: LiveComment) {
+  const metadata = (comment.metadata || {}) as Record<string, unknown>;
+  return {
+    id: comment.id,
+    postId: comment.postId,
+    parentId: comment.parentId,
+    content: comment.content,
+    createdAt: comment.createdAt,
+    edited: comment.edited ?? false,
+    editedAt: comment.editedAt ?? null,
+    approved: true,
+    is_approved: true,
+    isOwner: false,
+    metadata: {
+      author: metadata.author,
+      isAnonymous: metadata.isAnonymous,
+      moderated: metadata.moderated
+    }
+  };
+}
+
+/**
+ * Per-post Server-Sent Events channel.
+ *
+ * Events live in memory, so ids are prefixed with a boot id: a reader reconnecting
+ * with an id from a previous process (or one older than the backlog) gets a `reset`
+ * event and refetches instead of silently missing updates.
+ */
+export class LiveEventsService {
+  private readonly bootId = Date.now().toString(36);
+  private nextSeq = 1;
+  private channels = new Map<number, Channel>();
+  private subscribers = new Map<number, Set<Response>>();
+  // Highest droppedThrough of any channel removed for being empty, so replays for those posts
+  // still know which events they can no longer cover
+  private removedThrough = 0;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  publish(postId: number | null | undefined, type: LiveEventType, data: unknown): void {
+    if (!postId) return;
+
+    const event: LiveEvent = { seq: this.nextSeq++, type, data, createdAt: Date.now() };
+    const channel = this.prune(postId);
+    channel.events.push(event);
+    if (channel.events.length > BACKLOG_SIZE) {
+      const dropped = channel.events.splice(0, channel.events.length - BACKLOG_SIZE);
+      channel.droppedThrough = dropped[dropped.length - 1].seq;
+    }
+
+    for (const res of this.subscribers.get(postId) ?? []) {
+      this.write(res, event);
+    }
+  }
+
+  // Typed helpers so call sites don't have to know the payload shapes.
+  // Callers only publish comments that are publicly visible.
+
+  commentCreated(comment: LiveComment): void {
+    this.publish(comment.postId, 'comment.created', toLiveComment(comment));
+  }
+
+  commentUpdated(comment: LiveComment): void {
+    this.publish(comment.postId, 'comment.updated', toLiveComment(comment));
+  }
+
+  commentDeleted(comment: Pick<LiveComment, 'id' | 'postId' | 'parentId'>): void {
+    this.publish(comment.postId, 'comment.deleted', { id: comment.id, parentId: comment.parentId });
+  }
+
+  commentVotes(postId: number | null, commentId: number, counts: { upvotes: number; downvotes: number }): void {
+    this.publish(postId, 'comment.votes', { id: commentId, ...counts });
+  }
+
+  postReactions(postId: number, counts: { likes: number; dislikes: number }): void {
+    this.publish(postId, 'post.reactions', counts);
+  }
+
+  /** Hold the response open as an event stream, replaying anything the reader missed */
+  subscribe(req: Request, res: Response, postId: number): void {
+    const listeners = this.subscribers.get(postId) ?? new Set<Response>();
+    if (listeners.size >= MAX_SUBSCRIBERS_PER_POST) {
+      res.status(503).json({ error: 'Too many live readers on this story, please try again later' });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const lastEventId = req.get('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+    this.replay(res, postId, lastEventId);
+
+    listeners.add(res);
+    this.subscribers.set(postId, listeners);
+    this.startHeartbeat();
+
+    req.on('close', () => {
+      listeners.delete(res);
+      if (listeners.size === 0) this.subscribers.delete(postId);
+      if (this.subscribers.size === 0) this.stopHeartbeat();
+    });
+  }
+
+  private replay(res: Response, postId: number, lastEventId: string | undefined): void {
+    if (!lastEventId) return;
+
+    const [bootId, seqText] = lastEventId.split('-');
+    const lastSeq = Number(seqText);
+    // Only publish creates channels; a reader of a quiet post has nothing to replay
+    const channel: Channel = this.channels.has(postId) ? this.prune(postId) : { events: [], droppedThrough: this.removedThrough };
+
+    if (bootId !== this.bootId || !Number.isInteger(lastSeq) || lastSeq < channel.droppedThrough) {
+      this.write(res, { seq: this.nextSeq - 1, type: 'reset', data: {}, createdAt: Date.now() });
+      return;
+    }
+
+    const missed = channel.events.filter(event => event.seq > lastSeq);
+    for (const event of missed) this.write(res, event);
+    if (missed.length > 0) {
+      liveLogger.debug('Replayed live events', { postId, count: missed.length });
+    }
+  }
+
+  private write(res: Response, event: LiveEvent): void {
+    res.write(`id: ${this.bootId}-${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    // compression() buffers responses unless told to flush
+    (res as Response & { flush?: () => void }).flush?.();
+  }
+
+  private prune(postId: number): Channel {
+    let channel = this.channels.get(postId);
+    if (!channel) {
+      channel = { events: [], droppedThrough: this.removedThrough };
+      this.channels.set(postId, channel);
+    }
+
+    const cutoff = Date.now() - BACKLOG_TTL_MS;
+    const firstFresh = channel.events.findIndex(event => event.createdAt >= cutoff);
+    const dropCount = firstFresh === -1 ? channel.events.length : firstFresh;
+    if (dropCount > 0) {
+      channel.droppedThrough = channel.events[dropCount - 1].seq;
+      channel.events.splice(0, dropCount);
+    }
+    return channel;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const listeners of this.subscribers.values()) {
+        for (const res of listeners) {
+          res.write(': ping\n\n');
+          (res as Response & { flush?: () => void }).flush?.();
+        }
+      }
+      // Posts nobody is watching don't need their backlog past the TTL, nor a channel once it's empty
+      for (const postId of Array.from(this.channels.keys())) {
+        const channel = this.prune(postId);
+        if (channel.events.length === 0 && !this.subscribers.has(postId)) {
+          this.removedThrough = Math.max(this.removedThrough, channel.droppedThrough);
+          this.channels.delete(postId);
+        }
+      }
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (!this.heartbeat) return;
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
+
+export const liveEventsService = new LiveEventsService();
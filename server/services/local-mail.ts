@@ -0,0 +1,70 @@
+/**
+ * Local Mail Service
+ *
+ * Development transport that never reaches a real inbox. With EMAIL_SMTP_SINK_URL set
+ * (e.g. smtp://localhost:1025 for Mailpit or MailHog) messages go to that SMTP sink;
+ * otherwise each message is written as an .eml file under EMAIL_SINK_DIR.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import logger from '../utils/logger';
+import { EmailMessage, EmailResult } from './email-types';
+
+/**
+ * Check if the local transport should be used
+ *
+ * Forced with EMAIL_TRANSPORT=local; outside production it also stands in when no real
+ * provider is configured.
+ *
+ * @param hasRealProvider Whether Gmail, SendGrid or MailerSend is configured
+ * @returns Boolean indicating if local delivery is enabled
+ */
+export function isLocalMailEnabled(hasRealProvider: boolean): boolean {
+  if (process.env.EMAIL_TRANSPORT === 'local') return true;
+  return !hasRealProvider && process.env.NODE_ENV !== 'production';
+}
+
+function sinkDirectory(): string {
+  return path.resolve(process.env.EMAIL_SINK_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+}
+
+/**
+ * Send an email to the local sink
+ *
+ * @param message Email message to send
+ * @returns Promise resolving to the result of the email send operation
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailResult> {
+  const mail = {
+    from: message.from || 'noreply@bubblescafe.local',
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    replyTo: message.replyTo,
+    attachments: message.attachments,
+    headers: message.headers
+  };
+
+  try {
+    if (process.env.EMAIL_SMTP_SINK_URL) {
+      const result = await nodemailer.createTransport(process.env.EMAIL_SMTP_SINK_URL).sendMail(mail);
+      logger.info('[Email] Delivered email to local SMTP sink', { to: message.to, subject: message.subject });
+      return { success: true, service: 'local', messageId: result.messageId };
+    }
+
+    const result = await nodemailer.createTransport({ streamTransport: true, buffer: true }).sendMail(mail);
+    const directory = sinkDirectory();
+    await mkdir(directory, { recursive: true });
+    const file = path.join(directory, `${Date.now()}-${(result.messageId || 'message').replace(/[^a-zA-Z0-9.-]/g, '')}.eml`);
+    await writeFile(file, result.message as Buffer);
+
+    logger.info('[Email] Wrote email to local sink', { to: message.to, subject: message.subject, file });
+    return { success: true, service: 'local', messageId: result.messageId, details: { file } };
+  } catch (error: any) {
+    logger.error('[Email] Failed to deliver email locally', { error: error.message });
+    return { success: false, service: 'local', error };
+  }
+}
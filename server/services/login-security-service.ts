@@ -0,0 +1,401 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { describeDevice, approximateLocation, countryOf } from '../utils/device-info';
+import { emailService } from '../utils/email-service';
+import { config } from '../config';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  loginAttempts,
+  accountLockouts,
+  loginTokens,
+  type User,
+  type LoginAttemptReason,
+  type LoginToken,
+  type LoginTokenPurpose
+} from "@shared/schema";
+import { eq, and, or, gt, lt, isNull, isNotNull, desc, sql } from "drizzle-orm";
+import { sessionService } from './session-service';
+
+const loginSecurityLogger = createSecureLogger('LoginSecurityService');
+
+// Wrong passwords allowed before each further attempt has to wait
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 60;
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+// A failure this long after the previous one starts the count again
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const UNLOCK_TOKEN_TTL_MS = 60 * 60 * 1000;
+const CONFIRM_TOKEN_TTL_MS = 30 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+// Repeat requests inside this window don't send another email
+const MAGIC_LINK_RESEND_INTERVAL_MS = 60 * 1000;
+const ATTEMPT_HISTORY_LIMIT = 50;
+// Accounts created from a magic link get this instead of a bcrypt hash
+const PASSWORDLESS_HASH_PREFIX = '!passwordless:';
+
+function dormancyMs(): number {
+  const days = Number(process.env.LOGIN_DORMANCY_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : 90) * 24 * 60 * 60 * 1000;
+}
+
+function hashValue(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Why a password sign-in can't be tried right now */
+export interface LoginBlock {
+  reason: 'locked' | 'throttled';
+  retryAfterSeconds: number;
+  message: string;
+}
+
+export interface LoginAttemptEntry {
+  id: number;
+  success: boolean;
+  reason: string | null;
+  device: string;
+  location: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+// A starting username that passes the username rules, from the part of the address before "@"
+function usernameFromEmail(email: string): string {
+  const name = email.split('@')[0].replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 50);
+  return name.replace(/_/g, '').length >= 2 ? name : `reader_${randomBytes(3).toString('hex')}`;
+}
+
+// Links go to an account, or for a magic link to an address that has none yet
+type TokenOwner = { userId: number } | { userId: null; email: string };
+
+function secondsUntil(time: Date): number {
+  return Math.max(1, Math.ceil((time.getTime() - Date.now()) / 1000));
+}
+
+function lockedBlock(until: Date): LoginBlock {
+  const minutes = Math.ceil(secondsUntil(until) / 60);
+  return {
+    reason: 'locked',
+    retryAfterSeconds: secondsUntil(until),
+    message: `Too many failed sign-in attempts. Your account is locked for ${minutes} more minute${minutes === 1 ? '' : 's'}; check your email for a link to unlock it now.`
+  };
+}
+
+/** True for accounts that sign in by email link only and have never set a password */
+export function isPasswordless(passwordHash: string): boolean {
+  return passwordHash.startsWith(PASSWORDLESS_HASH_PREFIX);
+}
+
+/**
+ * Guards password sign-in: slows down and then locks accounts after repeated wrong passwords,
+ * keeps the attempt history users see in their settings, and holds back sign-ins that look
+ * unusual until they are confirmed by email. Also issues the emailed links that sign in
+ * without a password.
+ */
+export class LoginSecurityService {
+  /** A lock or delay that stops this account from trying a password now, if any */
+  async checkAllowed(userId: number): Promise<LoginBlock | null> {
+    const [lockout] = await db.select().from(accountLockouts).where(eq(accountLockouts.userId, userId)).limit(1);
+    if (!lockout) return null;
+
+    const now = new Date();
+    if (lockout.lockedUntil && lockout.lockedUntil > now) {
+      return lockedBlock(lockout.lockedUntil);
+    }
+
+    // Each wrong password past the free ones doubles the wait before the next try
+    const overLimit = lockout.failedAttempts - FREE_ATTEMPTS;
+    if (overLimit > 0 && lockout.lastFailedAt && !lockout.lockedUntil) {
+      const delaySeconds = Math.min(2 ** (overLimit - 1), MAX_DELAY_SECONDS);
+      const nextAllowed = new Date(lockout.lastFailedAt.getTime() + delaySeconds * 1000);
+      if (nextAllowed > now) {
+        const wait = secondsUntil(nextAllowed);
+        return {
+          reason: 'throttled',
+          retryAfterSeconds: wait,
+          message: `Too many failed sign-in attempts. Please wait ${wait} second${wait === 1 ? '' : 's'} and try again.`
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Add to the attempt history. Never throws: a failure here must not decide the sign-in. */
+  async recordAttempt(
+    req: Request,
+    attempt: { email: string; userId?: number | null; success: boolean; reason?: LoginAttemptReason }
+  ): Promise<void> {
+    try {
+      await db.insert(loginAttempts).values({
+        userId: attempt.userId ?? null,
+        email: attempt.email.trim().toLowerCase(),
+        ipAddress: req.ip || null,
+        userAgent: req.get('User-Agent') || null,
+        country: await countryOf(req.ip),
+        success: attempt.success,
+        reason: attempt.reason ?? null
+      });
+    } catch (error) {
+      loginSecurityLogger.error('Failed to record login attempt', { userId: attempt.userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Count a wrong password against the account. Returns the lock when this attempt was the
+   * one that locked it; the owner is emailed a link to unlock early.
+   */
+  async recordFailure(req: Request, email: string, account: User | undefined): Promise<LoginBlock | null> {
+    await this.recordAttempt(req, { email, userId: account?.id, success: false, reason: 'bad_password' });
+    if (!account) return null;
+
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+    // A lock that has run out gives the owner a fresh count
+    const stale = sql`(${accountLockouts.lastFailedAt} IS NULL
+      OR ${accountLockouts.lastFailedAt} < ${windowStart.toISOString()}::timestamp
+      OR ${accountLockouts.lockedUntil} <= ${now.toISOString()}::timestamp)`;
+    // Counted in the statement itself so parallel attempts can't overwrite each other's count
+    const [counted] = await db.insert(accountLockouts)
+      .values({ userId: account.id, failedAttempts: 1, lastFailedAt: now, lockedUntil: null, updatedAt: now })
+      .onConflictDoUpdate({
+        target: accountLockouts.userId,
+        set: {
+          failedAttempts: sql`CASE WHEN ${stale} THEN 1 ELSE ${accountLockouts.failedAttempts} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${stale} THEN NULL ELSE ${accountLockouts.lockedUntil} END`,
+          lastFailedAt: now,
+          updatedAt: now
+        }
+      })
+      .returning();
+    if (counted.failedAttempts < LOCKOUT_THRESHOLD || counted.lockedUntil) return null;
+
+    // Only the attempt that sets the lock sends the email
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
+    const [locked] = await db.update(accountLockouts)
+      .set({ lockedUntil })
+      .where(and(eq(accountLockouts.userId, account.id), isNull(accountLockouts.lockedUntil)))
+      .returning({ failedAttempts: accountLockouts.failedAttempts });
+    if (!locked) return null;
+
+    await this.notifyLocked(req, account, locked.failedAttempts);
+    return lockedBlock(lockedUntil);
+  }
+
+  /** A sign-in went through: record it and forget earlier wrong passwords */
+  async recordSuccess(req: Request, user: { id: number; email: string }, reason?: LoginAttemptReason): Promise<void> {
+    await this.recordAttempt(req, { email: user.email, userId: user.id, success: true, reason });
+    await db.delete(accountLockouts).where(eq(accountLockouts.userId, user.id));
+  }
+
+  /**
+   * A correct password is held back for email confirmation when the account has been dormant
+   * and the sign-in comes from a browser it hasn't used or a country it hasn't signed in from.
+   * Accounts with no recorded sign-ins yet are never held back.
+   */
+  async isSuspicious(req: Request, userId: number): Promise<boolean> {
+    const previous = await db.select({ country: loginAttempts.country, createdAt: loginAttempts.createdAt })
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.userId, userId), eq(loginAttempts.success, true)))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(ATTEMPT_HISTORY_LIMIT);
+    if (previous.length === 0) return false;
+    if (Date.now() - previous[0].createdAt.getTime() < dormancyMs()) return false;
+
+    if (!(await sessionService.isKnownDevice(req, userId))) return true;
+    const country = await countryOf(req.ip);
+    const knownCountries = previous.map(attempt => attempt.country).filter(Boolean);
+    return !!country && knownCountries.length > 0 && !knownCountries.includes(country);
+  }
+
+  /** Email a link that finishes this sign-in; no session is created until it is opened */
+  async requestConfirmation(req: Request, user: { id: number; email: string; username: string }, rememberMe: boolean): Promise<void> {
+    await db.delete(accountLockouts).where(eq(accountLockouts.userId, user.id));
+    const token = await this.createToken({ userId: user.id }, 'confirm_login', CONFIRM_TOKEN_TTL_MS, rememberMe);
+    const ipAddress = req.ip || null;
+    await emailService.sendConfirmSignInEmail(user.email, user.username, {
+      token,
+      device: describeDevice(req.get('User-Agent')).label,
+      location: await approximateLocation(ipAddress),
+      ipAddress,
+      expiresInMinutes: CONFIRM_TOKEN_TTL_MS / 60_000
+    });
+    await this.recordAttempt(req, { email: user.email, userId: user.id, success: false, reason: 'confirmation_required' });
+    loginSecurityLogger.info('Sign-in held for email confirmation', { userId: user.id });
+  }
+
+  /** Redeem a sign-in confirmation link for the account and its "remember me" choice */
+  async consumeConfirmation(token: string): Promise<{ user: User; rememberMe: boolean }> {
+    const record = await this.consumeToken(token, 'confirm_login');
+    return { user: await this.tokenOwner(record), rememberMe: record.rememberMe };
+  }
+
+  /** Lift a lockout early with the link from the lockout email */
+  async unlock(req: Request, token: string): Promise<void> {
+    const { id: userId } = await this.tokenOwner(await this.consumeToken(token, 'unlock'));
+    await db.delete(accountLockouts).where(eq(accountLockouts.userId, userId));
+    await storage.logActivity({
+      userId,
+      action: 'account_unlocked',
+      details: {},
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    loginSecurityLogger.info('Account unlocked by email link', { userId });
+  }
+
+  /**
+   * Email a link that signs in without a password. Addresses with no account get one too when
+   * sign-up by link is enabled; otherwise nothing is sent, but callers reply the same either
+   * way so the form doesn't reveal who has an account.
+   */
+  async requestMagicLink(req: Request, email: string, rememberMe: boolean): Promise<void> {
+    const address = email.trim().toLowerCase();
+    const user = await storage.getUserByEmail(address);
+    if (!user && !config.auth.magicLinkSignup) {
+      loginSecurityLogger.info('Magic link requested for an unknown address');
+      return;
+    }
+
+    const owner = user ? { userId: user.id } : { userId: null, email: address };
+    const [recent] = await db.select({ id: loginTokens.id }).from(loginTokens)
+      .where(and(
+        this.ownedBy(owner),
+        eq(loginTokens.purpose, 'magic_link'),
+        isNull(loginTokens.usedAt),
+        gt(loginTokens.createdAt, new Date(Date.now() - MAGIC_LINK_RESEND_INTERVAL_MS))
+      ))
+      .limit(1);
+    if (recent) return;
+
+    const token = await this.createToken(owner, 'magic_link', MAGIC_LINK_TTL_MS, rememberMe);
+    const ipAddress = req.ip || null;
+    await emailService.sendMagicLinkEmail(address, {
+      token,
+      username: user?.username ?? null,
+      device: describeDevice(req.get('User-Agent')).label,
+      location: await approximateLocation(ipAddress),
+      expiresInMinutes: MAGIC_LINK_TTL_MS / 60_000
+    });
+    loginSecurityLogger.info('Magic link sent', { userId: user?.id, newAccount: !user });
+  }
+
+  /** Redeem a magic link, creating the account first when it was sent to a new address */
+  async consumeMagicLink(token: string): Promise<{ user: User; rememberMe: boolean; created: boolean }> {
+    const record = await this.consumeToken(token, 'magic_link');
+    if (record.userId || !record.email) {
+      return { user: await this.tokenOwner(record), rememberMe: record.rememberMe, created: false };
+    }
+    if (!config.auth.magicLinkSignup) {
+      throw createError.badRequest('This link has expired or was already used');
+    }
+
+    // The address may have registered another way since the link was sent
+    const existing = await storage.getUserByEmail(record.email);
+    if (existing) {
+      return { user: existing, rememberMe: record.rememberMe, created: false };
+    }
+
+    const user = await storage.createUser({
+      username: usernameFromEmail(record.email),
+      email: record.email,
+      // Not a bcrypt hash, so there is no password until the user sets one with a reset link
+      password_hash: `${PASSWORDLESS_HASH_PREFIX}${randomBytes(16).toString('hex')}`,
+      metadata: { signupMethod: 'magic_link' }
+    });
+    loginSecurityLogger.info('Account created from magic link', { userId: user.id });
+    return { user, rememberMe: record.rememberMe, created: true };
+  }
+
+  /** A user's recent sign-in attempts, newest first */
+  async listAttempts(userId: number): Promise<LoginAttemptEntry[]> {
+    const rows = await db.select().from(loginAttempts)
+      .where(eq(loginAttempts.userId, userId))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(ATTEMPT_HISTORY_LIMIT);
+
+    return Promise.all(rows.map(async row => ({
+      id: row.id,
+      success: row.success,
+      reason: row.reason,
+      device: describeDevice(row.userAgent).label,
+      location: await approximateLocation(row.ipAddress),
+      ipAddress: row.ipAddress,
+      createdAt: row.createdAt
+    })));
+  }
+
+  private async notifyLocked(req: Request, account: User, failedAttempts: number): Promise<void> {
+    const token = await this.createToken({ userId: account.id }, 'unlock', UNLOCK_TOKEN_TTL_MS);
+    await emailService.sendAccountLockedEmail(account.email, account.username, {
+      token,
+      lockedMinutes: LOCKOUT_DURATION_MS / 60_000,
+      failedAttempts,
+      ipAddress: req.ip || null
+    });
+    await storage.logActivity({
+      userId: account.id,
+      action: 'account_locked',
+      details: { failedAttempts },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    loginSecurityLogger.warn('Account locked after failed sign-ins', { userId: account.id, failedAttempts });
+  }
+
+  private ownedBy(owner: TokenOwner) {
+    return owner.userId !== null
+      ? eq(loginTokens.userId, owner.userId)
+      : and(isNull(loginTokens.userId), eq(loginTokens.email, owner.email));
+  }
+
+  private async createToken(owner: TokenOwner, purpose: LoginTokenPurpose, ttlMs: number, rememberMe = false): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+
+    // Drop expired and spent tokens opportunistically; only the newest link of a kind works
+    await db.delete(loginTokens).where(or(
+      lt(loginTokens.expiresAt, new Date()),
+      isNotNull(loginTokens.usedAt),
+      and(this.ownedBy(owner), eq(loginTokens.purpose, purpose))
+    ));
+    await db.insert(loginTokens).values({
+      userId: owner.userId,
+      email: owner.userId === null ? owner.email : null,
+      purpose,
+      tokenHash: hashValue(token),
+      rememberMe,
+      expiresAt: new Date(Date.now() + ttlMs)
+    });
+    return token;
+  }
+
+  private async consumeToken(token: string, purpose: LoginTokenPurpose): Promise<LoginToken> {
+    // Marking it used in the same statement means a link can't be redeemed twice at once
+    const [record] = await db.update(loginTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(loginTokens.tokenHash, hashValue(token)),
+        eq(loginTokens.purpose, purpose),
+        isNull(loginTokens.usedAt),
+        gt(loginTokens.expiresAt, new Date())
+      ))
+      .returning();
+    if (!record) {
+      throw createError.badRequest('This link has expired or was already used');
+    }
+    return record;
+  }
+
+  private async tokenOwner(record: LoginToken): Promise<User> {
+    const user = record.userId ? await storage.getUser(record.userId) : undefined;
+    if (!user) {
+      throw createError.badRequest('This link has expired or was already used');
+    }
+    return user;
+  }
+}
+
+export const loginSecurityService = new LoginSecurityService();
@@ -13,7 +13,7 @@ import { EmailMessage, EmailResult, MailerSendEmail, MailerSendRecipient } from
  * 
  * @returns Boolean indicating if API key is set
  */
-function hasMailerSendApiKey(): boolean {
+export function hasMailerSendApiKey(): boolean {
   return !!process.env.MAILERSEND_API_TOKEN;
 }
 
@@ -0,0 +1,567 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import {
+  comments,
+  posts,
+  users,
+  moderationRuleSets,
+  moderationRules,
+  moderationAllowlist,
+  moderationDecisions,
+  type CommentMetadata,
+  type ModerationRuleSet,
+  type ModerationRule,
+  type InsertModerationRuleSet,
+  type InsertModerationRule,
+  type ModerationAllowlistEntry,
+  type ModerationDecision
+} from "@shared/schema";
+import { eq, and, desc, inArray, isNotNull, sql } from "drizzle-orm";
+import { notificationService } from './notification-service';
+import { liveEventsService } from './live-events-service';
+import { webhookService } from './webhook-service';
+import {
+  evaluateContent,
+  moderateComment,
+  allowlistContextsFor,
+  compileRuleRegex,
+  type EvaluableRule,
+  type ModerationContext,
+  type ModerationResult
+} from '../utils/comment-moderation';
+
+const moderationLogger = createSecureLogger('ModerationService');
+
+// Rule edits invalidate the cache immediately; the TTL only bounds staleness across processes
+const RULE_CACHE_TTL_MS = 30_000;
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface QueueDecision {
+  id: number;
+  ruleId: number | null;
+  ruleName: string | null;
+  action: string;
+  source: string;
+  matched: string[];
+  reason: string | null;
+  actorKey: string | null;
+  createdAt: Date;
+}
+
+export interface QueueItem {
+  contentType: string;
+  contentId: number;
+  content: string;
+  author: string;
+  userId: number | null;
+  postId: number | null;
+  postTitle: string | null;
+  createdAt: Date;
+  decisions: QueueDecision[];
+}
+
+export interface DecisionLogFilter {
+  contentType?: string;
+  contentId?: number;
+  ruleId?: number;
+  status?: string;
+  limit: number;
+  offset?: number;
+}
+
+export interface RecordDecisionsInput {
+  contentType: string;
+  // null for content that was rejected before it was stored
+  contentId: number | null;
+  content: string;
+  actorKey?: string | null;
+}
+
+interface LoadedRules {
+  loadedAt: number;
+  rules: Array<EvaluableRule & { context: string }>;
+  allowlist: Array<{ term: string; context: string }>;
+}
+
+// Actions that need a human to look at the content
+const REVIEWABLE_ACTIONS = new Set(['hold', 'shadow_hide', 'flag']);
+
+export class ModerationService {
+  private cache: LoadedRules | null = null;
+
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  private async loadRules(): Promise<LoadedRules> {
+    if (this.cache && Date.now() - this.cache.loadedAt < RULE_CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    const ruleRows = await db.select({
+      id: moderationRules.id,
+      name: moderationRules.name,
+      type: moderationRules.type,
+      action: moderationRules.action,
+      config: moderationRules.config,
+      context: moderationRuleSets.context
+    })
+      .from(moderationRules)
+      .innerJoin(moderationRuleSets, eq(moderationRules.ruleSetId, moderationRuleSets.id))
+      .where(and(eq(moderationRules.enabled, true), eq(moderationRuleSets.enabled, true)))
+      .orderBy(desc(moderationRuleSets.priority), moderationRules.id);
+
+    const allowlistRows = await db.select({
+      term: moderationAllowlist.term,
+      context: moderationAllowlist.context
+    }).from(moderationAllowlist);
+
+    this.cache = {
+      loadedAt: Date.now(),
+      rules: ruleRows.map(row => ({
+        id: row.id,
+        name: row.name,
+        type: row.type as EvaluableRule['type'],
+        action: row.action as EvaluableRule['action'],
+        config: (row.config || {}) as EvaluableRule['config'],
+        context: row.context
+      })),
+      allowlist: allowlistRows
+    };
+    return this.cache;
+  }
+
+  /**
+   * Run the configured rules against a piece of content.
+   * Falls back to the built-in defaults if the rule tables cannot be read.
+   */
+  async evaluate(text: string, context: ModerationContext): Promise<ModerationResult> {
+    try {
+      const { rules, allowlist } = await this.loadRules();
+      const applicableRules = rules.filter(rule => rule.context === 'all' || rule.context === context.contentType);
+      const contexts = new Set(allowlistContextsFor(context));
+      const terms = allowlist.filter(entry => contexts.has(entry.context)).map(entry => entry.term);
+      return evaluateContent(text, applicableRules, terms, context);
+    } catch (error) {
+      moderationLogger.warn('Falling back to default moderation rules', { error: error instanceof Error ? error.message : String(error) });
+      return moderateComment(text, context);
+    }
+  }
+
+  /**
+   * Build the evaluation context for a comment from its post and author
+   */
+  async buildCommentContext(postId: number | null | undefined, userId: number | null | undefined): Promise<ModerationContext> {
+    const context: ModerationContext = { contentType: 'comment', isAnonymous: !userId };
+    try {
+      if (postId) {
+        const [post] = await db.select({ themeCategory: posts.themeCategory }).from(posts).where(eq(posts.id, postId)).limit(1);
+        context.themeCategory = post?.themeCategory ?? null;
+      }
+      if (userId) {
+        const [user] = await db.select({ createdAt: users.createdAt }).from(users).where(eq(users.id, userId)).limit(1);
+        context.accountCreatedAt = user?.createdAt ?? null;
+      }
+    } catch (error) {
+      moderationLogger.warn('Could not load moderation context', { postId, userId, error });
+    }
+    return context;
+  }
+
+  /**
+   * Write one decision log entry per rule that fired.
+   * Hold and shadow-hide decisions enter the review queue as 'pending'.
+   */
+  async recordDecisions(result: ModerationResult, input: RecordDecisionsInput): Promise<void> {
+    if (result.hits.length === 0) return;
+    try {
+      await db.insert(moderationDecisions).values(result.hits.map(hit => ({
+        contentType: input.contentType,
+        contentId: input.contentId,
+        ruleId: hit.ruleId ?? null,
+        ruleName: hit.ruleName,
+        action: hit.action,
+        source: 'automatic',
+        status: REVIEWABLE_ACTIONS.has(hit.action) ? 'pending' : 'applied',
+        matched: hit.matched,
+        reason: hit.reason,
+        contentSnapshot: input.content,
+        actorKey: input.actorKey ?? null
+      })));
+    } catch (error) {
+      moderationLogger.error('Failed to record moderation decisions', { contentType: input.contentType, contentId: input.contentId, error });
+    }
+  }
+
+  /**
+   * Put user-flagged content into the review queue. Repeat flags from the same user are ignored.
+   */
+  async flagContent(input: RecordDecisionsInput & { contentId: number; reason?: string }): Promise<boolean> {
+    const [existing] = await db.select({ id: moderationDecisions.id })
+      .from(moderationDecisions)
+      .where(and(
+        eq(moderationDecisions.contentType, input.contentType),
+        eq(moderationDecisions.contentId, input.contentId),
+        eq(moderationDecisions.source, 'flag'),
+        eq(moderationDecisions.status, 'pending'),
+        input.actorKey ? eq(moderationDecisions.actorKey, input.actorKey) : sql`${moderationDecisions.actorKey} IS NULL`
+      ))
+      .limit(1);
+    if (existing) return false;
+
+    await db.insert(moderationDecisions).values({
+      contentType: input.contentType,
+      contentId: input.contentId,
+      action: 'flag',
+      source: 'flag',
+      status: 'pending',
+      reason: input.reason || 'inappropriate content',
+      contentSnapshot: input.content,
+      actorKey: input.actorKey ?? null
+    });
+    if (input.contentType === 'comment') {
+      await webhookService.emit('comment.flagged', { commentId: input.contentId, reason: input.reason || 'inappropriate content' });
+    }
+    return true;
+  }
+
+  async getQueue(options: { limit: number; offset?: number } = { limit: 50 }): Promise<{ items: QueueItem[]; total: number }> {
+    const pendingComments = and(
+      eq(moderationDecisions.status, 'pending'),
+      eq(moderationDecisions.contentType, 'comment'),
+      isNotNull(moderationDecisions.contentId)
+    );
+
+    // One queue entry per comment, most recently queued first; paged in SQL so a long
+    // backlog never has to be loaded at once
+    const [[{ total }], page] = await Promise.all([
+      db.select({ total: sql<number>`count(DISTINCT ${moderationDecisions.contentId})::int` })
+        .from(moderationDecisions)
+        .where(pendingComments),
+      db.select({ contentId: moderationDecisions.contentId })
+        .from(moderationDecisions)
+        .where(pendingComments)
+        .groupBy(moderationDecisions.contentId)
+        .orderBy(desc(sql`max(${moderationDecisions.createdAt})`), desc(moderationDecisions.contentId))
+        .limit(options.limit)
+        .offset(options.offset ?? 0)
+    ]);
+    const pageIds = page.map(row => row.contentId as number);
+    if (pageIds.length === 0) return { items: [], total };
+
+    const pending = await db.select()
+      .from(moderationDecisions)
+      .where(and(pendingComments, inArray(moderationDecisions.contentId, pageIds)))
+      .orderBy(desc(moderationDecisions.createdAt));
+    const byComment = new Map<number, ModerationDecision[]>();
+    for (const decision of pending) {
+      const list = byComment.get(decision.contentId as number) || [];
+      list.push(decision);
+      byComment.set(decision.contentId as number, list);
+    }
+
+    const rows = await db.select({
+      id: comments.id,
+      content: comments.content,
+      userId: comments.userId,
+      postId: comments.postId,
+      metadata: comments.metadata,
+      createdAt: comments.createdAt,
+      postTitle: posts.title,
+      username: users.username
+    })
+      .from(comments)
+      .leftJoin(posts, eq(comments.postId, posts.id))
+      .leftJoin(users, eq(comments.userId, users.id))
+      .where(inArray(comments.id, pageIds));
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+
+    const items: QueueItem[] = [];
+    for (const contentId of pageIds) {
+      const decisions = byComment.get(contentId);
+      // Reviewed between the page query and this one
+      if (!decisions) continue;
+      const row = rowsById.get(contentId);
+      // The comment was deleted after it was queued; close out its decisions lazily
+      if (!row) {
+        await this.closeDecisions('comment', [contentId], 'resolved', null, 'Content no longer exists');
+        continue;
+      }
+      const metadata = (row.metadata || {}) as CommentMetadata;
+      items.push({
+        contentType: 'comment',
+        contentId,
+        content: row.content,
+        author: row.username || metadata.author || 'Anonymous',
+        userId: row.userId,
+        postId: row.postId,
+        postTitle: row.postTitle,
+        createdAt: row.createdAt,
+        decisions: decisions.map(d => ({
+          id: d.id,
+          ruleId: d.ruleId,
+          ruleName: d.ruleName,
+          action: d.action,
+          source: d.source,
+          matched: d.matched || [],
+          reason: d.reason,
+          actorKey: d.actorKey,
+          createdAt: d.createdAt
+        }))
+      });
+    }
+
+    return { items, total };
+  }
+
+  async getPendingCount(): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(DISTINCT ${moderationDecisions.contentId})` })
+      .from(moderationDecisions)
+      .where(and(eq(moderationDecisions.status, 'pending'), eq(moderationDecisions.contentType, 'comment')));
+    return Number(row?.count ?? 0);
+  }
+
+  private async closeDecisions(
+    contentType: string,
+    contentIds: number[],
+    status: string,
+    reviewerId: number | null,
+    note?: string
+  ): Promise<void> {
+    if (contentIds.length === 0) return;
+    await db.update(moderationDecisions)
+      .set({ status, reviewerId, reviewNote: note ?? null, reviewedAt: new Date() })
+      .where(and(
+        eq(moderationDecisions.contentType, contentType),
+        inArray(moderationDecisions.contentId, contentIds),
+        eq(moderationDecisions.status, 'pending')
+      ));
+  }
+
+  /**
+   * Approve or reject queued comments. Approval publishes the comment;
+   * rejection keeps it hidden from everyone, including its author.
+   */
+  async reviewComments(commentIds: number[], decision: ReviewDecision, reviewerId: number, note?: string): Promise<number[]> {
+    const existing = await db.select({
+      id: comments.id,
+      parentId: comments.parentId,
+      postId: comments.postId,
+      userId: comments.userId,
+      content: comments.content,
+      createdAt: comments.createdAt,
+      edited: comments.edited,
+      editedAt: comments.editedAt,
+      is_approved: comments.is_approved,
+      metadata: comments.metadata
+    })
+      .from(comments)
+      .where(inArray(comments.id, commentIds));
+    if (existing.length === 0) {
+      throw createError.notFound('No matching comments found');
+    }
+
+    const now = new Date().toISOString();
+    for (const comment of existing) {
+      const metadata = (comment.metadata || {}) as CommentMetadata;
+      await db.update(comments)
+        .set({
+          is_approved: decision === 'approve',
+          metadata: {
+            ...metadata,
+            moderation: {
+              ...metadata.moderation,
+              status: decision === 'approve' ? 'approved' : 'rejected',
+              updatedAt: now
+            }
+          }
+        })
+        .where(eq(comments.id, comment.id));
+    }
+
+    const reviewedIds = existing.map(c => c.id);
+    await this.closeDecisions('comment', reviewedIds, decision === 'approve' ? 'approved' : 'rejected', reviewerId, note);
+
+    // Manual entry so the log shows who made the call even when nothing was queued
+    await db.insert(moderationDecisions).values(reviewedIds.map(id => ({
+      contentType: 'comment',
+      contentId: id,
+      action: decision,
+      source: 'manual',
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reason: note ?? null,
+      reviewerId,
+      reviewedAt: new Date()
+    })));
+
+    for (const comment of existing) {
+      // Shadow-hidden comments looked published to their author, so only held ones get a notice
+      const status = ((comment.metadata || {}) as CommentMetadata).moderation?.status;
+      if (status !== 'shadow_hidden') {
+        await notificationService.submissionReviewed({
+          userId: comment.userId,
+          contentType: 'comment',
+          contentId: comment.id,
+          decision: decision === 'approve' ? 'approved' : 'rejected'
+        });
+      }
+      // A reply that was held never notified the parent's author
+      if (decision === 'approve' && !comment.is_approved) {
+        await notificationService.commentReplied(comment);
+      }
+
+      const wasVisible = isPubliclyVisible(comment);
+      if (decision === 'approve' && !wasVisible) {
+        liveEventsService.commentCreated(comment);
+        await webhookService.commentCreated(comment);
+      } else if (decision === 'reject' && wasVisible) {
+        liveEventsService.commentDeleted(comment);
+      }
+    }
+
+    moderationLogger.info('Comments reviewed', { decision, count: reviewedIds.length, reviewerId });
+    return reviewedIds;
+  }
+
+  async getDecisionLog(filter: DecisionLogFilter): Promise<ModerationDecision[]> {
+    const conditions = [];
+    if (filter.contentType) conditions.push(eq(moderationDecisions.contentType, filter.contentType));
+    if (filter.contentId) conditions.push(eq(moderationDecisions.contentId, filter.contentId));
+    if (filter.ruleId) conditions.push(eq(moderationDecisions.ruleId, filter.ruleId));
+    if (filter.status) conditions.push(eq(moderationDecisions.status, filter.status));
+
+    return db.select()
+      .from(moderationDecisions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(moderationDecisions.createdAt))
+      .limit(filter.limit)
+      .offset(filter.offset ?? 0);
+  }
+
+  // Rule sets
+
+  async getRuleSets(): Promise<Array<ModerationRuleSet & { rules: ModerationRule[] }>> {
+    const sets = await db.select().from(moderationRuleSets).orderBy(desc(moderationRuleSets.priority), moderationRuleSets.id);
+    const rules = await db.select().from(moderationRules).orderBy(moderationRules.id);
+    return sets.map(set => ({ ...set, rules: rules.filter(rule => rule.ruleSetId === set.id) }));
+  }
+
+  async createRuleSet(data: InsertModerationRuleSet): Promise<ModerationRuleSet> {
+    const [created] = await db.insert(moderationRuleSets).values(data).returning();
+    this.invalidateCache();
+    return created;
+  }
+
+  async updateRuleSet(id: number, data: Partial<InsertModerationRuleSet>): Promise<ModerationRuleSet> {
+    const [updated] = await db.update(moderationRuleSets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(moderationRuleSets.id, id))
+      .returning();
+    if (!updated) throw createError.notFound('Rule set not found');
+    this.invalidateCache();
+    return updated;
+  }
+
+  async deleteRuleSet(id: number): Promise<void> {
+    const deleted = await db.delete(moderationRuleSets).where(eq(moderationRuleSets.id, id)).returning({ id: moderationRuleSets.id });
+    if (deleted.length === 0) throw createError.notFound('Rule set not found');
+    this.invalidateCache();
+  }
+
+  // Rules
+
+  private assertValidRule(rule: { type: string; config?: unknown }): void {
+    try {
+      compileRuleRegex({ type: rule.type as EvaluableRule['type'], config: (rule.config || {}) as EvaluableRule['config'] });
+    } catch (error) {
+      throw createError.badRequest(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async createRule(data: InsertModerationRule): Promise<ModerationRule> {
+    this.assertValidRule(data);
+    const [ruleSet] = await db.select({ id: moderationRuleSets.id }).from(moderationRuleSets).where(eq(moderationRuleSets.id, data.ruleSetId)).limit(1);
+    if (!ruleSet) throw createError.notFound('Rule set not found');
+
+    const [created] = await db.insert(moderationRules).values(data).returning();
+    this.invalidateCache();
+    return created;
+  }
+
+  async updateRule(id: number, data: Partial<InsertModerationRule>): Promise<ModerationRule> {
+    const [current] = await db.select().from(moderationRules).where(eq(moderationRules.id, id)).limit(1);
+    if (!current) throw createError.notFound('Rule not found');
+    this.assertValidRule({ type: data.type ?? current.type, config: data.config ?? current.config });
+
+    const [updated] = await db.update(moderationRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(moderationRules.id, id))
+      .returning();
+    this.invalidateCache();
+    return updated;
+  }
+
+  async deleteRule(id: number): Promise<void> {
+    const deleted = await db.delete(moderationRules).where(eq(moderationRules.id, id)).returning({ id: moderationRules.id });
+    if (deleted.length === 0) throw createError.notFound('Rule not found');
+    this.invalidateCache();
+  }
+
+  // Allowlist
+
+  async getAllowlist(context?: string): Promise<ModerationAllowlistEntry[]> {
+    return db.select()
+      .from(moderationAllowlist)
+      .where(context ? eq(moderationAllowlist.context, context) : undefined)
+      .orderBy(moderationAllowlist.context, moderationAllowlist.term);
+  }
+
+  async addAllowlistEntry(term: string, context: string, createdBy: number | null, note?: string): Promise<ModerationAllowlistEntry> {
+    const normalizedTerm = term.trim().toLowerCase();
+    const [created] = await db.insert(moderationAllowlist)
+      .values({ term: normalizedTerm, context, note: note ?? null, createdBy })
+      .onConflictDoNothing()
+      .returning();
+    if (!created) throw createError.conflict(`"${normalizedTerm}" is already allowed in ${context}`);
+    this.invalidateCache();
+    return created;
+  }
+
+  async removeAllowlistEntry(id: number): Promise<void> {
+    const deleted = await db.delete(moderationAllowlist).where(eq(moderationAllowlist.id, id)).returning({ id: moderationAllowlist.id });
+    if (deleted.length === 0) throw createError.notFound('Allowlist entry not found');
+    this.invalidateCache();
+  }
+}
+
+export const moderationService = new ModerationService();
+
+/**
+ * Map an evaluation outcome onto the moderation state stored in comment metadata
+ */
+export function toCommentModerationState(result: ModerationResult): CommentMetadata['moderation'] | undefined {
+  if (!result.action || result.action === 'reject') return undefined;
+  const status = result.action === 'hold' ? 'held'
+    : result.action === 'shadow_hide' ? 'shadow_hidden'
+    : 'masked';
+  return {
+    status,
+    ruleIds: result.hits.map(hit => hit.ruleId).filter((id): id is number => typeof id === 'number'),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/** Moderation state for a comment by a shadow-muted author: shown to them alone, never queued */
+export function mutedCommentState(): NonNullable<CommentMetadata['moderation']> {
+  return { status: 'shadow_hidden', muted: true, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Whether a comment should be shown to a viewer who is not its author
+ */
+export function isPubliclyVisible(comment: { is_approved?: boolean; metadata?: unknown }): boolean {
+  const status = ((comment.metadata || {}) as CommentMetadata).moderation?.status;
+  return Boolean(comment.is_approved) && status !== 'shadow_hidden' && status !== 'rejected';
+}
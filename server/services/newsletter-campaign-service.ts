@@ -0,0 +1,430 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { emailOutboxService, type EmailOutboxOutcome } from './email-outbox-service';
+import { escapeHtml, htmlToText, renderEmailTemplate, type RenderedEmail } from './email-templates';
+import {
+  posts,
+  newsletterCampaigns,
+  newsletterSends,
+  newsletterSubscriptions,
+  type EmailOutboxMessage,
+  type NewsletterCampaign,
+  type NewsletterSend,
+  type NewsletterSendStatus,
+  type NewsletterSubscription
+} from "@shared/schema";
+import { eq, and, desc, inArray, lte, sql } from "drizzle-orm";
+import { isPublicStory } from './notification-service';
+import { newsletterApiUrl, unsubscribeUrl } from './newsletter-subscription-service';
+
+const campaignLogger = createSecureLogger('NewsletterCampaignService');
+
+const POLL_INTERVAL_MS = 30 * 1000;
+// Throttle: at most BATCH_SIZE messages are handed to the outbox per poll
+const BATCH_SIZE = Math.max(parseInt(process.env.NEWSLETTER_BATCH_SIZE || '50', 10) || 50, 1);
+const MAX_ATTEMPTS = 3;
+const OUTBOX_CATEGORY = 'newsletter';
+const DIGEST_LOOKBACK_DAYS = 7;
+const DIGEST_MAX_STORIES = 20;
+
+export interface CampaignInput {
+  subject: string;
+  previewText?: string | null;
+  content: string;
+}
+
+export interface CampaignStats {
+  pending: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  bounced: number;
+  skipped: number;
+}
+
+function siteUrl(): string {
+  return (process.env.FRONTEND_URL || 'https://bubblescafe.replit.app').replace(/\/$/, '');
+}
+
+function sendReference(sendId: number): string {
+  return `newsletter_send:${sendId}`;
+}
+
+/** Addresses that hard-bounced, from SendGrid or MailerSend event webhooks or a plain `{ email }` body */
+export function extractBouncedEmails(payload: unknown): string[] {
+  const events = Array.isArray(payload) ? payload : [payload];
+  const emails: string[] = [];
+  for (const raw of events) {
+    if (!raw || typeof raw !== 'object') continue;
+    const event = raw as Record<string, any>;
+    if (typeof event.email === 'string' && (event.event === 'bounce' || event.type === 'bounce' || event.type === 'hard_bounce')) {
+      emails.push(event.email);
+    } else if (event.type === 'activity.hard_bounced' && typeof event.data?.email?.recipient?.email === 'string') {
+      emails.push(event.data.email.recipient.email);
+    }
+  }
+  return Array.from(new Set(emails.map(email => email.trim().toLowerCase())));
+}
+
+export class NewsletterCampaignService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor() {
+    emailOutboxService.onSettled(OUTBOX_CATEGORY, (message, outcome) => this.recordOutcome(message, outcome));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.processDue();
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+    campaignLogger.info('Newsletter sender started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async list(): Promise<NewsletterCampaign[]> {
+    return db.select().from(newsletterCampaigns).orderBy(desc(newsletterCampaigns.createdAt)).limit(100);
+  }
+
+  async get(id: number): Promise<NewsletterCampaign> {
+    const [campaign] = await db.select().from(newsletterCampaigns).where(eq(newsletterCampaigns.id, id)).limit(1);
+    if (!campaign) {
+      throw createError.notFound('Campaign not found');
+    }
+    return campaign;
+  }
+
+  async getStats(id: number): Promise<CampaignStats> {
+    const rows = await db.select({ status: newsletterSends.status, count: sql<number>`count(*)::int` })
+      .from(newsletterSends)
+      .where(eq(newsletterSends.campaignId, id))
+      .groupBy(newsletterSends.status);
+    const stats: CampaignStats = { pending: 0, queued: 0, sent: 0, failed: 0, bounced: 0, skipped: 0 };
+    for (const row of rows) stats[row.status] = row.count;
+    return stats;
+  }
+
+  async listRecipients(id: number, options: { status?: NewsletterSendStatus; limit: number; offset: number }): Promise<NewsletterSend[]> {
+    await this.get(id);
+    const conditions = [eq(newsletterSends.campaignId, id)];
+    if (options.status) conditions.push(eq(newsletterSends.status, options.status));
+    return db.select().from(newsletterSends)
+      .where(and(...conditions))
+      .orderBy(newsletterSends.id)
+      .limit(options.limit)
+      .offset(options.offset);
+  }
+
+  async create(input: CampaignInput, createdBy: number): Promise<NewsletterCampaign> {
+    const [campaign] = await db.insert(newsletterCampaigns).values({
+      subject: input.subject,
+      previewText: input.previewText ?? null,
+      content: input.content,
+      createdBy
+    }).returning();
+    campaignLogger.info('Campaign drafted', { campaignId: campaign.id, createdBy });
+    return campaign;
+  }
+
+  /** Draft a digest of stories published since the last digest went out (or the past week) */
+  async createDigest(createdBy: number, since?: Date): Promise<NewsletterCampaign> {
+    if (!since) {
+      const [lastDigest] = await db.select({ startedAt: newsletterCampaigns.startedAt }).from(newsletterCampaigns)
+        .where(and(eq(newsletterCampaigns.kind, 'digest'), inArray(newsletterCampaigns.status, ['sending', 'sent'])))
+        .orderBy(desc(newsletterCampaigns.startedAt))
+        .limit(1);
+      since = lastDigest?.startedAt ?? new Date(Date.now() - DIGEST_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    }
+
+    // Stories that went live on a schedule count from their publish time, not when they were written
+    const publishedAt = sql`coalesce(${posts.publishAt}, ${posts.createdAt})`;
+    const recent = await db.select({
+      title: posts.title,
+      slug: posts.slug,
+      excerpt: posts.excerpt,
+      isSecret: posts.isSecret,
+      metadata: posts.metadata,
+      publishAt: posts.publishAt,
+      readingTimeMinutes: posts.readingTimeMinutes
+    }).from(posts)
+      .where(and(
+        sql`${publishedAt} >= ${since.toISOString()}::timestamp`,
+        sql`${publishedAt} <= ${new Date().toISOString()}::timestamp`
+      ))
+      .orderBy(publishedAt);
+    const stories = recent.filter(isPublicStory).slice(0, DIGEST_MAX_STORIES);
+    if (stories.length === 0) {
+      throw createError.badRequest(`No new stories have been published since ${since.toISOString().slice(0, 10)}`);
+    }
+
+    const items = stories.map(story => {
+      const link = `${siteUrl()}/reader/${encodeURIComponent(story.slug)}`;
+      const excerpt = story.excerpt ? `<p>${escapeHtml(htmlToText(story.excerpt))}</p>` : '';
+      const minutes = story.readingTimeMinutes ? `<p><em>${story.readingTimeMinutes} min read</em></p>` : '';
+      return `<h2><a href="${link}">${escapeHtml(story.title)}</a></h2>\n${excerpt}${minutes}`;
+    });
+    const count = stories.length === 1 ? '1 new story' : `${stories.length} new stories`;
+
+    const [campaign] = await db.insert(newsletterCampaigns).values({
+      kind: 'digest',
+      subject: `This week at Bubble's Cafe: ${count}`,
+      previewText: stories.map(story => story.title).join(' · ').slice(0, 140),
+      content: `<p>Here's what was published since our last letter.</p>\n${items.join('\n')}`,
+      createdBy
+    }).returning();
+    campaignLogger.info('Digest drafted', { campaignId: campaign.id, stories: stories.length });
+    return campaign;
+  }
+
+  async update(id: number, changes: Partial<CampaignInput>): Promise<NewsletterCampaign> {
+    const campaign = await this.get(id);
+    if (campaign.status !== 'draft') {
+      throw createError.conflict('Only drafts can be edited; unschedule the campaign first');
+    }
+    const [updated] = await db.update(newsletterCampaigns).set({
+      ...(changes.subject !== undefined ? { subject: changes.subject } : {}),
+      ...(changes.previewText !== undefined ? { previewText: changes.previewText } : {}),
+      ...(changes.content !== undefined ? { content: changes.content } : {}),
+      updatedAt: new Date()
+    }).where(eq(newsletterCampaigns.id, id)).returning();
+    return updated;
+  }
+
+  async remove(id: number): Promise<void> {
+    const campaign = await this.get(id);
+    if (campaign.status !== 'draft' && campaign.status !== 'cancelled') {
+      throw createError.conflict('Only drafts and cancelled campaigns can be deleted');
+    }
+    await db.delete(newsletterCampaigns).where(eq(newsletterCampaigns.id, id));
+  }
+
+  render(campaign: Pick<NewsletterCampaign, 'subject' | 'previewText' | 'content'>, unsubscribeLink: string): RenderedEmail {
+    return renderEmailTemplate('newsletter', {
+      subject: campaign.subject,
+      previewText: campaign.previewText,
+      content: campaign.content,
+      unsubscribeUrl: unsubscribeLink
+    });
+  }
+
+  async preview(id: number): Promise<RenderedEmail> {
+    const campaign = await this.get(id);
+    return this.render(campaign, `${newsletterApiUrl()}/api/newsletter/unsubscribe/preview`);
+  }
+
+  async sendTest(id: number, email: string): Promise<void> {
+    const campaign = await this.get(id);
+    const rendered = this.render(campaign, `${newsletterApiUrl()}/api/newsletter/unsubscribe/preview`);
+    await emailOutboxService.enqueue(
+      { to: email, subject: `[Test] ${rendered.subject}`, html: rendered.html, text: rendered.text },
+      { category: 'newsletter_test', reference: `newsletter_campaign:${id}` }
+    );
+  }
+
+  /** Queue a draft for sending, now or at a future time */
+  async schedule(id: number, scheduledFor: Date = new Date()): Promise<NewsletterCampaign> {
+    const [scheduled] = await db.update(newsletterCampaigns)
+      .set({ status: 'scheduled', scheduledFor, updatedAt: new Date() })
+      .where(and(eq(newsletterCampaigns.id, id), eq(newsletterCampaigns.status, 'draft')))
+      .returning();
+    if (!scheduled) {
+      await this.get(id);
+      throw createError.conflict('Only drafts can be scheduled');
+    }
+    campaignLogger.info('Campaign scheduled', { campaignId: id, scheduledFor: scheduledFor.toISOString() });
+    if (scheduledFor <= new Date()) setImmediate(() => void this.processDue());
+    return scheduled;
+  }
+
+  /** A scheduled campaign goes back to draft; one that is sending stops and keeps what went out */
+  async cancel(id: number): Promise<NewsletterCampaign> {
+    const campaign = await this.get(id);
+    if (campaign.status === 'scheduled') {
+      const [draft] = await db.update(newsletterCampaigns)
+        .set({ status: 'draft', scheduledFor: null, updatedAt: new Date() })
+        .where(and(eq(newsletterCampaigns.id, id), eq(newsletterCampaigns.status, 'scheduled')))
+        .returning();
+      if (draft) return draft;
+    } else if (campaign.status === 'sending') {
+      const withdrawn = await db.update(newsletterSends)
+        .set({ status: 'skipped' })
+        .where(and(eq(newsletterSends.campaignId, id), inArray(newsletterSends.status, ['pending', 'queued'])))
+        .returning({ id: newsletterSends.id });
+      // Messages the outbox already picked up can't be recalled
+      await emailOutboxService.cancelQueued(withdrawn.map(send => sendReference(send.id)));
+      await db.update(newsletterCampaigns)
+        .set({ status: 'cancelled', completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(newsletterCampaigns.id, id));
+      campaignLogger.info('Campaign cancelled while sending', { campaignId: id });
+      return this.refreshCounts(id);
+    }
+    throw createError.conflict('Only scheduled or sending campaigns can be cancelled');
+  }
+
+  /** Mark addresses as bounced so no further campaigns go to them */
+  async recordBounces(emails: string[]): Promise<number> {
+    if (emails.length === 0) return 0;
+    const now = new Date();
+    const bounced = await db.update(newsletterSubscriptions)
+      .set({ status: 'bounced', updatedAt: now })
+      .where(inArray(sql`lower(${newsletterSubscriptions.email})`, emails))
+      .returning({ id: newsletterSubscriptions.id });
+    if (bounced.length > 0) {
+      await db.update(newsletterSends)
+        .set({ status: 'bounced', bouncedAt: now })
+        .where(and(
+          inArray(newsletterSends.subscriptionId, bounced.map(row => row.id)),
+          inArray(newsletterSends.status, ['sent', 'pending'])
+        ));
+    }
+    campaignLogger.info('Recorded bounces', { reported: emails.length, subscriptions: bounced.length });
+    return bounced.length;
+  }
+
+  private async refreshCounts(id: number): Promise<NewsletterCampaign> {
+    const stats = await this.getStats(id);
+    const [updated] = await db.update(newsletterCampaigns).set({
+      recipientCount: stats.pending + stats.queued + stats.sent + stats.failed + stats.bounced + stats.skipped,
+      sentCount: stats.sent + stats.bounced,
+      failedCount: stats.failed
+    }).where(eq(newsletterCampaigns.id, id)).returning();
+    return updated;
+  }
+
+  /** Snapshot the active subscribers into per-recipient rows and start sending */
+  private async startCampaign(campaign: NewsletterCampaign): Promise<void> {
+    const [claimed] = await db.update(newsletterCampaigns)
+      .set({ status: 'sending', startedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(newsletterCampaigns.id, campaign.id), eq(newsletterCampaigns.status, 'scheduled')))
+      .returning({ id: newsletterCampaigns.id });
+    if (!claimed) return;
+
+    await db.execute(sql`
+      INSERT INTO newsletter_sends (campaign_id, subscription_id, email)
+      SELECT ${campaign.id}, id, email FROM newsletter_subscriptions WHERE status = 'active'
+      ON CONFLICT DO NOTHING
+    `);
+    const updated = await this.refreshCounts(campaign.id);
+    campaignLogger.info('Campaign sending', { campaignId: campaign.id, recipients: updated.recipientCount });
+  }
+
+  /** Hand one recipient's copy to the outbox; the send is settled once the outbox reports back */
+  private async sendOne(campaign: NewsletterCampaign, send: NewsletterSend, subscription: NewsletterSubscription): Promise<void> {
+    if (subscription.status !== 'active') {
+      await db.update(newsletterSends).set({ status: 'skipped' }).where(eq(newsletterSends.id, send.id));
+      return;
+    }
+
+    // Marked first so an outcome reported straight away isn't overwritten
+    await db.update(newsletterSends).set({ status: 'queued' }).where(eq(newsletterSends.id, send.id));
+
+    const link = unsubscribeUrl(subscription);
+    const rendered = this.render(campaign, link);
+    try {
+      await emailOutboxService.enqueue({
+        to: subscription.email,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers: {
+          'List-Unsubscribe': `<${link}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      }, { category: OUTBOX_CATEGORY, reference: sendReference(send.id), maxAttempts: MAX_ATTEMPTS });
+    } catch (error) {
+      await db.update(newsletterSends)
+        .set({ status: 'pending' })
+        .where(and(eq(newsletterSends.id, send.id), eq(newsletterSends.status, 'queued')));
+      throw error;
+    }
+  }
+
+  /** Outbox callback: record how a recipient's copy went */
+  private async recordOutcome(message: EmailOutboxMessage, outcome: EmailOutboxOutcome): Promise<void> {
+    const sendId = Number(message.reference?.split(':')[1]);
+    if (!Number.isInteger(sendId)) return;
+    const queued = and(eq(newsletterSends.id, sendId), eq(newsletterSends.status, 'queued'));
+    const now = new Date();
+
+    if (outcome.status === 'sent') {
+      await db.update(newsletterSends)
+        .set({ status: 'sent', attempts: message.attempts, messageId: message.messageId, sentAt: now, error: null })
+        .where(queued);
+      return;
+    }
+
+    const [send] = await db.update(newsletterSends)
+      .set({
+        status: outcome.permanent ? 'bounced' : 'failed',
+        attempts: message.attempts,
+        error: message.lastError,
+        ...(outcome.permanent ? { bouncedAt: now } : {})
+      })
+      .where(queued)
+      .returning();
+    if (send && outcome.permanent) {
+      await db.update(newsletterSubscriptions).set({ status: 'bounced', updatedAt: now }).where(eq(newsletterSubscriptions.id, send.subscriptionId));
+    }
+  }
+
+  private async sendBatch(campaign: NewsletterCampaign): Promise<void> {
+    const batch = await db.select({ send: newsletterSends, subscription: newsletterSubscriptions })
+      .from(newsletterSends)
+      .innerJoin(newsletterSubscriptions, eq(newsletterSends.subscriptionId, newsletterSubscriptions.id))
+      .where(and(eq(newsletterSends.campaignId, campaign.id), eq(newsletterSends.status, 'pending')))
+      .orderBy(newsletterSends.attempts, newsletterSends.id)
+      .limit(BATCH_SIZE);
+
+    for (const { send, subscription } of batch) {
+      try {
+        await this.sendOne(campaign, send, subscription);
+      } catch (error) {
+        campaignLogger.error('Newsletter send failed', { campaignId: campaign.id, sendId: send.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const updated = await this.refreshCounts(campaign.id);
+    const stats = await this.getStats(campaign.id);
+    if (stats.pending === 0 && stats.queued === 0) {
+      await db.update(newsletterCampaigns)
+        .set({ status: 'sent', completedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(newsletterCampaigns.id, campaign.id), eq(newsletterCampaigns.status, 'sending')));
+      campaignLogger.info('Campaign sent', { campaignId: campaign.id, sent: updated.sentCount, failed: updated.failedCount });
+    }
+  }
+
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const due = await db.select().from(newsletterCampaigns)
+        .where(and(eq(newsletterCampaigns.status, 'scheduled'), lte(newsletterCampaigns.scheduledFor, new Date())));
+      for (const campaign of due) {
+        await this.startCampaign(campaign);
+      }
+
+      const sending = await db.select().from(newsletterCampaigns)
+        .where(eq(newsletterCampaigns.status, 'sending'))
+        .orderBy(newsletterCampaigns.startedAt);
+      for (const campaign of sending) {
+        await this.sendBatch(campaign);
+      }
+    } catch (error) {
+      campaignLogger.error('Newsletter run failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.processing = false;
+    }
+  }
+}
+
+export const newsletterCampaignService = new NewsletterCampaignService();
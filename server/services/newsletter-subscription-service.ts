@@ -0,0 +1,171 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { newsletterSubscriptions, type NewsletterSubscription } from "@shared/schema";
+import { eq, and, lt, sql } from "drizzle-orm";
+import {
+  createNewsletterToken,
+  newsletterTokenSubscriptionId,
+  verifyNewsletterToken,
+  type NewsletterTokenPurpose
+} from '../utils/newsletter-token';
+import { sendNewsletterConfirmationEmail, sendNewsletterWelcomeEmail } from '../utils/send-email';
+import { webhookService } from './webhook-service';
+
+const subscriptionLogger = createSecureLogger('NewsletterSubscriptionService');
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Confirmation links expire after this long, and unconfirmed sign-ups are purged after it
+const CONFIRM_WINDOW_MS = Math.max(parseInt(process.env.NEWSLETTER_CONFIRM_WINDOW_HOURS || '48', 10) || 48, 1) * 60 * 60 * 1000;
+// Repeated sign-ups for the same address don't trigger more than one email in this window
+const CONFIRM_RESEND_COOLDOWN_MS = 10 * 60 * 1000;
+
+interface SubscriptionMetadata {
+  confirmationSentAt?: string;
+  confirmedAt?: string;
+  [key: string]: unknown;
+}
+
+/** Base URL for links that point at the API, which may be on a different origin than the site */
+export function newsletterApiUrl(): string {
+  return (process.env.API_URL || process.env.FRONTEND_URL || 'https://bubblescafe.replit.app').replace(/\/$/, '');
+}
+
+export function unsubscribeUrl(subscription: Pick<NewsletterSubscription, 'id' | 'email'>): string {
+  return `${newsletterApiUrl()}/api/newsletter/unsubscribe/${createNewsletterToken('unsubscribe', subscription)}`;
+}
+
+function confirmationUrl(subscription: Pick<NewsletterSubscription, 'id' | 'email'>): string {
+  return `${newsletterApiUrl()}/api/newsletter/confirm/${createNewsletterToken('confirm', subscription, CONFIRM_WINDOW_MS)}`;
+}
+
+function metadataOf(subscription: NewsletterSubscription): SubscriptionMetadata {
+  return (subscription.metadata || {}) as SubscriptionMetadata;
+}
+
+export class NewsletterSubscriptionService {
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.purgeUnconfirmed();
+    }, PURGE_INTERVAL_MS);
+    this.timer.unref();
+    subscriptionLogger.info('Unconfirmed subscription purge scheduled');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async findByToken(token: string, purpose: NewsletterTokenPurpose): Promise<NewsletterSubscription> {
+    const id = newsletterTokenSubscriptionId(token);
+    const [subscription] = id
+      ? await db.select().from(newsletterSubscriptions).where(eq(newsletterSubscriptions.id, id)).limit(1)
+      : [];
+    if (!subscription || !verifyNewsletterToken(token, purpose, subscription)) {
+      throw createError.notFound(purpose === 'confirm' ? 'This confirmation link is invalid or has expired' : 'This unsubscribe link is not valid');
+    }
+    return subscription;
+  }
+
+  /**
+   * Start a subscription. New and lapsed addresses wait in `pending` until the link we email
+   * them is followed; active ones are left alone. Callers get the same answer either way, so
+   * the endpoint can't be used to find out who is subscribed.
+   */
+  async subscribe(email: string, metadata: Record<string, unknown> = {}): Promise<void> {
+    const address = email.trim().toLowerCase();
+    const now = new Date();
+    const [existing] = await db.select().from(newsletterSubscriptions)
+      .where(eq(sql`lower(${newsletterSubscriptions.email})`, address))
+      .limit(1);
+
+    if (existing?.status === 'active') return;
+
+    const lastSent = existing ? metadataOf(existing).confirmationSentAt : undefined;
+    if (existing?.status === 'pending' && lastSent && now.getTime() - new Date(lastSent).getTime() < CONFIRM_RESEND_COOLDOWN_MS) {
+      return;
+    }
+
+    const nextMetadata = { ...(existing ? metadataOf(existing) : metadata), confirmationSentAt: now.toISOString() };
+    const [subscription] = existing
+      ? await db.update(newsletterSubscriptions)
+        .set({ status: 'pending', metadata: nextMetadata, updatedAt: now })
+        .where(eq(newsletterSubscriptions.id, existing.id))
+        .returning()
+      : await db.insert(newsletterSubscriptions)
+        .values({ email: address, status: 'pending', metadata: nextMetadata })
+        .returning();
+
+    const sent = await sendNewsletterConfirmationEmail(subscription.email, confirmationUrl(subscription));
+    if (!sent) {
+      subscriptionLogger.warn('Confirmation email could not be sent', { subscriptionId: subscription.id });
+    }
+  }
+
+  /** Activate a pending subscription from its emailed link; following it twice is harmless */
+  async confirm(token: string): Promise<NewsletterSubscription> {
+    const subscription = await this.findByToken(token, 'confirm');
+    if (subscription.status === 'active') return subscription;
+    if (subscription.status !== 'pending') {
+      throw createError.conflict('This subscription can no longer be confirmed; please sign up again');
+    }
+
+    const [confirmed] = await db.update(newsletterSubscriptions)
+      .set({ status: 'active', metadata: { ...metadataOf(subscription), confirmedAt: new Date().toISOString() }, updatedAt: new Date() })
+      .where(and(eq(newsletterSubscriptions.id, subscription.id), eq(newsletterSubscriptions.status, 'pending')))
+      .returning();
+    if (!confirmed) return subscription;
+
+    // Receivers get the subscription id, not the address
+    await webhookService.emit('newsletter.subscribed', { subscriptionId: confirmed.id, subscribedAt: new Date().toISOString() });
+    const welcomed = await sendNewsletterWelcomeEmail(confirmed.email, unsubscribeUrl(confirmed));
+    subscriptionLogger.info('Subscription confirmed', { subscriptionId: confirmed.id, welcomeSent: welcomed });
+    return confirmed;
+  }
+
+  async unsubscribe(token: string): Promise<NewsletterSubscription> {
+    const subscription = await this.findByToken(token, 'unsubscribe');
+    if (subscription.status === 'unsubscribed') return subscription;
+
+    const [updated] = await db.update(newsletterSubscriptions)
+      .set({ status: 'unsubscribed', updatedAt: new Date() })
+      .where(eq(newsletterSubscriptions.id, subscription.id))
+      .returning();
+    subscriptionLogger.info('Unsubscribed via link', { subscriptionId: subscription.id });
+    return updated;
+  }
+
+  /**
+   * Drop sign-ups that were never confirmed. Addresses that were subscribed before and only
+   * re-requested go back to `unsubscribed` instead, keeping their campaign send history.
+   */
+  async purgeUnconfirmed(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - CONFIRM_WINDOW_MS);
+      const stale = and(eq(newsletterSubscriptions.status, 'pending'), lt(newsletterSubscriptions.updatedAt, cutoff));
+      const hasHistory = sql`EXISTS (SELECT 1 FROM newsletter_sends WHERE newsletter_sends.subscription_id = ${newsletterSubscriptions.id})`;
+
+      const lapsed = await db.update(newsletterSubscriptions)
+        .set({ status: 'unsubscribed', updatedAt: new Date() })
+        .where(and(stale, hasHistory))
+        .returning({ id: newsletterSubscriptions.id });
+      const purged = await db.delete(newsletterSubscriptions)
+        .where(stale)
+        .returning({ id: newsletterSubscriptions.id });
+
+      if (lapsed.length > 0 || purged.length > 0) {
+        subscriptionLogger.info('Purged unconfirmed subscriptions', { purged: purged.length, lapsed: lapsed.length });
+      }
+    } catch (error) {
+      subscriptionLogger.error('Unconfirmed subscription purge failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export const newsletterSubscriptionService = new NewsletterSubscriptionService();
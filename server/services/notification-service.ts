@@ -0,0 +1,380 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import {
+  userNotifications,
+  userPreferences,
+  themeFollows,
+  bookmarks,
+  comments,
+  posts,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+  type UserNotification,
+  type UserNotificationData
+} from "@shared/schema";
+import { eq, and, desc, inArray, ne, like, sql } from "drizzle-orm";
+
+const notificationLogger = createSecureLogger('NotificationService');
+
+const PREFERENCE_PREFIX = 'notifications.';
+
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export interface NotificationPayload {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: UserNotificationData;
+}
+
+export interface NotificationListOptions {
+  unreadOnly?: boolean;
+  limit: number;
+  offset?: number;
+}
+
+interface StorySummary {
+  id: number;
+  title: string;
+  slug: string;
+  authorId: number;
+  themeCategory: string | null;
+  isSecret?: boolean | null;
+  metadata?: unknown;
+  publishAt?: Date | null;
+}
+
+interface CommentSummary {
+  id: number;
+  parentId: number | null;
+  postId: number | null;
+  userId: number | null;
+  content: string;
+  metadata?: unknown;
+}
+
+export type SubmissionDecision = 'approved' | 'rejected' | 'hidden' | 'published' | 'unpublished' | 'removed' | 'warned' | 'changes_requested' | 'scheduled';
+
+// Every type is on until the reader turns it off
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  comment_reply: true,
+  new_story: true,
+  moderation_decision: true,
+  bookmark_update: true
+};
+
+function excerpt(text: string, length = 80): string {
+  const plain = text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain.length > length ? `${plain.slice(0, length - 1)}…` : plain;
+}
+
+function storyLink(slug: string, commentId?: number): string {
+  return commentId ? `/reader/${slug}#comment-${commentId}` : `/reader/${slug}`;
+}
+
+/** Secret, hidden, draft and scheduled stories (or ones whose publish time is still ahead) are not public */
+export function isPublicStory(post: Pick<StorySummary, 'isSecret' | 'metadata' | 'publishAt'>): boolean {
+  const metadata = (post.metadata || {}) as Record<string, unknown>;
+  if (post.isSecret || metadata.isHidden === true) return false;
+  if (metadata.status === 'draft' || metadata.status === 'scheduled') return false;
+  return !post.publishAt || post.publishAt.getTime() <= Date.now();
+}
+
+export class NotificationService {
+  async list(userId: number, options: NotificationListOptions): Promise<{ notifications: UserNotification[]; total: number; unreadCount: number }> {
+    const conditions = [eq(userNotifications.userId, userId)];
+    if (options.unreadOnly) conditions.push(eq(userNotifications.isRead, false));
+
+    const [notifications, [{ total }], unreadCount] = await Promise.all([
+      db.select()
+        .from(userNotifications)
+        .where(and(...conditions))
+        .orderBy(desc(userNotifications.createdAt), desc(userNotifications.id))
+        .limit(options.limit)
+        .offset(options.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` }).from(userNotifications).where(and(...conditions)),
+      this.getUnreadCount(userId)
+    ]);
+
+    return { notifications, total, unreadCount };
+  }
+
+  async getUnreadCount(userId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(userNotifications)
+      .where(and(eq(userNotifications.userId, userId), eq(userNotifications.isRead, false)));
+    return count;
+  }
+
+  async markRead(userId: number, notificationId: number): Promise<UserNotification> {
+    const [updated] = await db
+      .update(userNotifications)
+      .set({ isRead: true })
+      .where(and(eq(userNotifications.id, notificationId), eq(userNotifications.userId, userId)))
+      .returning();
+    if (!updated) {
+      throw createError.notFound('Notification not found');
+    }
+    return updated;
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(userNotifications)
+      .set({ isRead: true })
+      .where(and(eq(userNotifications.userId, userId), eq(userNotifications.isRead, false)))
+      .returning({ id: userNotifications.id });
+    return updated.length;
+  }
+
+  async clear(userId: number): Promise<number> {
+    const deleted = await db
+      .delete(userNotifications)
+      .where(eq(userNotifications.userId, userId))
+      .returning({ id: userNotifications.id });
+    return deleted.length;
+  }
+
+  // Preferences
+
+  async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const rows = await db
+      .select({ name: userPreferences.preferenceName, value: userPreferences.preferenceValue })
+      .from(userPreferences)
+      .where(and(eq(userPreferences.userId, userId), like(userPreferences.preferenceName, `${PREFERENCE_PREFIX}%`)));
+
+    const preferences = { ...DEFAULT_PREFERENCES };
+    for (const row of rows) {
+      const type = row.name.slice(PREFERENCE_PREFIX.length) as NotificationType;
+      if (NOTIFICATION_TYPES.includes(type)) {
+        preferences[type] = row.value !== 'false';
+      }
+    }
+    return preferences;
+  }
+
+  async setPreferences(userId: number, changes: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    for (const [type, enabled] of Object.entries(changes)) {
+      if (!NOTIFICATION_TYPES.includes(type as NotificationType) || typeof enabled !== 'boolean') continue;
+      await db
+        .insert(userPreferences)
+        .values({ userId, preferenceName: `${PREFERENCE_PREFIX}${type}`, preferenceValue: String(enabled) })
+        .onConflictDoUpdate({
+          target: [userPreferences.userId, userPreferences.preferenceName],
+          set: { preferenceValue: String(enabled), updatedAt: new Date() }
+        });
+    }
+    return this.getPreferences(userId);
+  }
+
+  async getFollowedThemes(userId: number): Promise<string[]> {
+    const rows = await db
+      .select({ themeCategory: themeFollows.themeCategory })
+      .from(themeFollows)
+      .where(eq(themeFollows.userId, userId))
+      .orderBy(themeFollows.themeCategory);
+    return rows.map(row => row.themeCategory);
+  }
+
+  async setFollowedThemes(userId: number, themes: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(themes.map(theme => theme.trim()).filter(Boolean)));
+    await db.delete(themeFollows).where(eq(themeFollows.userId, userId));
+    if (unique.length > 0) {
+      await db.insert(themeFollows).values(unique.map(themeCategory => ({ userId, themeCategory })));
+    }
+    return this.getFollowedThemes(userId);
+  }
+
+  // Delivery
+
+  /**
+   * Store one notification per recipient, skipping anyone who turned the type off.
+   * Never throws: a failed notification must not fail the action that caused it.
+   */
+  async notifyMany(userIds: number[], payload: NotificationPayload): Promise<number> {
+    const recipients = Array.from(new Set(userIds.filter(id => Number.isInteger(id) && id > 0)));
+    if (recipients.length === 0) return 0;
+
+    try {
+      const optedOut = await db
+        .select({ userId: userPreferences.userId })
+        .from(userPreferences)
+        .where(and(
+          inArray(userPreferences.userId, recipients),
+          eq(userPreferences.preferenceName, `${PREFERENCE_PREFIX}${payload.type}`),
+          eq(userPreferences.preferenceValue, 'false')
+        ));
+      const optedOutIds = new Set(optedOut.map(row => row.userId));
+      const targets = recipients.filter(id => !optedOutIds.has(id));
+      if (targets.length === 0) return 0;
+
+      await db.insert(userNotifications).values(targets.map(userId => ({
+        userId,
+        type: payload.type,
+        title: payload.title,
+        message: payload.message,
+        data: payload.data ?? {}
+      })));
+      return targets.length;
+    } catch (error) {
+      notificationLogger.error('Failed to deliver notifications', {
+        type: payload.type,
+        recipients: recipients.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 0;
+    }
+  }
+
+  async notify(userId: number, payload: NotificationPayload): Promise<boolean> {
+    return (await this.notifyMany([userId], payload)) > 0;
+  }
+
+  // Events
+
+  /** Someone replied to a comment; tell the parent's author unless they replied to themselves */
+  async commentReplied(reply: CommentSummary): Promise<void> {
+    if (!reply.parentId) return;
+    try {
+      const [parent] = await db
+        .select({ userId: comments.userId, postId: comments.postId })
+        .from(comments)
+        .where(eq(comments.id, reply.parentId))
+        .limit(1);
+      if (!parent?.userId || parent.userId === reply.userId) return;
+
+      const postId = reply.postId ?? parent.postId;
+      const [post] = postId
+        ? await db.select({ id: posts.id, slug: posts.slug, title: posts.title }).from(posts).where(eq(posts.id, postId)).limit(1)
+        : [];
+
+      const author = ((reply.metadata || {}) as { author?: string }).author || 'Someone';
+      await this.notify(parent.userId, {
+        type: 'comment_reply',
+        title: post ? `New reply on "${post.title}"` : 'New reply to your comment',
+        message: `${author}: ${excerpt(reply.content)}`,
+        data: {
+          commentId: reply.id,
+          postId: post?.id,
+          link: post ? storyLink(post.slug, reply.id) : undefined
+        }
+      });
+    } catch (error) {
+      notificationLogger.error('Failed to notify comment reply', { commentId: reply.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** A story became publicly visible; tell readers following its theme */
+  async storyPublished(post: StorySummary): Promise<void> {
+    if (!post.themeCategory || !isPublicStory(post)) return;
+    try {
+      const followers = await db
+        .select({ userId: themeFollows.userId })
+        .from(themeFollows)
+        .where(and(eq(themeFollows.themeCategory, post.themeCategory), ne(themeFollows.userId, post.authorId)));
+      if (followers.length === 0) return;
+
+      // Republishing must not notify followers twice
+      const alreadyNotified = await db
+        .select({ userId: userNotifications.userId })
+        .from(userNotifications)
+        .where(and(
+          eq(userNotifications.type, 'new_story'),
+          sql`(${userNotifications.data}->>'postId')::int = ${post.id}`
+        ));
+      const skip = new Set(alreadyNotified.map(row => row.userId));
+
+      await this.notifyMany(followers.map(f => f.userId).filter(id => !skip.has(id)), {
+        type: 'new_story',
+        title: 'New story in a theme you follow',
+        message: `"${post.title}" was just published`,
+        data: { postId: post.id, themeCategory: post.themeCategory, link: storyLink(post.slug) }
+      });
+    } catch (error) {
+      notificationLogger.error('Failed to notify theme followers', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** A bookmarked story changed; one unread notice per reader is enough */
+  async bookmarkedStoryUpdated(post: Pick<StorySummary, 'id' | 'title' | 'slug'>, editorId?: number | null): Promise<void> {
+    try {
+      const readers = await db
+        .select({ userId: bookmarks.userId })
+        .from(bookmarks)
+        .where(and(
+          eq(bookmarks.postId, post.id),
+          sql`NOT EXISTS (
+            SELECT 1 FROM user_notifications n
+            WHERE n.user_id = ${bookmarks.userId}
+              AND n.type = 'bookmark_update'
+              AND n.is_read = false
+              AND (n.data->>'postId')::int = ${post.id}
+          )`
+        ));
+
+      await this.notifyMany(readers.map(r => r.userId).filter(id => id !== editorId), {
+        type: 'bookmark_update',
+        title: 'A bookmarked story was updated',
+        message: `"${post.title}" has new changes`,
+        data: { postId: post.id, link: storyLink(post.slug) }
+      });
+    } catch (error) {
+      notificationLogger.error('Failed to notify bookmark holders', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** A moderator acted on something the user submitted */
+  async submissionReviewed(params: {
+    userId: number | null | undefined;
+    contentType: 'comment' | 'post';
+    contentId: number;
+    decision: SubmissionDecision;
+    title?: string;
+    link?: string;
+    note?: string | null;
+  }): Promise<void> {
+    if (!params.userId) return;
+
+    const subject = params.contentType === 'comment'
+      ? 'Your comment'
+      : params.title ? `Your story "${params.title}"` : 'Your story';
+    const outcome: Record<SubmissionDecision, string> = {
+      approved: 'was approved and is now visible',
+      published: 'was published',
+      rejected: 'was not approved by a moderator',
+      hidden: 'was hidden by a moderator',
+      unpublished: 'was moved back to drafts by a moderator',
+      removed: 'was removed after readers reported it',
+      warned: 'was reported by readers and a moderator has sent you a warning',
+      changes_requested: 'needs some changes before it can be published',
+      scheduled: 'was accepted and is scheduled for publication'
+    };
+
+    await this.notify(params.userId, {
+      type: 'moderation_decision',
+      title: params.decision === 'approved' || params.decision === 'published' || params.decision === 'scheduled' ? 'Submission approved' : 'Moderation update',
+      message: params.note
+        ? `${subject} ${outcome[params.decision]}: ${params.note}`
+        : `${subject} ${outcome[params.decision]}`,
+      data: {
+        [params.contentType === 'comment' ? 'commentId' : 'postId']: params.contentId,
+        decision: params.decision,
+        link: params.link
+      }
+    });
+  }
+
+  /** An editor left a note on the author's submission */
+  async editorNoteAdded(params: { userId: number; postId: number; title: string }): Promise<void> {
+    await this.notify(params.userId, {
+      type: 'moderation_decision',
+      title: 'Note from an editor',
+      message: `An editor left a note on your story "${params.title}"`,
+      data: { postId: params.postId, link: '/submit-story' }
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
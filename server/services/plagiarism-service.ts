@@ -0,0 +1,328 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import {
+  posts,
+  contentProtection,
+  similarityReports,
+  type Post,
+  type SimilarityReport,
+  type SimilarityReportStatus
+} from "@shared/schema";
+import { eq, and, ne, or, desc, inArray, isNull, sql } from "drizzle-orm";
+import { fingerprintContent, estimateSimilarity, compareContent, type Fingerprint } from '../utils/content-fingerprint';
+import { notificationService } from './notification-service';
+import { webhookService } from './webhook-service';
+import { editorialService } from './editorial-service';
+
+const plagiarismLogger = createSecureLogger('PlagiarismService');
+
+// Estimated similarity worth an exact comparison
+const CANDIDATE_THRESHOLD = 0.3;
+// Exact scores that produce a report for admins
+const REPORT_SCORE = 0.4;
+const REPORT_CONTAINMENT = 0.6;
+// Exact scores that keep a reader's submission unpublished until an admin looks at it
+const HOLD_SCORE = 0.7;
+const HOLD_CONTAINMENT = 0.8;
+const MAX_CANDIDATES = 50;
+const REINDEX_BATCH = 100;
+
+type PostContent = Pick<Post, 'id' | 'title' | 'content' | 'authorId' | 'metadata'>;
+
+export interface SimilarityMatch {
+  postId: number;
+  title: string;
+  slug: string;
+  authorId: number;
+  sameAuthor: boolean;
+  score: number;
+  containment: number;
+  passages: SimilarityReport['passages'];
+}
+
+export interface ScreeningResult {
+  matches: SimilarityMatch[];
+  held: boolean;
+}
+
+export type SimilarityReportView = SimilarityReport & {
+  post: { id: number; title: string; slug: string; authorId: number; held: boolean } | null;
+  matchedPost: { id: number; title: string; slug: string; authorId: number } | null;
+};
+
+export class PlagiarismService {
+  /** Store (or refresh) a post's fingerprint; never throws so it can't break publishing */
+  async indexPost(post: Pick<Post, 'id' | 'content'>): Promise<Fingerprint | null> {
+    try {
+      const fingerprint = fingerprintContent(post.content);
+      if (!fingerprint) {
+        await db.delete(contentProtection).where(eq(contentProtection.postId, post.id));
+        return null;
+      }
+
+      const values = {
+        postId: post.id,
+        content: post.content,
+        hash: fingerprint.hash,
+        signature: fingerprint.signature,
+        bands: fingerprint.bands,
+        shingleCount: fingerprint.shingleCount
+      };
+      await db
+        .insert(contentProtection)
+        .values(values)
+        .onConflictDoUpdate({ target: contentProtection.postId, set: { ...values, updatedAt: new Date() } });
+      return fingerprint;
+    } catch (error) {
+      plagiarismLogger.error('Failed to fingerprint post', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  async indexPostById(postId: number): Promise<void> {
+    const [post] = await db.select({ id: posts.id, content: posts.content }).from(posts).where(eq(posts.id, postId)).limit(1);
+    if (post) await this.indexPost(post);
+  }
+
+  /** Fingerprint posts that predate the index (or were written outside the app) */
+  async reindexMissing(): Promise<number> {
+    let indexed = 0;
+    for (;;) {
+      const batch = await db
+        .select({ id: posts.id, content: posts.content })
+        .from(posts)
+        .leftJoin(contentProtection, eq(contentProtection.postId, posts.id))
+        .where(isNull(contentProtection.id))
+        .limit(REINDEX_BATCH);
+      if (batch.length === 0) break;
+
+      let stored = 0;
+      for (const post of batch) {
+        if (await this.indexPost(post)) stored++;
+      }
+      indexed += stored;
+      // Posts without any words can't be fingerprinted and would be picked up forever
+      if (stored === 0) break;
+    }
+    plagiarismLogger.info('Fingerprint index rebuilt', { indexed });
+    return indexed;
+  }
+
+  /** Posts whose wording overlaps the given text enough to report, best match first */
+  async findMatches(content: string, options: { excludePostId?: number; authorId?: number } = {}): Promise<SimilarityMatch[]> {
+    const fingerprint = fingerprintContent(content);
+    if (!fingerprint) return [];
+
+    const conditions = [
+      or(
+        eq(contentProtection.hash, fingerprint.hash),
+        sql`${contentProtection.bands} && ARRAY[${sql.join(fingerprint.bands.map(band => sql`${band}`), sql`, `)}]::text[]`
+      )
+    ];
+    if (options.excludePostId) conditions.push(ne(contentProtection.postId, options.excludePostId));
+
+    const candidates = await db
+      .select({ postId: contentProtection.postId, hash: contentProtection.hash, signature: contentProtection.signature })
+      .from(contentProtection)
+      .where(and(...conditions))
+      .limit(MAX_CANDIDATES * 4);
+
+    const likely = candidates
+      .filter(candidate => candidate.postId !== null)
+      .map(candidate => ({
+        postId: candidate.postId as number,
+        estimate: candidate.hash === fingerprint.hash ? 1 : estimateSimilarity(fingerprint.signature, candidate.signature ?? [])
+      }))
+      .filter(candidate => candidate.estimate >= CANDIDATE_THRESHOLD)
+      .sort((a, b) => b.estimate - a.estimate)
+      .slice(0, MAX_CANDIDATES);
+    if (likely.length === 0) return [];
+
+    const rows = await db
+      .select({ id: posts.id, title: posts.title, slug: posts.slug, content: posts.content, authorId: posts.authorId })
+      .from(posts)
+      .where(inArray(posts.id, likely.map(candidate => candidate.postId)));
+
+    return rows
+      .map(row => {
+        const overlap = compareContent(content, row.content);
+        return {
+          postId: row.id,
+          title: row.title,
+          slug: row.slug,
+          authorId: row.authorId,
+          sameAuthor: options.authorId !== undefined && row.authorId === options.authorId,
+          score: overlap.score,
+          containment: overlap.containment,
+          passages: overlap.passages
+        };
+      })
+      .filter(match => match.score >= REPORT_SCORE || match.containment >= REPORT_CONTAINMENT)
+      .sort((a, b) => b.score - a.score || b.containment - a.containment);
+  }
+
+  /**
+   * Fingerprint a new or edited post and record a report for every near-duplicate.
+   * With `hold`, a strong match from another author keeps the post hidden and pending
+   * until an admin reviews it; the returned post reflects that.
+   */
+  async screenPost<T extends PostContent>(post: T, options: { hold: boolean }): Promise<{ post: T; result: ScreeningResult }> {
+    try {
+      const matches = await this.findMatches(post.content, { excludePostId: post.id, authorId: post.authorId });
+      await this.indexPost(post);
+      if (matches.length === 0) return { post, result: { matches, held: false } };
+
+      // Re-posting your own story is a duplicate, not plagiarism, so it never holds the post
+      const held = options.hold && matches.some(match =>
+        !match.sameAuthor && (match.score >= HOLD_SCORE || match.containment >= HOLD_CONTAINMENT));
+
+      for (const match of matches) {
+        const values = {
+          postId: post.id,
+          matchedPostId: match.postId,
+          score: match.score,
+          containment: match.containment,
+          passages: match.passages,
+          held
+        };
+        await db
+          .insert(similarityReports)
+          .values(values)
+          .onConflictDoUpdate({
+            target: [similarityReports.postId, similarityReports.matchedPostId],
+            set: { ...values, status: 'pending', reviewedBy: null, reviewedAt: null, createdAt: new Date() }
+          });
+      }
+
+      let screened = post;
+      if (held) {
+        const metadata = { ...((post.metadata || {}) as Record<string, unknown>), status: 'pending', isHidden: true, similarityHold: true };
+        await db.update(posts).set({ metadata }).where(eq(posts.id, post.id));
+        screened = { ...post, metadata };
+      }
+
+      plagiarismLogger.info('Similar content found', { postId: post.id, matches: matches.length, held });
+      return { post: screened, result: { matches, held } };
+    } catch (error) {
+      // Screening is advisory; a failure must not lose the submission
+      plagiarismLogger.error('Similarity screening failed', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+      return { post, result: { matches: [], held: false } };
+    }
+  }
+
+  // Admin review
+
+  async listReports(options: { status?: SimilarityReportStatus; postId?: number; limit: number; offset: number }): Promise<{ reports: SimilarityReportView[]; total: number }> {
+    const conditions = [];
+    if (options.status) conditions.push(eq(similarityReports.status, options.status));
+    if (options.postId) conditions.push(eq(similarityReports.postId, options.postId));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [reports, [{ total }]] = await Promise.all([
+      db.select().from(similarityReports).where(where)
+        .orderBy(desc(similarityReports.createdAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(similarityReports).where(where)
+    ]);
+
+    const postIds = Array.from(new Set(reports.flatMap(report => [report.postId, report.matchedPostId])));
+    const related = postIds.length > 0
+      ? await db
+        .select({ id: posts.id, title: posts.title, slug: posts.slug, authorId: posts.authorId, metadata: posts.metadata })
+        .from(posts)
+        .where(inArray(posts.id, postIds))
+      : [];
+    const byId = new Map(related.map(post => [post.id, post]));
+
+    return {
+      total,
+      reports: reports.map(report => {
+        const post = byId.get(report.postId);
+        const matched = byId.get(report.matchedPostId);
+        return {
+          ...report,
+          post: post ? {
+            id: post.id,
+            title: post.title,
+            slug: post.slug,
+            authorId: post.authorId,
+            held: ((post.metadata || {}) as Record<string, unknown>).similarityHold === true
+          } : null,
+          matchedPost: matched ? { id: matched.id, title: matched.title, slug: matched.slug, authorId: matched.authorId } : null
+        };
+      })
+    };
+  }
+
+  /**
+   * Dismissing the last open report on a held post publishes it; confirming keeps it hidden
+   * and tells the author.
+   */
+  async resolveReport(id: number, decision: 'dismiss' | 'confirm', adminId: number): Promise<SimilarityReport> {
+    const [report] = await db.select().from(similarityReports).where(eq(similarityReports.id, id)).limit(1);
+    if (!report) {
+      throw createError.notFound('Similarity report not found');
+    }
+
+    const [updated] = await db
+      .update(similarityReports)
+      .set({ status: decision === 'dismiss' ? 'dismissed' : 'confirmed', reviewedBy: adminId, reviewedAt: new Date() })
+      .where(eq(similarityReports.id, id))
+      .returning();
+
+    const [post] = await db.select().from(posts).where(eq(posts.id, report.postId)).limit(1);
+    if (!post) return updated;
+    const metadata = (post.metadata || {}) as Record<string, unknown>;
+
+    if (decision === 'confirm') {
+      if (metadata.status !== 'rejected') {
+        const { similarityHold: _hold, ...rest } = metadata;
+        await db.update(posts).set({ metadata: { ...rest, isHidden: true, status: 'rejected' } }).where(eq(posts.id, post.id));
+        if (post.authorId !== adminId) {
+          await notificationService.submissionReviewed({
+            userId: post.authorId,
+            contentType: 'post',
+            contentId: post.id,
+            decision: 'hidden',
+            title: post.title
+          });
+        }
+      }
+      return updated;
+    }
+
+    if (metadata.similarityHold === true) {
+      const [open] = await db
+        .select({ id: similarityReports.id })
+        .from(similarityReports)
+        .where(and(eq(similarityReports.postId, post.id), eq(similarityReports.status, 'pending')))
+        .limit(1);
+      if (!open && await editorialService.isAwaitingPublication(post.id)) {
+        // A story still in editorial review only loses the hold; its editor decides when it goes live
+        const { similarityHold: _hold, ...rest } = metadata;
+        await db.update(posts).set({ metadata: rest }).where(eq(posts.id, post.id));
+      } else if (!open) {
+        const { similarityHold: _hold, isHidden: _hidden, ...rest } = metadata;
+        const released = { ...post, metadata: { ...rest, status: 'publish' } };
+        await db.update(posts).set({ metadata: released.metadata }).where(eq(posts.id, post.id));
+        await notificationService.storyPublished(released);
+        await webhookService.postEvent('post.published', released);
+        if (post.authorId !== adminId) {
+          await notificationService.submissionReviewed({
+            userId: post.authorId,
+            contentType: 'post',
+            contentId: post.id,
+            decision: 'published',
+            title: post.title,
+            link: `/reader/${post.slug}`
+          });
+        }
+      }
+    }
+    return updated;
+  }
+}
+
+export const plagiarismService = new PlagiarismService();
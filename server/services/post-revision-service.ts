@@ -0,0 +1,182 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { diffText, type TextDiff } from '../utils/text-diff';
+import { db } from "../db";
+import { storage } from "../storage";
+import { posts, postRevisions, users, type Post, type PostRevision, type PostRevisionSource } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { eq, and, desc, sql } from "drizzle-orm";
+
+const revisionLogger = createSecureLogger('PostRevisionService');
+
+interface Editor {
+  id: number;
+  isAdmin?: boolean | null;
+  role?: string | null;
+}
+
+/** A history entry without its text, for the revision list */
+export interface RevisionSummary {
+  id: number;
+  revisionNumber: number;
+  title: string;
+  source: PostRevisionSource;
+  restoredFromId: number | null;
+  editor: { id: number; username: string } | null;
+  wordCount: number;
+  createdAt: Date;
+}
+
+export interface RevisionDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  title: TextDiff;
+  content: TextDiff;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+type SnapshotSource = Pick<Post, 'id' | 'title' | 'content' | 'excerpt' | 'themeCategory'>;
+
+export class PostRevisionService {
+  private async getPost(postId: number): Promise<Post> {
+    const [post] = await db.select().from(posts).where(eq(posts.id, postId)).limit(1);
+    if (!post) {
+      throw createError.notFound('Post not found');
+    }
+    return post;
+  }
+
+  /** History is visible to the story's author and to editors */
+  private async getPostFor(postId: number, user: Editor): Promise<Post> {
+    const post = await this.getPost(postId);
+    if (post.authorId !== user.id && !hasPermission(user, 'posts.edit_any')) {
+      throw createError.forbidden('You can only view the history of your own stories');
+    }
+    return post;
+  }
+
+  private async insert(post: SnapshotSource, editorId: number | null, source: PostRevisionSource, extra: { restoredFromId?: number; createdAt?: Date } = {}): Promise<PostRevision> {
+    const [revision] = await db.insert(postRevisions).values({
+      postId: post.id,
+      // Numbered per story; the unique constraint catches two saves racing for the same number
+      revisionNumber: sql`(SELECT COALESCE(MAX(${postRevisions.revisionNumber}), 0) + 1 FROM ${postRevisions} WHERE ${postRevisions.postId} = ${post.id})`,
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt,
+      themeCategory: post.themeCategory,
+      editorId,
+      source,
+      restoredFromId: extra.restoredFromId ?? null,
+      ...(extra.createdAt ? { createdAt: extra.createdAt } : {})
+    }).returning();
+    return revision;
+  }
+
+  async recordCreated(post: Post, editorId: number): Promise<void> {
+    try {
+      await this.insert(post, editorId, 'create');
+    } catch (error) {
+      revisionLogger.error('Failed to record initial revision', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Record a saved edit. Stories written before history was kept get their previous text
+   * recorded first, so the first edit can still be compared and undone.
+   */
+  async recordEdit(before: Post, after: Post, editorId: number, source: PostRevisionSource = 'edit', restoredFromId?: number): Promise<PostRevision | null> {
+    if (before.title === after.title && before.content === after.content) return null;
+
+    try {
+      const [existing] = await db.select({ id: postRevisions.id }).from(postRevisions).where(eq(postRevisions.postId, before.id)).limit(1);
+      if (!existing) {
+        await this.insert(before, before.authorId, 'original', { createdAt: before.createdAt });
+      }
+      return await this.insert(after, editorId, source, { restoredFromId });
+    } catch (error) {
+      revisionLogger.error('Failed to record revision', { postId: after.id, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  async list(postId: number, user: Editor): Promise<RevisionSummary[]> {
+    await this.getPostFor(postId, user);
+    const rows = await db.select({ revision: postRevisions, editor: { id: users.id, username: users.username } })
+      .from(postRevisions)
+      .leftJoin(users, eq(postRevisions.editorId, users.id))
+      .where(eq(postRevisions.postId, postId))
+      .orderBy(desc(postRevisions.revisionNumber));
+    return rows.map(({ revision, editor }) => this.summarize(revision, editor));
+  }
+
+  private summarize(revision: PostRevision, editor: { id: number; username: string } | null): RevisionSummary {
+    return {
+      id: revision.id,
+      revisionNumber: revision.revisionNumber,
+      title: revision.title,
+      source: revision.source,
+      restoredFromId: revision.restoredFromId,
+      editor,
+      wordCount: wordCount(revision.content),
+      createdAt: revision.createdAt
+    };
+  }
+
+  private async getRevisionRow(postId: number, revisionId: number): Promise<{ revision: PostRevision; editor: { id: number; username: string } | null }> {
+    const [row] = await db.select({ revision: postRevisions, editor: { id: users.id, username: users.username } })
+      .from(postRevisions)
+      .leftJoin(users, eq(postRevisions.editorId, users.id))
+      .where(and(eq(postRevisions.id, revisionId), eq(postRevisions.postId, postId)))
+      .limit(1);
+    if (!row) {
+      throw createError.notFound('Revision not found');
+    }
+    return row;
+  }
+
+  async get(postId: number, revisionId: number, user: Editor): Promise<RevisionSummary & { content: string; excerpt: string | null; themeCategory: string | null }> {
+    await this.getPostFor(postId, user);
+    const { revision, editor } = await this.getRevisionRow(postId, revisionId);
+    return { ...this.summarize(revision, editor), content: revision.content, excerpt: revision.excerpt, themeCategory: revision.themeCategory };
+  }
+
+  async diff(postId: number, fromId: number, toId: number, user: Editor): Promise<RevisionDiff> {
+    await this.getPostFor(postId, user);
+    const from = await this.getRevisionRow(postId, fromId);
+    const to = await this.getRevisionRow(postId, toId);
+    return {
+      from: this.summarize(from.revision, from.editor),
+      to: this.summarize(to.revision, to.editor),
+      title: diffText(from.revision.title, to.revision.title),
+      content: diffText(from.revision.content, to.revision.content)
+    };
+  }
+
+  /**
+   * Put a story back to an earlier revision. The restore is itself a new revision, so it
+   * can be undone the same way. Returns the story before and after for the caller's
+   * edit side effects.
+   */
+  async restore(postId: number, revisionId: number, user: Editor): Promise<{ before: Post; after: Post; revision: PostRevision | null }> {
+    const before = await this.getPostFor(postId, user);
+    const { revision } = await this.getRevisionRow(postId, revisionId);
+    if (revision.title === before.title && revision.content === before.content) {
+      throw createError.conflict('The story already matches this revision');
+    }
+
+    const after = await storage.updatePost(postId, {
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      themeCategory: revision.themeCategory
+    });
+    const restored = await this.recordEdit(before, after, user.id, 'restore', revision.id);
+    revisionLogger.info('Story restored to revision', { postId, revisionId, revisionNumber: revision.revisionNumber, userId: user.id });
+    return { before, after, revision: restored };
+  }
+}
+
+export const postRevisionService = new PostRevisionService();
@@ -33,6 +33,7 @@ export class PostService {
         readingTimeMinutes: posts.readingTimeMinutes,
         likesCount: posts.likesCount,
         dislikesCount: posts.dislikesCount,
+        publishAt: posts.publishAt,
         metadata: posts.metadata,
         createdAt: posts.createdAt,
       };
@@ -65,6 +66,7 @@ export class PostService {
         readingTimeMinutes: posts.readingTimeMinutes,
         likesCount: posts.likesCount,
         dislikesCount: posts.dislikesCount,
+        publishAt: posts.publishAt,
         metadata: posts.metadata,
         createdAt: posts.createdAt,
       })
@@ -138,6 +140,7 @@ export class PostService {
           readingTimeMinutes: posts.readingTimeMinutes,
           likesCount: posts.likesCount,
           dislikesCount: posts.dislikesCount,
+          publishAt: posts.publishAt,
           metadata: posts.metadata,
           createdAt: posts.createdAt,
         })
@@ -262,6 +265,7 @@ export class PostService {
         readingTimeMinutes: posts.readingTimeMinutes,
         likesCount: posts.likesCount,
         dislikesCount: posts.dislikesCount,
+        publishAt: posts.publishAt,
         metadata: posts.metadata,
         createdAt: posts.createdAt,
       })
@@ -295,6 +299,7 @@ export class PostService {
         readingTimeMinutes: posts.readingTimeMinutes,
         likesCount: posts.likesCount,
         dislikesCount: posts.dislikesCount,
+        publishAt: posts.publishAt,
         metadata: posts.metadata,
         createdAt: posts.createdAt,
       })
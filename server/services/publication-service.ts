@@ -0,0 +1,147 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import { posts, type Post } from "@shared/schema";
+import { eq, and, gte, lte, asc, isNotNull, sql } from "drizzle-orm";
+import { notificationService } from './notification-service';
+import { webhookService } from './webhook-service';
+
+const publicationLogger = createSecureLogger('PublicationService');
+
+// Scheduler runs publish at most this many stories at once; the rest wait for the next tick
+const DUE_BATCH_SIZE = 25;
+
+export type CalendarPost = Pick<Post, 'id' | 'title' | 'slug' | 'authorId' | 'publishAt' | 'themeCategory'> & { status: string | null };
+
+function metadataOf(post: Pick<Post, 'metadata'>): Record<string, unknown> {
+  return (post.metadata || {}) as Record<string, unknown>;
+}
+
+export class PublicationService {
+  private async getPost(postId: number): Promise<Post> {
+    const post = await storage.getPostById(postId);
+    if (!post) {
+      throw createError.notFound('Post not found');
+    }
+    return post;
+  }
+
+  /**
+   * Make a story live now. Also releases a story hidden or held back for review, and
+   * cancels any schedule it had.
+   */
+  async publish(postId: number, actorId: number | null, options: { notifyAuthor?: boolean } = {}): Promise<Post> {
+    const post = await this.getPost(postId);
+    const { isHidden: _hidden, similarityHold: _hold, ...rest } = metadataOf(post);
+    const published = await storage.updatePost(postId, { metadata: { ...rest, status: 'publish' } as any, publishAt: null });
+    await this.announce(published, { notifyAuthor: options.notifyAuthor !== false && published.authorId !== actorId });
+    return published;
+  }
+
+  /** Move a story back to drafts, taking it off the schedule if it had not gone live yet */
+  async unpublish(postId: number, actorId: number | null): Promise<Post> {
+    const post = await this.getPost(postId);
+    const wasLive = metadataOf(post).status !== 'scheduled';
+    const unpublished = await storage.updatePost(postId, { metadata: { ...metadataOf(post), status: 'draft' } as any, publishAt: null });
+    if (wasLive && unpublished.authorId !== actorId) {
+      await notificationService.submissionReviewed({
+        userId: unpublished.authorId,
+        contentType: 'post',
+        contentId: unpublished.id,
+        decision: 'unpublished',
+        title: unpublished.title
+      });
+    }
+    return unpublished;
+  }
+
+  /** Publish a story at a later time; it stays out of listings, the sitemap and search until then */
+  async schedule(postId: number, publishAt: Date): Promise<Post> {
+    if (publishAt.getTime() <= Date.now()) {
+      throw createError.badRequest('Choose a publication time in the future');
+    }
+    const post = await this.getPost(postId);
+    const scheduled = await storage.updatePost(postId, { metadata: { ...metadataOf(post), status: 'scheduled' } as any, publishAt });
+    publicationLogger.info('Story scheduled', { postId, publishAt: publishAt.toISOString() });
+    return scheduled;
+  }
+
+  /** Take a scheduled story off the schedule without publishing it */
+  async unschedule(postId: number, status: 'draft' | 'pending' = 'draft'): Promise<Post> {
+    const post = await this.getPost(postId);
+    return storage.updatePost(postId, { metadata: { ...metadataOf(post), status } as any, publishAt: null });
+  }
+
+  /**
+   * Publish every scheduled story whose time has come, with the same notifications and
+   * webhooks as publishing by hand. Returns the stories published.
+   */
+  async publishDue(now: Date = new Date()): Promise<Post[]> {
+    const due = await db.select().from(posts)
+      .where(and(
+        isNotNull(posts.publishAt),
+        lte(posts.publishAt, now),
+        sql`(${posts.metadata}->>'status') = 'scheduled'`
+      ))
+      .orderBy(asc(posts.publishAt))
+      .limit(DUE_BATCH_SIZE);
+
+    const published: Post[] = [];
+    for (const post of due) {
+      try {
+        const { isHidden: _hidden, similarityHold: _hold, ...rest } = metadataOf(post);
+        // Only while still scheduled, so a story unscheduled meanwhile, or published by a
+        // second instance, isn't announced twice
+        const [live] = await db.update(posts)
+          .set({ metadata: { ...rest, status: 'publish' } })
+          .where(and(eq(posts.id, post.id), sql`(${posts.metadata}->>'status') = 'scheduled'`))
+          .returning();
+        if (!live) continue;
+
+        await this.announce(live, { notifyAuthor: true });
+        published.push(live);
+        publicationLogger.info('Scheduled story published', { postId: live.id, publishAt: live.publishAt?.toISOString() });
+      } catch (error) {
+        publicationLogger.error('Failed to publish scheduled story', { postId: post.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return published;
+  }
+
+  /** Stories scheduled, or published on a schedule, within a time range */
+  async calendar(from: Date, to: Date): Promise<CalendarPost[]> {
+    const rows = await db.select({
+      id: posts.id,
+      title: posts.title,
+      slug: posts.slug,
+      authorId: posts.authorId,
+      publishAt: posts.publishAt,
+      themeCategory: posts.themeCategory,
+      status: sql<string | null>`${posts.metadata}->>'status'`
+    })
+      .from(posts)
+      .where(and(gte(posts.publishAt, from), lte(posts.publishAt, to)))
+      .orderBy(asc(posts.publishAt));
+    return rows;
+  }
+
+  // Readers following the theme, webhook subscribers, and the author when asked; callers skip
+  // the author when they published it themselves or tell them separately
+  private async announce(post: Post, options: { notifyAuthor: boolean }): Promise<void> {
+    await notificationService.storyPublished(post);
+    await webhookService.postEvent('post.published', post);
+    if (options.notifyAuthor) {
+      await notificationService.submissionReviewed({
+        userId: post.authorId,
+        contentType: 'post',
+        contentId: post.id,
+        decision: 'published',
+        title: post.title,
+        link: `/reader/${post.slug}`
+      });
+    }
+  }
+}
+
+export const publicationService = new PublicationService();
@@ -0,0 +1,187 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { readingProgress, posts, type ReadingProgress } from "@shared/schema";
+import { eq, and, desc, gte, lt, lte, inArray, sql } from "drizzle-orm";
+import { isPublicStory } from './notification-service';
+
+const progressLogger = createSecureLogger('ReadingProgressService');
+
+// Stories past this point count as finished and drop off the "Continue reading" shelf
+const FINISHED_PERCENT = 95;
+// Merges from a device that was offline a long time are capped so one request stays cheap
+const MAX_MERGE_ENTRIES = 200;
+
+export interface ProgressInput {
+  percent: number;
+  paragraphIndex?: number | null;
+  paragraphOffset?: number | null;
+  scrollOffset?: number | null;
+  deviceId?: string | null;
+  // When the reader was at this position on their device; defaults to now
+  readAt?: Date;
+}
+
+export interface ProgressView {
+  slug: string;
+  postId: number;
+  percent: number;
+  paragraphIndex: number | null;
+  paragraphOffset: number | null;
+  scrollOffset: number | null;
+  deviceId: string | null;
+  lastReadAt: Date;
+}
+
+export interface SaveResult {
+  progress: ProgressView;
+  // The stored position is newer than the one sent, usually because another device moved on
+  conflict: boolean;
+}
+
+export interface ShelfItem extends ProgressView {
+  title: string;
+  excerpt: string | null;
+  themeCategory: string | null;
+  readingTimeMinutes: number | null;
+}
+
+function toView(row: ReadingProgress, slug: string): ProgressView {
+  return {
+    slug,
+    postId: row.postId,
+    percent: Number(row.progress),
+    paragraphIndex: row.paragraphIndex,
+    paragraphOffset: row.paragraphOffset,
+    scrollOffset: row.scrollOffset,
+    deviceId: row.deviceId,
+    lastReadAt: row.lastReadAt
+  };
+}
+
+function clampPercent(percent: number): number {
+  return Math.round(Math.min(Math.max(percent, 0), 100) * 100) / 100;
+}
+
+export class ReadingProgressService {
+  private async findPost(slug: string): Promise<{ id: number; slug: string }> {
+    const [post] = await db.select({ id: posts.id, slug: posts.slug }).from(posts).where(eq(posts.slug, slug)).limit(1);
+    if (!post) {
+      throw createError.notFound('Story not found');
+    }
+    return post;
+  }
+
+  async get(userId: number, slug: string): Promise<ProgressView | null> {
+    const post = await this.findPost(slug);
+    const [row] = await db.select().from(readingProgress)
+      .where(and(eq(readingProgress.userId, userId), eq(readingProgress.postId, post.id)))
+      .limit(1);
+    return row ? toView(row, post.slug) : null;
+  }
+
+  /**
+   * Store a reading position unless the stored one is more recent. The caller gets the
+   * winning position back either way, flagged as a conflict when it wasn't theirs.
+   */
+  async save(userId: number, slug: string, input: ProgressInput): Promise<SaveResult> {
+    const post = await this.findPost(slug);
+    const readAt = input.readAt && input.readAt.getTime() <= Date.now() ? input.readAt : new Date();
+    const values = {
+      userId,
+      postId: post.id,
+      progress: String(clampPercent(input.percent)),
+      paragraphIndex: input.paragraphIndex ?? null,
+      paragraphOffset: input.paragraphOffset ?? null,
+      scrollOffset: input.scrollOffset ?? null,
+      deviceId: input.deviceId ?? null,
+      lastReadAt: readAt
+    };
+
+    const [saved] = await db.insert(readingProgress)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [readingProgress.userId, readingProgress.postId],
+        set: values,
+        where: lte(readingProgress.lastReadAt, readAt)
+      })
+      .returning();
+    if (saved) return { progress: toView(saved, post.slug), conflict: false };
+
+    const [current] = await db.select().from(readingProgress)
+      .where(and(eq(readingProgress.userId, userId), eq(readingProgress.postId, post.id)))
+      .limit(1);
+    return { progress: toView(current, post.slug), conflict: true };
+  }
+
+  async remove(userId: number, slug: string): Promise<void> {
+    const post = await this.findPost(slug);
+    await db.delete(readingProgress).where(and(eq(readingProgress.userId, userId), eq(readingProgress.postId, post.id)));
+  }
+
+  /**
+   * Fold positions saved on this device before sign-in into the account. Each story keeps
+   * whichever position is newer; unknown slugs are skipped.
+   */
+  async merge(userId: number, entries: Array<ProgressInput & { slug: string }>): Promise<{ merged: number; skipped: number }> {
+    const latest = new Map<string, ProgressInput & { slug: string }>();
+    for (const entry of entries.slice(0, MAX_MERGE_ENTRIES)) {
+      const existing = latest.get(entry.slug);
+      if (!existing || (entry.readAt?.getTime() ?? 0) > (existing.readAt?.getTime() ?? 0)) {
+        latest.set(entry.slug, entry);
+      }
+    }
+    if (latest.size === 0) return { merged: 0, skipped: 0 };
+
+    const found = await db.select({ slug: posts.slug }).from(posts).where(inArray(posts.slug, Array.from(latest.keys())));
+    const known = new Set(found.map(post => post.slug));
+
+    let merged = 0;
+    for (const [slug, entry] of latest) {
+      if (!known.has(slug)) continue;
+      const result = await this.save(userId, slug, entry);
+      if (!result.conflict) merged++;
+    }
+
+    progressLogger.info('Merged device reading progress', { userId, merged, received: entries.length });
+    return { merged, skipped: latest.size - merged };
+  }
+
+  /** Stories the reader started but hasn't finished, most recent first */
+  async getShelf(userId: number, limit: number): Promise<ShelfItem[]> {
+    const rows = await db.select({
+      progress: readingProgress,
+      slug: posts.slug,
+      title: posts.title,
+      excerpt: posts.excerpt,
+      themeCategory: posts.themeCategory,
+      readingTimeMinutes: posts.readingTimeMinutes,
+      isSecret: posts.isSecret,
+      metadata: posts.metadata,
+      publishAt: posts.publishAt
+    })
+      .from(readingProgress)
+      .innerJoin(posts, eq(posts.id, readingProgress.postId))
+      .where(and(
+        eq(readingProgress.userId, userId),
+        gte(readingProgress.progress, sql`1`),
+        lt(readingProgress.progress, sql`${FINISHED_PERCENT}`)
+      ))
+      .orderBy(desc(readingProgress.lastReadAt))
+      // Hidden stories are filtered afterwards, so over-fetch a little
+      .limit(limit * 2);
+
+    return rows
+      .filter(row => isPublicStory(row))
+      .slice(0, limit)
+      .map(row => ({
+        ...toView(row.progress, row.slug),
+        title: row.title,
+        excerpt: row.excerpt,
+        themeCategory: row.themeCategory,
+        readingTimeMinutes: row.readingTimeMinutes
+      }));
+  }
+}
+
+export const readingProgressService = new ReadingProgressService();
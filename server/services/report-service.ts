@@ -0,0 +1,531 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import {
+  reportedContent,
+  moderationDecisions,
+  comments,
+  posts,
+  users,
+  REPORT_REASONS,
+  type CommentMetadata,
+  type ModerationDecision,
+  type ReportAction,
+  type ReportContentType,
+  type ReportReason,
+  type ReportStatus,
+  type ReportedContent
+} from "@shared/schema";
+import { eq, and, or, desc, gte, inArray, isNotNull, sql } from "drizzle-orm";
+import { notificationService } from './notification-service';
+import { liveEventsService } from './live-events-service';
+import { webhookService } from './webhook-service';
+import { isPubliclyVisible } from './moderation-service';
+
+const reportLogger = createSecureLogger('ReportService');
+
+// Distinct signed-in reporters needed before content is hidden pending review
+const AUTO_HIDE_THRESHOLD = Math.max(parseInt(process.env.REPORT_AUTO_HIDE_THRESHOLD || '', 10) || 3, 1);
+
+// Free-text reasons older clients send, mapped onto the taxonomy
+const REASON_ALIASES: Record<string, ReportReason> = {
+  inappropriate_content: 'inappropriate',
+  explicit: 'sexual_content',
+  bullying: 'harassment',
+  hate: 'hate_speech',
+  copied: 'plagiarism'
+};
+
+export interface Reporter {
+  userId: number | null;
+  sessionId: string | null;
+}
+
+export interface ReportInput {
+  contentType: ReportContentType;
+  contentId: number;
+  reason?: string;
+  note?: string | null;
+}
+
+export interface ReportCase {
+  contentType: ReportContentType;
+  contentId: number;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  autoHidden: boolean;
+  content: {
+    title: string | null;
+    excerpt: string;
+    authorId: number | null;
+    authorName: string | null;
+    link: string | null;
+  } | null;
+  reports: Array<ReportedContent & { reporterName: string | null; resolverName: string | null }>;
+}
+
+interface TargetContent {
+  authorId: number | null;
+  title: string | null;
+  text: string;
+  link: string | null;
+  autoHidden: boolean;
+}
+
+type CommentRow = {
+  id: number;
+  postId: number | null;
+  parentId: number | null;
+  userId: number | null;
+  content: string;
+  createdAt: Date;
+  edited: boolean;
+  editedAt: Date | null;
+  is_approved: boolean;
+  metadata: unknown;
+};
+
+/** Who is reporting, taken from the request's session rather than anything in the body */
+export function reporterFrom(req: { user?: unknown; sessionID?: string }): Reporter {
+  const userId = (req.user as { id?: number } | undefined)?.id;
+  return { userId: userId ?? null, sessionId: req.sessionID || null };
+}
+
+function reporterKey(reporter: Reporter): string {
+  if (reporter.userId) return `user:${reporter.userId}`;
+  if (reporter.sessionId) return `anon:${reporter.sessionId}`;
+  throw createError.badRequest('A session is required to report content');
+}
+
+/**
+ * Map a submitted reason onto the taxonomy. Anything unrecognised is filed as 'other'
+ * and the reporter's wording is kept as the note.
+ */
+export function normalizeReportReason(reason: string | undefined, note?: string | null): { reason: ReportReason; note: string | null } {
+  const slug = (reason || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const known = (REPORT_REASONS as readonly string[]).includes(slug) ? slug as ReportReason : REASON_ALIASES[slug];
+  if (known) return { reason: known, note: note?.trim() || null };
+  return { reason: 'other', note: note?.trim() || reason?.trim() || null };
+}
+
+function excerpt(text: string, length = 280): string {
+  const plain = text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain.length > length ? `${plain.slice(0, length - 1)}…` : plain;
+}
+
+export class ReportService {
+  // Content lookups
+
+  private async getPost(id: number) {
+    const [post] = await db.select().from(posts).where(eq(posts.id, id)).limit(1);
+    return post ?? null;
+  }
+
+  private async getComment(id: number): Promise<CommentRow | null> {
+    const [comment] = await db.select({
+      id: comments.id,
+      postId: comments.postId,
+      parentId: comments.parentId,
+      userId: comments.userId,
+      content: comments.content,
+      createdAt: comments.createdAt,
+      edited: comments.edited,
+      editedAt: comments.editedAt,
+      is_approved: comments.is_approved,
+      metadata: comments.metadata
+    }).from(comments).where(eq(comments.id, id)).limit(1);
+    return comment ?? null;
+  }
+
+  private async getTarget(contentType: ReportContentType, contentId: number): Promise<TargetContent | null> {
+    if (contentType === 'post') {
+      const post = await this.getPost(contentId);
+      if (!post) return null;
+      const metadata = (post.metadata || {}) as Record<string, unknown>;
+      return {
+        authorId: post.authorId,
+        title: post.title,
+        text: post.content,
+        link: `/reader/${post.slug}`,
+        autoHidden: metadata.reportHold === true
+      };
+    }
+
+    const comment = await this.getComment(contentId);
+    if (!comment) return null;
+    const [post] = comment.postId
+      ? await db.select({ slug: posts.slug }).from(posts).where(eq(posts.id, comment.postId)).limit(1)
+      : [];
+    return {
+      authorId: comment.userId,
+      title: null,
+      text: comment.content,
+      link: post ? `/reader/${post.slug}#comment-${comment.id}` : null,
+      autoHidden: ((comment.metadata || {}) as CommentMetadata).reportHold === true
+    };
+  }
+
+  private async logDecision(entry: {
+    contentType: ReportContentType;
+    contentId: number;
+    action: string;
+    status: string;
+    reason: string | null;
+    reviewerId?: number | null;
+  }): Promise<void> {
+    await db.insert(moderationDecisions).values({
+      contentType: entry.contentType,
+      contentId: entry.contentId,
+      action: entry.action,
+      source: 'report',
+      status: entry.status,
+      reason: entry.reason,
+      reviewerId: entry.reviewerId ?? null,
+      reviewedAt: entry.reviewerId ? new Date() : null
+    });
+  }
+
+  // Reporting
+
+  /**
+   * File a report for the current reader. A reader can report each piece of content once;
+   * once enough distinct signed-in readers have, the content is hidden until a moderator looks
+   * at it. Anonymous reports only go into the queue: a fresh session is free to get, so they
+   * can't tell one person from several.
+   */
+  async submit(input: ReportInput, reporter: Reporter): Promise<{ report: ReportedContent; alreadyReported: boolean; autoHidden: boolean }> {
+    const key = reporterKey(reporter);
+    const target = await this.getTarget(input.contentType, input.contentId);
+    if (!target) {
+      throw createError.notFound(input.contentType === 'post' ? 'Post not found' : 'Comment not found');
+    }
+    if (reporter.userId && target.authorId === reporter.userId) {
+      throw createError.badRequest('You cannot report your own content');
+    }
+
+    const { reason, note } = normalizeReportReason(input.reason, input.note);
+    const [created] = await db.insert(reportedContent)
+      .values({
+        contentType: input.contentType,
+        contentId: input.contentId,
+        reporterId: reporter.userId,
+        reporterKey: key,
+        reason,
+        note
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!created) {
+      const [existing] = await db.select().from(reportedContent)
+        .where(and(
+          eq(reportedContent.contentType, input.contentType),
+          eq(reportedContent.contentId, input.contentId),
+          eq(reportedContent.reporterKey, key)
+        ))
+        .limit(1);
+      return { report: existing, alreadyReported: true, autoHidden: target.autoHidden };
+    }
+
+    if (input.contentType === 'comment') {
+      await webhookService.emit('comment.flagged', { commentId: input.contentId, reason });
+    }
+
+    const [{ reporters }] = await db.select({ reporters: sql<number>`count(DISTINCT ${reportedContent.reporterId})::int` })
+      .from(reportedContent)
+      .where(and(
+        eq(reportedContent.contentType, input.contentType),
+        eq(reportedContent.contentId, input.contentId),
+        eq(reportedContent.status, 'pending'),
+        isNotNull(reportedContent.reporterId)
+      ));
+
+    let autoHidden = target.autoHidden;
+    if (!autoHidden && reporters >= AUTO_HIDE_THRESHOLD) {
+      autoHidden = await this.hide(input.contentType, input.contentId);
+      if (autoHidden) {
+        await this.logDecision({
+          contentType: input.contentType,
+          contentId: input.contentId,
+          action: 'auto_hide',
+          status: 'applied',
+          reason: `Hidden after ${reporters} reader reports`
+        });
+        reportLogger.info('Content hidden after reports', { contentType: input.contentType, contentId: input.contentId, reporters });
+      }
+    }
+
+    return { report: created, alreadyReported: false, autoHidden };
+  }
+
+  /** Hide content pending review; returns false when it was already out of public view */
+  private async hide(contentType: ReportContentType, contentId: number): Promise<boolean> {
+    if (contentType === 'post') {
+      const post = await this.getPost(contentId);
+      if (!post) return false;
+      const metadata = (post.metadata || {}) as Record<string, unknown>;
+      if (metadata.isHidden === true) return false;
+      await db.update(posts).set({ metadata: { ...metadata, isHidden: true, reportHold: true } }).where(eq(posts.id, contentId));
+      return true;
+    }
+
+    const comment = await this.getComment(contentId);
+    if (!comment || !isPubliclyVisible(comment)) return false;
+    const metadata = (comment.metadata || {}) as CommentMetadata;
+    await db.update(comments)
+      .set({
+        is_approved: false,
+        metadata: {
+          ...metadata,
+          reportHold: true,
+          moderation: { ...metadata.moderation, status: 'held', updatedAt: new Date().toISOString() }
+        }
+      })
+      .where(eq(comments.id, contentId));
+    liveEventsService.commentDeleted(comment);
+    return true;
+  }
+
+  /** Put automatically hidden content back where it was */
+  private async restore(contentType: ReportContentType, contentId: number): Promise<void> {
+    if (contentType === 'post') {
+      const post = await this.getPost(contentId);
+      if (!post) return;
+      const { reportHold: _hold, ...metadata } = (post.metadata || {}) as Record<string, unknown>;
+      if (_hold !== true) return;
+      // A story still held for similarity review stays hidden
+      if (metadata.similarityHold !== true) delete metadata.isHidden;
+      await db.update(posts).set({ metadata }).where(eq(posts.id, contentId));
+      return;
+    }
+
+    const comment = await this.getComment(contentId);
+    if (!comment) return;
+    const { reportHold: _hold, ...metadata } = (comment.metadata || {}) as CommentMetadata;
+    if (_hold !== true) return;
+    const restored = {
+      ...comment,
+      is_approved: true,
+      metadata: { ...metadata, moderation: { ...metadata.moderation, status: 'approved' as const, updatedAt: new Date().toISOString() } }
+    };
+    await db.update(comments).set({ is_approved: true, metadata: restored.metadata }).where(eq(comments.id, contentId));
+    liveEventsService.commentCreated(restored);
+  }
+
+  private async remove(contentType: ReportContentType, contentId: number): Promise<void> {
+    if (contentType === 'post') {
+      const post = await this.getPost(contentId);
+      if (!post) return;
+      const { reportHold: _hold, ...metadata } = (post.metadata || {}) as Record<string, unknown>;
+      await db.update(posts).set({ metadata: { ...metadata, isHidden: true, status: 'rejected' } }).where(eq(posts.id, contentId));
+      return;
+    }
+
+    const comment = await this.getComment(contentId);
+    if (!comment) return;
+    const { reportHold: _hold, ...metadata } = (comment.metadata || {}) as CommentMetadata;
+    await db.update(comments)
+      .set({
+        is_approved: false,
+        metadata: { ...metadata, moderation: { ...metadata.moderation, status: 'rejected', updatedAt: new Date().toISOString() } }
+      })
+      .where(eq(comments.id, contentId));
+    if (isPubliclyVisible(comment)) liveEventsService.commentDeleted(comment);
+  }
+
+  // Admin review
+
+  async listCases(options: { status: ReportStatus; contentType?: ReportContentType; limit: number; offset: number }): Promise<{ cases: ReportCase[]; total: number }> {
+    const conditions = [eq(reportedContent.status, options.status)];
+    if (options.contentType) conditions.push(eq(reportedContent.contentType, options.contentType));
+    const where = and(...conditions);
+
+    const [groups, [{ total }]] = await Promise.all([
+      db.select({
+        contentType: reportedContent.contentType,
+        contentId: reportedContent.contentId,
+        reportCount: sql<number>`count(*)::int`,
+        lastReportedAt: sql<Date>`max(${reportedContent.createdAt})`
+      })
+        .from(reportedContent)
+        .where(where)
+        .groupBy(reportedContent.contentType, reportedContent.contentId)
+        .orderBy(desc(sql`count(*)`), desc(sql`max(${reportedContent.createdAt})`))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: sql<number>`count(DISTINCT (${reportedContent.contentType}, ${reportedContent.contentId}))::int` })
+        .from(reportedContent)
+        .where(where)
+    ]);
+    if (groups.length === 0) return { cases: [], total };
+
+    const rows = await db.select({
+      report: reportedContent,
+      reporterName: users.username
+    })
+      .from(reportedContent)
+      .leftJoin(users, eq(users.id, reportedContent.reporterId))
+      .where(and(where, or(...groups.map(group => and(
+        eq(reportedContent.contentType, group.contentType),
+        eq(reportedContent.contentId, group.contentId)
+      )))))
+      .orderBy(desc(reportedContent.createdAt));
+
+    const resolverIds = Array.from(new Set(rows.map(row => row.report.resolvedBy).filter((id): id is number => id !== null)));
+    const resolvers = resolverIds.length > 0
+      ? await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, resolverIds))
+      : [];
+    const resolverNames = new Map(resolvers.map(user => [user.id, user.username]));
+
+    const authorIds = new Set<number>();
+    const cases: ReportCase[] = [];
+    for (const group of groups) {
+      const contentType = group.contentType as ReportContentType;
+      const reports = rows
+        .filter(row => row.report.contentType === group.contentType && row.report.contentId === group.contentId)
+        .map(row => ({
+          ...row.report,
+          reporterName: row.reporterName,
+          resolverName: row.report.resolvedBy ? resolverNames.get(row.report.resolvedBy) ?? null : null
+        }));
+      const reasons: Partial<Record<ReportReason, number>> = {};
+      for (const report of reports) {
+        const reason = report.reason as ReportReason;
+        reasons[reason] = (reasons[reason] ?? 0) + 1;
+      }
+
+      const target = await this.getTarget(contentType, group.contentId);
+      if (target?.authorId) authorIds.add(target.authorId);
+      cases.push({
+        contentType,
+        contentId: group.contentId,
+        reportCount: group.reportCount,
+        reasons,
+        firstReportedAt: reports[reports.length - 1].createdAt,
+        lastReportedAt: reports[0].createdAt,
+        autoHidden: target?.autoHidden ?? false,
+        content: target ? {
+          title: target.title,
+          excerpt: excerpt(target.text),
+          authorId: target.authorId,
+          authorName: null,
+          link: target.link
+        } : null,
+        reports
+      });
+    }
+
+    if (authorIds.size > 0) {
+      const authors = await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, Array.from(authorIds)));
+      const authorNames = new Map(authors.map(author => [author.id, author.username]));
+      for (const reportCase of cases) {
+        if (reportCase.content?.authorId) {
+          reportCase.content.authorName = authorNames.get(reportCase.content.authorId) ?? null;
+        }
+      }
+    }
+
+    return { cases, total };
+  }
+
+  /** Reported items per status, plus how many were closed today */
+  async getCounts(): Promise<Record<ReportStatus, number> & { closedToday: number }> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const items = sql<number>`count(DISTINCT (${reportedContent.contentType}, ${reportedContent.contentId}))::int`;
+
+    const [byStatus, [{ closedToday }]] = await Promise.all([
+      db.select({ status: reportedContent.status, items }).from(reportedContent).groupBy(reportedContent.status),
+      db.select({ closedToday: items }).from(reportedContent).where(gte(reportedContent.resolvedAt, startOfDay))
+    ]);
+
+    const counts = { pending: 0, resolved: 0, dismissed: 0, closedToday };
+    for (const row of byStatus) {
+      if (row.status in counts) counts[row.status as ReportStatus] = row.items;
+    }
+    return counts;
+  }
+
+  /**
+   * Close every pending report on a piece of content with one moderator decision.
+   * Removing hides the content for good; warning and dismissing bring back anything
+   * that was hidden automatically.
+   */
+  async resolve(
+    contentType: ReportContentType,
+    contentId: number,
+    action: ReportAction,
+    moderatorId: number,
+    note?: string | null
+  ): Promise<{ resolved: number }> {
+    const resolvedAt = new Date();
+    const closed = await db.update(reportedContent)
+      .set({
+        status: action === 'dismiss' ? 'dismissed' : 'resolved',
+        resolution: action,
+        resolutionNote: note?.trim() || null,
+        resolvedBy: moderatorId,
+        resolvedAt
+      })
+      .where(and(
+        eq(reportedContent.contentType, contentType),
+        eq(reportedContent.contentId, contentId),
+        eq(reportedContent.status, 'pending')
+      ))
+      .returning({ id: reportedContent.id });
+    if (closed.length === 0) {
+      throw createError.notFound('No open reports for this content');
+    }
+
+    const target = await this.getTarget(contentType, contentId);
+    if (target) {
+      if (action === 'remove_content') {
+        await this.remove(contentType, contentId);
+      } else {
+        await this.restore(contentType, contentId);
+      }
+
+      if (action !== 'dismiss' && target.authorId && target.authorId !== moderatorId) {
+        await notificationService.submissionReviewed({
+          userId: target.authorId,
+          contentType,
+          contentId,
+          decision: action === 'remove_content' ? 'removed' : 'warned',
+          title: target.title ?? undefined,
+          link: action === 'warn_author' ? target.link ?? undefined : undefined,
+          note
+        });
+      }
+    }
+
+    await this.logDecision({
+      contentType,
+      contentId,
+      action,
+      status: action === 'dismiss' ? 'dismissed' : 'resolved',
+      reason: note?.trim() || `${closed.length} report${closed.length === 1 ? '' : 's'} closed`,
+      reviewerId: moderatorId
+    });
+
+    reportLogger.info('Reports resolved', { contentType, contentId, action, reports: closed.length, moderatorId });
+    return { resolved: closed.length };
+  }
+
+  /** Report-driven decisions for one piece of content, newest first */
+  async getHistory(contentType: ReportContentType, contentId: number): Promise<Array<ModerationDecision & { reviewerName: string | null }>> {
+    const rows = await db.select({ decision: moderationDecisions, reviewerName: users.username })
+      .from(moderationDecisions)
+      .leftJoin(users, eq(users.id, moderationDecisions.reviewerId))
+      .where(and(
+        eq(moderationDecisions.contentType, contentType),
+        eq(moderationDecisions.contentId, contentId),
+        eq(moderationDecisions.source, 'report')
+      ))
+      .orderBy(desc(moderationDecisions.createdAt));
+    return rows.map(row => ({ ...row.decision, reviewerName: row.reviewerName }));
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,374 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { db } from "../db";
+import { searchQueries, type SearchQuery } from "@shared/schema";
+import { sql, desc, like, gt, and } from "drizzle-orm";
+
+const searchLogger = createSecureLogger('SearchService');
+
+// Delimiters handed to ts_headline; they never occur in story text and are split out
+// before the response is sent, so clients never have to render HTML from the server
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_STOP = '⟧';
+const FRAGMENT_DELIMITER = ' … ';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=3, MaxWords=30, MinWords=12, FragmentDelimiter="${FRAGMENT_DELIMITER}"`;
+
+export type SearchMode = 'all' | 'any';
+
+export interface ParsedSearchQuery {
+  // Lexemes extracted from the raw query, used for validation and static page matching
+  terms: string[];
+  // to_tsquery('english', ...) input, or null when nothing searchable remains
+  tsquery: string | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchMatch {
+  text: string;
+  context: string;
+  highlights: HighlightSegment[];
+}
+
+export interface SearchHit {
+  id: number;
+  title: string;
+  excerpt: string;
+  type: 'post' | 'page' | 'comment';
+  url: string;
+  matches: SearchMatch[];
+  rank: number;
+  createdAt: Date;
+  postId?: number | null;
+  userId?: number | null;
+}
+
+export interface SearchPostsOptions {
+  // Search secret posts (rendered as "pages") instead of regular stories
+  pages?: boolean;
+  category?: string | null;
+  from?: Date | null;
+  limit: number;
+  offset?: number;
+  mode?: SearchMode;
+}
+
+export interface SearchCommentsOptions {
+  from?: Date | null;
+  limit: number;
+  offset?: number;
+  mode?: SearchMode;
+}
+
+export interface SearchSuggestion {
+  id: number | string;
+  title: string;
+  type: 'post' | 'query';
+  url: string;
+}
+
+/**
+ * Turn free text into a to_tsquery expression.
+ * Supports "quoted phrases" (matched with the <-> operator) and trailing-asterisk
+ * prefixes (night* -> night:*). Everything except letters and digits is dropped so
+ * user input can never inject tsquery operators.
+ */
+export function parseSearchQuery(raw: string, mode: SearchMode = 'all'): ParsedSearchQuery {
+  const terms: string[] = [];
+  const clauses: string[] = [];
+  const tokenPattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(raw)) !== null) {
+    if (match[1] !== undefined) {
+      const words = match[1].split(/\s+/).map(toLexeme).filter(Boolean);
+      if (words.length === 0) continue;
+      terms.push(...words);
+      clauses.push(words.length === 1 ? words[0] : `(${words.join(' <-> ')})`);
+      continue;
+    }
+
+    const token = match[2];
+    const isPrefix = token.endsWith('*');
+    const word = toLexeme(token);
+    if (!word) continue;
+    terms.push(word);
+    clauses.push(isPrefix ? `${word}:*` : word);
+  }
+
+  return {
+    terms,
+    tsquery: clauses.length > 0 ? clauses.join(mode === 'all' ? ' & ' : ' | ') : null
+  };
+}
+
+function toLexeme(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * Split a ts_headline result into plain-text matches with highlight segments
+ */
+function headlineToMatches(headline: string | null): SearchMatch[] {
+  if (!headline) return [];
+
+  return headline
+    .split(FRAGMENT_DELIMITER)
+    .map(fragment => fragment.trim())
+    .filter(fragment => fragment.includes(HIGHLIGHT_START))
+    .map(fragment => {
+      const highlights: HighlightSegment[] = [];
+      for (const piece of fragment.split(HIGHLIGHT_START)) {
+        const [marked, rest] = piece.includes(HIGHLIGHT_STOP) ? piece.split(HIGHLIGHT_STOP) : [null, piece];
+        if (marked) highlights.push({ text: marked, highlighted: true });
+        if (rest) highlights.push({ text: rest, highlighted: false });
+      }
+      const firstHit = highlights.find(segment => segment.highlighted);
+      return {
+        text: firstHit?.text.toLowerCase() || '',
+        context: highlights.map(segment => segment.text).join(''),
+        highlights
+      };
+    });
+}
+
+function rowsOf(result: unknown): any[] {
+  return Array.isArray(result) ? result : ((result as any)?.rows || []);
+}
+
+function levenshtein(a: string, b: string) {
+  const m = a.length, n = b.length;
+  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+    }
+  }
+  return dp[m][n];
+}
+
+export class SearchService {
+  /**
+   * Ranked full-text search over posts using the post_search_documents index.
+   * Returns the requested window plus the total number of matching rows.
+   */
+  async searchPosts(query: string, options: SearchPostsOptions): Promise<{ hits: SearchHit[]; total: number }> {
+    const { tsquery } = parseSearchQuery(query, options.mode);
+    if (!tsquery) return { hits: [], total: 0 };
+
+    const isPage = options.pages === true;
+    const categoryFilter = options.category
+      ? sql`AND lower(p.theme_category) = ${options.category.toLowerCase()}`
+      : sql``;
+    const fromFilter = options.from ? sql`AND p.created_at >= ${options.from}` : sql``;
+
+    try {
+      const result = await db.execute(sql`
+        SELECT r.id, r.title, r.slug, r.excerpt, r.created_at, r.rank, r.total,
+          ts_headline('english', regexp_replace(r.content, '<[^>]+>', ' ', 'g'), r.query, ${HEADLINE_OPTIONS}) AS headline
+        FROM (
+          SELECT p.id, p.title, p.slug, p.excerpt, p.content, p.created_at, q.query,
+            ts_rank(d.document, q.query) AS rank,
+            COUNT(*) OVER() AS total
+          FROM posts p
+          JOIN post_search_documents d ON d.post_id = p.id
+          CROSS JOIN (SELECT to_tsquery('english', ${tsquery}) AS query) q
+          WHERE d.document @@ q.query
+            AND p.is_secret = ${isPage}
+            AND (p.metadata->>'isHidden') IS DISTINCT FROM 'true'
+            AND (p.publish_at IS NULL OR p.publish_at <= now())
+            ${categoryFilter}
+            ${fromFilter}
+          ORDER BY rank DESC, p.created_at DESC
+          LIMIT ${options.limit} OFFSET ${options.offset ?? 0}
+        ) r
+        ORDER BY r.rank DESC, r.created_at DESC
+      `);
+
+      const rows = rowsOf(result);
+      const hits: SearchHit[] = rows.map((row: any) => {
+        const matches = headlineToMatches(row.headline);
+        const fallback = String(row.excerpt || '').trim();
+        return {
+          id: Number(row.id),
+          title: String(row.title),
+          excerpt: matches[0]?.context || fallback,
+          type: isPage ? 'page' : 'post',
+          url: isPage ? `/page/${row.slug}` : `/reader/${row.id}`,
+          matches,
+          rank: Number(row.rank) || 0,
+          createdAt: new Date(row.created_at)
+        };
+      });
+
+      return { hits, total: rows.length > 0 ? Number(rows[0].total) : 0 };
+    } catch (error) {
+      searchLogger.error('Error searching posts', { pages: isPage, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Ranked full-text search over approved comments (backed by comment_search_idx)
+   */
+  async searchComments(query: string, options: SearchCommentsOptions): Promise<{ hits: SearchHit[]; total: number }> {
+    const { tsquery } = parseSearchQuery(query, options.mode);
+    if (!tsquery) return { hits: [], total: 0 };
+
+    const fromFilter = options.from ? sql`AND c.created_at >= ${options.from}` : sql``;
+
+    try {
+      const result = await db.execute(sql`
+        SELECT r.id, r.post_id, r.user_id, r.content, r.created_at, r.rank, r.total,
+          ts_headline('english', r.content, r.query, ${HEADLINE_OPTIONS}) AS headline
+        FROM (
+          SELECT c.id, c.post_id, c.user_id, c.content, c.created_at, q.query,
+            ts_rank(to_tsvector('english', c.content), q.query) AS rank,
+            COUNT(*) OVER() AS total
+          FROM comments c
+          CROSS JOIN (SELECT to_tsquery('english', ${tsquery}) AS query) q
+          WHERE to_tsvector('english', c.content) @@ q.query
+            AND c.is_approved = true
+            ${fromFilter}
+          ORDER BY rank DESC, c.created_at DESC
+          LIMIT ${options.limit} OFFSET ${options.offset ?? 0}
+        ) r
+        ORDER BY r.rank DESC, r.created_at DESC
+      `);
+
+      const rows = rowsOf(result);
+      const hits: SearchHit[] = rows.map((row: any) => {
+        const plain = String(row.content || '').replace(/<[^>]+>/g, '');
+        return {
+          id: Number(row.id),
+          title: `Comment on post #${row.post_id}`,
+          excerpt: plain.length > 150 ? `${plain.substring(0, 150)}...` : plain,
+          type: 'comment',
+          url: `/reader/${row.post_id}#comment-${row.id}`,
+          matches: headlineToMatches(row.headline),
+          rank: Number(row.rank) || 0,
+          createdAt: new Date(row.created_at),
+          postId: row.post_id === null ? null : Number(row.post_id),
+          userId: row.user_id === null ? null : Number(row.user_id)
+        };
+      });
+
+      return { hits, total: rows.length > 0 ? Number(rows[0].total) : 0 };
+    } catch (error) {
+      searchLogger.error('Error searching comments', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Typeahead suggestions: title prefix matches first, then body matches
+   */
+  async suggestPosts(query: string, limit: number): Promise<SearchSuggestion[]> {
+    const words = query.split(/\s+/).map(toLexeme).filter(Boolean);
+    if (words.length === 0) return [];
+
+    // Every word is treated as a prefix; the trailing A restricts the first pass to titles
+    const prefixQuery = words.map(word => `${word}:*`).join(' & ');
+    const titleQuery = words.map(word => `${word}:*A`).join(' & ');
+
+    try {
+      const result = await db.execute(sql`
+        SELECT p.id, p.title,
+          (d.document @@ to_tsquery('english', ${titleQuery})) AS title_match,
+          ts_rank(d.document, to_tsquery('english', ${prefixQuery})) AS rank
+        FROM posts p
+        JOIN post_search_documents d ON d.post_id = p.id
+        WHERE d.document @@ to_tsquery('english', ${prefixQuery})
+          AND p.is_secret = false
+          AND (p.metadata->>'isHidden') IS DISTINCT FROM 'true'
+          AND (p.publish_at IS NULL OR p.publish_at <= now())
+        ORDER BY title_match DESC, rank DESC, p.created_at DESC
+        LIMIT ${limit}
+      `);
+
+      return rowsOf(result).map((row: any) => ({
+        id: Number(row.id),
+        title: row.title || 'Untitled',
+        type: 'post' as const,
+        url: `/reader/${row.id}`
+      }));
+    } catch (error) {
+      searchLogger.error('Error building search suggestions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Persist a search so trending suggestions survive restarts
+   */
+  async recordQuery(query: string, resultCount: number): Promise<void> {
+    const key = query.trim().toLowerCase().slice(0, 80);
+    if (!key) return;
+
+    try {
+      await db.insert(searchQueries)
+        .values({ query: key, searchCount: 1, lastResultCount: resultCount, lastSearchedAt: new Date() })
+        .onConflictDoUpdate({
+          target: searchQueries.query,
+          set: {
+            searchCount: sql`${searchQueries.searchCount} + 1`,
+            lastResultCount: resultCount,
+            lastSearchedAt: new Date()
+          }
+        });
+    } catch (error) {
+      // Trending data is best effort and must never fail a search
+      searchLogger.warn('Failed to record search query', { error });
+    }
+  }
+
+  /**
+   * Most frequent queries that returned results, optionally narrowed by prefix
+   */
+  async getTrendingQueries(limit: number, prefix?: string): Promise<SearchQuery[]> {
+    try {
+      const conditions = [gt(searchQueries.lastResultCount, 0)];
+      if (prefix) {
+        conditions.push(like(searchQueries.query, `${prefix.toLowerCase().replace(/[%_\\]/g, '\\$&')}%`));
+      }
+
+      return await db.select()
+        .from(searchQueries)
+        .where(and(...conditions))
+        .orderBy(desc(searchQueries.searchCount), desc(searchQueries.lastSearchedAt))
+        .limit(limit);
+    } catch (error) {
+      searchLogger.error('Error fetching trending queries', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Closest popular query within an edit distance of two, for "did you mean"
+   */
+  async findSimilarQuery(query: string): Promise<string | null> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return null;
+
+    const candidates = await this.getTrendingQueries(200);
+    let best: { q: string; d: number } | null = null;
+    for (const candidate of candidates) {
+      if (candidate.query === needle) continue;
+      const d = levenshtein(needle, candidate.query);
+      if (d <= 2 && (!best || d < best.d)) best = { q: candidate.query, d };
+    }
+    return best?.q ?? null;
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
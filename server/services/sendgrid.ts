@@ -13,7 +13,7 @@ import { EmailMessage, EmailResult } from './email-types';
  * 
  * @returns Boolean indicating if API key is set
  */
-function hasSendGridApiKey(): boolean {
+export function hasSendGridApiKey(): boolean {
   return !!process.env.SENDGRID_API_KEY;
 }
 
@@ -89,7 +89,8 @@ export async function sendEmail(message: EmailMessage): Promise<EmailResult> {
       text: message.text,
       html: message.html,
       replyTo: message.replyTo,
-      attachments: message.attachments
+      attachments: message.attachments,
+      headers: message.headers
     });
     
     logger.info('[Email] Successfully sent email via SendGrid', {
@@ -0,0 +1,231 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { describeDevice, approximateLocation, type DeviceInfo } from '../utils/device-info';
+import { emailService } from '../utils/email-service';
+import { config } from '../config';
+import { db } from "../db";
+import { storage } from "../storage";
+import { sessions, knownDevices } from "@shared/schema";
+import { eq, and, ne, gt, desc, sql } from "drizzle-orm";
+
+const sessionLogger = createSecureLogger('SessionService');
+
+const DEVICE_COOKIE = 'bc_device';
+const DEVICE_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+// Last-access times are only written this often per session
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_TRACKED_TOUCHES = 10_000;
+// Used when the session cookie has no expiry of its own
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface ActiveSession {
+  id: number;
+  device: DeviceInfo;
+  location: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastAccessedAt: Date;
+  current: boolean;
+}
+
+function hashDeviceId(deviceId: string): string {
+  return createHash('sha256').update(deviceId).digest('hex');
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+function sessionExpiry(req: Request): Date {
+  return req.session?.cookie?.expires
+    ? new Date(req.session.cookie.expires)
+    : new Date(Date.now() + DEFAULT_SESSION_TTL_MS);
+}
+
+/**
+ * Tracks where each user is signed in. Browser sessions live in the express session store;
+ * alongside each one a `sessions` row (token = session id) keeps the device, address and
+ * last access that the "Devices" list shows.
+ */
+export class SessionService {
+  private lastTouched = new Map<string, number>();
+
+  /**
+   * Record a fresh sign-in and email the user if it came from a browser they haven't used
+   * before. Never throws: a failure here must not stop the sign-in.
+   */
+  async recordSignIn(req: Request, res: Response, user: { id: number; email: string; username: string }): Promise<void> {
+    try {
+      let deviceId = readCookie(req, DEVICE_COOKIE);
+      if (!deviceId || !/^[a-f0-9]{48}$/.test(deviceId)) {
+        deviceId = randomBytes(24).toString('hex');
+      }
+      res.cookie(DEVICE_COOKIE, deviceId, {
+        httpOnly: true,
+        secure: config.session.secure,
+        sameSite: config.session.sameSite,
+        maxAge: DEVICE_COOKIE_MAX_AGE_MS
+      });
+
+      await this.upsert(req, user.id);
+      this.lastTouched.set(req.sessionID, Date.now());
+
+      const userAgent = req.get('User-Agent') || null;
+      const deviceHash = hashDeviceId(deviceId);
+      const known = await db.select({ deviceHash: knownDevices.deviceHash }).from(knownDevices).where(eq(knownDevices.userId, user.id));
+      await db.insert(knownDevices)
+        .values({ userId: user.id, deviceHash, userAgent })
+        .onConflictDoUpdate({
+          target: [knownDevices.userId, knownDevices.deviceHash],
+          set: { lastSeenAt: new Date(), userAgent }
+        });
+
+      // The very first device an account signs in from isn't worth an alert
+      const isNewDevice = !known.some(device => device.deviceHash === deviceHash);
+      if (isNewDevice && known.length > 0) {
+        await this.notifyNewDevice(req, user);
+      }
+    } catch (error) {
+      sessionLogger.error('Failed to record sign-in', { userId: user.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** Whether this browser has signed in to the account before */
+  async isKnownDevice(req: Request, userId: number): Promise<boolean> {
+    const deviceId = readCookie(req, DEVICE_COOKIE);
+    if (!deviceId) return false;
+    const [device] = await db.select({ id: knownDevices.id }).from(knownDevices)
+      .where(and(eq(knownDevices.userId, userId), eq(knownDevices.deviceHash, hashDeviceId(deviceId))))
+      .limit(1);
+    return !!device;
+  }
+
+  /**
+   * Keep the signed-in session's row current. Sessions from before tracking began get a
+   * row the first time they are seen.
+   */
+  async touch(req: Request): Promise<void> {
+    const userId = req.user?.id;
+    if (!userId || !req.sessionID) return;
+
+    const last = this.lastTouched.get(req.sessionID);
+    if (last && Date.now() - last < TOUCH_INTERVAL_MS) return;
+    if (this.lastTouched.size >= MAX_TRACKED_TOUCHES) {
+      this.lastTouched.clear();
+    }
+    this.lastTouched.set(req.sessionID, Date.now());
+
+    try {
+      await this.upsert(req, userId);
+    } catch (error) {
+      sessionLogger.warn('Failed to update session access', { userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /** A user's signed-in sessions, most recently used first */
+  async listForUser(userId: number, currentSessionId: string): Promise<ActiveSession[]> {
+    const rows = await db.select().from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        gt(sessions.expiresAt, new Date()),
+        // Rows outlive sessions that were ended elsewhere, e.g. by the store's expiry sweep
+        sql`${sessions.token} IN (SELECT sid FROM express_sessions WHERE expire > NOW())`
+      ))
+      .orderBy(desc(sessions.lastAccessedAt));
+
+    return Promise.all(rows.map(async row => ({
+      id: row.id,
+      device: describeDevice(row.userAgent),
+      location: await approximateLocation(row.ipAddress),
+      ipAddress: row.ipAddress,
+      createdAt: row.createdAt,
+      lastAccessedAt: row.lastAccessedAt,
+      current: row.token === currentSessionId
+    })));
+  }
+
+  /** Sign one of a user's sessions out */
+  async revoke(userId: number, sessionId: number, currentSessionId: string): Promise<void> {
+    const [row] = await db.select().from(sessions)
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+      .limit(1);
+    if (!row) {
+      throw createError.notFound('Session not found');
+    }
+    if (row.token === currentSessionId) {
+      throw createError.badRequest('Use "Sign out" to end the session you are using');
+    }
+    await storage.deleteSession(row.token);
+    await db.execute(sql`DELETE FROM express_sessions WHERE sid = ${row.token}`);
+    this.lastTouched.delete(row.token);
+  }
+
+  /** Sign a user out everywhere except the session making the request */
+  async revokeOthers(userId: number, currentSessionId: string): Promise<number> {
+    const tokens = await db.delete(sessions)
+      .where(and(eq(sessions.userId, userId), ne(sessions.token, currentSessionId)))
+      .returning({ token: sessions.token });
+    const browser = await db.execute(sql`DELETE FROM express_sessions WHERE (sess::jsonb -> 'passport' ->> 'user') = ${String(userId)} AND sid <> ${currentSessionId}`);
+    tokens.forEach(({ token }) => this.lastTouched.delete(token));
+    const revoked = browser.rowCount ?? tokens.length;
+    sessionLogger.info('Other sessions revoked', { userId, revoked });
+    return revoked;
+  }
+
+  /**
+   * Sign a user out everywhere: drops their API session tokens and every browser session
+   * in the session store, which is keyed by passport's serialized user id.
+   */
+  async revokeAllForUser(userId: number): Promise<number> {
+    const tokens = await db.delete(sessions).where(eq(sessions.userId, userId)).returning({ token: sessions.token });
+    const browser = await db.execute(sql`DELETE FROM express_sessions WHERE (sess::jsonb -> 'passport' ->> 'user') = ${String(userId)}`);
+    tokens.forEach(({ token }) => this.lastTouched.delete(token));
+    const revoked = browser.rowCount ?? tokens.length;
+    sessionLogger.info('Sessions revoked', { userId, revoked });
+    return revoked;
+  }
+
+  /** Forget the row for a session that is signing out */
+  async end(sessionId: string): Promise<void> {
+    this.lastTouched.delete(sessionId);
+    await storage.deleteSession(sessionId);
+  }
+
+  private async upsert(req: Request, userId: number): Promise<void> {
+    const now = new Date();
+    const details = {
+      userAgent: req.get('User-Agent') || null,
+      ipAddress: req.ip || null,
+      expiresAt: sessionExpiry(req),
+      lastAccessedAt: now
+    };
+    await db.insert(sessions)
+      .values({ token: req.sessionID, userId, ...details, createdAt: now })
+      .onConflictDoUpdate({ target: sessions.token, set: { userId, ...details } });
+  }
+
+  private async notifyNewDevice(req: Request, user: { id: number; email: string; username: string }): Promise<void> {
+    const settings = await storage.getUserPrivacySettings(user.id);
+    // Alerts are on unless the user turned them off
+    if (settings && !settings.loginNotifications) return;
+
+    const ipAddress = req.ip || null;
+    await emailService.sendNewDeviceSignInEmail(user.email, user.username, {
+      device: describeDevice(req.get('User-Agent')).label,
+      location: await approximateLocation(ipAddress),
+      ipAddress,
+      signedInAt: new Date()
+    });
+    sessionLogger.info('New device sign-in reported', { userId: user.id });
+  }
+}
+
+export const sessionService = new SessionService();
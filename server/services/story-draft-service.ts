@@ -0,0 +1,105 @@
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { posts, storyDrafts, type StoryDraft } from "@shared/schema";
+import { eq, and, desc, isNull, sql } from "drizzle-orm";
+
+const draftLogger = createSecureLogger('StoryDraftService');
+
+// Keeps a runaway autosave loop or abandoned editor tabs from piling up rows
+const MAX_DRAFTS_PER_AUTHOR = 50;
+
+export interface DraftInput {
+  title?: string;
+  content?: string;
+  themeCategory?: string | null;
+}
+
+export class StoryDraftService {
+  /** All of an author's drafts, newest first; pending edits of published stories carry their postId */
+  async list(authorId: number): Promise<StoryDraft[]> {
+    return db.select().from(storyDrafts)
+      .where(eq(storyDrafts.authorId, authorId))
+      .orderBy(desc(storyDrafts.updatedAt));
+  }
+
+  async get(id: number, authorId: number): Promise<StoryDraft> {
+    const [draft] = await db.select().from(storyDrafts)
+      .where(and(eq(storyDrafts.id, id), eq(storyDrafts.authorId, authorId)))
+      .limit(1);
+    if (!draft) {
+      throw createError.notFound('Draft not found');
+    }
+    return draft;
+  }
+
+  async findForPost(postId: number, authorId: number): Promise<StoryDraft | null> {
+    const [draft] = await db.select().from(storyDrafts)
+      .where(and(eq(storyDrafts.postId, postId), eq(storyDrafts.authorId, authorId)))
+      .limit(1);
+    return draft ?? null;
+  }
+
+  /**
+   * Start a draft. Edits to an existing story share one draft per author, so opening the
+   * editor again picks up where the last session stopped.
+   */
+  async create(authorId: number, input: DraftInput & { postId?: number | null }, canEditAny = false): Promise<StoryDraft> {
+    if (input.postId) {
+      const [post] = await db.select({ authorId: posts.authorId }).from(posts).where(eq(posts.id, input.postId)).limit(1);
+      if (!post) {
+        throw createError.notFound('Post not found');
+      }
+      if (post.authorId !== authorId && !canEditAny) {
+        throw createError.forbidden('You can only edit your own stories');
+      }
+
+      const existing = await this.findForPost(input.postId, authorId);
+      if (existing) return this.update(existing.id, authorId, input);
+    } else {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(storyDrafts)
+        .where(and(eq(storyDrafts.authorId, authorId), isNull(storyDrafts.postId)));
+      if (count >= MAX_DRAFTS_PER_AUTHOR) {
+        throw createError.conflict(`You can keep up to ${MAX_DRAFTS_PER_AUTHOR} drafts; publish or delete some first`);
+      }
+    }
+
+    const [draft] = await db.insert(storyDrafts).values({
+      authorId,
+      postId: input.postId ?? null,
+      title: input.title ?? '',
+      content: input.content ?? '',
+      themeCategory: input.themeCategory ?? null
+    }).returning();
+    draftLogger.info('Draft started', { draftId: draft.id, authorId, postId: draft.postId });
+    return draft;
+  }
+
+  /** Autosave: overwrite whichever fields were sent */
+  async update(id: number, authorId: number, changes: DraftInput): Promise<StoryDraft> {
+    const [draft] = await db.update(storyDrafts)
+      .set({
+        ...(changes.title !== undefined ? { title: changes.title } : {}),
+        ...(changes.content !== undefined ? { content: changes.content } : {}),
+        ...(changes.themeCategory !== undefined ? { themeCategory: changes.themeCategory } : {}),
+        updatedAt: new Date()
+      })
+      .where(and(eq(storyDrafts.id, id), eq(storyDrafts.authorId, authorId)))
+      .returning();
+    if (!draft) {
+      throw createError.notFound('Draft not found');
+    }
+    return draft;
+  }
+
+  async remove(id: number, authorId: number): Promise<void> {
+    const deleted = await db.delete(storyDrafts)
+      .where(and(eq(storyDrafts.id, id), eq(storyDrafts.authorId, authorId)))
+      .returning({ id: storyDrafts.id });
+    if (deleted.length === 0) {
+      throw createError.notFound('Draft not found');
+    }
+  }
+}
+
+export const storyDraftService = new StoryDraftService();
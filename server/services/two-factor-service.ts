@@ -0,0 +1,302 @@
+import { createHash, randomBytes } from 'crypto';
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorChallenges,
+  type TwoFactorChallenge
+} from "@shared/schema";
+import { eq, and, gt, isNull, isNotNull, lt, or, sql } from "drizzle-orm";
+import { isStaff } from "@shared/permissions";
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp';
+
+const twoFactorLogger = createSecureLogger('TwoFactorService');
+
+const ISSUER = "Bubble's Cafe";
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type ChallengePurpose = 'login' | 'setup';
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface ChallengeResult {
+  userId: number;
+  rememberMe: boolean;
+  method: SecondFactorMethod;
+  // Only set when the challenge finished an enrollment
+  recoveryCodes?: string[];
+}
+
+interface ChallengeUser {
+  id: number;
+  email: string;
+  isAdmin?: boolean | null;
+  role?: string | null;
+}
+
+function hashValue(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Recovery codes are shown as "abcde-12345"; accept them with or without the dash and in any case
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function generateRecoveryCode(): string {
+  const raw = randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+export class TwoFactorService {
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    if (!record?.enabledAt) {
+      return { enabled: false, enabledAt: null, recoveryCodesRemaining: 0 };
+    }
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+
+    return { enabled: true, enabledAt: record.enabledAt, recoveryCodesRemaining: count };
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const [record] = await db
+      .select({ id: userTwoFactor.id })
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .limit(1);
+    return !!record;
+  }
+
+  /**
+   * Which challenge, if any, a user owes after a correct password.
+   * Staff without a second factor must enroll before they get a session.
+   */
+  async requiredChallenge(user: ChallengeUser): Promise<ChallengePurpose | null> {
+    if (await this.isEnabled(user.id)) return 'login';
+    if (isStaff(user)) return 'setup';
+    return null;
+  }
+
+  /** Start (or restart) enrollment with a fresh secret; nothing is enforced until it is confirmed */
+  async beginEnrollment(user: ChallengeUser): Promise<Enrollment> {
+    if (await this.isEnabled(user.id)) {
+      throw createError.conflict('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .insert(userTwoFactor)
+      .values({ userId: user.id, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, updatedAt: new Date() }
+      });
+
+    return { secret, otpauthUrl: buildOtpAuthUri(secret, user.email, ISSUER) };
+  }
+
+  /** Verify the first code from the authenticator, turn 2FA on and issue recovery codes */
+  async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    if (!record) {
+      throw createError.badRequest('Start two-factor setup before verifying a code');
+    }
+    if (record.enabledAt) {
+      throw createError.conflict('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+      throw createError.badRequest('Invalid verification code');
+    }
+
+    await db
+      .update(userTwoFactor)
+      .set({ enabledAt: new Date(), lastUsedStep: step, updatedAt: new Date() })
+      .where(eq(userTwoFactor.id, record.id));
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+    await storage.updateUserPrivacySettings(userId, { twoFactorAuthEnabled: true });
+
+    twoFactorLogger.info('Two-factor authentication enabled', { userId });
+    return recoveryCodes;
+  }
+
+  async disable(userId: number, code: string): Promise<void> {
+    if (!(await this.verifySecondFactor(userId, code))) {
+      throw createError.badRequest('Invalid verification code');
+    }
+
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await storage.updateUserPrivacySettings(userId, { twoFactorAuthEnabled: false });
+
+    twoFactorLogger.info('Two-factor authentication disabled', { userId });
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    if (!(await this.verifySecondFactor(userId, code))) {
+      throw createError.badRequest('Invalid verification code');
+    }
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Accept either a current TOTP code or an unused recovery code.
+   * Both are consumed: a TOTP step cannot be reused and a recovery code works once.
+   */
+  async verifySecondFactor(userId: number, code: string): Promise<SecondFactorMethod | null> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    if (!record?.enabledAt) return null;
+
+    const step = verifyTotp(record.secret, code);
+    if (step !== null) {
+      const [accepted] = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step, updatedAt: new Date() })
+        .where(and(
+          eq(userTwoFactor.id, record.id),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        ))
+        .returning({ id: userTwoFactor.id });
+      return accepted ? 'totp' : null;
+    }
+
+    const normalized = normalizeRecoveryCode(code);
+    if (normalized.length !== 10) return null;
+
+    const [used] = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, hashValue(normalized)),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+
+    if (used) {
+      twoFactorLogger.info('Recovery code used', { userId });
+      return 'recovery_code';
+    }
+    return null;
+  }
+
+  async createChallenge(userId: number, purpose: ChallengePurpose, rememberMe: boolean): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+    // Drop expired challenges opportunistically; a user only ever needs the newest one
+    await db.delete(twoFactorChallenges).where(
+      or(lt(twoFactorChallenges.expiresAt, new Date()), eq(twoFactorChallenges.userId, userId))
+    );
+    await db.insert(twoFactorChallenges).values({
+      userId,
+      tokenHash: hashValue(token),
+      purpose,
+      rememberMe,
+      expiresAt
+    });
+
+    return { token, expiresAt };
+  }
+
+  private async getChallenge(token: string): Promise<TwoFactorChallenge> {
+    const [challenge] = await db
+      .select()
+      .from(twoFactorChallenges)
+      .where(eq(twoFactorChallenges.tokenHash, hashValue(token)))
+      .limit(1);
+
+    if (!challenge || challenge.expiresAt < new Date() || challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      throw createError.unauthorized('Sign-in challenge expired. Please sign in again.');
+    }
+    return challenge;
+  }
+
+  /** Enrollment for an admin who was stopped at sign-in because they have no second factor yet */
+  async beginChallengeEnrollment(token: string): Promise<Enrollment> {
+    const challenge = await this.getChallenge(token);
+    if (challenge.purpose !== 'setup') {
+      throw createError.badRequest('This sign-in does not require two-factor setup');
+    }
+
+    const user = await storage.getUser(challenge.userId);
+    if (!user) {
+      throw createError.unauthorized('Sign-in challenge expired. Please sign in again.');
+    }
+    return this.beginEnrollment(user);
+  }
+
+  // Checks the limit and counts the attempt in one statement, so parallel guesses can't all
+  // pass the check before any of them is counted
+  private async claimAttempt(token: string): Promise<TwoFactorChallenge> {
+    const [challenge] = await db
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(and(
+        eq(twoFactorChallenges.tokenHash, hashValue(token)),
+        lt(twoFactorChallenges.attempts, MAX_CHALLENGE_ATTEMPTS),
+        gt(twoFactorChallenges.expiresAt, new Date())
+      ))
+      .returning();
+
+    if (!challenge) {
+      throw createError.unauthorized('Sign-in challenge expired. Please sign in again.');
+    }
+    return challenge;
+  }
+
+  async completeChallenge(token: string, code: string): Promise<ChallengeResult> {
+    const challenge = await this.claimAttempt(token);
+
+    let result: ChallengeResult;
+    if (challenge.purpose === 'setup') {
+      const recoveryCodes = await this.confirmEnrollment(challenge.userId, code);
+      result = { userId: challenge.userId, rememberMe: challenge.rememberMe, method: 'totp', recoveryCodes };
+    } else {
+      const method = await this.verifySecondFactor(challenge.userId, code);
+      if (!method) {
+        twoFactorLogger.warn('Invalid second factor at sign-in', { userId: challenge.userId, attempt: challenge.attempts });
+        throw createError.unauthorized('Invalid verification code');
+      }
+      result = { userId: challenge.userId, rememberMe: challenge.rememberMe, method };
+    }
+
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.id, challenge.id));
+    return result;
+  }
+
+  private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await db.insert(twoFactorRecoveryCodes).values(
+      codes.map(code => ({ userId, codeHash: hashValue(normalizeRecoveryCode(code)) }))
+    );
+
+    return codes;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
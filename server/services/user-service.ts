@@ -3,7 +3,8 @@ import { createError } from '../utils/error-handler';
 import { handleDatabaseError } from './post-service';
 import { db } from "../db";
 import { users, type User, type InsertUser } from "@shared/schema";
-import { eq, sql, and } from "drizzle-orm";
+import { roleOf, type UserRole } from "@shared/permissions";
+import { eq, sql, and, or } from "drizzle-orm";
 
 const userLogger = createSecureLogger('UserService');
 
@@ -18,6 +19,10 @@ export class UserService {
         username: users.username,
         email: users.email,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         metadata: users.metadata,
         createdAt: users.createdAt
       }).from(users).where(eq(users.id, id)).limit(1);
@@ -38,6 +43,10 @@ export class UserService {
         email: users.email,
         password_hash: users.password_hash,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         metadata: users.metadata,
         createdAt: users.createdAt
       }).from(users).where(eq(sql`LOWER(${users.email})`, email.toLowerCase())).limit(1);
@@ -79,6 +88,10 @@ export class UserService {
         username: users.username,
         email: users.email,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         metadata: users.metadata,
         createdAt: users.createdAt
       });
@@ -112,6 +125,10 @@ export class UserService {
           username: users.username,
           email: users.email,
           isAdmin: users.isAdmin,
+          role: users.role,
+          suspendedUntil: users.suspendedUntil,
+          bannedAt: users.bannedAt,
+          shadowMuted: users.shadowMuted,
           metadata: users.metadata,
           createdAt: users.createdAt
         });
@@ -182,6 +199,10 @@ export class UserService {
         username: users.username,
         email: users.email,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         metadata: users.metadata,
         createdAt: users.createdAt
       }).from(users).where(eq(users.isAdmin, true));
@@ -221,6 +242,10 @@ export class UserService {
           username: users.username,
           email: users.email,
           isAdmin: users.isAdmin,
+          role: users.role,
+          suspendedUntil: users.suspendedUntil,
+          bannedAt: users.bannedAt,
+          shadowMuted: users.shadowMuted,
           metadata: users.metadata,
           createdAt: users.createdAt
         })
@@ -256,6 +281,10 @@ export class UserService {
           username: users.username,
           email: users.email,
           isAdmin: users.isAdmin,
+          role: users.role,
+          suspendedUntil: users.suspendedUntil,
+          bannedAt: users.bannedAt,
+          shadowMuted: users.shadowMuted,
           metadata: users.metadata,
           createdAt: users.createdAt
         });
@@ -267,6 +296,45 @@ export class UserService {
       throw handleDatabaseError(error);
     }
   }
+
+  /**
+   * Change a user's role. The admin flag is kept in step with the admin role, and the
+   * last admin can't be demoted.
+   */
+  async setRole(id: number, role: UserRole): Promise<PublicUser> {
+    const existingUser = await this.getUser(id);
+    if (!existingUser) {
+      throw createError.notFound('User not found');
+    }
+
+    if (roleOf(existingUser) === 'admin' && role !== 'admin') {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(users)
+        .where(or(eq(users.isAdmin, true), eq(users.role, 'admin')));
+      if (count <= 1) {
+        throw createError.badRequest('There must be at least one admin');
+      }
+    }
+
+    const [updatedUser] = await db.update(users)
+      .set({ role, isAdmin: role === 'admin' })
+      .where(eq(users.id, id))
+      .returning({
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
+        metadata: users.metadata,
+        createdAt: users.createdAt
+      });
+
+    userLogger.info('User role changed', { userId: id, from: roleOf(existingUser), to: role });
+    return updatedUser;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,481 @@
+import { createHmac, randomBytes } from 'crypto';
+import { createSecureLogger } from '../utils/secure-logger';
+import { createError } from '../utils/error-handler';
+import { db } from "../db";
+import { storage } from "../storage";
+import {
+  webhooks,
+  webhookDeliveries,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookFormat
+} from "@shared/schema";
+import { eq, and, desc, lte, sql } from "drizzle-orm";
+import { isPublicStory } from './notification-service';
+
+const webhookLogger = createSecureLogger('WebhookService');
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ATTEMPTS = 8;
+// 30s, 1m, 2m, 4m ... capped at 6h
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const DISABLE_AFTER_FAILURES = 15;
+const RESPONSE_BODY_LIMIT = 2000;
+
+// Sent by the "send test" action; not subscribable
+const TEST_EVENT = 'webhook.test';
+
+export interface WebhookInput {
+  name?: string | null;
+  url: string;
+  events: WebhookEvent[];
+  format?: WebhookFormat;
+  active?: boolean;
+}
+
+/** What the admin API returns: the signing secret is only shown on create and rotate */
+export type WebhookView = Omit<Webhook, 'secret'> & { hasSecret: boolean };
+
+interface DeliveryEnvelope {
+  event: string;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+interface PostSummary {
+  id: number;
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  authorId: number;
+  themeCategory?: string | null;
+  isSecret?: boolean | null;
+  metadata?: unknown;
+  publishAt?: Date | null;
+}
+
+interface CommentSummary {
+  id: number;
+  postId: number | null;
+  parentId: number | null;
+  content: string;
+  metadata?: unknown;
+  createdAt?: Date | string | null;
+}
+
+interface AttemptResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+}
+
+function toView(webhook: Webhook): WebhookView {
+  const { secret, ...rest } = webhook;
+  return { ...rest, hasSecret: !!secret };
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+  // Up to 10% jitter so a burst of failures doesn't retry in lockstep
+  return delay + Math.floor(Math.random() * delay * 0.1);
+}
+
+function absoluteUrl(path: unknown): string | undefined {
+  if (typeof path !== 'string' || !path) return undefined;
+  if (/^https?:\/\//.test(path)) return path;
+  const base = process.env.FRONTEND_URL;
+  return base ? `${base.replace(/\/$/, '')}${path}` : undefined;
+}
+
+/**
+ * Receivers verify `X-Webhook-Signature` by computing
+ * HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${raw body}`) and comparing hex digests.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** Discord only accepts its own message shape, so translate the event into a chat message */
+function toDiscordMessage(envelope: DeliveryEnvelope): Record<string, unknown> {
+  const data = envelope.data;
+  const url = absoluteUrl(data.url);
+
+  switch (envelope.event) {
+    case 'post.published':
+    case 'post.updated':
+      return {
+        content: envelope.event === 'post.published' ? 'New story published' : 'Story updated',
+        embeds: [{
+          title: String(data.title ?? 'Untitled'),
+          ...(url ? { url } : {}),
+          ...(data.excerpt ? { description: String(data.excerpt).slice(0, 300) } : {}),
+          timestamp: envelope.occurredAt
+        }]
+      };
+    case 'comment.created':
+      return { content: `New comment${data.postTitle ? ` on "${data.postTitle}"` : ''}: ${String(data.content ?? '').slice(0, 300)}` };
+    case 'comment.flagged':
+      return { content: `Comment #${data.commentId} was flagged for review${data.reason ? `: ${data.reason}` : ''}` };
+    case 'newsletter.subscribed':
+      return { content: 'New newsletter subscriber' };
+    case 'payment.succeeded':
+      return { content: `Payment received: ${data.amount} ${data.currency ?? ''}`.trim() };
+    default:
+      return { content: `Webhook event: ${envelope.event}` };
+  }
+}
+
+export class WebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.processDue();
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+    webhookLogger.info('Webhook delivery worker started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Admin management
+
+  async list(): Promise<WebhookView[]> {
+    const rows = await db.select().from(webhooks).orderBy(desc(webhooks.createdAt));
+    return rows.map(toView);
+  }
+
+  private async getRecord(id: number): Promise<Webhook> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id)).limit(1);
+    if (!webhook) {
+      throw createError.notFound('Webhook not found');
+    }
+    return webhook;
+  }
+
+  async get(id: number): Promise<WebhookView> {
+    return toView(await this.getRecord(id));
+  }
+
+  async create(input: WebhookInput): Promise<{ webhook: WebhookView; secret: string }> {
+    const secret = generateSecret();
+    const webhook = await storage.registerWebhook({
+      name: input.name ?? null,
+      url: input.url,
+      events: input.events,
+      format: input.format ?? 'json',
+      active: input.active ?? true,
+      secret
+    });
+    webhookLogger.info('Webhook registered', { webhookId: webhook.id, events: input.events });
+    return { webhook: toView(webhook), secret };
+  }
+
+  async update(id: number, changes: Partial<WebhookInput>): Promise<WebhookView> {
+    const existing = await this.getRecord(id);
+    // Turning a hook back on gives it a clean failure count
+    const reenabling = changes.active === true && !existing.active;
+
+    const [updated] = await db
+      .update(webhooks)
+      .set({
+        ...(changes.name !== undefined ? { name: changes.name } : {}),
+        ...(changes.url !== undefined ? { url: changes.url } : {}),
+        ...(changes.events !== undefined ? { events: changes.events } : {}),
+        ...(changes.format !== undefined ? { format: changes.format } : {}),
+        ...(changes.active !== undefined ? { active: changes.active } : {}),
+        ...(reenabling ? { consecutiveFailures: 0, disabledAt: null, disabledReason: null } : {})
+      })
+      .where(eq(webhooks.id, id))
+      .returning();
+
+    if (reenabling) this.kick();
+    return toView(updated);
+  }
+
+  async rotateSecret(id: number): Promise<string> {
+    await this.getRecord(id);
+    const secret = generateSecret();
+    await db.update(webhooks).set({ secret }).where(eq(webhooks.id, id));
+    return secret;
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.getRecord(id);
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async listDeliveries(webhookId: number, options: { status?: string; limit: number; offset: number }): Promise<WebhookDelivery[]> {
+    await this.getRecord(webhookId);
+    const conditions = [eq(webhookDeliveries.webhookId, webhookId)];
+    if (options.status) conditions.push(eq(webhookDeliveries.status, options.status));
+
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+  }
+
+  /** Queue a delivery again from scratch, e.g. after the receiver was fixed */
+  async redeliver(webhookId: number, deliveryId: number): Promise<WebhookDelivery> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date(), error: null })
+      .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.webhookId, webhookId)))
+      .returning();
+    if (!delivery) {
+      throw createError.notFound('Delivery not found');
+    }
+    this.kick();
+    return delivery;
+  }
+
+  /** Deliver a test event right away, regardless of subscriptions, and report what the receiver said */
+  async sendTest(id: number): Promise<WebhookDelivery> {
+    const webhook = await this.getRecord(id);
+    const envelope: DeliveryEnvelope = {
+      event: TEST_EVENT,
+      occurredAt: new Date().toISOString(),
+      data: { webhookId: webhook.id, message: 'This is a test delivery' }
+    };
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({ webhookId: webhook.id, event: TEST_EVENT, payload: envelope })
+      .returning();
+
+    // Tests are one-shot: no retries and no effect on the failure count
+    const result = await this.send(webhook, delivery, envelope);
+    const [recorded] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: result.ok ? 'succeeded' : 'failed',
+        attempts: 1,
+        lastAttemptAt: new Date(),
+        responseStatus: result.status,
+        responseBody: result.body,
+        error: result.error,
+        deliveredAt: result.ok ? new Date() : null
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+    return recorded;
+  }
+
+  // Event bus
+
+  /**
+   * Queue an event for every active webhook subscribed to it.
+   * Never throws: a broken webhook must not fail the action that triggered it.
+   */
+  async emit(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const subscribed = (await storage.getActiveWebhooks()).filter(webhook => webhook.events.includes(event));
+      if (subscribed.length === 0) return;
+
+      const envelope: DeliveryEnvelope = { event, occurredAt: new Date().toISOString(), data };
+      await db.insert(webhookDeliveries).values(
+        subscribed.map(webhook => ({ webhookId: webhook.id, event, payload: envelope }))
+      );
+      this.kick();
+    } catch (error) {
+      webhookLogger.error('Failed to queue webhook event', { event, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Typed helpers so call sites don't have to build payloads
+
+  /** Secret, hidden, draft and scheduled stories never leave the site */
+  async postEvent(event: 'post.published' | 'post.updated', post: PostSummary): Promise<void> {
+    if (!isPublicStory(post)) return;
+    await this.emit(event, {
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      url: `/reader/${post.slug}`,
+      excerpt: post.excerpt ?? null,
+      authorId: post.authorId,
+      themeCategory: post.themeCategory ?? null
+    });
+  }
+
+  /** Only call for comments that are publicly visible */
+  async commentCreated(comment: CommentSummary): Promise<void> {
+    const metadata = (comment.metadata || {}) as Record<string, unknown>;
+    await this.emit('comment.created', {
+      id: comment.id,
+      postId: comment.postId,
+      parentId: comment.parentId,
+      author: metadata.author ?? null,
+      content: comment.content,
+      createdAt: comment.createdAt ?? null
+    });
+  }
+
+  private kick(): void {
+    setImmediate(() => {
+      void this.processDue();
+    });
+  }
+
+  // Delivery
+
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let batch: { delivery: WebhookDelivery; webhook: Webhook }[];
+      do {
+        batch = await db
+          .select({ delivery: webhookDeliveries, webhook: webhooks })
+          .from(webhookDeliveries)
+          .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+          .where(and(
+            eq(webhookDeliveries.status, 'pending'),
+            lte(webhookDeliveries.nextAttemptAt, new Date()),
+            eq(webhooks.active, true)
+          ))
+          .orderBy(webhookDeliveries.nextAttemptAt)
+          .limit(BATCH_SIZE);
+
+        for (const { delivery, webhook } of batch) {
+          await this.attempt(webhook, delivery);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } catch (error) {
+      webhookLogger.error('Webhook delivery run failed', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async attempt(webhook: Webhook, delivery: WebhookDelivery): Promise<void> {
+    const result = await this.send(webhook, delivery, delivery.payload as DeliveryEnvelope);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    if (result.ok) {
+      await db.update(webhookDeliveries)
+        .set({
+          status: 'succeeded',
+          attempts,
+          lastAttemptAt: now,
+          deliveredAt: now,
+          responseStatus: result.status,
+          responseBody: result.body,
+          error: null
+        })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      await db.update(webhooks)
+        .set({ consecutiveFailures: 0, lastDeliveryAt: now, lastSuccessAt: now })
+        .where(eq(webhooks.id, webhook.id));
+      return;
+    }
+
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    await db.update(webhookDeliveries)
+      .set({
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: exhausted ? now : new Date(now.getTime() + backoffDelay(attempts)),
+        responseStatus: result.status,
+        responseBody: result.body,
+        error: result.error
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    const [updated] = await db.update(webhooks)
+      .set({ consecutiveFailures: sql`${webhooks.consecutiveFailures} + 1`, lastDeliveryAt: now })
+      .where(eq(webhooks.id, webhook.id))
+      .returning({ consecutiveFailures: webhooks.consecutiveFailures });
+
+    webhookLogger.warn('Webhook delivery failed', {
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      attempts,
+      status: result.status,
+      error: result.error
+    });
+
+    if (updated && updated.consecutiveFailures >= DISABLE_AFTER_FAILURES) {
+      await this.disable(webhook, `Disabled after ${updated.consecutiveFailures} consecutive failed deliveries`);
+    }
+  }
+
+  private async disable(webhook: Webhook, reason: string): Promise<void> {
+    await storage.updateWebhookStatus(webhook.id, false);
+    await db.update(webhooks)
+      .set({ disabledAt: new Date(), disabledReason: reason })
+      .where(eq(webhooks.id, webhook.id));
+
+    webhookLogger.warn('Webhook disabled', { webhookId: webhook.id, reason });
+    try {
+      await storage.createAdminNotification({
+        title: 'Webhook disabled',
+        message: `${webhook.name || webhook.url}: ${reason}. Pending deliveries resume when it is re-enabled.`,
+        type: 'warning'
+      });
+    } catch (error) {
+      webhookLogger.error('Failed to notify admins about disabled webhook', { webhookId: webhook.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async send(webhook: Webhook, delivery: WebhookDelivery, envelope: DeliveryEnvelope): Promise<AttemptResult> {
+    const body = JSON.stringify(webhook.format === 'discord' ? toDiscordMessage(envelope) : envelope);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': "BubblesCafe-Webhooks/1.0",
+      'X-Webhook-Event': envelope.event,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Timestamp': timestamp
+    };
+    if (webhook.secret) {
+      headers['X-Webhook-Signature'] = `sha256=${signPayload(webhook.secret, timestamp, body)}`;
+    }
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      const text = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+      return {
+        ok: response.ok,
+        status: response.status,
+        body: text || null,
+        error: response.ok ? null : `Receiver responded with HTTP ${response.status}`
+      };
+    } catch (error) {
+      const message = error instanceof Error
+        ? (error.name === 'TimeoutError' ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : error.message)
+        : String(error);
+      return { ok: false, status: null, body: null, error: message };
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
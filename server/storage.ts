@@ -15,7 +15,6 @@ import {
   type WritingChallenge, type InsertWritingChallenge,
   type ChallengeEntry, type InsertChallengeEntry,
   type ContentProtection, type InsertContentProtection,
-  type ReportedContent, type InsertReportedContent,
   type AuthorTip, type InsertAuthorTip,
   type Webhook, type InsertWebhook,
   type Analytics,
@@ -41,7 +40,6 @@ import {
   writingChallenges,
   challengeEntries,
   contentProtection,
-  reportedContent,
   authorTips,
   webhooks,
   analytics,
@@ -147,6 +145,7 @@ import { eq, desc, asc, and, or, not, like, lt, gt, gte, sql, avg, count, inArra
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { createLogger } from "./utils/debug-logger";
+import { fingerprintContent, estimateSimilarity } from "./utils/content-fingerprint";
 
 const storageLogger = createLogger('Storage');
 // Redirect all console usage in this module to structured logger
@@ -170,6 +169,8 @@ export interface PostFilters {
   category?: string;
   sort?: string;
   order?: string;
+  includeHidden?: boolean;
+  includeScheduled?: boolean;
 }
 
 export interface IStorage {
@@ -226,7 +227,7 @@ export interface IStorage {
   getComment(id: number): Promise<Comment | undefined>;
 
   // Reading Progress
-  getProgress(postId: number): Promise<ReadingProgress | undefined>;
+  getProgress(userId: number, postId: number): Promise<ReadingProgress | undefined>;
   updateProgress(progress: InsertProgress): Promise<ReadingProgress>;
   
   // Recommendation methods
@@ -278,9 +279,6 @@ export interface IStorage {
   // Content Protection
   addContentProtection(protection: InsertContentProtection): Promise<ContentProtection>;
   checkContentSimilarity(content: string): Promise<boolean>;
-  reportContent(report: InsertReportedContent): Promise<ReportedContent>;
-  getReportedContent(status?: string): Promise<ReportedContent[]>;
-  updateReportedContent(id: number, status: string): Promise<ReportedContent>;
 
   // Tips System
   createTip(tip: InsertAuthorTip): Promise<AuthorTip>;
@@ -522,6 +520,10 @@ export class DatabaseStorage implements IStorage {
         email: users.email,
         password_hash: users.password_hash,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         createdAt: users.createdAt
       })
       .from(users)
@@ -560,6 +562,10 @@ export class DatabaseStorage implements IStorage {
             email: users.email,
             password_hash: users.password_hash,
             isAdmin: users.isAdmin,
+            role: users.role,
+            suspendedUntil: users.suspendedUntil,
+            bannedAt: users.bannedAt,
+            shadowMuted: users.shadowMuted,
             createdAt: users.createdAt
           })
           .from(users)
@@ -604,6 +610,10 @@ export class DatabaseStorage implements IStorage {
             email: users.email,
             password_hash: users.password_hash,
             isAdmin: users.isAdmin,
+            role: users.role,
+            suspendedUntil: users.suspendedUntil,
+            bannedAt: users.bannedAt,
+            shadowMuted: users.shadowMuted,
             metadata: users.metadata,
             createdAt: users.createdAt
           })
@@ -651,6 +661,10 @@ export class DatabaseStorage implements IStorage {
         email: users.email,
         password_hash: users.password_hash,
         isAdmin: users.isAdmin,
+        role: users.role,
+        suspendedUntil: users.suspendedUntil,
+        bannedAt: users.bannedAt,
+        shadowMuted: users.shadowMuted,
         metadata: users.metadata,
         createdAt: users.createdAt
       })
@@ -1220,6 +1234,8 @@ export class DatabaseStorage implements IStorage {
       category?: string;
       sort?: string;
       order?: string;
+      includeHidden?: boolean;
+      includeScheduled?: boolean;
     } = {}
   ): Promise<{ posts: Post[], hasMore: boolean }> {
     return this.safeDbOperation(
@@ -1257,6 +1273,16 @@ export class DatabaseStorage implements IStorage {
             whereConditions.push(eq(postsTable.authorId, filters.authorId));
           }
 
+          // Hidden posts (by an admin, or removed from the WordPress source) stay out of listings
+          if (!filters.includeHidden) {
+            whereConditions.push(sql`(${postsTable.metadata}->>'isHidden') IS DISTINCT FROM 'true'`);
+          }
+
+          // Scheduled stories appear once their publish time has passed
+          if (!filters.includeScheduled) {
+            whereConditions.push(sql`(${postsTable.publishAt} IS NULL OR ${postsTable.publishAt} <= now())`);
+          }
+
           // Query to get posts with proper filtering
           console.log("[Storage] Executing optimized Drizzle query with filters:", filters);
           
@@ -1272,7 +1298,8 @@ export class DatabaseStorage implements IStorage {
             isSecret: postsTable.isSecret,
             matureContent: postsTable.matureContent,
             themeCategory: postsTable.themeCategory,
-            isAdminPost: postsTable.isAdminPost
+            isAdminPost: postsTable.isAdminPost,
+            publishAt: postsTable.publishAt
           })
           .from(postsTable);
           
@@ -1311,7 +1338,8 @@ export class DatabaseStorage implements IStorage {
               themeCategory: (post.themeCategory || (metadata as any).themeCategory || null) as string | null,
               readingTimeMinutes: (typeof (metadata as any).readingTimeMinutes === 'number' ? (metadata as any).readingTimeMinutes : null),
               likesCount: (typeof (metadata as any).likes === 'number' ? (metadata as any).likes : 0),
-              dislikesCount: (typeof (metadata as any).dislikes === 'number' ? (metadata as any).dislikes : 0)
+              dislikesCount: (typeof (metadata as any).dislikes === 'number' ? (metadata as any).dislikes : 0),
+              publishAt: post.publishAt ? new Date(post.publishAt) : null
             } as Post;
           });
           
@@ -1523,6 +1551,7 @@ export class DatabaseStorage implements IStorage {
               likesCount: postsTable.likesCount,
               dislikesCount: postsTable.dislikesCount,
               metadata: postsTable.metadata,
+              publishAt: postsTable.publishAt,
               createdAt: postsTable.createdAt
             })
             .from(postsTable)
@@ -1546,7 +1575,8 @@ export class DatabaseStorage implements IStorage {
             createdAt: safeCreateDate(post.createdAt),
             readingTimeMinutes: (post.readingTimeMinutes as number | null) ?? Math.ceil(String(post.content || '').split(/\s+/).length / 200),
             likesCount: (post.likesCount as number | null) ?? 0,
-            dislikesCount: (post.dislikesCount as number | null) ?? 0
+            dislikesCount: (post.dislikesCount as number | null) ?? 0,
+            publishAt: post.publishAt ?? null
           } as Post;
         } catch (queryError: any) {
           console.log("Initial getPost query failed, trying fallback.", queryError.message);
@@ -1589,7 +1619,8 @@ export class DatabaseStorage implements IStorage {
               createdAt: safeCreateDate(post.created_at),
               readingTimeMinutes: Number(post.reading_time_minutes ?? Math.ceil(String(post.content || '').length / 1000)),
               likesCount: Number(post.likes_count || 0),
-              dislikesCount: Number(post.dislikes_count || 0)
+              dislikesCount: Number(post.dislikes_count || 0),
+              publishAt: null
             };
           } else {
             // If it's another type of error, rethrow it
@@ -1814,7 +1845,7 @@ export class DatabaseStorage implements IStorage {
         SELECT 
           id, content, post_id as "postId", user_id as "userId", 
           is_approved as "approved", edited, edited_at as "editedAt", 
-          metadata, created_at as "createdAt", parent_id as "parentId"
+          metadata, anchor, created_at as "createdAt", parent_id as "parentId"
         FROM comments
         WHERE post_id = ${postId}
         ORDER BY created_at DESC
@@ -1830,7 +1861,8 @@ export class DatabaseStorage implements IStorage {
         is_approved: comment.approved === undefined ? !!comment.is_approved : !!comment.approved,
         edited: !!comment.edited,
         editedAt: comment.editedAt ? safeCreateDate(comment.editedAt) : null,
-        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {})
+        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {}),
+        anchor: comment.anchor ?? null
       }));
     } catch (error) {
       console.error("Error in getComments:", error);
@@ -1845,7 +1877,7 @@ export class DatabaseStorage implements IStorage {
         SELECT 
           id, content, post_id as "postId", user_id as "userId", 
           is_approved as "approved", edited, edited_at as "editedAt", 
-          metadata, created_at as "createdAt", parent_id as "parentId"
+          metadata, anchor, created_at as "createdAt", parent_id as "parentId"
         FROM comments
         ORDER BY created_at DESC
         LIMIT 10
@@ -1861,7 +1893,8 @@ export class DatabaseStorage implements IStorage {
         is_approved: comment.approved === undefined ? !!comment.is_approved : !!comment.approved,
         edited: !!comment.edited,
         editedAt: comment.editedAt ? safeCreateDate(comment.editedAt) : null,
-        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {})
+        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {}),
+        anchor: comment.anchor ?? null
       }));
     } catch (error) {
       console.error("Error in getRecentComments:", error);
@@ -1875,7 +1908,7 @@ export class DatabaseStorage implements IStorage {
         SELECT 
           id, content, post_id as "postId", user_id as "userId", 
           is_approved as "approved", edited, edited_at as "editedAt", 
-          metadata, created_at as "createdAt", parent_id as "parentId"
+          metadata, anchor, created_at as "createdAt", parent_id as "parentId"
         FROM comments
         WHERE is_approved = false
         ORDER BY created_at DESC
@@ -1891,7 +1924,8 @@ export class DatabaseStorage implements IStorage {
         is_approved: comment.approved === undefined ? !!comment.is_approved : !!comment.approved,
         edited: !!comment.edited,
         editedAt: comment.editedAt ? safeCreateDate(comment.editedAt) : null,
-        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {})
+        metadata: typeof comment.metadata === 'string' ? JSON.parse(comment.metadata) : (comment.metadata || {}),
+        anchor: comment.anchor ?? null
       }));
     } catch (error) {
       console.error("Error in getPendingComments:", error);
@@ -1967,7 +2001,7 @@ export class DatabaseStorage implements IStorage {
 
       // Create a direct SQL query to ensure proper column mapping and return data
       const result = await db.execute(sql`
-        INSERT INTO comments (content, post_id, parent_id, user_id, is_approved, metadata, created_at)
+        INSERT INTO comments (content, post_id, parent_id, user_id, is_approved, metadata, anchor, created_at)
         VALUES (
           ${comment.content},
           ${comment.postId},
@@ -1975,11 +2009,12 @@ export class DatabaseStorage implements IStorage {
           ${comment.userId ?? null},
           ${comment.is_approved !== undefined ? comment.is_approved : true},
           ${JSON.stringify({ ...commentMetadata, ownerKey: (comment as any)?.metadata?.ownerKey })},
+          ${comment.anchor ? JSON.stringify(comment.anchor) : null}::jsonb,
           ${new Date()}
         )
         RETURNING id, content, post_id as "postId", user_id as "userId", 
                   is_approved as "approved", parent_id as "parentId", 
-                  metadata, created_at as "createdAt", edited, edited_at as "editedAt";
+                  metadata, anchor, created_at as "createdAt", edited, edited_at as "editedAt";
       `);
       
       const newComment = result.rows[0];
@@ -2006,7 +2041,8 @@ export class DatabaseStorage implements IStorage {
         editedAt: newComment.editedAt ? safeCreateDate(newComment.editedAt) : (newComment.edited_at ? safeCreateDate(newComment.edited_at) : null),
         metadata: typeof (newComment as any).metadata === 'string' 
           ? JSON.parse((newComment as any).metadata) 
-          : ((newComment as any).metadata || {})
+          : ((newComment as any).metadata || {}),
+        anchor: (newComment as any).anchor ?? null
       } as Comment;
     } catch (error) {
       console.error('[Storage] Error creating comment:', error);
@@ -2078,10 +2114,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Reading Progress operations
-  async getProgress(postId: number): Promise<ReadingProgress | undefined> {
+  async getProgress(userId: number, postId: number): Promise<ReadingProgress | undefined> {
     const [progress] = await db.select()
       .from(readingProgress)
-      .where(eq(readingProgress.postId, postId))
+      .where(and(eq(readingProgress.userId, userId), eq(readingProgress.postId, postId)))
       .limit(1);
     return progress;
   }
@@ -2089,6 +2125,10 @@ export class DatabaseStorage implements IStorage {
   async updateProgress(progress: InsertProgress): Promise<ReadingProgress> {
     const [newProgress] = await db.insert(readingProgress)
       .values(progress)
+      .onConflictDoUpdate({
+        target: [readingProgress.userId, readingProgress.postId],
+        set: { ...progress, lastReadAt: progress.lastReadAt ?? new Date() }
+      })
       .returning();
     return newProgress;
   }
@@ -2124,10 +2164,10 @@ export class DatabaseStorage implements IStorage {
       
       if (existingSubscription) {
         if (existingSubscription.status === 'unsubscribed') {
-          // If they were previously unsubscribed, update their status to active
-          return await this.updateNewsletterSubscriptionStatus(subscription.email, 'active');
+          // Coming back needs confirming again, like a new sign-up
+          return await this.updateNewsletterSubscriptionStatus(subscription.email, 'pending');
         }
-        // Return the existing subscription if already active
+        // Return the existing subscription if already active or awaiting confirmation
         return existingSubscription;
       }
       
@@ -2136,7 +2176,8 @@ export class DatabaseStorage implements IStorage {
         .insert(newsletterSubscriptions)
         .values({
           ...subscription,
-          status: 'active',
+          // Activated once the address confirms (double opt-in)
+          status: 'pending',
           metadata: subscription.metadata || {},
           createdAt: new Date(),
           updatedAt: new Date()
@@ -2563,46 +2604,24 @@ export class DatabaseStorage implements IStorage {
     return newProtection;
   }
 
-  async checkContentSimilarity(_content: string): Promise<boolean> {
-    try {
-      // TODO: Implement similarity checking logic
-      console.log('[Storage] Checking content similarity');
-      return Promise.resolve(false);
-    } catch (error) {
-      console.error('[Storage] Error checking content similarity:', error);
-      throw error;
-    }
-  }
-
-  async reportContent(report: InsertReportedContent): Promise<ReportedContent> {
-    const [newReport] = await db.insert(reportedContent)
-      .values({ ...report, createdAt: new Date() })
-      .returning();
-    return newReport;
-  }
-
-  async getReportedContent(status: string = 'pending'): Promise<ReportedContent[]> {
-    return await db.select()
-      .from(reportedContent)
-      .where(eq(reportedContent.status, status))
-      .orderBy(desc(reportedContent.createdAt));
-  }
-
-  async updateReportedContent(id: number, status: string): Promise<ReportedContent> {
+  // Quick yes/no near-duplicate check; PlagiarismService produces the detailed report
+  async checkContentSimilarity(content: string): Promise<boolean> {
     try {
-      console.log(`[Storage] Updating reported content ${id} to status: ${status}`);
-      const [updatedReport] = await db.update(reportedContent)
-        .set({ status })
-        .where(eq(reportedContent.id, id))
-        .returning();
-
-      if (!updatedReport) {
-        throw new Error("Reported content not found");
-      }
+      const fingerprint = fingerprintContent(content);
+      if (!fingerprint) return false;
+
+      const candidates = await db.select({ hash: contentProtection.hash, signature: contentProtection.signature })
+        .from(contentProtection)
+        .where(or(
+          eq(contentProtection.hash, fingerprint.hash),
+          sql`${contentProtection.bands} && ARRAY[${sql.join(fingerprint.bands.map(band => sql`${band}`), sql`, `)}]::text[]`
+        ))
+        .limit(200);
 
-      return updatedReport;
+      return candidates.some(candidate =>
+        candidate.hash === fingerprint.hash || estimateSimilarity(fingerprint.signature, candidate.signature ?? []) >= 0.5);
     } catch (error) {
-      console.error('[Storage] Error updating reported content:', error);
+      console.error('[Storage] Error checking content similarity:', error);
       throw error;
     }
   }
@@ -2839,6 +2858,26 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getSiteSettingByKey(key: string): Promise<SiteSetting | undefined> {
+    const [setting] = await db.select()
+      .from(siteSettings)
+      .where(eq(siteSettings.key, key))
+      .limit(1);
+    return setting;
+  }
+
+  // Insert-or-update, for settings that are created on first use
+  async setSiteSetting(key: string, value: string, category: string, description?: string): Promise<SiteSetting> {
+    const [setting] = await db.insert(siteSettings)
+      .values({ key, value, category, description: description || null, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: siteSettings.key,
+        set: { value, updatedAt: new Date() }
+      })
+      .returning();
+    return setting;
+  }
+
   // Activity logging
   async logActivity(activity: InsertActivityLog): Promise<ActivityLog> {
     const [newActivity] = await db.insert(activityLogs)
@@ -1,42 +1,268 @@
-// Create a utility file for comment moderation
-const bannedWordsRegex = new RegExp(
-  "\\b(" +
-    // Profanity & Swearing
-    "(f+u+c+k+|s+h+i+t+|b+i+t+c+h+|a+s+s+h+o+l+e+|c+u+n+t+|m+o+t+h+e+r+f+u+c+k+e+r+|d+i+c+k+|p+u+s+s+y+|t+w+a+t+|b+a+s+t+a+r+d+|w+h+o+r+e+|s+l+u+t+)" +
-    
-    "|" + 
-    // Hate Speech & Discrimination
-    "(n+i+g+g+e+r+|c+h+i+n+k+|s+p+i+c+|k+i+k+e+|f+a+g+g+o+t+|t+r+a+n+n+y+|r+e+t+a+r+d+|g+y+p+s+y+|s+a+n+d+n+i+g+g+e+r+)" +
-
-    "|" + 
-    // Harassment & Threats
-    "(kill(\\s*yourself|\\s*him|\\s*her)|d+o+x+|i+\\s*h+o+p+e+\\s*y+o+u+\\s*d+i+e+|y+o+u+\\s*s+h+o+u+l+d+\\s*k+i+l+l+\\s*y+o+u+r+s+e+l+f+|c+o+m+m+i+t+\\s*s+u+i+c+i+d+e+)" +
-
-    "|" + 
-    // Spam & Scams
-    "(b+u+y+\\s*n+o+w+|c+l+i+c+k+\\s*h+e+r+e+|v+i+s+i+t+\\s*m+y+\\s*s+i+t+e+|f+r+e+e+\\s*m+o+n+e+y+|s+e+x+y+\\s*g+i+r+l+s+|f+r+e+e+\\s*g+i+f+t+\\s*c+a+r+d+|c+h+e+a+p+\\s*d+r+u+g+s+)" +
-
-    "|" +
-    // NSFW, Gore, & Exploitation
-    "(p+o+r+n+|r+a+p+e+|c+h+i+l+d+\\s+p+o+r+n+|b+e+h+e+a+d+|m+u+r+d+e+r+|b+l+o+o+d+|s+n+u+f+f+)" +
-
-    "|" +
-    // Misinformation & Dangerous Content
-    "(d+r+i+n+k+\\s*b+l+e+a+c+h+|v+a+c+c+i+n+e+s+\\s*c+a+u+s+e+\\s*a+u+t+i+s+m+|c+o+v+i+d+\\s*i+s+\\s*f+a+k+e+)" +
-  ")\\b", "i"
-);
-
-export const moderateComment = (text: string): { 
-  isBlocked: boolean; 
-  moderatedText: string;
-} => {
-  const hasInappropriateContent = bannedWordsRegex.test(text);
-  const moderatedText = hasInappropriateContent ? 
-    text.replace(bannedWordsRegex, match => "*".repeat(match.length)) : 
-    text;
+// Rule evaluation for user-generated content.
+// Rules and allowlists are stored in the database (see moderation-service);
+// this module only knows how to apply them to a piece of text.
+
+export type ModerationAction = 'hold' | 'mask' | 'reject' | 'shadow_hide';
+export type ModerationRuleType = 'word_list' | 'regex' | 'link_limit' | 'new_account';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['hold', 'mask', 'reject', 'shadow_hide'];
+export const MODERATION_RULE_TYPES: ModerationRuleType[] = ['word_list', 'regex', 'link_limit', 'new_account'];
+
+export interface ModerationRuleConfig {
+  words?: string[];
+  pattern?: string;
+  flags?: string;
+  maxLinks?: number;
+  minAccountAgeHours?: number;
+  includeAnonymous?: boolean;
+}
+
+export interface EvaluableRule {
+  id?: number;
+  name: string;
+  type: ModerationRuleType;
+  action: ModerationAction;
+  config: ModerationRuleConfig;
+}
+
+export interface ModerationContext {
+  contentType: 'comment' | 'post';
+  themeCategory?: string | null;
+  isAnonymous?: boolean;
+  accountCreatedAt?: Date | null;
+}
+
+export interface RuleHit {
+  ruleId?: number;
+  ruleName: string;
+  action: ModerationAction;
+  matched: string[];
+  reason: string;
+}
+
+export interface ModerationResult {
+  // Strongest action among the rules that fired, or null when the content is clean
+  action: ModerationAction | null;
+  text: string;
+  hits: RuleHit[];
+}
+
+// Higher wins when several rules fire on the same content
+const ACTION_PRECEDENCE: Record<ModerationAction, number> = {
+  mask: 1,
+  shadow_hide: 2,
+  hold: 3,
+  reject: 4
+};
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "blood" also matches "bloooood"; spaces inside a phrase match any whitespace run
+function wordPattern(word: string): string {
+  return word
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map(part => Array.from(part).map(ch => `${escapeRegex(ch)}+`).join(''))
+    .join('\\s*');
+}
+
+// Collapse repeated letters so stretched spellings compare equal to allowlist terms
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, ' ').trim().replace(/(.)\1+/g, '$1');
+}
+
+export function compileRuleRegex(rule: Pick<EvaluableRule, 'type' | 'config'>): RegExp | null {
+  if (rule.type === 'word_list') {
+    const words = (rule.config.words || []).filter(w => w && w.trim().length > 0);
+    if (words.length === 0) return null;
+    return new RegExp(`\\b(?:${words.map(wordPattern).join('|')})\\b`, 'gi');
+  }
+  if (rule.type === 'regex') {
+    if (!rule.config.pattern) return null;
+    const flags = new Set((rule.config.flags || 'i').replace(/[^imsu]/g, ''));
+    flags.add('g');
+    return new RegExp(rule.config.pattern, Array.from(flags).join(''));
+  }
+  return null;
+}
+
+/**
+ * Contexts whose allowlist entries apply to the given content:
+ * 'global', the content type, and 'theme:<category>' for the parent story's theme.
+ */
+export function allowlistContextsFor(context: ModerationContext): string[] {
+  const contexts = ['global', context.contentType];
+  if (context.themeCategory) {
+    contexts.push(`theme:${context.themeCategory.toLowerCase()}`);
+  }
+  return contexts;
+}
+
+function evaluateRule(
+  rule: EvaluableRule,
+  text: string,
+  allowed: Set<string>,
+  context: ModerationContext
+): RuleHit | null {
+  switch (rule.type) {
+    case 'word_list':
+    case 'regex': {
+      let regex: RegExp | null;
+      try {
+        regex = compileRuleRegex(rule);
+      } catch {
+        return null;
+      }
+      if (!regex) return null;
+
+      const matched = Array.from(text.matchAll(regex))
+        .map(m => m[0])
+        .filter(m => m.length > 0 && !allowed.has(normalizeTerm(m)));
+      if (matched.length === 0) return null;
+
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        action: rule.action,
+        matched: Array.from(new Set(matched)),
+        reason: `Matched ${rule.type === 'regex' ? 'pattern' : 'word list'} "${rule.name}"`
+      };
+    }
+    case 'link_limit': {
+      const links = text.match(LINK_PATTERN) || [];
+      const maxLinks = rule.config.maxLinks ?? 0;
+      if (links.length <= maxLinks) return null;
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        action: rule.action,
+        matched: links,
+        reason: `Contains ${links.length} links (limit ${maxLinks})`
+      };
+    }
+    case 'new_account': {
+      if (context.isAnonymous || !context.accountCreatedAt) {
+        if (!rule.config.includeAnonymous) return null;
+        return {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          action: rule.action,
+          matched: [],
+          reason: 'Posted without an account'
+        };
+      }
+      const minHours = rule.config.minAccountAgeHours ?? 24;
+      const ageHours = (Date.now() - context.accountCreatedAt.getTime()) / 3_600_000;
+      if (ageHours >= minHours) return null;
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        action: rule.action,
+        matched: [],
+        reason: `Account is ${Math.floor(ageHours)}h old (minimum ${minHours}h)`
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function maskMatches(text: string, terms: string[]): string {
+  if (terms.length === 0) return text;
+  const regex = new RegExp(terms.map(escapeRegex).sort((a, b) => b.length - a.length).join('|'), 'g');
+  return text.replace(regex, match => '*'.repeat(match.length));
+}
+
+export function evaluateContent(
+  text: string,
+  rules: EvaluableRule[],
+  allowlist: string[],
+  context: ModerationContext
+): ModerationResult {
+  const allowed = new Set(allowlist.map(normalizeTerm));
+  const hits: RuleHit[] = [];
+
+  for (const rule of rules) {
+    const hit = evaluateRule(rule, text, allowed, context);
+    if (hit) hits.push(hit);
+  }
+
+  const action = hits.reduce<ModerationAction | null>(
+    (strongest, hit) => !strongest || ACTION_PRECEDENCE[hit.action] > ACTION_PRECEDENCE[strongest] ? hit.action : strongest,
+    null
+  );
+
+  // Masking is applied alongside hold/shadow-hide so the text is safe if a reviewer approves it
+  const maskTerms = hits.filter(h => h.action === 'mask').flatMap(h => h.matched);
 
   return {
-    isBlocked: hasInappropriateContent,
-    moderatedText
+    action,
+    text: action === 'reject' ? text : maskMatches(text, maskTerms),
+    hits
   };
+}
+
+// Seeded into an empty database; mirrors the categories of the original hardcoded filter
+export const DEFAULT_MODERATION_RULE_SET = {
+  name: 'Community defaults',
+  description: 'Baseline comment filters. Edit or disable individual rules as needed.',
+  context: 'comment',
+  rules: [
+    {
+      name: 'Profanity',
+      type: 'word_list',
+      action: 'mask',
+      config: { words: ['fuck', 'shit', 'bitch', 'asshole', 'cunt', 'motherfucker', 'dick', 'pussy', 'twat', 'bastard', 'whore', 'slut'] }
+    },
+    {
+      name: 'Hate speech',
+      type: 'word_list',
+      action: 'hold',
+      config: { words: ['nigger', 'chink', 'spic', 'kike', 'faggot', 'tranny', 'retard', 'gypsy', 'sandnigger'] }
+    },
+    {
+      name: 'Harassment and threats',
+      type: 'regex',
+      action: 'hold',
+      config: { pattern: '\\b(kill\\s*(yourself|him|her)|dox+|i\\s*hope\\s*you\\s*die|you\\s*should\\s*kill\\s*yourself|commit\\s*suicide)\\b', flags: 'i' }
+    },
+    {
+      name: 'Spam phrases',
+      type: 'word_list',
+      action: 'hold',
+      config: { words: ['buy now', 'click here', 'visit my site', 'free money', 'sexy girls', 'free gift card', 'cheap drugs'] }
+    },
+    {
+      name: 'Link limit',
+      type: 'link_limit',
+      action: 'hold',
+      config: { maxLinks: 2 }
+    },
+    {
+      name: 'Graphic and exploitative content',
+      type: 'word_list',
+      action: 'hold',
+      config: { words: ['porn', 'rape', 'child porn', 'behead', 'murder', 'blood', 'snuff'] }
+    },
+    {
+      name: 'Dangerous misinformation',
+      type: 'word_list',
+      action: 'hold',
+      config: { words: ['drink bleach', 'vaccines cause autism', 'covid is fake'] }
+    }
+  ] as Array<Omit<EvaluableRule, 'id'>>,
+  // Horror fiction is discussed in these terms; keep them out of the graphic-content rule
+  allowlist: ['blood', 'murder', 'behead']
 };
+
+/**
+ * Evaluate text against the built-in default rules only.
+ * Used when the rule tables cannot be read.
+ */
+export const moderateComment = (text: string, context: ModerationContext = { contentType: 'comment' }): ModerationResult =>
+  evaluateContent(text, DEFAULT_MODERATION_RULE_SET.rules, DEFAULT_MODERATION_RULE_SET.allowlist, context);
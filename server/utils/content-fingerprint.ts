@@ -0,0 +1,184 @@
+// Near-duplicate detection: word shingles, MinHash signatures and LSH banding.
+// Two texts' Jaccard similarity is estimated by the share of signature slots that agree;
+// texts sharing any band key are candidates worth comparing exactly.
+
+import { createHash } from 'crypto';
+import { stripHtml } from './sanitizer';
+
+export const SHINGLE_SIZE = 5;
+export const SIGNATURE_SIZE = 128;
+// 32 bands of 4 rows: pairs around 0.4 Jaccard or above almost always share a band
+export const BAND_COUNT = 32;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BAND_COUNT;
+
+interface Token {
+  raw: string;
+  norm: string;
+}
+
+export interface Fingerprint {
+  hash: string;
+  signature: number[];
+  bands: string[];
+  shingleCount: number;
+}
+
+// Fixed seeds so signatures stay comparable across restarts (splitmix32)
+const SEEDS: number[] = (() => {
+  const seeds: number[] = [];
+  let state = 0x9e3779b9;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    seeds.push((z ^ (z >>> 16)) >>> 0);
+  }
+  return seeds;
+})();
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer, used as the family of hash permutations
+function mix(value: number): number {
+  let h = value;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function tokenize(text: string): Token[] {
+  return stripHtml(text)
+    .split(/\s+/)
+    .map(raw => ({ raw, norm: raw.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/^'+|'+$/g, '') }))
+    .filter(token => token.norm.length > 0);
+}
+
+/** Overlapping runs of SHINGLE_SIZE words; very short texts become a single shingle */
+function shingles(tokens: Token[]): string[] {
+  if (tokens.length === 0) return [];
+  if (tokens.length < SHINGLE_SIZE) return [tokens.map(token => token.norm).join(' ')];
+
+  const result: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.push(tokens.slice(i, i + SHINGLE_SIZE).map(token => token.norm).join(' '));
+  }
+  return result;
+}
+
+export function fingerprintContent(text: string): Fingerprint | null {
+  const tokens = tokenize(text);
+  const unique = new Set(shingles(tokens).map(fnv1a));
+  if (unique.size === 0) return null;
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of unique) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  const bands: string[] = [];
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    bands.push(`${band}:${fnv1a(rows.join(',')).toString(36)}`);
+  }
+
+  return {
+    hash: createHash('sha256').update(tokens.map(token => token.norm).join(' ')).digest('hex'),
+    signature,
+    bands,
+    shingleCount: unique.size
+  };
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let agree = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) agree++;
+  }
+  return agree / a.length;
+}
+
+export interface Overlap {
+  /** Jaccard similarity of the two shingle sets */
+  score: number;
+  /** Share of the submission's shingles found in the other text */
+  containment: number;
+  passages: Array<{ text: string; matchedText: string; words: number }>;
+}
+
+function passageText(tokens: Token[], start: number, end: number, maxLength: number): string {
+  const text = tokens.slice(start, end).map(token => token.raw).join(' ');
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Exact comparison of a submission against one candidate, including the longest
+ * stretches of shared wording in both texts.
+ */
+export function compareContent(submitted: string, candidate: string, options: { maxPassages?: number; maxLength?: number } = {}): Overlap {
+  const maxPassages = options.maxPassages ?? 5;
+  const maxLength = options.maxLength ?? 400;
+
+  const ours = tokenize(submitted);
+  const theirs = tokenize(candidate);
+  const ourShingles = shingles(ours);
+  const theirShingles = shingles(theirs);
+  const ourSet = new Set(ourShingles);
+  const theirSet = new Set(theirShingles);
+  if (ourSet.size === 0 || theirSet.size === 0) return { score: 0, containment: 0, passages: [] };
+
+  let shared = 0;
+  for (const shingle of ourSet) {
+    if (theirSet.has(shingle)) shared++;
+  }
+
+  // Where each shared shingle first starts in the candidate, to quote the matching wording
+  const theirPositions = new Map<string, number>();
+  theirShingles.forEach((shingle, index) => {
+    if (!theirPositions.has(shingle)) theirPositions.set(shingle, index);
+  });
+
+  // Merge shared shingles that run on in both texts into passages
+  const ranges: Array<{ start: number; end: number; matchStart: number; matchEnd: number; lastIndex: number; lastMatch: number }> = [];
+  ourShingles.forEach((shingle, index) => {
+    const matchIndex = theirPositions.get(shingle);
+    if (matchIndex === undefined) return;
+    const end = Math.min(index + SHINGLE_SIZE, ours.length);
+    const matchEnd = Math.min(matchIndex + SHINGLE_SIZE, theirs.length);
+    const last = ranges[ranges.length - 1];
+    if (last && index === last.lastIndex + 1 && matchIndex === last.lastMatch + 1) {
+      last.end = end;
+      last.matchEnd = matchEnd;
+      last.lastIndex = index;
+      last.lastMatch = matchIndex;
+    } else {
+      ranges.push({ start: index, end, matchStart: matchIndex, matchEnd, lastIndex: index, lastMatch: matchIndex });
+    }
+  });
+
+  const passages = ranges
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .slice(0, maxPassages)
+    .map(range => ({
+      text: passageText(ours, range.start, range.end, maxLength),
+      matchedText: passageText(theirs, range.matchStart, range.matchEnd, maxLength),
+      words: range.end - range.start
+    }));
+
+  return {
+    score: shared / (ourSet.size + theirSet.size - shared),
+    containment: shared / ourSet.size,
+    passages
+  };
+}
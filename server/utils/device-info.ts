@@ -0,0 +1,67 @@
+// Human-readable device and place for a session: browser and OS from the user agent, and a
+// rough location from the IP address using geoip-lite's bundled (offline) database.
+
+import UAParser from 'ua-parser-js';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  type: DeviceType;
+  // e.g. "Firefox on Windows"
+  label: string;
+}
+
+export function describeDevice(userAgent: string | null | undefined): DeviceInfo {
+  const result = new UAParser(userAgent || '').getResult();
+  const browser = result.browser.name || null;
+  const os = result.os.name ? [result.os.name, result.os.version].filter(Boolean).join(' ') : null;
+  const type: DeviceType = result.device.type === 'mobile' ? 'mobile'
+    : result.device.type === 'tablet' ? 'tablet'
+    : 'desktop';
+
+  const label = browser && os ? `${browser} on ${os}`
+    : browser || os || (userAgent ? 'Unknown browser' : 'Unknown device');
+  return { browser, os, type, label };
+}
+
+// The city database takes a while to load and a fair amount of memory, so it is only read
+// the first time an address needs looking up
+let geoip: Promise<typeof import('geoip-lite')> | null = null;
+
+let regionNames: Intl.DisplayNames | null = null;
+function countryName(code: string): string {
+  try {
+    regionNames ??= new Intl.DisplayNames(['en'], { type: 'region' });
+    return regionNames.of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+async function lookup(ipAddress: string | null | undefined) {
+  if (!ipAddress) return null;
+  // Express reports IPv4 clients on a dual-stack socket as ::ffff:a.b.c.d
+  const ip = ipAddress.replace(/^::ffff:/, '');
+  try {
+    geoip ??= import('geoip-lite').then(module => (module as any).default ?? module);
+    const found = (await geoip).lookup(ip);
+    return found && found.country ? found : null;
+  } catch {
+    return null;
+  }
+}
+
+/** "City, Country" for a public IP address, or null for private and unknown ones */
+export async function approximateLocation(ipAddress: string | null | undefined): Promise<string | null> {
+  const found = await lookup(ipAddress);
+  if (!found) return null;
+  return [found.city, countryName(found.country)].filter(Boolean).join(', ');
+}
+
+/** ISO country code for a public IP address, or null for private and unknown ones */
+export async function countryOf(ipAddress: string | null | undefined): Promise<string | null> {
+  const found = await lookup(ipAddress);
+  return found ? found.country : null;
+}
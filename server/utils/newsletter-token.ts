@@ -0,0 +1,40 @@
+// Signed tokens for newsletter links (double opt-in confirmation, unsubscribe). A token is
+// `<subscription id>.<expiry>.<signature>`; the signature also covers the purpose and the
+// address, so a confirmation link can't be replayed as an unsubscribe link or for another row.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import type { NewsletterSubscription } from '@shared/schema';
+
+export type NewsletterTokenPurpose = 'confirm' | 'unsubscribe';
+
+type TokenSubject = Pick<NewsletterSubscription, 'id' | 'email'>;
+
+function sign(purpose: NewsletterTokenPurpose, subscription: TokenSubject, expiry: string): string {
+  const secret = process.env.NEWSLETTER_SECRET || config.session.secret;
+  return createHmac('sha256', secret)
+    .update(`${purpose}:${subscription.id}:${expiry}:${subscription.email.toLowerCase()}`)
+    .digest('base64url');
+}
+
+/** Omit ttlMs for links that never expire, like unsubscribe links in sent newsletters */
+export function createNewsletterToken(purpose: NewsletterTokenPurpose, subscription: TokenSubject, ttlMs?: number): string {
+  const expiry = ttlMs ? Math.floor((Date.now() + ttlMs) / 1000).toString(36) : '0';
+  return `${subscription.id}.${expiry}.${sign(purpose, subscription, expiry)}`;
+}
+
+/** Subscription id a token claims to be for; only trust it after verifyNewsletterToken */
+export function newsletterTokenSubscriptionId(token: string): number | null {
+  const id = Number(token.split('.')[0]);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export function verifyNewsletterToken(token: string, purpose: NewsletterTokenPurpose, subscription: TokenSubject): boolean {
+  const [id, expiry, signature] = token.split('.');
+  if (!signature || Number(id) !== subscription.id) return false;
+  if (expiry !== '0' && parseInt(expiry, 36) * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(sign(purpose, subscription, expiry));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
@@ -0,0 +1,143 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff between two versions of a story. Lines are matched first, then lines that
+ * were replaced are compared word by word, which keeps the work small for long stories
+ * where only a few paragraphs changed.
+ */
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface TextDiff {
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+// Above this many LCS cells, fall back to replacing the changed region wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { type: DiffSegmentType; index: number };
+
+/** Longest-common-subsequence edit script between two token lists */
+function diffTokens(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', index: i });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ type: 'delete', index: i });
+    for (let j = start; j < endB; j++) ops.push({ type: 'insert', index: j });
+  } else {
+    // lengths[i][j] = LCS of a[start+i..endA) and b[start+j..endB)
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        ops.push({ type: 'equal', index: start + i });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push({ type: 'delete', index: start + i++ });
+      } else {
+        ops.push({ type: 'insert', index: start + j++ });
+      }
+    }
+    while (i < n) ops.push({ type: 'delete', index: start + i++ });
+    while (j < m) ops.push({ type: 'insert', index: start + j++ });
+  }
+
+  for (let i = endA; i < a.length; i++) ops.push({ type: 'equal', index: i });
+  return ops;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function push(segments: DiffSegment[], type: DiffSegmentType, text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+function diffWords(before: string, after: string, segments: DiffSegment[]): void {
+  // Keep whitespace as tokens so the output reassembles to the original text
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  for (const op of diffTokens(a, b)) {
+    push(segments, op.type, op.type === 'insert' ? b[op.index] : a[op.index]);
+  }
+}
+
+/**
+ * Compare two texts
+ *
+ * @param before Older version
+ * @param after Newer version
+ * @returns Segments that rebuild `before` (equal + delete) and `after` (equal + insert), with word counts
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const a = before.split('\n').map((line, index, lines) => index < lines.length - 1 ? `${line}\n` : line);
+  const b = after.split('\n').map((line, index, lines) => index < lines.length - 1 ? `${line}\n` : line);
+  const segments: DiffSegment[] = [];
+
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+  const flush = () => {
+    // Replaced lines are compared word by word, pairwise; any surplus is whole-line
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < paired; k++) diffWords(deleted[k], inserted[k], segments);
+    for (const line of deleted.slice(paired)) push(segments, 'delete', line);
+    for (const line of inserted.slice(paired)) push(segments, 'insert', line);
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of diffTokens(a, b)) {
+    if (op.type === 'equal') {
+      flush();
+      push(segments, 'equal', a[op.index]);
+    } else if (op.type === 'delete') {
+      deleted.push(a[op.index]);
+    } else {
+      inserted.push(b[op.index]);
+    }
+  }
+  flush();
+
+  return {
+    segments,
+    wordsAdded: segments.filter(segment => segment.type === 'insert').reduce((sum, segment) => sum + countWords(segment.text), 0),
+    wordsRemoved: segments.filter(segment => segment.type === 'delete').reduce((sum, segment) => sum + countWords(segment.text), 0)
+  };
+}
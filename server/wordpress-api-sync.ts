@@ -1,6 +1,13 @@
+import { createHash } from 'crypto';
 import { db } from './db';
-import { posts, users } from '@shared/schema';
-import { eq, sql } from 'drizzle-orm';
+import { storage } from './storage';
+import { config } from './config';
+import { webhookService } from './services/webhook-service';
+import { plagiarismService } from './services/plagiarism-service';
+import { annotationService } from './services/annotation-service';
+import { notificationService } from './services/notification-service';
+import { posts, users, wordpressSyncRuns, wordpressSyncItems, type WordPressSyncRun, type WordPressSyncItem } from '@shared/schema';
+import { and, desc, eq, lt, sql } from 'drizzle-orm';
 
 interface WordPressPost {
   id: number;
@@ -16,22 +23,83 @@ interface WordPressPost {
   status: string;
   type: string;
   modified: string;
+  modified_gmt: string;
 }
 
-// Removed unused WordPressAuthor interface
+export type SyncTrigger = 'scheduled' | 'manual' | 'retry' | 'initial';
+export type SyncMode = 'incremental' | 'full';
+type SyncOutcome = 'created' | 'updated' | 'unchanged' | 'removed' | 'restored' | 'failed';
+
+interface RunCounters {
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+}
+
+const POST_FIELDS = 'id,date,slug,title,content,excerpt,author,categories,tags,featured_media,status,type,modified,modified_gmt';
+
+// Site settings used by the sync
+const SOURCE_URL_SETTING = 'wordpress_source_url';
+const CURSOR_SETTING = 'wordpress_sync_cursor';
+const LAST_SYNC_SETTING = 'last_wordpress_sync';
+
+// modified_after is compared against the site's local time on some hosts; re-reading a
+// day of overlap is cheap because unchanged posts are skipped by content hash
+const CURSOR_OVERLAP_MS = 24 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+// Runs still marked running from before this process started were cut off by a restart
+const PROCESS_STARTED_AT = new Date();
 
 export class WordPressAPISync {
-  private readonly baseUrl = 'https://public-api.wordpress.com/wp/v2/sites/bubbleteameimei.wordpress.com';
   private readonly batchSize = 20;
+  private activeRunId: number | null = null;
+  // Set while a run's row is being created, before its id is known
+  private starting = false;
 
-  async syncAllPosts(): Promise<{ success: boolean; synced: number; errors: any[] }> {
-    console.log('[WordPress Sync] Starting comprehensive sync...');
-    
-    let synced = 0;
-    let page = 1;
-    const errors: any[] = [];
-    let hasMore = true;
+  isRunning(): boolean {
+    return this.starting || this.activeRunId !== null;
+  }
+
+  /**
+   * Base REST URL of the source site, e.g. https://example.com/wp-json/wp/v2
+   */
+  async getSourceUrl(): Promise<string> {
+    const setting = await storage.getSiteSettingByKey(SOURCE_URL_SETTING);
+    const url = setting?.value || config.wordpress.apiUrl;
+    return url.replace(/\/+$/, '').replace(/\/posts$/, '');
+  }
+
+  /**
+   * Point the sync at a different site. The cursor is reset so the next run is a full walk.
+   */
+  async setSourceUrl(url: string): Promise<string> {
+    const normalized = url.replace(/\/+$/, '').replace(/\/posts$/, '');
+    await this.fetchJson<WordPressPost[]>(`${normalized}/posts?per_page=1&_fields=id`);
+    await storage.setSiteSetting(SOURCE_URL_SETTING, normalized, 'wordpress', 'WordPress REST API base URL to sync posts from');
+    await storage.setSiteSetting(CURSOR_SETTING, '', 'wordpress', 'Latest modified_gmt seen by the WordPress sync');
+    return normalized;
+  }
+
+  private async getCursor(): Promise<Date | null> {
+    const setting = await storage.getSiteSettingByKey(CURSOR_SETTING);
+    if (!setting?.value) return null;
+    const cursor = new Date(setting.value);
+    return isNaN(cursor.getTime()) ? null : cursor;
+  }
+
+  private async fetchJson<T>(url: string): Promise<{ data: T; totalPages: number }> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`WordPress API error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json() as T;
+    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1');
+    return { data, totalPages };
+  }
 
+  private async getAdminUserId(): Promise<number> {
     // Get or create admin user for WordPress posts
     let adminUser = await db.select().from(users).where(eq(users.email, 'admin@storytelling.com')).limit(1);
     if (adminUser.length === 0) {
@@ -48,62 +116,189 @@ export class WordPressAPISync {
       }).returning();
       adminUser = [newAdmin];
     }
+    return adminUser[0].id;
+  }
 
-    const adminUserId = adminUser[0].id;
+  private async startRun(trigger: SyncTrigger, mode: string, cursorStart: Date | null, retryOfRunId?: number): Promise<WordPressSyncRun> {
+    if (this.isRunning()) {
+      throw new Error('WordPress sync already in progress');
+    }
+    // Claimed before the first await so a second trigger can't slip in
+    this.starting = true;
 
-    while (hasMore) {
-      try {
-        console.log(`[WordPress Sync] Fetching page ${page}...`);
-        
-        const response = await fetch(
-          `${this.baseUrl}/posts?page=${page}&per_page=${this.batchSize}&status=publish&_fields=id,date,slug,title,content,excerpt,author,categories,tags,featured_media,status,type,modified`
-        );
+    try {
+      // Runs left 'running' by a previous process never finished
+      await db.update(wordpressSyncRuns)
+        .set({ status: 'interrupted', finishedAt: new Date() })
+        .where(and(eq(wordpressSyncRuns.status, 'running'), lt(wordpressSyncRuns.startedAt, PROCESS_STARTED_AT)));
+
+      const [run] = await db.insert(wordpressSyncRuns).values({
+        trigger,
+        mode,
+        sourceUrl: await this.getSourceUrl(),
+        cursorStart,
+        retryOfRunId: retryOfRunId ?? null
+      }).returning();
+      this.activeRunId = run.id;
+      return run;
+    } finally {
+      this.starting = false;
+    }
+  }
 
-        if (!response.ok) {
-          throw new Error(`WordPress API error: ${response.status} ${response.statusText}`);
-        }
+  private async finishRun(runId: number, counters: RunCounters, cursorEnd: Date | null, runError: string | null): Promise<WordPressSyncRun> {
+    const processed = counters.created + counters.updated + counters.unchanged + counters.removed;
+    const status = runError
+      ? (processed > 0 ? 'partial' : 'error')
+      : (counters.failed > 0 ? 'partial' : 'success');
 
-        const wpPosts: WordPressPost[] = await response.json();
-        
-        if (wpPosts.length === 0) {
-          hasMore = false;
-          break;
-        }
+    try {
+      const [run] = await db.update(wordpressSyncRuns)
+        .set({
+          status,
+          cursorEnd,
+          createdCount: counters.created,
+          updatedCount: counters.updated,
+          unchangedCount: counters.unchanged,
+          removedCount: counters.removed,
+          failedCount: counters.failed,
+          error: runError,
+          finishedAt: new Date()
+        })
+        .where(eq(wordpressSyncRuns.id, runId))
+        .returning();
+      await storage.setSiteSetting(LAST_SYNC_SETTING, Date.now().toString(), 'wordpress', 'Time of the last WordPress sync run');
+      console.log(`[WordPress Sync] Run ${runId} ${status}: ${counters.created} created, ${counters.updated} updated, ${counters.unchanged} unchanged, ${counters.removed} removed, ${counters.failed} failed`);
+      return run;
+    } finally {
+      this.activeRunId = null;
+    }
+  }
+
+  private async recordItem(runId: number, wordpressId: number, outcome: SyncOutcome, details: { postId?: number | null; title?: string | null; error?: string } = {}): Promise<void> {
+    await db.insert(wordpressSyncItems).values({
+      runId,
+      wordpressId,
+      outcome,
+      postId: details.postId ?? null,
+      title: details.title ?? null,
+      error: details.error ?? null
+    });
+  }
 
-        // Process each post
-        for (const wpPost of wpPosts) {
-          try {
-            await this.syncSinglePost(wpPost, adminUserId);
-            synced++;
-            console.log(`[WordPress Sync] Synced post: ${wpPost.title.rendered}`);
-          } catch (error) {
-            console.error(`[WordPress Sync] Error syncing post ${wpPost.id}:`, error);
-            errors.push({ postId: wpPost.id, error: error instanceof Error ? error.message : String(error) });
+  private async processAndRecord(runId: number, wpPost: WordPressPost, authorId: number, counters: RunCounters): Promise<void> {
+    try {
+      const { outcome, postId } = await this.syncSinglePost(wpPost, authorId);
+      counters[outcome === 'restored' ? 'updated' : outcome]++;
+      await this.recordItem(runId, wpPost.id, outcome, { postId, title: wpPost.title.rendered });
+      if (outcome !== 'unchanged' && outcome !== 'removed') {
+        // Site stories are the originals that community submissions get compared against
+        await plagiarismService.indexPostById(postId);
+      }
+      if (outcome === 'updated' || outcome === 'restored') {
+        await annotationService.reanchorPostById(postId);
+      }
+      await this.notifyReaders(outcome, postId);
+    } catch (error) {
+      console.error(`[WordPress Sync] Error syncing post ${wpPost.id}:`, error);
+      counters.failed++;
+      await this.recordItem(runId, wpPost.id, 'failed', {
+        title: wpPost.title?.rendered,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Sync posts modified since the stored cursor ('incremental') or every post ('full'),
+   * then soft-hide local copies of posts that are no longer published upstream.
+   * The cursor is saved after each page, so an interrupted run resumes where it stopped.
+   */
+  async runSync(options: { trigger: SyncTrigger; mode?: SyncMode }): Promise<WordPressSyncRun> {
+    const mode = options.mode ?? 'incremental';
+    const cursorStart = mode === 'incremental' ? await this.getCursor() : null;
+    const run = await this.startRun(options.trigger, mode, cursorStart);
+    const counters: RunCounters = { created: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+    let cursorEnd = cursorStart;
+    let runError: string | null = null;
+
+    console.log(`[WordPress Sync] Starting ${mode} sync (run ${run.id}) from ${run.sourceUrl}`);
+
+    try {
+      const adminUserId = await this.getAdminUserId();
+      const modifiedAfter = cursorStart ? new Date(cursorStart.getTime() - CURSOR_OVERLAP_MS).toISOString() : null;
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const params = new URLSearchParams({
+          page: String(page),
+          per_page: String(this.batchSize),
+          status: 'publish',
+          orderby: 'modified',
+          order: 'asc',
+          _fields: POST_FIELDS
+        });
+        if (modifiedAfter) params.set('modified_after', modifiedAfter);
+
+        const result = await this.fetchJson<WordPressPost[]>(`${run.sourceUrl}/posts?${params}`);
+        totalPages = result.totalPages;
+
+        for (const wpPost of result.data) {
+          await this.processAndRecord(run.id, wpPost, adminUserId, counters);
+          const modified = wpPost.modified_gmt ? new Date(`${wpPost.modified_gmt}Z`) : null;
+          if (modified && !isNaN(modified.getTime()) && (!cursorEnd || modified > cursorEnd)) {
+            cursorEnd = modified;
           }
         }
 
-        // Check if there are more pages
-        const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1');
-        hasMore = page < totalPages;
-        page++;
+        if (cursorEnd && cursorEnd !== cursorStart) {
+          await storage.setSiteSetting(CURSOR_SETTING, cursorEnd.toISOString(), 'wordpress', 'Latest modified_gmt seen by the WordPress sync');
+        }
 
+        page++;
         // Add small delay to avoid overwhelming the API
         await new Promise(resolve => setTimeout(resolve, 200));
+      } while (page <= totalPages);
+
+      counters.removed = await this.detectRemovedPosts(run.id, run.sourceUrl);
+    } catch (error) {
+      console.error(`[WordPress Sync] Run ${run.id} failed:`, error);
+      runError = error instanceof Error ? error.message : String(error);
+    }
 
-      } catch (error) {
-        console.error(`[WordPress Sync] Error fetching page ${page}:`, error);
-        errors.push({ page, error: error instanceof Error ? error.message : String(error) });
-        hasMore = false;
+    return this.finishRun(run.id, counters, cursorEnd, runError);
+  }
+
+  /**
+   * Re-fetch only the posts that failed in a previous run
+   */
+  async retryFailed(runId: number): Promise<WordPressSyncRun> {
+    const failed = await db.select({ wordpressId: wordpressSyncItems.wordpressId })
+      .from(wordpressSyncItems)
+      .where(and(eq(wordpressSyncItems.runId, runId), eq(wordpressSyncItems.outcome, 'failed')));
+    const wordpressIds = Array.from(new Set(failed.map(item => item.wordpressId)));
+
+    const run = await this.startRun('retry', 'retry', null, runId);
+    const counters: RunCounters = { created: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+    let runError: string | null = null;
+
+    try {
+      const adminUserId = await this.getAdminUserId();
+      for (const wordpressId of wordpressIds) {
+        try {
+          const { data: wpPost } = await this.fetchJson<WordPressPost>(`${run.sourceUrl}/posts/${wordpressId}?_fields=${POST_FIELDS}`);
+          await this.processAndRecord(run.id, wpPost, adminUserId, counters);
+        } catch (error) {
+          counters.failed++;
+          await this.recordItem(run.id, wordpressId, 'failed', { error: error instanceof Error ? error.message : String(error) });
+        }
       }
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
     }
 
-    console.log(`[WordPress Sync] Completed. Synced ${synced} posts with ${errors.length} errors.`);
-    
-    return {
-      success: errors.length === 0,
-      synced,
-      errors
-    };
+    return this.finishRun(run.id, counters, null, runError);
   }
 
   /**
@@ -111,25 +306,9 @@ export class WordPressAPISync {
    */
   async syncOnePostById(wpId: number): Promise<{ success: boolean; synced: number; errors: any[] }> {
     try {
-      // Ensure admin user exists (same logic as syncAllPosts)
-      let adminUser = await db.select().from(users).where(eq(users.email, 'admin@storytelling.com')).limit(1);
-      if (adminUser.length === 0) {
-        const [newAdmin] = await db.insert(users).values({
-          username: 'admin',
-          email: 'admin@storytelling.com',
-          password_hash: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi',
-          isAdmin: true,
-          metadata: { fullName: 'Site Administrator', bio: 'WordPress content sync admin' }
-        }).returning();
-        adminUser = [newAdmin];
-      }
-      const adminUserId = adminUser[0].id;
-      
-      const response = await fetch(`${this.baseUrl}/posts/${wpId}?_fields=id,date,slug,title,content,excerpt,author,categories,tags,featured_media,status,type,modified`);
-      if (!response.ok) {
-        throw new Error(`WordPress API error: ${response.status} ${response.statusText}`);
-      }
-      const wpPost: WordPressPost = await response.json();
+      const adminUserId = await this.getAdminUserId();
+      const sourceUrl = await this.getSourceUrl();
+      const { data: wpPost } = await this.fetchJson<WordPressPost>(`${sourceUrl}/posts/${wpId}?_fields=${POST_FIELDS}`);
       await this.syncSinglePost(wpPost, adminUserId);
       return { success: true, synced: 1, errors: [] };
     } catch (error) {
@@ -137,7 +316,79 @@ export class WordPressAPISync {
     }
   }
 
-  private async syncSinglePost(wpPost: WordPressPost, authorId: number): Promise<void> {
+  /**
+   * Soft-hide local posts whose WordPress counterpart is deleted or no longer published.
+   * Returns the number of posts hidden.
+   */
+  private async detectRemovedPosts(runId: number, sourceUrl: string): Promise<number> {
+    const remoteIds = new Set<number>();
+    let page = 1;
+    let totalPages = 1;
+    do {
+      // Any failure here aborts removal detection; hiding posts on a partial listing would be destructive
+      const result = await this.fetchJson<Array<{ id: number }>>(`${sourceUrl}/posts?page=${page}&per_page=100&status=publish&_fields=id`);
+      result.data.forEach(post => remoteIds.add(post.id));
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    const localPosts = await db.select({ id: posts.id, title: posts.title, metadata: posts.metadata })
+      .from(posts)
+      .where(sql`metadata->>'source' = 'wordpress_api' AND metadata->>'wordpressId' IS NOT NULL AND metadata->>'removedUpstreamAt' IS NULL`);
+
+    if (remoteIds.size === 0 && localPosts.length > 0) {
+      console.warn('[WordPress Sync] Source returned no posts; skipping removal detection');
+      return 0;
+    }
+
+    let removed = 0;
+    for (const post of localPosts) {
+      const metadata = (post.metadata || {}) as Record<string, any>;
+      const wordpressId = Number(metadata.wordpressId);
+      if (remoteIds.has(wordpressId)) continue;
+
+      await db.update(posts)
+        .set({ metadata: { ...metadata, isHidden: true, removedUpstreamAt: new Date().toISOString() } })
+        .where(eq(posts.id, post.id));
+      await this.recordItem(runId, wordpressId, 'removed', { postId: post.id, title: post.title });
+      removed++;
+    }
+    return removed;
+  }
+
+  async getRuns(limit: number = 20): Promise<WordPressSyncRun[]> {
+    return db.select().from(wordpressSyncRuns).orderBy(desc(wordpressSyncRuns.startedAt)).limit(limit);
+  }
+
+  async getRun(runId: number): Promise<(WordPressSyncRun & { items: WordPressSyncItem[] }) | null> {
+    const [run] = await db.select().from(wordpressSyncRuns).where(eq(wordpressSyncRuns.id, runId)).limit(1);
+    if (!run) return null;
+    const items = await db.select().from(wordpressSyncItems)
+      .where(eq(wordpressSyncItems.runId, runId))
+      .orderBy(wordpressSyncItems.id);
+    return { ...run, items };
+  }
+
+  private contentHash(wpPost: WordPressPost): string {
+    return createHash('sha256')
+      .update(JSON.stringify([wpPost.title.rendered, wpPost.content.rendered, wpPost.excerpt.rendered, wpPost.slug, wpPost.categories, wpPost.tags]))
+      .digest('hex');
+  }
+
+  private async syncSinglePost(wpPost: WordPressPost, authorId: number): Promise<{ outcome: SyncOutcome; postId: number }> {
+    const contentHash = this.contentHash(wpPost);
+
+    // Check if post already exists
+    const existingPost = await db.select({ id: posts.id, metadata: posts.metadata }).from(posts)
+      .where(sql`metadata->>'wordpressId' = ${wpPost.id.toString()}`)
+      .limit(1);
+    const existingMetadata = (existingPost[0]?.metadata || {}) as Record<string, any>;
+    const wasRemoved = Boolean(existingMetadata.removedUpstreamAt);
+
+    if (existingPost.length > 0 && existingMetadata.contentHash === contentHash && !wasRemoved) {
+      return { outcome: 'unchanged', postId: existingPost[0].id };
+    }
+
     // Clean and process content
     const cleanContent = this.cleanWordPressContent(wpPost.content.rendered);
     const cleanExcerpt = this.cleanWordPressContent(wpPost.excerpt.rendered);
@@ -154,11 +405,6 @@ export class WordPressAPISync {
     // Determine theme category based on content and tags
     const themeCategory = this.determineThemeCategory(cleanContent, cleanTitle);
 
-    // Check if post already exists
-    const existingPost = await db.select().from(posts)
-      .where(sql`metadata->>'wordpressId' = ${wpPost.id.toString()}`)
-      .limit(1);
-
     const postData = {
       title: cleanTitle,
       content: cleanContent,
@@ -169,36 +415,67 @@ export class WordPressAPISync {
       isAdminPost: false,
       matureContent: this.detectMatureContent(cleanContent),
       themeCategory,
-      readingTimeMinutes,
-      likesCount: 0,
-      dislikesCount: 0,
-      metadata: {
-        wordpressId: wpPost.id,
-        originalAuthor: wpPost.author,
-        wordpressSlug: wpPost.slug,
-        categories: wpPost.categories,
-        tags: wpPost.tags,
-        featuredMedia: wpPost.featured_media,
-        publishDate: wpPost.date,
-        modifiedDate: wpPost.modified,
-        source: 'wordpress_api',
-        status: 'publish',
-        isAdminPost: true,
-        isCommunityPost: false
-      }
+      readingTimeMinutes
+    };
+
+    const { isHidden: _isHidden, removedUpstreamAt: _removedUpstreamAt, ...keptMetadata } = existingMetadata;
+    const metadata = {
+      ...(wasRemoved ? keptMetadata : existingMetadata),
+      wordpressId: wpPost.id,
+      originalAuthor: wpPost.author,
+      wordpressSlug: wpPost.slug,
+      categories: wpPost.categories,
+      tags: wpPost.tags,
+      featuredMedia: wpPost.featured_media,
+      publishDate: wpPost.date,
+      modifiedDate: wpPost.modified,
+      contentHash,
+      source: 'wordpress_api',
+      status: 'publish',
+      isAdminPost: true,
+      isCommunityPost: false
     };
 
     if (existingPost.length > 0) {
-      // Update existing post
+      // Update existing post; keep createdAt and reader counters
       await db.update(posts)
-        .set({
-          ...postData,
-          // Don't update createdAt for existing posts
-        })
+        .set({ ...postData, metadata })
         .where(eq(posts.id, existingPost[0].id));
-    } else {
-      // Create new post
-      await db.insert(posts).values(postData);
+      return { outcome: wasRemoved ? 'restored' : 'updated', postId: existingPost[0].id };
+    }
+
+    const [created] = await db.insert(posts)
+      .values({ ...postData, likesCount: 0, dislikesCount: 0, metadata })
+      .returning({ id: posts.id });
+    return { outcome: 'created', postId: created.id };
+  }
+
+  private async notifyReaders(outcome: SyncOutcome, postId: number): Promise<void> {
+    if (outcome === 'unchanged' || outcome === 'removed') return;
+
+    try {
+      const [post] = await db.select({
+        id: posts.id,
+        title: posts.title,
+        slug: posts.slug,
+        excerpt: posts.excerpt,
+        authorId: posts.authorId,
+        themeCategory: posts.themeCategory,
+        isSecret: posts.isSecret,
+        metadata: posts.metadata
+      }).from(posts).where(eq(posts.id, postId)).limit(1);
+      if (!post) return;
+
+      if (outcome === 'updated') {
+        await notificationService.bookmarkedStoryUpdated(post);
+        await webhookService.postEvent('post.updated', post);
+      } else {
+        await notificationService.storyPublished(post);
+        await webhookService.postEvent('post.published', post);
+      }
+    } catch (error) {
+      // The post itself synced fine; only the reader notifications are lost
+      console.error(`[WordPress Sync] Error notifying readers about post ${postId}:`, error);
     }
   }
 
@@ -300,10 +577,12 @@ export class WordPressAPISync {
       const wpPosts = await db.select({ count: sql<number>`count(*)` }).from(posts)
         .where(sql`metadata->>'source' = 'wordpress_api'`);
 
+      const [lastRun] = await this.getRuns(1);
+
       return {
         totalPosts: postCount[0]?.count || 0,
         wordPressPosts: wpPosts[0]?.count || 0,
-        lastSync: new Date().toISOString(),
+        lastSync: lastRun?.finishedAt?.toISOString() ?? null,
         status: 'operational'
       };
     } catch (error) {
@@ -1,9 +1,9 @@
 import cron from 'node-cron';
 import { wordpressSync } from './wordpress-api-sync';
+import { storage } from './storage';
 
 export class WordPressScheduler {
   private syncJob: cron.ScheduledTask | null = null;
-  private isRunning = false;
 
   start(): void {
     if (this.syncJob) {
@@ -11,30 +11,32 @@ export class WordPressScheduler {
       return;
     }
 
-    // Run sync every 6 hours
-    this.syncJob = cron.schedule('0 */6 * * *', async () => {
-      if (this.isRunning) {
+    // Incremental runs only fetch posts modified since the stored cursor, so they can run often
+    this.syncJob = cron.schedule('0 * * * *', async () => {
+      if (wordpressSync.isRunning()) {
         console.log('[WordPress Scheduler] Sync already in progress, skipping');
         return;
       }
 
-      this.isRunning = true;
+      const enabledSetting = await storage.getSiteSettingByKey('wordpress_sync_enabled');
+      if (enabledSetting?.value === 'false') {
+        return;
+      }
+
       console.log('[WordPress Scheduler] Starting scheduled sync');
 
       try {
-        const result = await wordpressSync.syncAllPosts();
-        console.log(`[WordPress Scheduler] Sync completed: ${result.synced} posts synced, ${result.errors.length} errors`);
+        const run = await wordpressSync.runSync({ trigger: 'scheduled' });
+        console.log(`[WordPress Scheduler] Sync ${run.status}: ${run.createdCount + run.updatedCount} posts synced, ${run.failedCount} errors`);
       } catch (error) {
         console.error('[WordPress Scheduler] Sync failed:', error);
-      } finally {
-        this.isRunning = false;
       }
     }, {
       scheduled: true,
       timezone: 'UTC'
     });
 
-    console.log('[WordPress Scheduler] Started - will sync every 6 hours');
+    console.log('[WordPress Scheduler] Started - will sync every hour');
   }
 
   stop(): void {
@@ -46,28 +48,25 @@ export class WordPressScheduler {
   }
 
   async runInitialSync(): Promise<void> {
-    if (this.isRunning) {
+    if (wordpressSync.isRunning()) {
       console.log('[WordPress Scheduler] Sync already in progress');
       return;
     }
 
-    this.isRunning = true;
     console.log('[WordPress Scheduler] Running initial sync to populate database');
 
     try {
-      const result = await wordpressSync.syncAllPosts();
-      console.log(`[WordPress Scheduler] Initial sync completed: ${result.synced} posts synced, ${result.errors.length} errors`);
+      const run = await wordpressSync.runSync({ trigger: 'initial', mode: 'full' });
+      console.log(`[WordPress Scheduler] Initial sync ${run.status}: ${run.createdCount + run.updatedCount} posts synced, ${run.failedCount} errors`);
     } catch (error) {
       console.error('[WordPress Scheduler] Initial sync failed:', error);
-    } finally {
-      this.isRunning = false;
     }
   }
 
   getStatus(): { running: boolean; nextRun: string | null } {
     return {
-      running: this.isRunning,
-      nextRun: this.syncJob ? 'Every 6 hours' : null
+      running: wordpressSync.isRunning(),
+      nextRun: this.syncJob ? 'Every hour' : null
     };
   }
 }
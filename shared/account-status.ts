@@ -0,0 +1,35 @@
+/**
+ * Account Restrictions
+ *
+ * Staff can suspend an account for a while or ban it outright. Both keep it from signing
+ * in, commenting and submitting stories; the server enforces this and the admin UI shows it.
+ */
+
+export type AccountRestriction = {
+  code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_BANNED';
+  message: string;
+  until?: Date;
+};
+
+interface RestrictionHolder {
+  suspendedUntil?: Date | string | null;
+  bannedAt?: Date | string | null;
+}
+
+/**
+ * Why an account may not sign in or post, or null if it may. Suspensions lapse on their
+ * own once the end date passes.
+ */
+export function accountRestriction(user: RestrictionHolder | null | undefined, now: Date = new Date()): AccountRestriction | null {
+  if (!user) return null;
+  if (user.bannedAt) {
+    return { code: 'ACCOUNT_BANNED', message: 'This account has been banned' };
+  }
+  if (user.suspendedUntil) {
+    const until = new Date(user.suspendedUntil);
+    if (until.getTime() > now.getTime()) {
+      return { code: 'ACCOUNT_SUSPENDED', message: `This account is suspended until ${until.toUTCString()}`, until };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Roles and Permissions
+ *
+ * Every account has one role. What a role may do is decided here, in one matrix shared by
+ * the server guards and the client, so the admin UI only offers what the API will allow.
+ */
+
+export const USER_ROLES = ['reader', 'author', 'moderator', 'editor', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'admin.access',          // Open the admin area and its dashboard
+  'comments.moderate',     // Work the moderation queue and resolve reports
+  'moderation.configure',  // Edit moderation rules and the allowlist
+  'posts.publish_own',     // Publish own stories without editorial review
+  'posts.review',          // Review submissions and similarity reports
+  'posts.publish',         // Publish, unpublish, schedule and feature any story
+  'posts.edit_any',        // Edit or delete stories by other writers
+  'analytics.view',        // Site analytics and activity
+  'users.view',            // Browse accounts
+  'users.manage',          // Change roles
+  'wordpress.sync',        // Run and configure the WordPress import
+  'settings.manage'        // Site settings
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const MODERATOR: Permission[] = ['admin.access', 'comments.moderate'];
+const EDITOR: Permission[] = [
+  ...MODERATOR,
+  'posts.publish_own',
+  'posts.review',
+  'posts.publish',
+  'posts.edit_any',
+  'analytics.view'
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  reader: [],
+  author: ['posts.publish_own'],
+  moderator: MODERATOR,
+  editor: EDITOR,
+  admin: PERMISSIONS
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  reader: 'Reader',
+  author: 'Author',
+  moderator: 'Moderator',
+  editor: 'Editor',
+  admin: 'Admin'
+};
+
+interface RoleHolder {
+  role?: string | null;
+  isAdmin?: boolean | null;
+}
+
+/**
+ * A user's role. The admin flag wins, so accounts made admin before roles existed (or by
+ * the create-admin script) keep full access.
+ */
+export function roleOf(user: RoleHolder | null | undefined): UserRole {
+  if (!user) return 'reader';
+  if (user.isAdmin) return 'admin';
+  if (user.role && (USER_ROLES as readonly string[]).includes(user.role)) {
+    return user.role as UserRole;
+  }
+  return 'reader';
+}
+
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[roleOf(user)].includes(permission);
+}
+
+/** Roles that grant a permission, e.g. to find everyone who can review submissions */
+export function rolesWith(permission: Permission): UserRole[] {
+  return USER_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/** Staff roles reach the admin area and so must sign in with a second factor */
+export function isStaff(user: RoleHolder | null | undefined): boolean {
+  return hasPermission(user, 'admin.access');
+}
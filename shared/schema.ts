@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, index, unique, json, jsonb, decimal, doublePrecision, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, index, unique, json, jsonb, decimal, doublePrecision, foreignKey, customType } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -11,6 +11,19 @@ const titleSchema = z.string().min(1).max(200).trim();
 const contentSchema = z.string().min(1).max(50000).trim();
 const slugSchema = z.string().min(1).max(255).regex(/^[a-zA-Z0-9-_]+$/, "Slug can only contain letters, numbers, hyphens, and underscores");
 
+// Postgres full-text search vector (maintained by database triggers, never written by the app)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  }
+});
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  }
+});
+
 // Users table with social auth fields
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -18,12 +31,19 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password_hash: text("password_hash").notNull(),
   isAdmin: boolean("is_admin").default(false).notNull(),
+  // One of USER_ROLES (see permissions.ts); isAdmin is kept true exactly for the admin role
+  role: text("role").default('reader').notNull(),
+  // Account restrictions set by staff (see account-status-service.ts)
+  suspendedUntil: timestamp("suspended_until"),
+  bannedAt: timestamp("banned_at"),
+  shadowMuted: boolean("shadow_muted").default(false).notNull(),
   // Profile data stored in metadata
   metadata: jsonb("metadata").default({}),
   createdAt: timestamp("created_at").defaultNow().notNull()
 }, (table) => ({
   emailIdx: index("email_idx").on(table.email),
-  usernameIdx: index("username_idx").on(table.username)
+  usernameIdx: index("username_idx").on(table.username),
+  roleIdx: index("user_role_idx").on(table.role)
 }));
 
 // Enhanced validation for user operations
@@ -69,10 +89,13 @@ export const posts = pgTable("posts", {
   likesCount: integer("likes_count").default(0),
   dislikesCount: integer("dislikes_count").default(0),
   metadata: json("metadata").default({}).notNull(),
+  // Set when a story is scheduled: it stays out of listings until then and is published by the scheduler
+  publishAt: timestamp("publish_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
 }, (table) => ({
   // Indexes for frequently accessed columns
   authorIdIdx: index("post_author_idx").on(table.authorId),
+  publishAtIdx: index("post_publish_at_idx").on(table.publishAt),
   createdAtIdx: index("post_created_at_idx").on(table.createdAt),
   themeCategoryIdx: index("post_theme_category_idx").on(table.themeCategory),
   titleIdx: index("post_title_idx").on(table.title)
@@ -87,6 +110,7 @@ export const insertPostSchema = createInsertSchema(posts, {
   authorId: z.number().int().positive(),
   themeCategory: z.string().max(50).optional(),
   readingTimeMinutes: z.number().int().min(1).max(999).optional(),
+  publishAt: z.coerce.date().nullable().optional(),
   metadata: z.record(z.unknown()).optional().default({})
 }).omit({
   id: true,
@@ -100,6 +124,84 @@ export const updatePostSchema = insertPostSchema.partial().omit({
   slug: true // Cannot change slug after creation
 });
 
+// Full-text search documents for posts.
+// Rows are kept in sync by the posts_search_document_trigger created in server/migrations.ts:
+// title is weighted 'A', excerpt 'B' and tag-stripped content 'C'.
+export const postSearchDocuments = pgTable("post_search_documents", {
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).primaryKey(),
+  document: tsvector("document").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  documentIdx: index("post_search_document_idx").using("gin", table.document)
+}));
+
+export const POST_REVISION_SOURCES = ['original', 'create', 'edit', 'restore'] as const;
+export type PostRevisionSource = typeof POST_REVISION_SOURCES[number];
+
+// Every saved version of a story. 'original' is the text a story had before history was
+// kept, recorded the first time it is edited.
+export const postRevisions = pgTable("post_revisions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  revisionNumber: integer("revision_number").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  excerpt: text("excerpt"),
+  themeCategory: text("theme_category"),
+  editorId: integer("editor_id").references(() => users.id, { onDelete: "set null" }),
+  source: text("source").$type<PostRevisionSource>().default("edit").notNull(),
+  restoredFromId: integer("restored_from_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  postRevisionUnique: unique("post_revisions_post_number_unique").on(table.postId, table.revisionNumber)
+}));
+
+// Unpublished work in the story editor, autosaved. A draft with a postId holds pending
+// edits to that story; one author has at most one such draft per story.
+export const storyDrafts = pgTable("story_drafts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }),
+  title: text("title").default("").notNull(),
+  content: text("content").default("").notNull(),
+  themeCategory: text("theme_category"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  authorUpdatedIdx: index("story_drafts_author_updated_idx").on(table.authorId, table.updatedAt),
+  authorPostUnique: unique("story_drafts_author_post_unique").on(table.authorId, table.postId)
+}));
+
+export const SUBMISSION_STATUSES = ['submitted', 'in_review', 'changes_requested', 'approved', 'scheduled', 'published', 'rejected'] as const;
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+// Editorial state of a community story. The story itself stays hidden until it is published.
+export const storySubmissions = pgTable("story_submissions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull().unique(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").$type<SubmissionStatus>().default("submitted").notNull(),
+  reviewerId: integer("reviewer_id").references(() => users.id, { onDelete: "set null" }),
+  scheduledFor: timestamp("scheduled_for"),
+  submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  statusUpdatedIdx: index("story_submissions_status_updated_idx").on(table.status, table.updatedAt),
+  authorIdx: index("story_submissions_author_idx").on(table.authorId),
+  reviewerIdx: index("story_submissions_reviewer_idx").on(table.reviewerId)
+}));
+
+// Notes from editors to the author of a submission; only the two of them see these
+export const submissionNotes = pgTable("submission_notes", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").references(() => storySubmissions.id, { onDelete: "cascade" }).notNull(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  submissionIdx: index("submission_notes_submission_idx").on(table.submissionId, table.createdAt)
+}));
+
 // Author Stats - removed fear rating
 export const authorStats = pgTable("author_stats", {
   id: serial("id").primaryKey(),
@@ -111,6 +213,25 @@ export const authorStats = pgTable("author_stats", {
 });
 
 // Unified comments table with self-referencing structure
+export const ANCHOR_STATUSES = ['anchored', 'moved', 'orphaned'] as const;
+export type AnchorStatus = typeof ANCHOR_STATUSES[number];
+
+// Where an annotation is pinned in the story. Offsets index the paragraph's text with
+// whitespace collapsed; prefix/suffix and the quote let it be found again after edits.
+export interface CommentAnchor {
+  paragraphId: string;
+  paragraphIndex: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  end: number;
+  status: AnchorStatus;
+  // The passage as first selected, kept when an edit changed the quoted words
+  originalQuote?: string;
+  anchoredAt: string;
+}
+
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
@@ -121,6 +242,8 @@ export const comments = pgTable("comments", {
   edited: boolean("edited").default(false).notNull(),
   editedAt: timestamp("edited_at"),
   metadata: json("metadata").default({}).notNull(),
+  // Set on annotations only; plain comments and replies have no anchor
+  anchor: jsonb("anchor").$type<CommentAnchor>(),
   createdAt: timestamp("created_at").defaultNow().notNull()
 }, (table) => {
   return {
@@ -183,13 +306,23 @@ export const commentVotes = pgTable("comment_votes", {
 }));
 
 // Reading Progress
+// One row per reader per story; the newest read wins when devices disagree
 export const readingProgress = pgTable("reading_progress", {
   id: serial("id").primaryKey(),
-  postId: integer("post_id").references(() => posts.id).notNull(),
-  userId: integer("user_id").references(() => users.id).notNull(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   progress: decimal("progress").notNull(),
+  // Index of the story paragraph at the top of the viewport and how far into it the reader was,
+  // which survives different screen sizes better than a raw scroll offset
+  paragraphIndex: integer("paragraph_index"),
+  paragraphOffset: doublePrecision("paragraph_offset"),
+  scrollOffset: integer("scroll_offset"),
+  deviceId: text("device_id"),
   lastReadAt: timestamp("last_read_at").defaultNow().notNull()
-});
+}, (table) => ({
+  userPostUnique: unique("reading_progress_user_post_unique").on(table.userId, table.postId),
+  userRecentIdx: index("reading_progress_user_recent_idx").on(table.userId, table.lastReadAt)
+}));
 
 // Secret Progress
 export const secretProgress = pgTable("secret_progress", {
@@ -214,21 +347,89 @@ export const contactMessages = pgTable("contact_messages", {
 export const newsletterSubscriptions = pgTable("newsletter_subscriptions", {
   id: serial("id").primaryKey(),
   email: text("email").notNull().unique(),
-  status: text("status").default("active").notNull(), // active, unsubscribed, bounced
+  status: text("status").default("pending").notNull(), // pending (awaiting confirmation), active, unsubscribed, bounced
   metadata: json("metadata").default({}),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
-});
+}, (table) => ({
+  statusUpdatedIdx: index("newsletter_subscriptions_status_updated_idx").on(table.status, table.updatedAt)
+}));
+
+export const NEWSLETTER_CAMPAIGN_KINDS = ['custom', 'digest'] as const;
+export type NewsletterCampaignKind = typeof NEWSLETTER_CAMPAIGN_KINDS[number];
+
+export const NEWSLETTER_CAMPAIGN_STATUSES = ['draft', 'scheduled', 'sending', 'sent', 'cancelled'] as const;
+export type NewsletterCampaignStatus = typeof NEWSLETTER_CAMPAIGN_STATUSES[number];
+
+// Newsletter issues; digests are generated from the stories published since the last one
+export const newsletterCampaigns = pgTable("newsletter_campaigns", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<NewsletterCampaignKind>().default("custom").notNull(),
+  subject: text("subject").notNull(),
+  previewText: text("preview_text"),
+  content: text("content").notNull(),
+  status: text("status").$type<NewsletterCampaignStatus>().default("draft").notNull(),
+  scheduledFor: timestamp("scheduled_for"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  recipientCount: integer("recipient_count").default(0).notNull(),
+  sentCount: integer("sent_count").default(0).notNull(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  dueIdx: index("newsletter_campaigns_due_idx").on(table.status, table.scheduledFor)
+}));
+
+export const NEWSLETTER_SEND_STATUSES = ['pending', 'queued', 'sent', 'failed', 'bounced', 'skipped'] as const;
+export type NewsletterSendStatus = typeof NEWSLETTER_SEND_STATUSES[number];
+
+// One row per recipient of a campaign, created when sending starts
+export const newsletterSends = pgTable("newsletter_sends", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").references(() => newsletterCampaigns.id, { onDelete: "cascade" }).notNull(),
+  subscriptionId: integer("subscription_id").references(() => newsletterSubscriptions.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(),
+  status: text("status").$type<NewsletterSendStatus>().default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  messageId: text("message_id"),
+  error: text("error"),
+  sentAt: timestamp("sent_at"),
+  bouncedAt: timestamp("bounced_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  campaignRecipientUnique: unique("newsletter_sends_campaign_subscription_unique").on(table.campaignId, table.subscriptionId),
+  campaignStatusIdx: index("newsletter_sends_campaign_status_idx").on(table.campaignId, table.status),
+  emailIdx: index("newsletter_sends_email_idx").on(table.email)
+}));
 
-// Sessions
+// Sessions; for browser sign-ins the token is the express session id (see session-service.ts)
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
   token: text("token").notNull().unique(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
   expiresAt: timestamp("expires_at").notNull(),
   lastAccessedAt: timestamp("last_accessed_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull()
-});
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId)
+}));
+
+// Browsers a user has signed in from, identified by a long-lived cookie (stored hashed), so
+// a sign-in from anywhere else can be reported to them
+export const knownDevices = pgTable("known_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  deviceHash: text("device_hash").notNull(),
+  userAgent: text("user_agent"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull()
+}, (table) => ({
+  userDeviceUnique: unique("known_devices_user_device_unique").on(table.userId, table.deviceHash)
+}));
 
 // Password Reset Tokens
 export const resetTokens = pgTable("reset_tokens", {
@@ -240,6 +441,86 @@ export const resetTokens = pgTable("reset_tokens", {
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// TOTP second factor; enabledAt stays null until the first code is verified
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Time step of the last accepted code, so a code cannot be replayed
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId)
+}));
+
+// Issued after a correct password when a second factor is still owed
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  purpose: text("purpose").notNull().default("login"), // login | setup
+  rememberMe: boolean("remember_me").default(false).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Every password sign-in attempt, shown to the account owner. userId is null when the email
+// matched no account; country is the ISO code GeoIP gave for the address at the time.
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  country: text("country"),
+  success: boolean("success").notNull(),
+  reason: text("reason"), // see LOGIN_ATTEMPT_REASONS
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  userCreatedIdx: index("login_attempts_user_created_idx").on(table.userId, table.createdAt)
+}));
+
+export const LOGIN_ATTEMPT_REASONS = ['bad_password', 'throttled', 'locked', 'restricted', 'confirmation_required', 'confirmed', 'magic_link'] as const;
+export type LoginAttemptReason = typeof LOGIN_ATTEMPT_REASONS[number];
+
+// Consecutive failed sign-ins; cleared by a successful sign-in or the emailed unlock link
+export const accountLockouts = pgTable("account_lockouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  failedAttempts: integer("failed_attempts").default(0).notNull(),
+  lastFailedAt: timestamp("last_failed_at"),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const LOGIN_TOKEN_PURPOSES = ['unlock', 'confirm_login', 'magic_link'] as const;
+export type LoginTokenPurpose = typeof LOGIN_TOKEN_PURPOSES[number];
+
+// Single-use sign-in links sent by email; only a hash of the token is kept. A magic link for
+// an address with no account yet has no userId, only the email the account will be created for.
+export const loginTokens = pgTable("login_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  email: text("email"),
+  purpose: text("purpose").notNull(), // see LOGIN_TOKEN_PURPOSES
+  tokenHash: text("token_hash").notNull().unique(),
+  rememberMe: boolean("remember_me").default(false).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Keep post likes table intact
 export const postLikes = pgTable("post_likes", {
   id: serial("id").primaryKey(),
@@ -250,43 +531,205 @@ export const postLikes = pgTable("post_likes", {
 });
 
 // Writing Challenges
+// Submissions are open from startDate to endDate, voting runs from endDate to votingEndDate
 export const writingChallenges = pgTable("writing_challenges", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  votingEndDate: timestamp("voting_end_date"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
 // Challenge Entries
 export const challengeEntries = pgTable("challenge_entries", {
   id: serial("id").primaryKey(),
-  challengeId: integer("challenge_id").references(() => writingChallenges.id).notNull(),
+  challengeId: integer("challenge_id").references(() => writingChallenges.id, { onDelete: "cascade" }).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  title: text("title"),
   content: text("content").notNull(),
-  submissionDate: timestamp("submission_date").defaultNow().notNull()
-});
+  // Set once the entry has been published as a community post
+  promotedPostId: integer("promoted_post_id").references(() => posts.id, { onDelete: "set null" }),
+  submissionDate: timestamp("submission_date").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+}, (table) => ({
+  userEntryUnique: unique().on(table.challengeId, table.userId),
+  challengeIdx: index("challenge_entries_challenge_idx").on(table.challengeId)
+}));
+
+// Challenge Votes (one per user per challenge)
+export const challengeVotes = pgTable("challenge_votes", {
+  id: serial("id").primaryKey(),
+  challengeId: integer("challenge_id").references(() => writingChallenges.id, { onDelete: "cascade" }).notNull(),
+  entryId: integer("entry_id").references(() => challengeEntries.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  userVoteUnique: unique().on(table.challengeId, table.userId),
+  entryIdx: index("challenge_votes_entry_idx").on(table.entryId)
+}));
 
 // Content Protection
+// One MinHash fingerprint per post (see server/utils/content-fingerprint.ts).
+// `bands` holds the LSH band keys used to find near-duplicate candidates.
 export const contentProtection = pgTable("content_protection", {
   id: serial("id").primaryKey(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).unique(),
   content: text("content").notNull(),
   hash: text("hash").notNull(),
+  signature: jsonb("signature").$type<number[]>(),
+  bands: text("bands").array(),
+  shingleCount: integer("shingle_count").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+}, (table) => ({
+  hashIdx: index("content_protection_hash_idx").on(table.hash),
+  bandsIdx: index("content_protection_bands_idx").using("gin", table.bands)
+}));
+
+export const SIMILARITY_REPORT_STATUSES = ['pending', 'dismissed', 'confirmed'] as const;
+export type SimilarityReportStatus = typeof SIMILARITY_REPORT_STATUSES[number];
+
+export interface SimilarityPassage {
+  text: string;
+  matchedText: string;
+  words: number;
+}
+
+// Near-duplicate matches found when a post was submitted or edited, reviewed by admins
+export const similarityReports = pgTable("similarity_reports", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  matchedPostId: integer("matched_post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  // Jaccard similarity of the two posts' shingle sets
+  score: doublePrecision("score").notNull(),
+  // Share of the submitted post's shingles that also appear in the matched post
+  containment: doublePrecision("containment").notNull(),
+  passages: jsonb("passages").$type<SimilarityPassage[]>().default([]).notNull(),
+  // Whether the submission was held back from publishing because of this match
+  held: boolean("held").default(false).notNull(),
+  status: text("status").$type<SimilarityReportStatus>().default('pending').notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
-});
+}, (table) => ({
+  postMatchUnique: unique().on(table.postId, table.matchedPostId),
+  statusIdx: index("similarity_reports_status_idx").on(table.status, table.createdAt)
+}));
 
-// Reported Content
+export const REPORT_CONTENT_TYPES = ['post', 'comment'] as const;
+export type ReportContentType = typeof REPORT_CONTENT_TYPES[number];
+
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'violence',
+  'sexual_content',
+  'self_harm',
+  'misinformation',
+  'plagiarism',
+  'inappropriate',
+  'other'
+] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_STATUSES = ['pending', 'resolved', 'dismissed'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+// What a moderator did about a reported piece of content
+export const REPORT_ACTIONS = ['remove_content', 'warn_author', 'dismiss'] as const;
+export type ReportAction = typeof REPORT_ACTIONS[number];
+
+// Reported Content: one row per reporter per piece of content
 export const reportedContent = pgTable("reported_content", {
   id: serial("id").primaryKey(),
   contentType: text("content_type").notNull(),
   contentId: integer("content_id").notNull(),
-  reporterId: integer("reporter_id").references(() => users.id).notNull(),
+  reporterId: integer("reporter_id").references(() => users.id, { onDelete: "set null" }),
+  // 'user:<id>' or 'anon:<session id>', so anonymous readers are de-duplicated too
+  reporterKey: text("reporter_key").notNull(),
   reason: text("reason").notNull(),
+  note: text("note"),
   status: text("status").default("pending").notNull(),
+  resolution: text("resolution"),
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  reporterUnique: unique("reported_content_reporter_unique").on(table.contentType, table.contentId, table.reporterKey),
+  statusIdx: index("reported_content_status_idx").on(table.status, table.contentType, table.contentId)
+}));
+
+// Moderation rule sets group rules that apply to one content context ('comment', 'post' or 'all')
+export const moderationRuleSets = pgTable("moderation_rule_sets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  context: text("context").default("comment").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  priority: integer("priority").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Individual moderation rules
+// type: word_list | regex | link_limit | new_account
+// action: hold | mask | reject | shadow_hide
+export const moderationRules = pgTable("moderation_rules", {
+  id: serial("id").primaryKey(),
+  ruleSetId: integer("rule_set_id").references(() => moderationRuleSets.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  action: text("action").notNull(),
+  config: jsonb("config").default({}).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  ruleSetIdx: index("moderation_rule_set_idx").on(table.ruleSetId)
+}));
+
+// Terms that never trigger a rule in the given context.
+// context is 'global', a content type ('comment', 'post') or 'theme:<category>'
+export const moderationAllowlist = pgTable("moderation_allowlist", {
+  id: serial("id").primaryKey(),
+  term: text("term").notNull(),
+  context: text("context").default("global").notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  termContextUnique: unique().on(table.term, table.context)
+}));
+
+// Decision log: one row per rule that fired, per flag, and per manual review
+// status: pending (in the review queue) | approved | rejected | applied (no review needed)
+export const moderationDecisions = pgTable("moderation_decisions", {
+  id: serial("id").primaryKey(),
+  contentType: text("content_type").notNull(),
+  contentId: integer("content_id"),
+  ruleId: integer("rule_id").references(() => moderationRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name"),
+  action: text("action").notNull(),
+  source: text("source").default("automatic").notNull(), // automatic, flag, manual, report
+  status: text("status").default("applied").notNull(),
+  matched: text("matched").array(),
+  reason: text("reason"),
+  contentSnapshot: text("content_snapshot"),
+  actorKey: text("actor_key"),
+  reviewerId: integer("reviewer_id").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  contentIdx: index("moderation_decision_content_idx").on(table.contentType, table.contentId),
+  statusIdx: index("moderation_decision_status_idx").on(table.status)
+}));
+
 // Author Tips
 export const authorTips = pgTable("author_tips", {
   id: serial("id").primaryKey(),
@@ -297,14 +740,99 @@ export const authorTips = pgTable("author_tips", {
 });
 
 // Webhooks
+export const WEBHOOK_EVENTS = [
+  'post.published',
+  'post.updated',
+  'comment.created',
+  'comment.flagged',
+  'newsletter.subscribed',
+  'payment.succeeded'
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// 'discord' endpoints get a chat message instead of the signed JSON envelope
+export const WEBHOOK_FORMATS = ['json', 'discord'] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
 export const webhooks = pgTable("webhooks", {
   id: serial("id").primaryKey(),
+  name: text("name"),
   url: text("url").notNull(),
   events: text("events").array().notNull(),
+  format: text("format").default('json').notNull(),
+  secret: text("secret"),
   active: boolean("active").default(true).notNull(),
+  // Failed attempts since the last successful delivery
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lastDeliveryAt: timestamp("last_delivery_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  disabledAt: timestamp("disabled_at"),
+  disabledReason: text("disabled_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").references(() => webhooks.id, { onDelete: "cascade" }).notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  // pending -> succeeded | failed (retries exhausted)
+  status: text("status").default('pending').notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  dueIdx: index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  webhookCreatedIdx: index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt)
+}));
+
+export const EMAIL_OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'failed', 'cancelled'] as const;
+export type EmailOutboxStatus = typeof EMAIL_OUTBOX_STATUSES[number];
+
+export interface EmailOutboxAttempt {
+  provider: string;
+  success: boolean;
+  error?: string;
+  at: string;
+}
+
+// Every outgoing email is queued here first and delivered by the outbox worker.
+// Attachments are stored base64-encoded; `reference` ties a message back to what sent it.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  category: text("category").default("general").notNull(),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  subject: text("subject").notNull(),
+  html: text("html"),
+  text: text("text"),
+  fromAddress: text("from_address"),
+  replyTo: text("reply_to"),
+  headers: jsonb("headers").$type<Record<string, string>>(),
+  attachments: jsonb("attachments").$type<{ filename: string; content: string; contentType?: string }[]>(),
+  reference: text("reference"),
+  status: text("status").$type<EmailOutboxStatus>().default("queued").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  provider: text("provider"),
+  messageId: text("message_id"),
+  lastError: text("last_error"),
+  attemptLog: jsonb("attempt_log").$type<EmailOutboxAttempt[]>().default([]).notNull(),
+  resentFromId: integer("resent_from_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  dueIdx: index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  createdIdx: index("email_outbox_created_idx").on(table.createdAt),
+  referenceIdx: index("email_outbox_reference_idx").on(table.reference)
+}));
+
 // Analytics
 export const analytics = pgTable("analytics", {
   id: serial("id").primaryKey(),
@@ -333,6 +861,19 @@ export const performanceMetrics = pgTable("performance_metrics", {
   userAgent: text("user_agent"),
 });
 
+// Search queries (persisted so trending suggestions survive restarts)
+export const searchQueries = pgTable("search_queries", {
+  id: serial("id").primaryKey(),
+  query: text("query").notNull().unique(),
+  searchCount: integer("search_count").default(1).notNull(),
+  lastResultCount: integer("last_result_count").default(0).notNull(),
+  lastSearchedAt: timestamp("last_searched_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  searchCountIdx: index("search_query_count_idx").on(table.searchCount),
+  lastSearchedAtIdx: index("search_query_last_searched_idx").on(table.lastSearchedAt)
+}));
+
 // Activity Logs
 export const activityLogs = pgTable("activity_logs", {
   id: serial("id").primaryKey(),
@@ -354,6 +895,45 @@ export const siteSettings = pgTable("site_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// WordPress sync run history
+// trigger: scheduled | manual | retry | initial; mode: incremental | full | retry
+// status: running | success | partial | error | interrupted
+export const wordpressSyncRuns = pgTable("wordpress_sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(),
+  mode: text("mode").notNull(),
+  status: text("status").default("running").notNull(),
+  sourceUrl: text("source_url").notNull(),
+  cursorStart: timestamp("cursor_start"),
+  cursorEnd: timestamp("cursor_end"),
+  createdCount: integer("created_count").default(0).notNull(),
+  updatedCount: integer("updated_count").default(0).notNull(),
+  unchangedCount: integer("unchanged_count").default(0).notNull(),
+  removedCount: integer("removed_count").default(0).notNull(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  error: text("error"),
+  retryOfRunId: integer("retry_of_run_id"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at")
+}, (table) => ({
+  startedAtIdx: index("wordpress_sync_run_started_idx").on(table.startedAt)
+}));
+
+// Per-post outcome of a sync run: created | updated | unchanged | removed | restored | failed
+export const wordpressSyncItems = pgTable("wordpress_sync_items", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => wordpressSyncRuns.id, { onDelete: "cascade" }).notNull(),
+  wordpressId: integer("wordpress_id").notNull(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "set null" }),
+  title: text("title"),
+  outcome: text("outcome").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  runIdx: index("wordpress_sync_item_run_idx").on(table.runId),
+  outcomeIdx: index("wordpress_sync_item_outcome_idx").on(table.outcome)
+}));
+
 // Admin Notifications
 export const adminNotifications = pgTable("admin_notifications", {
   id: serial("id").primaryKey(),
@@ -365,6 +945,53 @@ export const adminNotifications = pgTable("admin_notifications", {
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Reader-facing notifications; the table itself predates this model (see migrations)
+export const NOTIFICATION_TYPES = ['comment_reply', 'new_story', 'moderation_decision', 'bookmark_update'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface UserNotificationData {
+  link?: string;
+  postId?: number;
+  commentId?: number;
+  [key: string]: unknown;
+}
+
+export const userNotifications = pgTable("user_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  isRead: boolean("is_read").default(false).notNull(),
+  data: jsonb("data").$type<UserNotificationData>().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  userCreatedIdx: index("user_notifications_user_created_idx").on(table.userId, table.createdAt)
+}));
+
+// Generic per-user key/value preferences (notification toggles are stored as "notifications.<type>")
+export const userPreferences = pgTable("user_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  preferenceName: text("preference_name").notNull(),
+  preferenceValue: text("preference_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  userPreferenceUnique: unique().on(table.userId, table.preferenceName)
+}));
+
+// Theme categories a reader wants new-story notifications for
+export const themeFollows = pgTable("theme_follows", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  themeCategory: text("theme_category").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  userThemeUnique: unique().on(table.userId, table.themeCategory),
+  themeIdx: index("theme_follows_theme_idx").on(table.themeCategory)
+}));
+
 // Achievement system tables removed
 
 export const userProgress = pgTable("user_progress", {
@@ -434,6 +1061,49 @@ export const userPrivacySettings = pgTable("user_privacy_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+export const DATA_EXPORT_STATUSES = ['pending', 'processing', 'ready', 'failed', 'expired'] as const;
+export type DataExportStatus = typeof DATA_EXPORT_STATUSES[number];
+
+// Personal data exports, built in the background; the zip is dropped once the link expires
+export const dataExportRequests = pgTable("data_export_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").$type<DataExportStatus>().default("pending").notNull(),
+  archive: bytea("archive"),
+  archiveSize: integer("archive_size"),
+  error: text("error"),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+  downloadedAt: timestamp("downloaded_at")
+}, (table) => ({
+  userRequestedIdx: index("data_export_user_requested_idx").on(table.userId, table.requestedAt),
+  statusIdx: index("data_export_status_idx").on(table.status)
+}));
+
+export const ACCOUNT_DELETION_STATUSES = ['scheduled', 'cancelled', 'completed'] as const;
+export type AccountDeletionStatus = typeof ACCOUNT_DELETION_STATUSES[number];
+
+export const COMMENT_DELETION_CHOICES = ['anonymize', 'delete'] as const;
+export type CommentDeletionChoice = typeof COMMENT_DELETION_CHOICES[number];
+
+// Account deletions wait out a grace period during which the owner can sign in and cancel.
+// userId survives completion because the account row is scrubbed rather than dropped.
+export const accountDeletionRequests = pgTable("account_deletion_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").$type<AccountDeletionStatus>().default("scheduled").notNull(),
+  commentsAction: text("comments_action").$type<CommentDeletionChoice>().default("anonymize").notNull(),
+  reason: text("reason"),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  completedAt: timestamp("completed_at")
+}, (table) => ({
+  userStatusIdx: index("account_deletion_user_status_idx").on(table.userId, table.status),
+  dueIdx: index("account_deletion_due_idx").on(table.status, table.scheduledFor)
+}));
+
 
 // Update login schema to use email instead of username
 export const loginSchema = z.object({
@@ -462,7 +1132,7 @@ export type PostMetadata = {
   isApproved?: boolean;
   isAdminPost?: boolean; // Added to explicitly mark admin posts
   isHidden?: boolean; // Added to control visibility
-  status?: 'pending' | 'approved' | 'publish';
+  status?: 'pending' | 'approved' | 'publish' | 'scheduled';
   triggerWarnings?: string[];
   themeCategory?: string;
   themeIcon?: string; // Added explicit support for themeIcon in metadata
@@ -510,16 +1180,26 @@ export const insertNewsletterSubscriptionSchema = createInsertSchema(newsletterS
 });
 export type InsertNewsletterSubscription = z.infer<typeof insertNewsletterSubscriptionSchema>;
 export type NewsletterSubscription = typeof newsletterSubscriptions.$inferSelect;
+export type NewsletterCampaign = typeof newsletterCampaigns.$inferSelect;
+export type NewsletterSend = typeof newsletterSends.$inferSelect;
 
 export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, createdAt: true });
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
+export type KnownDevice = typeof knownDevices.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type LoginToken = typeof loginTokens.$inferSelect;
 
 // Reset Token Schema
 export const insertResetTokenSchema = createInsertSchema(resetTokens).omit({ id: true, createdAt: true });
 export type InsertResetToken = z.infer<typeof insertResetTokenSchema>;
 export type ResetToken = typeof resetTokens.$inferSelect;
 
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+
 export type PostLike = typeof postLikes.$inferSelect;
 
 // Update the insert schema for comment replies
@@ -548,18 +1228,42 @@ export const insertWritingChallengeSchema = createInsertSchema(writingChallenges
 export type InsertWritingChallenge = z.infer<typeof insertWritingChallengeSchema>;
 export type WritingChallenge = typeof writingChallenges.$inferSelect;
 
-export const insertChallengeEntrySchema = createInsertSchema(challengeEntries).omit({ id: true, submissionDate: true });
+export const insertChallengeEntrySchema = createInsertSchema(challengeEntries).omit({ id: true, submissionDate: true, updatedAt: true, promotedPostId: true });
 export type InsertChallengeEntry = z.infer<typeof insertChallengeEntrySchema>;
 export type ChallengeEntry = typeof challengeEntries.$inferSelect;
+export type ChallengeVote = typeof challengeVotes.$inferSelect;
+
+export const CHALLENGE_PHASES = ['upcoming', 'open', 'voting', 'closed'] as const;
+export type ChallengePhase = typeof CHALLENGE_PHASES[number];
 
 export const insertContentProtectionSchema = createInsertSchema(contentProtection).omit({ id: true, createdAt: true });
 export type InsertContentProtection = z.infer<typeof insertContentProtectionSchema>;
 export type ContentProtection = typeof contentProtection.$inferSelect;
+export type SimilarityReport = typeof similarityReports.$inferSelect;
 
 export const insertReportedContentSchema = createInsertSchema(reportedContent).omit({ id: true, createdAt: true });
 export type InsertReportedContent = z.infer<typeof insertReportedContentSchema>;
 export type ReportedContent = typeof reportedContent.$inferSelect;
 
+export type WordPressSyncRun = typeof wordpressSyncRuns.$inferSelect;
+export type WordPressSyncItem = typeof wordpressSyncItems.$inferSelect;
+
+export const insertModerationRuleSetSchema = createInsertSchema(moderationRuleSets).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertModerationRuleSet = z.infer<typeof insertModerationRuleSetSchema>;
+export type ModerationRuleSet = typeof moderationRuleSets.$inferSelect;
+
+export const insertModerationRuleSchema = createInsertSchema(moderationRules).omit({ id: true, createdAt: true, updatedAt: true });
+export type InsertModerationRule = z.infer<typeof insertModerationRuleSchema>;
+export type ModerationRule = typeof moderationRules.$inferSelect;
+
+export const insertModerationAllowlistSchema = createInsertSchema(moderationAllowlist).omit({ id: true, createdAt: true });
+export type InsertModerationAllowlistEntry = z.infer<typeof insertModerationAllowlistSchema>;
+export type ModerationAllowlistEntry = typeof moderationAllowlist.$inferSelect;
+
+export const insertModerationDecisionSchema = createInsertSchema(moderationDecisions).omit({ id: true, createdAt: true });
+export type InsertModerationDecision = z.infer<typeof insertModerationDecisionSchema>;
+export type ModerationDecision = typeof moderationDecisions.$inferSelect;
+
 export const insertAuthorTipSchema = createInsertSchema(authorTips).omit({ id: true, createdAt: true });
 export type InsertAuthorTip = z.infer<typeof insertAuthorTipSchema>;
 export type AuthorTip = typeof authorTips.$inferSelect;
@@ -567,9 +1271,21 @@ export type AuthorTip = typeof authorTips.$inferSelect;
 export const insertWebhookSchema = createInsertSchema(webhooks).omit({ id: true, createdAt: true });
 export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
 export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+
+export type DataExportRequest = typeof dataExportRequests.$inferSelect;
+export type AccountDeletionRequest = typeof accountDeletionRequests.$inferSelect;
 
 export type Analytics = typeof analytics.$inferSelect;
 
+export type PostSearchDocument = typeof postSearchDocuments.$inferSelect;
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type StoryDraft = typeof storyDrafts.$inferSelect;
+export type StorySubmission = typeof storySubmissions.$inferSelect;
+export type SubmissionNote = typeof submissionNotes.$inferSelect;
+export type SearchQuery = typeof searchQueries.$inferSelect;
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({ id: true, createdAt: true });
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
@@ -582,6 +1298,9 @@ export const insertAdminNotificationSchema = createInsertSchema(adminNotificatio
 export type InsertAdminNotification = z.infer<typeof insertAdminNotificationSchema>;
 export type AdminNotification = typeof adminNotifications.$inferSelect;
 
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type InsertUserNotification = typeof userNotifications.$inferInsert;
+
 // Add new insert schemas and types
 // Achievement system schemas removed
 
@@ -632,6 +1351,16 @@ export interface CommentMetadata {
   downvotes?: number;
   replyCount?: number;
   sanitized?: boolean; // Flag to indicate content was sanitized
+  // Set by the moderation engine; shadow-hidden comments are only shown to their author
+  moderation?: {
+    status: 'held' | 'masked' | 'shadow_hidden' | 'approved' | 'rejected';
+    ruleIds?: number[];
+    // Hidden because the author is shadow-muted rather than by a rule
+    muted?: boolean;
+    updatedAt: string;
+  };
+  // Hidden automatically after enough reader reports, until a moderator resolves them
+  reportHold?: boolean;
 }
 
 // Add insert schema and types for performance metrics
@@ -804,9 +1533,11 @@ export const authorStatsRelations = relations(authorStats, ({ one }) => ({
 
 export const writingChallengesRelations = relations(writingChallenges, ({ many }) => ({
   entries: many(challengeEntries),
+  votes: many(challengeVotes),
 }));
 
-export const challengeEntriesRelations = relations(challengeEntries, ({ one }) => ({
+export const challengeEntriesRelations = relations(challengeEntries, ({ one, many }) => ({
+  votes: many(challengeVotes),
   challenge: one(writingChallenges, {
     fields: [challengeEntries.challengeId],
     references: [writingChallenges.id],
@@ -817,6 +1548,21 @@ export const challengeEntriesRelations = relations(challengeEntries, ({ one }) =
   }),
 }));
 
+export const challengeVotesRelations = relations(challengeVotes, ({ one }) => ({
+  challenge: one(writingChallenges, {
+    fields: [challengeVotes.challengeId],
+    references: [writingChallenges.id],
+  }),
+  entry: one(challengeEntries, {
+    fields: [challengeVotes.entryId],
+    references: [challengeEntries.id],
+  }),
+  user: one(users, {
+    fields: [challengeVotes.userId],
+    references: [users.id],
+  }),
+}));
+
 export const reportedContentRelations = relations(reportedContent, ({ one }) => ({
   reporter: one(users, {
     fields: [reportedContent.reporterId],
@@ -824,6 +1570,17 @@ export const reportedContentRelations = relations(reportedContent, ({ one }) =>
   }),
 }));
 
+export const moderationRuleSetsRelations = relations(moderationRuleSets, ({ many }) => ({
+  rules: many(moderationRules),
+}));
+
+export const moderationRulesRelations = relations(moderationRules, ({ one }) => ({
+  ruleSet: one(moderationRuleSets, {
+    fields: [moderationRules.ruleSetId],
+    references: [moderationRuleSets.id],
+  }),
+}));
+
 export const authorTipsRelations = relations(authorTips, ({ one }) => ({
   author: one(users, {
     fields: [authorTips.authorId],
@@ -0,0 +1,206 @@
+/**
+ * Text anchoring for annotations.
+ *
+ * An annotation remembers the paragraph it sits in (by a hash of the paragraph's text and by
+ * position), the quoted passage, and a little context either side. When the story is edited
+ * the quote is looked for again: first exactly, then approximately, so small rewording
+ * doesn't detach readers' notes. Shared so the reader resolves paragraphs the same way the
+ * server does.
+ */
+
+export const ANCHOR_CONTEXT_LENGTH = 32;
+export const MAX_QUOTE_LENGTH = 500;
+// Share of the quote that may differ (edit distance) and still count as the same passage
+export const MAX_FUZZY_ERROR_RATE = 0.25;
+
+export interface AnchorParagraph {
+  id: string;
+  index: number;
+  text: string;
+}
+
+export interface QuoteMatch {
+  paragraphIndex: number;
+  start: number;
+  end: number;
+  errors: number;
+}
+
+export interface AnchorTarget {
+  paragraphId: string;
+  paragraphIndex: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  hellip: '…', mdash: '—', ndash: '–'
+};
+
+export function normalizeAnchorText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Short stable id for a paragraph's text (FNV-1a), identical in the browser and on the server */
+export function paragraphAnchorId(text: string): string {
+  const normalized = normalizeAnchorText(text);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `p${(hash >>> 0).toString(36)}`;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Paragraphs as the reader renders them: one per <p> element, or blank-line separated
+ * blocks for plain-text stories. Empty paragraphs are skipped on both sides.
+ */
+export function extractParagraphs(html: string): AnchorParagraph[] {
+  const blocks = /<p[\s>]/i.test(html)
+    ? Array.from(html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi), match => match[1])
+    : html.split(/\n\s*\n/);
+
+  return blocks
+    .map(block => normalizeAnchorText(decodeEntities(block.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ''))))
+    .filter(text => text.length > 0)
+    .map((text, index) => ({ id: paragraphAnchorId(text), index, text }));
+}
+
+/** Length of the common run at the end of `a` and the end of `b` */
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+/** Every exact occurrence, ranked by how well the surrounding text matches and closeness to the hint */
+function bestExactOccurrence(text: string, target: Pick<AnchorTarget, 'quote' | 'prefix' | 'suffix'>, hint: number): number | null {
+  let best: { start: number; score: number } | null = null;
+  for (let start = text.indexOf(target.quote); start !== -1; start = text.indexOf(target.quote, start + 1)) {
+    const before = text.slice(Math.max(start - ANCHOR_CONTEXT_LENGTH, 0), start);
+    const after = text.slice(start + target.quote.length, start + target.quote.length + ANCHOR_CONTEXT_LENGTH);
+    const score = commonSuffixLength(before, target.prefix) + commonPrefixLength(after, target.suffix)
+      - Math.abs(start - hint) / 1000;
+    if (!best || score > best.score) best = { start, score };
+  }
+  return best ? best.start : null;
+}
+
+/**
+ * Approximate substring search (Sellers' variant of edit distance): the end of the
+ * lowest-cost match of `pattern` anywhere in `text`.
+ */
+function bestApproximateEnd(text: string, pattern: string): { end: number; errors: number } {
+  const m = pattern.length;
+  let previous = Array.from({ length: m + 1 }, (_, i) => i);
+  let best = { end: 0, errors: m };
+
+  for (let j = 1; j <= text.length; j++) {
+    const current = new Array<number>(m + 1);
+    current[0] = 0;
+    for (let i = 1; i <= m; i++) {
+      const substitution = previous[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      current[i] = Math.min(previous[i] + 1, current[i - 1] + 1, substitution);
+    }
+    if (current[m] < best.errors) best = { end: j, errors: current[m] };
+    previous = current;
+  }
+  return best;
+}
+
+// Reversed by UTF-16 unit, so offsets into the result map straight back onto the original
+function reverse(text: string): string {
+  return text.split('').reverse().join('');
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}']/u.test(char);
+}
+
+/** Widen a fuzzy match that starts or ends mid-word to the whole word */
+function snapToWords(text: string, start: number, end: number): { start: number; end: number } {
+  while (start > 0 && isWordChar(text[start - 1]) && isWordChar(text[start])) start--;
+  while (end < text.length && isWordChar(text[end - 1]) && isWordChar(text[end])) end++;
+  return { start, end };
+}
+
+/** Closest approximate occurrence of `quote` in `text`, or null when too much of it changed */
+export function findApproximateQuote(text: string, quote: string): { start: number; end: number; errors: number } | null {
+  const maxErrors = Math.floor(quote.length * MAX_FUZZY_ERROR_RATE);
+  const { end, errors } = bestApproximateEnd(text, quote);
+  if (errors > maxErrors) return null;
+
+  // Walk back from the end with both strings reversed to find where the match starts
+  const windowStart = Math.max(end - quote.length - maxErrors, 0);
+  const backwards = bestApproximateEnd(reverse(text.slice(windowStart, end)), reverse(quote));
+  return { ...snapToWords(text, end - backwards.end, end), errors };
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(word => word.length > 2));
+}
+
+/**
+ * Find an anchor's passage in (possibly edited) paragraphs. Tries the same paragraph first,
+ * then an exact quote anywhere, then a fuzzy match in paragraphs sharing most of the quote's
+ * words, preferring ones near where the passage used to be.
+ */
+export function locateAnchor(paragraphs: AnchorParagraph[], target: AnchorTarget): QuoteMatch | null {
+  const byId = paragraphs.find(paragraph => paragraph.id === target.paragraphId);
+  const ordered = [...paragraphs].sort((a, b) =>
+    Math.abs(a.index - target.paragraphIndex) - Math.abs(b.index - target.paragraphIndex));
+  const candidates = byId ? [byId, ...ordered.filter(paragraph => paragraph !== byId)] : ordered;
+
+  for (const paragraph of candidates) {
+    const hint = paragraph.index === target.paragraphIndex ? target.start : 0;
+    const start = bestExactOccurrence(paragraph.text, target, hint);
+    if (start !== null) {
+      return { paragraphIndex: paragraph.index, start, end: start + target.quote.length, errors: 0 };
+    }
+  }
+
+  const quoteWords = wordSet(target.quote);
+  let best: QuoteMatch | null = null;
+  for (const paragraph of candidates) {
+    if (quoteWords.size > 0) {
+      const paragraphWords = wordSet(paragraph.text);
+      let shared = 0;
+      quoteWords.forEach(word => { if (paragraphWords.has(word)) shared++; });
+      if (shared / quoteWords.size < 0.5) continue;
+    }
+    const match = findApproximateQuote(paragraph.text, target.quote);
+    if (match && (!best || match.errors < best.errors)) {
+      best = { paragraphIndex: paragraph.index, ...match };
+    }
+  }
+  return best;
+}
+
+/** Context stored either side of a passage so repeated phrases can be told apart later */
+export function anchorContext(text: string, start: number, end: number): { prefix: string; suffix: string } {
+  return {
+    prefix: text.slice(Math.max(start - ANCHOR_CONTEXT_LENGTH, 0), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH)
+  };
+}